@@ -0,0 +1,32 @@
+-- Get Kraken - Achievements
+-- Run this SQL in your Supabase SQL editor AFTER ADD_REWARD_RULES.sql
+--
+-- Achievement definitions live in the app (src/utils/achievements.ts); this
+-- table only records which ones each member has unlocked, and when.
+
+-- Step 1: Unlock records, one per member and achievement
+CREATE TABLE IF NOT EXISTS user_achievements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  household_id UUID NOT NULL DEFAULT current_household_id() REFERENCES households(id) ON DELETE CASCADE,
+  achievement_id TEXT NOT NULL,
+  unlocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_user_id ON user_achievements(user_id);
+
+-- Step 2: RLS - members see their own unlocks and can only add to them
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own achievements" ON user_achievements;
+CREATE POLICY "Users can view their own achievements"
+  ON user_achievements FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can unlock their own achievements" ON user_achievements;
+CREATE POLICY "Users can unlock their own achievements"
+  ON user_achievements FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND household_id = current_household_id());
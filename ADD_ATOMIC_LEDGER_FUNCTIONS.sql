@@ -0,0 +1,136 @@
+-- Get Kraken - Atomic Ledger Functions
+-- Run this SQL in your Supabase SQL editor to move quest completion and
+-- shop purchases into single server-side transactions.
+--
+-- Each function inserts the log row AND applies the wallet delta in one
+-- transaction, using the effective reward/price (user override or base)
+-- resolved on the server. The updated wallet row is returned so the client
+-- never has to compute a new total itself.
+
+-- Wallet upserts below rely on one wallet row per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallets_user_id_unique ON wallets(user_id);
+
+-- Complete a quest: log the completion and credit the wallet
+CREATE OR REPLACE FUNCTION complete_quest(p_quest_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward INTEGER;
+  v_dollar_amount INTEGER;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Resolve effective values: user override wins over base quest
+  SELECT
+    COALESCE(o.reward, q.reward),
+    COALESCE(o.dollar_amount, q.dollar_amount, 0)
+  INTO v_reward, v_dollar_amount
+  FROM quests q
+  LEFT JOIN user_quest_overrides o
+    ON o.quest_id = q.id AND o.user_id = v_user_id
+  WHERE q.id = p_quest_id
+    AND (q.created_by IS NULL OR q.created_by = v_user_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+
+  INSERT INTO quest_logs (quest_id, user_id, completed_at)
+  VALUES (p_quest_id, v_user_id, NOW());
+
+  INSERT INTO wallets (user_id, id, total, dollar_total, updated_at)
+  VALUES (v_user_id, NULL, v_reward, v_dollar_amount, NOW())
+  ON CONFLICT (user_id) DO UPDATE
+    SET total = wallets.total + EXCLUDED.total,
+        dollar_total = COALESCE(wallets.dollar_total, 0) + EXCLUDED.dollar_total,
+        updated_at = NOW()
+  RETURNING * INTO v_wallet;
+
+  RETURN v_wallet;
+END;
+$$;
+
+-- Purchase a shop item: log the purchase and debit the wallet
+CREATE OR REPLACE FUNCTION purchase_item(p_item_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_price INTEGER;
+  v_dollar_amount INTEGER;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Resolve effective values: user override wins over base item
+  SELECT
+    COALESCE(o.price, i.price),
+    COALESCE(o.dollar_amount, i.dollar_amount, 0)
+  INTO v_price, v_dollar_amount
+  FROM shop_items i
+  LEFT JOIN user_shop_item_overrides o
+    ON o.shop_item_id = i.id AND o.user_id = v_user_id
+  WHERE i.id = p_item_id
+    AND (i.created_by IS NULL OR i.created_by = v_user_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop item not found';
+  END IF;
+
+  INSERT INTO shop_logs (shop_item_id, user_id, purchased_at)
+  VALUES (p_item_id, v_user_id, NOW());
+
+  INSERT INTO wallets (user_id, id, total, dollar_total, updated_at)
+  VALUES (v_user_id, NULL, -v_price, -v_dollar_amount, NOW())
+  ON CONFLICT (user_id) DO UPDATE
+    SET total = wallets.total + EXCLUDED.total,
+        dollar_total = COALESCE(wallets.dollar_total, 0) + EXCLUDED.dollar_total,
+        updated_at = NOW()
+  RETURNING * INTO v_wallet;
+
+  RETURN v_wallet;
+END;
+$$;
+
+-- Apply an arbitrary delta to the current user's wallet
+CREATE OR REPLACE FUNCTION adjust_wallet(p_amount INTEGER, p_dollar_amount INTEGER DEFAULT 0)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  INSERT INTO wallets (user_id, id, total, dollar_total, updated_at)
+  VALUES (v_user_id, NULL, p_amount, COALESCE(p_dollar_amount, 0), NOW())
+  ON CONFLICT (user_id) DO UPDATE
+    SET total = wallets.total + EXCLUDED.total,
+        dollar_total = COALESCE(wallets.dollar_total, 0) + EXCLUDED.dollar_total,
+        updated_at = NOW()
+  RETURNING * INTO v_wallet;
+
+  RETURN v_wallet;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION complete_quest(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION purchase_item(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION adjust_wallet(INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,73 @@
+-- Get Kraken - Calendar Preferences
+-- Run this SQL in your Supabase SQL editor AFTER ADD_CHECK_INS.sql
+--
+-- Recaps, streaks, charts and "due today" count days in each user's own time
+-- zone and weeks from their chosen first weekday. A NULL time zone follows
+-- the device, which was the only behaviour before this migration.
+
+-- Step 1: Per-user time zone (IANA name, e.g. 'America/Denver') and week start
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS time_zone TEXT;
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS week_starts_on SMALLINT NOT NULL DEFAULT 0;
+
+ALTER TABLE user_preferences DROP CONSTRAINT IF EXISTS user_preferences_week_starts_on_range;
+ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_week_starts_on_range
+  CHECK (week_starts_on BETWEEN 0 AND 6);
+
+-- Step 2: Reject zone names Postgres doesn't know (the app also falls back to
+-- the device zone for any it can't resolve)
+CREATE OR REPLACE FUNCTION is_valid_time_zone(p_time_zone TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_time_zone IS NULL THEN
+    RETURN true;
+  END IF;
+  PERFORM NOW() AT TIME ZONE p_time_zone;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$;
+
+ALTER TABLE user_preferences DROP CONSTRAINT IF EXISTS user_preferences_time_zone_valid;
+ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_time_zone_valid
+  CHECK (is_valid_time_zone(time_zone));
+
+-- Step 3: Budget periods in purchase_item follow the buyer's zone and week
+-- start (UTC and Sunday when unset, as the server can't see the device zone)
+CREATE OR REPLACE FUNCTION shop_budget_period_start(p_period TEXT, p_at TIMESTAMPTZ)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_period = 'month' THEN date_trunc('month', s.local_at)::date
+    ELSE s.local_at::date - ((EXTRACT(DOW FROM s.local_at)::integer - s.week_starts_on + 7) % 7)
+  END
+  FROM (
+    SELECT
+      p_at AT TIME ZONE COALESCE(p.time_zone, 'UTC') AS local_at,
+      COALESCE(p.week_starts_on, 0) AS week_starts_on
+    FROM (SELECT 1) AS one
+    LEFT JOIN user_preferences p ON p.user_id = auth.uid()
+  ) AS s;
+$$;
+
+-- Step 4: Reward rule days (weekday multipliers, first of the day, combos)
+-- follow the same zone, UTC when unset
+CREATE OR REPLACE FUNCTION user_local_date(p_user_id UUID, p_at TIMESTAMPTZ)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (p_at AT TIME ZONE COALESCE(
+    (SELECT time_zone FROM user_preferences WHERE user_id = p_user_id),
+    'UTC'
+  ))::date;
+$$;
+
+REVOKE EXECUTE ON FUNCTION user_local_date(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,342 @@
+-- Get Kraken - Check-ins
+-- Run this SQL in your Supabase SQL editor AFTER ADD_ACHIEVEMENTS.sql
+--
+-- Completions can record how much was done (miles, minutes, reps), a mood
+-- and a note. A quest with a unit can pay extra per unit on top of its
+-- reward; the rate is snapshotted on the log so a later quantity edit is
+-- re-priced the same way and the difference journaled as an adjustment.
+
+-- Step 1: Units on quests and on overrides of seeded quests
+ALTER TABLE quests ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE quests ADD COLUMN IF NOT EXISTS reward_per_unit INTEGER CHECK (reward_per_unit >= 0);
+ALTER TABLE user_quest_overrides ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE user_quest_overrides ADD COLUMN IF NOT EXISTS reward_per_unit INTEGER CHECK (reward_per_unit >= 0);
+
+-- Step 2: Check-in fields on completions
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS quantity NUMERIC CHECK (quantity > 0);
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS reward_per_unit INTEGER;
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS note TEXT;
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS mood SMALLINT CHECK (mood BETWEEN 1 AND 5);
+
+-- Quantities are priced per unit, so they are bounded (MAX_QUANTITY in
+-- src/utils/checkIns.ts)
+ALTER TABLE quest_logs DROP CONSTRAINT IF EXISTS quest_logs_quantity_max;
+ALTER TABLE quest_logs ADD CONSTRAINT quest_logs_quantity_max CHECK (quantity <= 10000);
+
+-- Step 3: complete_quest records the check-in and prices the quantity
+DROP FUNCTION IF EXISTS complete_quest(UUID, UUID, TIMESTAMPTZ, JSONB);
+
+CREATE OR REPLACE FUNCTION complete_quest(
+  p_quest_id UUID,
+  p_client_id UUID DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL,
+  p_bonuses JSONB DEFAULT '[]'::jsonb,
+  p_quantity NUMERIC DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_mood SMALLINT DEFAULT NULL
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_reward INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_unit TEXT;
+  v_reward_per_unit INTEGER;
+  v_quantity NUMERIC;
+  v_quantity_reward INTEGER := 0;
+  v_tags TEXT[];
+  v_bonuses JSONB := COALESCE(p_bonuses, '[]'::jsonb);
+  v_bonus_total INTEGER;
+  v_log_id UUID;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF jsonb_typeof(v_bonuses) <> 'array' THEN
+    RAISE EXCEPTION 'Bonuses must be a list';
+  END IF;
+  IF p_quantity > 10000 THEN
+    RAISE EXCEPTION 'Quantity can be at most 10000';
+  END IF;
+
+  -- Already replayed: hand back the wallet without applying it again
+  IF p_client_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM quest_logs WHERE client_id = p_client_id AND household_id = v_household_id
+  ) THEN
+    SELECT * INTO v_wallet FROM wallets WHERE household_id = v_household_id;
+    RETURN v_wallet;
+  END IF;
+
+  SELECT
+    COALESCE(o.reward, q.reward),
+    COALESCE(o.dollar_amount, q.dollar_amount, 0),
+    COALESCE(o.name, q.name),
+    NULLIF(TRIM(COALESCE(o.unit, q.unit)), ''),
+    COALESCE(o.reward_per_unit, q.reward_per_unit),
+    COALESCE(o.tags, q.tags, '{}')
+  INTO v_reward, v_dollar_amount, v_name, v_unit, v_reward_per_unit, v_tags
+  FROM quests q
+  LEFT JOIN user_quest_overrides o
+    ON o.quest_id = q.id AND o.household_id = v_household_id
+  WHERE q.id = p_quest_id
+    AND (q.created_by IS NULL OR q.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+
+  -- Quantities only mean something for quests measured in a unit
+  IF v_unit IS NOT NULL AND p_quantity > 0 THEN
+    v_quantity := p_quantity;
+    v_quantity_reward := ROUND(v_quantity * COALESCE(v_reward_per_unit, 0));
+  END IF;
+
+  -- Multiplier bonuses scale the whole completion reward, quantity included
+  v_bonuses := resolve_reward_bonuses(
+    v_user_id, v_household_id, p_quest_id, clamp_occurred_at(p_occurred_at),
+    v_reward + v_quantity_reward, v_tags, v_bonuses
+  );
+  SELECT COALESCE(SUM((bonus->>'amount')::INTEGER), 0)
+  INTO v_bonus_total
+  FROM jsonb_array_elements(v_bonuses) AS bonus;
+
+  INSERT INTO quest_logs (
+    quest_id, user_id, household_id, completed_at, reward, dollar_amount, quest_name,
+    client_id, bonuses, quantity, unit, reward_per_unit, note, mood
+  )
+  VALUES (
+    p_quest_id, v_user_id, v_household_id,
+    clamp_occurred_at(p_occurred_at),
+    v_reward + v_quantity_reward + v_bonus_total, v_dollar_amount, v_name,
+    p_client_id, v_bonuses, v_quantity, v_unit, v_reward_per_unit,
+    NULLIF(TRIM(p_note), ''), p_mood
+  )
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'quest_completion', v_reward + v_quantity_reward + v_bonus_total, v_dollar_amount,
+    v_log_id, v_reward, v_dollar_amount,
+    CASE WHEN v_bonus_total > 0 THEN 'Includes ' || v_bonus_total || ' in bonuses' END
+  );
+END;
+$$;
+
+-- Step 4: Edit a completion's check-in; a new quantity is re-priced at the
+-- logged rate and the difference journaled against the log
+CREATE OR REPLACE FUNCTION update_quest_log_check_in(
+  p_log_id UUID,
+  p_quantity NUMERIC,
+  p_note TEXT,
+  p_mood SMALLINT
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_log quest_logs;
+  v_quantity NUMERIC;
+  v_delta INTEGER;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Lock the log so two edits cannot both re-price it
+  SELECT * INTO v_log
+  FROM quest_logs
+  WHERE id = p_log_id AND household_id = v_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest log not found';
+  END IF;
+  -- Re-pricing moves the shared wallet, so only the member who logged it or an owner can
+  IF v_log.user_id <> v_user_id AND NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only the member who logged this completion or an owner can edit it';
+  END IF;
+  IF v_log.reversed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Reversed completions cannot be edited';
+  END IF;
+  IF p_quantity > 10000 THEN
+    RAISE EXCEPTION 'Quantity can be at most 10000';
+  END IF;
+
+  v_quantity := CASE WHEN v_log.unit IS NOT NULL AND p_quantity > 0 THEN p_quantity END;
+  v_delta := ROUND(COALESCE(v_quantity, 0) * COALESCE(v_log.reward_per_unit, 0))
+    - ROUND(COALESCE(v_log.quantity, 0) * COALESCE(v_log.reward_per_unit, 0));
+
+  UPDATE quest_logs
+  SET quantity = v_quantity,
+      note = NULLIF(TRIM(p_note), ''),
+      mood = p_mood,
+      reward = COALESCE(reward, 0) + v_delta
+  WHERE id = p_log_id;
+
+  IF v_delta = 0 THEN
+    SELECT * INTO v_wallet FROM wallets WHERE household_id = v_log.household_id;
+    RETURN v_wallet;
+  END IF;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'adjustment', v_delta, 0, p_log_id, NULL, NULL, 'Quantity changed'
+  );
+END;
+$$;
+
+-- Step 5: Reversing a completion also refunds its quantity adjustments
+CREATE OR REPLACE FUNCTION reverse_quest_log(p_log_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_reversed_at TIMESTAMPTZ;
+  v_entry wallet_transactions;
+  v_amount INTEGER;
+  v_dollar_amount INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Lock the log so a double tap cannot refund twice
+  SELECT reversed_at INTO v_reversed_at
+  FROM quest_logs
+  WHERE id = p_log_id AND household_id = v_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest log not found';
+  END IF;
+  IF v_reversed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quest completion was already reversed';
+  END IF;
+
+  UPDATE quest_logs SET reversed_at = NOW() WHERE id = p_log_id;
+
+  -- Logs added by editing the completion count never credited the wallet,
+  -- so there may be no journal entry; in that case nothing is refunded
+  SELECT * INTO v_entry
+  FROM wallet_transactions
+  WHERE household_id = v_household_id
+    AND source_id = p_log_id
+    AND kind = 'quest_completion'
+  LIMIT 1;
+
+  SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(dollar_amount), 0)
+  INTO v_amount, v_dollar_amount
+  FROM wallet_transactions
+  WHERE household_id = v_household_id
+    AND source_id = p_log_id
+    AND kind IN ('quest_completion', 'adjustment');
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'undo', -v_amount, -v_dollar_amount,
+    p_log_id, v_entry.unit_amount, v_entry.unit_dollar_amount, 'Reversed quest completion'
+  );
+END;
+$$;
+
+-- Step 6: Imports restore check-ins too
+CREATE OR REPLACE FUNCTION import_quest_logs(p_logs JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_count INTEGER;
+BEGIN
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can import data';
+  END IF;
+  IF jsonb_typeof(p_logs) <> 'array' THEN
+    RAISE EXCEPTION 'Quest logs must be a list';
+  END IF;
+
+  INSERT INTO quest_logs (
+    quest_id, user_id, household_id, completed_at, reversed_at, reward, dollar_amount, quest_name,
+    proof_photo_url, quantity, unit, reward_per_unit, note, mood
+  )
+  SELECT
+    l.quest_id, v_user_id, v_household_id, l.completed_at, l.reversed_at, l.reward, l.dollar_amount, l.quest_name,
+    l.proof_photo_url, l.quantity, l.unit, l.reward_per_unit, l.note, l.mood
+  FROM jsonb_to_recordset(p_logs) AS l(
+    quest_id UUID, completed_at TIMESTAMPTZ, reversed_at TIMESTAMPTZ,
+    reward INTEGER, dollar_amount INTEGER, quest_name TEXT, proof_photo_url TEXT,
+    quantity NUMERIC, unit TEXT, reward_per_unit INTEGER, note TEXT, mood SMALLINT
+  )
+  JOIN quests q
+    ON q.id = l.quest_id AND (q.created_by IS NULL OR q.household_id = v_household_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count <> jsonb_array_length(p_logs) THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+  RETURN v_count;
+END;
+$$;
+
+-- Step 7: The per-unit rate is an amount too, so only owners can set it
+CREATE OR REPLACE FUNCTION enforce_owner_amount_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new JSONB := to_jsonb(NEW);
+  v_old JSONB;
+BEGIN
+  IF is_household_owner() OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND TG_TABLE_NAME IN ('quests', 'shop_items') THEN
+    -- Members can add items, but they start unpriced until an owner sets the amounts
+    IF COALESCE((v_new->>'reward')::NUMERIC, 0) <> 0
+      OR COALESCE((v_new->>'price')::NUMERIC, 0) <> 0
+      OR COALESCE((v_new->>'dollar_amount')::NUMERIC, 0) <> 0
+      OR COALESCE((v_new->>'reward_per_unit')::NUMERIC, 0) <> 0 THEN
+      RAISE EXCEPTION 'Only household owners can set rewards or prices';
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    -- Override rows only carry an amount when someone is changing it
+    IF v_new->>'reward' IS NOT NULL OR v_new->>'price' IS NOT NULL
+      OR v_new->>'dollar_amount' IS NOT NULL OR v_new->>'reward_per_unit' IS NOT NULL THEN
+      RAISE EXCEPTION 'Only household owners can change rewards or prices';
+    END IF;
+  ELSE
+    v_old := to_jsonb(OLD);
+    IF v_new->'reward' IS DISTINCT FROM v_old->'reward'
+      OR v_new->'price' IS DISTINCT FROM v_old->'price'
+      OR v_new->'dollar_amount' IS DISTINCT FROM v_old->'dollar_amount'
+      OR v_new->'reward_per_unit' IS DISTINCT FROM v_old->'reward_per_unit' THEN
+      RAISE EXCEPTION 'Only household owners can change rewards or prices';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION complete_quest(UUID, UUID, TIMESTAMPTZ, JSONB, NUMERIC, TEXT, SMALLINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_quest_log_check_in(UUID, NUMERIC, TEXT, SMALLINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reverse_quest_log(UUID) TO authenticated;
@@ -0,0 +1,114 @@
+-- Get Kraken - Currencies
+-- Run this SQL in your Supabase SQL editor AFTER ADD_PREFERENCES_DOCUMENT.sql
+--
+-- Real-money amounts move from whole dollars to minor units (cents), in a
+-- currency the household chooses. Owners can also set an exchange rate -
+-- how many coins one unit of the currency is worth - so the app can fill in
+-- the coin value of a dollar amount, or the other way round. This undoes the
+-- whole-dollar rounding from CONVERT_DOLLAR_FIELDS_TO_INTEGER.sql: columns
+-- stay INTEGER, but now count cents.
+
+-- Step 1: The household's currency (ISO 4217) and optional exchange rate
+-- (owners can already update households)
+ALTER TABLE households ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE households ADD COLUMN IF NOT EXISTS coins_per_unit NUMERIC(12, 4);
+
+ALTER TABLE households DROP CONSTRAINT IF EXISTS households_currency_code;
+ALTER TABLE households ADD CONSTRAINT households_currency_code
+  CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE households DROP CONSTRAINT IF EXISTS households_coins_per_unit_positive;
+ALTER TABLE households ADD CONSTRAINT households_coins_per_unit_positive
+  CHECK (coins_per_unit IS NULL OR coins_per_unit > 0);
+
+-- Step 2: Whole dollars become cents. Existing households are all in USD.
+-- The column comment marks the conversion as done, so re-running this file
+-- doesn't multiply again.
+DO $$
+BEGIN
+  IF col_description('wallets'::regclass, (
+    SELECT attnum FROM pg_attribute
+    WHERE attrelid = 'wallets'::regclass AND attname = 'dollar_total'
+  )) IS DISTINCT FROM 'Minor units of the household currency' THEN
+    UPDATE quests SET dollar_amount = dollar_amount * 100 WHERE dollar_amount IS NOT NULL;
+    UPDATE shop_items SET dollar_amount = dollar_amount * 100 WHERE dollar_amount IS NOT NULL;
+    UPDATE user_quest_overrides SET dollar_amount = dollar_amount * 100 WHERE dollar_amount IS NOT NULL;
+    UPDATE user_shop_item_overrides SET dollar_amount = dollar_amount * 100 WHERE dollar_amount IS NOT NULL;
+    UPDATE goals
+    SET dollar_amount = dollar_amount * 100,
+        allocated_dollar_amount = allocated_dollar_amount * 100;
+    UPDATE quest_logs SET dollar_amount = dollar_amount * 100 WHERE dollar_amount IS NOT NULL;
+    UPDATE shop_logs SET dollar_amount = dollar_amount * 100 WHERE dollar_amount IS NOT NULL;
+    UPDATE shop_budgets SET dollar_limit = dollar_limit * 100 WHERE dollar_limit IS NOT NULL;
+    UPDATE wallets SET dollar_total = dollar_total * 100 WHERE dollar_total IS NOT NULL;
+
+    -- The journal is append-only, so the immutability trigger is paused for this one conversion
+    ALTER TABLE wallet_transactions DISABLE TRIGGER wallet_transactions_immutable;
+    UPDATE wallet_transactions
+    SET dollar_amount = dollar_amount * 100,
+        unit_dollar_amount = unit_dollar_amount * 100;
+    ALTER TABLE wallet_transactions ENABLE TRIGGER wallet_transactions_immutable;
+  END IF;
+END;
+$$;
+
+COMMENT ON COLUMN wallets.dollar_total IS 'Minor units of the household currency';
+COMMENT ON COLUMN wallet_transactions.dollar_amount IS 'Minor units of the household currency';
+COMMENT ON COLUMN quests.dollar_amount IS 'Minor units of the household currency';
+COMMENT ON COLUMN shop_items.dollar_amount IS 'Minor units of the household currency';
+COMMENT ON COLUMN goals.dollar_amount IS 'Minor units of the household currency';
+COMMENT ON COLUMN shop_budgets.dollar_limit IS 'Minor units of the household currency';
+
+-- Step 3: Amounts are stored in minor units, so once any are recorded the
+-- currency can only change to one with the same number of decimal places
+-- (USD to EUR is a relabel; USD to JPY would read every amount 100x too large)
+CREATE OR REPLACE FUNCTION currency_minor_digits(p_currency TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_currency IN (
+      'BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG',
+      'RWF', 'UGX', 'UYI', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'
+    ) THEN 0
+    WHEN p_currency IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+    ELSE 2
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_currency_minor_units()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF currency_minor_digits(NEW.currency) = currency_minor_digits(OLD.currency) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM wallet_transactions WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM quest_logs WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM shop_logs WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM quests WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM shop_items WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM user_quest_overrides WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM user_shop_item_overrides WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (
+      SELECT 1 FROM goals
+      WHERE household_id = NEW.id AND (dollar_amount <> 0 OR allocated_dollar_amount <> 0)
+    )
+    OR EXISTS (SELECT 1 FROM shop_budgets WHERE household_id = NEW.id AND dollar_limit <> 0) THEN
+    RAISE EXCEPTION 'Money amounts are already recorded in %, so the currency can only change to one with % decimal places',
+      OLD.currency, currency_minor_digits(OLD.currency);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS households_currency_minor_units ON households;
+CREATE TRIGGER households_currency_minor_units
+  BEFORE UPDATE OF currency ON households
+  FOR EACH ROW EXECUTE FUNCTION enforce_currency_minor_units();
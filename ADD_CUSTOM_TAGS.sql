@@ -0,0 +1,128 @@
+-- Get Kraken - Custom Tags
+-- Run this SQL in your Supabase SQL editor AFTER ADD_ITEM_PREFERENCES.sql
+--
+-- Tags become household data instead of a fixed list in the app. Quests and
+-- shop items keep storing tag keys in their tags arrays; a tag's label and
+-- color live here, so renaming or recoloring never touches the items.
+-- Every household starts with the tags the app used to ship with.
+
+-- Step 1: Household tags
+CREATE TABLE IF NOT EXISTS tags (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL DEFAULT current_household_id() REFERENCES households(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('quest', 'shop_item')),
+  key TEXT NOT NULL CHECK (length(trim(key)) > 0),
+  label TEXT NOT NULL CHECK (length(trim(label)) > 0),
+  color TEXT NOT NULL DEFAULT 'slate',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_household_scope_key ON tags(household_id, scope, key);
+
+-- Step 2: RLS - any member can manage the household's tags
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can access tags" ON tags;
+CREATE POLICY "Household members can access tags"
+  ON tags FOR ALL
+  TO authenticated
+  USING (household_id = current_household_id())
+  WITH CHECK (household_id = current_household_id());
+
+-- Step 3: Default tags for existing and new households
+-- Only the migration and the household trigger seed tags (see the REVOKE at the
+-- end); a signed-in caller must also belong to, or have just created, the household.
+CREATE OR REPLACE FUNCTION seed_default_tags(p_household_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM household_members
+      WHERE household_id = p_household_id AND user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM households
+      WHERE id = p_household_id AND created_by = auth.uid()
+    ) THEN
+    RAISE EXCEPTION 'Household not found';
+  END IF;
+
+  INSERT INTO tags (household_id, scope, key, label, color, position)
+  VALUES
+    (p_household_id, 'quest', 'work', 'Work', 'blue', 0),
+    (p_household_id, 'quest', 'finance', 'Finance', 'green', 1),
+    (p_household_id, 'quest', 'home', 'Home', 'purple', 2),
+    (p_household_id, 'quest', 'health', 'Health', 'red', 3),
+    (p_household_id, 'quest', 'relationship', 'Relationship', 'pink', 4),
+    (p_household_id, 'quest', 'social life', 'Social Life', 'cyan', 5),
+    (p_household_id, 'shop_item', 'hobbies', 'Hobbies', 'indigo', 0),
+    (p_household_id, 'shop_item', 'social life', 'Social Life', 'cyan', 1),
+    (p_household_id, 'shop_item', 'relationship', 'Relationship', 'pink', 2),
+    (p_household_id, 'shop_item', 'travel', 'Travel', 'amber', 3),
+    (p_household_id, 'shop_item', 'family', 'Family', 'emerald', 4),
+    (p_household_id, 'shop_item', 'little treat', 'Little Treat', 'purple', 5)
+  ON CONFLICT (household_id, scope, key) DO NOTHING;
+END;
+$$;
+
+SELECT seed_default_tags(id) FROM households;
+
+CREATE OR REPLACE FUNCTION seed_household_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_default_tags(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS households_seed_tags ON households;
+CREATE TRIGGER households_seed_tags
+  AFTER INSERT ON households
+  FOR EACH ROW EXECUTE FUNCTION seed_household_tags();
+
+-- Step 4: Deleting a tag also removes it from the household's items and overrides
+-- (seeded items keep the key, which the app ignores once the tag is gone)
+CREATE OR REPLACE FUNCTION delete_tag(p_tag_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_tag tags%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tag FROM tags
+  WHERE id = p_tag_id AND household_id = current_household_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF v_tag.scope = 'quest' THEN
+    UPDATE quests SET tags = array_remove(tags, v_tag.key), updated_at = NOW()
+    WHERE household_id = v_tag.household_id AND v_tag.key = ANY(tags);
+    UPDATE user_quest_overrides SET tags = array_remove(tags, v_tag.key), updated_at = NOW()
+    WHERE household_id = v_tag.household_id AND v_tag.key = ANY(tags);
+  ELSE
+    UPDATE shop_items SET tags = array_remove(tags, v_tag.key), updated_at = NOW()
+    WHERE household_id = v_tag.household_id AND v_tag.key = ANY(tags);
+    UPDATE user_shop_item_overrides SET tags = array_remove(tags, v_tag.key), updated_at = NOW()
+    WHERE household_id = v_tag.household_id AND v_tag.key = ANY(tags);
+  END IF;
+
+  DELETE FROM tags WHERE id = v_tag.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION seed_default_tags(UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION delete_tag(UUID) TO authenticated;
@@ -0,0 +1,170 @@
+-- Get Kraken - Data Import
+-- Run this SQL in your Supabase SQL editor AFTER ADD_QUEST_PACKS.sql
+--
+-- Restoring an export writes tags, quests, shop items, overrides, hidden
+-- lists, history, goals and the wallet balance. It runs as one transaction,
+-- so a failure part way leaves nothing half imported and a retry starts from
+-- a clean slate. Imports are owner-only; the check runs before anything is
+-- written.
+
+-- Step 1: Restore a planned import (see ImportPlan in src/utils/dataTransfer.ts).
+-- New custom quests and items get new ids, and their history is remapped onto them.
+CREATE OR REPLACE FUNCTION import_household_data(p_import JSONB)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_quest_ids JSONB := COALESCE(p_import->'quest_id_map', '{}'::jsonb);
+  v_item_ids JSONB := COALESCE(p_import->'shop_item_id_map', '{}'::jsonb);
+  v_row JSONB;
+  v_new_id UUID;
+  v_logs JSONB;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can import data';
+  END IF;
+
+  -- Tags first, so imported items show theirs
+  INSERT INTO tags (household_id, scope, key, label, color, position)
+  SELECT v_household_id, t.scope, t.key, t.label, t.color, t.position
+  FROM jsonb_to_recordset(COALESCE(p_import->'tags', '[]'::jsonb))
+    AS t(scope TEXT, key TEXT, label TEXT, color TEXT, position INTEGER)
+  ON CONFLICT (household_id, scope, key) DO NOTHING;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_import->'quests', '[]'::jsonb)) LOOP
+    INSERT INTO quests (
+      name, tags, reward, dollar_amount, cadence, grace_periods, schedule, photo_url, unit, reward_per_unit,
+      created_by, household_id, completion_count, created_at, updated_at
+    )
+    SELECT
+      q.name, COALESCE(q.tags, '{}'), q.reward, COALESCE(q.dollar_amount, 0), q.cadence,
+      COALESCE(q.grace_periods, 0), q.schedule, q.photo_url, q.unit, q.reward_per_unit,
+      v_user_id, v_household_id, 0, NOW(), NOW()
+    FROM jsonb_to_record(v_row) AS q(
+      name TEXT, tags TEXT[], reward INTEGER, dollar_amount INTEGER, cadence JSONB, grace_periods INTEGER,
+      schedule JSONB, photo_url TEXT, unit TEXT, reward_per_unit INTEGER
+    )
+    RETURNING id INTO v_new_id;
+    v_quest_ids := v_quest_ids || jsonb_build_object(v_row->>'id', v_new_id);
+  END LOOP;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_import->'shop_items', '[]'::jsonb)) LOOP
+    INSERT INTO shop_items (
+      name, tags, price, dollar_amount, photo_url, created_by, household_id, purchase_count, created_at, updated_at
+    )
+    SELECT
+      i.name, COALESCE(i.tags, '{}'), i.price, COALESCE(i.dollar_amount, 0), i.photo_url,
+      v_user_id, v_household_id, 0, NOW(), NOW()
+    FROM jsonb_to_record(v_row) AS i(name TEXT, tags TEXT[], price INTEGER, dollar_amount INTEGER, photo_url TEXT)
+    RETURNING id INTO v_new_id;
+    v_item_ids := v_item_ids || jsonb_build_object(v_row->>'id', v_new_id);
+  END LOOP;
+
+  -- Overrides of seeded rows; a null override clears the household's own
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_import->'quest_overrides', '[]'::jsonb)) LOOP
+    IF jsonb_typeof(v_row->'override') = 'object' THEN
+      INSERT INTO user_quest_overrides (
+        quest_id, user_id, household_id, name, tags, reward, dollar_amount, cadence, grace_periods,
+        schedule, unit, reward_per_unit, photo_url, updated_at
+      )
+      SELECT
+        (v_row->>'quest_id')::UUID, v_user_id, v_household_id, o.name, o.tags, o.reward, o.dollar_amount,
+        o.cadence, o.grace_periods, o.schedule, o.unit, o.reward_per_unit, o.photo_url, NOW()
+      FROM jsonb_to_record(v_row->'override') AS o(
+        name TEXT, tags TEXT[], reward INTEGER, dollar_amount INTEGER, cadence JSONB, grace_periods INTEGER,
+        schedule JSONB, unit TEXT, reward_per_unit INTEGER, photo_url TEXT
+      )
+      ON CONFLICT (household_id, quest_id) DO UPDATE
+        SET user_id = EXCLUDED.user_id, name = EXCLUDED.name, tags = EXCLUDED.tags,
+            reward = EXCLUDED.reward, dollar_amount = EXCLUDED.dollar_amount,
+            cadence = EXCLUDED.cadence, grace_periods = EXCLUDED.grace_periods,
+            schedule = EXCLUDED.schedule, unit = EXCLUDED.unit,
+            reward_per_unit = EXCLUDED.reward_per_unit, photo_url = EXCLUDED.photo_url,
+            updated_at = EXCLUDED.updated_at;
+    ELSE
+      DELETE FROM user_quest_overrides
+      WHERE household_id = v_household_id AND quest_id = (v_row->>'quest_id')::UUID;
+    END IF;
+  END LOOP;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_import->'shop_item_overrides', '[]'::jsonb)) LOOP
+    IF jsonb_typeof(v_row->'override') = 'object' THEN
+      INSERT INTO user_shop_item_overrides (
+        shop_item_id, user_id, household_id, name, tags, price, dollar_amount, photo_url, updated_at
+      )
+      SELECT
+        (v_row->>'shop_item_id')::UUID, v_user_id, v_household_id, o.name, o.tags, o.price,
+        o.dollar_amount, o.photo_url, NOW()
+      FROM jsonb_to_record(v_row->'override')
+        AS o(name TEXT, tags TEXT[], price INTEGER, dollar_amount INTEGER, photo_url TEXT)
+      ON CONFLICT (household_id, shop_item_id) DO UPDATE
+        SET user_id = EXCLUDED.user_id, name = EXCLUDED.name, tags = EXCLUDED.tags,
+            price = EXCLUDED.price, dollar_amount = EXCLUDED.dollar_amount,
+            photo_url = EXCLUDED.photo_url, updated_at = EXCLUDED.updated_at;
+    ELSE
+      DELETE FROM user_shop_item_overrides
+      WHERE household_id = v_household_id AND shop_item_id = (v_row->>'shop_item_id')::UUID;
+    END IF;
+  END LOOP;
+
+  INSERT INTO user_hidden_quests (quest_id, user_id, household_id, created_at)
+  SELECT (v_quest_ids->>id)::UUID, v_user_id, v_household_id, NOW()
+  FROM jsonb_array_elements_text(COALESCE(p_import->'hidden_quest_ids', '[]'::jsonb)) AS id
+  ON CONFLICT (household_id, quest_id) DO NOTHING;
+
+  INSERT INTO user_hidden_shop_items (shop_item_id, user_id, household_id, created_at)
+  SELECT (v_item_ids->>id)::UUID, v_user_id, v_household_id, NOW()
+  FROM jsonb_array_elements_text(COALESCE(p_import->'hidden_shop_item_ids', '[]'::jsonb)) AS id
+  ON CONFLICT (household_id, shop_item_id) DO NOTHING;
+
+  -- History keeps its original dates and snapshots, through the owner-only
+  -- import functions (logs are read-only to clients)
+  SELECT COALESCE(jsonb_agg(l || jsonb_build_object('quest_id', v_quest_ids->(l->>'quest_id'))), '[]'::jsonb)
+  INTO v_logs
+  FROM jsonb_array_elements(COALESCE(p_import->'quest_logs', '[]'::jsonb)) AS l;
+  PERFORM import_quest_logs(v_logs);
+
+  SELECT COALESCE(jsonb_agg(l || jsonb_build_object('shop_item_id', v_item_ids->(l->>'shop_item_id'))), '[]'::jsonb)
+  INTO v_logs
+  FROM jsonb_array_elements(COALESCE(p_import->'shop_logs', '[]'::jsonb)) AS l;
+  PERFORM import_shop_logs(v_logs);
+
+  INSERT INTO goals (
+    name, target_amount, dollar_amount, allocated_amount, allocated_dollar_amount, deadline, priority,
+    milestones, celebrated_milestone, is_completed, completed_at, created_at, updated_at, user_id, household_id
+  )
+  SELECT
+    g.name, g.target_amount, g.dollar_amount, g.allocated_amount, g.allocated_dollar_amount, g.deadline,
+    g.priority, COALESCE(g.milestones, '{}'), g.celebrated_milestone, g.is_completed, g.completed_at,
+    g.created_at, NOW(), v_user_id, v_household_id
+  FROM jsonb_to_recordset(COALESCE(p_import->'goals', '[]'::jsonb)) AS g(
+    name TEXT, target_amount INTEGER, dollar_amount INTEGER, allocated_amount INTEGER,
+    allocated_dollar_amount INTEGER, deadline DATE, priority INTEGER, milestones INTEGER[],
+    celebrated_milestone INTEGER, is_completed BOOLEAN, completed_at TIMESTAMPTZ, created_at TIMESTAMPTZ
+  );
+
+  -- The balance is restored as one journaled adjustment rather than by
+  -- replaying every entry
+  IF COALESCE((p_import->'wallet'->>'total')::INTEGER, 0) <> 0
+    OR COALESCE((p_import->'wallet'->>'dollar_total')::INTEGER, 0) <> 0 THEN
+    v_wallet := adjust_wallet(
+      COALESCE((p_import->'wallet'->>'total')::INTEGER, 0),
+      COALESCE((p_import->'wallet'->>'dollar_total')::INTEGER, 0)
+    );
+  ELSE
+    v_wallet := ensure_wallet();
+  END IF;
+
+  RETURN v_wallet;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_household_data(JSONB) TO authenticated;
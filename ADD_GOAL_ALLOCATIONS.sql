@@ -0,0 +1,144 @@
+-- Get Kraken - Goal Allocations
+-- Run this SQL in your Supabase SQL editor AFTER ADD_QUEST_CADENCE.sql
+--
+-- Goals become the single progress model (replacing the hardcoded ski-trip
+-- target and milestones). Goals are shared by the household, and each goal
+-- has its own allocated balance: coins earmarked from the wallet rather than
+-- the whole wallet total. Allocating moves nothing in or out of the wallet, so
+-- it is not journaled; the sum of active allocations can never exceed the
+-- wallet balance at the time of allocating.
+
+-- Step 1: Household scope (goals were previously global)
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+
+-- Existing goals have no owner: they were shared by every account. With a
+-- single household they simply move into it; otherwise each household gets
+-- its own copy, so nobody loses a goal they could see before.
+UPDATE goals g SET household_id = h.id, user_id = h.created_by
+FROM households h
+WHERE g.household_id IS NULL AND (SELECT COUNT(*) FROM households) = 1;
+
+INSERT INTO goals (name, target_amount, dollar_amount, is_completed, completed_at, created_at, updated_at, household_id, user_id)
+SELECT g.name, g.target_amount, g.dollar_amount, g.is_completed, g.completed_at, g.created_at, g.updated_at, h.id, h.created_by
+FROM goals g
+CROSS JOIN households h
+WHERE g.household_id IS NULL;
+
+DELETE FROM goals WHERE household_id IS NULL;
+
+ALTER TABLE goals ALTER COLUMN household_id SET DEFAULT current_household_id();
+CREATE INDEX IF NOT EXISTS idx_goals_household_id ON goals(household_id);
+
+-- Step 2: Deadline, priority, allocation and milestones
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS deadline DATE;
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS allocated_amount INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS allocated_dollar_amount INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS milestones INTEGER[] NOT NULL DEFAULT '{}';
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS celebrated_milestone INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE goals DROP CONSTRAINT IF EXISTS goals_allocation_non_negative;
+ALTER TABLE goals ADD CONSTRAINT goals_allocation_non_negative
+  CHECK (allocated_amount >= 0 AND allocated_dollar_amount >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_goals_priority ON goals(household_id, priority);
+
+-- Step 3: The hardcoded ski-trip target becomes a goal. It used to track the
+-- whole wallet, so that progress is carried over as its allocation, and
+-- milestones already passed aren't celebrated again.
+INSERT INTO goals (name, target_amount, household_id, user_id, priority, milestones, allocated_amount, celebrated_milestone)
+SELECT
+  'Ski trip',
+  2000,
+  h.id,
+  h.created_by,
+  0,
+  ARRAY[100, 250, 500, 1000, 1500, 2000],
+  LEAST(GREATEST(COALESCE(w.total, 0), 0), 2000),
+  COALESCE((
+    SELECT MAX(m) FROM unnest(ARRAY[100, 250, 500, 1000, 1500, 2000]) AS m
+    WHERE m <= COALESCE(w.total, 0)
+  ), 0)
+FROM households h
+LEFT JOIN wallets w ON w.household_id = h.id
+WHERE NOT EXISTS (
+  SELECT 1 FROM goals g WHERE g.household_id = h.id AND g.name = 'Ski trip'
+);
+
+-- Step 4: Household RLS
+DROP POLICY IF EXISTS "Allow all for authenticated users on goals" ON goals;
+DROP POLICY IF EXISTS "Household members can access goals" ON goals;
+CREATE POLICY "Household members can access goals"
+  ON goals FOR ALL
+  TO authenticated
+  USING (household_id = current_household_id())
+  WITH CHECK (household_id = current_household_id());
+
+-- Step 5: Earmark (or release, with negative amounts) wallet balance for a goal
+-- (SECURITY DEFINER because it locks the wallet, which members can only read)
+CREATE OR REPLACE FUNCTION allocate_to_goal(
+  p_goal_id UUID,
+  p_amount INTEGER,
+  p_dollar_amount INTEGER DEFAULT 0
+)
+RETURNS goals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_household_id UUID := current_household_id();
+  v_wallet wallets;
+  v_goal goals;
+  v_allocated INTEGER;
+  v_allocated_dollars INTEGER;
+BEGIN
+  IF v_household_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Lock the wallet so concurrent allocations see each other
+  SELECT * INTO v_wallet FROM wallets
+  WHERE household_id = v_household_id
+  FOR UPDATE;
+
+  SELECT * INTO v_goal FROM goals
+  WHERE id = p_goal_id AND household_id = v_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Goal not found';
+  END IF;
+
+  IF v_goal.allocated_amount + p_amount < 0
+    OR v_goal.allocated_dollar_amount + COALESCE(p_dollar_amount, 0) < 0 THEN
+    RAISE EXCEPTION 'Cannot release more than is allocated to this goal';
+  END IF;
+
+  SELECT COALESCE(SUM(allocated_amount), 0), COALESCE(SUM(allocated_dollar_amount), 0)
+  INTO v_allocated, v_allocated_dollars
+  FROM goals
+  WHERE household_id = v_household_id AND NOT is_completed;
+
+  IF p_amount > 0 AND v_allocated + p_amount > COALESCE(v_wallet.total, 0) THEN
+    RAISE EXCEPTION 'Not enough unallocated sand dollars';
+  END IF;
+
+  IF COALESCE(p_dollar_amount, 0) > 0
+    AND v_allocated_dollars + p_dollar_amount > COALESCE(v_wallet.dollar_total, 0) THEN
+    RAISE EXCEPTION 'Not enough unallocated dollars';
+  END IF;
+
+  UPDATE goals
+  SET allocated_amount = allocated_amount + p_amount,
+      allocated_dollar_amount = allocated_dollar_amount + COALESCE(p_dollar_amount, 0),
+      updated_at = NOW()
+  WHERE id = p_goal_id
+  RETURNING * INTO v_goal;
+
+  RETURN v_goal;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION allocate_to_goal(UUID, INTEGER, INTEGER) TO authenticated;
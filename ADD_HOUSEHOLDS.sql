@@ -0,0 +1,993 @@
+-- Get Kraken - Shared Households
+-- Run this SQL in your Supabase SQL editor AFTER ADD_LOG_SNAPSHOTS.sql
+--
+-- Members of a household share one wallet, one quest catalog and one shop
+-- catalog (including overrides and hidden items). Logs and journal entries keep
+-- user_id for per-member attribution. Owners can invite members by email, and
+-- only owners can reset or adjust the wallet or change rewards/prices.
+--
+-- Members can read the wallet, logs and journal but not write them directly:
+-- every change goes through the SECURITY DEFINER functions below, so the
+-- owner checks and the append-only journal can't be bypassed.
+--
+-- Every existing user is moved into their own single-member household, so the
+-- app behaves exactly as before until someone accepts an invite.
+
+-- Step 1: Household tables
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL DEFAULT 'Our Household',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  email TEXT,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (household_id, user_id),
+  UNIQUE (user_id) -- a user belongs to exactly one household
+);
+
+CREATE TABLE IF NOT EXISTS household_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  responded_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON household_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_household_invites_email ON household_invites(LOWER(email));
+CREATE INDEX IF NOT EXISTS idx_household_invites_household_id ON household_invites(household_id);
+
+-- Step 2: Membership helpers (SECURITY DEFINER so RLS policies can call them without recursion)
+CREATE OR REPLACE FUNCTION current_household_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT household_id FROM household_members WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_household_owner()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM household_members
+    WHERE user_id = auth.uid() AND role = 'owner'
+  );
+$$;
+
+-- Step 3: One household per existing user
+DO $$
+DECLARE
+  r RECORD;
+  v_household_id UUID;
+BEGIN
+  FOR r IN (
+    SELECT u.id, u.email FROM auth.users u
+    WHERE NOT EXISTS (SELECT 1 FROM household_members m WHERE m.user_id = u.id)
+  ) LOOP
+    INSERT INTO households (created_by) VALUES (r.id) RETURNING id INTO v_household_id;
+    INSERT INTO household_members (household_id, user_id, role, email)
+    VALUES (v_household_id, r.id, 'owner', r.email);
+  END LOOP;
+END $$;
+
+-- Step 4: household_id on every shared table, defaulting to the caller's household
+ALTER TABLE wallets ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE wallet_transactions ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE shop_logs ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE quests ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE shop_items ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE user_quest_overrides ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE user_shop_item_overrides ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE user_hidden_quests ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE user_hidden_shop_items ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+
+UPDATE wallets t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.user_id AND t.household_id IS NULL;
+UPDATE quest_logs t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.user_id AND t.household_id IS NULL;
+UPDATE shop_logs t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.user_id AND t.household_id IS NULL;
+UPDATE quests t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.created_by AND t.household_id IS NULL;
+UPDATE shop_items t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.created_by AND t.household_id IS NULL;
+UPDATE user_quest_overrides t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.user_id AND t.household_id IS NULL;
+UPDATE user_shop_item_overrides t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.user_id AND t.household_id IS NULL;
+UPDATE user_hidden_quests t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.user_id AND t.household_id IS NULL;
+UPDATE user_hidden_shop_items t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.user_id AND t.household_id IS NULL;
+
+-- The journal is append-only, so the immutability trigger is paused for this one backfill
+ALTER TABLE wallet_transactions DISABLE TRIGGER wallet_transactions_immutable;
+UPDATE wallet_transactions t SET household_id = m.household_id FROM household_members m WHERE m.user_id = t.user_id AND t.household_id IS NULL;
+ALTER TABLE wallet_transactions ENABLE TRIGGER wallet_transactions_immutable;
+
+ALTER TABLE wallets ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE wallet_transactions ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE quest_logs ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE shop_logs ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE quests ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE shop_items ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE user_quest_overrides ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE user_shop_item_overrides ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE user_hidden_quests ALTER COLUMN household_id SET DEFAULT current_household_id();
+ALTER TABLE user_hidden_shop_items ALTER COLUMN household_id SET DEFAULT current_household_id();
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_household_id ON wallet_transactions(household_id);
+CREATE INDEX IF NOT EXISTS idx_quest_logs_household_id ON quest_logs(household_id);
+CREATE INDEX IF NOT EXISTS idx_shop_logs_household_id ON shop_logs(household_id);
+CREATE INDEX IF NOT EXISTS idx_quests_household_id ON quests(household_id);
+CREATE INDEX IF NOT EXISTS idx_shop_items_household_id ON shop_items(household_id);
+
+-- Step 5: One wallet and one override/hidden row per household (was per user)
+-- household_id becomes the wallet's primary key. Realtime needs a replica
+-- identity to publish wallet updates, and Postgres rejects UPDATEs on a
+-- published table without one.
+DELETE FROM wallets WHERE household_id IS NULL; -- wallets of users that no longer exist
+ALTER TABLE wallets ALTER COLUMN household_id SET NOT NULL;
+
+DO $$
+DECLARE
+  v_constraint TEXT;
+BEGIN
+  SELECT c.conname INTO v_constraint
+  FROM pg_constraint c
+  WHERE c.conrelid = 'wallets'::regclass AND c.contype = 'p'
+    AND c.conkey <> ARRAY[(
+      SELECT attnum FROM pg_attribute WHERE attrelid = 'wallets'::regclass AND attname = 'household_id'
+    )]::int2[];
+  IF v_constraint IS NOT NULL THEN
+    EXECUTE format('ALTER TABLE wallets DROP CONSTRAINT %I', v_constraint);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conrelid = 'wallets'::regclass AND contype = 'p') THEN
+    ALTER TABLE wallets ADD CONSTRAINT wallets_pkey PRIMARY KEY (household_id);
+  END IF;
+END $$;
+
+-- The old text id is no longer a key; new wallets leave it empty
+ALTER TABLE wallets ALTER COLUMN id DROP NOT NULL;
+ALTER TABLE wallets REPLICA IDENTITY DEFAULT;
+DROP INDEX IF EXISTS idx_wallets_user_id_unique;
+DROP INDEX IF EXISTS idx_wallets_household_id_unique;
+
+ALTER TABLE user_quest_overrides DROP CONSTRAINT IF EXISTS user_quest_overrides_user_id_quest_id_key;
+ALTER TABLE user_shop_item_overrides DROP CONSTRAINT IF EXISTS user_shop_item_overrides_user_id_shop_item_id_key;
+ALTER TABLE user_hidden_quests DROP CONSTRAINT IF EXISTS user_hidden_quests_user_id_quest_id_key;
+ALTER TABLE user_hidden_shop_items DROP CONSTRAINT IF EXISTS user_hidden_shop_items_user_id_shop_item_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_quest_overrides_household_quest ON user_quest_overrides(household_id, quest_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_shop_item_overrides_household_item ON user_shop_item_overrides(household_id, shop_item_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_hidden_quests_household_quest ON user_hidden_quests(household_id, quest_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_hidden_shop_items_household_item ON user_hidden_shop_items(household_id, shop_item_id);
+
+-- Step 6: Replace per-user RLS with household RLS
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN (
+    SELECT policyname, tablename FROM pg_policies
+    WHERE tablename IN (
+      'wallets', 'wallet_transactions', 'quest_logs', 'shop_logs', 'quests', 'shop_items',
+      'user_quest_overrides', 'user_shop_item_overrides', 'user_hidden_quests', 'user_hidden_shop_items'
+    )
+  ) LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', r.policyname, r.tablename);
+  END LOOP;
+END $$;
+
+-- Wallet and logs: read-only within the household (written by the ledger functions)
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['wallets', 'quest_logs', 'shop_logs'] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Household members can read %1$s" ON %1$I FOR SELECT TO authenticated
+         USING (household_id = current_household_id())',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- Overrides and hidden lists: full access within the household
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'user_quest_overrides', 'user_shop_item_overrides', 'user_hidden_quests', 'user_hidden_shop_items'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Household members can access %1$s" ON %1$I FOR ALL TO authenticated
+         USING (household_id = current_household_id())
+         WITH CHECK (household_id = current_household_id())',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- Journal: read within the household; only the ledger functions append
+CREATE POLICY "Household members can read wallet transactions"
+  ON wallet_transactions FOR SELECT
+  TO authenticated
+  USING (household_id = current_household_id());
+
+-- Catalogs: seeded rows are readable by everyone, custom rows belong to a household
+CREATE POLICY "Users can read seeded and household quests"
+  ON quests FOR SELECT
+  TO authenticated
+  USING (created_by IS NULL OR household_id = current_household_id());
+
+CREATE POLICY "Household members can create quests"
+  ON quests FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND household_id = current_household_id());
+
+CREATE POLICY "Household members can update household quests"
+  ON quests FOR UPDATE
+  TO authenticated
+  USING (household_id = current_household_id())
+  WITH CHECK (household_id = current_household_id());
+
+CREATE POLICY "Household members can delete household quests"
+  ON quests FOR DELETE
+  TO authenticated
+  USING (household_id = current_household_id());
+
+CREATE POLICY "Users can read seeded and household shop items"
+  ON shop_items FOR SELECT
+  TO authenticated
+  USING (created_by IS NULL OR household_id = current_household_id());
+
+CREATE POLICY "Household members can create shop items"
+  ON shop_items FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND household_id = current_household_id());
+
+CREATE POLICY "Household members can update household shop items"
+  ON shop_items FOR UPDATE
+  TO authenticated
+  USING (household_id = current_household_id())
+  WITH CHECK (household_id = current_household_id());
+
+CREATE POLICY "Household members can delete household shop items"
+  ON shop_items FOR DELETE
+  TO authenticated
+  USING (household_id = current_household_id());
+
+-- Households, members and invites
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read their household" ON households;
+CREATE POLICY "Members can read their household"
+  ON households FOR SELECT
+  TO authenticated
+  USING (id = current_household_id());
+
+DROP POLICY IF EXISTS "Owners can rename their household" ON households;
+CREATE POLICY "Owners can rename their household"
+  ON households FOR UPDATE
+  TO authenticated
+  USING (id = current_household_id() AND is_household_owner())
+  WITH CHECK (id = current_household_id());
+
+DROP POLICY IF EXISTS "Members can read household members" ON household_members;
+CREATE POLICY "Members can read household members"
+  ON household_members FOR SELECT
+  TO authenticated
+  USING (household_id = current_household_id());
+
+DROP POLICY IF EXISTS "Members and invitees can read invites" ON household_invites;
+CREATE POLICY "Members and invitees can read invites"
+  ON household_invites FOR SELECT
+  TO authenticated
+  USING (
+    household_id = current_household_id()
+    OR LOWER(email) = LOWER(auth.jwt() ->> 'email')
+  );
+
+DROP POLICY IF EXISTS "Owners can create invites" ON household_invites;
+CREATE POLICY "Owners can create invites"
+  ON household_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (household_id = current_household_id() AND is_household_owner() AND invited_by = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can revoke invites" ON household_invites;
+CREATE POLICY "Owners can revoke invites"
+  ON household_invites FOR UPDATE
+  TO authenticated
+  USING (household_id = current_household_id() AND is_household_owner())
+  WITH CHECK (household_id = current_household_id());
+
+-- Step 7: Only owners can change rewards and prices
+CREATE OR REPLACE FUNCTION enforce_owner_amount_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_new JSONB := to_jsonb(NEW);
+  v_old JSONB;
+BEGIN
+  IF is_household_owner() OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND TG_TABLE_NAME IN ('quests', 'shop_items') THEN
+    -- Members can add items, but they start unpriced until an owner sets the amounts
+    IF COALESCE((v_new->>'reward')::NUMERIC, 0) <> 0
+      OR COALESCE((v_new->>'price')::NUMERIC, 0) <> 0
+      OR COALESCE((v_new->>'dollar_amount')::NUMERIC, 0) <> 0 THEN
+      RAISE EXCEPTION 'Only household owners can set rewards or prices';
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    -- Override rows only carry an amount when someone is changing it
+    IF v_new->>'reward' IS NOT NULL OR v_new->>'price' IS NOT NULL OR v_new->>'dollar_amount' IS NOT NULL THEN
+      RAISE EXCEPTION 'Only household owners can change rewards or prices';
+    END IF;
+  ELSE
+    v_old := to_jsonb(OLD);
+    IF v_new->'reward' IS DISTINCT FROM v_old->'reward'
+      OR v_new->'price' IS DISTINCT FROM v_old->'price'
+      OR v_new->'dollar_amount' IS DISTINCT FROM v_old->'dollar_amount' THEN
+      RAISE EXCEPTION 'Only household owners can change rewards or prices';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS quests_owner_amount_edits ON quests;
+CREATE TRIGGER quests_owner_amount_edits
+  BEFORE INSERT OR UPDATE ON quests
+  FOR EACH ROW EXECUTE FUNCTION enforce_owner_amount_edits();
+
+DROP TRIGGER IF EXISTS shop_items_owner_amount_edits ON shop_items;
+CREATE TRIGGER shop_items_owner_amount_edits
+  BEFORE INSERT OR UPDATE ON shop_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_owner_amount_edits();
+
+DROP TRIGGER IF EXISTS user_quest_overrides_owner_amount_edits ON user_quest_overrides;
+CREATE TRIGGER user_quest_overrides_owner_amount_edits
+  BEFORE INSERT OR UPDATE ON user_quest_overrides
+  FOR EACH ROW EXECUTE FUNCTION enforce_owner_amount_edits();
+
+DROP TRIGGER IF EXISTS user_shop_item_overrides_owner_amount_edits ON user_shop_item_overrides;
+CREATE TRIGGER user_shop_item_overrides_owner_amount_edits
+  BEFORE INSERT OR UPDATE ON user_shop_item_overrides
+  FOR EACH ROW EXECUTE FUNCTION enforce_owner_amount_edits();
+
+-- Step 8: Household lifecycle functions
+-- Returns the caller's household, creating a single-member one for new users
+CREATE OR REPLACE FUNCTION ensure_household()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT household_id INTO v_household_id FROM household_members WHERE user_id = v_user_id;
+  IF v_household_id IS NOT NULL THEN
+    RETURN v_household_id;
+  END IF;
+
+  INSERT INTO households (created_by) VALUES (v_user_id) RETURNING id INTO v_household_id;
+  INSERT INTO household_members (household_id, user_id, role, email)
+  VALUES (v_household_id, v_user_id, 'owner', auth.jwt() ->> 'email');
+
+  RETURN v_household_id;
+END;
+$$;
+
+-- Join the household that invited the caller's email address.
+-- The caller's previous household and its data are left in place (with no
+-- members if they were its only one); nothing is deleted.
+CREATE OR REPLACE FUNCTION accept_household_invite(p_invite_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_invite household_invites;
+  v_previous household_members;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT * INTO v_invite FROM household_invites
+  WHERE id = p_invite_id
+    AND status = 'pending'
+    AND LOWER(email) = LOWER(auth.jwt() ->> 'email')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  SELECT * INTO v_previous FROM household_members WHERE user_id = v_user_id;
+  IF FOUND AND v_previous.household_id = v_invite.household_id THEN
+    RAISE EXCEPTION 'You are already a member of this household';
+  END IF;
+  IF FOUND AND v_previous.role = 'owner' AND EXISTS (
+    SELECT 1 FROM household_members
+    WHERE household_id = v_previous.household_id AND user_id <> v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Remove the other members of your household before joining another';
+  END IF;
+
+  DELETE FROM household_members WHERE user_id = v_user_id;
+
+  INSERT INTO household_members (household_id, user_id, role, email)
+  VALUES (v_invite.household_id, v_user_id, 'member', auth.jwt() ->> 'email');
+
+  UPDATE household_invites SET status = 'accepted', responded_at = NOW() WHERE id = p_invite_id;
+
+  RETURN v_invite.household_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_household_invite(p_invite_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE household_invites
+  SET status = 'declined', responded_at = NOW()
+  WHERE id = p_invite_id
+    AND status = 'pending'
+    AND LOWER(email) = LOWER(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+END;
+$$;
+
+-- Owners can remove a member; the removed user gets a fresh household on next load
+CREATE OR REPLACE FUNCTION remove_household_member(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can remove members';
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Owners cannot remove themselves';
+  END IF;
+
+  DELETE FROM household_members
+  WHERE user_id = p_user_id AND household_id = current_household_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+END;
+$$;
+
+-- Step 9: Ledger functions operate on the household wallet
+-- They run as SECURITY DEFINER because members can't write the wallet, logs or
+-- journal themselves. apply_wallet_transaction trusts its p_user_id, so it is
+-- only callable from these functions (see the REVOKE in Step 10).
+CREATE OR REPLACE FUNCTION apply_wallet_transaction(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_amount INTEGER,
+  p_dollar_amount INTEGER,
+  p_source_id UUID DEFAULT NULL,
+  p_unit_amount INTEGER DEFAULT NULL,
+  p_unit_dollar_amount INTEGER DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_household_id UUID;
+  v_wallet wallets;
+BEGIN
+  SELECT household_id INTO v_household_id FROM household_members WHERE user_id = p_user_id;
+  IF v_household_id IS NULL THEN
+    RAISE EXCEPTION 'User is not in a household';
+  END IF;
+
+  INSERT INTO wallet_transactions (
+    user_id, household_id, kind, amount, dollar_amount, source_id, unit_amount, unit_dollar_amount, note, created_at
+  )
+  VALUES (
+    p_user_id, v_household_id, p_kind, p_amount, COALESCE(p_dollar_amount, 0), p_source_id, p_unit_amount, p_unit_dollar_amount, p_note, NOW()
+  );
+
+  INSERT INTO wallets (user_id, household_id, id, total, dollar_total, updated_at)
+  VALUES (p_user_id, v_household_id, NULL, p_amount, COALESCE(p_dollar_amount, 0), NOW())
+  ON CONFLICT (household_id) DO UPDATE
+    SET total = wallets.total + EXCLUDED.total,
+        dollar_total = COALESCE(wallets.dollar_total, 0) + EXCLUDED.dollar_total,
+        updated_at = NOW()
+  RETURNING * INTO v_wallet;
+
+  RETURN v_wallet;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_quest(p_quest_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_reward INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_log_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT
+    COALESCE(o.reward, q.reward),
+    COALESCE(o.dollar_amount, q.dollar_amount, 0),
+    COALESCE(o.name, q.name)
+  INTO v_reward, v_dollar_amount, v_name
+  FROM quests q
+  LEFT JOIN user_quest_overrides o
+    ON o.quest_id = q.id AND o.household_id = v_household_id
+  WHERE q.id = p_quest_id
+    AND (q.created_by IS NULL OR q.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+
+  INSERT INTO quest_logs (quest_id, user_id, household_id, completed_at, reward, dollar_amount, quest_name)
+  VALUES (p_quest_id, v_user_id, v_household_id, NOW(), v_reward, v_dollar_amount, v_name)
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'quest_completion', v_reward, v_dollar_amount,
+    v_log_id, v_reward, v_dollar_amount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purchase_item(p_item_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_price INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_log_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT
+    COALESCE(o.price, i.price),
+    COALESCE(o.dollar_amount, i.dollar_amount, 0),
+    COALESCE(o.name, i.name)
+  INTO v_price, v_dollar_amount, v_name
+  FROM shop_items i
+  LEFT JOIN user_shop_item_overrides o
+    ON o.shop_item_id = i.id AND o.household_id = v_household_id
+  WHERE i.id = p_item_id
+    AND (i.created_by IS NULL OR i.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop item not found';
+  END IF;
+
+  INSERT INTO shop_logs (shop_item_id, user_id, household_id, purchased_at, price, dollar_amount, item_name)
+  VALUES (p_item_id, v_user_id, v_household_id, NOW(), v_price, v_dollar_amount, v_name)
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'purchase', -v_price, -v_dollar_amount,
+    v_log_id, v_price, v_dollar_amount
+  );
+END;
+$$;
+
+-- Only owners can reset the shared wallet
+CREATE OR REPLACE FUNCTION reset_wallet()
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_total INTEGER;
+  v_dollar_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can reset the wallet';
+  END IF;
+
+  SELECT total, COALESCE(dollar_total, 0)
+  INTO v_total, v_dollar_total
+  FROM wallets
+  WHERE household_id = current_household_id()
+  FOR UPDATE;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'reset', -COALESCE(v_total, 0), -COALESCE(v_dollar_total, 0),
+    NULL, NULL, NULL, 'Wallet reset'
+  );
+END;
+$$;
+
+-- Manual adjustments are owner-only too
+CREATE OR REPLACE FUNCTION adjust_wallet(p_amount INTEGER, p_dollar_amount INTEGER DEFAULT 0)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can adjust the wallet';
+  END IF;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'adjustment', p_amount, COALESCE(p_dollar_amount, 0),
+    NULL, NULL, NULL, 'Manual adjustment'
+  );
+END;
+$$;
+
+-- Any member can reverse any household entry; the refund is attributed to them
+CREATE OR REPLACE FUNCTION reverse_quest_log(p_log_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_reversed_at TIMESTAMPTZ;
+  v_entry wallet_transactions;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT reversed_at INTO v_reversed_at
+  FROM quest_logs
+  WHERE id = p_log_id AND household_id = v_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest log not found';
+  END IF;
+  IF v_reversed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quest completion was already reversed';
+  END IF;
+
+  UPDATE quest_logs SET reversed_at = NOW() WHERE id = p_log_id;
+
+  SELECT * INTO v_entry
+  FROM wallet_transactions
+  WHERE household_id = v_household_id
+    AND source_id = p_log_id
+    AND kind = 'quest_completion'
+  LIMIT 1;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'undo', -COALESCE(v_entry.amount, 0), -COALESCE(v_entry.dollar_amount, 0),
+    p_log_id, v_entry.unit_amount, v_entry.unit_dollar_amount, 'Reversed quest completion'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reverse_shop_log(p_log_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_reversed_at TIMESTAMPTZ;
+  v_entry wallet_transactions;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT reversed_at INTO v_reversed_at
+  FROM shop_logs
+  WHERE id = p_log_id AND household_id = v_household_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop log not found';
+  END IF;
+  IF v_reversed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Purchase was already reversed';
+  END IF;
+
+  UPDATE shop_logs SET reversed_at = NOW() WHERE id = p_log_id;
+
+  SELECT * INTO v_entry
+  FROM wallet_transactions
+  WHERE household_id = v_household_id
+    AND source_id = p_log_id
+    AND kind = 'purchase'
+  LIMIT 1;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'undo', -COALESCE(v_entry.amount, 0), -COALESCE(v_entry.dollar_amount, 0),
+    p_log_id, v_entry.unit_amount, v_entry.unit_dollar_amount, 'Reversed purchase'
+  );
+END;
+$$;
+
+-- Step 10: The other writes to the wallet and logs
+-- Creates the household's empty wallet if no ledger function has yet
+CREATE OR REPLACE FUNCTION ensure_wallet()
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_wallet wallets;
+BEGIN
+  IF v_household_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  INSERT INTO wallets (user_id, household_id, id, total, dollar_total, updated_at)
+  VALUES (v_user_id, v_household_id, NULL, 0, 0, NOW())
+  ON CONFLICT (household_id) DO NOTHING;
+
+  SELECT * INTO v_wallet FROM wallets WHERE household_id = v_household_id;
+  RETURN v_wallet;
+END;
+$$;
+
+-- Raising a completion or purchase count adds history without moving the wallet;
+-- the entries snapshot the item's current effective values
+CREATE OR REPLACE FUNCTION add_quest_log_entries(p_quest_id UUID, p_count INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+  IF p_count IS NULL OR p_count NOT BETWEEN 1 AND 1000 THEN
+    RAISE EXCEPTION 'Count must be between 1 and 1000';
+  END IF;
+
+  INSERT INTO quest_logs (quest_id, user_id, household_id, completed_at, reward, dollar_amount, quest_name)
+  SELECT
+    q.id, v_user_id, v_household_id, NOW(),
+    COALESCE(o.reward, q.reward),
+    COALESCE(o.dollar_amount, q.dollar_amount, 0),
+    COALESCE(o.name, q.name)
+  FROM quests q
+  LEFT JOIN user_quest_overrides o
+    ON o.quest_id = q.id AND o.household_id = v_household_id
+  CROSS JOIN generate_series(1, p_count)
+  WHERE q.id = p_quest_id
+    AND (q.created_by IS NULL OR q.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_shop_log_entries(p_item_id UUID, p_count INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+  IF p_count IS NULL OR p_count NOT BETWEEN 1 AND 1000 THEN
+    RAISE EXCEPTION 'Count must be between 1 and 1000';
+  END IF;
+
+  INSERT INTO shop_logs (shop_item_id, user_id, household_id, purchased_at, price, dollar_amount, item_name)
+  SELECT
+    i.id, v_user_id, v_household_id, NOW(),
+    COALESCE(o.price, i.price),
+    COALESCE(o.dollar_amount, i.dollar_amount, 0),
+    COALESCE(o.name, i.name)
+  FROM shop_items i
+  LEFT JOIN user_shop_item_overrides o
+    ON o.shop_item_id = i.id AND o.household_id = v_household_id
+  CROSS JOIN generate_series(1, p_count)
+  WHERE i.id = p_item_id
+    AND (i.created_by IS NULL OR i.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop item not found';
+  END IF;
+END;
+$$;
+
+-- Clearing history is part of resetting all progress, so it is owner-only
+CREATE OR REPLACE FUNCTION delete_all_quest_logs()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can reset progress';
+  END IF;
+
+  DELETE FROM quest_logs WHERE household_id = current_household_id();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_all_shop_logs()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can reset progress';
+  END IF;
+
+  DELETE FROM shop_logs WHERE household_id = current_household_id();
+END;
+$$;
+
+-- Restoring exported history keeps the original dates and snapshots (owner-only,
+-- like every import). Entries must point at the household's own or seeded items.
+CREATE OR REPLACE FUNCTION import_quest_logs(p_logs JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_count INTEGER;
+BEGIN
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can import data';
+  END IF;
+  IF jsonb_typeof(p_logs) <> 'array' THEN
+    RAISE EXCEPTION 'Quest logs must be a list';
+  END IF;
+
+  INSERT INTO quest_logs (quest_id, user_id, household_id, completed_at, reversed_at, reward, dollar_amount, quest_name)
+  SELECT l.quest_id, v_user_id, v_household_id, l.completed_at, l.reversed_at, l.reward, l.dollar_amount, l.quest_name
+  FROM jsonb_to_recordset(p_logs) AS l(
+    quest_id UUID, completed_at TIMESTAMPTZ, reversed_at TIMESTAMPTZ,
+    reward INTEGER, dollar_amount INTEGER, quest_name TEXT
+  )
+  JOIN quests q
+    ON q.id = l.quest_id AND (q.created_by IS NULL OR q.household_id = v_household_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count <> jsonb_array_length(p_logs) THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION import_shop_logs(p_logs JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_count INTEGER;
+BEGIN
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can import data';
+  END IF;
+  IF jsonb_typeof(p_logs) <> 'array' THEN
+    RAISE EXCEPTION 'Shop logs must be a list';
+  END IF;
+
+  INSERT INTO shop_logs (shop_item_id, user_id, household_id, purchased_at, reversed_at, price, dollar_amount, item_name)
+  SELECT l.shop_item_id, v_user_id, v_household_id, l.purchased_at, l.reversed_at, l.price, l.dollar_amount, l.item_name
+  FROM jsonb_to_recordset(p_logs) AS l(
+    shop_item_id UUID, purchased_at TIMESTAMPTZ, reversed_at TIMESTAMPTZ,
+    price INTEGER, dollar_amount INTEGER, item_name TEXT
+  )
+  JOIN shop_items i
+    ON i.id = l.shop_item_id AND (i.created_by IS NULL OR i.household_id = v_household_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count <> jsonb_array_length(p_logs) THEN
+    RAISE EXCEPTION 'Shop item not found';
+  END IF;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_wallet_transaction(UUID, TEXT, INTEGER, INTEGER, UUID, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION current_household_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION is_household_owner() TO authenticated;
+GRANT EXECUTE ON FUNCTION ensure_household() TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_household_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION decline_household_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_household_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION adjust_wallet(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION ensure_wallet() TO authenticated;
+GRANT EXECUTE ON FUNCTION add_quest_log_entries(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_shop_log_entries(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_all_quest_logs() TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_all_shop_logs() TO authenticated;
+GRANT EXECUTE ON FUNCTION import_quest_logs(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION import_shop_logs(JSONB) TO authenticated;
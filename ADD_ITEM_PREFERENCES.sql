@@ -0,0 +1,31 @@
+-- Get Kraken - Starred Items and Custom Order
+-- Run this SQL in your Supabase SQL editor AFTER ADD_PHOTOS.sql
+--
+-- Stars and drag-to-reorder positions for quests and shop items. Unlike the
+-- household overrides, these are personal: each member keeps their own
+-- favourites and order for the same shared catalog.
+
+-- Step 1: Per-user item preferences
+CREATE TABLE IF NOT EXISTS user_item_preferences (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('quest', 'shop_item')),
+  item_id UUID NOT NULL, -- quests.id or shop_items.id, depending on item_type
+  starred BOOLEAN NOT NULL DEFAULT false,
+  sort_position INTEGER, -- NULL until the user reorders
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_item_preferences_user_item
+  ON user_item_preferences(user_id, item_type, item_id);
+
+-- Step 2: RLS - members only ever see their own preferences
+ALTER TABLE user_item_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can access their own item preferences" ON user_item_preferences;
+CREATE POLICY "Users can access their own item preferences"
+  ON user_item_preferences FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
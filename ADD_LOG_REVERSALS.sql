@@ -0,0 +1,119 @@
+-- Get Kraken - Log Reversals
+-- Run this SQL in your Supabase SQL editor AFTER ADD_WALLET_TRANSACTIONS_JOURNAL.sql
+--
+-- Lets a user reverse a specific quest completion or purchase. The log row is
+-- kept and stamped with reversed_at, and the exact amount that was credited or
+-- debited (taken from the journal) is refunded as an 'undo' journal entry.
+
+-- Step 1: Mark reversed logs instead of deleting them
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMPTZ;
+ALTER TABLE shop_logs ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMPTZ;
+
+-- Step 2: Users can stamp their own logs (needed by the SECURITY INVOKER functions)
+DROP POLICY IF EXISTS "Users can update their own quest logs" ON quest_logs;
+CREATE POLICY "Users can update their own quest logs"
+  ON quest_logs FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own shop logs" ON shop_logs;
+CREATE POLICY "Users can update their own shop logs"
+  ON shop_logs FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Step 3: Reverse a quest completion and refund exactly what it credited
+CREATE OR REPLACE FUNCTION reverse_quest_log(p_log_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reversed_at TIMESTAMPTZ;
+  v_entry wallet_transactions;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Lock the log so a double tap cannot refund twice
+  SELECT reversed_at INTO v_reversed_at
+  FROM quest_logs
+  WHERE id = p_log_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest log not found';
+  END IF;
+  IF v_reversed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quest completion was already reversed';
+  END IF;
+
+  UPDATE quest_logs SET reversed_at = NOW() WHERE id = p_log_id;
+
+  -- Logs added by editing the completion count never credited the wallet,
+  -- so there may be no journal entry; in that case nothing is refunded
+  SELECT * INTO v_entry
+  FROM wallet_transactions
+  WHERE user_id = v_user_id
+    AND source_id = p_log_id
+    AND kind = 'quest_completion'
+  LIMIT 1;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'undo', -COALESCE(v_entry.amount, 0), -COALESCE(v_entry.dollar_amount, 0),
+    p_log_id, v_entry.unit_amount, v_entry.unit_dollar_amount, 'Reversed quest completion'
+  );
+END;
+$$;
+
+-- Step 4: Reverse a purchase and refund exactly what it debited
+CREATE OR REPLACE FUNCTION reverse_shop_log(p_log_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reversed_at TIMESTAMPTZ;
+  v_entry wallet_transactions;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT reversed_at INTO v_reversed_at
+  FROM shop_logs
+  WHERE id = p_log_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop log not found';
+  END IF;
+  IF v_reversed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Purchase was already reversed';
+  END IF;
+
+  UPDATE shop_logs SET reversed_at = NOW() WHERE id = p_log_id;
+
+  SELECT * INTO v_entry
+  FROM wallet_transactions
+  WHERE user_id = v_user_id
+    AND source_id = p_log_id
+    AND kind = 'purchase'
+  LIMIT 1;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'undo', -COALESCE(v_entry.amount, 0), -COALESCE(v_entry.dollar_amount, 0),
+    p_log_id, v_entry.unit_amount, v_entry.unit_dollar_amount, 'Reversed purchase'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reverse_quest_log(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION reverse_shop_log(UUID) TO authenticated;
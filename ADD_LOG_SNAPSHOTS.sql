@@ -0,0 +1,160 @@
+-- Get Kraken - Log Snapshots
+-- Run this SQL in your Supabase SQL editor AFTER ADD_LOG_REVERSALS.sql
+--
+-- Each quest/shop log now records the reward or price, dollar amount, and name
+-- that were in effect when it was written. Editing a quest later no longer
+-- rewrites past weekly recaps, and hidden quests keep their history.
+
+-- Step 1: Snapshot columns
+ALTER TABLE quest_logs
+ADD COLUMN IF NOT EXISTS reward INTEGER,
+ADD COLUMN IF NOT EXISTS dollar_amount INTEGER,
+ADD COLUMN IF NOT EXISTS quest_name TEXT;
+
+ALTER TABLE shop_logs
+ADD COLUMN IF NOT EXISTS price INTEGER,
+ADD COLUMN IF NOT EXISTS dollar_amount INTEGER,
+ADD COLUMN IF NOT EXISTS item_name TEXT;
+
+-- Step 2: Backfill from the journal where the exact applied amount is known
+UPDATE quest_logs l
+SET reward = t.unit_amount,
+    dollar_amount = COALESCE(t.unit_dollar_amount, 0)
+FROM wallet_transactions t
+WHERE t.source_id = l.id
+  AND t.kind = 'quest_completion'
+  AND l.reward IS NULL;
+
+UPDATE shop_logs l
+SET price = t.unit_amount,
+    dollar_amount = COALESCE(t.unit_dollar_amount, 0)
+FROM wallet_transactions t
+WHERE t.source_id = l.id
+  AND t.kind = 'purchase'
+  AND l.price IS NULL;
+
+-- Step 3: Backfill the rest (and all names) from the log owner's current effective values.
+-- This is the best information available for logs written before snapshots existed.
+UPDATE quest_logs l
+SET reward = COALESCE(l.reward, o.reward, q.reward),
+    dollar_amount = COALESCE(l.dollar_amount, ROUND(o.dollar_amount)::INTEGER, ROUND(q.dollar_amount)::INTEGER, 0),
+    quest_name = COALESCE(l.quest_name, o.name, q.name)
+FROM quests q
+LEFT JOIN user_quest_overrides o ON o.quest_id = q.id
+WHERE q.id = l.quest_id
+  AND (o.user_id IS NULL OR o.user_id = l.user_id)
+  AND (l.reward IS NULL OR l.quest_name IS NULL);
+
+UPDATE shop_logs l
+SET price = COALESCE(l.price, o.price, i.price),
+    dollar_amount = COALESCE(l.dollar_amount, ROUND(o.dollar_amount)::INTEGER, ROUND(i.dollar_amount)::INTEGER, 0),
+    item_name = COALESCE(l.item_name, o.name, i.name)
+FROM shop_items i
+LEFT JOIN user_shop_item_overrides o ON o.shop_item_id = i.id
+WHERE i.id = l.shop_item_id
+  AND (o.user_id IS NULL OR o.user_id = l.user_id)
+  AND (l.price IS NULL OR l.item_name IS NULL);
+
+-- Logs whose owner had no override on an item other users override
+UPDATE quest_logs l
+SET reward = COALESCE(l.reward, q.reward),
+    dollar_amount = COALESCE(l.dollar_amount, ROUND(q.dollar_amount)::INTEGER, 0),
+    quest_name = COALESCE(l.quest_name, q.name)
+FROM quests q
+WHERE q.id = l.quest_id
+  AND (l.reward IS NULL OR l.quest_name IS NULL);
+
+UPDATE shop_logs l
+SET price = COALESCE(l.price, i.price),
+    dollar_amount = COALESCE(l.dollar_amount, ROUND(i.dollar_amount)::INTEGER, 0),
+    item_name = COALESCE(l.item_name, i.name)
+FROM shop_items i
+WHERE i.id = l.shop_item_id
+  AND (l.price IS NULL OR l.item_name IS NULL);
+
+-- Step 4: Ledger functions write the snapshot with the log
+CREATE OR REPLACE FUNCTION complete_quest(p_quest_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_log_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT
+    COALESCE(o.reward, q.reward),
+    COALESCE(o.dollar_amount, q.dollar_amount, 0),
+    COALESCE(o.name, q.name)
+  INTO v_reward, v_dollar_amount, v_name
+  FROM quests q
+  LEFT JOIN user_quest_overrides o
+    ON o.quest_id = q.id AND o.user_id = v_user_id
+  WHERE q.id = p_quest_id
+    AND (q.created_by IS NULL OR q.created_by = v_user_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+
+  INSERT INTO quest_logs (quest_id, user_id, completed_at, reward, dollar_amount, quest_name)
+  VALUES (p_quest_id, v_user_id, NOW(), v_reward, v_dollar_amount, v_name)
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'quest_completion', v_reward, v_dollar_amount,
+    v_log_id, v_reward, v_dollar_amount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purchase_item(p_item_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_price INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_log_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT
+    COALESCE(o.price, i.price),
+    COALESCE(o.dollar_amount, i.dollar_amount, 0),
+    COALESCE(o.name, i.name)
+  INTO v_price, v_dollar_amount, v_name
+  FROM shop_items i
+  LEFT JOIN user_shop_item_overrides o
+    ON o.shop_item_id = i.id AND o.user_id = v_user_id
+  WHERE i.id = p_item_id
+    AND (i.created_by IS NULL OR i.created_by = v_user_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop item not found';
+  END IF;
+
+  INSERT INTO shop_logs (shop_item_id, user_id, purchased_at, price, dollar_amount, item_name)
+  VALUES (p_item_id, v_user_id, NOW(), v_price, v_dollar_amount, v_name)
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'purchase', -v_price, -v_dollar_amount,
+    v_log_id, v_price, v_dollar_amount
+  );
+END;
+$$;
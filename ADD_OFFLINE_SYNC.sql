@@ -0,0 +1,204 @@
+-- Get Kraken - Offline Sync
+-- Run this SQL in your Supabase SQL editor AFTER ADD_QUEST_SCHEDULES.sql
+--
+-- Completions and purchases made offline are queued on the device and
+-- replayed when it reconnects. Each queued action carries a client-generated
+-- id, so a replay that already reached the server (e.g. the response was
+-- lost) returns the wallet instead of applying the action twice. The time the
+-- action happened on the device is kept as completed_at / purchased_at, as
+-- long as it falls within the last week (a device can't backdate further).
+
+-- Step 1: Client ids on logs
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE shop_logs ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quest_logs_client_id ON quest_logs(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shop_logs_client_id ON shop_logs(client_id);
+
+-- Step 2: When a queued action happened - never in the future, and no more
+-- than a week back, however long the device was offline (or claims it was)
+CREATE OR REPLACE FUNCTION clamp_occurred_at(p_occurred_at TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT GREATEST(LEAST(COALESCE(p_occurred_at, NOW()), NOW()), NOW() - INTERVAL '7 days');
+$$;
+
+-- Step 3: Idempotent ledger functions
+-- The new optional parameters change the signature, so drop the old ones
+-- rather than leave an ambiguous overload behind
+DROP FUNCTION IF EXISTS complete_quest(UUID);
+DROP FUNCTION IF EXISTS purchase_item(UUID);
+
+CREATE OR REPLACE FUNCTION complete_quest(
+  p_quest_id UUID,
+  p_client_id UUID DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_reward INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_log_id UUID;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Already replayed: hand back the wallet without applying it again
+  IF p_client_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM quest_logs WHERE client_id = p_client_id AND household_id = v_household_id
+  ) THEN
+    SELECT * INTO v_wallet FROM wallets WHERE household_id = v_household_id;
+    RETURN v_wallet;
+  END IF;
+
+  SELECT
+    COALESCE(o.reward, q.reward),
+    COALESCE(o.dollar_amount, q.dollar_amount, 0),
+    COALESCE(o.name, q.name)
+  INTO v_reward, v_dollar_amount, v_name
+  FROM quests q
+  LEFT JOIN user_quest_overrides o
+    ON o.quest_id = q.id AND o.household_id = v_household_id
+  WHERE q.id = p_quest_id
+    AND (q.created_by IS NULL OR q.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+
+  INSERT INTO quest_logs (quest_id, user_id, household_id, completed_at, reward, dollar_amount, quest_name, client_id)
+  VALUES (
+    p_quest_id, v_user_id, v_household_id,
+    clamp_occurred_at(p_occurred_at),
+    v_reward, v_dollar_amount, v_name, p_client_id
+  )
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'quest_completion', v_reward, v_dollar_amount,
+    v_log_id, v_reward, v_dollar_amount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purchase_item(
+  p_item_id UUID,
+  p_client_id UUID DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_price INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_log_id UUID;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Already replayed: hand back the wallet without applying it again
+  IF p_client_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM shop_logs WHERE client_id = p_client_id AND household_id = v_household_id
+  ) THEN
+    SELECT * INTO v_wallet FROM wallets WHERE household_id = v_household_id;
+    RETURN v_wallet;
+  END IF;
+
+  SELECT
+    COALESCE(o.price, i.price),
+    COALESCE(o.dollar_amount, i.dollar_amount, 0),
+    COALESCE(o.name, i.name)
+  INTO v_price, v_dollar_amount, v_name
+  FROM shop_items i
+  LEFT JOIN user_shop_item_overrides o
+    ON o.shop_item_id = i.id AND o.household_id = v_household_id
+  WHERE i.id = p_item_id
+    AND (i.created_by IS NULL OR i.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop item not found';
+  END IF;
+
+  INSERT INTO shop_logs (shop_item_id, user_id, household_id, purchased_at, price, dollar_amount, item_name, client_id)
+  VALUES (
+    p_item_id, v_user_id, v_household_id,
+    clamp_occurred_at(p_occurred_at),
+    v_price, v_dollar_amount, v_name, p_client_id
+  )
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'purchase', -v_price, -v_dollar_amount,
+    v_log_id, v_price, v_dollar_amount
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION complete_quest(UUID, UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION purchase_item(UUID, UUID, TIMESTAMPTZ) TO authenticated;
+
+-- Step 4: A reset queued offline zeroes the balance the owner saw when they
+-- tapped it. If the wallet has moved since (another member's completion, a
+-- queued purchase that was rejected), the replay is refused rather than
+-- wiping changes the owner never saw.
+DROP FUNCTION IF EXISTS reset_wallet();
+
+CREATE OR REPLACE FUNCTION reset_wallet(
+  p_expected_total INTEGER DEFAULT NULL,
+  p_expected_dollar_total INTEGER DEFAULT NULL
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_total INTEGER;
+  v_dollar_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can reset the wallet';
+  END IF;
+
+  SELECT total, COALESCE(dollar_total, 0)
+  INTO v_total, v_dollar_total
+  FROM wallets
+  WHERE household_id = current_household_id()
+  FOR UPDATE;
+
+  IF (p_expected_total IS NOT NULL AND p_expected_total <> COALESCE(v_total, 0))
+    OR (p_expected_dollar_total IS NOT NULL AND p_expected_dollar_total <> COALESCE(v_dollar_total, 0)) THEN
+    RAISE EXCEPTION 'The wallet changed while you were offline, so it was not reset';
+  END IF;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'reset', -COALESCE(v_total, 0), -COALESCE(v_dollar_total, 0),
+    NULL, NULL, NULL, 'Wallet reset'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reset_wallet(INTEGER, INTEGER) TO authenticated;
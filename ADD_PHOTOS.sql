@@ -0,0 +1,113 @@
+-- Get Kraken - Photos
+-- Run this SQL in your Supabase SQL editor AFTER ADD_REALTIME_LOG_SYNC.sql
+--
+-- Brings back photos: quests and shop items can have a photo (seeded ones
+-- through the household override, like every other edit), and a quest
+-- completion can carry an optional proof photo. Images are resized in the
+-- browser and stored in the public "kibblings" bucket under the household's
+-- folder: <household_id>/<quests|shop_items|proofs>/<uuid>.jpg
+
+-- Step 1: Photo columns
+ALTER TABLE quests ADD COLUMN IF NOT EXISTS photo_url TEXT;
+ALTER TABLE shop_items ADD COLUMN IF NOT EXISTS photo_url TEXT;
+ALTER TABLE user_quest_overrides ADD COLUMN IF NOT EXISTS photo_url TEXT;
+ALTER TABLE user_shop_item_overrides ADD COLUMN IF NOT EXISTS photo_url TEXT;
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS proof_photo_url TEXT;
+
+-- Step 2: Storage bucket (public read, so photo URLs work in <img> tags)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('kibblings', 'kibblings', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+-- Step 3: Members can only write inside their household's folder
+DROP POLICY IF EXISTS "Household members can upload photos" ON storage.objects;
+CREATE POLICY "Household members can upload photos"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'kibblings'
+    AND (storage.foldername(name))[1] = current_household_id()::text
+  );
+
+DROP POLICY IF EXISTS "Household members can update photos" ON storage.objects;
+CREATE POLICY "Household members can update photos"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'kibblings'
+    AND (storage.foldername(name))[1] = current_household_id()::text
+  );
+
+DROP POLICY IF EXISTS "Household members can delete photos" ON storage.objects;
+CREATE POLICY "Household members can delete photos"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'kibblings'
+    AND (storage.foldername(name))[1] = current_household_id()::text
+  );
+
+-- Step 4: Attach (or with NULL, remove) a proof photo on any household completion
+CREATE OR REPLACE FUNCTION set_quest_log_proof_photo(p_log_id UUID, p_photo_url TEXT)
+RETURNS quest_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log quest_logs;
+BEGIN
+  UPDATE quest_logs
+  SET proof_photo_url = NULLIF(TRIM(p_photo_url), '')
+  WHERE id = p_log_id AND household_id = current_household_id()
+  RETURNING * INTO v_log;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest log not found';
+  END IF;
+  RETURN v_log;
+END;
+$$;
+
+-- Step 5: Imports restore proof photos too
+CREATE OR REPLACE FUNCTION import_quest_logs(p_logs JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_count INTEGER;
+BEGIN
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can import data';
+  END IF;
+  IF jsonb_typeof(p_logs) <> 'array' THEN
+    RAISE EXCEPTION 'Quest logs must be a list';
+  END IF;
+
+  INSERT INTO quest_logs (
+    quest_id, user_id, household_id, completed_at, reversed_at, reward, dollar_amount, quest_name,
+    proof_photo_url
+  )
+  SELECT
+    l.quest_id, v_user_id, v_household_id, l.completed_at, l.reversed_at, l.reward, l.dollar_amount, l.quest_name,
+    l.proof_photo_url
+  FROM jsonb_to_recordset(p_logs) AS l(
+    quest_id UUID, completed_at TIMESTAMPTZ, reversed_at TIMESTAMPTZ,
+    reward INTEGER, dollar_amount INTEGER, quest_name TEXT, proof_photo_url TEXT
+  )
+  JOIN quests q
+    ON q.id = l.quest_id AND (q.created_by IS NULL OR q.household_id = v_household_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count <> jsonb_array_length(p_logs) THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_quest_log_proof_photo(UUID, TEXT) TO authenticated;
@@ -0,0 +1,88 @@
+-- Get Kraken - Preferences Document
+-- Run this SQL in your Supabase SQL editor AFTER ADD_CALENDAR_PREFERENCES.sql
+--
+-- Each user's settings move into one versioned JSON document, so new settings
+-- (currency name and icon, sound, theme, default tab) don't each need a
+-- column. The app upgrades older documents when it reads them. Saves merge
+-- only the changed keys, so two devices editing different settings don't
+-- overwrite each other, and realtime carries the result to the user's other
+-- devices. The old columns are kept in step for copies of the app that
+-- haven't updated yet.
+
+-- Step 1: The document, starting as version 1 - a copy of the columns
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE user_preferences
+SET settings = jsonb_build_object(
+  'version', 1,
+  'show_dollar_amounts', show_dollar_amounts,
+  'reminders_enabled', reminders_enabled,
+  'reminder_lead_minutes', reminder_lead_minutes,
+  'time_zone', time_zone,
+  'week_starts_on', week_starts_on
+)
+WHERE settings = '{}'::jsonb;
+
+-- Step 2: Merge changed keys into the caller's document (creating the row on first save)
+CREATE OR REPLACE FUNCTION save_preferences(p_changes JSONB)
+RETURNS user_preferences
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_row user_preferences;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+  IF jsonb_typeof(p_changes) <> 'object' THEN
+    RAISE EXCEPTION 'Preference changes must be an object';
+  END IF;
+
+  INSERT INTO user_preferences (user_id, settings)
+  VALUES (v_user_id, p_changes)
+  ON CONFLICT (user_id) DO UPDATE
+  SET settings = user_preferences.settings || EXCLUDED.settings,
+      updated_at = NOW()
+  RETURNING * INTO v_row;
+
+  -- Keep the legacy columns in step; values they can't hold are left alone
+  UPDATE user_preferences
+  SET show_dollar_amounts = COALESCE((settings->>'show_dollar_amounts')::BOOLEAN, show_dollar_amounts),
+      reminders_enabled = COALESCE((settings->>'reminders_enabled')::BOOLEAN, reminders_enabled),
+      reminder_lead_minutes = CASE
+        WHEN (settings->>'reminder_lead_minutes')::NUMERIC BETWEEN 0 AND 240
+          THEN ROUND((settings->>'reminder_lead_minutes')::NUMERIC)
+        ELSE reminder_lead_minutes
+      END,
+      time_zone = CASE
+        WHEN is_valid_time_zone(settings->>'time_zone') THEN settings->>'time_zone'
+        ELSE time_zone
+      END,
+      week_starts_on = CASE
+        WHEN (settings->>'week_starts_on')::NUMERIC BETWEEN 0 AND 6
+          THEN ROUND((settings->>'week_starts_on')::NUMERIC)
+        ELSE week_starts_on
+      END
+  WHERE id = v_row.id
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_preferences(JSONB) TO authenticated;
+
+-- Step 3: Realtime changes, so a setting changed on one device applies on the others
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'user_preferences'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE user_preferences;
+  END IF;
+END;
+$$;
@@ -0,0 +1,59 @@
+-- Get Kraken - Quest Cadence
+-- Run this SQL in your Supabase SQL editor AFTER ADD_HOUSEHOLDS.sql
+--
+-- Each quest can declare how often it is expected to be completed, which
+-- drives streaks and the "due today" state:
+--   {"type": "daily"}
+--   {"type": "weekly"}
+--   {"type": "times_per_week", "times": 3}
+--   {"type": "weekdays", "days": [1, 3, 5]}   (0 = Sunday)
+-- NULL keeps the original behaviour (daily).
+--
+-- grace_periods is how many missed periods a streak may skip over (streak
+-- freezes) before it breaks.
+
+-- Step 1: Cadence on household quests
+ALTER TABLE quests ADD COLUMN IF NOT EXISTS cadence JSONB;
+ALTER TABLE quests ADD COLUMN IF NOT EXISTS grace_periods INTEGER NOT NULL DEFAULT 0;
+
+-- Step 2: Cadence overrides for seeded quests
+ALTER TABLE user_quest_overrides ADD COLUMN IF NOT EXISTS cadence JSONB;
+ALTER TABLE user_quest_overrides ADD COLUMN IF NOT EXISTS grace_periods INTEGER;
+
+-- Step 3: Validate shape so the client never has to guess
+CREATE OR REPLACE FUNCTION is_valid_quest_cadence(p_cadence JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_cadence IS NULL
+    OR (p_cadence->>'type') IN ('daily', 'weekly')
+    OR (
+      p_cadence->>'type' = 'times_per_week'
+      AND jsonb_typeof(p_cadence->'times') = 'number'
+      AND (p_cadence->>'times')::INTEGER BETWEEN 1 AND 7
+    )
+    OR (
+      p_cadence->>'type' = 'weekdays'
+      AND jsonb_typeof(p_cadence->'days') = 'array'
+      AND jsonb_array_length(p_cadence->'days') BETWEEN 1 AND 7
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(p_cadence->'days') d
+        WHERE d !~ '^[0-6]$'
+      )
+    );
+$$;
+
+ALTER TABLE quests DROP CONSTRAINT IF EXISTS quests_cadence_valid;
+ALTER TABLE quests ADD CONSTRAINT quests_cadence_valid
+  CHECK (is_valid_quest_cadence(cadence));
+ALTER TABLE quests DROP CONSTRAINT IF EXISTS quests_grace_periods_range;
+ALTER TABLE quests ADD CONSTRAINT quests_grace_periods_range
+  CHECK (grace_periods BETWEEN 0 AND 7);
+
+ALTER TABLE user_quest_overrides DROP CONSTRAINT IF EXISTS user_quest_overrides_cadence_valid;
+ALTER TABLE user_quest_overrides ADD CONSTRAINT user_quest_overrides_cadence_valid
+  CHECK (is_valid_quest_cadence(cadence));
+ALTER TABLE user_quest_overrides DROP CONSTRAINT IF EXISTS user_quest_overrides_grace_periods_range;
+ALTER TABLE user_quest_overrides ADD CONSTRAINT user_quest_overrides_grace_periods_range
+  CHECK (grace_periods IS NULL OR grace_periods BETWEEN 0 AND 7);
@@ -0,0 +1,63 @@
+-- Get Kraken - Quest Packs
+-- Run this SQL in your Supabase SQL editor AFTER ADD_SAVINGS_TRANSFERS.sql
+--
+-- Installing a quest pack adds its tags, quests and shop items as ordinary
+-- household rows. It runs as one transaction, so a failure part way (a bad
+-- cadence, a dropped connection) leaves nothing half installed. Packs carry
+-- rewards and prices, so only owners can install them.
+
+-- Step 1: Install a planned pack (the app has already skipped what the
+-- household has and dropped money in another currency)
+CREATE OR REPLACE FUNCTION install_quest_pack(p_tags JSONB, p_quests JSONB, p_shop_items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+  IF NOT is_household_owner() THEN
+    RAISE EXCEPTION 'Only household owners can install quest packs';
+  END IF;
+  IF jsonb_typeof(p_tags) <> 'array'
+    OR jsonb_typeof(p_quests) <> 'array'
+    OR jsonb_typeof(p_shop_items) <> 'array' THEN
+    RAISE EXCEPTION 'Pack tags, quests and shop items must be lists';
+  END IF;
+
+  -- Tags first, so the new quests and items show theirs
+  INSERT INTO tags (household_id, scope, key, label, color, position)
+  SELECT v_household_id, t.scope, t.key, t.label, t.color, t.position
+  FROM jsonb_to_recordset(p_tags) AS t(scope TEXT, key TEXT, label TEXT, color TEXT, position INTEGER)
+  ON CONFLICT (household_id, scope, key) DO NOTHING;
+
+  -- Cadences and schedules are checked by the quests_*_valid constraints
+  INSERT INTO quests (
+    name, tags, reward, dollar_amount, cadence, grace_periods, schedule, unit, reward_per_unit,
+    created_by, household_id, completion_count, created_at, updated_at
+  )
+  SELECT
+    q.name, COALESCE(q.tags, '{}'), q.reward, COALESCE(q.dollar_amount, 0),
+    COALESCE(q.cadence, '{"type": "daily"}'::jsonb), COALESCE(q.grace_periods, 0), q.schedule,
+    q.unit, q.reward_per_unit, v_user_id, v_household_id, 0, NOW(), NOW()
+  FROM jsonb_to_recordset(p_quests) AS q(
+    name TEXT, tags TEXT[], reward INTEGER, dollar_amount INTEGER, cadence JSONB,
+    grace_periods INTEGER, schedule JSONB, unit TEXT, reward_per_unit INTEGER
+  );
+
+  INSERT INTO shop_items (
+    name, tags, price, dollar_amount, created_by, household_id, purchase_count, created_at, updated_at
+  )
+  SELECT
+    i.name, COALESCE(i.tags, '{}'), i.price, COALESCE(i.dollar_amount, 0),
+    v_user_id, v_household_id, 0, NOW(), NOW()
+  FROM jsonb_to_recordset(p_shop_items) AS i(name TEXT, tags TEXT[], price INTEGER, dollar_amount INTEGER);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION install_quest_pack(JSONB, JSONB, JSONB) TO authenticated;
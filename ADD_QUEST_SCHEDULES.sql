@@ -0,0 +1,58 @@
+-- Get Kraken - Quest Schedules and Reminders
+-- Run this SQL in your Supabase SQL editor AFTER ADD_GOAL_ALLOCATIONS.sql
+--
+-- A quest can carry a schedule (local time) that drives the "Today" list and
+-- reminder notifications:
+--   {"type": "daily", "time": "07:00"}
+--   {"type": "weekdays", "days": [1, 2, 3, 4, 5], "time": "07:00"}   (0 = Sunday)
+--   {"type": "monthly", "day": 1, "time": "09:00"}
+-- Reminders are computed on the device and shown by the service worker, so
+-- no push service is involved; each user's reminder settings live in
+-- user_preferences.
+
+-- Step 1: Schedules on household quests and overrides for seeded quests
+ALTER TABLE quests ADD COLUMN IF NOT EXISTS schedule JSONB;
+ALTER TABLE user_quest_overrides ADD COLUMN IF NOT EXISTS schedule JSONB;
+
+CREATE OR REPLACE FUNCTION is_valid_quest_schedule(p_schedule JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_schedule IS NULL
+    OR (
+      (p_schedule->>'time') ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+      AND (
+        p_schedule->>'type' = 'daily'
+        OR (
+          p_schedule->>'type' = 'weekdays'
+          AND jsonb_typeof(p_schedule->'days') = 'array'
+          AND jsonb_array_length(p_schedule->'days') BETWEEN 1 AND 7
+          AND NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements_text(p_schedule->'days') d
+            WHERE d !~ '^[0-6]$'
+          )
+        )
+        OR (
+          p_schedule->>'type' = 'monthly'
+          AND jsonb_typeof(p_schedule->'day') = 'number'
+          AND (p_schedule->>'day')::INTEGER BETWEEN 1 AND 31
+        )
+      )
+    );
+$$;
+
+ALTER TABLE quests DROP CONSTRAINT IF EXISTS quests_schedule_valid;
+ALTER TABLE quests ADD CONSTRAINT quests_schedule_valid
+  CHECK (is_valid_quest_schedule(schedule));
+ALTER TABLE user_quest_overrides DROP CONSTRAINT IF EXISTS user_quest_overrides_schedule_valid;
+ALTER TABLE user_quest_overrides ADD CONSTRAINT user_quest_overrides_schedule_valid
+  CHECK (is_valid_quest_schedule(schedule));
+
+-- Step 2: Per-user reminder preferences
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS reminders_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS reminder_lead_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE user_preferences DROP CONSTRAINT IF EXISTS user_preferences_reminder_lead_range;
+ALTER TABLE user_preferences ADD CONSTRAINT user_preferences_reminder_lead_range
+  CHECK (reminder_lead_minutes BETWEEN 0 AND 240);
@@ -0,0 +1,154 @@
+-- Get Kraken - Realtime Log Sync
+-- Run this SQL in your Supabase SQL editor AFTER ADD_OFFLINE_SYNC.sql
+--
+-- The app no longer polls the full log history. It loads a recent window of
+-- quest and shop logs, keeps it current through realtime changes, and pages
+-- older history in on request. Counts for the history outside the loaded
+-- window come from the aggregate functions below, as do the day-by-day totals
+-- that streak records, achievements and charts need for that older history.
+
+-- Step 1: Realtime changes for logs (full rows so reversals and deletes carry household_id)
+ALTER TABLE quest_logs REPLICA IDENTITY FULL;
+ALTER TABLE shop_logs REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'quest_logs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE quest_logs;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'shop_logs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE shop_logs;
+  END IF;
+END;
+$$;
+
+-- Step 2: Indexes for windowed history queries
+CREATE INDEX IF NOT EXISTS idx_quest_logs_household_completed_at
+  ON quest_logs(household_id, completed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_shop_logs_household_purchased_at
+  ON shop_logs(household_id, purchased_at DESC);
+
+-- Step 3: Per-quest / per-item counts of history before a point in time
+CREATE OR REPLACE FUNCTION quest_log_counts(p_before TIMESTAMPTZ)
+RETURNS TABLE (quest_id UUID, count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT l.quest_id, COUNT(*)
+  FROM quest_logs l
+  WHERE l.household_id = current_household_id()
+    AND l.reversed_at IS NULL
+    AND l.completed_at < p_before
+  GROUP BY l.quest_id;
+$$;
+
+CREATE OR REPLACE FUNCTION shop_log_counts(p_before TIMESTAMPTZ)
+RETURNS TABLE (shop_item_id UUID, count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT l.shop_item_id, COUNT(*)
+  FROM shop_logs l
+  WHERE l.household_id = current_household_id()
+    AND l.reversed_at IS NULL
+    AND l.purchased_at < p_before
+  GROUP BY l.shop_item_id;
+$$;
+
+-- Step 4: Day-by-day totals of the history before a point in time, with days
+-- counted in the caller's time zone. One row per quest (or item) and member,
+-- holding parallel arrays ordered by day, keeps the result under the API's
+-- row limit however long the history is.
+CREATE OR REPLACE FUNCTION quest_log_days(p_before TIMESTAMPTZ, p_time_zone TEXT)
+RETURNS TABLE (
+  quest_id UUID,
+  user_id UUID,
+  quest_name TEXT,
+  days DATE[],
+  counts INTEGER[],
+  rewards INTEGER[],
+  dollar_amounts INTEGER[]
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    d.quest_id,
+    d.user_id,
+    (array_agg(d.quest_name ORDER BY d.day DESC) FILTER (WHERE d.quest_name IS NOT NULL))[1],
+    array_agg(d.day ORDER BY d.day),
+    array_agg(d.count ORDER BY d.day),
+    array_agg(d.reward ORDER BY d.day),
+    array_agg(d.dollar_amount ORDER BY d.day)
+  FROM (
+    SELECT
+      l.quest_id,
+      l.user_id,
+      (l.completed_at AT TIME ZONE p_time_zone)::DATE AS day,
+      COUNT(*)::INTEGER AS count,
+      COALESCE(SUM(l.reward), 0)::INTEGER AS reward,
+      COALESCE(SUM(l.dollar_amount), 0)::INTEGER AS dollar_amount,
+      MAX(l.quest_name) AS quest_name
+    FROM quest_logs l
+    WHERE l.household_id = current_household_id()
+      AND l.reversed_at IS NULL
+      AND l.completed_at < p_before
+    GROUP BY 1, 2, 3
+  ) d
+  GROUP BY d.quest_id, d.user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION shop_log_days(p_before TIMESTAMPTZ, p_time_zone TEXT)
+RETURNS TABLE (
+  shop_item_id UUID,
+  user_id UUID,
+  days DATE[],
+  counts INTEGER[],
+  prices INTEGER[],
+  dollar_amounts INTEGER[]
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    d.shop_item_id,
+    d.user_id,
+    array_agg(d.day ORDER BY d.day),
+    array_agg(d.count ORDER BY d.day),
+    array_agg(d.price ORDER BY d.day),
+    array_agg(d.dollar_amount ORDER BY d.day)
+  FROM (
+    SELECT
+      l.shop_item_id,
+      l.user_id,
+      (l.purchased_at AT TIME ZONE p_time_zone)::DATE AS day,
+      COUNT(*)::INTEGER AS count,
+      COALESCE(SUM(l.price), 0)::INTEGER AS price,
+      COALESCE(SUM(l.dollar_amount), 0)::INTEGER AS dollar_amount
+    FROM shop_logs l
+    WHERE l.household_id = current_household_id()
+      AND l.reversed_at IS NULL
+      AND l.purchased_at < p_before
+    GROUP BY 1, 2, 3
+  ) d
+  GROUP BY d.shop_item_id, d.user_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION quest_log_counts(TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION shop_log_counts(TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION quest_log_days(TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION shop_log_days(TIMESTAMPTZ, TEXT) TO authenticated;
@@ -0,0 +1,290 @@
+-- Get Kraken - Reward Rules
+-- Run this SQL in your Supabase SQL editor AFTER ADD_SHOP_BUDGETS.sql
+--
+-- Each member can have rules that add bonus sea dollars to a completion:
+-- streak and day-of-week multipliers, a first-quest-of-the-day bonus and tag
+-- combos. Rules pay out sea dollars, so like rewards only owners can set
+-- them, and their params are bounded. The app evaluates the rules and sends
+-- the itemized bonuses with the completion. The server only accepts bonuses
+-- from the caller's own rules, drops those whose day, first-of-day or combo
+-- condition didn't hold, and recomputes each amount from the stored rule;
+-- they are credited with the reward in the same transaction and recorded on
+-- the log, so undoing the completion refunds them too.
+
+-- Step 1: Per-user rules (params depend on kind, see RewardRuleConfig)
+CREATE TABLE IF NOT EXISTS reward_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  household_id UUID NOT NULL DEFAULT current_household_id() REFERENCES households(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('streak_multiplier', 'first_of_day', 'weekday_multiplier', 'tag_combo')),
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reward_rules_user_id ON reward_rules(user_id);
+
+-- Step 2: RLS - members read their own rules; owners set the household's
+ALTER TABLE reward_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own reward rules" ON reward_rules;
+DROP POLICY IF EXISTS "Users can read their own reward rules" ON reward_rules;
+CREATE POLICY "Users can read their own reward rules"
+  ON reward_rules FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can manage reward rules" ON reward_rules;
+CREATE POLICY "Owners can manage reward rules"
+  ON reward_rules FOR ALL
+  TO authenticated
+  USING (household_id = current_household_id() AND is_household_owner())
+  WITH CHECK (
+    household_id = current_household_id()
+    AND is_household_owner()
+    AND EXISTS (
+      SELECT 1 FROM household_members m
+      WHERE m.household_id = reward_rules.household_id AND m.user_id = reward_rules.user_id
+    )
+  );
+
+-- Bounds match the rule form: multipliers above 1 up to 10, flat bonuses up
+-- to 1000, streaks up to a year
+CREATE OR REPLACE FUNCTION is_valid_reward_rule_params(p_kind TEXT, p_params JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_kind
+    WHEN 'streak_multiplier' THEN
+      jsonb_typeof(p_params->'min_streak') = 'number'
+      AND (p_params->>'min_streak')::NUMERIC BETWEEN 1 AND 365
+      AND jsonb_typeof(p_params->'multiplier') = 'number'
+      AND (p_params->>'multiplier')::NUMERIC > 1
+      AND (p_params->>'multiplier')::NUMERIC <= 10
+    WHEN 'weekday_multiplier' THEN
+      jsonb_typeof(p_params->'multiplier') = 'number'
+      AND (p_params->>'multiplier')::NUMERIC > 1
+      AND (p_params->>'multiplier')::NUMERIC <= 10
+      AND jsonb_typeof(p_params->'weekdays') = 'array'
+      AND jsonb_array_length(p_params->'weekdays') BETWEEN 1 AND 7
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(p_params->'weekdays') d
+        WHERE d !~ '^[0-6]$'
+      )
+    WHEN 'first_of_day' THEN
+      jsonb_typeof(p_params->'amount') = 'number'
+      AND (p_params->>'amount')::NUMERIC BETWEEN 1 AND 1000
+    WHEN 'tag_combo' THEN
+      jsonb_typeof(p_params->'tag') = 'string'
+      AND TRIM(p_params->>'tag') <> ''
+      AND jsonb_typeof(p_params->'amount') = 'number'
+      AND (p_params->>'amount')::NUMERIC BETWEEN 1 AND 1000
+    ELSE false
+  END;
+$$;
+
+ALTER TABLE reward_rules DROP CONSTRAINT IF EXISTS reward_rules_params_valid;
+ALTER TABLE reward_rules ADD CONSTRAINT reward_rules_params_valid
+  CHECK (is_valid_reward_rule_params(kind, params));
+
+-- Step 3: Itemized bonuses on completions ([{ rule_id, label, amount }]);
+-- quest_logs.reward keeps the total credited, bonuses included
+ALTER TABLE quest_logs ADD COLUMN IF NOT EXISTS bonuses JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Step 4: Claimed bonuses checked against the caller's rules. Each must name one
+-- of their rules (once); bonuses of disabled rules, and of rules whose weekday,
+-- first-of-day or combo condition didn't hold at p_at, are dropped, and the
+-- amount is recomputed from the stored params and the base reward. Streak
+-- lengths are left to the app. Trusts p_user_id, so it is only callable from
+-- complete_quest (see the REVOKE at the end).
+
+-- Calendar day of a moment for a user's rules (UTC here;
+-- ADD_CALENDAR_PREFERENCES.sql switches this to their own time zone)
+CREATE OR REPLACE FUNCTION user_local_date(p_user_id UUID, p_at TIMESTAMPTZ)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (p_at AT TIME ZONE 'UTC')::date;
+$$;
+
+DROP FUNCTION IF EXISTS resolve_reward_bonuses(UUID, UUID, INTEGER, TEXT[], JSONB);
+
+CREATE OR REPLACE FUNCTION resolve_reward_bonuses(
+  p_user_id UUID,
+  p_household_id UUID,
+  p_quest_id UUID,
+  p_at TIMESTAMPTZ,
+  p_base_reward INTEGER,
+  p_quest_tags TEXT[],
+  p_bonuses JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_bonus JSONB;
+  v_rule reward_rules%ROWTYPE;
+  v_seen UUID[] := '{}';
+  v_today DATE := user_local_date(p_user_id, p_at);
+  v_done_today UUID[];
+  v_amount INTEGER;
+  v_resolved JSONB := '[]'::jsonb;
+BEGIN
+  -- The caller's own completions earlier on the same day
+  SELECT COALESCE(array_agg(DISTINCT l.quest_id), '{}')
+  INTO v_done_today
+  FROM quest_logs l
+  WHERE l.user_id = p_user_id
+    AND l.household_id = p_household_id
+    AND l.reversed_at IS NULL
+    AND l.completed_at <= p_at
+    AND user_local_date(p_user_id, l.completed_at) = v_today;
+
+  FOR v_bonus IN SELECT * FROM jsonb_array_elements(p_bonuses) LOOP
+    SELECT * INTO v_rule FROM reward_rules
+    WHERE id::text = v_bonus->>'rule_id'
+      AND user_id = p_user_id
+      AND household_id = p_household_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Reward rule not found';
+    END IF;
+    IF v_rule.id = ANY(v_seen) THEN
+      RAISE EXCEPTION 'Reward rule applied twice';
+    END IF;
+    v_seen := v_seen || v_rule.id;
+    CONTINUE WHEN NOT v_rule.enabled;
+
+    -- Multipliers each add (multiplier - 1) x the base reward, as in the app
+    v_amount := COALESCE(ROUND(CASE v_rule.kind
+      WHEN 'streak_multiplier' THEN p_base_reward * ((v_rule.params->>'multiplier')::NUMERIC - 1)
+      WHEN 'weekday_multiplier' THEN
+        CASE WHEN v_rule.params->'weekdays' @> to_jsonb(EXTRACT(DOW FROM v_today)::INTEGER)
+          THEN p_base_reward * ((v_rule.params->>'multiplier')::NUMERIC - 1) ELSE 0 END
+      WHEN 'first_of_day' THEN
+        CASE WHEN cardinality(v_done_today) = 0 THEN (v_rule.params->>'amount')::NUMERIC ELSE 0 END
+      -- Paid once, by the completion that finishes every quest with the tag
+      WHEN 'tag_combo' THEN
+        CASE WHEN v_rule.params->>'tag' = ANY(p_quest_tags)
+          AND NOT p_quest_id = ANY(v_done_today)
+          AND NOT EXISTS (
+            SELECT 1 FROM quests q
+            LEFT JOIN user_quest_overrides o
+              ON o.quest_id = q.id AND o.household_id = p_household_id
+            WHERE (q.created_by IS NULL OR q.household_id = p_household_id)
+              AND NOT EXISTS (
+                SELECT 1 FROM user_hidden_quests h
+                WHERE h.quest_id = q.id AND h.household_id = p_household_id
+              )
+              AND v_rule.params->>'tag' = ANY(COALESCE(o.tags, q.tags, '{}'))
+              AND q.id <> p_quest_id
+              AND NOT q.id = ANY(v_done_today)
+          )
+          THEN (v_rule.params->>'amount')::NUMERIC ELSE 0 END
+    END), 0);
+
+    IF v_amount > 0 THEN
+      v_resolved := v_resolved || jsonb_build_array(jsonb_build_object(
+        'rule_id', v_rule.id,
+        'label', COALESCE(NULLIF(TRIM(v_bonus->>'label'), ''), v_rule.kind),
+        'amount', v_amount
+      ));
+    END IF;
+  END LOOP;
+
+  RETURN v_resolved;
+END;
+$$;
+
+-- Step 5: complete_quest credits the bonuses with the reward
+-- The new parameter changes the signature, so drop the old one
+DROP FUNCTION IF EXISTS complete_quest(UUID, UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION complete_quest(
+  p_quest_id UUID,
+  p_client_id UUID DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL,
+  p_bonuses JSONB DEFAULT '[]'::jsonb
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_reward INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_tags TEXT[];
+  v_bonuses JSONB := COALESCE(p_bonuses, '[]'::jsonb);
+  v_bonus_total INTEGER;
+  v_log_id UUID;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  IF jsonb_typeof(v_bonuses) <> 'array' THEN
+    RAISE EXCEPTION 'Bonuses must be a list';
+  END IF;
+
+  -- Already replayed: hand back the wallet without applying it again
+  IF p_client_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM quest_logs WHERE client_id = p_client_id AND household_id = v_household_id
+  ) THEN
+    SELECT * INTO v_wallet FROM wallets WHERE household_id = v_household_id;
+    RETURN v_wallet;
+  END IF;
+
+  SELECT
+    COALESCE(o.reward, q.reward),
+    COALESCE(o.dollar_amount, q.dollar_amount, 0),
+    COALESCE(o.name, q.name),
+    COALESCE(o.tags, q.tags, '{}')
+  INTO v_reward, v_dollar_amount, v_name, v_tags
+  FROM quests q
+  LEFT JOIN user_quest_overrides o
+    ON o.quest_id = q.id AND o.household_id = v_household_id
+  WHERE q.id = p_quest_id
+    AND (q.created_by IS NULL OR q.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+
+  v_bonuses := resolve_reward_bonuses(
+    v_user_id, v_household_id, p_quest_id, clamp_occurred_at(p_occurred_at), v_reward, v_tags, v_bonuses
+  );
+  SELECT COALESCE(SUM((bonus->>'amount')::INTEGER), 0)
+  INTO v_bonus_total
+  FROM jsonb_array_elements(v_bonuses) AS bonus;
+
+  INSERT INTO quest_logs (quest_id, user_id, household_id, completed_at, reward, dollar_amount, quest_name, client_id, bonuses)
+  VALUES (
+    p_quest_id, v_user_id, v_household_id,
+    clamp_occurred_at(p_occurred_at),
+    v_reward + v_bonus_total, v_dollar_amount, v_name, p_client_id, v_bonuses
+  )
+  RETURNING id INTO v_log_id;
+
+  -- unit_amount stays the quest's own reward; the refund on undo uses amount
+  RETURN apply_wallet_transaction(
+    v_user_id, 'quest_completion', v_reward + v_bonus_total, v_dollar_amount,
+    v_log_id, v_reward, v_dollar_amount,
+    CASE WHEN v_bonus_total > 0 THEN 'Includes ' || v_bonus_total || ' in bonuses' END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION complete_quest(UUID, UUID, TIMESTAMPTZ, JSONB) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION resolve_reward_bonuses(UUID, UUID, UUID, TIMESTAMPTZ, INTEGER, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION user_local_date(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,98 @@
+-- Get Kraken - Savings Transfers
+-- Run this SQL in your Supabase SQL editor AFTER ADD_CURRENCIES.sql
+--
+-- The wallet's money total is what quests have "saved", but nothing records
+-- when that money actually moves into a real account. Members can now name
+-- savings buckets (e.g. "Ski fund") and log deposits and withdrawals against
+-- them; the app compares the transfers with wallets.dollar_total to show what
+-- is accrued but not yet transferred. Transfers can also come from a bank
+-- statement (CSV or OFX, parsed in the browser); external_id keeps the same
+-- statement line from being imported twice.
+
+-- Step 1: Named savings buckets, one set per household
+CREATE TABLE IF NOT EXISTS savings_buckets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL DEFAULT current_household_id() REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_savings_buckets_household_name
+  ON savings_buckets(household_id, lower(name));
+
+-- Step 2: Transfers - amount in minor units of the household currency,
+-- positive for deposits and negative for withdrawals
+CREATE TABLE IF NOT EXISTS savings_transfers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL DEFAULT current_household_id() REFERENCES households(id) ON DELETE CASCADE,
+  bucket_id UUID NOT NULL REFERENCES savings_buckets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  transferred_on DATE NOT NULL,
+  note TEXT,
+  external_id TEXT, -- bank statement line, for imported transfers
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_transfers_household_date
+  ON savings_transfers(household_id, transferred_on);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_savings_transfers_household_external
+  ON savings_transfers(household_id, external_id);
+
+COMMENT ON COLUMN savings_transfers.amount IS 'Minor units of the household currency';
+
+-- Step 3: RLS - savings are shared, so every member can log and correct them
+ALTER TABLE savings_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE savings_transfers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage savings buckets" ON savings_buckets;
+CREATE POLICY "Household members can manage savings buckets"
+  ON savings_buckets FOR ALL
+  TO authenticated
+  USING (household_id = current_household_id())
+  WITH CHECK (household_id = current_household_id());
+
+DROP POLICY IF EXISTS "Household members can manage savings transfers" ON savings_transfers;
+CREATE POLICY "Household members can manage savings transfers"
+  ON savings_transfers FOR ALL
+  TO authenticated
+  USING (household_id = current_household_id())
+  WITH CHECK (
+    household_id = current_household_id()
+    AND bucket_id IN (SELECT id FROM savings_buckets WHERE household_id = current_household_id())
+  );
+
+-- Step 4: Transfers are stored in minor units too, so the currency guard
+-- from ADD_CURRENCIES.sql also checks them
+CREATE OR REPLACE FUNCTION enforce_currency_minor_units()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF currency_minor_digits(NEW.currency) = currency_minor_digits(OLD.currency) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM wallet_transactions WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM quest_logs WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM shop_logs WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM quests WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM shop_items WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM user_quest_overrides WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (SELECT 1 FROM user_shop_item_overrides WHERE household_id = NEW.id AND dollar_amount <> 0)
+    OR EXISTS (
+      SELECT 1 FROM goals
+      WHERE household_id = NEW.id AND (dollar_amount <> 0 OR allocated_dollar_amount <> 0)
+    )
+    OR EXISTS (SELECT 1 FROM shop_budgets WHERE household_id = NEW.id AND dollar_limit <> 0)
+    OR EXISTS (SELECT 1 FROM savings_transfers WHERE household_id = NEW.id AND amount <> 0) THEN
+    RAISE EXCEPTION 'Money amounts are already recorded in %, so the currency can only change to one with % decimal places',
+      OLD.currency, currency_minor_digits(OLD.currency);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
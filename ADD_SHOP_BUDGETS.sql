@@ -0,0 +1,242 @@
+-- Get Kraken - Shop Budgets
+-- Run this SQL in your Supabase SQL editor AFTER ADD_CUSTOM_TAGS.sql
+--
+-- Optional spending limits on a shop tag or a single item: a weekly or
+-- monthly cap in sea dollars and/or real dollars, and a cooldown between
+-- purchases of the same item. The household can also choose whether a
+-- purchase may take the wallet below zero (allowed by default, as before).
+-- The app checks these before a purchase is sent, and purchase_item enforces
+-- them again, so a queued offline purchase that no longer fits is rejected on
+-- replay and shows up as a sync issue.
+
+-- Step 1: Budgets - each applies to exactly one tag key or one item
+CREATE TABLE IF NOT EXISTS shop_budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  household_id UUID NOT NULL DEFAULT current_household_id() REFERENCES households(id) ON DELETE CASCADE,
+  tag_key TEXT,
+  shop_item_id UUID REFERENCES shop_items(id) ON DELETE CASCADE,
+  period TEXT NOT NULL DEFAULT 'week' CHECK (period IN ('week', 'month')),
+  coin_limit INTEGER CHECK (coin_limit >= 0),
+  dollar_limit INTEGER CHECK (dollar_limit >= 0),
+  cooldown_hours INTEGER CHECK (cooldown_hours > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((tag_key IS NULL) <> (shop_item_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shop_budgets_household_tag
+  ON shop_budgets(household_id, tag_key) WHERE tag_key IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shop_budgets_household_item
+  ON shop_budgets(household_id, shop_item_id) WHERE shop_item_id IS NOT NULL;
+
+-- Step 2: RLS - members see the budgets, owners set them
+ALTER TABLE shop_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can read shop budgets" ON shop_budgets;
+CREATE POLICY "Household members can read shop budgets"
+  ON shop_budgets FOR SELECT
+  TO authenticated
+  USING (household_id = current_household_id());
+
+DROP POLICY IF EXISTS "Owners can manage shop budgets" ON shop_budgets;
+CREATE POLICY "Owners can manage shop budgets"
+  ON shop_budgets FOR ALL
+  TO authenticated
+  USING (household_id = current_household_id() AND is_household_owner())
+  WITH CHECK (household_id = current_household_id() AND is_household_owner());
+
+-- Step 3: Household rule for negative balances (owners can already update households).
+-- Off unless an owner turns it on, so existing households keep their behavior.
+ALTER TABLE households ADD COLUMN IF NOT EXISTS prevent_negative_balance BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE households ALTER COLUMN prevent_negative_balance SET DEFAULT FALSE;
+
+-- Step 4: Deleting a shop tag also deletes its budget. Budgets are owner-only
+-- under RLS, so this runs as SECURITY DEFINER (any member can delete a tag of
+-- their own household) rather than leave a member's delete with a stale budget.
+CREATE OR REPLACE FUNCTION delete_tag(p_tag_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tag tags%ROWTYPE;
+BEGIN
+  IF current_household_id() IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT * INTO v_tag FROM tags
+  WHERE id = p_tag_id AND household_id = current_household_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF v_tag.scope = 'quest' THEN
+    UPDATE quests SET tags = array_remove(tags, v_tag.key), updated_at = NOW()
+    WHERE household_id = v_tag.household_id AND v_tag.key = ANY(tags);
+    UPDATE user_quest_overrides SET tags = array_remove(tags, v_tag.key), updated_at = NOW()
+    WHERE household_id = v_tag.household_id AND v_tag.key = ANY(tags);
+  ELSE
+    UPDATE shop_items SET tags = array_remove(tags, v_tag.key), updated_at = NOW()
+    WHERE household_id = v_tag.household_id AND v_tag.key = ANY(tags);
+    UPDATE user_shop_item_overrides SET tags = array_remove(tags, v_tag.key), updated_at = NOW()
+    WHERE household_id = v_tag.household_id AND v_tag.key = ANY(tags);
+    DELETE FROM shop_budgets
+    WHERE household_id = v_tag.household_id AND tag_key = v_tag.key;
+  END IF;
+
+  DELETE FROM tags WHERE id = v_tag.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_tag(UUID) TO authenticated;
+
+-- Step 5: First day of the budget period a moment falls in. Days are UTC and
+-- weeks start on Sunday here; ADD_CALENDAR_PREFERENCES.sql replaces this with
+-- the caller's own time zone and week start.
+CREATE OR REPLACE FUNCTION shop_budget_period_start(p_period TEXT, p_at TIMESTAMPTZ)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_period = 'month' THEN date_trunc('month', p_at AT TIME ZONE 'UTC')::date
+    ELSE (p_at AT TIME ZONE 'UTC')::date - EXTRACT(DOW FROM p_at AT TIME ZONE 'UTC')::integer
+  END;
+$$;
+
+-- Step 6: Purchases enforce the negative-balance rule, cooldowns and budgets.
+-- The wallet row is locked first, so two purchases can't both fit the last of a budget.
+CREATE OR REPLACE FUNCTION purchase_item(
+  p_item_id UUID,
+  p_client_id UUID DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_household_id UUID := current_household_id();
+  v_occurred_at TIMESTAMPTZ := clamp_occurred_at(p_occurred_at);
+  v_price INTEGER;
+  v_dollar_amount INTEGER;
+  v_name TEXT;
+  v_tags TEXT[];
+  v_balance INTEGER;
+  v_cooldown_hours INTEGER;
+  v_budget shop_budgets%ROWTYPE;
+  v_spent INTEGER;
+  v_dollars_spent INTEGER;
+  v_log_id UUID;
+  v_wallet wallets;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Already replayed: hand back the wallet without applying it again
+  IF p_client_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM shop_logs WHERE client_id = p_client_id AND household_id = v_household_id
+  ) THEN
+    SELECT * INTO v_wallet FROM wallets WHERE household_id = v_household_id;
+    RETURN v_wallet;
+  END IF;
+
+  SELECT
+    COALESCE(o.price, i.price),
+    COALESCE(o.dollar_amount, i.dollar_amount, 0),
+    COALESCE(o.name, i.name),
+    COALESCE(o.tags, i.tags, '{}')
+  INTO v_price, v_dollar_amount, v_name, v_tags
+  FROM shop_items i
+  LEFT JOIN user_shop_item_overrides o
+    ON o.shop_item_id = i.id AND o.household_id = v_household_id
+  WHERE i.id = p_item_id
+    AND (i.created_by IS NULL OR i.household_id = v_household_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop item not found';
+  END IF;
+
+  SELECT total INTO v_balance FROM wallets WHERE household_id = v_household_id FOR UPDATE;
+
+  IF COALESCE((SELECT prevent_negative_balance FROM households WHERE id = v_household_id), false)
+    AND COALESCE(v_balance, 0) < v_price THEN
+    RAISE EXCEPTION 'Not enough to buy %: need % more', v_name, v_price - COALESCE(v_balance, 0);
+  END IF;
+
+  SELECT MAX(cooldown_hours) INTO v_cooldown_hours
+  FROM shop_budgets
+  WHERE household_id = v_household_id
+    AND (shop_item_id = p_item_id OR tag_key = ANY(v_tags));
+
+  IF v_cooldown_hours IS NOT NULL AND EXISTS (
+    SELECT 1 FROM shop_logs
+    WHERE household_id = v_household_id
+      AND shop_item_id = p_item_id
+      AND reversed_at IS NULL
+      AND purchased_at > v_occurred_at - make_interval(hours => v_cooldown_hours)
+      AND purchased_at <= v_occurred_at
+  ) THEN
+    RAISE EXCEPTION '% is cooling down - it can be bought again later', v_name;
+  END IF;
+
+  FOR v_budget IN
+    SELECT * FROM shop_budgets
+    WHERE household_id = v_household_id
+      AND (coin_limit IS NOT NULL OR dollar_limit IS NOT NULL)
+      AND (shop_item_id = p_item_id OR tag_key = ANY(v_tags))
+  LOOP
+    -- Tag budgets count purchases of items that carry the tag now
+    SELECT COALESCE(SUM(l.price), 0), COALESCE(SUM(l.dollar_amount), 0)
+    INTO v_spent, v_dollars_spent
+    FROM shop_logs l
+    LEFT JOIN shop_items i ON i.id = l.shop_item_id
+    LEFT JOIN user_shop_item_overrides o
+      ON o.shop_item_id = l.shop_item_id AND o.household_id = v_household_id
+    WHERE l.household_id = v_household_id
+      AND l.reversed_at IS NULL
+      AND l.purchased_at > v_occurred_at - INTERVAL '32 days'
+      AND shop_budget_period_start(v_budget.period, l.purchased_at)
+        = shop_budget_period_start(v_budget.period, v_occurred_at)
+      AND (
+        l.shop_item_id = v_budget.shop_item_id
+        OR v_budget.tag_key = ANY(COALESCE(o.tags, i.tags, '{}'))
+      );
+
+    IF v_budget.coin_limit IS NOT NULL AND v_spent + v_price > v_budget.coin_limit THEN
+      RAISE EXCEPTION 'Over the % % budget: % of % left',
+        CASE v_budget.period WHEN 'week' THEN 'weekly' ELSE 'monthly' END,
+        COALESCE(v_budget.tag_key, v_name),
+        GREATEST(v_budget.coin_limit - v_spent, 0),
+        v_budget.coin_limit;
+    END IF;
+    IF v_budget.dollar_limit IS NOT NULL AND v_dollar_amount > 0
+      AND v_dollars_spent + v_dollar_amount > v_budget.dollar_limit THEN
+      RAISE EXCEPTION 'Over the % % money budget',
+        CASE v_budget.period WHEN 'week' THEN 'weekly' ELSE 'monthly' END,
+        COALESCE(v_budget.tag_key, v_name);
+    END IF;
+  END LOOP;
+
+  INSERT INTO shop_logs (shop_item_id, user_id, household_id, purchased_at, price, dollar_amount, item_name, client_id)
+  VALUES (
+    p_item_id, v_user_id, v_household_id,
+    v_occurred_at,
+    v_price, v_dollar_amount, v_name, p_client_id
+  )
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'purchase', -v_price, -v_dollar_amount,
+    v_log_id, v_price, v_dollar_amount
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION purchase_item(UUID, UUID, TIMESTAMPTZ) TO authenticated;
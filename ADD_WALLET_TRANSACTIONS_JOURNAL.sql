@@ -0,0 +1,250 @@
+-- Get Kraken - Wallet Transactions Journal
+-- Run this SQL in your Supabase SQL editor AFTER ADD_ATOMIC_LEDGER_FUNCTIONS.sql
+--
+-- Adds an append-only journal of every wallet credit and debit. The wallet row
+-- stays the fast, authoritative total; the journal explains how it was reached
+-- and lets the client recompute (verify) the balance.
+
+-- Step 1: Journal table
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('quest_completion', 'purchase', 'adjustment', 'reset', 'undo')),
+  amount INTEGER NOT NULL, -- signed sea dollar delta
+  dollar_amount INTEGER NOT NULL DEFAULT 0, -- signed real dollar delta
+  source_id UUID, -- quest_logs.id / shop_logs.id (or the reversed entry for undo)
+  unit_amount INTEGER, -- reward or price in effect at that moment
+  unit_dollar_amount INTEGER, -- dollar amount in effect at that moment
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_user_id ON wallet_transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_created_at ON wallet_transactions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_source_id ON wallet_transactions(source_id);
+
+-- Step 2: RLS - users can read and append their own entries, never change them
+ALTER TABLE wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own wallet transactions" ON wallet_transactions;
+CREATE POLICY "Users can read their own wallet transactions"
+  ON wallet_transactions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their own wallet transactions" ON wallet_transactions;
+CREATE POLICY "Users can create their own wallet transactions"
+  ON wallet_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+-- Step 3: Immutability - reject UPDATE and DELETE even for privileged roles
+CREATE OR REPLACE FUNCTION prevent_wallet_transaction_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'wallet_transactions is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS wallet_transactions_immutable ON wallet_transactions;
+CREATE TRIGGER wallet_transactions_immutable
+  BEFORE UPDATE OR DELETE ON wallet_transactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_wallet_transaction_changes();
+
+-- Step 4: Backfill an opening balance for wallets that existed before the journal
+INSERT INTO wallet_transactions (user_id, kind, amount, dollar_amount, note, created_at)
+SELECT w.user_id, 'adjustment', w.total, COALESCE(w.dollar_total, 0), 'Opening balance', w.updated_at
+FROM wallets w
+WHERE w.user_id IS NOT NULL
+  AND (w.total <> 0 OR COALESCE(w.dollar_total, 0) <> 0)
+  AND NOT EXISTS (
+    SELECT 1 FROM wallet_transactions t WHERE t.user_id = w.user_id
+  );
+
+-- Step 5: Shared helper - apply a delta to the wallet and journal it in one go
+CREATE OR REPLACE FUNCTION apply_wallet_transaction(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_amount INTEGER,
+  p_dollar_amount INTEGER,
+  p_source_id UUID DEFAULT NULL,
+  p_unit_amount INTEGER DEFAULT NULL,
+  p_unit_dollar_amount INTEGER DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet wallets;
+BEGIN
+  INSERT INTO wallet_transactions (
+    user_id, kind, amount, dollar_amount, source_id, unit_amount, unit_dollar_amount, note, created_at
+  )
+  VALUES (
+    p_user_id, p_kind, p_amount, COALESCE(p_dollar_amount, 0), p_source_id, p_unit_amount, p_unit_dollar_amount, p_note, NOW()
+  );
+
+  INSERT INTO wallets (user_id, id, total, dollar_total, updated_at)
+  VALUES (p_user_id, NULL, p_amount, COALESCE(p_dollar_amount, 0), NOW())
+  ON CONFLICT (user_id) DO UPDATE
+    SET total = wallets.total + EXCLUDED.total,
+        dollar_total = COALESCE(wallets.dollar_total, 0) + EXCLUDED.dollar_total,
+        updated_at = NOW()
+  RETURNING * INTO v_wallet;
+
+  RETURN v_wallet;
+END;
+$$;
+
+-- Step 6: Ledger functions now journal every change
+CREATE OR REPLACE FUNCTION complete_quest(p_quest_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward INTEGER;
+  v_dollar_amount INTEGER;
+  v_log_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT
+    COALESCE(o.reward, q.reward),
+    COALESCE(o.dollar_amount, q.dollar_amount, 0)
+  INTO v_reward, v_dollar_amount
+  FROM quests q
+  LEFT JOIN user_quest_overrides o
+    ON o.quest_id = q.id AND o.user_id = v_user_id
+  WHERE q.id = p_quest_id
+    AND (q.created_by IS NULL OR q.created_by = v_user_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found';
+  END IF;
+
+  INSERT INTO quest_logs (quest_id, user_id, completed_at)
+  VALUES (p_quest_id, v_user_id, NOW())
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'quest_completion', v_reward, v_dollar_amount,
+    v_log_id, v_reward, v_dollar_amount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purchase_item(p_item_id UUID)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_price INTEGER;
+  v_dollar_amount INTEGER;
+  v_log_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  SELECT
+    COALESCE(o.price, i.price),
+    COALESCE(o.dollar_amount, i.dollar_amount, 0)
+  INTO v_price, v_dollar_amount
+  FROM shop_items i
+  LEFT JOIN user_shop_item_overrides o
+    ON o.shop_item_id = i.id AND o.user_id = v_user_id
+  WHERE i.id = p_item_id
+    AND (i.created_by IS NULL OR i.created_by = v_user_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shop item not found';
+  END IF;
+
+  INSERT INTO shop_logs (shop_item_id, user_id, purchased_at)
+  VALUES (p_item_id, v_user_id, NOW())
+  RETURNING id INTO v_log_id;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'purchase', -v_price, -v_dollar_amount,
+    v_log_id, v_price, v_dollar_amount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION adjust_wallet(p_amount INTEGER, p_dollar_amount INTEGER DEFAULT 0)
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'adjustment', p_amount, COALESCE(p_dollar_amount, 0),
+    NULL, NULL, NULL, 'Manual adjustment'
+  );
+END;
+$$;
+
+-- Reset the wallet to zero by journaling the exact offsetting amount
+CREATE OR REPLACE FUNCTION reset_wallet()
+RETURNS wallets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_total INTEGER;
+  v_dollar_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Lock the row so a concurrent completion cannot slip between read and reset
+  SELECT total, COALESCE(dollar_total, 0)
+  INTO v_total, v_dollar_total
+  FROM wallets
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  RETURN apply_wallet_transaction(
+    v_user_id, 'reset', -COALESCE(v_total, 0), -COALESCE(v_dollar_total, 0),
+    NULL, NULL, NULL, 'Wallet reset'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_wallet_transaction(UUID, TEXT, INTEGER, INTEGER, UUID, INTEGER, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_wallet() TO authenticated;
+
+-- Step 7: Realtime inserts, so every open client sees new entries without a reload
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'wallet_transactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE wallet_transactions;
+  END IF;
+END;
+$$;
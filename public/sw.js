@@ -0,0 +1,90 @@
+/**
+ * Get Kraken - Reminder Service Worker
+ *
+ * Shows quest reminders with the Web Notifications API. The app computes the
+ * upcoming reminders locally and posts them here; nothing comes from a push
+ * service. Where Notification Triggers are available the reminders are handed
+ * to the browser up front, otherwise they fire from timers while the worker
+ * is alive (the app re-syncs whenever it is opened or data changes).
+ */
+
+const timers = new Map();
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+async function clearScheduled() {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers.clear();
+
+  // Drop triggered notifications that haven't been shown yet
+  if ("showTrigger" in Notification.prototype) {
+    const pending = await self.registration.getNotifications({
+      includeTriggered: true,
+    });
+    pending
+      .filter((notification) => notification.data?.reminderId)
+      .forEach((notification) => notification.close());
+  }
+}
+
+function showReminder(reminder, showTrigger) {
+  return self.registration.showNotification(reminder.title, {
+    body: reminder.body,
+    icon: "/kraken-icon.png",
+    tag: reminder.id,
+    data: { reminderId: reminder.id, questId: reminder.questId },
+    ...(showTrigger && { showTrigger }),
+  });
+}
+
+async function scheduleReminders(reminders) {
+  await clearScheduled();
+  const now = Date.now();
+
+  for (const reminder of reminders) {
+    if (reminder.at < now) continue;
+
+    if ("showTrigger" in Notification.prototype && "TimestampTrigger" in self) {
+      await showReminder(reminder, new self.TimestampTrigger(reminder.at));
+    } else {
+      timers.set(
+        reminder.id,
+        setTimeout(() => {
+          timers.delete(reminder.id);
+          showReminder(reminder);
+        }, reminder.at - now)
+      );
+    }
+  }
+}
+
+self.addEventListener("message", (event) => {
+  const message = event.data;
+  if (!message || typeof message !== "object") return;
+
+  if (message.type === "schedule-reminders") {
+    event.waitUntil(scheduleReminders(message.reminders || []));
+  } else if (message.type === "clear-reminders") {
+    event.waitUntil(clearScheduled());
+  }
+});
+
+// Focus an open tab (or open one) when a reminder is tapped
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const client = clients.find((c) => "focus" in c);
+        if (client) return client.focus();
+        return self.clients.openWindow("/");
+      })
+  );
+});
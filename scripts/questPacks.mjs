@@ -0,0 +1,77 @@
+/**
+ * Get Kraken - Quest Packs for the seed scripts
+ *
+ * Reads quest pack files (the format in src/packs, see src/utils/questPacks.ts)
+ * and turns them into seeded quest and shop item rows. Seeded rows are shared
+ * by every household, so they have no created_by or household_id.
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+import { PACK_FORMAT, PACK_VERSION, getQuestPackErrors } from '../src/utils/questPackSchema.mjs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export { PACK_FORMAT, PACK_VERSION };
+export const PACKS_DIR = resolve(__dirname, '../src/packs');
+
+/**
+ * Loads a pack by path, or by name from src/packs ("fitness")
+ */
+export function loadQuestPack(pathOrName) {
+  const path = /[\\/]|\.json$/.test(pathOrName)
+    ? resolve(process.cwd(), pathOrName)
+    : resolve(PACKS_DIR, `${pathOrName}.json`);
+
+  const pack = JSON.parse(readFileSync(path, 'utf-8'));
+  // The same checks the app runs before installing a pack
+  const errors = getQuestPackErrors(pack);
+  if (errors.length > 0) {
+    throw new Error(`${path}: ${errors.join('; ')}`);
+  }
+  return pack;
+}
+
+/**
+ * Pack files named on the command line, or the given defaults
+ */
+export function loadQuestPacksFromArgs(defaults) {
+  const names = process.argv.slice(2);
+  return (names.length > 0 ? names : defaults).map(loadQuestPack);
+}
+
+// Seeded rows hold cents of the default currency (USD); other packs' money is left out
+const seedDollars = (pack, amount) => (!pack.currency || pack.currency === 'USD' ? amount ?? 0 : 0);
+
+export function toSeedQuestRows(pack, now) {
+  return pack.quests.map((quest) => ({
+    name: quest.name,
+    tags: quest.tags ?? [],
+    reward: quest.reward ?? 0,
+    dollar_amount: seedDollars(pack, quest.dollar_amount),
+    cadence: quest.cadence ?? { type: 'daily' },
+    grace_periods: quest.grace_periods ?? 0,
+    schedule: quest.schedule ?? null,
+    unit: quest.unit ?? null,
+    reward_per_unit: quest.reward_per_unit ?? null,
+    photo_url: null,
+    completion_count: 0,
+    created_at: now,
+    updated_at: now,
+  }));
+}
+
+export function toSeedShopItemRows(pack, now) {
+  return pack.shop_items.map((item) => ({
+    name: item.name,
+    tags: item.tags ?? [],
+    price: item.price ?? 0,
+    dollar_amount: seedDollars(pack, item.dollar_amount),
+    photo_url: null,
+    purchase_count: 0,
+    created_at: now,
+    updated_at: now,
+  }));
+}
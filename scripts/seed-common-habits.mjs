@@ -10,14 +10,16 @@
  * - Users can add their own custom quests and shop items via the UI
  * - The seed script will skip items that already exist (safe to run multiple times)
  * 
- * All seeded items start with 0 sea dollars and $0.00 dollars.
+ * The items come from quest pack files (src/packs/common-habits.json by
+ * default). To seed other packs, name them:
+ *   node scripts/seed-common-habits.mjs fitness ./my-pack.json
  */
 
 import { createClient } from '@supabase/supabase-js';
-import { readFileSync } from 'fs';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { loadQuestPacksFromArgs, toSeedQuestRows, toSeedShopItemRows } from './questPacks.mjs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -44,53 +46,11 @@ const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
   }
 });
 
-// Common habit tracker quests
-const commonQuests = [
-  'Go for a walk',
-  'Eat a homecooked meal',
-  'Drink 8 glasses of water',
-  'Exercise for 30 minutes',
-  'Read for 20 minutes',
-  'Meditate for 10 minutes',
-  'Get 8 hours of sleep',
-  'Write in journal',
-  'Practice gratitude',
-  'Take vitamins',
-  'Floss teeth',
-  'Stretch for 10 minutes',
-  'No social media before noon',
-  'Eat 5 servings of fruits/vegetables',
-  'Take a break from screens',
-  'Call a friend or family member',
-  'Do a random act of kindness',
-  'Learn something new',
-  'Practice a hobby',
-  'Spend time in nature',
-];
-
-// Common habit tracker shop items (rewards)
-const commonShopItems = [
-  'Watch a movie',
-  'Order takeout',
-  'Buy a new book',
-  'Get a massage',
-  'Go out for coffee',
-  'Buy new clothes',
-  'Get a haircut',
-  'Go to a concert',
-  'Buy a video game',
-  'Order dessert',
-  'Get a manicure/pedicure',
-  'Buy flowers',
-  'Go to a restaurant',
-  'Buy a gadget',
-  'Get a subscription service',
-  'Go to the movies',
-  'Buy art supplies',
-  'Get a spa treatment',
-  'Order delivery',
-  'Buy a treat',
-];
+// Starter quests and shop items (pass other pack names or files to seed those instead)
+const packs = loadQuestPacksFromArgs(['common-habits']);
+const now = new Date().toISOString();
+const commonQuests = packs.flatMap((pack) => toSeedQuestRows(pack, now));
+const commonShopItems = packs.flatMap((pack) => toSeedShopItemRows(pack, now));
 
 async function seedCommonHabits() {
   console.log('🌱 Seeding common habits...\n');
@@ -126,8 +86,8 @@ async function seedCommonHabits() {
     const existingQuestNames = new Set(existingQuests?.map(q => q.name) || []);
     const existingShopItemNames = new Set(existingShopItems?.map(item => item.name) || []);
 
-    const newQuests = commonQuests.filter(name => !existingQuestNames.has(name));
-    const newShopItems = commonShopItems.filter(name => !existingShopItemNames.has(name));
+    const newQuests = commonQuests.filter(quest => !existingQuestNames.has(quest.name));
+    const newShopItems = commonShopItems.filter(item => !existingShopItemNames.has(item.name));
 
     if (newQuests.length === 0 && newShopItems.length === 0) {
       console.log('✅ All common habits already exist in the database!');
@@ -135,23 +95,11 @@ async function seedCommonHabits() {
       return;
     }
 
-    const now = new Date().toISOString();
-
     // Insert new quests
     if (newQuests.length > 0) {
-      const questsToInsert = newQuests.map((name) => ({
-        name,
-        tags: [],
-        reward: 0,
-        dollar_amount: 0,
-        completion_count: 0,
-        created_at: now,
-        updated_at: now,
-      }));
-
       const { data: questData, error: questError } = await supabase
         .from('quests')
-        .insert(questsToInsert)
+        .insert(newQuests)
         .select();
 
       if (questError) {
@@ -176,19 +124,9 @@ async function seedCommonHabits() {
 
     // Insert new shop items
     if (newShopItems.length > 0) {
-      const itemsToInsert = newShopItems.map((name) => ({
-        name,
-        tags: [],
-        price: 0,
-        dollar_amount: 0,
-        purchase_count: 0,
-        created_at: now,
-        updated_at: now,
-      }));
-
       const { data: itemData, error: itemError } = await supabase
         .from('shop_items')
-        .insert(itemsToInsert)
+        .insert(newShopItems)
         .select();
 
       if (itemError) {
@@ -224,7 +162,6 @@ async function seedCommonHabits() {
     console.log('📝 Next steps:');
     console.log('   - Users can now see these starter quests and shop items');
     console.log('   - Users can add their own custom items via the "Add Quest" and "Add Shop Item" cards');
-    console.log('   - All seeded items start with 0 sea dollars and $0.00');
     console.log('');
     console.log('💡 Tip: You can run this script again safely - it will skip items that already exist.');
   } catch (error) {
@@ -1,12 +1,13 @@
 /**
- * Seed initial quests into the database
- * Run with: node scripts/seed-quests.mjs
+ * Seed initial quests into the database from quest packs
+ * Run with: node scripts/seed-quests.mjs [pack name or file ...]
  */
 
 import { createClient } from '@supabase/supabase-js';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
+import { loadQuestPacksFromArgs, toSeedQuestRows } from './questPacks.mjs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -45,33 +46,9 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 
-const quests = [
-  'Study FE for 1 hour',
-  'Complete Dry January',
-  'Dinner at home',
-  'Bike 1 mile outside',
-  'Bike 5 miles inside',
-  'Sell off a clutter item',
-  'Organize the pantry',
-  'Clean and organize our tools',
-  'Clean and organize our screws, nails, etc.',
-  'Declutter our bathroom supplies',
-  'Complete a 1 hour gym class',
-  'Hike 5 miles',
-  'Teach Augie to use his speech buttons',
-  'Climb for 1 hour',
-  'Kayak class III',
-  'Kayak class IV',
-  'Finish a Codecademy module',
-  'Finish Full Stack Developer course',
-  'Pass a Codecademy exam',
-  'Pass the FE exam',
-  'Give a positive performance review',
-  'Exercise together',
-  'Lose 5 lbs',
-  'Do 25 jumping jacks',
-  'Do 5 push ups',
-];
+// Quests from quest pack files (common habits unless others are named)
+const packs = loadQuestPacksFromArgs(['common-habits']);
+const quests = packs.flatMap((pack) => toSeedQuestRows(pack, new Date().toISOString()));
 
 async function seedQuests() {
   console.log('🌱 Seeding quests...\n');
@@ -82,26 +59,16 @@ async function seedQuests() {
     .select('name');
 
   const existingNames = new Set(existingQuests?.map(q => q.name) || []);
-  const newQuests = quests.filter(name => !existingNames.has(name));
+  const newQuests = quests.filter(quest => !existingNames.has(quest.name));
 
   if (newQuests.length === 0) {
     console.log('✅ All quests already exist in the database!');
     return;
   }
 
-  const now = new Date().toISOString();
-  const questsToInsert = newQuests.map((name) => ({
-    name,
-    reward: 10,
-    photo_url: null,
-    completion_count: 0,
-    created_at: now,
-    updated_at: now,
-  }));
-
   const { data, error } = await supabase
     .from('quests')
-    .insert(questsToInsert)
+    .insert(newQuests)
     .select();
 
   if (error) {
@@ -1,12 +1,13 @@
 /**
- * Seed initial shop items into the database
- * Run with: node scripts/seed-shop-items.mjs
+ * Seed initial shop items into the database from quest packs
+ * Run with: node scripts/seed-shop-items.mjs [pack name or file ...]
  */
 
 import { createClient } from "@supabase/supabase-js";
 import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
 import { dirname, resolve } from "path";
+import { loadQuestPacksFromArgs, toSeedShopItemRows } from "./questPacks.mjs";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -49,23 +50,9 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 
-const shopItems = [
-  "Buy new skis",
-  "Buy ski boots",
-  "Golf Game- 1 round",
-  "Golf Game - 1 tournament",
-  "Play a board game",
-  "Date night",
-  "Buy tickets to Tahoe",
-  "Real ball golf",
-  "Disc golf",
-  "Buy work lunch",
-  "Buy ski lift passes",
-  "Buy climbing gym punch pass",
-  "Go kayaking",
-  "Get a new book",
-  "Get road bikes",
-];
+// Shop items from quest pack files (common habits unless others are named)
+const packs = loadQuestPacksFromArgs(["common-habits"]);
+const shopItems = packs.flatMap((pack) => toSeedShopItemRows(pack, new Date().toISOString()));
 
 async function seedShopItems() {
   console.log("🌱 Seeding shop items...\n");
@@ -76,26 +63,16 @@ async function seedShopItems() {
     .select("name");
 
   const existingNames = new Set(existingItems?.map((item) => item.name) || []);
-  const newItems = shopItems.filter((name) => !existingNames.has(name));
+  const newItems = shopItems.filter((item) => !existingNames.has(item.name));
 
   if (newItems.length === 0) {
     console.log("✅ All shop items already exist in the database!");
     return;
   }
 
-  const now = new Date().toISOString();
-  const itemsToInsert = newItems.map((name) => ({
-    name,
-    price: 10,
-    photo_url: null,
-    purchase_count: 0,
-    created_at: now,
-    updated_at: now,
-  }));
-
   const { data, error } = await supabase
     .from("shop_items")
-    .insert(itemsToInsert)
+    .insert(newItems)
     .select();
 
   if (error) {
@@ -4,7 +4,7 @@
  * A habit tracker for sea monsters
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Toast } from "@ffx/sdk";
 import { useWallet } from "./hooks/useWallet";
 import { useQuests } from "./hooks/useQuests";
@@ -12,8 +12,22 @@ import { useShopItems } from "./hooks/useShopItems";
 import { usePreferences } from "./hooks/usePreferences";
 import { useToast } from "./hooks/useToast";
 import { useFilterState } from "./hooks/useFilterState";
+import { useItemPreferences } from "./hooks/useItemPreferences";
+import { useTags } from "./hooks/useTags";
 import { useQuestOverrides } from "./hooks/useQuestOverrides";
 import { useShopItemOverrides } from "./hooks/useShopItemOverrides";
+import { useHousehold } from "./hooks/useHousehold";
+import { useDataTransfer } from "./hooks/useDataTransfer";
+import { useReminders } from "./hooks/useReminders";
+import { useOfflineSync } from "./hooks/useOfflineSync";
+import { useLogHistory } from "./hooks/useLogHistory";
+import { useShopBudgets } from "./hooks/useShopBudgets";
+import type { ShopBudgetInput } from "./hooks/useShopBudgets";
+import { useRewardRules } from "./hooks/useRewardRules";
+import { useSavings } from "./hooks/useSavings";
+import { useQuestPacks } from "./hooks/useQuestPacks";
+import type { SavingsTransferInput } from "./hooks/useSavings";
+import { useAchievements } from "./hooks/useAchievements";
 import { WalletDisplay } from "./components/WalletDisplay";
 import { Header } from "./components/Header";
 import { NavigationTabs } from "./components/NavigationTabs";
@@ -22,41 +36,86 @@ import { Footer } from "./components/Footer";
 import { EditQuestCard } from "./components/EditQuestCard";
 import { EditShopItemCard } from "./components/EditShopItemCard";
 import { LogView } from "./components/LogView";
+import { HouseholdPanel } from "./components/HouseholdPanel";
+import { DataTransferPanel } from "./components/DataTransferPanel";
+import { TagManagerPanel } from "./components/TagManagerPanel";
+import { ShopBudgetsPanel } from "./components/ShopBudgetsPanel";
+import { RewardRulesPanel } from "./components/RewardRulesPanel";
+import { SavingsPanel } from "./components/SavingsPanel";
+import { QuestPacksPanel } from "./components/QuestPacksPanel";
+import { AchievementUnlockModal } from "./components/AchievementUnlockModal";
+import { CheckInModal } from "./components/CheckInModal";
+import { QuestLogCheckIn } from "./components/QuestLogCheckIn";
 import { QuestsView } from "./components/views/QuestsView";
 import { ShopView } from "./components/views/ShopView";
 import { ProgressView } from "./components/views/ProgressView";
-import { playCoinSound, preloadAudio } from "./utils/sound";
-import { calculateUserCompletionCounts } from "./utils/completionCount";
-import { calculateUserPurchaseCounts } from "./utils/purchaseCount";
-import type { Quest, ShopItem, QuestLog, ShopLog, Tag, ShopTag } from "./types";
+import { SettingsView } from "./components/views/SettingsView";
+import { playCoinSound, preloadAudio, setSoundSettings } from "./utils/sound";
+import { APP_VIEWS } from "./utils/preferences";
+import type { AppView } from "./utils/preferences";
+import type { MoneySettings } from "./utils/money";
+import { reconcileSavings } from "./utils/savings";
+import type { BankTransaction } from "./utils/bankStatements";
+import { latestLogDates } from "./utils/sorting";
+import { formatBonuses } from "./utils/rewardRules";
+import { getQuantityReward, hasQuantity, repriceQuestLog } from "./utils/checkIns";
+import type {
+  Quest,
+  QuestCadence,
+  QuestSchedule,
+  ShopItem,
+  QuestLog,
+  ShopLog,
+  ShopBudget,
+  SavingsBucket,
+  SavingsTransfer,
+  RewardRule,
+  RewardRuleConfig,
+  QuestCheckIn,
+  Tag,
+  ShopTag,
+  TagDefinition,
+  TagScope,
+} from "./types";
+import type { TagColor } from "./utils/tagPalette";
+import type { ImportPlan } from "./utils/dataTransfer";
+import type { PackInstallPlan } from "./utils/questPacks";
 import {
-  LOG_REFRESH_INTERVAL_MS,
   TOAST_DURATION_MS,
-  CURRENCY_NAME,
   FEATURE_UPDATES_VERSION,
 } from "./constants";
 import { getFeatureUpdatesContent, getAboutContent } from "./constants/popupContent";
 import { PopupModal } from "./components/PopupModal";
 import { supabase } from "./lib/supabase";
-
-type View = "quests" | "shop" | "progress";
+import { uploadPhoto, deletePhoto } from "./lib/photos";
+import { applyTheme } from "./lib/theme";
+import { isPendingLog } from "./lib/outbox";
 
 function App() {
-  // Persist current view in localStorage
-  const [currentView, setCurrentView] = useState<View>(() => {
+  const preferences = usePreferences();
+  const { theme, sound_enabled: soundEnabled, sound_volume: soundVolume } = preferences.preferences;
+
+  // Open on the chosen tab, or the one last used (persisted in localStorage)
+  const [currentView, setCurrentView] = useState<AppView>(() => {
+    const defaultView = preferences.preferences.default_view;
+    if (defaultView !== "last") return defaultView;
     const saved = localStorage.getItem("get-kraken-current-view");
-    if (saved && (saved === "quests" || saved === "shop" || saved === "progress")) {
-      return saved as View;
-    }
-    return "quests";
+    const savedView = APP_VIEWS.find((view) => view === saved);
+    return savedView ?? "quests";
   });
 
   // Update localStorage when view changes
-  const handleViewChange = useCallback((view: View) => {
+  const handleViewChange = useCallback((view: AppView) => {
     setCurrentView(view);
     localStorage.setItem("get-kraken-current-view", view);
   }, []);
-  const preferences = usePreferences();
+
+  useEffect(() => applyTheme(theme), [theme]);
+
+  useEffect(() => {
+    setSoundSettings(soundEnabled, soundVolume);
+  }, [soundEnabled, soundVolume]);
+
   const { toast, showToast, showSuccess, showError, dismissToast } = useToast();
 
   const [selectedQuestLogs, setSelectedQuestLogs] = useState<{
@@ -68,6 +127,7 @@ function App() {
     logs: ShopLog[];
   } | null>(null);
   const [editingQuest, setEditingQuest] = useState<Quest | null>(null);
+  const [checkInQuest, setCheckInQuest] = useState<Quest | null>(null);
   const [editingShopItem, setEditingShopItem] = useState<ShopItem | null>(null);
   const [showFeatureUpdates, setShowFeatureUpdates] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
@@ -75,7 +135,11 @@ function App() {
   const {
     wallet,
     loading: walletLoading,
+    hasDrift: walletHasDrift,
+    applyWallet,
     resetWallet,
+    refresh: refreshWallet,
+    refreshTransactions,
   } = useWallet();
   const {
     quests,
@@ -83,10 +147,12 @@ function App() {
     createQuest,
     updateQuest,
     completeQuest,
+    updateQuestLogCheckIn,
     deleteQuest,
     getQuestWithLogs,
-    loadAllQuestLogs,
+    reverseQuestLog,
     deleteAllQuestLogs,
+    refresh: refreshQuests,
   } = useQuests();
   const {
     shopItems,
@@ -96,17 +162,114 @@ function App() {
     purchaseItem,
     deleteShopItem,
     getShopItemWithLogs,
-    loadAllShopLogs,
+    reverseShopLog,
     deleteAllShopLogs,
+    refresh: refreshShopItems,
   } = useShopItems();
-  const { getEffectiveReward, getEffectiveDollarAmount } = useQuestOverrides();
+  const { getEffectiveReward } = useQuestOverrides();
+  const { getEffectivePrice } = useShopItemOverrides();
+  const {
+    household,
+    members,
+    sentInvites,
+    incomingInvites,
+    currentUserId,
+    isOwner,
+    money,
+    inviteMember,
+    revokeInvite,
+    acceptInvite,
+    declineInvite,
+    removeMember,
+    updateMoneySettings,
+    getMemberLabel,
+  } = useHousehold();
+  const { exporting, importing, exportData, previewImport, importData } = useDataTransfer();
+  const {
+    budgets: shopBudgets,
+    preventNegativeBalance,
+    saveBudget,
+    deleteBudget,
+    setPreventNegativeBalance,
+    refresh: refreshBudgets,
+  } = useShopBudgets();
+  const {
+    rules: rewardRules,
+    createRule: createRewardRule,
+    setRuleEnabled: setRewardRuleEnabled,
+    deleteRule: deleteRewardRule,
+  } = useRewardRules();
   const {
-    getEffectivePrice,
-    getEffectiveDollarAmount: getEffectiveShopDollarAmount,
-  } = useShopItemOverrides();
+    buckets: savingsBuckets,
+    transfers: savingsTransfers,
+    createBucket: createSavingsBucket,
+    deleteBucket: deleteSavingsBucket,
+    addTransfer: addSavingsTransfer,
+    deleteTransfer: deleteSavingsTransfer,
+    importTransfers: importSavingsTransfers,
+  } = useSavings();
 
-  const [allQuestLogs, setAllQuestLogs] = useState<QuestLog[]>([]);
-  const [allShopLogs, setAllShopLogs] = useState<ShopLog[]>([]);
+  // Offline outbox - called after useQuests/useShopItems so their replay handlers are registered first
+  const {
+    isOnline,
+    pendingCount: pendingSyncCount,
+    pendingDelta,
+    issues: syncIssues,
+    lastSyncedAt,
+    dismissIssues: dismissSyncIssues,
+  } = useOfflineSync();
+
+  // Logs stay current through realtime changes; older history is paged in on request
+  const {
+    questLogs: allQuestLogs,
+    shopLogs: allShopLogs,
+    completionCounts,
+    purchaseCounts,
+    olderHistory,
+    historyStart,
+    hasOlderHistory,
+    loading: logsLoading,
+    loadingOlder: loadingOlderHistory,
+    loadOlderHistory,
+    upsertQuestLog,
+    upsertShopLog,
+    removeQuestLog,
+    removeShopLog,
+    getQuestLogByClientId,
+    getShopLogByClientId,
+    setQuestLogProofPhoto,
+    refresh: refreshLogs,
+  } = useLogHistory(preferences.calendar.timeZone);
+
+  // Achievements re-evaluate whenever logs or the wallet change
+  const {
+    achievements,
+    celebration: achievementCelebration,
+    dismissCelebration: dismissAchievementCelebration,
+  } = useAchievements({
+    userId: currentUserId,
+    questLogs: allQuestLogs,
+    shopLogs: allShopLogs,
+    olderHistory,
+    quests,
+    wallet,
+    currency: money.currency,
+    timeZone: preferences.calendar.timeZone,
+    ready: !logsLoading && !walletLoading && !questsLoading,
+  });
+
+  // Local reminders for scheduled quests (handed to the service worker)
+  const {
+    supported: remindersSupported,
+    permission: reminderPermission,
+    requestPermission: requestReminderPermission,
+  } = useReminders({
+    quests,
+    questLogs: allQuestLogs,
+    enabled: preferences.remindersEnabled,
+    leadMinutes: preferences.reminderLeadMinutes,
+    timeZone: preferences.calendar.timeZone,
+  });
 
   // Use per-user filter state
   const {
@@ -118,22 +281,57 @@ function App() {
     setShopSearchQuery,
     setSelectedQuestTag,
     setSelectedShopTag,
+    questSortMode,
+    shopSortMode,
+    setQuestSortMode,
+    setShopSortMode,
   } = useFilterState();
 
-  // Load all logs for progress tracking - independent of quests/shopItems to prevent waterfall
+  // Household tags (labels and colors for the keys items store)
+  const {
+    definitions: tagDefinitions,
+    questTags,
+    shopTags,
+    createTag,
+    updateTag,
+    deleteTag,
+    refresh: refreshTags,
+  } = useTags();
+  const { installing: installingPack, installPack } = useQuestPacks();
+
+  // Per-user stars and custom order
+  const {
+    starredIds: starredQuestIds,
+    positions: questPositions,
+    toggleStar: toggleQuestStar,
+    reorder: reorderQuests,
+  } = useItemPreferences("quest");
+  const {
+    starredIds: starredShopItemIds,
+    positions: shopItemPositions,
+    toggleStar: toggleShopItemStar,
+    reorder: reorderShopItems,
+  } = useItemPreferences("shop_item");
+
+  const lastPurchased = useMemo(
+    () => latestLogDates(allShopLogs, (log) => log.shop_item_id, (log) => log.purchased_at),
+    [allShopLogs]
+  );
+
+  // Queued changes reached the server - pick up the authoritative wallet and logs
   useEffect(() => {
-    const loadLogs = async () => {
-      const [questLogs, shopLogs] = await Promise.all([
-        loadAllQuestLogs(),
-        loadAllShopLogs(),
-      ]);
-      setAllQuestLogs(questLogs);
-      setAllShopLogs(shopLogs);
-    };
-    loadLogs();
-    const interval = setInterval(loadLogs, LOG_REFRESH_INTERVAL_MS);
-    return () => clearInterval(interval);
-  }, [loadAllQuestLogs, loadAllShopLogs]); // Removed quests.length and shopItems.length - logs load independently
+    if (!lastSyncedAt) return;
+    refreshWallet();
+    refreshTransactions();
+    refreshLogs();
+  }, [lastSyncedAt, refreshWallet, refreshTransactions, refreshLogs]);
+
+  // Offline changes that couldn't be applied as queued
+  useEffect(() => {
+    if (syncIssues.length === 0) return;
+    showError(syncIssues.map((issue) => issue.message).join(" · "));
+    dismissSyncIssues();
+  }, [syncIssues, showError, dismissSyncIssues]);
 
   // Preload audio on first user interaction
   useEffect(() => {
@@ -171,33 +369,365 @@ function App() {
     localStorage.setItem("get-kraken-feature-updates-seen", FEATURE_UPDATES_VERSION);
   };
 
-  const handleCompleteQuest = useCallback(async (questId: string, _reward: number) => {
+  // Reverse a single completion - the log is kept (marked reversed) and the exact reward refunded
+  const handleReverseQuestLog = useCallback(async (log: QuestLog) => {
+    try {
+      const updatedWallet = await reverseQuestLog(log.id);
+      applyWallet(updatedWallet);
+      removeQuestLog(log.id);
+
+      // Refresh the open log view so the entry shows as reversed
+      setSelectedQuestLogs((prev) => {
+        if (!prev || prev.quest.id !== log.quest_id) return prev;
+        return {
+          ...prev,
+          logs: prev.logs.map((l) =>
+            l.id === log.id ? { ...l, reversed_at: new Date().toISOString() } : l
+          ),
+        };
+      });
+
+      showSuccess("Quest completion reversed ↩️");
+    } catch (err: unknown) {
+      showError(
+        err instanceof Error ? err.message : "Failed to reverse quest completion"
+      );
+    }
+  }, [reverseQuestLog, applyWallet, removeQuestLog, showSuccess, showError]);
+
+  // Upload first, then attach; the photo it replaces is removed afterwards
+  const handleChangeProofPhoto = useCallback(async (log: QuestLog, file: File | null) => {
+    try {
+      const photoUrl = file ? await uploadPhoto(file, "proofs") : null;
+      const updatedLog = await setQuestLogProofPhoto(log.id, photoUrl);
+      await deletePhoto(log.proof_photo_url);
+
+      setSelectedQuestLogs((prev) => {
+        if (!prev || prev.quest.id !== log.quest_id) return prev;
+        return {
+          ...prev,
+          logs: prev.logs.map((l) => (l.id === log.id ? updatedLog : l)),
+        };
+      });
+
+      showSuccess(file ? "Proof photo saved 📷" : "Proof photo removed");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to save proof photo");
+    }
+  }, [setQuestLogProofPhoto, showSuccess, showError]);
+
+  const handleCreateTag = useCallback(async (scope: TagScope, label: string, color: TagColor) => {
+    try {
+      await createTag(scope, label, color);
+      showSuccess(`Tag "${label.trim()}" added 🏷️`);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to add tag");
+      throw err;
+    }
+  }, [createTag, showSuccess, showError]);
+
+  const handleUpdateTag = useCallback(async (tagId: string, updates: { label?: string; color?: TagColor }) => {
+    try {
+      await updateTag(tagId, updates);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to update tag");
+      throw err;
+    }
+  }, [updateTag, showError]);
+
+  // The tag is also stripped from the household's items, so reload them
+  const handleDeleteTag = useCallback(async (tag: TagDefinition) => {
+    try {
+      await deleteTag(tag.id);
+      // A shop tag's budget goes with it
+      await (tag.scope === "quest"
+        ? refreshQuests()
+        : Promise.all([refreshShopItems(), refreshBudgets()]));
+      showSuccess(`Tag "${tag.label}" deleted`);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to delete tag");
+      throw err;
+    }
+  }, [deleteTag, refreshQuests, refreshShopItems, refreshBudgets, showSuccess, showError]);
+
+  const handleSaveBudget = useCallback(async (input: ShopBudgetInput) => {
+    try {
+      await saveBudget(input);
+      showSuccess("Budget saved 🧾");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to save budget");
+      throw err;
+    }
+  }, [saveBudget, showSuccess, showError]);
+
+  const handleDeleteBudget = useCallback(async (budget: ShopBudget) => {
+    try {
+      await deleteBudget(budget.id);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to remove budget");
+      throw err;
+    }
+  }, [deleteBudget, showError]);
+
+  const handlePreventNegativeBalanceChange = useCallback(async (enabled: boolean) => {
+    try {
+      await setPreventNegativeBalance(enabled);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to update setting");
+      throw err;
+    }
+  }, [setPreventNegativeBalance, showError]);
+
+  const handleCreateSavingsBucket = useCallback(async (name: string) => {
+    try {
+      await createSavingsBucket(name);
+      showSuccess("Savings bucket added 🏦");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to add bucket");
+      throw err;
+    }
+  }, [createSavingsBucket, showSuccess, showError]);
+
+  const handleDeleteSavingsBucket = useCallback(async (bucket: SavingsBucket) => {
+    try {
+      await deleteSavingsBucket(bucket.id);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to remove bucket");
+      throw err;
+    }
+  }, [deleteSavingsBucket, showError]);
+
+  const handleAddSavingsTransfer = useCallback(async (input: SavingsTransferInput) => {
+    try {
+      await addSavingsTransfer(input);
+      showSuccess(input.amount > 0 ? "Deposit logged 🏦" : "Withdrawal logged");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to log transfer");
+      throw err;
+    }
+  }, [addSavingsTransfer, showSuccess, showError]);
+
+  const handleDeleteSavingsTransfer = useCallback(async (transfer: SavingsTransfer) => {
+    try {
+      await deleteSavingsTransfer(transfer.id);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to delete transfer");
+      throw err;
+    }
+  }, [deleteSavingsTransfer, showError]);
+
+  const handleImportSavingsTransfers = useCallback(async (bucketId: string, transactions: BankTransaction[]) => {
+    try {
+      const added = await importSavingsTransfers(bucketId, transactions);
+      const skipped = transactions.length - added;
+      showSuccess(
+        `Imported ${added} transfer(s)${skipped > 0 ? `, ${skipped} already logged` : ""}`
+      );
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to import statement");
+      throw err;
+    }
+  }, [importSavingsTransfers, showSuccess, showError]);
+
+  // Accrued money not yet moved to savings, once the household tracks transfers
+  const untransferredAmount = useMemo(
+    () =>
+      savingsBuckets.length > 0
+        ? reconcileSavings(wallet?.dollar_total ?? 0, savingsBuckets, savingsTransfers).untransferred
+        : null,
+    [wallet?.dollar_total, savingsBuckets, savingsTransfers]
+  );
+
+  const handleCreateRewardRule = useCallback(async (config: RewardRuleConfig) => {
+    try {
+      await createRewardRule(config);
+      showSuccess("Reward rule added ✨");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to add reward rule");
+      throw err;
+    }
+  }, [createRewardRule, showSuccess, showError]);
+
+  const handleToggleRewardRule = useCallback(async (rule: RewardRule, enabled: boolean) => {
+    try {
+      await setRewardRuleEnabled(rule.id, enabled);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to update reward rule");
+      throw err;
+    }
+  }, [setRewardRuleEnabled, showError]);
+
+  const handleDeleteRewardRule = useCallback(async (rule: RewardRule) => {
+    try {
+      await deleteRewardRule(rule.id);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to remove reward rule");
+      throw err;
+    }
+  }, [deleteRewardRule, showError]);
+
+  const handleToggleQuestStar = useCallback(async (questId: string) => {
+    try {
+      await toggleQuestStar(questId);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to star quest");
+    }
+  }, [toggleQuestStar, showError]);
+
+  const handleReorderQuests = useCallback(async (orderedIds: string[]) => {
+    try {
+      await reorderQuests(orderedIds);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to save quest order");
+    }
+  }, [reorderQuests, showError]);
+
+  const handleToggleShopItemStar = useCallback(async (itemId: string) => {
+    try {
+      await toggleShopItemStar(itemId);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to star item");
+    }
+  }, [toggleShopItemStar, showError]);
+
+  const handleReorderShopItems = useCallback(async (orderedIds: string[]) => {
+    try {
+      await reorderShopItems(orderedIds);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to save item order");
+    }
+  }, [reorderShopItems, showError]);
+
+  const handleReverseShopLog = useCallback(async (log: ShopLog) => {
+    try {
+      const updatedWallet = await reverseShopLog(log.id);
+      applyWallet(updatedWallet);
+      removeShopLog(log.id);
+
+      setSelectedShopLogs((prev) => {
+        if (!prev || prev.item.id !== log.shop_item_id) return prev;
+        return {
+          ...prev,
+          logs: prev.logs.map((l) =>
+            l.id === log.id ? { ...l, reversed_at: new Date().toISOString() } : l
+          ),
+        };
+      });
+
+      showSuccess("Purchase reversed ↩️");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to reverse purchase");
+    }
+  }, [reverseShopLog, applyWallet, removeShopLog, showSuccess, showError]);
+
+  // Rethrows so the check-in form stays open when completing fails
+  const handleCompleteQuestWithCheckIn = useCallback(async (questId: string, checkIn: QuestCheckIn = {}) => {
     try {
       const quest = quests.find((q) => q.id === questId);
       if (!quest) throw new Error("Quest not found");
 
-      // Use effective values from overrides
-      const effectiveReward = getEffectiveReward(questId, quest.reward);
-      const effectiveDollarAmount = getEffectiveDollarAmount(
+      // Effective reward is resolved server-side; this copy is only for the toast
+      const effectiveReward =
+        getEffectiveReward(questId, quest.reward) +
+        (hasQuantity(quest) ? getQuantityReward(quest.reward_per_unit, checkIn.quantity) : 0);
+
+      // completeQuest runs one server-side transaction and returns the authoritative wallet
+      // (null when offline - the completion is queued and shows as a pending log).
+      // Reward rules are only evaluated for the signed-in member.
+      const { wallet: updatedWallet, clientId, bonuses = [] } = await completeQuest(
         questId,
-        quest.dollar_amount || 0
+        currentUserId
+          ? {
+              rules: rewardRules,
+              logs: allQuestLogs,
+              userId: currentUserId,
+              tagLabels: questTags.labels,
+              now: new Date(),
+              ...preferences.calendar,
+            }
+          : undefined,
+        checkIn
       );
+      if (!updatedWallet) {
+        const earned = effectiveReward + bonuses.reduce((sum, bonus) => sum + bonus.amount, 0);
+        const bonusText = bonuses.length > 0 ? ` Bonuses: ${formatBonuses(bonuses)}` : "";
+        playCoinSound();
+        showSuccess(`Earned ${earned} ${preferences.currencyName}!${bonusText} Saved offline - will sync when you're back online 📴`);
+        return;
+      }
+      applyWallet(updatedWallet);
 
-      // completeQuest now atomically updates wallet - no separate updateWallet call needed
-      // Real-time subscription will update wallet state automatically
-      await completeQuest(questId, effectiveReward, effectiveDollarAmount);
-
-      const questLogs = await loadAllQuestLogs();
-      setAllQuestLogs(questLogs);
+      // Fetch just the new log so streaks update before the realtime echo arrives
+      const newLog = await getQuestLogByClientId(clientId).catch(() => null);
+      if (newLog) upsertQuestLog(newLog);
 
+      // The log has what the server credited, which drops bonuses whose condition didn't hold
+      const credited = newLog?.bonuses ?? bonuses;
+      const earned = newLog
+        ? newLog.reward
+        : effectiveReward + credited.reduce((sum, bonus) => sum + bonus.amount, 0);
+      const bonusText = credited.length > 0 ? ` Bonuses: ${formatBonuses(credited)}` : "";
       playCoinSound();
-      showSuccess(`Earned ${effectiveReward} ${CURRENCY_NAME}! 🎉`);
+      showSuccess(
+        `Earned ${earned} ${preferences.currencyName}! 🎉${bonusText}`,
+        newLog
+          ? { label: "Undo", onAction: () => handleReverseQuestLog(newLog) }
+          : undefined
+      );
     } catch (err: unknown) {
       showError(
         err instanceof Error ? err.message : "Failed to complete quest"
       );
+      throw err;
+    }
+  }, [quests, getEffectiveReward, completeQuest, currentUserId, rewardRules, allQuestLogs, questTags, preferences.calendar, preferences.currencyName, applyWallet, getQuestLogByClientId, upsertQuestLog, handleReverseQuestLog, showSuccess, showError]);
+
+  // Quests measured in a unit ask for the quantity first
+  const handleCompleteQuest = useCallback(async (questId: string, _reward: number) => {
+    const quest = quests.find((q) => q.id === questId);
+    if (quest && hasQuantity(quest)) {
+      setCheckInQuest(quest);
+      return;
     }
-  }, [quests, getEffectiveReward, getEffectiveDollarAmount, completeQuest, loadAllQuestLogs, showSuccess, showError]);
+    await handleCompleteQuestWithCheckIn(questId).catch(() => {
+      // Already reported
+    });
+  }, [quests, handleCompleteQuestWithCheckIn]);
+
+  const handleCheckInComplete = useCallback(async (quest: Quest, checkIn: QuestCheckIn) => {
+    await handleCompleteQuestWithCheckIn(quest.id, checkIn);
+    setCheckInQuest(null);
+  }, [handleCompleteQuestWithCheckIn]);
+
+  const handleSaveCheckIn = useCallback(async (log: QuestLog, checkIn: QuestCheckIn) => {
+    try {
+      const updatedWallet = await updateQuestLogCheckIn(log.id, checkIn);
+      applyWallet(updatedWallet);
+
+      // Same re-pricing as the server, so the log is current before the realtime echo
+      const quantity = log.unit ? checkIn.quantity ?? null : null;
+      const updatedLog: QuestLog = {
+        ...log,
+        quantity,
+        mood: checkIn.mood ?? null,
+        note: checkIn.note ?? null,
+        reward: repriceQuestLog(log, quantity),
+      };
+      upsertQuestLog(updatedLog);
+      setSelectedQuestLogs((prev) => {
+        if (!prev || prev.quest.id !== log.quest_id) return prev;
+        return {
+          ...prev,
+          logs: prev.logs.map((l) => (l.id === log.id ? updatedLog : l)),
+        };
+      });
+
+      showSuccess("Check-in saved 📝");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to save check-in");
+      throw err;
+    }
+  }, [updateQuestLogCheckIn, applyWallet, upsertQuestLog, showSuccess, showError]);
 
   const handlePurchaseItem = useCallback(async (itemId: string, _price: number) => {
     try {
@@ -206,36 +736,39 @@ function App() {
 
       // Use effective values from overrides
       const effectivePrice = getEffectivePrice(itemId, item.price);
-      const effectiveDollarAmount = getEffectiveShopDollarAmount(
-        itemId,
-        item.dollar_amount || 0
-      );
-
-      // Validate purchase: check both sand dollars and dollars (if dollar amounts are enabled)
-      const walletTotal = wallet?.total ?? 0;
-      const walletDollarTotal = wallet?.dollar_total ?? 0;
-      
-      if (walletTotal < effectivePrice) {
-        throw new Error(`Not enough sand dollars. Need ${effectivePrice - walletTotal} more.`);
-      }
 
-      if (preferences.showDollarAmounts && effectiveDollarAmount > 0) {
-        const roundedDollarAmount = Math.round(effectiveDollarAmount);
-        const roundedWalletDollarTotal = Math.round(walletDollarTotal);
-        if (roundedWalletDollarTotal < roundedDollarAmount) {
-          throw new Error(`Not enough dollars. Need ${roundedDollarAmount - roundedWalletDollarTotal} more.`);
-        }
+      // purchaseItem checks the household's spending limits, then runs one server-side
+      // transaction and returns the authoritative wallet (null when offline - the purchase
+      // is queued). Changes still waiting to sync count against the balance.
+      const { wallet: updatedWallet, clientId } = await purchaseItem(itemId, {
+        budgets: shopBudgets,
+        logs: allShopLogs,
+        balance: {
+          total: (wallet?.total ?? 0) + pendingDelta.total,
+          dollarTotal: (wallet?.dollar_total ?? 0) + pendingDelta.dollarTotal,
+        },
+        preventNegativeBalance,
+        includeDollars: preferences.showDollarAmounts,
+        tagLabels: shopTags.labels,
+        currencyName: preferences.currencyName,
+        currency: money.currency,
+        now: new Date(),
+        ...preferences.calendar,
+      });
+      if (!updatedWallet) {
+        showSuccess(`Purchased for ${effectivePrice} ${preferences.currencyName}! Saved offline - will sync when you're back online 📴`);
+        return;
       }
+      applyWallet(updatedWallet);
 
-      // purchaseItem now atomically updates wallet - no separate updateWallet call needed
-      // Real-time subscription will update wallet state automatically
-      await purchaseItem(itemId, effectivePrice, effectiveDollarAmount);
+      const newLog = await getShopLogByClientId(clientId).catch(() => null);
+      if (newLog) upsertShopLog(newLog);
 
-      showSuccess(`Purchased for ${effectivePrice} ${CURRENCY_NAME}! 🛒`);
+      showSuccess(`Purchased for ${effectivePrice} ${preferences.currencyName}! 🛒`);
     } catch (err: unknown) {
       showError(err instanceof Error ? err.message : "Failed to purchase item");
     }
-  }, [shopItems, getEffectivePrice, getEffectiveShopDollarAmount, wallet, preferences.showDollarAmounts, purchaseItem, showSuccess, showError]);
+  }, [shopItems, getEffectivePrice, shopBudgets, allShopLogs, wallet, pendingDelta, preventNegativeBalance, preferences.showDollarAmounts, preferences.calendar, preferences.currencyName, money.currency, shopTags, purchaseItem, applyWallet, getShopLogByClientId, upsertShopLog, showSuccess, showError]);
 
   const handleViewQuestLogs = useCallback(async (questId: string) => {
     const quest = quests.find((q) => q.id === questId);
@@ -274,38 +807,44 @@ function App() {
   const handleSaveQuestEdit = useCallback(async (updates: {
     name: string;
     tags: Tag[];
-    reward: number;
+    reward?: number;
     dollar_amount?: number;
+    cadence: QuestCadence;
+    grace_periods: number;
+    schedule: QuestSchedule | null;
+    unit: string | null;
+    reward_per_unit?: number | null;
     completion_count: number;
+    photo_url?: string | null;
   }) => {
     if (!editingQuest) return;
     try {
       await updateQuest(editingQuest.id, updates);
+      // The replaced photo is no longer referenced
+      if (updates.photo_url !== undefined) await deletePhoto(editingQuest.photo_url);
       // updateQuest already calls loadQuests internally, so we don't need to call it again
-      // Reload logs to reflect any count changes
-      const logs = await loadAllQuestLogs();
-      setAllQuestLogs(logs);
+      // Count changes add or reverse logs, which arrive through the realtime log sync
       setEditingQuest(null);
       showSuccess("Quest updated! ✅");
     } catch (err: unknown) {
       showError(err instanceof Error ? err.message : "Failed to update quest");
     }
-  }, [editingQuest, updateQuest, loadAllQuestLogs, showSuccess, showError]);
+  }, [editingQuest, updateQuest, showSuccess, showError]);
 
   const handleSaveShopItemEdit = useCallback(async (updates: {
     name: string;
     tags: ShopTag[];
-    price: number;
+    price?: number;
     dollar_amount?: number;
     purchase_count: number;
+    photo_url?: string | null;
   }) => {
     if (!editingShopItem) return;
     try {
       await updateShopItem(editingShopItem.id, updates);
+      if (updates.photo_url !== undefined) await deletePhoto(editingShopItem.photo_url);
       // updateShopItem already calls loadShopItems internally, so we don't need to call it again
-      // Reload logs to reflect any count changes
-      const logs = await loadAllShopLogs();
-      setAllShopLogs(logs);
+      // Count changes add or reverse logs, which arrive through the realtime log sync
       setEditingShopItem(null);
       showSuccess("Shop item updated! ✅");
     } catch (err: unknown) {
@@ -313,43 +852,39 @@ function App() {
         err instanceof Error ? err.message : "Failed to update shop item"
       );
     }
-  }, [editingShopItem, updateShopItem, loadAllShopLogs, showSuccess, showError]);
+  }, [editingShopItem, updateShopItem, showSuccess, showError]);
 
   const handleDeleteQuest = useCallback(async (questId: string) => {
     try {
       await deleteQuest(questId);
       showSuccess("Quest deleted! ✅");
-      const logs = await loadAllQuestLogs();
-      setAllQuestLogs(logs);
     } catch (err: unknown) {
       showError(err instanceof Error ? err.message : "Failed to delete quest");
     }
-  }, [deleteQuest, loadAllQuestLogs, showSuccess, showError]);
+  }, [deleteQuest, showSuccess, showError]);
 
   const handleDeleteShopItem = useCallback(async (itemId: string) => {
     try {
       await deleteShopItem(itemId);
       showSuccess("Shop item deleted! ✅");
-      const logs = await loadAllShopLogs();
-      setAllShopLogs(logs);
     } catch (err: unknown) {
       showError(
         err instanceof Error ? err.message : "Failed to delete shop item"
       );
     }
-  }, [deleteShopItem, loadAllShopLogs, showSuccess, showError]);
+  }, [deleteShopItem, showSuccess, showError]);
 
   const handleResetProgress = useCallback(async () => {
     if (!confirm("Reset wallet to zero? This cannot be undone.")) {
       return;
     }
     try {
-      await resetWallet();
+      await resetWallet(pendingDelta);
       showSuccess("Wallet reset to zero! ✅");
     } catch (err: unknown) {
       showError(err instanceof Error ? err.message : "Failed to reset wallet");
     }
-  }, [resetWallet, showSuccess, showError]);
+  }, [resetWallet, pendingDelta, showSuccess, showError]);
 
   const handleResetAllProgress = useCallback(async () => {
     if (
@@ -362,13 +897,9 @@ function App() {
     try {
       await deleteAllQuestLogs();
       await deleteAllShopLogs();
-      await resetWallet();
-      const [questLogs, shopLogs] = await Promise.all([
-        loadAllQuestLogs(),
-        loadAllShopLogs(),
-      ]);
-      setAllQuestLogs(questLogs);
-      setAllShopLogs(shopLogs);
+      await resetWallet(pendingDelta);
+      // Bulk delete - reload rather than replay a burst of realtime deletes
+      await refreshLogs();
       showSuccess("All progress reset! ✅");
     } catch (err: unknown) {
       console.error("Error resetting all progress:", err);
@@ -376,7 +907,123 @@ function App() {
         err instanceof Error ? err.message : "Failed to reset all progress"
       );
     }
-  }, [deleteAllQuestLogs, deleteAllShopLogs, resetWallet, loadAllQuestLogs, loadAllShopLogs, showSuccess, showError]);
+  }, [deleteAllQuestLogs, deleteAllShopLogs, resetWallet, pendingDelta, refreshLogs, showSuccess, showError]);
+
+  const handleLoadOlderHistory = useCallback(async () => {
+    try {
+      await loadOlderHistory();
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to load older history");
+    }
+  }, [loadOlderHistory, showError]);
+
+  // Turning reminders on needs notification permission, asked from this click
+  const handleToggleReminders = useCallback(async () => {
+    if (preferences.remindersEnabled && reminderPermission === "granted") {
+      await preferences.setRemindersEnabled(false);
+      return;
+    }
+    const permission = await requestReminderPermission();
+    if (permission === "granted") {
+      await preferences.setRemindersEnabled(true);
+      showSuccess("Reminders on 🔔");
+    } else {
+      showError("Allow notifications in your browser to get reminders");
+    }
+  }, [preferences, reminderPermission, requestReminderPermission, showSuccess, showError]);
+
+  const handleInviteMember = useCallback(async (email: string) => {
+    try {
+      await inviteMember(email);
+      showSuccess(`Invite sent to ${email.trim()} ✉️`);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to send invite");
+    }
+  }, [inviteMember, showSuccess, showError]);
+
+  const handleRevokeInvite = useCallback(async (inviteId: string) => {
+    try {
+      await revokeInvite(inviteId);
+      showSuccess("Invite revoked");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to revoke invite");
+    }
+  }, [revokeInvite, showSuccess, showError]);
+
+  // Joining switches households, so reload to rescope every hook and subscription
+  const handleAcceptInvite = useCallback(async (inviteId: string) => {
+    try {
+      await acceptInvite(inviteId);
+      showSuccess("Joined household! 🏠");
+      window.location.reload();
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to join household");
+    }
+  }, [acceptInvite, showSuccess, showError]);
+
+  const handleExportData = useCallback(async () => {
+    try {
+      const bundle = await exportData();
+      showSuccess("Export ready 📦");
+      return bundle;
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to export data");
+      return null;
+    }
+  }, [exportData, showSuccess, showError]);
+
+  // An import touches every hook's data, so reload rather than refresh each one
+  const handleImportData = useCallback(async (plan: ImportPlan) => {
+    try {
+      await importData(plan);
+      showSuccess("Import complete! 📦");
+      window.location.reload();
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to import data");
+    }
+  }, [importData, showSuccess, showError]);
+
+  const handleInstallQuestPack = useCallback(async (plan: PackInstallPlan) => {
+    try {
+      await installPack(plan);
+      await Promise.all([refreshTags(), refreshQuests(), refreshShopItems()]);
+      showSuccess(`${plan.packName} pack installed 🎒`);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to install pack");
+      throw err;
+    }
+  }, [installPack, refreshTags, refreshQuests, refreshShopItems, showSuccess, showError]);
+
+  const handleDeclineInvite = useCallback(async (inviteId: string) => {
+    try {
+      await declineInvite(inviteId);
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to decline invite");
+    }
+  }, [declineInvite, showError]);
+
+  const handleRemoveMember = useCallback(async (userId: string) => {
+    try {
+      await removeMember(userId);
+      showSuccess("Member removed");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to remove member");
+    }
+  }, [removeMember, showSuccess, showError]);
+
+  const handleUpdateMoneySettings = useCallback(async (settings: MoneySettings) => {
+    try {
+      await updateMoneySettings(settings);
+      showSuccess("Money settings saved");
+    } catch (err: unknown) {
+      showError(err instanceof Error ? err.message : "Failed to update currency");
+    }
+  }, [updateMoneySettings, showSuccess, showError]);
+
+  // Only label who logged an entry when the wallet is actually shared
+  const getLogAttribution = members.length > 1
+    ? (log: QuestLog | ShopLog) => getMemberLabel(log.user_id)
+    : undefined;
 
   const handleLogout = useCallback(async () => {
     try {
@@ -407,6 +1054,13 @@ function App() {
             wallet={wallet}
             loading={walletLoading}
             showDollarAmounts={preferences.showDollarAmounts}
+            currencyIcon={preferences.currencyIcon}
+            hasDrift={walletHasDrift}
+            pendingSyncCount={pendingSyncCount}
+            pendingSyncAmount={pendingDelta.total}
+            isOffline={!isOnline}
+            money={money}
+            untransferredAmount={untransferredAmount}
           />
         </div>
 
@@ -420,37 +1074,71 @@ function App() {
           <QuestsView
             quests={quests}
             allQuestLogs={allQuestLogs}
+            olderQuestDays={olderHistory.questDays}
+            completionCounts={completionCounts}
             loading={questsLoading}
             searchQuery={questSearchQuery}
             onSearchChange={setQuestSearchQuery}
+            tagSet={questTags}
             selectedTag={selectedQuestTag}
             onTagSelect={setSelectedQuestTag}
+            sortMode={questSortMode}
+            onSortModeChange={setQuestSortMode}
+            starredIds={starredQuestIds}
+            positions={questPositions}
+            onToggleStar={handleToggleQuestStar}
+            onReorder={handleReorderQuests}
             showDollarAmounts={preferences.showDollarAmounts}
+            calendar={preferences.calendar}
             onCreateQuest={createQuest}
             onCompleteQuest={handleCompleteQuest}
             onViewLogs={handleViewQuestLogs}
             onEdit={handleEditQuest}
             onShowToast={showToast}
+            remindersSupported={remindersSupported}
+            remindersEnabled={preferences.remindersEnabled}
+            reminderPermission={reminderPermission}
+            reminderLeadMinutes={preferences.reminderLeadMinutes}
+            onToggleReminders={handleToggleReminders}
+            onReminderLeadMinutesChange={preferences.setReminderLeadMinutes}
+            currencyName={preferences.currencyName}
+            money={money}
+            canEditAmounts={isOwner}
           />
         </div>
 
         <div className={currentView === "shop" ? "" : "hidden"}>
           <ShopView
             shopItems={shopItems}
-            allShopLogs={allShopLogs}
+            purchaseCounts={purchaseCounts}
+            lastPurchased={lastPurchased}
+            shopLogs={allShopLogs}
+            budgets={shopBudgets}
+            allowNegativeBalance={!preventNegativeBalance}
             walletTotal={wallet?.total ?? 0}
             walletDollarTotal={wallet?.dollar_total ?? 0}
             loading={shopItemsLoading}
             searchQuery={shopSearchQuery}
             onSearchChange={setShopSearchQuery}
+            tagSet={shopTags}
             selectedTag={selectedShopTag}
             onTagSelect={setSelectedShopTag}
+            sortMode={shopSortMode}
+            onSortModeChange={setShopSortMode}
+            starredIds={starredShopItemIds}
+            positions={shopItemPositions}
+            onToggleStar={handleToggleShopItemStar}
+            onReorder={handleReorderShopItems}
             showDollarAmounts={preferences.showDollarAmounts}
+            calendar={preferences.calendar}
             onCreateShopItem={createShopItem}
             onPurchaseItem={handlePurchaseItem}
             onViewLogs={handleViewShopLogs}
             onEdit={handleEditShopItem}
             onShowToast={showToast}
+            currencyName={preferences.currencyName}
+            money={money}
+            canEditAmounts={isOwner}
           />
         </div>
 
@@ -460,11 +1148,105 @@ function App() {
             walletDollarTotal={wallet?.dollar_total ?? 0}
             questLogs={allQuestLogs}
             shopLogs={allShopLogs}
+            olderHistory={olderHistory}
+            quests={quests}
+            achievements={achievements}
+            onResetProgress={isOwner ? handleResetProgress : undefined}
+            onResetAllProgress={isOwner ? handleResetAllProgress : undefined}
+            showDollarAmounts={preferences.showDollarAmounts}
+            calendar={preferences.calendar}
+            historyStart={historyStart}
+            hasOlderHistory={hasOlderHistory}
+            loadingOlderHistory={loadingOlderHistory}
+            onLoadOlderHistory={handleLoadOlderHistory}
+            currencyName={preferences.currencyName}
+            money={money}
+          />
+          <HouseholdPanel
+            household={household}
+            members={members}
+            sentInvites={sentInvites}
+            incomingInvites={incomingInvites}
+            currentUserId={currentUserId}
+            isOwner={isOwner}
+            onInvite={handleInviteMember}
+            onRevokeInvite={handleRevokeInvite}
+            onAcceptInvite={handleAcceptInvite}
+            onDeclineInvite={handleDeclineInvite}
+            onRemoveMember={handleRemoveMember}
+          />
+          <DataTransferPanel
+            canImport={isOwner}
+            exporting={exporting}
+            importing={importing}
+            onExport={handleExportData}
+            onPreviewImport={previewImport}
+            onImport={handleImportData}
+          />
+          <QuestPacksPanel
+            tags={tagDefinitions}
             quests={quests}
             shopItems={shopItems}
-            onResetProgress={handleResetProgress}
-            onResetAllProgress={handleResetAllProgress}
+            installing={installingPack}
+            canInstall={isOwner}
+            onInstall={handleInstallQuestPack}
+            money={money}
+          />
+          <TagManagerPanel
+            definitions={tagDefinitions}
+            onCreate={handleCreateTag}
+            onUpdate={handleUpdateTag}
+            onDelete={handleDeleteTag}
+          />
+          <ShopBudgetsPanel
+            budgets={shopBudgets}
+            shopItems={shopItems}
+            tagSet={shopTags}
+            preventNegativeBalance={preventNegativeBalance}
+            canEdit={isOwner}
             showDollarAmounts={preferences.showDollarAmounts}
+            onSave={handleSaveBudget}
+            onDelete={handleDeleteBudget}
+            onPreventNegativeBalanceChange={handlePreventNegativeBalanceChange}
+            currencyName={preferences.currencyName}
+            money={money}
+          />
+          {preferences.showDollarAmounts && (
+            <SavingsPanel
+              buckets={savingsBuckets}
+              transfers={savingsTransfers}
+              dollarTotal={wallet?.dollar_total ?? 0}
+              timeZone={preferences.calendar.timeZone}
+              onCreateBucket={handleCreateSavingsBucket}
+              onDeleteBucket={handleDeleteSavingsBucket}
+              onAddTransfer={handleAddSavingsTransfer}
+              onDeleteTransfer={handleDeleteSavingsTransfer}
+              onImport={handleImportSavingsTransfers}
+              money={money}
+            />
+          )}
+          <RewardRulesPanel
+            rules={rewardRules}
+            tagSet={questTags}
+            onCreate={handleCreateRewardRule}
+            onToggle={handleToggleRewardRule}
+            onDelete={handleDeleteRewardRule}
+            currencyName={preferences.currencyName}
+            canEdit={isOwner}
+          />
+        </div>
+
+        <div className={currentView === "settings" ? "" : "hidden"}>
+          <SettingsView
+            preferences={preferences.preferences}
+            calendar={preferences.calendar}
+            onChange={preferences.savePreferences}
+            money={money}
+            canEditMoney={isOwner}
+            onMoneyChange={handleUpdateMoneySettings}
+            remindersSupported={remindersSupported}
+            reminderPermission={reminderPermission}
+            onToggleReminders={handleToggleReminders}
           />
         </div>
       </main>
@@ -476,6 +1258,22 @@ function App() {
           title={`${selectedQuestLogs.quest.name} - Completion Log`}
           logs={selectedQuestLogs.logs}
           getDateKey={(log) => log.completed_at}
+          onReverse={handleReverseQuestLog}
+          getAttribution={getLogAttribution}
+          getDetails={(log) => (log.bonuses?.length ? `Bonuses: ${formatBonuses(log.bonuses)}` : null)}
+          renderExtra={(log) => (
+            <QuestLogCheckIn
+              log={log}
+              onSave={
+                (log.user_id === currentUserId || isOwner) && !log.reversed_at && !isPendingLog(log)
+                  ? handleSaveCheckIn
+                  : undefined
+              }
+              currencyName={preferences.currencyName}
+            />
+          )}
+          getPhotoUrl={(log) => log.proof_photo_url}
+          onChangePhoto={handleChangeProofPhoto}
         />
       )}
 
@@ -486,43 +1284,44 @@ function App() {
           title={`${selectedShopLogs.item.name} - Purchase Log`}
           logs={selectedShopLogs.logs}
           getDateKey={(log) => log.purchased_at}
+          onReverse={handleReverseShopLog}
+          getAttribution={getLogAttribution}
         />
       )}
 
-      {editingQuest &&
-        (() => {
-          const userCompletionCounts =
-            calculateUserCompletionCounts(allQuestLogs);
-          return (
-            <EditQuestCard
-              quest={editingQuest}
-              userCompletionCount={userCompletionCounts[editingQuest.id]}
-              onSave={handleSaveQuestEdit}
-              onDelete={async () => {
-                await handleDeleteQuest(editingQuest.id);
-                setEditingQuest(null);
-              }}
-              onClose={() => setEditingQuest(null)}
-            />
-          );
-        })()}
-
-      {editingShopItem &&
-        (() => {
-          const userPurchaseCounts = calculateUserPurchaseCounts(allShopLogs);
-          return (
-            <EditShopItemCard
-              item={editingShopItem}
-              userPurchaseCount={userPurchaseCounts[editingShopItem.id]}
-              onSave={handleSaveShopItemEdit}
-              onDelete={async () => {
-                await handleDeleteShopItem(editingShopItem.id);
-                setEditingShopItem(null);
-              }}
-              onClose={() => setEditingShopItem(null)}
-            />
-          );
-        })()}
+      {editingQuest && (
+        <EditQuestCard
+          quest={editingQuest}
+          tagSet={questTags}
+          userCompletionCount={completionCounts[editingQuest.id]}
+          onSave={handleSaveQuestEdit}
+          canEditAmounts={isOwner}
+          onDelete={async () => {
+            await handleDeleteQuest(editingQuest.id);
+            setEditingQuest(null);
+          }}
+          onClose={() => setEditingQuest(null)}
+          currencyName={preferences.currencyName}
+          money={money}
+        />
+      )}
+
+      {editingShopItem && (
+        <EditShopItemCard
+          item={editingShopItem}
+          tagSet={shopTags}
+          userPurchaseCount={purchaseCounts[editingShopItem.id]}
+          onSave={handleSaveShopItemEdit}
+          canEditAmounts={isOwner}
+          onDelete={async () => {
+            await handleDeleteShopItem(editingShopItem.id);
+            setEditingShopItem(null);
+          }}
+          onClose={() => setEditingShopItem(null)}
+          currencyName={preferences.currencyName}
+          money={money}
+        />
+      )}
 
       {toast && (
         <Toast
@@ -533,10 +1332,35 @@ function App() {
           duration={TOAST_DURATION_MS}
         />
       )}
+      {/* SDK Toast has no action slot, so the action sits just below it */}
+      {toast?.action && (
+        <button
+          onClick={() => {
+            const action = toast.action;
+            dismissToast();
+            action?.onAction();
+          }}
+          className="fixed top-24 right-4 z-50 px-4 py-2 rounded-lg bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 text-sm font-semibold shadow-lg hover:opacity-90 transition-opacity touch-manipulation"
+        >
+          ↩️ {toast.action.label}
+        </button>
+      )}
 
       <Footer onAboutClick={() => setShowAbout(true)} />
 
       {/* Feature Updates Popup - shows once per content version */}
+      <CheckInModal
+        quest={checkInQuest}
+        onComplete={handleCheckInComplete}
+        onClose={() => setCheckInQuest(null)}
+        currencyName={preferences.currencyName}
+      />
+
+      <AchievementUnlockModal
+        achievement={achievementCelebration}
+        onClose={dismissAchievementCelebration}
+      />
+
       <PopupModal
         isOpen={showFeatureUpdates}
         onClose={handleFeatureUpdatesClose}
@@ -0,0 +1,33 @@
+/**
+ * Get Kraken - Achievement Unlock Modal Component
+ *
+ * Celebrates a newly unlocked achievement
+ */
+
+import { Button, Modal } from "@ffx/sdk";
+import type { Achievement } from "../utils/achievements";
+
+interface AchievementUnlockModalProps {
+  achievement: Achievement | null;
+  onClose: () => void;
+}
+
+export function AchievementUnlockModal({ achievement, onClose }: AchievementUnlockModalProps) {
+  if (!achievement) return null;
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title="Achievement unlocked!" size="sm">
+      <div className="text-center py-4 space-y-3">
+        <div className="text-6xl animate-bounce">{achievement.icon}</div>
+        <h3 className="text-2xl font-bold text-gray-900 header-text-color">{achievement.name}</h3>
+        <p className="text-gray-600 dark:text-gray-300">{achievement.description}</p>
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Added to your badge shelf on the Progress tab 🎉
+        </p>
+        <Button variant="primary" onClick={onClose} className="w-full">
+          Nice!
+        </Button>
+      </div>
+    </Modal>
+  );
+}
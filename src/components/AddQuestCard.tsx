@@ -6,35 +6,75 @@
 
 import { useState } from "react";
 import { Button, InputField, Modal } from "@ffx/sdk";
-import type { Tag } from "../types";
-import { TAGS, TAG_LABELS, TAG_BUTTON_CLASSES } from "../utils/tags";
+import type { QuestCadence, QuestSchedule, Tag } from "../types";
+import { TagPicker } from "./TagPicker";
+import type { TagSet } from "../utils/tags";
 import { UnifiedNumericInput } from "./UnifiedNumericInput";
+import { CadencePicker } from "./CadencePicker";
+import { SchedulePicker } from "./SchedulePicker";
+import { UnitPicker } from "./UnitPicker";
+import { PhotoPicker } from "./PhotoPicker";
+import { resolvePhotoSelection } from "../lib/photos";
+import type { PhotoSelection } from "../lib/photos";
+import { CURRENCY_NAME } from "../constants";
+import { toTitleCase } from "../utils/preferences";
+import { DEFAULT_MONEY, coinsForMoney, describeExchangeRate, moneyForCoins } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
 
 interface AddQuestCardProps {
+  tagSet: TagSet;
   onCreate: (quest: {
     name: string;
     tags: Tag[];
     reward: number;
     dollar_amount?: number;
+    cadence: QuestCadence;
+    grace_periods: number;
+    schedule: QuestSchedule | null;
+    unit: string | null;
+    reward_per_unit: number | null;
+    photo_url: string | null;
   }) => Promise<void>;
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
+  canEditAmounts?: boolean; // household members can only add quests without rewards
 }
 
-export function AddQuestCard({ onCreate }: AddQuestCardProps) {
+export function AddQuestCard({
+  tagSet,
+  onCreate,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
+  canEditAmounts = true,
+}: AddQuestCardProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [name, setName] = useState("");
   const [reward, setReward] = useState(10);
   const [dollarAmount, setDollarAmount] = useState(0);
   const [tags, setTags] = useState<Tag[]>([]);
+  const [cadence, setCadence] = useState<QuestCadence>({ type: "daily" });
+  const [gracePeriods, setGracePeriods] = useState(0);
+  const [schedule, setSchedule] = useState<QuestSchedule | null>(null);
+  const [unit, setUnit] = useState("");
+  const [rewardPerUnit, setRewardPerUnit] = useState(0);
+  const [photo, setPhoto] = useState<PhotoSelection>({ kind: "keep" });
   const [isCreating, setIsCreating] = useState(false);
 
-  const toggleTag = (tagOption: Tag) => {
-    setTags((prev) =>
-      prev.includes(tagOption)
-        ? prev.filter((t) => t !== tagOption)
-        : [...prev, tagOption]
-    );
+  // With an exchange rate, either amount fills in the other
+  const handleRewardChange = async (val: number) => {
+    setReward(val);
+    const derived = moneyForCoins(val, money);
+    if (derived !== null) setDollarAmount(derived);
   };
 
+  const handleDollarAmountChange = async (val: number) => {
+    setDollarAmount(val);
+    const derived = coinsForMoney(val, money);
+    if (derived !== null) setReward(derived);
+  };
+
+  const exchangeRate = describeExchangeRate(money, currencyName);
+
   const handleCreate = async () => {
     if (!name.trim()) {
       alert("Please enter a quest name");
@@ -46,14 +86,26 @@ export function AddQuestCard({ onCreate }: AddQuestCardProps) {
       await onCreate({
         name: name.trim(),
         tags,
-        reward,
-        dollar_amount: dollarAmount,
+        reward: canEditAmounts ? reward : 0,
+        dollar_amount: canEditAmounts ? dollarAmount : 0,
+        cadence,
+        grace_periods: gracePeriods,
+        schedule,
+        unit: unit.trim() || null,
+        reward_per_unit: canEditAmounts && unit.trim() && rewardPerUnit > 0 ? rewardPerUnit : null,
+        photo_url: await resolvePhotoSelection(photo, null, "quests"),
       });
       // Reset form
       setName("");
       setReward(10);
       setDollarAmount(0);
       setTags([]);
+      setCadence({ type: "daily" });
+      setGracePeriods(0);
+      setSchedule(null);
+      setUnit("");
+      setRewardPerUnit(0);
+      setPhoto({ kind: "keep" });
       setIsOpen(false);
     } catch (err: any) {
       console.error("Error creating quest:", err);
@@ -91,54 +143,61 @@ export function AddQuestCard({ onCreate }: AddQuestCardProps) {
             placeholder="e.g., Morning Run"
           />
 
-          <div>
-            <label htmlFor="add-quest-reward-display" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              Sand Dollars
-            </label>
-            <UnifiedNumericInput
-              value={reward}
-              onSave={async (val) => setReward(val)}
-              min={0}
-              ariaLabel="Sand dollars reward"
-            />
-          </div>
+          {canEditAmounts ? (
+            <>
+              <div>
+                <label htmlFor="add-quest-reward-display" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                  {toTitleCase(currencyName)}
+                </label>
+                <UnifiedNumericInput
+                  value={reward}
+                  onSave={handleRewardChange}
+                  min={0}
+                  ariaLabel={`${toTitleCase(currencyName)} reward`}
+                />
+              </div>
 
-          <div>
-            <label htmlFor="add-quest-dollar-amount-display" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              💵 Dollars <span className="text-xs text-gray-500">(Optional)</span>
-            </label>
-            <UnifiedNumericInput
-              value={dollarAmount}
-              onSave={async (val) => setDollarAmount(val)}
-              min={0}
-              ariaLabel="Dollar amount"
-            />
-          </div>
+              <div>
+                <label htmlFor="add-quest-dollar-amount-display" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                  💵 {money.currency} <span className="text-xs text-gray-500">(Optional)</span>
+                </label>
+                <UnifiedNumericInput
+                  value={dollarAmount}
+                  onSave={handleDollarAmountChange}
+                  min={0}
+                  ariaLabel="Dollar amount"
+                  currency={money.currency}
+                />
+                {exchangeRate && <p className="text-xs text-gray-500 mt-1">{exchangeRate}</p>}
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Only household owners can set rewards; an owner can add one later
+            </p>
+          )}
 
-          {/* Tag Selection */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              Category (optional)
-            </label>
-            <div className="flex flex-wrap gap-2">
-              {TAGS.map((tagOption) => {
-                const isActive = tags.includes(tagOption);
-                const classes = TAG_BUTTON_CLASSES[tagOption];
-                return (
-                  <button
-                    key={tagOption}
-                    type="button"
-                    onClick={() => toggleTag(tagOption)}
-                    className={`px-4 py-2 rounded-lg border-2 font-medium transition-all touch-manipulation ${
-                      isActive ? classes.active : classes.base
-                    }`}
-                  >
-                    {TAG_LABELS[tagOption]}
-                  </button>
-                );
-              })}
-            </div>
-          </div>
+          <CadencePicker
+            cadence={cadence}
+            gracePeriods={gracePeriods}
+            onCadenceChange={setCadence}
+            onGracePeriodsChange={setGracePeriods}
+          />
+
+          <UnitPicker
+            unit={unit}
+            rewardPerUnit={rewardPerUnit}
+            onUnitChange={setUnit}
+            onRewardPerUnitChange={setRewardPerUnit}
+            canEditAmounts={canEditAmounts}
+            currencyName={currencyName}
+          />
+
+          <SchedulePicker schedule={schedule} onChange={setSchedule} />
+
+          <PhotoPicker currentUrl={null} selection={photo} onChange={setPhoto} />
+
+          <TagPicker tagSet={tagSet} selected={tags} onChange={setTags} />
 
           <div className="flex gap-2 pt-4">
             <Button
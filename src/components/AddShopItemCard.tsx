@@ -7,38 +7,61 @@
 import { useState } from "react";
 import { Button, InputField, Modal } from "@ffx/sdk";
 import type { ShopTag } from "../types";
-import {
-  SHOP_TAGS,
-  SHOP_TAG_LABELS,
-  SHOP_TAG_BUTTON_CLASSES,
-} from "../utils/shopTags";
+import { TagPicker } from "./TagPicker";
+import type { TagSet } from "../utils/tags";
 import { UnifiedNumericInput } from "./UnifiedNumericInput";
+import { PhotoPicker } from "./PhotoPicker";
+import { resolvePhotoSelection } from "../lib/photos";
+import type { PhotoSelection } from "../lib/photos";
+import { CURRENCY_NAME } from "../constants";
+import { toTitleCase } from "../utils/preferences";
+import { DEFAULT_MONEY, coinsForMoney, describeExchangeRate, moneyForCoins } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
 
 interface AddShopItemCardProps {
+  tagSet: TagSet;
   onCreate: (item: {
     name: string;
     tags: ShopTag[];
     price: number;
     dollar_amount?: number;
+    photo_url: string | null;
   }) => Promise<void>;
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
+  canEditAmounts?: boolean; // household members can only add items without prices
 }
 
-export function AddShopItemCard({ onCreate }: AddShopItemCardProps) {
+export function AddShopItemCard({
+  tagSet,
+  onCreate,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
+  canEditAmounts = true,
+}: AddShopItemCardProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [name, setName] = useState("");
   const [price, setPrice] = useState(20);
   const [dollarAmount, setDollarAmount] = useState(0);
   const [tags, setTags] = useState<ShopTag[]>([]);
+  const [photo, setPhoto] = useState<PhotoSelection>({ kind: "keep" });
   const [isCreating, setIsCreating] = useState(false);
 
-  const toggleTag = (tagOption: ShopTag) => {
-    setTags((prev) =>
-      prev.includes(tagOption)
-        ? prev.filter((t) => t !== tagOption)
-        : [...prev, tagOption]
-    );
+  // With an exchange rate, either amount fills in the other
+  const handlePriceChange = async (val: number) => {
+    setPrice(val);
+    const derived = moneyForCoins(val, money);
+    if (derived !== null) setDollarAmount(derived);
   };
 
+  const handleDollarAmountChange = async (val: number) => {
+    setDollarAmount(val);
+    const derived = coinsForMoney(val, money);
+    if (derived !== null) setPrice(derived);
+  };
+
+  const exchangeRate = describeExchangeRate(money, currencyName);
+
   const handleCreate = async () => {
     if (!name.trim()) {
       alert("Please enter an item name");
@@ -50,14 +73,16 @@ export function AddShopItemCard({ onCreate }: AddShopItemCardProps) {
       await onCreate({
         name: name.trim(),
         tags,
-        price,
-        dollar_amount: dollarAmount,
+        price: canEditAmounts ? price : 0,
+        dollar_amount: canEditAmounts ? dollarAmount : 0,
+        photo_url: await resolvePhotoSelection(photo, null, "shop_items"),
       });
       // Reset form
       setName("");
       setPrice(20);
       setDollarAmount(0);
       setTags([]);
+      setPhoto({ kind: "keep" });
       setIsOpen(false);
     } catch (err: any) {
       console.error("Error creating shop item:", err);
@@ -95,54 +120,43 @@ export function AddShopItemCard({ onCreate }: AddShopItemCardProps) {
             placeholder="e.g., Coffee Treat"
           />
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              Sand Dollars
-            </label>
-            <UnifiedNumericInput
-              value={price}
-              onSave={async (val) => setPrice(val)}
-              min={0}
-              ariaLabel="Shop item price in sand dollars"
-            />
-          </div>
+          {canEditAmounts ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                  {toTitleCase(currencyName)}
+                </label>
+                <UnifiedNumericInput
+                  value={price}
+                  onSave={handlePriceChange}
+                  min={0}
+                  ariaLabel={`Shop item price in ${currencyName}`}
+                />
+              </div>
 
-          <div>
-            <label htmlFor="add-shop-item-dollar-amount-display" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              💵 Dollars <span className="text-xs text-gray-500">(Optional)</span>
-            </label>
-            <UnifiedNumericInput
-              value={dollarAmount}
-              onSave={async (val) => setDollarAmount(val)}
-              min={0}
-              ariaLabel="Dollar amount"
-            />
-          </div>
+              <div>
+                <label htmlFor="add-shop-item-dollar-amount-display" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                  💵 {money.currency} <span className="text-xs text-gray-500">(Optional)</span>
+                </label>
+                <UnifiedNumericInput
+                  value={dollarAmount}
+                  onSave={handleDollarAmountChange}
+                  min={0}
+                  ariaLabel="Dollar amount"
+                  currency={money.currency}
+                />
+                {exchangeRate && <p className="text-xs text-gray-500 mt-1">{exchangeRate}</p>}
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Only household owners can set prices; an owner can add one later
+            </p>
+          )}
 
-          {/* Tag Selection */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              Category (optional)
-            </label>
-            <div className="flex flex-wrap gap-2">
-              {SHOP_TAGS.map((tagOption) => {
-                const isActive = tags.includes(tagOption);
-                const classes = SHOP_TAG_BUTTON_CLASSES[tagOption];
-                return (
-                  <button
-                    key={tagOption}
-                    type="button"
-                    onClick={() => toggleTag(tagOption)}
-                    className={`px-4 py-2 rounded-lg border-2 font-medium transition-all touch-manipulation ${
-                      isActive ? classes.active : classes.base
-                    }`}
-                  >
-                    {SHOP_TAG_LABELS[tagOption]}
-                  </button>
-                );
-              })}
-            </div>
-          </div>
+          <PhotoPicker currentUrl={null} selection={photo} onChange={setPhoto} />
+
+          <TagPicker tagSet={tagSet} selected={tags} onChange={setTags} />
 
           <div className="flex gap-2 pt-4">
             <Button
@@ -0,0 +1,284 @@
+/**
+ * Get Kraken - Analytics Panel Component
+ *
+ * History dashboard: earned/spent/net over time, savings rate, top quests and
+ * a completion heatmap, for sea dollars or real dollars
+ */
+
+import { useMemo, useState } from "react";
+import type { OlderLogHistory, Quest, QuestLog, ShopLog } from "../types";
+import { BarChart, CalendarHeatmap, LineChart } from "./Charts";
+import type { CalendarSettings } from "../utils/dates";
+import {
+  bucketActivity,
+  calculateSavingsRates,
+  formatPeriodLabel,
+  getDailyActivity,
+  getTopQuests,
+} from "../utils/analytics";
+import type { Currency, Granularity, TopQuest, TopQuestMetric } from "../utils/analytics";
+import { DEFAULT_MONEY, formatMoney } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
+
+interface AnalyticsPanelProps {
+  questLogs: QuestLog[];
+  shopLogs: ShopLog[];
+  olderHistory?: OlderLogHistory; // day totals from before the loaded logs
+  quests: Quest[];
+  questNames: Map<string, string>;
+  showDollarAmounts?: boolean;
+  calendar: CalendarSettings;
+  money?: MoneySettings; // household currency, for real-money totals
+}
+
+const GRANULARITIES: { value: Granularity; label: string; periods: number }[] = [
+  { value: "day", label: "Daily", periods: 14 },
+  { value: "week", label: "Weekly", periods: 12 },
+  { value: "month", label: "Monthly", periods: 12 },
+];
+
+const HEATMAP_DAYS = 26 * 7;
+
+const NO_OLDER_HISTORY: OlderLogHistory = { questDays: [], shopDays: [] };
+
+const SELECT_CLASS =
+  "border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm";
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function AnalyticsPanel({
+  questLogs,
+  shopLogs,
+  olderHistory = NO_OLDER_HISTORY,
+  quests,
+  questNames,
+  showDollarAmounts = false,
+  calendar,
+  money = DEFAULT_MONEY,
+}: AnalyticsPanelProps) {
+  const [granularity, setGranularity] = useState<Granularity>("week");
+  const [selectedCurrency, setCurrency] = useState<Currency>("sea");
+  const [topMetric, setTopMetric] = useState<"count" | "earnings">("count");
+  const [heatmapQuestId, setHeatmapQuestId] = useState("");
+
+  // Real dollars only when the household has them turned on
+  const currency: Currency = showDollarAmounts ? selectedCurrency : "sea";
+  const periods = GRANULARITIES.find((option) => option.value === granularity)?.periods ?? 12;
+
+  const buckets = useMemo(
+    () =>
+      bucketActivity(
+        questLogs,
+        shopLogs,
+        granularity,
+        periods,
+        { now: new Date(), ...calendar },
+        olderHistory
+      ),
+    [questLogs, shopLogs, olderHistory, granularity, periods, calendar]
+  );
+
+  const labels = useMemo(
+    () => buckets.map((bucket) => formatPeriodLabel(bucket.startDay, granularity)),
+    [buckets, granularity]
+  );
+
+  const savingsRates = useMemo(() => calculateSavingsRates(buckets, currency), [buckets, currency]);
+
+  const totals = useMemo(
+    () =>
+      buckets.reduce(
+        (sum, bucket) => ({
+          earned: sum.earned + bucket[currency].earned,
+          spent: sum.spent + bucket[currency].spent,
+          net: sum.net + bucket[currency].net,
+        }),
+        { earned: 0, spent: 0, net: 0 }
+      ),
+    [buckets, currency]
+  );
+
+  const rankBy: TopQuestMetric =
+    topMetric === "earnings" && currency === "dollars" ? "dollars" : topMetric;
+  const topQuests = useMemo(
+    () => getTopQuests(questLogs, questNames, rankBy, undefined, olderHistory.questDays),
+    [questLogs, olderHistory, questNames, rankBy]
+  );
+
+  const heatmap = useMemo(
+    () =>
+      getDailyActivity(
+        questLogs,
+        heatmapQuestId || null,
+        HEATMAP_DAYS,
+        { now: new Date(), ...calendar },
+        olderHistory.questDays
+      ),
+    [questLogs, olderHistory, heatmapQuestId, calendar]
+  );
+
+  const heatmapQuests = useMemo(
+    () => [...quests].sort((a, b) => a.name.localeCompare(b.name)),
+    [quests]
+  );
+
+  const formatAmount = (value: number) =>
+    currency === "dollars"
+      ? formatMoney(value, money.currency)
+      : `${value < 0 ? "-" : ""}${Math.abs(Math.round(value))}`;
+  const topQuestValue = (quest: TopQuest) =>
+    rankBy === "count" ? quest.count : rankBy === "dollars" ? quest.earnedDollars : quest.earned;
+  const periodName = granularity === "day" ? "days" : granularity === "week" ? "weeks" : "months";
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg mt-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-gray-900 header-text-color">
+          📈 History
+        </h3>
+        <div className="flex gap-2">
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as Granularity)}
+            className={SELECT_CLASS}
+            aria-label="Group by"
+          >
+            {GRANULARITIES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {showDollarAmounts && (
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as Currency)}
+              className={SELECT_CLASS}
+              aria-label="Currency"
+            >
+              <option value="sea">Sea dollars</option>
+              <option value="dollars">{money.currency}</option>
+            </select>
+          )}
+        </div>
+      </div>
+
+      <section>
+        <div className="grid grid-cols-3 gap-4 text-center mb-3">
+          <div>
+            <div className="text-xl font-bold text-green-600 dark:text-green-400">
+              {formatAmount(totals.earned)}
+            </div>
+            <div className="text-xs text-gray-500 header-text-color">Earned</div>
+          </div>
+          <div>
+            <div className="text-xl font-bold text-red-600 dark:text-red-400">
+              {formatAmount(totals.spent)}
+            </div>
+            <div className="text-xs text-gray-500 header-text-color">Spent</div>
+          </div>
+          <div>
+            <div className="text-xl font-bold text-gray-900 header-text-color">
+              {formatAmount(totals.net)}
+            </div>
+            <div className="text-xs text-gray-500 header-text-color">Net</div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 header-text-color text-center mb-2">
+          Last {periods} {periodName}
+        </p>
+        <BarChart
+          points={buckets.map((bucket, index) => ({
+            label: labels[index],
+            positive: bucket[currency].earned,
+            negative: bucket[currency].spent,
+            net: bucket[currency].net,
+          }))}
+          formatValue={formatAmount}
+        />
+      </section>
+
+      <section>
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+          Savings rate
+        </h4>
+        <p className="text-xs text-gray-500 header-text-color mb-2">
+          Share of what you earned that you kept (gaps are periods with nothing earned)
+        </p>
+        <LineChart
+          labels={labels}
+          values={savingsRates}
+          formatValue={formatPercent}
+          ariaLabel="Savings rate per period"
+        />
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-200">Top quests</h4>
+          <select
+            value={topMetric}
+            onChange={(e) => setTopMetric(e.target.value as "count" | "earnings")}
+            className={SELECT_CLASS}
+            aria-label="Rank top quests by"
+          >
+            <option value="count">By completions</option>
+            <option value="earnings">By earnings</option>
+          </select>
+        </div>
+        {topQuests.length === 0 ? (
+          <p className="text-sm text-gray-500 header-text-color">No completions yet.</p>
+        ) : (
+          <ol className="space-y-2">
+            {topQuests.map((quest, index) => {
+              const value = topQuestValue(quest);
+              const best = topQuestValue(topQuests[0]);
+              return (
+                <li key={quest.questId}>
+                  <div className="flex justify-between text-sm text-gray-900 header-text-color">
+                    <span className="truncate">
+                      {index + 1}. {quest.name}
+                    </span>
+                    <span className="font-semibold flex-shrink-0 ml-2">
+                      {rankBy === "count" ? `${value}×` : formatAmount(value)}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden mt-1">
+                    <div
+                      className="h-full bg-amber-500 rounded-full"
+                      style={{ width: `${best > 0 ? (value / best) * 100 : 0}%` }}
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-200">Activity</h4>
+          <select
+            value={heatmapQuestId}
+            onChange={(e) => setHeatmapQuestId(e.target.value)}
+            className={`${SELECT_CLASS} max-w-[12rem]`}
+            aria-label="Quest"
+          >
+            <option value="">All quests</option>
+            {heatmapQuests.map((quest) => (
+              <option key={quest.id} value={quest.id}>
+                {quest.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <CalendarHeatmap
+          days={heatmap}
+          ariaLabel={`Completions per day over the last ${HEATMAP_DAYS / 7} weeks`}
+          weekStartsOn={calendar.weekStartsOn}
+        />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Get Kraken - Badge Shelf Component
+ *
+ * Shows every achievement: unlocked badges with their date, locked ones
+ * greyed out with progress towards them
+ */
+
+import type { AchievementStatus } from "../hooks/useAchievements";
+
+interface BadgeShelfProps {
+  achievements: AchievementStatus[];
+}
+
+const formatUnlockDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+export function BadgeShelf({ achievements }: BadgeShelfProps) {
+  const unlockedCount = achievements.filter((status) => status.unlocked_at).length;
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 header-text-color">🏅 Badges</h3>
+        <span className="text-sm text-gray-500 header-text-color">
+          {unlockedCount} of {achievements.length}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {achievements.map(({ achievement, current, target, unlocked_at }) => (
+          <div
+            key={achievement.id}
+            title={achievement.description}
+            className={`p-3 rounded-xl text-center ${
+              unlocked_at
+                ? "bg-amber-100 dark:bg-amber-900/40"
+                : "bg-gray-100 dark:bg-gray-700 opacity-60"
+            }`}
+          >
+            <div className={`text-3xl mb-1 ${unlocked_at ? "" : "grayscale"}`}>
+              {achievement.icon}
+            </div>
+            <div className="text-sm font-semibold text-gray-900 header-text-color">
+              {achievement.name}
+            </div>
+            <div className="text-xs text-gray-500 header-text-color">
+              {unlocked_at ? formatUnlockDate(unlocked_at) : achievement.description}
+            </div>
+            {!unlocked_at && target > 1 && (
+              <div className="mt-2">
+                <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
+                  <div
+                    className="h-full bg-amber-500"
+                    style={{ width: `${Math.round((current / target) * 100)}%` }}
+                  />
+                </div>
+                <div className="text-xs text-gray-500 header-text-color mt-1">
+                  {current} / {target}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
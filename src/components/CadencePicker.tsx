@@ -0,0 +1,140 @@
+/**
+ * Get Kraken - Cadence Picker Component
+ *
+ * Chooses how often a quest is expected (daily, weekly, N per week, or
+ * specific weekdays) and how many missed periods a streak can skip
+ */
+
+import type { QuestCadence } from "../types";
+import { DEFAULT_CADENCE, WEEKDAY_LABELS } from "../utils/streaks";
+
+interface CadencePickerProps {
+  cadence: QuestCadence | null | undefined;
+  gracePeriods: number;
+  onCadenceChange: (cadence: QuestCadence) => void;
+  onGracePeriodsChange: (gracePeriods: number) => void;
+}
+
+const CADENCE_OPTIONS: { type: QuestCadence["type"]; label: string }[] = [
+  { type: "daily", label: "Daily" },
+  { type: "weekly", label: "Weekly" },
+  { type: "times_per_week", label: "N× / week" },
+  { type: "weekdays", label: "Weekdays" },
+];
+
+const MAX_GRACE_PERIODS = 7;
+
+function defaultCadenceFor(type: QuestCadence["type"]): QuestCadence {
+  switch (type) {
+    case "daily":
+      return { type: "daily" };
+    case "weekly":
+      return { type: "weekly" };
+    case "times_per_week":
+      return { type: "times_per_week", times: 3 };
+    case "weekdays":
+      return { type: "weekdays", days: [1, 3, 5] };
+  }
+}
+
+export function CadencePicker({
+  cadence,
+  gracePeriods,
+  onCadenceChange,
+  onGracePeriodsChange,
+}: CadencePickerProps) {
+  const rule = cadence ?? DEFAULT_CADENCE;
+  const graceUnit = rule.type === "weekly" || rule.type === "times_per_week" ? "week" : "day";
+
+  const toggleDay = (day: number) => {
+    if (rule.type !== "weekdays") return;
+    const days = rule.days.includes(day)
+      ? rule.days.filter((d) => d !== day)
+      : [...rule.days, day].sort((a, b) => a - b);
+    // At least one scheduled day is required
+    if (days.length > 0) onCadenceChange({ type: "weekdays", days });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+        Cadence
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {CADENCE_OPTIONS.map((option) => (
+          <button
+            key={option.type}
+            type="button"
+            onClick={() =>
+              option.type !== rule.type && onCadenceChange(defaultCadenceFor(option.type))
+            }
+            className={`px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all touch-manipulation ${
+              option.type === rule.type
+                ? "border-amber-500 bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200"
+                : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {rule.type === "times_per_week" && (
+        <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input
+            type="number"
+            min={1}
+            max={7}
+            value={rule.times}
+            onChange={(e) => {
+              const times = Math.min(7, Math.max(1, parseInt(e.target.value) || 1));
+              onCadenceChange({ type: "times_per_week", times });
+            }}
+            className="w-16 text-center border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1"
+            aria-label="Times per week"
+          />
+          times per week
+        </div>
+      )}
+
+      {rule.type === "weekdays" && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`w-11 py-1 rounded-lg text-sm font-medium transition-all touch-manipulation ${
+                rule.days.includes(day)
+                  ? "bg-amber-500 text-white"
+                  : "bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+        <span>Streak freezes</span>
+        <input
+          type="number"
+          min={0}
+          max={MAX_GRACE_PERIODS}
+          value={gracePeriods}
+          onChange={(e) =>
+            onGracePeriodsChange(
+              Math.min(MAX_GRACE_PERIODS, Math.max(0, parseInt(e.target.value) || 0))
+            )
+          }
+          className="w-16 text-center border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1"
+          aria-label="Streak freezes"
+        />
+        <span className="text-xs text-gray-500">
+          missed {graceUnit}s allowed per streak
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Get Kraken - Calendar Settings Panel Component
+ *
+ * Chooses the time zone days are counted in and the weekday weeks start on,
+ * for recaps, streaks, charts and what's due today
+ */
+
+import { useMemo } from "react";
+import { WEEKDAY_LABELS } from "../utils/streaks";
+import { getLocalTimeZone, getSupportedTimeZones } from "../utils/dates";
+import type { CalendarSettings } from "../utils/dates";
+
+interface CalendarSettingsPanelProps {
+  timeZonePreference: string | null; // null follows the device
+  calendar: CalendarSettings;
+  onTimeZoneChange: (timeZone: string | null) => void;
+  onWeekStartsOnChange: (weekday: number) => void;
+}
+
+const SELECT_CLASS =
+  "border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm";
+
+// Empty option value for "follow the device"
+const DEVICE_ZONE = "";
+
+export function CalendarSettingsPanel({
+  timeZonePreference,
+  calendar,
+  onTimeZoneChange,
+  onWeekStartsOnChange,
+}: CalendarSettingsPanelProps) {
+  const zones = useMemo(() => getSupportedTimeZones(), []);
+  const deviceZone = getLocalTimeZone();
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 header-text-color">
+        🗓️ Calendar
+      </h3>
+
+      <label className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-200">
+        Time zone
+        <select
+          value={timeZonePreference ?? DEVICE_ZONE}
+          onChange={(e) => onTimeZoneChange(e.target.value || null)}
+          className={`${SELECT_CLASS} max-w-[16rem]`}
+        >
+          <option value={DEVICE_ZONE}>This device ({deviceZone})</option>
+          {zones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-200">
+        Weeks start on
+        <select
+          value={calendar.weekStartsOn}
+          onChange={(e) => onWeekStartsOnChange(parseInt(e.target.value))}
+          className={SELECT_CLASS}
+        >
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <option key={label} value={weekday}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <p className="text-xs text-gray-500 header-text-color">
+        Days are counted in {calendar.timeZone.replace(/_/g, " ")}, so a late-night
+        completion while traveling still lands on the right day.
+      </p>
+    </div>
+  );
+}
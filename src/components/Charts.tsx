@@ -0,0 +1,261 @@
+/**
+ * Get Kraken - Chart Components
+ *
+ * Small dependency-free SVG charts for the analytics dashboard. Each scales to
+ * its container's width; colors come from Tailwind classes so dark mode works.
+ */
+
+import { WEEKDAY_LABELS } from "../utils/streaks";
+import { fromDayNumber, getWeekday } from "../utils/dates";
+
+const AXIS_TEXT = "fill-gray-500 dark:fill-gray-400";
+const GRID_LINE = "stroke-gray-200 dark:stroke-gray-700";
+
+export interface BarChartPoint {
+  label: string;
+  positive: number; // drawn above the axis (earned)
+  negative: number; // drawn below the axis (spent)
+  net: number;
+}
+
+interface BarChartProps {
+  points: BarChartPoint[];
+  formatValue?: (value: number) => string;
+  positiveLabel?: string;
+  negativeLabel?: string;
+}
+
+/**
+ * Diverging bars (earned up, spent down) with a marker for each period's net
+ */
+export function BarChart({
+  points,
+  formatValue = (value) => String(Math.round(value)),
+  positiveLabel = "Earned",
+  negativeLabel = "Spent",
+}: BarChartProps) {
+  const width = 320;
+  const height = 160;
+  const top = 12;
+  const bottom = 20;
+  const left = 4;
+  const right = 4;
+
+  const maxUp = Math.max(1, ...points.map((point) => point.positive));
+  const maxDown = Math.max(0, ...points.map((point) => point.negative));
+  const plotHeight = height - top - bottom;
+  const scale = plotHeight / (maxUp + maxDown);
+  const zeroY = top + maxUp * scale;
+
+  const slot = (width - left - right) / Math.max(points.length, 1);
+  const barWidth = Math.max(2, slot * 0.6);
+  // Only label every few bars when there are many
+  const labelEvery = Math.ceil(points.length / 6);
+
+  return (
+    <figure>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={`${positiveLabel} and ${negativeLabel.toLowerCase()} per period`}>
+        <line x1={left} x2={width - right} y1={zeroY} y2={zeroY} className={GRID_LINE} strokeWidth={1} />
+        {points.map((point, index) => {
+          const x = left + index * slot + (slot - barWidth) / 2;
+          const netY = zeroY - point.net * scale;
+          return (
+            <g key={index}>
+              <title>
+                {`${point.label}: ${positiveLabel.toLowerCase()} ${formatValue(point.positive)}, ${negativeLabel.toLowerCase()} ${formatValue(point.negative)}, net ${formatValue(point.net)}`}
+              </title>
+              <rect
+                x={x}
+                y={zeroY - point.positive * scale}
+                width={barWidth}
+                height={point.positive * scale}
+                rx={1.5}
+                className="fill-green-500 dark:fill-green-400"
+              />
+              <rect
+                x={x}
+                y={zeroY}
+                width={barWidth}
+                height={point.negative * scale}
+                rx={1.5}
+                className="fill-red-400 dark:fill-red-500"
+              />
+              {(point.positive > 0 || point.negative > 0) && (
+                <line
+                  x1={x - 1}
+                  x2={x + barWidth + 1}
+                  y1={netY}
+                  y2={netY}
+                  strokeWidth={2}
+                  className="stroke-gray-900 dark:stroke-gray-100"
+                />
+              )}
+              {index % labelEvery === 0 && (
+                <text x={x + barWidth / 2} y={height - 6} textAnchor="middle" fontSize={8} className={AXIS_TEXT}>
+                  {point.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <figcaption className="flex justify-center gap-4 mt-1 text-xs text-gray-500 header-text-color">
+        <span><span className="inline-block w-2 h-2 rounded-sm bg-green-500 mr-1" />{positiveLabel}</span>
+        <span><span className="inline-block w-2 h-2 rounded-sm bg-red-400 mr-1" />{negativeLabel}</span>
+        <span><span className="inline-block w-3 h-0.5 align-middle bg-gray-900 dark:bg-gray-100 mr-1" />Net</span>
+      </figcaption>
+    </figure>
+  );
+}
+
+interface LineChartProps {
+  labels: string[];
+  values: (number | null)[]; // null leaves a gap
+  formatValue?: (value: number) => string;
+  ariaLabel: string;
+}
+
+/**
+ * Line over time with a dashed zero axis; null values break the line
+ */
+export function LineChart({
+  labels,
+  values,
+  formatValue = (value) => String(Math.round(value)),
+  ariaLabel,
+}: LineChartProps) {
+  const width = 320;
+  const height = 140;
+  const top = 14;
+  const bottom = 20;
+  const side = 10;
+
+  const known = values.filter((value): value is number => value !== null);
+  const max = Math.max(0, ...known);
+  const min = Math.min(0, ...known);
+  const range = max - min || 1;
+  const plotHeight = height - top - bottom;
+  const xAt = (index: number) =>
+    side + (values.length > 1 ? (index * (width - side * 2)) / (values.length - 1) : (width - side * 2) / 2);
+  const yAt = (value: number) => top + ((max - value) / range) * plotHeight;
+
+  // Consecutive non-null runs become separate polylines
+  const segments: { index: number; value: number }[][] = [];
+  values.forEach((value, index) => {
+    if (value === null) {
+      segments.push([]);
+      return;
+    }
+    if (segments.length === 0) segments.push([]);
+    segments[segments.length - 1].push({ index, value });
+  });
+
+  const labelEvery = Math.ceil(labels.length / 6);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={ariaLabel}>
+      <line x1={side} x2={width - side} y1={yAt(0)} y2={yAt(0)} strokeDasharray="3 3" strokeWidth={1} className={GRID_LINE} />
+      <text x={side} y={top - 4} fontSize={8} className={AXIS_TEXT}>
+        {formatValue(max)}
+      </text>
+      {min < 0 && (
+        <text x={side} y={height - bottom + 10} fontSize={8} className={AXIS_TEXT}>
+          {formatValue(min)}
+        </text>
+      )}
+      {segments
+        .filter((segment) => segment.length > 1)
+        .map((segment) => (
+          <polyline
+            key={segment[0].index}
+            points={segment.map(({ index, value }) => `${xAt(index)},${yAt(value)}`).join(" ")}
+            fill="none"
+            strokeWidth={2}
+            strokeLinejoin="round"
+            className="stroke-blue-500 dark:stroke-blue-400"
+          />
+        ))}
+      {values.map((value, index) =>
+        value === null ? null : (
+          <circle key={index} cx={xAt(index)} cy={yAt(value)} r={2.5} className="fill-blue-500 dark:fill-blue-400">
+            <title>{`${labels[index]}: ${formatValue(value)}`}</title>
+          </circle>
+        )
+      )}
+      {labels.map((label, index) =>
+        index % labelEvery === 0 ? (
+          <text key={index} x={xAt(index)} y={height - 6} textAnchor="middle" fontSize={8} className={AXIS_TEXT}>
+            {label}
+          </text>
+        ) : null
+      )}
+    </svg>
+  );
+}
+
+interface CalendarHeatmapProps {
+  days: { day: number; count: number }[]; // consecutive day numbers, oldest first
+  ariaLabel: string;
+  weekStartsOn?: number; // weekday of the top row (0 = Sunday)
+}
+
+// Darker with more completions; the last step covers 4+
+const HEAT_LEVELS = [
+  "fill-gray-200 dark:fill-gray-700",
+  "fill-emerald-200 dark:fill-emerald-900",
+  "fill-emerald-400 dark:fill-emerald-700",
+  "fill-emerald-500 dark:fill-emerald-500",
+  "fill-emerald-700 dark:fill-emerald-300",
+];
+
+/**
+ * GitHub-style grid: one column per week, one row per weekday
+ */
+export function CalendarHeatmap({ days, ariaLabel, weekStartsOn = 0 }: CalendarHeatmapProps) {
+  const cell = 10;
+  const gap = 2;
+  const left = 22;
+  const top = 12;
+
+  const toRow = (day: number) => (getWeekday(day) - weekStartsOn + 7) % 7;
+  const firstRow = days.length > 0 ? toRow(days[0].day) : 0;
+  const columns = Math.ceil((firstRow + days.length) / 7);
+  const width = left + columns * (cell + gap);
+  const height = top + 7 * (cell + gap);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={ariaLabel}>
+      {[1, 3, 5].map((row) => (
+        <text key={row} x={0} y={top + row * (cell + gap) + cell - 2} fontSize={7} className={AXIS_TEXT}>
+          {WEEKDAY_LABELS[(row + weekStartsOn) % 7]}
+        </text>
+      ))}
+      {days.map(({ day, count }, index) => {
+        const slot = firstRow + index;
+        const column = Math.floor(slot / 7);
+        const date = fromDayNumber(day);
+        return (
+          <g key={day}>
+            {date.getUTCDate() <= 7 && toRow(day) === 0 && (
+              <text x={left + column * (cell + gap)} y={top - 3} fontSize={7} className={AXIS_TEXT}>
+                {date.toLocaleDateString("en-US", { month: "short", timeZone: "UTC" })}
+              </text>
+            )}
+            <rect
+              x={left + column * (cell + gap)}
+              y={top + (slot % 7) * (cell + gap)}
+              width={cell}
+              height={cell}
+              rx={2}
+              className={HEAT_LEVELS[Math.min(count, HEAT_LEVELS.length - 1)]}
+            >
+              <title>
+                {`${date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" })}: ${count} completion${count === 1 ? "" : "s"}`}
+              </title>
+            </rect>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * Get Kraken - Check-in Form Component
+ *
+ * Quantity, mood and note for a quest completion - filled in when completing
+ * a quest measured in a unit, and when editing a logged completion
+ */
+
+import { useState } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import type { QuestCheckIn } from "../types";
+import { MAX_QUANTITY, MOODS, getQuantityReward, parseQuantity } from "../utils/checkIns";
+import { CURRENCY_NAME } from "../constants";
+
+interface CheckInFormProps {
+  unit: string | null | undefined; // null hides the quantity field
+  rewardPerUnit?: number | null;
+  initial?: QuestCheckIn;
+  requireQuantity?: boolean;
+  submitLabel: string;
+  onSubmit: (checkIn: QuestCheckIn) => Promise<void>;
+  onCancel?: () => void;
+  currencyName?: string; // the user's name for sand dollars
+}
+
+export function CheckInForm({
+  unit,
+  rewardPerUnit,
+  initial = {},
+  requireQuantity = false,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  currencyName = CURRENCY_NAME,
+}: CheckInFormProps) {
+  const [quantity, setQuantity] = useState(initial.quantity ? String(initial.quantity) : "");
+  const [mood, setMood] = useState<number | null>(initial.mood ?? null);
+  const [note, setNote] = useState(initial.note ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parsedQuantity = unit ? parseQuantity(quantity) : null;
+  const quantityReward = getQuantityReward(rewardPerUnit, parsedQuantity);
+  const isTooLarge = !!unit && parseFloat(quantity) > MAX_QUANTITY;
+  const canSubmit = !isTooLarge && (!requireQuantity || !unit || parsedQuantity !== null);
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSaving(true);
+    try {
+      await onSubmit({ quantity: parsedQuantity, mood, note: note.trim() || null });
+    } catch {
+      // Reported by the caller; keep the form so it can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      {unit && (
+        <div>
+          <InputField
+            label={`How many ${unit}?`}
+            type="number"
+            min={0}
+            max={MAX_QUANTITY}
+            step="any"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+          />
+          {isTooLarge && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+              Up to {MAX_QUANTITY} {unit} per completion
+            </p>
+          )}
+          {quantityReward > 0 && (
+            <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+              +{quantityReward} {currencyName} for {parsedQuantity} {unit}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+          How did it go? <span className="text-xs text-gray-500">(Optional)</span>
+        </span>
+        <div className="flex gap-2">
+          {MOODS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setMood(mood === option.value ? null : option.value)}
+              title={option.label}
+              aria-label={option.label}
+              aria-pressed={mood === option.value}
+              className={`w-10 h-10 rounded-full text-xl transition-all touch-manipulation ${
+                mood === option.value
+                  ? "bg-amber-200 dark:bg-amber-700 scale-110"
+                  : "bg-gray-100 dark:bg-gray-700 opacity-60 hover:opacity-100"
+              }`}
+            >
+              {option.emoji}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label
+          htmlFor="check-in-note"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2"
+        >
+          Notes <span className="text-xs text-gray-500">(Optional)</span>
+        </label>
+        <textarea
+          id="check-in-note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={3}
+          placeholder="e.g., New personal best on the hill"
+          className="w-full border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button variant="ghost" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+        )}
+        <Button
+          variant="primary"
+          onClick={handleSubmit}
+          loading={isSaving}
+          disabled={!canSubmit}
+          className="flex-1"
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
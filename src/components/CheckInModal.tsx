@@ -0,0 +1,42 @@
+/**
+ * Get Kraken - Check-in Modal Component
+ *
+ * Asks how much was done (and optionally how it went) before completing a
+ * quest that is measured in a unit
+ */
+
+import { Modal } from "@ffx/sdk";
+import type { Quest, QuestCheckIn } from "../types";
+import { CheckInForm } from "./CheckInForm";
+import { CURRENCY_NAME } from "../constants";
+
+interface CheckInModalProps {
+  quest: Quest | null;
+  onComplete: (quest: Quest, checkIn: QuestCheckIn) => Promise<void>;
+  onClose: () => void;
+  currencyName?: string; // the user's name for sand dollars
+}
+
+export function CheckInModal({
+  quest,
+  onComplete,
+  onClose,
+  currencyName = CURRENCY_NAME,
+}: CheckInModalProps) {
+  if (!quest) return null;
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title={quest.name} size="md">
+      <CheckInForm
+        key={quest.id}
+        currencyName={currencyName}
+        unit={quest.unit}
+        rewardPerUnit={quest.reward_per_unit}
+        requireQuantity
+        submitLabel="Complete quest"
+        onSubmit={(checkIn) => onComplete(quest, checkIn)}
+        onCancel={onClose}
+      />
+    </Modal>
+  );
+}
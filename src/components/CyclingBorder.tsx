@@ -4,29 +4,24 @@
 
 import { useEffect, useState } from "react";
 import type { Tag } from "../types";
-import { TAG_BORDER_CLASSES } from "../utils/tags";
-import type { ShopTag } from "../types";
-import { SHOP_TAG_BORDER_CLASSES } from "../utils/shopTags";
+import type { TagSet } from "../utils/tags";
 import { TAG_CYCLE_INTERVAL_MS } from "../constants";
 
 interface CyclingBorderProps {
   tags: Tag[];
-  children: React.ReactNode;
-  className?: string;
-}
-
-interface CyclingShopBorderProps {
-  tags: ShopTag[];
+  tagSet: TagSet; // quest or shop tags; keys missing from it are skipped
   children: React.ReactNode;
   className?: string;
 }
 
 export function CyclingBorder({
-  tags,
+  tags: itemTags,
+  tagSet,
   children,
   className = "",
 }: CyclingBorderProps) {
   const [currentTagIndex, setCurrentTagIndex] = useState(0);
+  const tags = itemTags.filter((tag) => tagSet.has(tag));
 
   useEffect(() => {
     if (tags.length <= 1) return;
@@ -47,54 +42,7 @@ export function CyclingBorder({
   }
 
   if (tags.length === 1) {
-    const borderClass = TAG_BORDER_CLASSES[tags[0]];
-    return (
-      <div className={`border-2 rounded-2xl ${borderClass} ${className}`}>
-        {children}
-      </div>
-    );
-  }
-
-  // Multiple tags - cycle through them
-  const currentTag = tags[currentTagIndex];
-  const borderClass = TAG_BORDER_CLASSES[currentTag];
-
-  return (
-    <div
-      className={`border-2 rounded-2xl transition-all duration-300 ${borderClass} ${className}`}
-    >
-      {children}
-    </div>
-  );
-}
-
-export function CyclingShopBorder({
-  tags,
-  children,
-  className = "",
-}: CyclingShopBorderProps) {
-  const [currentTagIndex, setCurrentTagIndex] = useState(0);
-
-  useEffect(() => {
-    if (tags.length <= 1) return;
-
-    const interval = setInterval(() => {
-      setCurrentTagIndex((prev) => (prev + 1) % tags.length);
-    }, TAG_CYCLE_INTERVAL_MS);
-
-    return () => clearInterval(interval);
-  }, [tags.length]);
-
-  if (tags.length === 0) {
-    return (
-      <div className={`border-2 border-transparent rounded-2xl ${className}`}>
-        {children}
-      </div>
-    );
-  }
-
-  if (tags.length === 1) {
-    const borderClass = SHOP_TAG_BORDER_CLASSES[tags[0]];
+    const borderClass = tagSet.getClasses(tags[0]).border;
     return (
       <div className={`border-2 rounded-2xl ${borderClass} ${className}`}>
         {children}
@@ -102,9 +50,9 @@ export function CyclingShopBorder({
     );
   }
 
-  // Multiple tags - cycle through them
-  const currentTag = tags[currentTagIndex];
-  const borderClass = SHOP_TAG_BORDER_CLASSES[currentTag];
+  // Multiple tags - cycle through them (the index can outlive a removed tag)
+  const currentTag = tags[currentTagIndex % tags.length];
+  const borderClass = tagSet.getClasses(currentTag).border;
 
   return (
     <div
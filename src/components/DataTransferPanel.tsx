@@ -0,0 +1,163 @@
+/**
+ * Get Kraken - Data Transfer Panel Component
+ *
+ * Downloads the household's data as a JSON bundle or CSV files, and restores
+ * a JSON bundle after showing what it will change
+ */
+
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { Button } from "@ffx/sdk";
+import { buildCsvFiles, validateExportBundle } from "../utils/dataTransfer";
+import type { ExportBundle, ImportPlan } from "../utils/dataTransfer";
+import { downloadFile } from "../utils/download";
+
+interface DataTransferPanelProps {
+  canImport: boolean; // imports set rewards and prices, which only owners can edit
+  exporting: boolean;
+  importing: boolean;
+  onExport: () => Promise<ExportBundle | null>; // null when the export failed
+  onPreviewImport: (bundle: ExportBundle) => Promise<ImportPlan>;
+  onImport: (plan: ImportPlan) => Promise<void>;
+}
+
+const fileDate = () => new Date().toISOString().slice(0, 10);
+
+export function DataTransferPanel({
+  canImport,
+  exporting,
+  importing,
+  onExport,
+  onPreviewImport,
+  onImport,
+}: DataTransferPanelProps) {
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const handleExportJson = async () => {
+    const bundle = await onExport();
+    if (!bundle) return;
+    downloadFile(
+      `get-kraken-export-${fileDate()}.json`,
+      JSON.stringify(bundle, null, 2),
+      "application/json"
+    );
+  };
+
+  const handleExportCsv = async () => {
+    const bundle = await onExport();
+    if (!bundle) return;
+    buildCsvFiles(bundle).forEach((file) => {
+      downloadFile(`get-kraken-${fileDate()}-${file.name}`, file.content, "text/csv");
+    });
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // allow picking the same file again
+    if (!file) return;
+
+    setPlan(null);
+    setImportErrors([]);
+    setChecking(true);
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        setImportErrors(["This file isn't valid JSON"]);
+        return;
+      }
+
+      const { bundle, errors } = validateExportBundle(parsed);
+      if (!bundle) {
+        setImportErrors(errors);
+        return;
+      }
+      setPlan(await onPreviewImport(bundle));
+    } catch (err: unknown) {
+      setImportErrors([err instanceof Error ? err.message : "Failed to check import"]);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!plan) return;
+    await onImport(plan);
+    setPlan(null);
+  };
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 header-text-color">
+        📦 Your Data
+      </h3>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Download quests, shop items, goals, your wallet and full history.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="primary" size="sm" onClick={handleExportJson} loading={exporting}>
+            Export JSON
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleExportCsv} disabled={exporting}>
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {canImport && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Restore a JSON export into this account.
+          </p>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            disabled={checking || importing}
+            className="text-sm text-gray-700 dark:text-gray-300"
+          />
+
+          {importErrors.length > 0 && (
+            <ul className="p-3 rounded-lg bg-red-100 dark:bg-red-900/40 text-sm text-red-800 dark:text-red-200 list-disc list-inside">
+              {importErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+
+          {plan && (
+            <div className="p-3 rounded-lg bg-amber-100 dark:bg-amber-900/40 space-y-2 text-sm text-gray-900 header-text-color">
+              <p>
+                Imports {plan.newTags.length} new tag(s), {plan.newQuests.length} new quest(s),{" "}
+                {plan.newShopItems.length} new shop item(s),{" "}
+                {plan.questOverrides.length + plan.shopItemOverrides.length} customization(s),{" "}
+                {plan.goals.length} goal(s), {plan.questLogs.length} completion(s) and{" "}
+                {plan.shopLogs.length} purchase(s).
+              </p>
+              {plan.conflicts.length > 0 && (
+                <ul className="list-disc list-inside space-y-1">
+                  {plan.conflicts.map((conflict) => (
+                    <li key={conflict}>{conflict}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <Button variant="primary" size="sm" onClick={handleConfirmImport} loading={importing}>
+                  Import
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => setPlan(null)} disabled={importing}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
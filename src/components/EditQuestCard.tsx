@@ -6,30 +6,55 @@
 
 import { useState, useEffect } from "react";
 import { Button, InputField, Modal } from "@ffx/sdk";
-import type { Quest, Tag } from "../types";
-import { TAGS, TAG_LABELS, TAG_BUTTON_CLASSES } from "../utils/tags";
+import type { Quest, QuestCadence, QuestSchedule, Tag } from "../types";
+import { TagPicker } from "./TagPicker";
+import type { TagSet } from "../utils/tags";
 import { UnifiedNumericInput } from "./UnifiedNumericInput";
+import { PhotoPicker } from "./PhotoPicker";
+import { resolvePhotoSelection } from "../lib/photos";
+import type { PhotoSelection } from "../lib/photos";
+import { CadencePicker } from "./CadencePicker";
+import { SchedulePicker } from "./SchedulePicker";
+import { UnitPicker } from "./UnitPicker";
+import { CURRENCY_NAME } from "../constants";
+import { toTitleCase } from "../utils/preferences";
+import { DEFAULT_MONEY, coinsForMoney, describeExchangeRate, formatMoney, moneyForCoins } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
 
 interface EditQuestCardProps {
+  tagSet: TagSet;
   quest: Quest;
   userCompletionCount?: number;
   onSave: (updates: {
     name: string;
     tags: Tag[];
-    reward: number;
+    reward?: number; // omitted when amounts are read-only
     dollar_amount?: number;
+    cadence: QuestCadence;
+    grace_periods: number;
+    schedule: QuestSchedule | null;
+    unit: string | null;
+    reward_per_unit?: number | null; // omitted when amounts are read-only
     completion_count: number;
+    photo_url?: string | null; // only sent when the photo changed
   }) => Promise<void>;
   onDelete: () => Promise<void>;
   onClose: () => void;
+  canEditAmounts?: boolean; // household members can't change rewards/prices
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
 }
 
 export function EditQuestCard({
   quest,
+  tagSet,
   userCompletionCount,
   onSave,
   onDelete,
   onClose,
+  canEditAmounts = true,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
 }: EditQuestCardProps) {
   const [name, setName] = useState(quest.name);
   const [reward, setReward] = useState(quest.reward);
@@ -38,10 +63,31 @@ export function EditQuestCard({
     userCompletionCount !== undefined ? userCompletionCount : quest.completion_count
   );
   const [tags, setTags] = useState<Tag[]>(quest.tags || []);
+  const [cadence, setCadence] = useState<QuestCadence>(quest.cadence ?? { type: "daily" });
+  const [gracePeriods, setGracePeriods] = useState(quest.grace_periods ?? 0);
+  const [schedule, setSchedule] = useState<QuestSchedule | null>(quest.schedule ?? null);
+  const [unit, setUnit] = useState(quest.unit ?? "");
+  const [rewardPerUnit, setRewardPerUnit] = useState(quest.reward_per_unit ?? 0);
+  const [photo, setPhoto] = useState<PhotoSelection>({ kind: "keep" });
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
+  // With an exchange rate, either amount fills in the other
+  const handleRewardChange = async (val: number) => {
+    setReward(val);
+    const derived = moneyForCoins(val, money);
+    if (derived !== null) setDollarAmount(derived);
+  };
+
+  const handleDollarAmountChange = async (val: number) => {
+    setDollarAmount(val);
+    const derived = coinsForMoney(val, money);
+    if (derived !== null) setReward(derived);
+  };
+
+  const exchangeRate = describeExchangeRate(money, currencyName);
+
   // Reset form when quest changes
   useEffect(() => {
     setName(quest.name);
@@ -49,16 +95,14 @@ export function EditQuestCard({
     setDollarAmount(quest.dollar_amount || 0);
     setCompletionCount(userCompletionCount !== undefined ? userCompletionCount : quest.completion_count);
     setTags(quest.tags || []);
+    setPhoto({ kind: "keep" });
+    setCadence(quest.cadence ?? { type: "daily" });
+    setGracePeriods(quest.grace_periods ?? 0);
+    setSchedule(quest.schedule ?? null);
+    setUnit(quest.unit ?? "");
+    setRewardPerUnit(quest.reward_per_unit ?? 0);
   }, [quest, userCompletionCount]);
 
-  const toggleTag = (tagOption: Tag) => {
-    setTags((prev) =>
-      prev.includes(tagOption)
-        ? prev.filter((t) => t !== tagOption)
-        : [...prev, tagOption]
-    );
-  };
-
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
@@ -79,13 +123,35 @@ export function EditQuestCard({
     }
 
     setIsSaving(true);
+    let photoUpdate: { photo_url?: string | null } = {};
+    try {
+      if (photo.kind !== "keep") {
+        photoUpdate = {
+          photo_url: await resolvePhotoSelection(photo, quest.photo_url ?? null, "quests"),
+        };
+      }
+    } catch (err: unknown) {
+      console.error("Error uploading photo:", err);
+      alert(err instanceof Error ? err.message : "Failed to upload photo. Please try again.");
+      setIsSaving(false);
+      return;
+    }
+
     try {
       await onSave({
         name: name.trim(),
         tags,
-        reward,
-        dollar_amount: dollarAmount > 0 ? dollarAmount : undefined,
+        ...(canEditAmounts && {
+          reward,
+          dollar_amount: dollarAmount > 0 ? dollarAmount : undefined,
+          reward_per_unit: unit.trim() && rewardPerUnit > 0 ? rewardPerUnit : null,
+        }),
+        cadence,
+        grace_periods: gracePeriods,
+        schedule,
+        unit: unit.trim() || null,
         completion_count: completionCount,
+        ...photoUpdate,
       });
     } catch (err: any) {
       console.error("Error saving quest:", err);
@@ -105,33 +171,45 @@ export function EditQuestCard({
           placeholder="e.g., Morning Run"
         />
 
-        <div className="grid grid-cols-2 gap-4">
-          {/* Reward */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              Sand Dollars
-            </label>
-            <UnifiedNumericInput
-              value={reward}
-              onSave={async (val) => setReward(val)}
-              min={0}
-              ariaLabel="Quest reward in sand dollars"
-            />
-          </div>
+        {canEditAmounts ? (
+          <div className="grid grid-cols-2 gap-4">
+            {/* Reward */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                {toTitleCase(currencyName)}
+              </label>
+              <UnifiedNumericInput
+                value={reward}
+                onSave={handleRewardChange}
+                min={0}
+                ariaLabel={`Quest reward in ${currencyName}`}
+              />
+            </div>
 
-          {/* Dollar Amount */}
-          <div>
-            <label htmlFor="quest-dollar-amount-input" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              💵 Dollars <span className="text-xs text-gray-500">(Optional)</span>
-            </label>
-            <UnifiedNumericInput
-              value={dollarAmount}
-              onSave={async (val) => setDollarAmount(val)}
-              min={0}
-              ariaLabel="Dollar amount"
-            />
+            {/* Dollar Amount */}
+            <div>
+              <label htmlFor="quest-dollar-amount-input" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                💵 {money.currency} <span className="text-xs text-gray-500">(Optional)</span>
+              </label>
+              <UnifiedNumericInput
+                value={dollarAmount}
+                onSave={handleDollarAmountChange}
+                min={0}
+                ariaLabel="Dollar amount"
+                currency={money.currency}
+              />
+              {exchangeRate && <p className="text-xs text-gray-500 mt-1">{exchangeRate}</p>}
+            </div>
           </div>
-        </div>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {reward} {currencyName}
+            {dollarAmount > 0 && ` · 💵 ${formatMoney(dollarAmount, money.currency)}`}
+            <span className="block text-xs text-gray-500">
+              Only household owners can change rewards and prices
+            </span>
+          </p>
+        )}
 
         <div className="grid grid-cols-2 gap-4">
           {/* Completion Count */}
@@ -168,30 +246,31 @@ export function EditQuestCard({
           </div>
         </div>
 
-        {/* Tag Selection */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-            Category
-          </label>
-          <div className="flex flex-wrap gap-2">
-            {TAGS.map((tagOption) => {
-              const isActive = tags.includes(tagOption);
-              const classes = TAG_BUTTON_CLASSES[tagOption];
-              return (
-                <button
-                  key={tagOption}
-                  type="button"
-                  onClick={() => toggleTag(tagOption)}
-                  className={`px-4 py-2 rounded-lg border-2 font-medium transition-all touch-manipulation ${
-                    isActive ? classes.active : classes.base
-                  }`}
-                >
-                  {TAG_LABELS[tagOption]}
-                </button>
-              );
-            })}
-          </div>
-        </div>
+        <CadencePicker
+          cadence={cadence}
+          gracePeriods={gracePeriods}
+          onCadenceChange={setCadence}
+          onGracePeriodsChange={setGracePeriods}
+        />
+
+        <UnitPicker
+          unit={unit}
+          rewardPerUnit={rewardPerUnit}
+          onUnitChange={setUnit}
+          onRewardPerUnitChange={setRewardPerUnit}
+          canEditAmounts={canEditAmounts}
+          currencyName={currencyName}
+        />
+
+        <SchedulePicker schedule={schedule} onChange={setSchedule} />
+
+        <PhotoPicker
+          currentUrl={quest.photo_url ?? null}
+          selection={photo}
+          onChange={setPhoto}
+        />
+
+        <TagPicker tagSet={tagSet} selected={tags} onChange={setTags} label="Category" />
 
         {/* Delete Button */}
         <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
@@ -7,33 +7,46 @@
 import { useState, useEffect } from "react";
 import { Button, InputField, Modal } from "@ffx/sdk";
 import type { ShopItem, ShopTag } from "../types";
-import {
-  SHOP_TAGS,
-  SHOP_TAG_LABELS,
-  SHOP_TAG_BUTTON_CLASSES,
-} from "../utils/shopTags";
+import { TagPicker } from "./TagPicker";
+import type { TagSet } from "../utils/tags";
 import { UnifiedNumericInput } from "./UnifiedNumericInput";
+import { PhotoPicker } from "./PhotoPicker";
+import { resolvePhotoSelection } from "../lib/photos";
+import type { PhotoSelection } from "../lib/photos";
+import { CURRENCY_NAME } from "../constants";
+import { toTitleCase } from "../utils/preferences";
+import { DEFAULT_MONEY, coinsForMoney, describeExchangeRate, formatMoney, moneyForCoins } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
 
 interface EditShopItemCardProps {
+  tagSet: TagSet;
   item: ShopItem;
   userPurchaseCount?: number;
   onSave: (updates: {
     name: string;
     tags: ShopTag[];
-    price: number;
+    price?: number; // omitted when amounts are read-only
     dollar_amount?: number;
     purchase_count: number;
+    photo_url?: string | null; // only sent when the photo changed
   }) => Promise<void>;
   onDelete: () => Promise<void>;
   onClose: () => void;
+  canEditAmounts?: boolean; // household members can't change rewards/prices
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
 }
 
 export function EditShopItemCard({
   item,
+  tagSet,
   userPurchaseCount,
   onSave,
   onDelete,
   onClose,
+  canEditAmounts = true,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
 }: EditShopItemCardProps) {
   const [name, setName] = useState(item.name);
   const [price, setPrice] = useState(item.price);
@@ -42,10 +55,26 @@ export function EditShopItemCard({
     userPurchaseCount !== undefined ? userPurchaseCount : item.purchase_count
   );
   const [tags, setTags] = useState<ShopTag[]>(item.tags || []);
+  const [photo, setPhoto] = useState<PhotoSelection>({ kind: "keep" });
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
+  // With an exchange rate, either amount fills in the other
+  const handlePriceChange = async (val: number) => {
+    setPrice(val);
+    const derived = moneyForCoins(val, money);
+    if (derived !== null) setDollarAmount(derived);
+  };
+
+  const handleDollarAmountChange = async (val: number) => {
+    setDollarAmount(val);
+    const derived = coinsForMoney(val, money);
+    if (derived !== null) setPrice(derived);
+  };
+
+  const exchangeRate = describeExchangeRate(money, currencyName);
+
   // Reset form when item changes
   useEffect(() => {
     setName(item.name);
@@ -53,16 +82,9 @@ export function EditShopItemCard({
     setDollarAmount(item.dollar_amount || 0);
     setPurchaseCount(userPurchaseCount !== undefined ? userPurchaseCount : item.purchase_count);
     setTags(item.tags || []);
+    setPhoto({ kind: "keep" });
   }, [item, userPurchaseCount]);
 
-  const toggleTag = (tagOption: ShopTag) => {
-    setTags((prev) =>
-      prev.includes(tagOption)
-        ? prev.filter((t) => t !== tagOption)
-        : [...prev, tagOption]
-    );
-  };
-
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
@@ -83,13 +105,30 @@ export function EditShopItemCard({
     }
 
     setIsSaving(true);
+    let photoUpdate: { photo_url?: string | null } = {};
+    try {
+      if (photo.kind !== "keep") {
+        photoUpdate = {
+          photo_url: await resolvePhotoSelection(photo, item.photo_url ?? null, "shop_items"),
+        };
+      }
+    } catch (err: unknown) {
+      console.error("Error uploading photo:", err);
+      alert(err instanceof Error ? err.message : "Failed to upload photo. Please try again.");
+      setIsSaving(false);
+      return;
+    }
+
     try {
       await onSave({
         name: name.trim(),
         tags,
-        price,
-        dollar_amount: dollarAmount > 0 ? dollarAmount : undefined,
+        ...(canEditAmounts && {
+          price,
+          dollar_amount: dollarAmount > 0 ? dollarAmount : undefined,
+        }),
         purchase_count: purchaseCount,
+        ...photoUpdate,
       });
     } catch (err: any) {
       console.error("Error saving shop item:", err);
@@ -109,33 +148,45 @@ export function EditShopItemCard({
           placeholder="e.g., Coffee Treat"
         />
 
-        <div className="grid grid-cols-2 gap-4">
-          {/* Price */}
-          <div>
-            <label htmlFor="shop-item-price-input" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              Sand Dollars
-            </label>
-            <UnifiedNumericInput
-              value={price}
-              onSave={async (val) => setPrice(val)}
-              min={0}
-              ariaLabel="Shop item price in sand dollars"
-            />
-          </div>
+        {canEditAmounts ? (
+          <div className="grid grid-cols-2 gap-4">
+            {/* Price */}
+            <div>
+              <label htmlFor="shop-item-price-input" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                {toTitleCase(currencyName)}
+              </label>
+              <UnifiedNumericInput
+                value={price}
+                onSave={handlePriceChange}
+                min={0}
+                ariaLabel={`Shop item price in ${currencyName}`}
+              />
+            </div>
 
-          {/* Dollar Amount */}
-          <div>
-            <label htmlFor="shop-item-dollar-amount-input" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              💵 Dollars <span className="text-xs text-gray-500">(Optional)</span>
-            </label>
-            <UnifiedNumericInput
-              value={dollarAmount}
-              onSave={async (val) => setDollarAmount(val)}
-              min={0}
-              ariaLabel="Shop item dollar amount"
-            />
+            {/* Dollar Amount */}
+            <div>
+              <label htmlFor="shop-item-dollar-amount-input" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                💵 {money.currency} <span className="text-xs text-gray-500">(Optional)</span>
+              </label>
+              <UnifiedNumericInput
+                value={dollarAmount}
+                onSave={handleDollarAmountChange}
+                min={0}
+                ariaLabel="Shop item dollar amount"
+                currency={money.currency}
+              />
+              {exchangeRate && <p className="text-xs text-gray-500 mt-1">{exchangeRate}</p>}
+            </div>
           </div>
-        </div>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {price} {currencyName}
+            {dollarAmount > 0 && ` · 💵 ${formatMoney(dollarAmount, money.currency)}`}
+            <span className="block text-xs text-gray-500">
+              Only household owners can change rewards and prices
+            </span>
+          </p>
+        )}
 
         <div className="grid grid-cols-2 gap-4">
           {/* Purchase Count */}
@@ -170,30 +221,13 @@ export function EditShopItemCard({
           </div>
         </div>
 
-        {/* Tag Selection */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-            Category
-          </label>
-          <div className="flex flex-wrap gap-2">
-            {SHOP_TAGS.map((tagOption) => {
-              const isActive = tags.includes(tagOption);
-              const classes = SHOP_TAG_BUTTON_CLASSES[tagOption];
-              return (
-                <button
-                  key={tagOption}
-                  type="button"
-                  onClick={() => toggleTag(tagOption)}
-                  className={`px-4 py-2 rounded-lg border-2 font-medium transition-all touch-manipulation ${
-                    isActive ? classes.active : classes.base
-                  }`}
-                >
-                  {SHOP_TAG_LABELS[tagOption]}
-                </button>
-              );
-            })}
-          </div>
-        </div>
+        <PhotoPicker
+          currentUrl={item.photo_url ?? null}
+          selection={photo}
+          onChange={setPhoto}
+        />
+
+        <TagPicker tagSet={tagSet} selected={tags} onChange={setTags} label="Category" />
 
         {/* Delete Button */}
         <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
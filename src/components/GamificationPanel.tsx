@@ -1,26 +1,42 @@
 /**
  * Get Kraken - Gamification Panel Component
  *
- * Displays streaks, weekly recap, milestones, and customizable goals
+ * Displays goals with allocations and milestones, streaks, and weekly recap
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useGamification } from "../hooks/useGamification";
 import { useGoals } from "../hooks/useGoals";
 import { Button, InputField, Modal } from "@ffx/sdk";
-import type { QuestLog, ShopLog } from "../types";
+import { GoalCard } from "./GoalCard";
+import type { Quest, QuestLog, QuestLogDay, ShopLog } from "../types";
+import type { CalendarSettings } from "../utils/dates";
+import { CURRENCY_NAME } from "../constants";
+import { toTitleCase } from "../utils/preferences";
+import {
+  calculateAllocatedTotal,
+  getReachedMilestone,
+  projectGoalCompletions,
+  sortGoalsByPriority,
+} from "../utils/goals";
+import { UnifiedNumericInput } from "./UnifiedNumericInput";
+import { DEFAULT_MONEY, formatMoney } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
 
 interface GamificationPanelProps {
   walletTotal: number;
   walletDollarTotal?: number;
   questLogs: QuestLog[];
   shopLogs: ShopLog[];
+  olderQuestDays?: QuestLogDay[]; // history before the loaded logs, for streak records
+  quests: Quest[];
   questNames: Map<string, string>;
-  quests: Array<{ id: string; reward: number; dollar_amount?: number }>;
-  shopItems: Array<{ id: string; price: number; dollar_amount?: number }>;
   onResetProgress?: () => void;
   onResetAllProgress?: () => void;
   showDollarAmounts?: boolean;
+  calendar: CalendarSettings;
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
 }
 
 export function GamificationPanel({
@@ -28,37 +44,80 @@ export function GamificationPanel({
   walletDollarTotal = 0,
   questLogs,
   shopLogs,
-  questNames,
+  olderQuestDays,
   quests,
-  shopItems,
+  questNames,
   onResetProgress,
   onResetAllProgress,
   showDollarAmounts = false,
+  calendar,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
 }: GamificationPanelProps) {
   const {
     weeklyRecap,
     questStreaks,
-    currentMilestone,
-    nextMilestone,
+    earningRate,
   } = useGamification({
-    walletTotal,
+    quests,
     questLogs,
     shopLogs,
-    quests,
-    shopItems,
+    olderQuestDays,
+    calendar,
   });
 
-  const { goals, loading: goalsLoading, createGoal, deleteGoal, checkGoalCompletion } = useGoals();
+  const {
+    goals,
+    loading: goalsLoading,
+    createGoal,
+    deleteGoal,
+    allocateToGoal,
+    markMilestoneCelebrated,
+    checkGoalCompletion,
+  } = useGoals();
   const [isAddingGoal, setIsAddingGoal] = useState(false);
   const [goalName, setGoalName] = useState("");
   const [goalAmount, setGoalAmount] = useState(100);
   const [goalDollarAmount, setGoalDollarAmount] = useState(0);
+  const [goalDeadline, setGoalDeadline] = useState("");
+  const [goalPriority, setGoalPriority] = useState(1);
+  const [goalMilestones, setGoalMilestones] = useState("");
   const [isCreating, setIsCreating] = useState(false);
 
-  // Check goal completion when wallet total changes
+  // Check goal completion when allocations change
   useEffect(() => {
-    checkGoalCompletion(walletTotal, walletDollarTotal);
-  }, [walletTotal, walletDollarTotal, checkGoalCompletion]);
+    checkGoalCompletion();
+  }, [checkGoalCompletion]);
+
+  const sortedGoals = useMemo(() => sortGoalsByPriority(goals), [goals]);
+
+  // Balance not yet earmarked for any active goal
+  const allocated = useMemo(() => calculateAllocatedTotal(goals), [goals]);
+  const unallocated = walletTotal - allocated.total;
+  const unallocatedDollars = walletDollarTotal - allocated.dollar_total;
+
+  const projections = useMemo(
+    () => projectGoalCompletions(goals, earningRate, unallocated, new Date()),
+    [goals, earningRate, unallocated]
+  );
+
+  // First goal with a milestone that hasn't been celebrated yet
+  const celebration = useMemo(() => {
+    for (const goal of sortedGoals) {
+      const reached = getReachedMilestone(goal);
+      if (reached > goal.celebrated_milestone) return { goal, milestone: reached };
+    }
+    return null;
+  }, [sortedGoals]);
+
+  const resetGoalForm = () => {
+    setGoalName("");
+    setGoalAmount(100);
+    setGoalDollarAmount(0);
+    setGoalDeadline("");
+    setGoalPriority(1);
+    setGoalMilestones("");
+  };
 
   const handleCreateGoal = useCallback(async () => {
     if (!goalName.trim()) {
@@ -68,14 +127,21 @@ export function GamificationPanel({
 
     setIsCreating(true);
     try {
+      // Comma-separated thresholds; blank falls back to 25/50/75/100%
+      const milestones = goalMilestones
+        .split(",")
+        .map((value) => parseInt(value.trim()))
+        .filter((value) => value > 0 && value <= goalAmount);
+
       await createGoal({
         name: goalName.trim(),
         target_amount: goalAmount,
         dollar_amount: goalDollarAmount > 0 ? goalDollarAmount : null,
+        deadline: goalDeadline || null,
+        priority: goalPriority,
+        milestones,
       });
-      setGoalName("");
-      setGoalAmount(100);
-      setGoalDollarAmount(0);
+      resetGoalForm();
       setIsAddingGoal(false);
     } catch (err: any) {
       console.error("Error creating goal:", err);
@@ -83,7 +149,7 @@ export function GamificationPanel({
     } finally {
       setIsCreating(false);
     }
-  }, [goalName, goalAmount, goalDollarAmount, createGoal]);
+  }, [goalName, goalAmount, goalDollarAmount, goalDeadline, goalPriority, goalMilestones, createGoal]);
 
   const handleDeleteGoal = useCallback(async (goalId: string) => {
     if (!confirm("Delete this goal?")) return;
@@ -95,6 +161,16 @@ export function GamificationPanel({
     }
   }, [deleteGoal]);
 
+  const handleAllocate = useCallback(
+    async (goalId: string, amount: number, dollarAmount: number) => {
+      try {
+        await allocateToGoal(goalId, amount, dollarAmount);
+      } catch (err: unknown) {
+        alert(err instanceof Error ? err.message : "Failed to allocate to goal");
+      }
+    },
+    [allocateToGoal]
+  );
 
   return (
     <div className="space-y-6">
@@ -123,73 +199,24 @@ export function GamificationPanel({
           </div>
         ) : (
           <div className="space-y-4">
-            {goals.map((goal) => {
-              const progress = Math.min(100, (walletTotal / goal.target_amount) * 100);
-              const remaining = Math.max(0, goal.target_amount - walletTotal);
-              const dollarRemaining = goal.dollar_amount ? Math.max(0, goal.dollar_amount - (walletDollarTotal || 0)) : 0;
-              const isCompleted = goal.is_completed || (walletTotal >= goal.target_amount && (!goal.dollar_amount || (walletDollarTotal || 0) >= goal.dollar_amount));
-
-              return (
-                <div
-                  key={goal.id}
-                  className="bg-gradient-to-br from-blue-400 to-blue-600 dark:from-blue-500 dark:to-blue-700 rounded-2xl p-6 shadow-lg relative overflow-hidden"
-                >
-                  {/* Completion Overlay */}
-                  {isCompleted && (
-                    <div className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center z-10 rounded-2xl">
-                      <div className="flex items-center gap-4 text-white">
-                        <img
-                          src="/kraken-icon.png"
-                          alt="Kraken"
-                          className="w-16 h-16 object-contain"
-                        />
-                        <div className="flex items-center gap-3">
-                          <h3 className="text-3xl font-bold">Goal Met, Kraken Released!</h3>
-                          <div className="text-6xl">✅</div>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Goal Content */}
-                  <div className="relative z-0">
-                    <div className="flex items-center justify-between mb-2">
-                      <h3 className="text-xl font-bold text-white">{goal.name}</h3>
-                      <button
-                        onClick={() => handleDeleteGoal(goal.id)}
-                        className="text-white hover:text-red-200 text-sm"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                    <div className="mb-2">
-                      <div className="flex justify-between text-sm text-blue-100 mb-1">
-                        <span>
-                          {walletTotal} / {goal.target_amount} sand dollars
-                          {goal.dollar_amount && (
-                            <span className="ml-2">
-                              | 💵 {walletDollarTotal} / {goal.dollar_amount}
-                            </span>
-                          )}
-                        </span>
-                        <span>{Math.round(progress)}%</span>
-                      </div>
-                      <div className="w-full bg-blue-300 dark:bg-blue-800 rounded-full h-4 overflow-hidden">
-                        <div
-                          className="bg-white h-full rounded-full transition-all duration-500"
-                          style={{ width: `${progress}%` }}
-                        />
-                      </div>
-                    </div>
-                    <p className="text-sm text-blue-100">
-                      {remaining > 0 || dollarRemaining > 0
-                        ? `${remaining > 0 ? `${remaining} more sand dollars` : ''}${remaining > 0 && dollarRemaining > 0 ? ' and ' : ''}${dollarRemaining > 0 ? `💵 ${dollarRemaining} more dollars` : ''} to go!`
-                        : "Goal reached! 🎉"}
-                    </p>
-                  </div>
-                </div>
-              );
-            })}
+            <p className="text-sm text-gray-500 header-text-color">
+              Unallocated: {unallocated} {currencyName}
+              {showDollarAmounts && ` | 💵 ${formatMoney(unallocatedDollars, money.currency)}`}
+            </p>
+            {sortedGoals.map((goal) => (
+              <GoalCard
+                key={goal.id}
+                goal={goal}
+                projectedDate={projections[goal.id]}
+                unallocated={unallocated}
+                unallocatedDollars={unallocatedDollars}
+                showDollarAmounts={showDollarAmounts}
+                currencyName={currencyName}
+                money={money}
+                onAllocate={handleAllocate}
+                onDelete={handleDeleteGoal}
+              />
+            ))}
           </div>
         )}
       </div>
@@ -199,8 +226,7 @@ export function GamificationPanel({
         isOpen={isAddingGoal}
         onClose={() => {
           setIsAddingGoal(false);
-          setGoalName("");
-          setGoalAmount(100);
+          resetGoalForm();
         }}
         title="Create New Goal"
         size="md"
@@ -215,7 +241,7 @@ export function GamificationPanel({
 
           <div>
             <label htmlFor="goal-amount-input" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              Target Amount (Sand Dollars)
+              Target Amount ({toTitleCase(currencyName)})
             </label>
             <div className="flex items-center gap-4">
               <button
@@ -235,7 +261,7 @@ export function GamificationPanel({
                 }}
                 className="w-32 text-center text-2xl font-semibold border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-4 py-2"
                 min="0"
-                aria-label="Goal target amount in sand dollars"
+                aria-label={`Goal target amount in ${currencyName}`}
               />
               <button
                 onClick={() => setGoalAmount(goalAmount + 10)}
@@ -248,45 +274,46 @@ export function GamificationPanel({
 
           <div>
             <label htmlFor="goal-dollar-amount-input" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
-              Target Amount (Dollars) <span className="text-xs text-gray-500">(Optional)</span>
+              Target Amount ({money.currency}) <span className="text-xs text-gray-500">(Optional)</span>
             </label>
-            <div className="flex items-center gap-4">
-              <button
-                onClick={() => setGoalDollarAmount(Math.max(0, goalDollarAmount - 10))}
-                className="w-12 h-12 rounded-full bg-gray-200 dark:bg-gray-700 text-xl font-bold"
-                aria-label="Decrease goal dollar amount"
-              >
-                −
-              </button>
-              <input
-                id="goal-dollar-amount-input"
-                type="number"
-                value={goalDollarAmount}
-                onChange={(e) => {
-                  const val = parseInt(e.target.value) || 0;
-                  setGoalDollarAmount(Math.max(0, val));
-                }}
-                className="w-32 text-center text-2xl font-semibold border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-4 py-2"
-                min="0"
-                aria-label="Goal target dollar amount"
-              />
-              <button
-                onClick={() => setGoalDollarAmount(goalDollarAmount + 10)}
-                className="w-12 h-12 rounded-full bg-gray-200 dark:bg-gray-700 text-xl font-bold"
-              >
-                +
-              </button>
-            </div>
+            <UnifiedNumericInput
+              value={goalDollarAmount}
+              onSave={async (val) => setGoalDollarAmount(val)}
+              min={0}
+              increment={10}
+              ariaLabel="Goal target dollar amount"
+              currency={money.currency}
+            />
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <InputField
+              label="Deadline (optional)"
+              type="date"
+              value={goalDeadline}
+              onChange={(e) => setGoalDeadline(e.target.value)}
+            />
+            <InputField
+              label="Priority (1 = first)"
+              type="number"
+              value={String(goalPriority)}
+              onChange={(e) => setGoalPriority(Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+
+          <InputField
+            label="Milestones (optional)"
+            value={goalMilestones}
+            onChange={(e) => setGoalMilestones(e.target.value)}
+            placeholder="e.g., 100, 500, 1000 (default 25/50/75/100%)"
+          />
+
           <div className="flex gap-2 pt-4">
             <Button
               variant="ghost"
               onClick={() => {
                 setIsAddingGoal(false);
-                setGoalName("");
-                setGoalAmount(100);
-                setGoalDollarAmount(0);
+                resetGoalForm();
               }}
               className="flex-1"
             >
@@ -304,39 +331,31 @@ export function GamificationPanel({
         </div>
       </Modal>
 
-      {/* Current Milestone */}
-      {currentMilestone && (
+      {/* Milestone Celebration */}
+      {celebration && (
         <div className="bg-gradient-to-br from-amber-400 to-amber-600 dark:from-amber-500 dark:to-amber-700 rounded-2xl p-6 shadow-lg text-center">
           <div className="text-5xl mb-2">🏆</div>
           <h3 className="text-xl font-bold text-white mb-1">
-            {currentMilestone} Sand Dollars Milestone!
-          </h3>
-          <p className="text-sm text-amber-100">Keep it up! 🎉</p>
-        </div>
-      )}
-
-      {/* Next Milestone */}
-      {nextMilestone && (
-        <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm">
-          <h3 className="text-lg font-semibold text-gray-900 header-text-color mb-2">
-            Next Milestone
+            {celebration.milestone} {toTitleCase(currencyName)} for {celebration.goal.name}!
           </h3>
-          <div className="flex items-center justify-between">
-            <span className="text-2xl font-bold text-amber-600 dark:text-amber-400">
-              {nextMilestone} <img src="/sea-dollar.svg" alt="Sea Dollar" className="w-6 h-6 inline" />
-            </span>
-            <span className="text-sm text-gray-500 header-text-color">
-              {nextMilestone - walletTotal} to go
-            </span>
-          </div>
+          <p className="text-sm text-amber-100 mb-3">Keep it up! 🎉</p>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() =>
+              markMilestoneCelebrated(celebration.goal.id, celebration.milestone)
+            }
+          >
+            Nice!
+          </Button>
         </div>
       )}
 
       {/* Quest Streaks */}
-      {questStreaks.length > 0 && (
+      {questStreaks.some((streak) => streak.current_streak > 0) && (
         <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm">
           <h3 className="text-lg font-semibold text-gray-900 header-text-color mb-4">
-            🔥 Daily Streaks
+            🔥 Streaks
           </h3>
           <div className="space-y-3">
             {questStreaks
@@ -349,12 +368,19 @@ export function GamificationPanel({
                   className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
                 >
                   <span className="text-gray-900 header-text-color">
-                    {questNames.get(streak.quest_id) || "Quest"}
-                  </span>
-                  <span className="text-amber-600 dark:text-amber-400 font-bold">
-                    {streak.current_streak} day
-                    {streak.current_streak !== 1 ? "s" : ""}
+                    {questNames.get(streak.quest_id) || streak.quest_name || "Quest"}
                   </span>
+                  <div className="text-right">
+                    <span className="text-amber-600 dark:text-amber-400 font-bold">
+                      {streak.current_streak} {streak.period_unit}
+                      {streak.current_streak !== 1 ? "s" : ""}
+                    </span>
+                    {streak.longest_streak > streak.current_streak && (
+                      <span className="block text-xs text-gray-500 header-text-color">
+                        best {streak.longest_streak}
+                      </span>
+                    )}
+                  </div>
                 </div>
               ))}
           </div>
@@ -382,7 +408,7 @@ export function GamificationPanel({
                 </div>
                 <div className="text-xs text-gray-500 header-text-color">
                   <img src="/sea-dollar.svg" alt="Sand Dollar" className="w-4 h-4 inline mr-1" />
-                  sand dollars
+                  {currencyName}
                 </div>
               </div>
               <div>
@@ -391,7 +417,7 @@ export function GamificationPanel({
                 </div>
                 <div className="text-xs text-gray-500 header-text-color">
                   <img src="/sea-dollar.svg" alt="Sand Dollar" className="w-4 h-4 inline mr-1" />
-                  sand dollars
+                  {currencyName}
                 </div>
               </div>
               <div>
@@ -407,7 +433,7 @@ export function GamificationPanel({
                 </div>
                 <div className="text-xs text-gray-500 header-text-color">
                   <img src="/sea-dollar.svg" alt="Sand Dollar" className="w-4 h-4 inline mr-1" />
-                  sand dollars
+                  {currencyName}
                 </div>
               </div>
             </div>
@@ -416,15 +442,15 @@ export function GamificationPanel({
               <div className="grid grid-cols-3 gap-4 text-center">
                 <div>
                   <div className="text-xl font-bold text-green-600 dark:text-green-400">
-                    💵 +{weeklyRecap.earnedDollars}
+                    💵 {formatMoney(weeklyRecap.earnedDollars, money.currency, true)}
                   </div>
-                  <div className="text-xs text-gray-500 header-text-color">dollars</div>
+                  <div className="text-xs text-gray-500 header-text-color">{money.currency}</div>
                 </div>
                 <div>
                   <div className="text-xl font-bold text-red-600 dark:text-red-400">
-                    💵 -{weeklyRecap.spentDollars}
+                    💵 {formatMoney(-weeklyRecap.spentDollars, money.currency)}
                   </div>
-                  <div className="text-xs text-gray-500 header-text-color">dollars</div>
+                  <div className="text-xs text-gray-500 header-text-color">{money.currency}</div>
                 </div>
                 <div>
                   <div
@@ -434,9 +460,9 @@ export function GamificationPanel({
                         : "text-red-600 dark:text-red-400"
                     }`}
                   >
-                    💵 {weeklyRecap.netDollars >= 0 ? "+" : ""}{weeklyRecap.netDollars}
+                    💵 {formatMoney(weeklyRecap.netDollars, money.currency, true)}
                   </div>
-                  <div className="text-xs text-gray-500 header-text-color">dollars</div>
+                  <div className="text-xs text-gray-500 header-text-color">{money.currency}</div>
                 </div>
               </div>
             )}
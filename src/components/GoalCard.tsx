@@ -0,0 +1,214 @@
+/**
+ * Get Kraken - Goal Card Component
+ *
+ * Shows a goal's allocated progress, milestones, deadline and projected
+ * completion, with controls to earmark or release wallet balance
+ */
+
+import { useState } from "react";
+import type { Goal } from "../types";
+import { CURRENCY_NAME } from "../constants";
+import { toTitleCase } from "../utils/preferences";
+import {
+  getGoalMilestones,
+  getNextMilestone,
+  isBehindSchedule,
+  isGoalMet,
+} from "../utils/goals";
+import { DEFAULT_MONEY, formatMoney, parseMoney, toMoneyInput } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
+
+interface GoalCardProps {
+  goal: Goal;
+  projectedDate: Date | null | undefined;
+  unallocated: number;
+  unallocatedDollars: number;
+  showDollarAmounts?: boolean;
+  onAllocate: (goalId: string, amount: number, dollarAmount: number) => Promise<void>;
+  onDelete: (goalId: string) => void;
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+export function GoalCard({
+  goal,
+  projectedDate,
+  unallocated,
+  unallocatedDollars,
+  showDollarAmounts = false,
+  onAllocate,
+  onDelete,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
+}: GoalCardProps) {
+  const [amount, setAmount] = useState(0);
+  const [dollarInput, setDollarInput] = useState("");
+  const dollarAmount = Math.max(0, parseMoney(dollarInput, money.currency) ?? 0);
+  const [isAllocating, setIsAllocating] = useState(false);
+
+  const progress =
+    goal.target_amount > 0
+      ? Math.min(100, (goal.allocated_amount / goal.target_amount) * 100)
+      : 100;
+  const remaining = Math.max(0, goal.target_amount - goal.allocated_amount);
+  const dollarRemaining = goal.dollar_amount
+    ? Math.max(0, goal.dollar_amount - goal.allocated_dollar_amount)
+    : 0;
+  const isCompleted = goal.is_completed || isGoalMet(goal);
+  const milestones = getGoalMilestones(goal);
+  const nextMilestone = getNextMilestone(goal);
+  const behind = isBehindSchedule(goal, projectedDate);
+
+  const handleAllocate = async (direction: 1 | -1) => {
+    if (amount <= 0 && dollarAmount <= 0) return;
+    setIsAllocating(true);
+    try {
+      await onAllocate(goal.id, direction * amount, direction * dollarAmount);
+      setAmount(0);
+      setDollarInput("");
+    } finally {
+      setIsAllocating(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-blue-400 to-blue-600 dark:from-blue-500 dark:to-blue-700 rounded-2xl p-6 shadow-lg relative overflow-hidden">
+      {/* Completion Overlay */}
+      {isCompleted && (
+        <div className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center z-10 rounded-2xl">
+          <div className="flex items-center gap-4 text-white">
+            <img
+              src="/kraken-icon.png"
+              alt="Kraken"
+              className="w-16 h-16 object-contain"
+            />
+            <div className="flex items-center gap-3">
+              <h3 className="text-3xl font-bold">Goal Met, Kraken Released!</h3>
+              <div className="text-6xl">✅</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Goal Content */}
+      <div className="relative z-0 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-white">
+            {goal.name}
+            <span className="ml-2 text-xs font-semibold text-blue-100 align-middle">
+              Priority {goal.priority}
+            </span>
+          </h3>
+          <button
+            onClick={() => onDelete(goal.id)}
+            className="text-white hover:text-red-200 text-sm"
+          >
+            Delete
+          </button>
+        </div>
+
+        <div>
+          <div className="flex justify-between text-sm text-blue-100 mb-1">
+            <span>
+              {goal.allocated_amount} / {goal.target_amount} {currencyName}
+              {goal.dollar_amount && showDollarAmounts && (
+                <span className="ml-2">
+                  | 💵 {formatMoney(goal.allocated_dollar_amount, money.currency)} /{" "}
+                  {formatMoney(goal.dollar_amount, money.currency)}
+                </span>
+              )}
+            </span>
+            <span>{Math.round(progress)}%</span>
+          </div>
+          <div className="relative w-full bg-blue-300 dark:bg-blue-800 rounded-full h-4 overflow-hidden">
+            <div
+              className="bg-white h-full rounded-full transition-all duration-500"
+              style={{ width: `${progress}%` }}
+            />
+            {/* Milestone ticks */}
+            {milestones
+              .filter((threshold) => threshold < goal.target_amount)
+              .map((threshold) => (
+                <div
+                  key={threshold}
+                  className="absolute top-0 h-full w-0.5 bg-amber-400"
+                  style={{ left: `${(threshold / goal.target_amount) * 100}%` }}
+                  title={`${threshold} ${currencyName}`}
+                />
+              ))}
+          </div>
+        </div>
+
+        <div className="text-sm text-blue-100 space-y-1">
+          <p>
+            {remaining > 0 || dollarRemaining > 0
+              ? `${remaining > 0 ? `${remaining} more ${currencyName}` : ""}${remaining > 0 && dollarRemaining > 0 ? " and " : ""}${dollarRemaining > 0 ? `💵 ${formatMoney(dollarRemaining, money.currency)} more` : ""} to go!`
+              : "Goal reached! 🎉"}
+          </p>
+          {nextMilestone !== null && (
+            <p>
+              Next milestone: {nextMilestone} ({nextMilestone - goal.allocated_amount} to go)
+            </p>
+          )}
+          {goal.deadline && (
+            <p>Deadline: {formatDate(new Date(`${goal.deadline}T00:00:00`))}</p>
+          )}
+          {!isCompleted && (
+            <p className={behind ? "font-semibold text-amber-200" : ""}>
+              {projectedDate
+                ? `Projected: ${formatDate(projectedDate)}`
+                : "Complete some quests to project a finish date"}
+              {behind && " · ⚠️ behind schedule"}
+            </p>
+          )}
+        </div>
+
+        {/* Allocation Controls */}
+        {!isCompleted && (
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <input
+              type="number"
+              min={0}
+              value={amount}
+              onChange={(e) => setAmount(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-24 text-center border border-blue-200 rounded-lg bg-white/90 text-gray-900 px-2 py-1"
+              aria-label={`${toTitleCase(currencyName)} to allocate`}
+            />
+            {showDollarAmounts && goal.dollar_amount !== null && (
+              <input
+                type="text"
+                inputMode="decimal"
+                value={dollarInput}
+                onChange={(e) => setDollarInput(e.target.value)}
+                placeholder={toMoneyInput(0, money.currency)}
+                className="w-24 text-center border border-blue-200 rounded-lg bg-white/90 text-gray-900 px-2 py-1"
+                aria-label={`${money.currency} to allocate`}
+              />
+            )}
+            <button
+              onClick={() => handleAllocate(1)}
+              disabled={isAllocating || amount > unallocated || dollarAmount > unallocatedDollars}
+              className="px-3 py-1 rounded-lg bg-white text-blue-700 text-sm font-semibold disabled:opacity-50 touch-manipulation"
+            >
+              Allocate
+            </button>
+            <button
+              onClick={() => handleAllocate(-1)}
+              disabled={
+                isAllocating ||
+                amount > goal.allocated_amount ||
+                dollarAmount > goal.allocated_dollar_amount
+              }
+              className="px-3 py-1 rounded-lg bg-blue-800/60 text-white text-sm font-semibold disabled:opacity-50 touch-manipulation"
+            >
+              Release
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
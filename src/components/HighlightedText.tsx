@@ -0,0 +1,35 @@
+/**
+ * Get Kraken - Highlighted Text Component
+ *
+ * Renders text with search matches marked
+ */
+
+import type { ReactNode } from "react";
+import type { MatchRange } from "../utils/filtering";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[]; // sorted, non-overlapping
+}
+
+export function HighlightedText({ text, ranges = [] }: HighlightedTextProps) {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range) => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(
+      <mark
+        key={range.start}
+        className="bg-amber-200 dark:bg-amber-700/60 text-inherit rounded-sm"
+      >
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,162 @@
+/**
+ * Get Kraken - Household Panel Component
+ *
+ * Shows household members and roles, invites by email, and pending invites
+ */
+
+import { useState } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import type { Household, HouseholdMember, HouseholdInvite } from "../types";
+
+interface HouseholdPanelProps {
+  household: Household | null;
+  members: HouseholdMember[];
+  sentInvites: HouseholdInvite[];
+  incomingInvites: HouseholdInvite[];
+  currentUserId: string | null;
+  isOwner: boolean;
+  onInvite: (email: string) => Promise<void>;
+  onRevokeInvite: (inviteId: string) => Promise<void>;
+  onAcceptInvite: (inviteId: string) => Promise<void>;
+  onDeclineInvite: (inviteId: string) => Promise<void>;
+  onRemoveMember: (userId: string) => Promise<void>;
+}
+
+export function HouseholdPanel({
+  household,
+  members,
+  sentInvites,
+  incomingInvites,
+  currentUserId,
+  isOwner,
+  onInvite,
+  onRevokeInvite,
+  onAcceptInvite,
+  onDeclineInvite,
+  onRemoveMember,
+}: HouseholdPanelProps) {
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [isInviting, setIsInviting] = useState(false);
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) return;
+    setIsInviting(true);
+    try {
+      await onInvite(inviteEmail);
+      setInviteEmail("");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 header-text-color">
+        🏠 {household?.name || "Household"}
+      </h3>
+
+      {/* Invites addressed to the current user */}
+      {incomingInvites.map((invite) => (
+        <div
+          key={invite.id}
+          className="p-3 rounded-lg bg-amber-100 dark:bg-amber-900/40 space-y-2"
+        >
+          <p className="text-sm text-gray-900 header-text-color">
+            You've been invited to share a wallet. Joining moves you into their
+            household; your current wallet stays behind.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="primary" size="sm" onClick={() => onAcceptInvite(invite.id)}>
+              Join
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => onDeclineInvite(invite.id)}>
+              Decline
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {/* Members */}
+      <div className="space-y-2">
+        {members.map((member) => (
+          <div
+            key={member.user_id}
+            className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+          >
+            <span className="text-gray-900 header-text-color truncate">
+              {member.email || "Member"}
+              {member.user_id === currentUserId && " (you)"}
+            </span>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <span
+                className={`text-xs font-semibold uppercase tracking-wide ${
+                  member.role === "owner"
+                    ? "text-amber-600 dark:text-amber-400"
+                    : "text-gray-500 dark:text-gray-300"
+                }`}
+              >
+                {member.role}
+              </span>
+              {isOwner && member.user_id !== currentUserId && (
+                <button
+                  onClick={() => {
+                    if (confirm(`Remove ${member.email || "this member"} from the household?`)) {
+                      onRemoveMember(member.user_id);
+                    }
+                  }}
+                  className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Owners can invite and manage pending invites */}
+      {isOwner && (
+        <div className="space-y-2">
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <InputField
+                label="Invite by email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="partner@example.com"
+              />
+            </div>
+            <Button
+              variant="primary"
+              onClick={handleInvite}
+              disabled={isInviting || !inviteEmail.trim()}
+            >
+              {isInviting ? "Inviting..." : "Invite"}
+            </Button>
+          </div>
+          {sentInvites.map((invite) => (
+            <div
+              key={invite.id}
+              className="flex items-center justify-between text-sm text-gray-500 header-text-color"
+            >
+              <span className="truncate">Invited {invite.email}</span>
+              <button
+                onClick={() => onRevokeInvite(invite.id)}
+                className="text-red-600 dark:text-red-400 hover:underline flex-shrink-0"
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isOwner && (
+        <p className="text-xs text-gray-500 header-text-color">
+          Only owners can reset the wallet or change rewards and prices.
+        </p>
+      )}
+    </div>
+  );
+}
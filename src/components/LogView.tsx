@@ -1,28 +1,47 @@
 /**
  * Get Kraken - Log View Component
  *
- * Swipeable log view showing chronological history
+ * Swipeable log view showing chronological history, with optional reversal
+ * and proof photos
  */
 
 import { useState, useEffect, useRef } from "react";
+import type { ChangeEvent, ReactNode } from "react";
 import { Modal } from "@ffx/sdk";
 
-interface LogViewProps<T extends { id: string }> {
+type ReversibleLog = { id: string; reversed_at?: string | null };
+
+interface LogViewProps<T extends ReversibleLog> {
   isOpen: boolean;
   onClose: () => void;
   title: string;
   logs: T[];
   getDateKey: (log: T) => string;
+  onReverse?: (log: T) => Promise<void>; // omit to hide the reverse button
+  getAttribution?: (log: T) => string | null; // who logged the entry, in shared households
+  getDetails?: (log: T) => string | null; // extra line under the date, e.g. bonuses earned
+  renderExtra?: (log: T) => ReactNode; // e.g. a completion's check-in
+  getPhotoUrl?: (log: T) => string | null | undefined;
+  onChangePhoto?: (log: T, file: File | null) => Promise<void>; // omit to hide photo controls; null removes
 }
 
-export function LogView<T extends { id: string }>({
+export function LogView<T extends ReversibleLog>({
   isOpen,
   onClose,
   title,
   logs,
   getDateKey,
+  onReverse,
+  getAttribution,
+  getDetails,
+  renderExtra,
+  getPhotoUrl,
+  onChangePhoto,
 }: LogViewProps<T>) {
   const [swipeIndex, setSwipeIndex] = useState(0);
+  const [reversing, setReversing] = useState(false);
+  const [savingPhoto, setSavingPhoto] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
   const touchStartX = useRef<number | null>(null);
   const touchEndX = useRef<number | null>(null);
 
@@ -85,6 +104,35 @@ export function LogView<T extends { id: string }>({
     });
   };
 
+  const handleReverse = async (log: T) => {
+    if (!onReverse || reversing) return;
+    if (!confirm("Reverse this entry? The amount will be refunded to your wallet.")) {
+      return;
+    }
+    setReversing(true);
+    try {
+      await onReverse(log);
+    } finally {
+      setReversing(false);
+    }
+  };
+
+  const handleChangePhoto = async (log: T, file: File | null) => {
+    if (!onChangePhoto || savingPhoto) return;
+    setSavingPhoto(true);
+    try {
+      await onChangePhoto(log, file);
+    } finally {
+      setSavingPhoto(false);
+    }
+  };
+
+  const handlePhotoFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // allow picking the same file again
+    if (file) handleChangePhoto(currentLog, file);
+  };
+
   if (logs.length === 0) {
     return (
       <Modal isOpen={isOpen} onClose={onClose} title={title} size="md">
@@ -100,6 +148,10 @@ export function LogView<T extends { id: string }>({
       new Date(getDateKey(b)).getTime() - new Date(getDateKey(a)).getTime()
   );
   const currentLog = sortedLogs[swipeIndex];
+  const attribution = getAttribution?.(currentLog);
+  const details = getDetails?.(currentLog);
+  const photoUrl = getPhotoUrl?.(currentLog);
+  const canChangePhoto = !!onChangePhoto && !currentLog.reversed_at;
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={title} size="md">
@@ -117,7 +169,71 @@ export function LogView<T extends { id: string }>({
           </div>
           <div className="text-sm text-gray-500 dark:header-text-color">
             {swipeIndex + 1} of {logs.length}
+            {attribution && ` · by ${attribution}`}
           </div>
+          {details && (
+            <div className="mt-2 text-sm text-gray-600 dark:text-gray-300">{details}</div>
+          )}
+          {/* Keyed so per-log state resets when swiping */}
+          {renderExtra && <div key={currentLog.id}>{renderExtra(currentLog)}</div>}
+          {photoUrl && (
+            <a href={photoUrl} target="_blank" rel="noreferrer" className="block mt-4">
+              <img
+                src={photoUrl}
+                alt="Proof"
+                className="mx-auto max-h-48 rounded-lg object-contain"
+              />
+            </a>
+          )}
+          {canChangePhoto && (
+            <div className="mt-4 flex justify-center gap-2">
+              <button
+                onClick={() => photoInputRef.current?.click()}
+                disabled={savingPhoto}
+                className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all touch-manipulation bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 ${
+                  savingPhoto
+                    ? "opacity-50 cursor-not-allowed"
+                    : "hover:bg-gray-300 dark:hover:bg-gray-600"
+                }`}
+              >
+                {savingPhoto ? "Saving..." : photoUrl ? "📷 Change photo" : "📷 Add proof photo"}
+              </button>
+              {photoUrl && !savingPhoto && (
+                <button
+                  onClick={() => handleChangePhoto(currentLog, null)}
+                  className="px-4 py-2 rounded-lg text-sm font-semibold transition-all touch-manipulation text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  Remove photo
+                </button>
+              )}
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handlePhotoFileChange}
+                className="hidden"
+              />
+            </div>
+          )}
+          {currentLog.reversed_at ? (
+            <div className="mt-4 inline-block px-3 py-1 rounded-full bg-gray-200 dark:bg-gray-700 text-sm text-gray-600 dark:text-gray-300">
+              ↩️ Reversed {formatDate(currentLog.reversed_at)}
+            </div>
+          ) : (
+            onReverse && (
+              <button
+                onClick={() => handleReverse(currentLog)}
+                disabled={reversing}
+                className={`mt-4 px-4 py-2 rounded-lg text-sm font-semibold transition-all touch-manipulation bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 ${
+                  reversing
+                    ? "opacity-50 cursor-not-allowed"
+                    : "hover:bg-red-200 dark:hover:bg-red-900/60"
+                }`}
+              >
+                {reversing ? "Reversing..." : "↩️ Reverse"}
+              </button>
+            )
+          )}
         </div>
 
         {/* Navigation Controls - Desktop buttons with pagination indicators */}
@@ -0,0 +1,106 @@
+/**
+ * Get Kraken - Money Settings Panel Component
+ *
+ * Chooses the household's currency for real-money amounts and an optional
+ * exchange rate that links coin and money amounts (owners only)
+ */
+
+import { useMemo, useState } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import { describeExchangeRate, formatMoney, getMinorUnitsPerUnit, getSupportedCurrencies } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
+
+interface MoneySettingsPanelProps {
+  money: MoneySettings;
+  currencyName: string;
+  canEdit: boolean;
+  onSave: (money: MoneySettings) => Promise<void>;
+}
+
+const SELECT_CLASS =
+  "border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm";
+
+// Blank means "not linked"
+const parseRate = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(",", "."));
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed * 10000) / 10000 : null;
+};
+
+// Keyed by the saved settings, so the drafts reset once a save lands
+export function MoneySettingsPanel({ money, currencyName, canEdit, onSave }: MoneySettingsPanelProps) {
+  const [currency, setCurrency] = useState(money.currency);
+  const [rate, setRate] = useState(money.coinsPerUnit ? String(money.coinsPerUnit) : "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const currencies = useMemo(() => getSupportedCurrencies(money.currency), [money.currency]);
+  const coinsPerUnit = parseRate(rate);
+  const isRateValid = !rate.trim() || coinsPerUnit !== null;
+  const isChanged = currency !== money.currency || coinsPerUnit !== money.coinsPerUnit;
+  const exchangeRate = describeExchangeRate(money, currencyName);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ currency, coinsPerUnit });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 header-text-color">💱 Money</h3>
+
+      {canEdit ? (
+        <>
+          <label className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-200">
+            Currency
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className={`${SELECT_CLASS} max-w-[16rem]`}
+            >
+              {currencies.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <InputField
+            label={`${currencyName} per ${formatMoney(getMinorUnitsPerUnit(currency), currency)}`}
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="Not linked"
+            inputMode="decimal"
+          />
+          <p className="text-xs text-gray-500 header-text-color">
+            With a rate, entering either amount on a quest or shop item fills in the
+            other. Changing the currency doesn't convert amounts already entered, so
+            once there are some it can only switch to a currency with the same
+            number of decimal places.
+          </p>
+
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            loading={isSaving}
+            disabled={!isChanged || !isRateValid}
+            className="w-full"
+          >
+            Save money settings
+          </Button>
+        </>
+      ) : (
+        <p className="text-sm text-gray-700 dark:text-gray-200">
+          Amounts are in {money.currency}
+          {exchangeRate && ` · ${exchangeRate}`}
+          <span className="block text-xs text-gray-500">
+            Only household owners can change the currency
+          </span>
+        </p>
+      )}
+    </section>
+  );
+}
@@ -4,7 +4,7 @@
  * Displays navigation tabs for switching between views
  */
 
-type View = "quests" | "shop" | "progress";
+import type { AppView as View } from "../utils/preferences";
 
 interface NavigationTabsProps {
   currentView: View;
@@ -37,6 +37,14 @@ export function NavigationTabs({ currentView, onViewChange }: NavigationTabsProp
       >
         Progress
       </button>
+      <button
+        onClick={() => onViewChange("settings")}
+        className={`py-3 px-4 rounded-xl font-semibold transition-all touch-manipulation ${tabButtonClasses("settings")}`}
+        title="Settings"
+        aria-label="Settings"
+      >
+        ⚙️
+      </button>
     </div>
   );
 }
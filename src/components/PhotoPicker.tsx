@@ -0,0 +1,94 @@
+/**
+ * Get Kraken - Photo Picker Component
+ *
+ * Chooses, previews and removes a photo in a form. Nothing is uploaded until
+ * the form is saved (see resolvePhotoSelection).
+ */
+
+import { useEffect, useMemo, useRef } from "react";
+import type { ChangeEvent } from "react";
+import type { PhotoSelection } from "../lib/photos";
+
+interface PhotoPickerProps {
+  label?: string;
+  currentUrl: string | null; // saved photo, if any
+  selection: PhotoSelection;
+  onChange: (selection: PhotoSelection) => void;
+}
+
+export function PhotoPicker({
+  label = "Photo",
+  currentUrl,
+  selection,
+  onChange,
+}: PhotoPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const fileUrl = useMemo(
+    () => (selection.kind === "replace" ? URL.createObjectURL(selection.file) : null),
+    [selection]
+  );
+  useEffect(() => {
+    return () => {
+      if (fileUrl) URL.revokeObjectURL(fileUrl);
+    };
+  }, [fileUrl]);
+
+  const previewUrl = fileUrl ?? (selection.kind === "keep" ? currentUrl : null);
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // allow picking the same file again
+    if (file) onChange({ kind: "replace", file });
+  };
+
+  const handleRemove = () => {
+    onChange(currentUrl ? { kind: "remove" } : { kind: "keep" });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+        {label} <span className="text-xs text-gray-500">(Optional)</span>
+      </label>
+      <div className="flex items-center gap-3">
+        {previewUrl ? (
+          <img
+            src={previewUrl}
+            alt=""
+            className="w-16 h-16 rounded-lg object-cover border border-gray-300 dark:border-gray-600"
+          />
+        ) : (
+          <div className="w-16 h-16 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 flex items-center justify-center text-2xl">
+            📷
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors touch-manipulation"
+          >
+            {previewUrl ? "Change" : "Add photo"}
+          </button>
+          {previewUrl && (
+            <button
+              type="button"
+              onClick={handleRemove}
+              className="px-3 py-1 rounded-lg text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors touch-manipulation"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+}
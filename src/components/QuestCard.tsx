@@ -8,26 +8,47 @@ import { useState, useMemo, useRef } from "react";
 import { Button } from "@ffx/sdk";
 import type { Quest } from "../types";
 import { CyclingBorder } from "./CyclingBorder";
-import { SEA_DOLLAR_ICON_PATH } from "../constants";
+import type { TagSet } from "../utils/tags";
+import { HighlightedText } from "./HighlightedText";
+import type { MatchRange } from "../utils/filtering";
+import { SEA_DOLLAR_ICON_PATH, CURRENCY_NAME } from "../constants";
 import { useQuestOverrides } from "../hooks/useQuestOverrides";
 import { UnifiedNumericInput } from "./UnifiedNumericInput";
+import { formatCadence } from "../utils/streaks";
+import type { StreakResult } from "../utils/streaks";
+import { DEFAULT_MONEY, formatMoney } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
 
 interface QuestCardProps {
   quest: Quest;
+  tagSet: TagSet;
   onComplete: (questId: string, reward: number) => Promise<void>;
   onViewLogs: (questId: string) => void;
   onEdit: (quest: Quest) => void;
   showDollarAmounts?: boolean;
   userCompletionCount?: number; // Count from user's own logs
+  streak?: StreakResult;
+  nameHighlights?: MatchRange[]; // search matches in the name
+  starred?: boolean;
+  onToggleStar?: (id: string) => void; // omitted hides the star
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
 }
 
 export function QuestCard({
   quest,
+  tagSet,
   onComplete,
   onViewLogs,
   onEdit,
   showDollarAmounts = false,
   userCompletionCount,
+  streak,
+  nameHighlights,
+  starred = false,
+  onToggleStar,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
 }: QuestCardProps) {
   const [isCompleting, setIsCompleting] = useState(false);
   const { getEffectiveReward, getEffectiveDollarAmount, getEffectiveTags, getEffectiveName, updateOverride } = useQuestOverrides();
@@ -132,15 +153,39 @@ export function QuestCard({
   };
 
   return (
-    <CyclingBorder tags={effectiveTags}>
+    <CyclingBorder tags={effectiveTags} tagSet={tagSet}>
       <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl shadow-lg overflow-hidden touch-manipulation backdrop-blur-sm">
         {/* Card Content */}
         <div className="p-4">
           {/* Quest Info */}
           <div className="mb-4">
-            <h3 className="text-xl font-bold text-gray-900 header-text-color mb-2">
-              {effectiveName}
-            </h3>
+            <div className="flex items-center gap-3 mb-2">
+              {quest.photo_url && (
+                <img
+                  src={quest.photo_url}
+                  alt=""
+                  loading="lazy"
+                  className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
+                />
+              )}
+              <h3 className="text-xl font-bold text-gray-900 header-text-color">
+                <HighlightedText text={effectiveName} ranges={nameHighlights} />
+              </h3>
+              {onToggleStar && (
+                <button
+                  type="button"
+                  onClick={() => onToggleStar(quest.id)}
+                  aria-pressed={starred}
+                  aria-label={starred ? "Unstar" : "Star"}
+                  title={starred ? "Unstar" : "Star to pin at the top"}
+                  className={`ml-auto text-2xl leading-none touch-manipulation ${
+                    starred ? "text-amber-500" : "text-gray-400 hover:text-amber-500"
+                  }`}
+                >
+                  {starred ? "★" : "☆"}
+                </button>
+              )}
+            </div>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <img src={SEA_DOLLAR_ICON_PATH} alt="Sea Dollar" className="w-6 h-6" />
@@ -152,7 +197,7 @@ export function QuestCard({
                     <span className="text-lg font-semibold text-amber-600 dark:text-amber-400">|</span>
                     <span className="text-lg">💵</span>
                     <span className="text-lg font-semibold text-amber-600 dark:text-amber-400">
-                      {Math.round(effectiveDollarAmount)}
+                      {formatMoney(effectiveDollarAmount, money.currency)}
                     </span>
                   </>
                 )}
@@ -161,6 +206,25 @@ export function QuestCard({
                 {userCompletionCount !== undefined ? userCompletionCount : quest.completion_count} completed
               </div>
             </div>
+            {/* Cadence, progress this period, and streak */}
+            <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+              <span className="px-2 py-0.5 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                {formatCadence(quest.cadence)}
+                {streak && streak.required_this_period > 1 &&
+                  ` · ${streak.completed_this_period}/${streak.required_this_period}`}
+              </span>
+              {streak?.due_today && (
+                <span className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 font-semibold">
+                  Due today
+                </span>
+              )}
+              {streak && streak.current_streak > 0 && (
+                <span className="text-amber-600 dark:text-amber-400 font-semibold">
+                  🔥 {streak.current_streak} {streak.period_unit}
+                  {streak.current_streak !== 1 ? "s" : ""}
+                </span>
+              )}
+            </div>
           </div>
 
           {/* Reward Controls - All users can edit (changes are per-user) */}
@@ -172,7 +236,7 @@ export function QuestCard({
                   onSave={handleRewardSave}
                   min={0}
                   className="text-amber-600 dark:text-amber-400"
-                  ariaLabel="Quest reward in sand dollars"
+                  ariaLabel={`Quest reward in ${currencyName}`}
                 />
               </div>
               {showDollarAmounts && (
@@ -184,6 +248,7 @@ export function QuestCard({
                     min={0}
                     className="text-amber-600 dark:text-amber-400"
                     ariaLabel="Quest dollar amount"
+                    currency={money.currency}
                   />
                 </div>
               )}
@@ -0,0 +1,65 @@
+/**
+ * Get Kraken - Quest Log Check-in Component
+ *
+ * A logged completion's quantity, mood and note, editable in place
+ */
+
+import { useState } from "react";
+import type { QuestCheckIn, QuestLog } from "../types";
+import { CheckInForm } from "./CheckInForm";
+import { formatQuantity, getMoodEmoji } from "../utils/checkIns";
+import { CURRENCY_NAME } from "../constants";
+
+interface QuestLogCheckInProps {
+  log: QuestLog;
+  onSave?: (log: QuestLog, checkIn: QuestCheckIn) => Promise<void>; // omit for read-only
+  currencyName?: string; // the user's name for sand dollars
+}
+
+export function QuestLogCheckIn({ log, onSave, currencyName = CURRENCY_NAME }: QuestLogCheckInProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const moodEmoji = getMoodEmoji(log.mood);
+  const hasCheckIn = !!log.quantity || !!moodEmoji || !!log.note;
+
+  if (isEditing && onSave) {
+    return (
+      <div className="mt-4 max-w-sm mx-auto">
+        <CheckInForm
+          unit={log.unit}
+          rewardPerUnit={log.reward_per_unit}
+          initial={{ quantity: log.quantity, mood: log.mood, note: log.note }}
+          submitLabel="Save check-in"
+          onSubmit={async (checkIn) => {
+            await onSave(log, checkIn);
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+          currencyName={currencyName}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-1">
+      {(log.quantity || moodEmoji) && (
+        <div className="text-lg font-semibold text-gray-900 header-text-color">
+          {log.quantity ? formatQuantity(log.quantity, log.unit) : ""}
+          {log.quantity && moodEmoji ? " · " : ""}
+          {moodEmoji}
+        </div>
+      )}
+      {log.note && (
+        <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{log.note}</p>
+      )}
+      {onSave && (
+        <button
+          onClick={() => setIsEditing(true)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {hasCheckIn ? "✏️ Edit check-in" : "📝 Add notes"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Get Kraken - Quest Packs Panel Component
+ *
+ * Browse the curated quest packs or open a pack file, preview what it adds,
+ * and install it as the household's own quests and shop items (owners only).
+ * The household's catalog can also be saved as a pack to share.
+ */
+
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import type { Quest, ShopItem, TagDefinition } from "../types";
+import { BUILT_IN_PACKS, buildQuestPack, planPackInstall, validateQuestPack } from "../utils/questPacks";
+import type { PackInstallPlan, QuestPack } from "../utils/questPacks";
+import { downloadFile } from "../utils/download";
+import { DEFAULT_MONEY } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
+
+interface QuestPacksPanelProps {
+  tags: TagDefinition[];
+  quests: Quest[];
+  shopItems: ShopItem[];
+  installing: boolean;
+  canInstall?: boolean; // packs carry rewards and prices, so only owners install them
+  onInstall: (plan: PackInstallPlan) => Promise<void>;
+  money?: MoneySettings; // household currency, for money amounts in packs
+}
+
+export function QuestPacksPanel({
+  tags,
+  quests,
+  shopItems,
+  installing,
+  canInstall = true,
+  onInstall,
+  money = DEFAULT_MONEY,
+}: QuestPacksPanelProps) {
+  const [plan, setPlan] = useState<PackInstallPlan | null>(null);
+  const [packErrors, setPackErrors] = useState<string[]>([]);
+  const [packName, setPackName] = useState("");
+  const [packDescription, setPackDescription] = useState("");
+
+  const preview = (pack: QuestPack) => {
+    setPackErrors([]);
+    setPlan(planPackInstall(pack, { tags, quests, shopItems, currency: money.currency }));
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // allow picking the same file again
+    if (!file) return;
+
+    setPlan(null);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setPackErrors(["This file isn't valid JSON"]);
+      return;
+    }
+
+    const { pack, errors } = validateQuestPack(parsed);
+    if (!pack) {
+      setPackErrors(errors);
+      return;
+    }
+    preview(pack);
+  };
+
+  const handleInstall = async () => {
+    if (!plan) return;
+    try {
+      await onInstall(plan);
+      setPlan(null);
+    } catch {
+      // Reported by the caller; keep the preview so it can be retried
+    }
+  };
+
+  const handleExport = () => {
+    const pack = buildQuestPack({
+      name: packName.trim() || "My quests",
+      description: packDescription,
+      tags,
+      quests,
+      shopItems,
+      currency: money.currency,
+    });
+    downloadFile(`${pack.id}.quest-pack.json`, JSON.stringify(pack, null, 2), "application/json");
+  };
+
+  const addsNothing = plan !== null && plan.newQuests.length === 0 && plan.newShopItems.length === 0;
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 header-text-color">🎒 Quest packs</h3>
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        {BUILT_IN_PACKS.map((pack) => (
+          <div key={pack.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg flex flex-col gap-2">
+            <div className="font-medium text-gray-900 header-text-color">
+              {pack.icon && `${pack.icon} `}
+              {pack.name}
+            </div>
+            <p className="text-xs text-gray-500 header-text-color flex-1">{pack.description}</p>
+            <p className="text-xs text-gray-500 header-text-color">
+              {pack.quests.length} quests · {pack.shop_items.length} shop items
+            </p>
+            <Button variant="secondary" size="sm" onClick={() => preview(pack)} disabled={installing}>
+              Preview
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Got a pack file from a friend? Open it to see what it adds.
+        </p>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          disabled={installing}
+          className="text-sm text-gray-700 dark:text-gray-300"
+        />
+      </div>
+
+      {packErrors.length > 0 && (
+        <ul className="p-3 rounded-lg bg-red-100 dark:bg-red-900/40 text-sm text-red-800 dark:text-red-200 list-disc list-inside">
+          {packErrors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {plan && (
+        <div className="p-3 rounded-lg bg-amber-100 dark:bg-amber-900/40 space-y-2 text-sm text-gray-900 header-text-color">
+          <p className="font-semibold">{plan.packName}</p>
+          <p>
+            {addsNothing
+              ? "You already have everything in this pack."
+              : `Adds ${plan.newQuests.length} quest(s), ${plan.newShopItems.length} shop item(s) and ${plan.newTags.length} new tag(s) to your household.`}
+          </p>
+          {plan.skipped.length > 0 && (
+            <p className="text-xs">Already have: {plan.skipped.join(", ")}</p>
+          )}
+          {plan.dropsMoney && (
+            <p className="text-xs">
+              This pack's money amounts are in another currency, so they're left at zero.
+            </p>
+          )}
+          {!canInstall && (
+            <p className="text-xs">Only household owners can install quest packs</p>
+          )}
+          <div className="flex gap-2">
+            {canInstall && (
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleInstall}
+                loading={installing}
+                disabled={addsNothing}
+              >
+                Install
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={() => setPlan(null)} disabled={installing}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Share your quests and shop items as a pack file. Your progress and photos stay here.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <InputField
+            label="Pack name"
+            value={packName}
+            onChange={(e) => setPackName(e.target.value)}
+            placeholder="My quests"
+          />
+          <InputField
+            label="Description (Optional)"
+            value={packDescription}
+            onChange={(e) => setPackDescription(e.target.value)}
+            placeholder="e.g., Our weekday routine"
+          />
+        </div>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={handleExport}
+          disabled={quests.length === 0 && shopItems.length === 0}
+        >
+          Export as pack
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+/**
+ * Get Kraken - Reward Rules Panel Component
+ *
+ * Set up personal bonus rules: streak and day-of-week multipliers, a bonus
+ * for the first quest of the day and tag combos. Bonuses are paid in sea
+ * dollars, so only owners can change them.
+ */
+
+import { useState } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import type { RewardRule, RewardRuleConfig, RewardRuleKind } from "../types";
+import type { TagSet } from "../utils/tags";
+import { REWARD_RULE_KINDS, describeRewardRule } from "../utils/rewardRules";
+import { WEEKDAY_LABELS } from "../utils/streaks";
+import { CURRENCY_NAME } from "../constants";
+
+interface RewardRulesPanelProps {
+  rules: RewardRule[];
+  tagSet: TagSet;
+  onCreate: (config: RewardRuleConfig) => Promise<void>;
+  onToggle: (rule: RewardRule, enabled: boolean) => Promise<void>;
+  onDelete: (rule: RewardRule) => Promise<void>;
+  currencyName?: string; // the user's name for sand dollars
+  canEdit?: boolean; // owners only
+}
+
+const SELECT_CLASS =
+  "border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm";
+
+// Same bounds as the reward_rules_params_valid constraint
+const MAX_MULTIPLIER = 10;
+const MAX_BONUS = 1000;
+const MAX_MIN_STREAK = 365;
+
+const parsePositive = (
+  value: string,
+  parse: (value: string) => number,
+  max: number
+): number | null => {
+  const parsed = parse(value);
+  return Number.isFinite(parsed) && parsed > 0 && parsed <= max ? parsed : null;
+};
+
+export function RewardRulesPanel({
+  rules,
+  tagSet,
+  onCreate,
+  onToggle,
+  onDelete,
+  currencyName = CURRENCY_NAME,
+  canEdit = true,
+}: RewardRulesPanelProps) {
+  const [kind, setKind] = useState<RewardRuleKind>("streak_multiplier");
+  const [minStreak, setMinStreak] = useState("7");
+  const [multiplier, setMultiplier] = useState("1.5");
+  const [amount, setAmount] = useState("5");
+  const [weekdays, setWeekdays] = useState<number[]>([0, 6]);
+  const [tag, setTag] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The rule the form describes, or null while it is incomplete
+  const buildConfig = (): RewardRuleConfig | null => {
+    const factor = parsePositive(multiplier, parseFloat, MAX_MULTIPLIER);
+    const flat = parsePositive(amount, (value) => parseInt(value, 10), MAX_BONUS);
+    switch (kind) {
+      case "streak_multiplier": {
+        const streak = parsePositive(minStreak, (value) => parseInt(value, 10), MAX_MIN_STREAK);
+        return streak && factor && factor > 1
+          ? { kind, params: { min_streak: streak, multiplier: factor } }
+          : null;
+      }
+      case "first_of_day":
+        return flat ? { kind, params: { amount: flat } } : null;
+      case "weekday_multiplier":
+        return weekdays.length > 0 && factor && factor > 1
+          ? { kind, params: { weekdays, multiplier: factor } }
+          : null;
+      case "tag_combo": {
+        const comboTag = tag || tagSet.tags[0];
+        return comboTag && flat ? { kind, params: { tag: comboTag, amount: flat } } : null;
+      }
+    }
+  };
+  const config = buildConfig();
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!config) return;
+    setIsSaving(true);
+    try {
+      await onCreate(config);
+    } catch {
+      // Reported by the caller; keep the form so it can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: RewardRule, enabled: boolean) => {
+    try {
+      await onToggle(rule, enabled);
+    } catch {
+      // Reported by the caller
+    }
+  };
+
+  const handleDelete = async (rule: RewardRule) => {
+    try {
+      await onDelete(rule);
+    } catch {
+      // Reported by the caller
+    }
+  };
+
+  const usesMultiplier = kind === "streak_multiplier" || kind === "weekday_multiplier";
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 header-text-color">
+          ✨ Reward rules
+        </h3>
+        <p className="text-xs text-gray-500 header-text-color">
+          Your own bonuses on top of quest rewards. Multipliers apply to the quest's reward and
+          stack by adding up.
+        </p>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500 header-text-color">
+          No rules yet. Add one to earn bonus {currencyName}.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between gap-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm"
+            >
+              <label className="flex items-center gap-2 min-w-0 text-gray-900 header-text-color">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  disabled={!canEdit}
+                  onChange={(e) => handleToggle(rule, e.target.checked)}
+                />
+                <span className={rule.enabled ? "font-medium" : "font-medium opacity-50"}>
+                  {describeRewardRule(rule, tagSet.labels)}
+                </span>
+              </label>
+              {canEdit && (
+                <button
+                  onClick={() => handleDelete(rule)}
+                  className="text-sm text-red-600 dark:text-red-400 hover:underline flex-shrink-0"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit ? (
+        <div className="space-y-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as RewardRuleKind)}
+            className={`${SELECT_CLASS} w-full`}
+            aria-label="Rule type"
+          >
+            {REWARD_RULE_KINDS.map((option) => (
+              <option key={option.kind} value={option.kind}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          {kind === "weekday_multiplier" && (
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <label key={label} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={weekdays.includes(day)}
+                    onChange={() => toggleWeekday(day)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {kind === "tag_combo" && (
+            <select
+              value={tag || tagSet.tags[0] || ""}
+              onChange={(e) => setTag(e.target.value)}
+              className={`${SELECT_CLASS} w-full`}
+              aria-label="Combo tag"
+            >
+              {tagSet.tags.map((key) => (
+                <option key={key} value={key}>
+                  {tagSet.getLabel(key)}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {kind === "streak_multiplier" && (
+              <InputField
+                label="Streak of at least"
+                type="number"
+                min={1}
+                max={MAX_MIN_STREAK}
+                value={minStreak}
+                onChange={(e) => setMinStreak(e.target.value)}
+              />
+            )}
+            {usesMultiplier ? (
+              <InputField
+                label="Multiplier"
+                type="number"
+                min={1}
+                max={MAX_MULTIPLIER}
+                step={0.1}
+                value={multiplier}
+                onChange={(e) => setMultiplier(e.target.value)}
+              />
+            ) : (
+              <InputField
+                label={`Bonus (${currencyName})`}
+                type="number"
+                min={1}
+                max={MAX_BONUS}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            )}
+          </div>
+
+          {kind === "tag_combo" && (
+            <p className="text-xs text-gray-500 header-text-color">
+              Paid once, when you finish the last quest with this tag for the day.
+            </p>
+          )}
+
+          <Button variant="primary" onClick={handleCreate} disabled={isSaving || !config}>
+            {isSaving ? "Adding..." : "Add rule"}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 header-text-color">
+          Only household owners can change reward rules.
+        </p>
+      )}
+    </div>
+  );
+}
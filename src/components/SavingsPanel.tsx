@@ -0,0 +1,442 @@
+/**
+ * Get Kraken - Savings Panel Component
+ *
+ * Logs real-money deposits and withdrawals against named savings buckets,
+ * reconciles them with the money quests have accrued, and imports transfers
+ * from a bank statement (CSV or OFX, read on the device)
+ */
+
+import { useMemo, useState } from "react";
+import type { ChangeEvent } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import type { SavingsBucket, SavingsTransfer } from "../types";
+import type { SavingsTransferInput } from "../hooks/useSavings";
+import { parseBankStatement } from "../utils/bankStatements";
+import type { BankTransaction } from "../utils/bankStatements";
+import { formatTransferDate, getTransferHistory, reconcileSavings, toTransferDate } from "../utils/savings";
+import { DEFAULT_MONEY, formatMoney, parseMoney } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
+
+interface SavingsPanelProps {
+  buckets: SavingsBucket[];
+  transfers: SavingsTransfer[];
+  dollarTotal: number; // accrued by quests, in cents
+  timeZone: string; // for today's date on new transfers
+  onCreateBucket: (name: string) => Promise<void>;
+  onDeleteBucket: (bucket: SavingsBucket) => Promise<void>;
+  onAddTransfer: (input: SavingsTransferInput) => Promise<void>;
+  onDeleteTransfer: (transfer: SavingsTransfer) => Promise<void>;
+  onImport: (bucketId: string, transactions: BankTransaction[]) => Promise<void>;
+  money?: MoneySettings; // household currency
+}
+
+const SELECT_CLASS =
+  "border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm";
+
+const HISTORY_PREVIEW = 10;
+
+export function SavingsPanel({
+  buckets,
+  transfers,
+  dollarTotal,
+  timeZone,
+  onCreateBucket,
+  onDeleteBucket,
+  onAddTransfer,
+  onDeleteTransfer,
+  onImport,
+  money = DEFAULT_MONEY,
+}: SavingsPanelProps) {
+  const [bucketName, setBucketName] = useState("");
+  const [bucketId, setBucketId] = useState("");
+  const [direction, setDirection] = useState<"deposit" | "withdrawal">("deposit");
+  const [amount, setAmount] = useState("");
+  const [transferredOn, setTransferredOn] = useState(() => toTransferDate(new Date(), timeZone));
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [showAllHistory, setShowAllHistory] = useState(false);
+
+  // Bank statement import
+  const [statement, setStatement] = useState<BankTransaction[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importBucketId, setImportBucketId] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reconciliation = useMemo(
+    () => reconcileSavings(dollarTotal, buckets, transfers),
+    [dollarTotal, buckets, transfers]
+  );
+  const history = useMemo(() => getTransferHistory(transfers), [transfers]);
+  const bucketNames = useMemo(
+    () => Object.fromEntries(buckets.map((bucket) => [bucket.id, bucket.name])),
+    [buckets]
+  );
+  const importedIds = useMemo(
+    () => new Set(transfers.map((transfer) => transfer.external_id).filter(Boolean)),
+    [transfers]
+  );
+
+  const parsedAmount = parseMoney(amount, money.currency);
+  const canLogTransfer =
+    !!bucketId && parsedAmount !== null && parsedAmount > 0 && !!transferredOn && !isSaving;
+  const newStatementLines = statement?.filter((line) => !importedIds.has(line.external_id)) ?? [];
+  const selectedLines = newStatementLines.filter((line) => selectedIds.has(line.external_id));
+  const visibleHistory = showAllHistory ? history : history.slice(0, HISTORY_PREVIEW);
+
+  const handleCreateBucket = async () => {
+    if (!bucketName.trim()) return;
+    try {
+      await onCreateBucket(bucketName);
+      setBucketName("");
+    } catch {
+      // Reported by the caller; keep the name so it can be retried
+    }
+  };
+
+  const handleDeleteBucket = async (bucket: SavingsBucket) => {
+    if (!confirm(`Delete the "${bucket.name}" bucket? Its transfer history is deleted too.`)) return;
+    try {
+      await onDeleteBucket(bucket);
+    } catch {
+      // Reported by the caller
+    }
+  };
+
+  const handleLogTransfer = async () => {
+    if (!canLogTransfer || parsedAmount === null) return;
+    setIsSaving(true);
+    try {
+      await onAddTransfer({
+        bucket_id: bucketId,
+        amount: direction === "deposit" ? parsedAmount : -parsedAmount,
+        transferred_on: transferredOn,
+        note: note.trim() || null,
+      });
+      setAmount("");
+      setNote("");
+    } catch {
+      // Reported by the caller; keep the form so it can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTransfer = async (transfer: SavingsTransfer) => {
+    if (!confirm("Delete this transfer?")) return;
+    try {
+      await onDeleteTransfer(transfer);
+    } catch {
+      // Reported by the caller
+    }
+  };
+
+  const handleStatementChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // allow picking the same file again
+    if (!file) return;
+
+    const { transactions, errors } = parseBankStatement(await file.text(), money.currency);
+    setImportErrors(
+      transactions.length === 0 && errors.length === 0
+        ? ["No transactions found in this statement"]
+        : errors
+    );
+    setStatement(transactions.length > 0 ? transactions : null);
+    // Money in is what usually counts as a transfer to savings
+    setSelectedIds(
+      new Set(transactions.filter((line) => line.amount > 0).map((line) => line.external_id))
+    );
+    setImportBucketId((current) => current || buckets[0]?.id || "");
+  };
+
+  const toggleLine = (externalId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(externalId)) {
+        next.delete(externalId);
+      } else {
+        next.add(externalId);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!importBucketId || selectedLines.length === 0) return;
+    setIsImporting(true);
+    try {
+      await onImport(importBucketId, selectedLines);
+      setStatement(null);
+      setImportErrors([]);
+    } catch {
+      // Reported by the caller; keep the preview so it can be retried
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const { untransferred } = reconciliation;
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 header-text-color">🏦 Savings</h3>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="text-xs text-gray-500 header-text-color">Accrued</div>
+          <div className="font-semibold text-gray-900 header-text-color">
+            {formatMoney(reconciliation.accrued, money.currency)}
+          </div>
+        </div>
+        <div className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="text-xs text-gray-500 header-text-color">Transferred</div>
+          <div className="font-semibold text-gray-900 header-text-color">
+            {formatMoney(reconciliation.transferred, money.currency)}
+          </div>
+        </div>
+        <div className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="text-xs text-gray-500 header-text-color">
+            {untransferred < 0 ? "Transferred ahead" : "Still to transfer"}
+          </div>
+          <div
+            className={`font-semibold ${
+              untransferred > 0 ? "text-amber-600 dark:text-amber-400" : "text-green-600 dark:text-green-400"
+            }`}
+          >
+            {formatMoney(Math.abs(untransferred), money.currency)}
+          </div>
+        </div>
+      </div>
+
+      {buckets.length === 0 ? (
+        <p className="text-sm text-gray-500 header-text-color">
+          No savings buckets yet. Add one for each account or fund you move money into.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {reconciliation.buckets.map(({ bucket, balance, lastTransferOn }) => (
+            <div
+              key={bucket.id}
+              className="flex items-center justify-between gap-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm"
+            >
+              <div className="min-w-0">
+                <span className="font-medium text-gray-900 header-text-color">{bucket.name}</span>
+                <span className="block text-xs text-gray-500 header-text-color">
+                  {formatMoney(balance, money.currency)}
+                  {lastTransferOn && ` · last transfer ${formatTransferDate(lastTransferOn)}`}
+                </span>
+              </div>
+              <button
+                onClick={() => handleDeleteBucket(bucket)}
+                className="text-sm text-red-600 dark:text-red-400 hover:underline flex-shrink-0"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 items-end">
+        <div className="flex-1">
+          <InputField
+            label="New bucket"
+            value={bucketName}
+            onChange={(e) => setBucketName(e.target.value)}
+            placeholder="e.g., Ski fund"
+          />
+        </div>
+        <Button variant="secondary" onClick={handleCreateBucket} disabled={!bucketName.trim()}>
+          Add
+        </Button>
+      </div>
+
+      {buckets.length > 0 && (
+        <div className="space-y-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={bucketId}
+              onChange={(e) => setBucketId(e.target.value)}
+              className={`${SELECT_CLASS} flex-1 min-w-0`}
+              aria-label="Savings bucket"
+            >
+              <option value="">Choose a bucket...</option>
+              {buckets.map((bucket) => (
+                <option key={bucket.id} value={bucket.id}>
+                  {bucket.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as "deposit" | "withdrawal")}
+              className={SELECT_CLASS}
+              aria-label="Transfer direction"
+            >
+              <option value="deposit">Deposit</option>
+              <option value="withdrawal">Withdrawal</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <InputField
+              label={`Amount (${money.currency})`}
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={untransferred > 0 ? formatMoney(untransferred, money.currency) : "0.00"}
+            />
+            <InputField
+              label="Date"
+              type="date"
+              value={transferredOn}
+              onChange={(e) => setTransferredOn(e.target.value)}
+            />
+          </div>
+          <InputField
+            label="Note (Optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g., March allowance"
+          />
+          <Button variant="primary" onClick={handleLogTransfer} disabled={!canLogTransfer}>
+            {isSaving ? "Saving..." : "Log transfer"}
+          </Button>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <h4 className="text-sm font-semibold text-gray-900 header-text-color">History</h4>
+          {visibleHistory.map(({ transfer, runningTotal }) => (
+            <div
+              key={transfer.id}
+              className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-200"
+            >
+              <div className="min-w-0">
+                <span>{formatTransferDate(transfer.transferred_on)}</span>
+                <span className="text-gray-500"> · {bucketNames[transfer.bucket_id] ?? "Deleted bucket"}</span>
+                {transfer.note && (
+                  <span className="block text-xs text-gray-500 truncate">{transfer.note}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <div className="text-right">
+                  <span
+                    className={`font-semibold ${
+                      transfer.amount > 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                    }`}
+                  >
+                    {formatMoney(transfer.amount, money.currency, true)}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {formatMoney(runningTotal, money.currency)} total
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleDeleteTransfer(transfer)}
+                  className="text-red-600 dark:text-red-400 hover:underline"
+                  aria-label="Delete transfer"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+          {history.length > HISTORY_PREVIEW && (
+            <button
+              onClick={() => setShowAllHistory((prev) => !prev)}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {showAllHistory ? "Show less" : `Show all ${history.length}`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {buckets.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Import transfers from your savings account's statement (CSV or OFX). The file is
+            read on this device and never uploaded; lines already logged are skipped.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.ofx,.qfx,text/csv"
+            onChange={handleStatementChange}
+            disabled={isImporting}
+            className="text-sm text-gray-700 dark:text-gray-300"
+          />
+
+          {importErrors.length > 0 && (
+            <ul className="p-3 rounded-lg bg-red-100 dark:bg-red-900/40 text-sm text-red-800 dark:text-red-200 list-disc list-inside">
+              {importErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+
+          {statement && (
+            <div className="p-3 rounded-lg bg-amber-100 dark:bg-amber-900/40 space-y-2 text-sm text-gray-900 header-text-color">
+              <p>
+                {newStatementLines.length} new of {statement.length} line(s). Pick the ones that
+                were transfers to savings.
+              </p>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {statement.map((line) => {
+                  const isImported = importedIds.has(line.external_id);
+                  return (
+                    <label
+                      key={line.external_id}
+                      className={`flex items-center gap-2 ${isImported ? "opacity-50" : ""}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isImported || selectedIds.has(line.external_id)}
+                        disabled={isImported}
+                        onChange={() => toggleLine(line.external_id)}
+                      />
+                      <span className="flex-shrink-0">{formatTransferDate(line.date)}</span>
+                      <span className="flex-1 min-w-0 truncate">
+                        {isImported ? "Already logged" : line.description}
+                      </span>
+                      <span className="flex-shrink-0 font-semibold">
+                        {formatMoney(line.amount, money.currency, true)}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={importBucketId}
+                  onChange={(e) => setImportBucketId(e.target.value)}
+                  className={`${SELECT_CLASS} flex-1 min-w-0`}
+                  aria-label="Import into bucket"
+                >
+                  {buckets.map((bucket) => (
+                    <option key={bucket.id} value={bucket.id}>
+                      {bucket.name}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={handleImport}
+                  loading={isImporting}
+                  disabled={!importBucketId || selectedLines.length === 0}
+                >
+                  Import {selectedLines.length}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => setStatement(null)} disabled={isImporting}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Get Kraken - Schedule Picker Component
+ *
+ * Sets when a quest is due (every day, chosen weekdays, or a day of the
+ * month, at a local time) for the Today list and reminders
+ */
+
+import type { QuestSchedule } from "../types";
+import { WEEKDAY_LABELS } from "../utils/streaks";
+
+interface SchedulePickerProps {
+  schedule: QuestSchedule | null;
+  onChange: (schedule: QuestSchedule | null) => void;
+}
+
+type ScheduleType = QuestSchedule["type"] | "none";
+
+const SCHEDULE_OPTIONS: { type: ScheduleType; label: string }[] = [
+  { type: "none", label: "None" },
+  { type: "daily", label: "Every day" },
+  { type: "weekdays", label: "Days of week" },
+  { type: "monthly", label: "Monthly" },
+];
+
+const DEFAULT_TIME = "07:00";
+
+function defaultScheduleFor(type: ScheduleType, time: string): QuestSchedule | null {
+  switch (type) {
+    case "none":
+      return null;
+    case "daily":
+      return { type: "daily", time };
+    case "weekdays":
+      return { type: "weekdays", days: [1, 2, 3, 4, 5], time };
+    case "monthly":
+      return { type: "monthly", day: 1, time };
+  }
+}
+
+export function SchedulePicker({ schedule, onChange }: SchedulePickerProps) {
+  const currentType: ScheduleType = schedule?.type ?? "none";
+  const time = schedule?.time ?? DEFAULT_TIME;
+
+  const toggleDay = (day: number) => {
+    if (schedule?.type !== "weekdays") return;
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter((d) => d !== day)
+      : [...schedule.days, day].sort((a, b) => a - b);
+    if (days.length > 0) onChange({ ...schedule, days });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+        Schedule & reminders
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {SCHEDULE_OPTIONS.map((option) => (
+          <button
+            key={option.type}
+            type="button"
+            onClick={() =>
+              option.type !== currentType && onChange(defaultScheduleFor(option.type, time))
+            }
+            className={`px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all touch-manipulation ${
+              option.type === currentType
+                ? "border-amber-500 bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200"
+                : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {schedule?.type === "weekdays" && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`w-11 py-1 rounded-lg text-sm font-medium transition-all touch-manipulation ${
+                schedule.days.includes(day)
+                  ? "bg-amber-500 text-white"
+                  : "bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {schedule && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          {schedule.type === "monthly" && (
+            <>
+              <span>Day</span>
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={schedule.day}
+                onChange={(e) =>
+                  onChange({
+                    ...schedule,
+                    day: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)),
+                  })
+                }
+                className="w-16 text-center border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1"
+                aria-label="Day of month"
+              />
+            </>
+          )}
+          <span>at</span>
+          <input
+            type="time"
+            value={schedule.time}
+            onChange={(e) => e.target.value && onChange({ ...schedule, time: e.target.value })}
+            className="border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1"
+            aria-label="Due time"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * Get Kraken - Shop Budgets Panel Component
+ *
+ * Set weekly or monthly spending caps and purchase cooldowns on shop tags or
+ * items, and whether purchases may take the wallet below zero (owners only)
+ */
+
+import { useState } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import type { BudgetPeriod, ShopBudget, ShopItem } from "../types";
+import type { ShopBudgetInput } from "../hooks/useShopBudgets";
+import type { TagSet } from "../utils/tags";
+import { getBudgetLabel } from "../utils/budgets";
+import { CURRENCY_NAME } from "../constants";
+import { DEFAULT_MONEY, formatMoney, parseMoney } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
+
+interface ShopBudgetsPanelProps {
+  budgets: ShopBudget[];
+  shopItems: ShopItem[];
+  tagSet: TagSet;
+  preventNegativeBalance: boolean;
+  canEdit: boolean;
+  showDollarAmounts?: boolean;
+  onSave: (input: ShopBudgetInput) => Promise<void>;
+  onDelete: (budget: ShopBudget) => Promise<void>;
+  onPreventNegativeBalanceChange: (enabled: boolean) => Promise<void>;
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
+}
+
+const SELECT_CLASS =
+  "border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm";
+
+// Blank means "no limit"
+const parseLimit = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+// Money caps are typed in whole units ("25.50") and stored in cents
+const parseMoneyLimit = (value: string, currency: string): number | null => {
+  const parsed = parseMoney(value, currency);
+  return parsed !== null && parsed >= 0 ? parsed : null;
+};
+
+function describeBudget(budget: ShopBudget, currencyName: string, currency: string): string {
+  const parts: string[] = [];
+  const per = budget.period === "week" ? "week" : "month";
+  if (budget.coin_limit !== null) parts.push(`${budget.coin_limit} ${currencyName}/${per}`);
+  if (budget.dollar_limit !== null) parts.push(`${formatMoney(budget.dollar_limit, currency)}/${per}`);
+  if (budget.cooldown_hours !== null) parts.push(`${budget.cooldown_hours}h cooldown`);
+  return parts.join(" · ") || "No limits";
+}
+
+export function ShopBudgetsPanel({
+  budgets,
+  shopItems,
+  tagSet,
+  preventNegativeBalance,
+  canEdit,
+  showDollarAmounts = false,
+  onSave,
+  onDelete,
+  onPreventNegativeBalanceChange,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
+}: ShopBudgetsPanelProps) {
+  // "tag:<key>" or "item:<id>"
+  const [target, setTarget] = useState("");
+  const [period, setPeriod] = useState<BudgetPeriod>("week");
+  const [coinLimit, setCoinLimit] = useState("");
+  const [dollarLimit, setDollarLimit] = useState("");
+  const [cooldownHours, setCooldownHours] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const limits = {
+    coin_limit: parseLimit(coinLimit),
+    dollar_limit: showDollarAmounts ? parseMoneyLimit(dollarLimit, money.currency) : null,
+    cooldown_hours: parseLimit(cooldownHours) || null,
+  };
+  const hasLimit = Object.values(limits).some((value) => value !== null);
+
+  const handleSave = async () => {
+    if (!target || !hasLimit) return;
+    const separator = target.indexOf(":");
+    const kind = target.slice(0, separator);
+    const id = target.slice(separator + 1);
+    setIsSaving(true);
+    try {
+      await onSave({
+        tag_key: kind === "tag" ? id : null,
+        shop_item_id: kind === "item" ? id : null,
+        period,
+        ...limits,
+      });
+      setTarget("");
+      setCoinLimit("");
+      setDollarLimit("");
+      setCooldownHours("");
+    } catch {
+      // Reported by the caller; keep the form so it can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: ShopBudget) => {
+    try {
+      await onDelete(budget);
+    } catch {
+      // Reported by the caller
+    }
+  };
+
+  const handleToggleNegative = async (enabled: boolean) => {
+    try {
+      await onPreventNegativeBalanceChange(enabled);
+    } catch {
+      // Reported by the caller
+    }
+  };
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 header-text-color">
+        🧾 Spending limits
+      </h3>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+        <input
+          type="checkbox"
+          checked={preventNegativeBalance}
+          disabled={!canEdit}
+          onChange={(e) => handleToggleNegative(e.target.checked)}
+        />
+        Block purchases the wallet can't cover
+      </label>
+
+      {budgets.length === 0 ? (
+        <p className="text-sm text-gray-500 header-text-color">
+          No budgets yet. Add one to cap spending on a category or item.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {budgets.map((budget) => (
+            <div
+              key={budget.id}
+              className="flex items-center justify-between gap-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm"
+            >
+              <div className="min-w-0">
+                <span className="font-medium text-gray-900 header-text-color">
+                  {budget.tag_key !== null ? "🏷️ " : ""}
+                  {getBudgetLabel(budget, shopItems, tagSet.labels)}
+                </span>
+                <span className="block text-xs text-gray-500 header-text-color">
+                  {describeBudget(budget, currencyName, money.currency)}
+                </span>
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => handleDelete(budget)}
+                  className="text-sm text-red-600 dark:text-red-400 hover:underline flex-shrink-0"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit ? (
+        <div className="space-y-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className={`${SELECT_CLASS} flex-1 min-w-0`}
+              aria-label="Budget for"
+            >
+              <option value="">Choose a category or item...</option>
+              <optgroup label="Categories">
+                {tagSet.tags.map((tag) => (
+                  <option key={tag} value={`tag:${tag}`}>
+                    {tagSet.getLabel(tag)}
+                  </option>
+                ))}
+              </optgroup>
+              <optgroup label="Items">
+                {shopItems.map((item) => (
+                  <option key={item.id} value={`item:${item.id}`}>
+                    {item.name}
+                  </option>
+                ))}
+              </optgroup>
+            </select>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as BudgetPeriod)}
+              className={SELECT_CLASS}
+              aria-label="Budget period"
+            >
+              <option value="week">Per week</option>
+              <option value="month">Per month</option>
+            </select>
+          </div>
+          <div className={`grid gap-2 ${showDollarAmounts ? "grid-cols-3" : "grid-cols-2"}`}>
+            <InputField
+              label={`Cap (${currencyName})`}
+              type="number"
+              min={0}
+              value={coinLimit}
+              onChange={(e) => setCoinLimit(e.target.value)}
+              placeholder="No cap"
+            />
+            {showDollarAmounts && (
+              <InputField
+                label={`Cap (${money.currency})`}
+                inputMode="decimal"
+                value={dollarLimit}
+                onChange={(e) => setDollarLimit(e.target.value)}
+                placeholder="No cap"
+              />
+            )}
+            <InputField
+              label="Cooldown (hours)"
+              type="number"
+              min={1}
+              value={cooldownHours}
+              onChange={(e) => setCooldownHours(e.target.value)}
+              placeholder="None"
+            />
+          </div>
+          <p className="text-xs text-gray-500 header-text-color">
+            Saving a budget for a category or item that already has one replaces it.
+          </p>
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            disabled={isSaving || !target || !hasLimit}
+          >
+            {isSaving ? "Saving..." : "Save budget"}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 header-text-color">
+          Only household owners can change spending limits.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -7,31 +7,53 @@
 import { useState, useMemo, useRef } from "react";
 import { Button } from "@ffx/sdk";
 import type { ShopItem } from "../types";
-import { CyclingShopBorder } from "./CyclingBorder";
-import { SEA_DOLLAR_ICON_PATH } from "../constants";
+import { CyclingBorder } from "./CyclingBorder";
+import type { TagSet } from "../utils/tags";
+import { HighlightedText } from "./HighlightedText";
+import type { MatchRange } from "../utils/filtering";
+import { SEA_DOLLAR_ICON_PATH, CURRENCY_NAME } from "../constants";
 import { useShopItemOverrides } from "../hooks/useShopItemOverrides";
 import { UnifiedNumericInput } from "./UnifiedNumericInput";
+import { formatDuration } from "../utils/budgets";
+import { DEFAULT_MONEY, formatMoney } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
 
 interface ShopItemCardProps {
   item: ShopItem;
+  tagSet: TagSet;
   walletTotal: number;
   walletDollarTotal?: number;
+  allowNegativeBalance?: boolean; // household lets purchases overdraw the wallet
+  cooldownRemaining?: number; // ms until it can be bought again
   onPurchase: (itemId: string, price: number) => Promise<void>;
   onViewLogs: (itemId: string) => void;
   onEdit: (item: ShopItem) => void;
   showDollarAmounts?: boolean;
   userPurchaseCount?: number; // Count from user's own logs
+  nameHighlights?: MatchRange[]; // search matches in the name
+  starred?: boolean;
+  onToggleStar?: (id: string) => void; // omitted hides the star
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
 }
 
 export function ShopItemCard({
   item,
+  tagSet,
   walletTotal,
   walletDollarTotal = 0,
+  allowNegativeBalance = false,
+  cooldownRemaining = 0,
   onPurchase,
   onViewLogs,
   onEdit,
   showDollarAmounts = false,
   userPurchaseCount,
+  nameHighlights,
+  starred = false,
+  onToggleStar,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
 }: ShopItemCardProps) {
   const [isPurchasing, setIsPurchasing] = useState(false);
   const { getEffectivePrice, getEffectiveDollarAmount, getEffectiveTags, getEffectiveName, updateOverride } = useShopItemOverrides();
@@ -138,18 +160,43 @@ export function ShopItemCard({
   // Check if user can afford both sand dollars and dollars (if dollar amounts are enabled)
   const canAffordSeaDollars = walletTotal >= effectivePrice;
   const canAffordDollars = !showDollarAmounts || effectiveDollarAmount === 0 || (walletDollarTotal >= Math.round(effectiveDollarAmount));
-  const canAfford = canAffordSeaDollars && canAffordDollars;
+  const canAfford = allowNegativeBalance || (canAffordSeaDollars && canAffordDollars);
+  const coolingDown = cooldownRemaining > 0;
 
   return (
-    <CyclingShopBorder tags={effectiveTags}>
+    <CyclingBorder tags={effectiveTags} tagSet={tagSet}>
       <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl shadow-lg overflow-hidden touch-manipulation backdrop-blur-sm">
         {/* Card Content */}
         <div className="p-4">
           {/* Item Info */}
           <div className="mb-4">
-            <h3 className="text-xl font-bold text-gray-900 header-text-color mb-2">
-              {effectiveName}
-            </h3>
+            <div className="flex items-center gap-3 mb-2">
+              {item.photo_url && (
+                <img
+                  src={item.photo_url}
+                  alt=""
+                  loading="lazy"
+                  className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
+                />
+              )}
+              <h3 className="text-xl font-bold text-gray-900 header-text-color">
+                <HighlightedText text={effectiveName} ranges={nameHighlights} />
+              </h3>
+              {onToggleStar && (
+                <button
+                  type="button"
+                  onClick={() => onToggleStar(item.id)}
+                  aria-pressed={starred}
+                  aria-label={starred ? "Unstar" : "Star"}
+                  title={starred ? "Unstar" : "Star to pin at the top"}
+                  className={`ml-auto text-2xl leading-none touch-manipulation ${
+                    starred ? "text-amber-500" : "text-gray-400 hover:text-amber-500"
+                  }`}
+                >
+                  {starred ? "★" : "☆"}
+                </button>
+              )}
+            </div>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <img src={SEA_DOLLAR_ICON_PATH} alt="Sea Dollar" className="w-6 h-6" />
@@ -161,7 +208,7 @@ export function ShopItemCard({
                     <span className="text-lg font-semibold text-amber-600 dark:text-amber-400">|</span>
                     <span className="text-lg">💵</span>
                     <span className="text-lg font-semibold text-amber-600 dark:text-amber-400">
-                      {Math.round(effectiveDollarAmount)}
+                      {formatMoney(effectiveDollarAmount, money.currency)}
                     </span>
                   </>
                 )}
@@ -181,7 +228,7 @@ export function ShopItemCard({
                   onSave={handlePriceSave}
                   min={0}
                   className="text-amber-600 dark:text-amber-400"
-                  ariaLabel="Shop item price in sand dollars"
+                  ariaLabel={`Shop item price in ${currencyName}`}
                 />
               </div>
               {showDollarAmounts && (
@@ -193,6 +240,7 @@ export function ShopItemCard({
                     min={0}
                     className="text-amber-600 dark:text-amber-400"
                     ariaLabel="Shop item dollar amount"
+                    currency={money.currency}
                   />
                 </div>
               )}
@@ -205,15 +253,17 @@ export function ShopItemCard({
               size="lg"
               onClick={handlePurchase}
               loading={isPurchasing}
-              disabled={!canAfford && walletTotal >= 0}
+              disabled={coolingDown || (!canAfford && walletTotal >= 0)}
               className="flex-1 touch-manipulation"
             >
-              {canAfford || walletTotal < 0
+              {coolingDown
+                ? `Available in ${formatDuration(cooldownRemaining)}`
+                : canAfford || walletTotal < 0
                 ? "Purchase"
                 : !canAffordSeaDollars
-                ? `Need ${effectivePrice - walletTotal} more sand dollars`
+                ? `Need ${effectivePrice - walletTotal} more ${currencyName}`
                 : !canAffordDollars
-                ? `Need ${Math.round(effectiveDollarAmount) - Math.round(walletDollarTotal)} more dollars`
+                ? `Need ${formatMoney(Math.round(effectiveDollarAmount) - Math.round(walletDollarTotal), money.currency)} more`
                 : "Cannot afford"}
             </Button>
             <Button
@@ -235,6 +285,6 @@ export function ShopItemCard({
           </div>
         </div>
       </div>
-    </CyclingShopBorder>
+    </CyclingBorder>
   );
 }
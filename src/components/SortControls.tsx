@@ -0,0 +1,103 @@
+/**
+ * Get Kraken - Sort Controls Components
+ *
+ * Sort mode picker and the drag-to-reorder wrapper used by the quest and shop
+ * grids in "My order" mode. Arrow buttons cover touch screens, where HTML5
+ * drag and drop isn't available.
+ */
+
+import { useState } from "react";
+import type { ReactNode } from "react";
+import type { SortMode } from "../utils/sorting";
+
+interface SortSelectProps {
+  options: { mode: SortMode; label: string }[];
+  value: SortMode;
+  onChange: (mode: SortMode) => void;
+}
+
+export function SortSelect({ options, value, onChange }: SortSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as SortMode)}
+      className="border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm"
+      aria-label="Sort by"
+    >
+      {options.map((option) => (
+        <option key={option.mode} value={option.mode}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+interface ReorderableItemProps {
+  id: string;
+  enabled: boolean;
+  previousId?: string; // neighbours in the displayed order
+  nextId?: string;
+  onMove: (fromId: string, toId: string) => void;
+  children: ReactNode;
+}
+
+const DRAG_TYPE = "application/x-get-kraken-item";
+
+export function ReorderableItem({
+  id,
+  enabled,
+  previousId,
+  nextId,
+  onMove,
+  children,
+}: ReorderableItemProps) {
+  const [isOver, setIsOver] = useState(false);
+
+  if (!enabled) return <>{children}</>;
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        const fromId = e.dataTransfer.getData(DRAG_TYPE);
+        if (fromId && fromId !== id) onMove(fromId, id);
+      }}
+      className={`cursor-grab rounded-2xl ${isOver ? "ring-2 ring-amber-400" : ""}`}
+    >
+      <div className="flex justify-end gap-1 mb-1">
+        <button
+          type="button"
+          onClick={() => previousId && onMove(id, previousId)}
+          disabled={!previousId}
+          aria-label="Move earlier"
+          className="w-7 h-7 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 disabled:opacity-30 touch-manipulation"
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          onClick={() => nextId && onMove(id, nextId)}
+          disabled={!nextId}
+          aria-label="Move later"
+          className="w-7 h-7 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 disabled:opacity-30 touch-manipulation"
+        >
+          ↓
+        </button>
+      </div>
+      {children}
+    </div>
+  );
+}
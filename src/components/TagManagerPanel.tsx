@@ -0,0 +1,178 @@
+/**
+ * Get Kraken - Tag Manager Panel Component
+ *
+ * Create, rename, recolor and delete the household's quest and shop tags
+ */
+
+import { useState } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import type { TagDefinition, TagScope } from "../types";
+import { TAG_COLORS, DEFAULT_TAG_COLOR, getTagSwatchClass, isTagColor } from "../utils/tagPalette";
+import type { TagColor } from "../utils/tagPalette";
+
+interface TagManagerPanelProps {
+  definitions: TagDefinition[];
+  onCreate: (scope: TagScope, label: string, color: TagColor) => Promise<void>;
+  onUpdate: (tagId: string, updates: { label?: string; color?: TagColor }) => Promise<void>;
+  onDelete: (tag: TagDefinition) => Promise<void>;
+}
+
+const SCOPES: { scope: TagScope; title: string }[] = [
+  { scope: "quest", title: "Quest tags" },
+  { scope: "shop_item", title: "Shop tags" },
+];
+
+function ColorSelect({ value, onChange }: { value: TagColor; onChange: (color: TagColor) => void }) {
+  return (
+    <div className="flex items-center gap-2 flex-shrink-0">
+      <span className={`w-4 h-4 rounded-full ${getTagSwatchClass(value)}`} aria-hidden="true" />
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as TagColor)}
+        className="border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm"
+        aria-label="Tag color"
+      >
+        {TAG_COLORS.map((color) => (
+          <option key={color} value={color}>
+            {color}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function TagRow({
+  tag,
+  onUpdate,
+  onDelete,
+}: {
+  tag: TagDefinition;
+  onUpdate: TagManagerPanelProps["onUpdate"];
+  onDelete: TagManagerPanelProps["onDelete"];
+}) {
+  const [label, setLabel] = useState(tag.label);
+
+  const saveLabel = async () => {
+    const trimmed = label.trim();
+    if (!trimmed) {
+      setLabel(tag.label);
+      return;
+    }
+    if (trimmed === tag.label) return;
+    try {
+      await onUpdate(tag.id, { label: trimmed });
+    } catch {
+      setLabel(tag.label); // reported by the caller
+    }
+  };
+
+  const saveColor = async (color: TagColor) => {
+    try {
+      await onUpdate(tag.id, { color });
+    } catch {
+      // Reported by the caller
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the "${tag.label}" tag? It will be removed from every quest or item that uses it.`)) {
+      return;
+    }
+    try {
+      await onDelete(tag);
+    } catch {
+      // Reported by the caller
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <ColorSelect
+        value={isTagColor(tag.color) ? tag.color : DEFAULT_TAG_COLOR}
+        onChange={saveColor}
+      />
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={saveLabel}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        className="flex-1 min-w-0 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm"
+        aria-label="Tag name"
+      />
+      <button
+        onClick={handleDelete}
+        className="text-sm text-red-600 dark:text-red-400 hover:underline flex-shrink-0"
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
+
+export function TagManagerPanel({ definitions, onCreate, onUpdate, onDelete }: TagManagerPanelProps) {
+  const [newLabels, setNewLabels] = useState<Record<TagScope, string>>({ quest: "", shop_item: "" });
+  const [newColors, setNewColors] = useState<Record<TagScope, TagColor>>({
+    quest: DEFAULT_TAG_COLOR,
+    shop_item: DEFAULT_TAG_COLOR,
+  });
+  const [creatingScope, setCreatingScope] = useState<TagScope | null>(null);
+
+  const handleCreate = async (scope: TagScope) => {
+    const label = newLabels[scope].trim();
+    if (!label) return;
+    setCreatingScope(scope);
+    try {
+      await onCreate(scope, label, newColors[scope]);
+      setNewLabels((prev) => ({ ...prev, [scope]: "" }));
+    } catch {
+      // Reported by the caller; keep the typed name so it can be retried
+    } finally {
+      setCreatingScope(null);
+    }
+  };
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 header-text-color">
+        🏷️ Tags
+      </h3>
+
+      {SCOPES.map(({ scope, title }) => (
+        <div key={scope} className="space-y-2">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-200">{title}</p>
+          {definitions
+            .filter((tag) => tag.scope === scope)
+            .map((tag) => (
+              // Keyed on the label too, so a rename elsewhere resets the input
+              <TagRow key={`${tag.id}:${tag.label}`} tag={tag} onUpdate={onUpdate} onDelete={onDelete} />
+            ))}
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <InputField
+                label="New tag"
+                value={newLabels[scope]}
+                onChange={(e) => setNewLabels((prev) => ({ ...prev, [scope]: e.target.value }))}
+                placeholder="Kayaking"
+              />
+            </div>
+            <ColorSelect
+              value={newColors[scope]}
+              onChange={(color) => setNewColors((prev) => ({ ...prev, [scope]: color }))}
+            />
+            <Button
+              variant="primary"
+              onClick={() => handleCreate(scope)}
+              disabled={creatingScope !== null || !newLabels[scope].trim()}
+            >
+              {creatingScope === scope ? "Adding..." : "Add"}
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Get Kraken - Tag Picker Component
+ *
+ * Toggle buttons for choosing a quest's or shop item's tags
+ */
+
+import type { Tag } from "../types";
+import type { TagSet } from "../utils/tags";
+
+interface TagPickerProps {
+  tagSet: TagSet;
+  selected: Tag[];
+  onChange: (tags: Tag[]) => void;
+  label?: string;
+}
+
+export function TagPicker({
+  tagSet,
+  selected,
+  onChange,
+  label = "Category (optional)",
+}: TagPickerProps) {
+  const toggleTag = (tagOption: Tag) => {
+    onChange(
+      selected.includes(tagOption)
+        ? selected.filter((t) => t !== tagOption)
+        : [...selected, tagOption]
+    );
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+        {label}
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {tagSet.tags.map((tagOption) => {
+          const isActive = selected.includes(tagOption);
+          const classes = tagSet.getClasses(tagOption).button;
+          return (
+            <button
+              key={tagOption}
+              type="button"
+              onClick={() => toggleTag(tagOption)}
+              className={`px-4 py-2 rounded-lg border-2 font-medium transition-all touch-manipulation ${
+                isActive ? classes.active : classes.base
+              }`}
+            >
+              {tagSet.getLabel(tagOption)}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * Get Kraken - Today List Component
+ *
+ * Lists scheduled quests that are overdue, due, or coming up later today,
+ * with quick completion and reminder settings
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import type { Quest, QuestLog } from "../types";
+import { getScheduleState, formatSchedule } from "../utils/schedules";
+import type { ScheduleState } from "../utils/schedules";
+import { REMINDER_LEAD_OPTIONS } from "../constants";
+
+interface TodayListProps {
+  quests: Quest[];
+  allQuestLogs: QuestLog[];
+  timeZone: string;
+  onCompleteQuest: (questId: string, reward: number) => Promise<void>;
+  remindersSupported: boolean;
+  remindersEnabled: boolean;
+  reminderPermission: NotificationPermission;
+  reminderLeadMinutes: number;
+  onToggleReminders: () => Promise<void>;
+  onReminderLeadMinutesChange: (minutes: number) => void;
+}
+
+const STATUS_ORDER: Record<ScheduleState["status"], number> = {
+  overdue: 0,
+  due: 1,
+  upcoming: 2,
+  done: 3,
+};
+
+const STATUS_CLASSES: Record<ScheduleState["status"], string> = {
+  overdue: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+  due: "bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200",
+  upcoming: "bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200",
+  done: "bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300",
+};
+
+// Re-evaluate due/overdue as the clock moves
+const CLOCK_TICK_MS = 60 * 1000;
+
+export function TodayList({
+  quests,
+  allQuestLogs,
+  timeZone,
+  onCompleteQuest,
+  remindersSupported,
+  remindersEnabled,
+  reminderPermission,
+  reminderLeadMinutes,
+  onToggleReminders,
+  onReminderLeadMinutesChange,
+}: TodayListProps) {
+  const [now, setNow] = useState(() => new Date());
+  const [completingId, setCompletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const items = useMemo(() => {
+    const lastCompleted = new Map<string, string>();
+    allQuestLogs.forEach((log) => {
+      const current = lastCompleted.get(log.quest_id);
+      if (!current || new Date(log.completed_at) > new Date(current)) {
+        lastCompleted.set(log.quest_id, log.completed_at);
+      }
+    });
+
+    return quests
+      .flatMap((quest) => {
+        const schedule = quest.schedule;
+        if (!schedule) return [];
+        const state = getScheduleState(schedule, lastCompleted.get(quest.id) ?? null, now, timeZone);
+        return state && state.status !== "done" ? [{ quest, schedule, state }] : [];
+      })
+      .sort(
+        (a, b) =>
+          STATUS_ORDER[a.state.status] - STATUS_ORDER[b.state.status] ||
+          a.state.occurrence.getTime() - b.state.occurrence.getTime()
+      );
+  }, [quests, allQuestLogs, now, timeZone]);
+
+  const hasSchedules = quests.some((quest) => quest.schedule);
+  if (!hasSchedules) return null;
+
+  const handleComplete = async (quest: Quest) => {
+    setCompletingId(quest.id);
+    try {
+      await onCompleteQuest(quest.id, quest.reward);
+    } finally {
+      setCompletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-4 shadow-lg backdrop-blur-sm mb-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-gray-900 header-text-color">
+          📅 Today
+        </h3>
+        {remindersSupported && (
+          <div className="flex items-center gap-2 text-sm">
+            {remindersEnabled && reminderPermission === "granted" && (
+              <select
+                value={reminderLeadMinutes}
+                onChange={(e) => onReminderLeadMinutesChange(parseInt(e.target.value))}
+                className="border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1"
+                aria-label="Reminder lead time"
+              >
+                {REMINDER_LEAD_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes === 0 ? "At due time" : `${minutes} min before`}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={onToggleReminders}
+              disabled={reminderPermission === "denied"}
+              className="px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-medium disabled:opacity-50 touch-manipulation"
+              title={
+                reminderPermission === "denied"
+                  ? "Notifications are blocked in your browser settings"
+                  : undefined
+              }
+            >
+              {remindersEnabled && reminderPermission === "granted"
+                ? "🔔 Reminders on"
+                : "🔕 Reminders off"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500 header-text-color">
+          All caught up for today! 🎉
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {items.map(({ quest, schedule, state }) => (
+            <div
+              key={quest.id}
+              className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+            >
+              <div className="min-w-0">
+                <div className="text-gray-900 header-text-color font-medium truncate">
+                  {quest.name}
+                </div>
+                <div className="text-xs text-gray-500 header-text-color">
+                  {formatSchedule(schedule)}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_CLASSES[state.status]}`}
+                >
+                  {state.status === "overdue"
+                    ? `Overdue since ${state.occurrence.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone })}`
+                    : state.status === "due"
+                      ? "Due"
+                      : state.occurrence.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}
+                </span>
+                <button
+                  onClick={() => handleComplete(quest)}
+                  disabled={completingId === quest.id}
+                  className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white text-sm font-semibold disabled:opacity-50 touch-manipulation"
+                >
+                  {completingId === quest.id ? "..." : "Done"}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,10 +8,13 @@
  * - Debounced save with blur flush
  * - Cancels debounce on blur before flush
  * - Ignores prop updates while focused
+ * - With a currency, the value is in minor units (cents): typing and display
+ *   use decimals, and +/- step by whole units
  */
 
 import { useState, useEffect, useRef } from "react";
 import { useDebounce } from "../utils/useDebounce";
+import { getMinorUnitsPerUnit, parseMoney, toMoneyInput } from "../utils/money";
 
 interface UnifiedNumericInputProps {
   value: number;
@@ -25,6 +28,7 @@ interface UnifiedNumericInputProps {
   showSuffix?: boolean;
   ariaLabel?: string;
   increment?: number;
+  currency?: string; // ISO 4217; value is then in minor units
 }
 
 export function UnifiedNumericInput({
@@ -39,20 +43,30 @@ export function UnifiedNumericInput({
   showSuffix = false,
   ariaLabel,
   increment = 1,
+  currency,
 }: UnifiedNumericInputProps) {
   const [inputValue, setInputValue] = useState<string>("");
   const [isFocused, setIsFocused] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const lastSavedValueRef = useRef<number>(value);
 
+  const format = (val: number) => (currency ? toMoneyInput(val, currency) : val.toString());
+  const parse = (text: string) => {
+    if (currency) return parseMoney(text, currency);
+    const parsed = parseInt(text, 10);
+    return isNaN(parsed) ? null : parsed;
+  };
+  const step = (currency ? getMinorUnitsPerUnit(currency) : 1) * increment;
+  const clamp = (val: number) => Math.max(min, max !== undefined ? Math.min(max, val) : val);
+
   // Initialize input value from prop - but ignore while focused
   useEffect(() => {
     if (!isFocused) {
       // Always display the persisted numeric value, including 0
-      setInputValue(value.toString());
+      setInputValue(currency ? toMoneyInput(value, currency) : value.toString());
       lastSavedValueRef.current = value;
     }
-  }, [value, isFocused]);
+  }, [value, isFocused, currency]);
 
   // Debounced save function with cancel
   const [debouncedSave, cancelDebounce] = useDebounce(async (val: number) => {
@@ -71,20 +85,21 @@ export function UnifiedNumericInput({
       return;
     }
 
-    // Remove leading zeros (e.g., "02" -> "2")
-    const normalizedValue = rawValue.replace(/^0+/, "") || "0";
+    // Remove leading zeros (e.g., "02" -> "2", but "0.5" stays)
+    const normalizedValue = rawValue.replace(/^0+(?=\d)/, "");
     
-    // Parse as integer
-    const numValue = parseInt(normalizedValue, 10);
+    // Parse as integer (or money with up to the currency's decimals)
+    const numValue = parse(normalizedValue);
     
-    if (isNaN(numValue)) {
+    if (numValue === null) {
       return; // Invalid input, don't update
     }
 
     // Clamp to min/max
-    const clampedValue = Math.max(min, max !== undefined ? Math.min(max, numValue) : numValue);
+    const clampedValue = clamp(numValue);
     
-    setInputValue(clampedValue.toString());
+    // Keep a trailing "." or "5.0" while typing money; out-of-range input shows the clamped value
+    setInputValue(currency && clampedValue === numValue ? normalizedValue : format(clampedValue));
     debouncedSave(clampedValue);
   };
 
@@ -99,12 +114,11 @@ export function UnifiedNumericInput({
     if (inputValue === "") {
       finalValue = min;
     } else {
-      const parsed = parseInt(inputValue, 10);
-      finalValue = isNaN(parsed) ? min : parsed;
+      finalValue = parse(inputValue) ?? min;
     }
     
     // Clamp to min/max
-    const clampedFinal = Math.max(min, max !== undefined ? Math.min(max, finalValue) : finalValue);
+    const clampedFinal = clamp(finalValue);
     
     // Save immediately on blur (no debounce)
     if (clampedFinal !== lastSavedValueRef.current) {
@@ -113,19 +127,19 @@ export function UnifiedNumericInput({
     }
     
     // Reset display value to persisted value (always show number, including 0)
-    setInputValue(clampedFinal.toString());
+    setInputValue(format(clampedFinal));
   };
 
   const handleFocus = () => {
     setIsFocused(true);
     // When focusing, allow empty string for editing (transient UI state)
     // User can clear and type, but we'll show the value initially
-    setInputValue(value.toString());
+    setInputValue(format(value));
     inputRef.current?.select();
   };
 
   const handleIncrement = async (delta: number) => {
-    const newValue = Math.max(min, max !== undefined ? Math.min(max, value + delta * increment) : value + delta * increment);
+    const newValue = clamp(value + delta * step);
     if (newValue !== value) {
       // Cancel any pending debounce
       cancelDebounce();
@@ -137,7 +151,7 @@ export function UnifiedNumericInput({
 
   // Display: show inputValue when focused (transient editing state),
   // otherwise always show the persisted numeric value exactly, including 0
-  const displayValue = isFocused ? inputValue : value.toString();
+  const displayValue = isFocused ? inputValue : format(value);
 
   return (
     <div className="inline-flex items-center gap-1">
@@ -153,13 +167,13 @@ export function UnifiedNumericInput({
       <input
         ref={inputRef}
         type="text"
-        inputMode="numeric"
-        pattern="[0-9]*"
+        inputMode={currency ? "decimal" : "numeric"}
+        pattern={currency ? undefined : "[0-9]*"}
         value={displayValue}
         onChange={handleChange}
         onFocus={handleFocus}
         onBlur={handleBlur}
-        className={`text-lg font-semibold w-[4.5rem] max-w-[4.5rem] text-center bg-transparent border-b-2 border-transparent focus:border-amber-400 dark:focus:border-amber-500 focus:outline-none flex-shrink-0 ${className}`}
+        className={`text-lg font-semibold ${currency ? "w-[6rem] max-w-[6rem]" : "w-[4.5rem] max-w-[4.5rem]"} text-center bg-transparent border-b-2 border-transparent focus:border-amber-400 dark:focus:border-amber-500 focus:outline-none flex-shrink-0 ${className}`}
         aria-label={ariaLabel}
       />
       <button
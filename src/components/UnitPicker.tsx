@@ -0,0 +1,58 @@
+/**
+ * Get Kraken - Unit Picker Component
+ *
+ * Chooses what a quest's completions are measured in (miles, minutes, reps)
+ * and how many extra sand dollars each unit earns
+ */
+
+import { InputField } from "@ffx/sdk";
+import { CURRENCY_NAME } from "../constants";
+import { toTitleCase } from "../utils/preferences";
+
+interface UnitPickerProps {
+  unit: string;
+  rewardPerUnit: number;
+  onUnitChange: (unit: string) => void;
+  onRewardPerUnitChange: (rewardPerUnit: number) => void;
+  canEditAmounts?: boolean; // household members can't change rewards
+  currencyName?: string; // the user's name for sand dollars
+}
+
+export function UnitPicker({
+  unit,
+  rewardPerUnit,
+  onUnitChange,
+  onRewardPerUnitChange,
+  canEditAmounts = true,
+  currencyName = CURRENCY_NAME,
+}: UnitPickerProps) {
+  const hasUnit = unit.trim().length > 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <InputField
+          label="Measured in (optional)"
+          value={unit}
+          onChange={(e) => onUnitChange(e.target.value)}
+          placeholder="e.g., miles, minutes, reps"
+        />
+        {hasUnit && canEditAmounts && (
+          <InputField
+            label={`${toTitleCase(currencyName)} per ${unit.trim()}`}
+            type="number"
+            min={0}
+            value={String(rewardPerUnit)}
+            onChange={(e) => onRewardPerUnitChange(Math.max(0, parseInt(e.target.value) || 0))}
+          />
+        )}
+      </div>
+      {hasUnit && (
+        <p className="text-xs text-gray-500 header-text-color">
+          Completing asks how many {unit.trim()}
+          {rewardPerUnit > 0 && `; each one adds ${rewardPerUnit} on top of the reward`}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -6,14 +6,34 @@
 
 import type { Wallet } from "../types";
 import { TREASURE_CHEST_LABEL, SEA_DOLLAR_ICON_PATH, CURRENCY_SYMBOL } from "../constants";
+import { DEFAULT_MONEY, formatMoney } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
 
 interface WalletDisplayProps {
   wallet: Wallet | null;
   loading: boolean;
   showDollarAmounts?: boolean;
+  currencyIcon?: string; // shown beside the dollar total
+  hasDrift?: boolean; // stored total disagrees with the transaction journal
+  pendingSyncCount?: number; // changes queued offline, not yet in the total
+  pendingSyncAmount?: number; // sea dollars those changes will add (negative for purchases)
+  isOffline?: boolean;
+  money?: MoneySettings; // household currency for the money total
+  untransferredAmount?: number | null; // accrued money not yet moved to savings (null without buckets)
 }
 
-export function WalletDisplay({ wallet, loading, showDollarAmounts = false }: WalletDisplayProps) {
+export function WalletDisplay({
+  wallet,
+  loading,
+  showDollarAmounts = false,
+  currencyIcon = CURRENCY_SYMBOL,
+  hasDrift = false,
+  pendingSyncCount = 0,
+  pendingSyncAmount = 0,
+  isOffline = false,
+  money = DEFAULT_MONEY,
+  untransferredAmount = null,
+}: WalletDisplayProps) {
   const total = wallet?.total ?? 0;
   const dollarTotal = wallet?.dollar_total ?? 0;
   const isNegative = total < 0;
@@ -39,24 +59,49 @@ export function WalletDisplay({ wallet, loading, showDollarAmounts = false }: Wa
           {showDollarAmounts && (
             <>
               <span className="text-4xl text-amber-900 dark:text-amber-100 font-bold">|</span>
-              <span className="text-4xl">{CURRENCY_SYMBOL}</span>
+              <span className="text-4xl">{currencyIcon}</span>
               <span
-                className={`text-6xl font-bold ${
+                className={`text-4xl font-bold ${
                   dollarTotal < 0
                     ? "text-red-600 dark:text-red-400"
                     : "text-amber-900 dark:text-amber-100"
                 } ${loading ? "opacity-50" : ""}`}
               >
-                {loading ? "0" : Math.round(dollarTotal)}
+                {formatMoney(loading ? 0 : dollarTotal, money.currency)}
               </span>
             </>
           )}
         </div>
+        {!loading && showDollarAmounts && untransferredAmount !== null && (
+          <p className="text-sm text-amber-900 dark:text-amber-100 mt-2 opacity-75">
+            {untransferredAmount > 0
+              ? `🏦 ${formatMoney(untransferredAmount, money.currency)} accrued but not yet transferred`
+              : untransferredAmount < 0
+                ? `🏦 Transferred ${formatMoney(-untransferredAmount, money.currency)} ahead`
+                : "🏦 All transferred to savings"}
+          </p>
+        )}
         {!loading && isNegative && (
           <p className="text-sm text-amber-900 dark:text-amber-100 mt-2 opacity-75">
             Negative balance allowed
           </p>
         )}
+        {!loading && (pendingSyncCount > 0 || isOffline) && (
+          <span className="inline-block mt-2 px-3 py-1 rounded-full bg-amber-900/15 dark:bg-amber-100/15 text-sm font-semibold text-amber-900 dark:text-amber-100">
+            {pendingSyncCount > 0
+              ? `⏳ ${pendingSyncCount} pending sync${
+                  pendingSyncAmount !== 0
+                    ? ` (${pendingSyncAmount > 0 ? "+" : ""}${pendingSyncAmount})`
+                    : ""
+                }`
+              : "📴 Offline"}
+          </span>
+        )}
+        {!loading && hasDrift && (
+          <p className="text-sm text-red-700 dark:text-red-300 mt-2 font-semibold">
+            ⚠️ Balance does not match transaction history
+          </p>
+        )}
       </div>
     </div>
   );
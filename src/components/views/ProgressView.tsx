@@ -5,19 +5,35 @@
  */
 
 import { useMemo, memo } from "react";
+import { Button } from "@ffx/sdk";
 import { GamificationPanel } from "../GamificationPanel";
-import type { Quest, ShopItem, QuestLog, ShopLog } from "../../types";
+import { AnalyticsPanel } from "../AnalyticsPanel";
+import { BadgeShelf } from "../BadgeShelf";
+import type { OlderLogHistory, Quest, QuestLog, ShopLog } from "../../types";
+import type { AchievementStatus } from "../../hooks/useAchievements";
+import type { CalendarSettings } from "../../utils/dates";
+import { CURRENCY_NAME } from "../../constants";
+import { DEFAULT_MONEY } from "../../utils/money";
+import type { MoneySettings } from "../../utils/money";
 
 interface ProgressViewProps {
   walletTotal: number;
   walletDollarTotal?: number;
   questLogs: QuestLog[];
   shopLogs: ShopLog[];
+  olderHistory?: OlderLogHistory; // day totals from before historyStart
   quests: Quest[];
-  shopItems: ShopItem[];
-  onResetProgress: () => Promise<void>;
-  onResetAllProgress: () => Promise<void>;
+  achievements?: AchievementStatus[];
+  onResetProgress?: () => Promise<void>; // owners only
+  onResetAllProgress?: () => Promise<void>;
   showDollarAmounts?: boolean;
+  calendar: CalendarSettings; // zone and week start for recaps, streaks and charts
+  historyStart?: string; // oldest loaded log date; older activity arrives as day totals
+  hasOlderHistory?: boolean;
+  loadingOlderHistory?: boolean;
+  onLoadOlderHistory?: () => Promise<void>;
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
 }
 
 function ProgressView({
@@ -25,11 +41,19 @@ function ProgressView({
   walletDollarTotal = 0,
   questLogs,
   shopLogs,
+  olderHistory,
   quests,
-  shopItems,
+  achievements = [],
   onResetProgress,
   onResetAllProgress,
   showDollarAmounts = false,
+  calendar,
+  historyStart,
+  hasOlderHistory = false,
+  loadingOlderHistory = false,
+  onLoadOlderHistory,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
 }: ProgressViewProps) {
   // Memoize expensive computations to prevent recalculation on every render
   const questNames = useMemo(
@@ -37,20 +61,6 @@ function ProgressView({
     [quests]
   );
 
-  const questsData = useMemo(
-    () => quests.map((q) => ({ id: q.id, reward: q.reward, dollar_amount: q.dollar_amount })),
-    [quests]
-  );
-
-  const shopItemsData = useMemo(
-    () => shopItems.map((item) => ({
-      id: item.id,
-      price: item.price,
-      dollar_amount: item.dollar_amount,
-    })),
-    [shopItems]
-  );
-
   return (
     <div>
       <h2 className="text-2xl font-bold text-gray-900 header-text-color mb-4">
@@ -61,13 +71,49 @@ function ProgressView({
         walletDollarTotal={walletDollarTotal}
         questLogs={questLogs}
         shopLogs={shopLogs}
+        olderQuestDays={olderHistory?.questDays}
+        quests={quests}
         questNames={questNames}
-        quests={questsData}
-        shopItems={shopItemsData}
         onResetProgress={onResetProgress}
         onResetAllProgress={onResetAllProgress}
         showDollarAmounts={showDollarAmounts}
+        calendar={calendar}
+        currencyName={currencyName}
+        money={money}
+      />
+      {achievements.length > 0 && <BadgeShelf achievements={achievements} />}
+      <AnalyticsPanel
+        questLogs={questLogs}
+        shopLogs={shopLogs}
+        olderHistory={olderHistory}
+        quests={quests}
+        questNames={questNames}
+        showDollarAmounts={showDollarAmounts}
+        calendar={calendar}
+        money={money}
       />
+      {historyStart && (
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-sm text-gray-500 header-text-color">
+          <span>
+            Showing activity since{" "}
+            {new Date(historyStart).toLocaleDateString("en-US", {
+              month: "short",
+              day: "numeric",
+              year: "numeric",
+            })}
+          </span>
+          {hasOlderHistory && onLoadOlderHistory && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLoadOlderHistory}
+              loading={loadingOlderHistory}
+            >
+              Load older history
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
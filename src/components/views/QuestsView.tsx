@@ -1,58 +1,128 @@
 /**
  * Get Kraken - Quests View Component
  *
- * Displays the quests view with search, filters, and quest cards
+ * Displays the quests view with the Today list, search, filters, and quest cards
  */
 
 import { useMemo, useDeferredValue } from "react";
 import { InputField } from "@ffx/sdk";
 import { QuestCard } from "../QuestCard";
 import { AddQuestCard } from "../AddQuestCard";
+import { TodayList } from "../TodayList";
 import { TagFilterButtons } from "../TagFilterButtons";
-import { filterItems } from "../../utils/filtering";
-import { calculateUserCompletionCounts } from "../../utils/completionCount";
-import { TAGS, TAG_LABELS, TAG_BUTTON_CLASSES } from "../../utils/tags";
-import type { Quest, QuestLog, Tag } from "../../types";
+import { SortSelect, ReorderableItem } from "../SortControls";
+import { filterItems, parseSearchQuery, getHighlightRanges } from "../../utils/filtering";
+import type { MatchRange } from "../../utils/filtering";
+import {
+  QUEST_SORT_OPTIONS,
+  sortItems,
+  latestLogDates,
+  getQuestDueRanks,
+  moveId,
+} from "../../utils/sorting";
+import type { SortContext, SortMode } from "../../utils/sorting";
+import { calculateQuestStreaks } from "../../utils/streaks";
+import type { CalendarSettings } from "../../utils/dates";
+import type { TagSet } from "../../utils/tags";
+import type { Quest, QuestLog, QuestLogDay, Tag } from "../../types";
+import { CURRENCY_NAME } from "../../constants";
+import { DEFAULT_MONEY } from "../../utils/money";
+import type { MoneySettings } from "../../utils/money";
+
+const NO_OLDER_DAYS: QuestLogDay[] = [];
 
 interface QuestsViewProps {
   quests: Quest[];
-  allQuestLogs: QuestLog[];
+  allQuestLogs: QuestLog[]; // loaded history window (streaks, Today list)
+  olderQuestDays?: QuestLogDay[]; // day totals from before the window, for streak records
+  completionCounts: Record<string, number>; // across all history
   loading: boolean;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  tagSet: TagSet; // household tags for this view
   selectedTag: Tag | null;
   onTagSelect: (tag: Tag | null) => void;
+  sortMode: SortMode;
+  onSortModeChange: (mode: SortMode) => void;
+  starredIds: Set<string>;
+  positions: Record<string, number>; // custom order
+  onToggleStar: (questId: string) => void;
+  onReorder: (orderedIds: string[]) => void;
   showDollarAmounts: boolean;
+  calendar: CalendarSettings; // zone and week start for streaks and "due today"
   onCreateQuest: (questData: Omit<Quest, "id" | "created_at" | "updated_at" | "completion_count">) => Promise<void>;
   onCompleteQuest: (questId: string, reward: number) => Promise<void>;
   onViewLogs: (questId: string) => void;
   onEdit: (quest: Quest) => void;
   onShowToast: (message: string, type: "success" | "error") => void;
+  remindersSupported: boolean;
+  remindersEnabled: boolean;
+  reminderPermission: NotificationPermission;
+  reminderLeadMinutes: number;
+  onToggleReminders: () => Promise<void>;
+  onReminderLeadMinutesChange: (minutes: number) => void;
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
+  canEditAmounts?: boolean; // household members add entries without amounts
 }
 
 export function QuestsView({
   quests,
   allQuestLogs,
+  olderQuestDays = NO_OLDER_DAYS,
+  completionCounts,
   loading,
   searchQuery,
   onSearchChange,
+  tagSet,
   selectedTag,
   onTagSelect,
+  sortMode,
+  onSortModeChange,
+  starredIds,
+  positions,
+  onToggleStar,
+  onReorder,
   showDollarAmounts,
+  calendar,
   onCreateQuest,
   onCompleteQuest,
   onViewLogs,
   onEdit,
   onShowToast,
+  remindersSupported,
+  remindersEnabled,
+  reminderPermission,
+  reminderLeadMinutes,
+  onToggleReminders,
+  onReminderLeadMinutesChange,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
+  canEditAmounts = true,
 }: QuestsViewProps) {
-  const userCompletionCounts = useMemo(
-    () => calculateUserCompletionCounts(allQuestLogs),
-    [allQuestLogs]
+  // Streaks and "due today" against each quest's cadence
+  const questStreaks = useMemo(
+    () =>
+      calculateQuestStreaks(
+        quests,
+        allQuestLogs,
+        { now: new Date(), ...calendar },
+        olderQuestDays
+      ),
+    [quests, allQuestLogs, olderQuestDays, calendar]
   );
 
+  // A persisted tag may have since been deleted
+  const activeTag = selectedTag && tagSet.has(selectedTag) ? selectedTag : null;
+
   // Defer filtering computation to keep input responsive during fast typing
   const deferredSearch = useDeferredValue(searchQuery ?? "");
 
+  const lastCompleted = useMemo(
+    () => latestLogDates(allQuestLogs, (log) => log.quest_id, (log) => log.completed_at),
+    [allQuestLogs]
+  );
+
   // Compute filtered items as pure derived value
   const filteredQuests = useMemo(() => {
     if (!deferredSearch.trim()) {
@@ -61,10 +131,57 @@ export function QuestsView({
     return filterItems<Quest, Tag>({
       items: quests,
       searchQuery: deferredSearch,
-      selectedTag,
-      tagLabels: TAG_LABELS,
+      selectedTag: activeTag,
+      tagLabels: tagSet.labels,
+      stats: {
+        counts: completionCounts,
+        lastUsed: lastCompleted,
+        now: new Date(),
+        ...calendar,
+        currency: money.currency,
+      },
+    });
+  }, [quests, deferredSearch, activeTag, tagSet, completionCounts, lastCompleted, calendar, money.currency]);
+
+  // Search matches to mark in card names
+  const nameHighlights = useMemo(() => {
+    const query = parseSearchQuery(deferredSearch);
+    const highlights: Record<string, MatchRange[]> = {};
+    if (query.clauses.length === 0) return highlights;
+    filteredQuests.forEach((quest) => {
+      highlights[quest.id] = getHighlightRanges(quest.name, query);
     });
-  }, [quests, deferredSearch, selectedTag]);
+    return highlights;
+  }, [filteredQuests, deferredSearch]);
+
+  const sortContext = useMemo(
+    (): SortContext<Quest> => ({
+      starredIds,
+      positions,
+      counts: completionCounts,
+      lastUsed: lastCompleted,
+      getAmount: (quest) => quest.reward,
+      dueRanks:
+        sortMode === "due_first"
+          ? getQuestDueRanks(quests, lastCompleted, questStreaks, new Date(), calendar.timeZone)
+          : undefined,
+    }),
+    [starredIds, positions, completionCounts, lastCompleted, sortMode, quests, questStreaks, calendar]
+  );
+
+  const sortedQuests = useMemo(
+    () => sortItems(filteredQuests, sortMode, sortContext),
+    [filteredQuests, sortMode, sortContext]
+  );
+
+  // Moves are applied to the full custom order so filtered-out quests keep their place
+  const customOrder = useMemo(
+    () => sortItems(quests, "custom", sortContext).map((quest) => quest.id),
+    [quests, sortContext]
+  );
+  const handleMove = (fromId: string, toId: string) => {
+    onReorder(moveId(customOrder, fromId, toId));
+  };
 
   return (
     <div>
@@ -75,7 +192,7 @@ export function QuestsView({
         <div className="w-full sm:w-64">
           <InputField
             type="search"
-            placeholder="Search quests..."
+            placeholder="Search quests... (try tag:work reward>20)"
             value={searchQuery}
             onChange={(e) => onSearchChange(e.target.value)}
             className="w-full"
@@ -83,14 +200,30 @@ export function QuestsView({
         </div>
       </div>
 
-      <TagFilterButtons
-        tags={TAGS}
-        selectedTag={selectedTag}
-        onTagSelect={onTagSelect}
-        getLabel={(tag) => TAG_LABELS[tag]}
-        getButtonClasses={(tag) => TAG_BUTTON_CLASSES[tag]}
+      <TodayList
+        quests={quests}
+        allQuestLogs={allQuestLogs}
+        timeZone={calendar.timeZone}
+        onCompleteQuest={onCompleteQuest}
+        remindersSupported={remindersSupported}
+        remindersEnabled={remindersEnabled}
+        reminderPermission={reminderPermission}
+        reminderLeadMinutes={reminderLeadMinutes}
+        onToggleReminders={onToggleReminders}
+        onReminderLeadMinutesChange={onReminderLeadMinutesChange}
       />
 
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <TagFilterButtons
+          tags={tagSet.tags}
+          selectedTag={activeTag}
+          onTagSelect={onTagSelect}
+          getLabel={tagSet.getLabel}
+          getButtonClasses={(tag) => tagSet.getClasses(tag).button}
+        />
+        <SortSelect options={QUEST_SORT_OPTIONS} value={sortMode} onChange={onSortModeChange} />
+      </div>
+
       {/* Render quests immediately when available - don't block on loading state */}
       {filteredQuests.length === 0 && loading ? (
         <div className="text-center py-12 text-gray-500">
@@ -99,6 +232,7 @@ export function QuestsView({
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
           <AddQuestCard
+            tagSet={tagSet}
             onCreate={async (questData) => {
               await onCreateQuest({
                 ...questData,
@@ -106,17 +240,35 @@ export function QuestsView({
               });
               onShowToast("Quest created! 🎯", "success");
             }}
+            currencyName={currencyName}
+            money={money}
+            canEditAmounts={canEditAmounts}
           />
-          {filteredQuests.map((quest) => (
-            <QuestCard
+          {sortedQuests.map((quest, index) => (
+            <ReorderableItem
               key={quest.id}
-              quest={quest}
-              onComplete={onCompleteQuest}
-              onViewLogs={onViewLogs}
-              onEdit={onEdit}
-              showDollarAmounts={showDollarAmounts}
-              userCompletionCount={userCompletionCounts[quest.id] || 0}
-            />
+              id={quest.id}
+              enabled={sortMode === "custom"}
+              previousId={sortedQuests[index - 1]?.id}
+              nextId={sortedQuests[index + 1]?.id}
+              onMove={handleMove}
+            >
+              <QuestCard
+                tagSet={tagSet}
+                quest={quest}
+                onComplete={onCompleteQuest}
+                onViewLogs={onViewLogs}
+                onEdit={onEdit}
+                showDollarAmounts={showDollarAmounts}
+                userCompletionCount={completionCounts[quest.id] || 0}
+                streak={questStreaks[quest.id]}
+                nameHighlights={nameHighlights[quest.id]}
+                starred={starredIds.has(quest.id)}
+                onToggleStar={onToggleStar}
+                currencyName={currencyName}
+                money={money}
+              />
+            </ReorderableItem>
           ))}
         </div>
       )}
@@ -0,0 +1,291 @@
+/**
+ * Get Kraken - Settings View Component
+ *
+ * Displays the settings view: currency, money, sound, appearance, dollar
+ * amounts, reminders and calendar. Changes sync to the user's other devices.
+ */
+
+import { useState } from "react";
+import { Button, InputField } from "@ffx/sdk";
+import { CalendarSettingsPanel } from "../CalendarSettingsPanel";
+import { MoneySettingsPanel } from "../MoneySettingsPanel";
+import { useDebounce } from "../../utils/useDebounce";
+import { playCoinSound } from "../../utils/sound";
+import { DEFAULT_PREFERENCES, DEFAULT_VIEWS, THEMES } from "../../utils/preferences";
+import type { DefaultView, PreferenceChanges, Preferences, ThemePreference } from "../../utils/preferences";
+import type { CalendarSettings } from "../../utils/dates";
+import type { MoneySettings } from "../../utils/money";
+import { REMINDER_LEAD_OPTIONS } from "../../constants";
+
+interface SettingsViewProps {
+  preferences: Preferences;
+  calendar: CalendarSettings;
+  onChange: (changes: PreferenceChanges) => Promise<void>;
+  money: MoneySettings; // household-wide
+  canEditMoney: boolean;
+  onMoneyChange: (money: MoneySettings) => Promise<void>;
+  remindersSupported: boolean;
+  reminderPermission: NotificationPermission;
+  onToggleReminders: () => Promise<void>;
+}
+
+const CARD_CLASS =
+  "bg-blue-50/80 dark:bg-gray-800 rounded-2xl p-6 shadow-lg backdrop-blur-sm mt-6 space-y-4";
+const HEADING_CLASS = "text-lg font-semibold text-gray-900 header-text-color";
+const ROW_CLASS =
+  "flex flex-wrap items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-200";
+const SELECT_CLASS =
+  "border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 px-2 py-1 text-sm";
+
+// Volume is saved once the slider settles
+const VOLUME_SAVE_DELAY_MS = 400;
+
+interface CurrencySettingsProps {
+  name: string;
+  icon: string;
+  onSave: (changes: PreferenceChanges) => Promise<void>;
+}
+
+// Drafts until saved; remounted (by key) when the saved values change elsewhere
+function CurrencySettings({ name, icon, onSave }: CurrencySettingsProps) {
+  const [draftName, setDraftName] = useState(name);
+  const [draftIcon, setDraftIcon] = useState(icon);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const trimmedName = draftName.trim();
+  const trimmedIcon = draftIcon.trim();
+  const isChanged = trimmedName !== name || trimmedIcon !== icon;
+  const isDefault =
+    name === DEFAULT_PREFERENCES.currency_name && icon === DEFAULT_PREFERENCES.currency_icon;
+
+  const save = async (changes: PreferenceChanges) => {
+    setIsSaving(true);
+    try {
+      await onSave(changes);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className={CARD_CLASS}>
+      <h3 className={HEADING_CLASS}>🪙 Currency</h3>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <InputField
+            label="Coins are called"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            placeholder={DEFAULT_PREFERENCES.currency_name}
+            maxLength={40}
+          />
+        </div>
+        <InputField
+          label="Savings icon"
+          value={draftIcon}
+          onChange={(e) => setDraftIcon(e.target.value)}
+          placeholder={DEFAULT_PREFERENCES.currency_icon}
+          maxLength={8}
+        />
+      </div>
+      <div className="flex gap-2">
+        {!isDefault && (
+          <Button
+            variant="ghost"
+            onClick={() =>
+              save({
+                currency_name: DEFAULT_PREFERENCES.currency_name,
+                currency_icon: DEFAULT_PREFERENCES.currency_icon,
+              })
+            }
+            disabled={isSaving}
+            className="flex-1"
+          >
+            Reset
+          </Button>
+        )}
+        <Button
+          variant="primary"
+          onClick={() => save({ currency_name: trimmedName, currency_icon: trimmedIcon })}
+          loading={isSaving}
+          disabled={!isChanged || !trimmedName || !trimmedIcon}
+          className="flex-1"
+        >
+          Save currency
+        </Button>
+      </div>
+    </section>
+  );
+}
+
+export function SettingsView({
+  preferences,
+  calendar,
+  onChange,
+  money,
+  canEditMoney,
+  onMoneyChange,
+  remindersSupported,
+  reminderPermission,
+  onToggleReminders,
+}: SettingsViewProps) {
+  // Slider position while dragging; cleared once the new volume is saved
+  const [draftVolume, setDraftVolume] = useState<number | null>(null);
+  const [debouncedSaveVolume] = useDebounce(async (volume: number) => {
+    await onChange({ sound_volume: volume });
+    setDraftVolume(null);
+  }, VOLUME_SAVE_DELAY_MS);
+
+  const volume = draftVolume ?? preferences.sound_volume;
+  const remindersOn = preferences.reminders_enabled && reminderPermission === "granted";
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-gray-900 header-text-color mb-4">Settings</h2>
+
+      <CurrencySettings
+        key={`${preferences.currency_name}|${preferences.currency_icon}`}
+        name={preferences.currency_name}
+        icon={preferences.currency_icon}
+        onSave={onChange}
+      />
+
+      <MoneySettingsPanel
+        key={`${money.currency}|${money.coinsPerUnit}`}
+        money={money}
+        currencyName={preferences.currency_name}
+        canEdit={canEditMoney}
+        onSave={onMoneyChange}
+      />
+
+      <section className={CARD_CLASS}>
+        <h3 className={HEADING_CLASS}>🔊 Sound</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={preferences.sound_enabled}
+            onChange={(e) => onChange({ sound_enabled: e.target.checked })}
+          />
+          Play a sound when completing quests
+        </label>
+        <div className={ROW_CLASS}>
+          <label htmlFor="settings-volume">Volume</label>
+          <div className="flex items-center gap-2">
+            <input
+              id="settings-volume"
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(volume * 100)}
+              disabled={!preferences.sound_enabled}
+              onChange={(e) => {
+                const next = parseInt(e.target.value) / 100;
+                setDraftVolume(next);
+                debouncedSaveVolume(next);
+              }}
+              className="w-40"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={playCoinSound}
+              disabled={!preferences.sound_enabled}
+            >
+              ▶️ Test
+            </Button>
+          </div>
+        </div>
+      </section>
+
+      <section className={CARD_CLASS}>
+        <h3 className={HEADING_CLASS}>🎨 Appearance</h3>
+        <label className={ROW_CLASS}>
+          Theme
+          <select
+            value={preferences.theme}
+            onChange={(e) => onChange({ theme: e.target.value as ThemePreference })}
+            className={SELECT_CLASS}
+          >
+            {THEMES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={ROW_CLASS}>
+          Open the app on
+          <select
+            value={preferences.default_view}
+            onChange={(e) => onChange({ default_view: e.target.value as DefaultView })}
+            className={SELECT_CLASS}
+          >
+            {DEFAULT_VIEWS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={preferences.show_dollar_amounts}
+            onChange={(e) => onChange({ show_dollar_amounts: e.target.checked })}
+          />
+          Show real dollar amounts alongside {preferences.currency_name}
+        </label>
+      </section>
+
+      <section className={CARD_CLASS}>
+        <h3 className={HEADING_CLASS}>🔔 Reminders</h3>
+        {remindersSupported ? (
+          <>
+            <div className={ROW_CLASS}>
+              <span>Notify me when scheduled quests are due</span>
+              <button
+                onClick={onToggleReminders}
+                disabled={reminderPermission === "denied"}
+                className="px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-medium disabled:opacity-50 touch-manipulation"
+                title={
+                  reminderPermission === "denied"
+                    ? "Notifications are blocked in your browser settings"
+                    : undefined
+                }
+              >
+                {remindersOn ? "🔔 On" : "🔕 Off"}
+              </button>
+            </div>
+            {remindersOn && (
+              <label className={ROW_CLASS}>
+                Remind me
+                <select
+                  value={preferences.reminder_lead_minutes}
+                  onChange={(e) => onChange({ reminder_lead_minutes: parseInt(e.target.value) })}
+                  className={SELECT_CLASS}
+                >
+                  {REMINDER_LEAD_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? "At due time" : `${minutes} min before`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 header-text-color">
+            This browser can't show reminders.
+          </p>
+        )}
+      </section>
+
+      <CalendarSettingsPanel
+        timeZonePreference={preferences.time_zone}
+        calendar={calendar}
+        onTimeZoneChange={(timeZone) => onChange({ time_zone: timeZone })}
+        onWeekStartsOnChange={(weekday) => onChange({ week_starts_on: weekday })}
+      />
+    </div>
+  );
+}
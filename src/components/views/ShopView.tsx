@@ -9,26 +9,42 @@ import { InputField } from "@ffx/sdk";
 import { ShopItemCard } from "../ShopItemCard";
 import { AddShopItemCard } from "../AddShopItemCard";
 import { TagFilterButtons } from "../TagFilterButtons";
-import { filterItems } from "../../utils/filtering";
-import { calculateUserPurchaseCounts } from "../../utils/purchaseCount";
-import {
-  SHOP_TAGS,
-  SHOP_TAG_LABELS,
-  SHOP_TAG_BUTTON_CLASSES,
-} from "../../utils/shopTags";
-import type { ShopItem, ShopTag, ShopLog } from "../../types";
+import { SortSelect, ReorderableItem } from "../SortControls";
+import { filterItems, parseSearchQuery, getHighlightRanges } from "../../utils/filtering";
+import type { MatchRange } from "../../utils/filtering";
+import type { CalendarSettings } from "../../utils/dates";
+import { SHOP_SORT_OPTIONS, sortItems, moveId } from "../../utils/sorting";
+import type { SortContext, SortMode } from "../../utils/sorting";
+import type { TagSet } from "../../utils/tags";
+import { getBudgetLabel, getBudgetUsage, getCooldownRemaining } from "../../utils/budgets";
+import { CURRENCY_NAME } from "../../constants";
+import type { ShopBudget, ShopItem, ShopLog, ShopTag } from "../../types";
+import { DEFAULT_MONEY, formatMoney } from "../../utils/money";
+import type { MoneySettings } from "../../utils/money";
 
 interface ShopViewProps {
   shopItems: ShopItem[];
-  allShopLogs: ShopLog[];
+  purchaseCounts: Record<string, number>; // across all history
+  lastPurchased: Record<string, string>; // latest purchase date per item
+  shopLogs: ShopLog[]; // loaded history, for budgets and cooldowns
+  budgets: ShopBudget[];
+  allowNegativeBalance: boolean;
   walletTotal: number;
   walletDollarTotal?: number;
   loading: boolean;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  tagSet: TagSet; // household tags for this view
   selectedTag: ShopTag | null;
   onTagSelect: (tag: ShopTag | null) => void;
+  sortMode: SortMode;
+  onSortModeChange: (mode: SortMode) => void;
+  starredIds: Set<string>;
+  positions: Record<string, number>; // custom order
+  onToggleStar: (itemId: string) => void;
+  onReorder: (orderedIds: string[]) => void;
   showDollarAmounts: boolean;
+  calendar: CalendarSettings; // zone and week start for budgets and "bought:this-week"
   onCreateShopItem: (
     itemData: Omit<
       ShopItem,
@@ -39,29 +55,45 @@ interface ShopViewProps {
   onViewLogs: (itemId: string) => void;
   onEdit: (item: ShopItem) => void;
   onShowToast: (message: string, type: "success" | "error") => void;
+  currencyName?: string; // the user's name for sand dollars
+  money?: MoneySettings; // household currency and exchange rate
+  canEditAmounts?: boolean; // household members add entries without amounts
 }
 
 export function ShopView({
   shopItems,
-  allShopLogs,
+  purchaseCounts,
+  lastPurchased,
+  shopLogs,
+  budgets,
+  allowNegativeBalance,
   walletTotal,
   walletDollarTotal = 0,
   loading,
   searchQuery,
   onSearchChange,
+  tagSet,
   selectedTag,
   onTagSelect,
+  sortMode,
+  onSortModeChange,
+  starredIds,
+  positions,
+  onToggleStar,
+  onReorder,
   showDollarAmounts,
+  calendar,
   onCreateShopItem,
   onPurchaseItem,
   onViewLogs,
   onEdit,
   onShowToast,
+  currencyName = CURRENCY_NAME,
+  money = DEFAULT_MONEY,
+  canEditAmounts = true,
 }: ShopViewProps) {
-  const userPurchaseCounts = useMemo(
-    () => calculateUserPurchaseCounts(allShopLogs),
-    [allShopLogs]
-  );
+  // A persisted tag may have since been deleted
+  const activeTag = selectedTag && tagSet.has(selectedTag) ? selectedTag : null;
 
   // Defer filtering computation to keep input responsive during fast typing
   const deferredSearch = useDeferredValue(searchQuery ?? "");
@@ -74,10 +106,71 @@ export function ShopView({
     return filterItems<ShopItem, ShopTag>({
       items: shopItems,
       searchQuery: deferredSearch,
-      selectedTag,
-      tagLabels: SHOP_TAG_LABELS,
+      selectedTag: activeTag,
+      tagLabels: tagSet.labels,
+      stats: {
+        counts: purchaseCounts,
+        lastUsed: lastPurchased,
+        now: new Date(),
+        ...calendar,
+        currency: money.currency,
+      },
+    });
+  }, [shopItems, deferredSearch, activeTag, tagSet, purchaseCounts, lastPurchased, calendar, money.currency]);
+
+  // Search matches to mark in card names
+  const nameHighlights = useMemo(() => {
+    const query = parseSearchQuery(deferredSearch);
+    const highlights: Record<string, MatchRange[]> = {};
+    if (query.clauses.length === 0) return highlights;
+    filteredShopItems.forEach((item) => {
+      highlights[item.id] = getHighlightRanges(item.name, query);
+    });
+    return highlights;
+  }, [filteredShopItems, deferredSearch]);
+
+  const sortContext = useMemo(
+    (): SortContext<ShopItem> => ({
+      starredIds,
+      positions,
+      counts: purchaseCounts,
+      lastUsed: lastPurchased,
+      getAmount: (item) => item.price,
+    }),
+    [starredIds, positions, purchaseCounts, lastPurchased]
+  );
+
+  const sortedShopItems = useMemo(
+    () => sortItems(filteredShopItems, sortMode, sortContext),
+    [filteredShopItems, sortMode, sortContext]
+  );
+
+  // What's left of each capped budget this week / month
+  const budgetUsages = useMemo(() => {
+    const options = { now: new Date(), ...calendar };
+    return budgets
+      .filter((budget) => budget.coin_limit !== null || (showDollarAmounts && budget.dollar_limit !== null))
+      .map((budget) => getBudgetUsage(budget, shopItems, shopLogs, options));
+  }, [budgets, shopItems, shopLogs, showDollarAmounts, calendar]);
+
+  const cooldowns = useMemo(() => {
+    const now = new Date();
+    const remaining: Record<string, number> = {};
+    shopItems.forEach((item) => {
+      const ms = getCooldownRemaining(item, budgets, shopLogs, now);
+      if (ms > 0) remaining[item.id] = ms;
     });
-  }, [shopItems, deferredSearch, selectedTag]);
+    return remaining;
+  }, [budgets, shopItems, shopLogs]);
+
+  // Moves are applied to the full custom order so filtered-out items keep their place
+  const customOrder = useMemo(
+    () => sortItems(shopItems, "custom", sortContext).map((item) => item.id),
+    [shopItems, sortContext]
+  );
+  const handleMove = (fromId: string, toId: string) => {
+    onReorder(moveId(customOrder, fromId, toId));
+  };
 
   return (
     <div>
@@ -88,7 +181,7 @@ export function ShopView({
         <div className="w-full sm:w-64">
           <InputField
             type="search"
-            placeholder="Search shop items..."
+            placeholder="Search shop items... (try price<50 never-bought)"
             value={searchQuery}
             onChange={(e) => onSearchChange(e.target.value)}
             className="w-full"
@@ -96,13 +189,52 @@ export function ShopView({
         </div>
       </div>
 
-      <TagFilterButtons
-        tags={SHOP_TAGS}
-        selectedTag={selectedTag}
-        onTagSelect={onTagSelect}
-        getLabel={(tag) => SHOP_TAG_LABELS[tag]}
-        getButtonClasses={(tag) => SHOP_TAG_BUTTON_CLASSES[tag]}
-      />
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <TagFilterButtons
+          tags={tagSet.tags}
+          selectedTag={activeTag}
+          onTagSelect={onTagSelect}
+          getLabel={tagSet.getLabel}
+          getButtonClasses={(tag) => tagSet.getClasses(tag).button}
+        />
+        <SortSelect options={SHOP_SORT_OPTIONS} value={sortMode} onChange={onSortModeChange} />
+      </div>
+
+      {budgetUsages.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4" aria-label="Remaining budgets">
+          {budgetUsages.map((usage) => {
+            const over =
+              (usage.remaining !== null && usage.remaining <= 0) ||
+              (showDollarAmounts && usage.remainingDollars !== null && usage.remainingDollars <= 0);
+            return (
+              <div
+                key={usage.budget.id}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  over
+                    ? "border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                    : "border-gray-300 dark:border-gray-600 bg-white/70 dark:bg-gray-800 text-gray-700 dark:text-gray-200"
+                }`}
+              >
+                <span className="font-medium">{getBudgetLabel(usage.budget, shopItems, tagSet.labels)}</span>
+                {usage.remaining !== null && (
+                  <span>
+                    {" "}· {Math.max(usage.remaining, 0)}/{usage.budget.coin_limit} {currencyName}
+                  </span>
+                )}
+                {showDollarAmounts && usage.remainingDollars !== null && (
+                  <span>
+                    {" "}· {formatMoney(Math.max(usage.remainingDollars, 0), money.currency)}/
+                    {formatMoney(usage.budget.dollar_limit ?? 0, money.currency)}
+                  </span>
+                )}
+                <span className="text-gray-500 dark:text-gray-400">
+                  {" "}left this {usage.budget.period}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
 
       {/* Render shop items immediately when available - don't block on loading state */}
       {filteredShopItems.length === 0 && loading ? (
@@ -112,6 +244,7 @@ export function ShopView({
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
           <AddShopItemCard
+            tagSet={tagSet}
             onCreate={async (itemData) => {
               await onCreateShopItem({
                 ...itemData,
@@ -119,19 +252,38 @@ export function ShopView({
               });
               onShowToast("Shop item created! 🛍️", "success");
             }}
+            currencyName={currencyName}
+            money={money}
+            canEditAmounts={canEditAmounts}
           />
-          {filteredShopItems.map((item) => (
-            <ShopItemCard
+          {sortedShopItems.map((item, index) => (
+            <ReorderableItem
               key={item.id}
-              item={item}
-              walletTotal={walletTotal}
-              walletDollarTotal={walletDollarTotal}
-              onPurchase={onPurchaseItem}
-              onViewLogs={onViewLogs}
-              onEdit={onEdit}
-              showDollarAmounts={showDollarAmounts}
-              userPurchaseCount={userPurchaseCounts[item.id] || 0}
-            />
+              id={item.id}
+              enabled={sortMode === "custom"}
+              previousId={sortedShopItems[index - 1]?.id}
+              nextId={sortedShopItems[index + 1]?.id}
+              onMove={handleMove}
+            >
+              <ShopItemCard
+                tagSet={tagSet}
+                item={item}
+                walletTotal={walletTotal}
+                walletDollarTotal={walletDollarTotal}
+                allowNegativeBalance={allowNegativeBalance}
+                cooldownRemaining={cooldowns[item.id]}
+                onPurchase={onPurchaseItem}
+                onViewLogs={onViewLogs}
+                onEdit={onEdit}
+                showDollarAmounts={showDollarAmounts}
+                userPurchaseCount={purchaseCounts[item.id] || 0}
+                nameHighlights={nameHighlights[item.id]}
+                starred={starredIds.has(item.id)}
+                onToggleStar={onToggleStar}
+                currencyName={currencyName}
+                money={money}
+              />
+            </ReorderableItem>
           ))}
         </div>
       )}
@@ -6,18 +6,24 @@
 
 // UI Constants
 export const BUBBLE_COUNT = 10;
-export const LOG_REFRESH_INTERVAL_MS = 5000;
+export const LOG_HISTORY_WINDOW_DAYS = 90; // history loaded up front, and per "load older" page
 export const TAG_CYCLE_INTERVAL_MS = 2000;
 export const TOAST_DURATION_MS = 3000;
+export const REMINDER_LEAD_OPTIONS = [0, 10, 30, 60]; // minutes before a scheduled quest
 
 // Audio Constants
-export const AUDIO_VOLUME = 0.5;
+export const AUDIO_VOLUME = 0.5; // default; each user can change it in Settings
 export const WATER_DROP_SOUND_PATH = "/water-drop-85731.mp3";
 
 // Image Paths
 export const KRAKEN_ICON_PATH = "/kraken-icon.png";
 export const SEA_DOLLAR_ICON_PATH = "/sea-dollar.svg";
 
+// Photos
+export const PHOTO_BUCKET = "kibblings";
+export const PHOTO_MAX_DIMENSION = 1024; // px, longest side after resizing
+export const PHOTO_JPEG_QUALITY = 0.8;
+
 // App Metadata
 export const APP_NAME = "Get Kraken";
 export const APP_SUBTITLE = "A habit tracker for sea monsters";
@@ -30,10 +36,13 @@ export const FOOTER_LINKS = {
   venmo: "https://www.venmo.com/u/Sarah-Arvidson",
 } as const;
 
-// Currency
+// Currency (defaults - each user can rename it in Settings)
 export const CURRENCY_NAME = "sand dollars";
 export const CURRENCY_SYMBOL = "💵";
 
+// Real money (defaults - household owners can change them in Settings)
+export const DEFAULT_CURRENCY_CODE = "USD"; // ISO 4217; amounts are stored in its minor units
+
 // Default Values
 export const DEFAULT_DOLLAR_AMOUNT = 0;
 export const DEFAULT_REWARD_INCREMENT = 1;
@@ -42,5 +51,5 @@ export const DEFAULT_DOLLAR_INCREMENT = 1;
 // Popup Content
 // TO EDIT FEATURE UPDATES: Change FEATURE_UPDATES_VERSION below
 // TO EDIT FEATURE UPDATES CONTENT: Edit getFeatureUpdatesContent() in src/constants/popupContent.tsx
-export const FEATURE_UPDATES_VERSION = "1.0.0";
+export const FEATURE_UPDATES_VERSION = "1.14.0";
 
@@ -13,6 +13,76 @@ export const getFeatureUpdatesContent = () => (
   <div className="space-y-4 text-gray-700 dark:text-gray-300">
     <p className="font-semibold text-lg">What's New:</p>
     <ul className="list-disc list-inside space-y-2 ml-2">
+      <li>
+        Quest packs: browse ready-made Fitness, Decluttering and Study packs
+        (Progress tab) and install their quests, tags and shop items in one go.
+        You can also save your own quests as a pack file to share with friends.
+      </li>
+      <li>
+        Savings: name the accounts or funds you save into and log each real
+        deposit or withdrawal (Progress tab). The wallet shows how much money is
+        accrued but not yet transferred, and you can import transfers from your
+        bank's CSV or OFX statement - the file never leaves your device.
+      </li>
+      <li>
+        Currencies: money amounts now keep their cents and show in your
+        household's currency. Owners can pick the currency and set an exchange
+        rate in Settings, so entering a money amount fills in the coins, or the
+        other way round.
+      </li>
+      <li>
+        Settings tab: rename your coins and pick their icon, turn sounds on or
+        off and set the volume, choose a light or dark theme and which tab the
+        app opens on, and manage reminders and your calendar - all in one place.
+        Changes follow you to your other devices right away.
+      </li>
+      <li>
+        Time zone and week start: pick the time zone your days are counted in and
+        which day your week starts on (Progress tab). Weekly recaps, streaks,
+        charts and the Today list follow it, even while you travel.
+      </li>
+      <li>
+        Check-ins: jot down a note and how it went when you complete a quest.
+        Quests measured in miles, minutes or reps ask how much you did and can
+        pay extra per unit. Check-ins show in the quest log and can be edited.
+      </li>
+      <li>
+        Achievements: unlock badges like your first quest, a 30-day streak, 100
+        gym classes, saving $1000 or a week without buying anything. Unlocks are
+        celebrated as they happen and collected on the Progress tab.
+      </li>
+      <li>
+        Reward rules: set up your own bonuses - streak multipliers, a bonus for
+        the first quest of the day, double-coin weekends and tag combos. Bonuses
+        are listed in the completion message and on the quest's log.
+      </li>
+      <li>
+        Spending limits: household owners can set weekly or monthly budgets and
+        cooldowns on shop categories or items, and choose whether purchases may
+        take the wallet below zero. The shop shows what's left of each budget.
+      </li>
+      <li>
+        New history charts on the Progress tab: earned, spent and net by day,
+        week or month, your savings rate, top quests and an activity calendar.
+      </li>
+      <li>
+        Smarter search: typos are forgiven and matches are highlighted, and you
+        can combine filters like <code>tag:work,home reward&gt;20</code>,{" "}
+        <code>completed:this-week</code>, <code>never-done</code> or{" "}
+        <code>-tag:work</code> (use OR between alternatives).
+      </li>
+      <li>
+        Make your own tags: add, rename, recolor or delete quest and shop tags
+        from the Progress tab.
+      </li>
+      <li>
+        Star quests and shop items to pin them to the top, drag them into your
+        own order, or sort by most used, most recent, reward or what's due.
+      </li>
+      <li>
+        Export your quests, shop, goals and history as JSON or CSV (Progress
+        tab), and restore an export into a fresh account.
+      </li>
       <li>
         Improved card fronts: you can enter dollar amounts on the front now,
         too.
@@ -23,10 +93,7 @@ export const getFeatureUpdatesContent = () => (
     </ul>
     <p className="font-semibold text-lg">Next in Development:</p>
     <ul className="list-disc list-inside space-y-2 ml-2">
-      <li>+ A settings tab to adjust your preferences.</li>
       <li>+ A drop-down menu</li>
-      <li>+ The ability to save your goals and export them as a CSV file.</li>
-      <li>+ You'll be able to "Star" items.</li>
       <li>
         + TBD: should you be able to add friends and share goals with them?
       </li>
@@ -0,0 +1,186 @@
+/**
+ * Get Kraken - Achievements Hook
+ *
+ * Tracks progress towards achievements and records the current member's
+ * unlocks. Progress counts only that member's own completions and purchases,
+ * and is re-evaluated whenever logs or the wallet change, so every completion
+ * or purchase can unlock something.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import type { QuestLog, ShopLog, UserAchievement } from "../types";
+import { getAchievementProgress } from "../utils/achievements";
+import { calculateUserCompletionCounts } from "../utils/completionCount";
+import type { Achievement, AchievementInput, AchievementProgress } from "../utils/achievements";
+
+export interface AchievementStatus extends AchievementProgress {
+  unlocked_at: string | null;
+}
+
+interface UseAchievementsProps
+  extends Omit<AchievementInput, "now" | "questLogs" | "shopLogs" | "completionCounts"> {
+  userId: string | null; // whose achievements; other members' logs are left out
+  questLogs: QuestLog[]; // the household's loaded history
+  shopLogs: ShopLog[];
+  ready: boolean; // logs and wallet loaded - don't unlock against partial data
+}
+
+export function useAchievements({ ready, userId, ...input }: UseAchievementsProps) {
+  const [unlocked, setUnlocked] = useState<UserAchievement[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Newly unlocked achievements waiting to be celebrated, oldest first
+  const [celebrations, setCelebrations] = useState<Achievement[]>([]);
+  const unlockingRef = useRef(new Set<string>());
+
+  const loadUnlocked = useCallback(async () => {
+    try {
+      setLoading(true);
+      const context = await getHouseholdContext();
+      if (!context) {
+        setUnlocked([]);
+        setLoaded(false);
+        return;
+      }
+
+      const rows = await withOfflineCache(`user_achievements:${context.userId}`, async () => {
+        const { data, error: loadError } = await supabase
+          .from("user_achievements")
+          .select("*")
+          .eq("user_id", context.userId)
+          .order("unlocked_at", { ascending: true });
+
+        if (loadError) throw new Error(loadError.message);
+        return (data || []) as UserAchievement[];
+      });
+
+      setUnlocked(rows);
+      setLoaded(true);
+      setError(null);
+    } catch (err: unknown) {
+      // Without the unlock record we can't tell what's new, so nothing unlocks
+      console.error("Error loading achievements:", err);
+      setError(err instanceof Error ? err.message : "Failed to load achievements");
+      setLoaded(false);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const { quests, wallet, currency, timeZone } = input;
+
+  // The member's own logs, older day totals and all-time completion counts
+  const questLogs = useMemo(
+    () => input.questLogs.filter((log) => log.user_id === userId),
+    [input.questLogs, userId]
+  );
+  const shopLogs = useMemo(
+    () => input.shopLogs.filter((log) => log.user_id === userId),
+    [input.shopLogs, userId]
+  );
+  const olderHistory = useMemo(
+    () =>
+      input.olderHistory && {
+        questDays: input.olderHistory.questDays.filter((entry) => entry.user_id === userId),
+        shopDays: input.olderHistory.shopDays.filter((entry) => entry.user_id === userId),
+      },
+    [input.olderHistory, userId]
+  );
+  const completionCounts = useMemo(() => {
+    const counts = calculateUserCompletionCounts(questLogs);
+    olderHistory?.questDays.forEach((entry) => {
+      counts[entry.quest_id] = (counts[entry.quest_id] || 0) + entry.count;
+    });
+    return counts;
+  }, [questLogs, olderHistory]);
+
+  const progress = useMemo(
+    () =>
+      getAchievementProgress({
+        questLogs,
+        shopLogs,
+        olderHistory,
+        completionCounts,
+        quests,
+        wallet,
+        currency,
+        now: new Date(),
+        timeZone,
+      }),
+    [questLogs, shopLogs, olderHistory, completionCounts, quests, wallet, currency, timeZone]
+  );
+
+  const achievements = useMemo((): AchievementStatus[] => {
+    const unlockedAt = new Map(unlocked.map((row) => [row.achievement_id, row.unlocked_at]));
+    return progress.map((entry) => ({
+      ...entry,
+      unlocked_at: unlockedAt.get(entry.achievement.id) ?? null,
+    }));
+  }, [progress, unlocked]);
+
+  // Record achievements that are met but not yet unlocked; a failed insert
+  // (e.g. offline) is retried on the next change
+  const unlockEarned = useCallback(async () => {
+    if (!ready || !loaded || !userId) return;
+    const earned = achievements
+      .filter((status) => status.met && !status.unlocked_at)
+      .map((status) => status.achievement)
+      .filter((achievement) => !unlockingRef.current.has(achievement.id));
+    if (earned.length === 0) return;
+
+    earned.forEach((achievement) => unlockingRef.current.add(achievement.id));
+    try {
+      const context = await getHouseholdContext();
+      if (!context) return;
+
+      const unlockedAt = new Date().toISOString();
+      const { data, error: insertError } = await supabase
+        .from("user_achievements")
+        .upsert(
+          earned.map((achievement) => ({
+            user_id: context.userId,
+            household_id: context.householdId,
+            achievement_id: achievement.id,
+            unlocked_at: unlockedAt,
+          })),
+          { onConflict: "user_id,achievement_id", ignoreDuplicates: true }
+        )
+        .select();
+
+      if (insertError) throw new Error(insertError.message);
+      const rows = (data || []) as UserAchievement[];
+      const newIds = new Set(rows.map((row) => row.achievement_id));
+      setUnlocked((prev) => [...prev, ...rows]);
+      setCelebrations((prev) => [...prev, ...earned.filter((achievement) => newIds.has(achievement.id))]);
+    } catch (err: unknown) {
+      console.error("Error unlocking achievements:", err);
+    } finally {
+      earned.forEach((achievement) => unlockingRef.current.delete(achievement.id));
+    }
+  }, [ready, loaded, userId, achievements]);
+
+  const dismissCelebration = useCallback(() => {
+    setCelebrations((prev) => prev.slice(1));
+  }, []);
+
+  useEffect(() => {
+    loadUnlocked();
+  }, [loadUnlocked]);
+
+  useEffect(() => {
+    unlockEarned();
+  }, [unlockEarned]);
+
+  return {
+    achievements,
+    celebration: celebrations[0] ?? null,
+    dismissCelebration,
+    loading,
+    error,
+    refresh: loadUnlocked,
+  };
+}
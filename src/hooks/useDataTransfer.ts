@@ -0,0 +1,245 @@
+/**
+ * Get Kraken - Data Transfer Hook
+ *
+ * Exports the household's tags, quests, shop items, goals, wallet and full
+ * history, and restores an export into the current account. An import is one
+ * server-side transaction (see ADD_DATA_IMPORT.sql), so a failure part-way
+ * leaves nothing behind.
+ */
+
+import { useState, useCallback } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import type { HouseholdContext } from "../lib/household";
+import type {
+  Goal,
+  Quest,
+  QuestLog,
+  ShopItem,
+  ShopLog,
+  TagDefinition,
+  UserQuestOverride,
+  UserShopItemOverride,
+  Wallet,
+} from "../types";
+import { buildExportBundle, planImport } from "../utils/dataTransfer";
+import type { ExportBundle, ImportPlan } from "../utils/dataTransfer";
+import { resolveCurrency } from "../utils/money";
+
+const PAGE_SIZE = 1000; // PostgREST's default row limit
+
+// Every household row of a table, paged past the row limit
+async function fetchAllRows<T>(table: string, householdId: string, orderColumn: string): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("household_id", householdId)
+      .order(orderColumn, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function countRows(table: string, householdId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from(table)
+    .select("id", { count: "exact", head: true })
+    .eq("household_id", householdId);
+  if (error) throw new Error(error.message);
+  return count || 0;
+}
+
+// Seeded rows plus the household's own
+async function fetchCatalog<T>(table: string, householdId: string): Promise<T[]> {
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .or(`created_by.is.null,household_id.eq.${householdId}`)
+    .order("name", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []) as T[];
+}
+
+async function fetchWallet(householdId: string): Promise<Wallet | null> {
+  const { data, error } = await supabase
+    .from("wallets")
+    .select("*")
+    .eq("household_id", householdId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as Wallet | null) ?? null;
+}
+
+async function fetchCurrency(householdId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from("households")
+    .select("currency")
+    .eq("id", householdId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return resolveCurrency(data?.currency);
+}
+
+async function requireContext(): Promise<HouseholdContext> {
+  const context = await getHouseholdContext();
+  if (!context) {
+    throw new Error("User must be authenticated");
+  }
+  return context;
+}
+
+// Owner-only and all-or-nothing on the server
+async function writeImport(plan: ImportPlan) {
+  const { error } = await supabase.rpc("import_household_data", {
+    p_import: {
+      tags: plan.newTags,
+      quests: plan.newQuests,
+      shop_items: plan.newShopItems,
+      quest_id_map: plan.questIdMap,
+      shop_item_id_map: plan.shopItemIdMap,
+      quest_overrides: plan.questOverrides.map(({ questId, override }) => ({ quest_id: questId, override })),
+      shop_item_overrides: plan.shopItemOverrides.map(({ shopItemId, override }) => ({
+        shop_item_id: shopItemId,
+        override,
+      })),
+      hidden_quest_ids: plan.hiddenQuestIds,
+      hidden_shop_item_ids: plan.hiddenShopItemIds,
+      quest_logs: plan.questLogs,
+      shop_logs: plan.shopLogs,
+      goals: plan.goals,
+      wallet: plan.wallet,
+    },
+  });
+  if (error) throw new Error(error.message);
+}
+
+export function useDataTransfer() {
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Build the export bundle from everything the household has, including reversed history
+  const exportData = useCallback(async (): Promise<ExportBundle> => {
+    try {
+      setExporting(true);
+      const { householdId } = await requireContext();
+
+      const [
+        tags,
+        quests,
+        questOverrides,
+        hiddenQuests,
+        shopItems,
+        shopItemOverrides,
+        hiddenShopItems,
+        goals,
+        wallet,
+        questLogs,
+        shopLogs,
+        currency,
+      ] = await Promise.all([
+        fetchAllRows<TagDefinition>("tags", householdId, "position"),
+        fetchCatalog<Quest>("quests", householdId),
+        fetchAllRows<UserQuestOverride>("user_quest_overrides", householdId, "created_at"),
+        fetchAllRows<{ quest_id: string }>("user_hidden_quests", householdId, "created_at"),
+        fetchCatalog<ShopItem>("shop_items", householdId),
+        fetchAllRows<UserShopItemOverride>("user_shop_item_overrides", householdId, "created_at"),
+        fetchAllRows<{ shop_item_id: string }>("user_hidden_shop_items", householdId, "created_at"),
+        fetchAllRows<Goal>("goals", householdId, "priority"),
+        fetchWallet(householdId),
+        fetchAllRows<QuestLog>("quest_logs", householdId, "completed_at"),
+        fetchAllRows<ShopLog>("shop_logs", householdId, "purchased_at"),
+        fetchCurrency(householdId),
+      ]);
+
+      setError(null);
+      return buildExportBundle({
+        tags,
+        quests,
+        questOverrides,
+        hiddenQuestIds: hiddenQuests.map((row) => row.quest_id),
+        shopItems,
+        shopItemOverrides,
+        hiddenShopItemIds: hiddenShopItems.map((row) => row.shop_item_id),
+        goals,
+        wallet,
+        questLogs,
+        shopLogs,
+        currency,
+      });
+    } catch (err: unknown) {
+      console.error("Error exporting data:", err);
+      setError(err instanceof Error ? err.message : "Failed to export data");
+      throw err;
+    } finally {
+      setExporting(false);
+    }
+  }, []);
+
+  // Work out what importing a (validated) bundle would do, without writing anything
+  const previewImport = useCallback(async (bundle: ExportBundle): Promise<ImportPlan> => {
+    try {
+      const { householdId } = await requireContext();
+
+      const [tags, quests, shopItems, questOverrides, shopItemOverrides, goalCount, questLogCount, shopLogCount, wallet, currency] =
+        await Promise.all([
+          fetchAllRows<TagDefinition>("tags", householdId, "position"),
+          fetchCatalog<Quest>("quests", householdId),
+          fetchCatalog<ShopItem>("shop_items", householdId),
+          fetchAllRows<UserQuestOverride>("user_quest_overrides", householdId, "created_at"),
+          fetchAllRows<UserShopItemOverride>("user_shop_item_overrides", householdId, "created_at"),
+          countRows("goals", householdId),
+          countRows("quest_logs", householdId),
+          countRows("shop_logs", householdId),
+          fetchWallet(householdId),
+          fetchCurrency(householdId),
+        ]);
+
+      setError(null);
+      return planImport(bundle, {
+        tags,
+        quests,
+        shopItems,
+        questOverrideIds: questOverrides.map((override) => override.quest_id),
+        shopItemOverrideIds: shopItemOverrides.map((override) => override.shop_item_id),
+        goalCount,
+        questLogCount,
+        shopLogCount,
+        wallet,
+        currency,
+      });
+    } catch (err: unknown) {
+      console.error("Error checking import:", err);
+      setError(err instanceof Error ? err.message : "Failed to check import");
+      throw err;
+    }
+  }, []);
+
+  const importData = useCallback(async (plan: ImportPlan) => {
+    try {
+      setImporting(true);
+      await requireContext();
+      await writeImport(plan);
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Error importing data:", err);
+      setError(err instanceof Error ? err.message : "Failed to import data");
+      throw err;
+    } finally {
+      setImporting(false);
+    }
+  }, []);
+
+  return {
+    exporting,
+    importing,
+    error,
+    exportData,
+    previewImport,
+    importData,
+  };
+}
@@ -6,6 +6,8 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
+import { DEFAULT_SORT_MODE } from "../utils/sorting";
+import type { SortMode } from "../utils/sorting";
 import type { Tag, ShopTag } from "../types";
 
 interface FilterState {
@@ -13,6 +15,8 @@ interface FilterState {
   shopSearchQuery: string;
   selectedQuestTag: Tag | null;
   selectedShopTag: ShopTag | null;
+  questSortMode: SortMode;
+  shopSortMode: SortMode;
 }
 
 const DEFAULT_FILTER_STATE: FilterState = {
@@ -20,6 +24,8 @@ const DEFAULT_FILTER_STATE: FilterState = {
   shopSearchQuery: "",
   selectedQuestTag: null,
   selectedShopTag: null,
+  questSortMode: DEFAULT_SORT_MODE,
+  shopSortMode: DEFAULT_SORT_MODE,
 };
 
 export function useFilterState() {
@@ -111,6 +117,22 @@ export function useFilterState() {
     [filterState, saveFilterState]
   );
 
+  const setQuestSortMode = useCallback(
+    (mode: SortMode) => {
+      const newState = { ...filterState, questSortMode: mode };
+      saveFilterState(newState);
+    },
+    [filterState, saveFilterState]
+  );
+
+  const setShopSortMode = useCallback(
+    (mode: SortMode) => {
+      const newState = { ...filterState, shopSortMode: mode };
+      saveFilterState(newState);
+    },
+    [filterState, saveFilterState]
+  );
+
   // Load on mount
   useEffect(() => {
     loadFilterState();
@@ -132,10 +154,14 @@ export function useFilterState() {
     shopSearchQuery: filterState.shopSearchQuery,
     selectedQuestTag: filterState.selectedQuestTag,
     selectedShopTag: filterState.selectedShopTag,
+    questSortMode: filterState.questSortMode,
+    shopSortMode: filterState.shopSortMode,
     setQuestSearchQuery,
     setShopSearchQuery,
     setSelectedQuestTag,
     setSelectedShopTag,
+    setQuestSortMode,
+    setShopSortMode,
     loading,
   };
 }
@@ -1,40 +1,61 @@
 /**
  * Get Kraken - Goals Hook
  *
- * Manages user goals data and operations
+ * Manages household goals, their allocated balances, and milestones. Edits
+ * and allocations made offline are queued and replayed once back online.
  */
 
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache, isNetworkError } from "../lib/offlineStore";
+import {
+  enqueueMutation,
+  registerReplayHandler,
+  resolveEditConflicts,
+  snapshotFields,
+} from "../lib/outbox";
 import type { Goal } from "../types";
+import { isGoalMet } from "../utils/goals";
+
+async function requestAllocation(goalId: string, amount: number, dollarAmount: number) {
+  const { data, error } = await supabase.rpc("allocate_to_goal", {
+    p_goal_id: goalId,
+    p_amount: amount,
+    p_dollar_amount: dollarAmount,
+  });
+  if (error) throw new Error(error.message);
+  return data as Goal | null;
+}
 
 export function useGoals() {
   const [goals, setGoals] = useState<Goal[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load all goals for current user
+  // Load all goals shared by the current household
   const loadGoals = useCallback(async () => {
     try {
       setLoading(true);
-      // Get current user
-      const {
-        data: { user },
-      } = await supabase.supabase.auth.getUser();
-      if (!user) {
+      const context = await getHouseholdContext();
+      if (!context) {
         setGoals([]);
         setLoading(false);
         return;
       }
 
-      const { data, error: fetchError } = await supabase
-        .from("goals")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
+      const data = await withOfflineCache(`goals:${context.householdId}`, async () => {
+        const { data: rows, error: fetchError } = await supabase
+          .from("goals")
+          .select("*")
+          .eq("household_id", context.householdId)
+          .order("priority", { ascending: true })
+          .order("created_at", { ascending: false });
 
-      if (fetchError) throw fetchError;
-      setGoals(data || []);
+        if (fetchError) throw fetchError;
+        return (rows || []) as Goal[];
+      });
+      setGoals(data);
       setError(null);
     } catch (err: any) {
       console.error("Error loading goals:", err);
@@ -51,6 +72,10 @@ export function useGoals() {
         Goal,
         | "id"
         | "user_id"
+        | "household_id"
+        | "allocated_amount"
+        | "allocated_dollar_amount"
+        | "celebrated_milestone"
         | "created_at"
         | "updated_at"
         | "is_completed"
@@ -58,11 +83,8 @@ export function useGoals() {
       >
     ) => {
       try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
+        const context = await getHouseholdContext();
+        if (!context) {
           throw new Error("User must be authenticated");
         }
 
@@ -70,7 +92,11 @@ export function useGoals() {
         const insertData: any = {
           name: goal.name,
           target_amount: goal.target_amount,
-          user_id: user.id,
+          deadline: goal.deadline,
+          priority: goal.priority,
+          milestones: goal.milestones,
+          user_id: context.userId,
+          household_id: context.householdId,
           is_completed: false,
           completed_at: null,
           created_at: new Date().toISOString(),
@@ -134,31 +160,47 @@ export function useGoals() {
     []
   );
 
-  // Update a goal
-  const updateGoal = useCallback(async (id: string, updates: Partial<Goal>) => {
-    try {
-      const { data, error: updateError } = await supabase
-        .from("goals")
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", id)
-        .select()
-        .single();
+  // Write a goal edit to the server and patch local state
+  const applyGoalUpdate = useCallback(async (id: string, updates: Partial<Goal>) => {
+    const { data, error: updateError } = await supabase
+      .from("goals")
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
 
-      if (updateError) throw updateError;
-      if (data) {
-        setGoals((prev) => prev.map((g) => (g.id === id ? data : g)));
-      }
-      return data;
-    } catch (err: any) {
-      console.error("Error updating goal:", err);
-      setError(err.message || "Failed to update goal");
-      throw err;
+    if (updateError) throw new Error(updateError.message);
+    if (data) {
+      setGoals((prev) => prev.map((g) => (g.id === id ? data : g)));
     }
+    return data as Goal | null;
   }, []);
 
+  // Update a goal - offline, the edit is queued and patched into local state
+  const updateGoal = useCallback(
+    async (id: string, updates: Partial<Goal>) => {
+      try {
+        return await applyGoalUpdate(id, updates);
+      } catch (err: unknown) {
+        const existing = goals.find((g) => g.id === id);
+        if (existing && isNetworkError(err)) {
+          const base = snapshotFields(existing, updates);
+          await enqueueMutation({ kind: "update_goal", id, updates, base });
+          const patched = { ...existing, ...updates };
+          setGoals((prev) => prev.map((g) => (g.id === id ? patched : g)));
+          return patched;
+        }
+        console.error("Error updating goal:", err);
+        setError(err instanceof Error ? err.message : "Failed to update goal");
+        throw err;
+      }
+    },
+    [applyGoalUpdate, goals]
+  );
+
   // Delete a goal
   const deleteGoal = useCallback(async (id: string) => {
     try {
@@ -176,19 +218,52 @@ export function useGoals() {
     }
   }, []);
 
-  // Check and update goal completion based on wallet total and dollar total
+  // Earmark wallet balance for a goal (negative amounts release it)
+  // Validated server-side against the household's unallocated balance; offline,
+  // the allocation is queued and only checked when it replays
+  const allocateToGoal = useCallback(
+    async (id: string, amount: number, dollarAmount: number = 0) => {
+      try {
+        return await requestAllocation(id, amount, Math.round(dollarAmount));
+      } catch (err: unknown) {
+        const existing = goals.find((g) => g.id === id);
+        if (existing && isNetworkError(err)) {
+          await enqueueMutation({
+            kind: "allocate_to_goal",
+            goalId: id,
+            amount,
+            dollarAmount: Math.round(dollarAmount),
+          });
+          const patched = {
+            ...existing,
+            allocated_amount: existing.allocated_amount + amount,
+            allocated_dollar_amount: existing.allocated_dollar_amount + Math.round(dollarAmount),
+          };
+          setGoals((prev) => prev.map((g) => (g.id === id ? patched : g)));
+          return patched;
+        }
+        console.error("Error allocating to goal:", err);
+        setError(err instanceof Error ? err.message : "Failed to allocate to goal");
+        throw err;
+      }
+    },
+    [goals]
+  );
+
+  // Record that a milestone has been celebrated so it only shows once per household
+  const markMilestoneCelebrated = useCallback(
+    async (id: string, milestone: number) => {
+      await updateGoal(id, { celebrated_milestone: milestone });
+    },
+    [updateGoal]
+  );
+
+  // Mark goals complete once their allocation covers the targets
   // Uses cached goals state - non-blocking
   const checkGoalCompletion = useCallback(
-    async (walletTotal: number, walletDollarTotal: number = 0) => {
+    async () => {
       // Use cached goals state instead of fetching from DB
-      const incompleteGoals = goals.filter((g) => {
-        if (g.is_completed) return false;
-        const seaDollarMet = walletTotal >= g.target_amount;
-        const dollarMet = g.dollar_amount
-          ? walletDollarTotal >= g.dollar_amount
-          : true;
-        return seaDollarMet && dollarMet;
-      });
+      const incompleteGoals = goals.filter((g) => !g.is_completed && isGoalMet(g));
 
       // Batch update all completed goals in parallel
       await Promise.all(
@@ -203,29 +278,62 @@ export function useGoals() {
     [updateGoal, goals]
   );
 
+  // Replay queued edits and allocations once back online
+  useEffect(() => {
+    const unregisterUpdate = registerReplayHandler("update_goal", async (mutation) => {
+      const { data: current, error: fetchError } = await supabase
+        .from("goals")
+        .select("*")
+        .eq("id", mutation.id)
+        .maybeSingle();
+      if (fetchError) throw new Error(fetchError.message);
+      if (!current) throw new Error("Goal not found");
+
+      const { apply, conflicts } = resolveEditConflicts(mutation.updates, mutation.base, current as Goal);
+      if (Object.keys(apply).length > 0) {
+        await applyGoalUpdate(mutation.id, apply);
+      }
+      return conflicts.map(String);
+    });
+
+    const unregisterAllocation = registerReplayHandler("allocate_to_goal", async (mutation) => {
+      const data = await requestAllocation(mutation.goalId, mutation.amount, mutation.dollarAmount);
+      if (data) {
+        setGoals((prev) => prev.map((g) => (g.id === data.id ? data : g)));
+      }
+      return [];
+    });
+
+    return () => {
+      unregisterUpdate();
+      unregisterAllocation();
+    };
+  }, [applyGoalUpdate]);
+
   // Subscribe to real-time changes
   useEffect(() => {
     loadGoals();
 
     let subscription: any = null;
 
-    // Get current user for subscription filter
+    // Scope the subscription to the household so every member sees goal changes
     const setupSubscription = async () => {
-      const {
-        data: { user },
-      } = await supabase.supabase.auth.getUser();
-      if (!user) return;
+      const context = await getHouseholdContext().catch(() => null);
+      if (!context) return;
+      const { householdId } = context;
 
       subscription = supabase.subscribe(
         "goals",
         (payload: any) => {
-          // Only process events for current user's goals
+          // Only process events for the household's goals
           if (
-            payload.new?.user_id === user.id ||
-            payload.old?.user_id === user.id
+            payload.new?.household_id === householdId ||
+            payload.old?.household_id === householdId
           ) {
             if (payload.eventType === "INSERT") {
-              setGoals((prev) => [payload.new, ...prev]);
+              setGoals((prev) =>
+                prev.some((g) => g.id === payload.new.id) ? prev : [payload.new, ...prev]
+              );
             } else if (payload.eventType === "UPDATE") {
               setGoals((prev) =>
                 prev.map((g) => (g.id === payload.new.id ? payload.new : g))
@@ -235,7 +343,7 @@ export function useGoals() {
             }
           }
         },
-        `user_id=eq.${user.id}`
+        `household_id=eq.${householdId}`
       );
     };
 
@@ -255,6 +363,8 @@ export function useGoals() {
     createGoal,
     updateGoal,
     deleteGoal,
+    allocateToGoal,
+    markMilestoneCelebrated,
     checkGoalCompletion,
     refresh: loadGoals,
   };
@@ -0,0 +1,277 @@
+/**
+ * Get Kraken - Household Hook
+ *
+ * Manages the current household, its members and roles, email invites, and
+ * the currency its real-money amounts are kept in
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext, clearHouseholdContext } from "../lib/household";
+import { resolveCurrency } from "../utils/money";
+import type { MoneySettings } from "../utils/money";
+import type { Household, HouseholdMember, HouseholdInvite } from "../types";
+
+export function useHousehold() {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [sentInvites, setSentInvites] = useState<HouseholdInvite[]>([]);
+  const [incomingInvites, setIncomingInvites] = useState<HouseholdInvite[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load household, members, and pending invites (sent by us and addressed to us)
+  const loadHousehold = useCallback(async () => {
+    try {
+      setLoading(true);
+      const context = await getHouseholdContext();
+      if (!context) {
+        setHousehold(null);
+        setMembers([]);
+        setSentInvites([]);
+        setIncomingInvites([]);
+        setCurrentUserId(null);
+        return;
+      }
+      setCurrentUserId(context.userId);
+
+      const [householdResult, membersResult, invitesResult] = await Promise.all([
+        supabase
+          .from("households")
+          .select("*")
+          .eq("id", context.householdId)
+          .maybeSingle(),
+        supabase
+          .from("household_members")
+          .select("*")
+          .eq("household_id", context.householdId)
+          .order("joined_at", { ascending: true }),
+        // RLS returns our household's invites plus any addressed to our email
+        supabase
+          .from("household_invites")
+          .select("*")
+          .eq("status", "pending")
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (householdResult.error) throw householdResult.error;
+      if (membersResult.error) throw membersResult.error;
+      if (invitesResult.error) throw invitesResult.error;
+
+      const invites: HouseholdInvite[] = invitesResult.data || [];
+      setHousehold(householdResult.data);
+      setMembers(membersResult.data || []);
+      setSentInvites(invites.filter((i) => i.household_id === context.householdId));
+      setIncomingInvites(invites.filter((i) => i.household_id !== context.householdId));
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Error loading household:", err);
+      setError(err instanceof Error ? err.message : "Failed to load household");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Keep members and invites in sync across the household
+  useEffect(() => {
+    loadHousehold();
+
+    let membersSubscription: ReturnType<typeof supabase.subscribe> | null = null;
+    let invitesSubscription: ReturnType<typeof supabase.subscribe> | null = null;
+
+    const setupSubscriptions = async () => {
+      const context = await getHouseholdContext().catch(() => null);
+      if (!context) return;
+
+      membersSubscription = supabase.subscribe(
+        "household_members",
+        () => loadHousehold(),
+        `household_id=eq.${context.householdId}`
+      );
+      invitesSubscription = supabase.subscribe(
+        "household_invites",
+        () => loadHousehold(),
+        `household_id=eq.${context.householdId}`
+      );
+    };
+
+    setupSubscriptions();
+
+    return () => {
+      if (membersSubscription) membersSubscription.unsubscribe();
+      if (invitesSubscription) invitesSubscription.unsubscribe();
+    };
+  }, [loadHousehold]);
+
+  const currentMember = useMemo(
+    () => members.find((m) => m.user_id === currentUserId) || null,
+    [members, currentUserId]
+  );
+
+  const money = useMemo(
+    (): MoneySettings => ({
+      currency: resolveCurrency(household?.currency),
+      coinsPerUnit: household?.coins_per_unit ? Number(household.coins_per_unit) : null,
+    }),
+    [household?.currency, household?.coins_per_unit]
+  );
+
+  // Single-member households are always owned by that member
+  const isOwner = currentMember ? currentMember.role === "owner" : members.length === 0;
+
+  // Invite someone to the household by email (owners only)
+  const inviteMember = useCallback(
+    async (email: string) => {
+      try {
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
+
+        const normalized = email.trim().toLowerCase();
+        if (!normalized.includes("@")) {
+          throw new Error("Please enter a valid email address");
+        }
+        if (members.some((m) => m.email?.toLowerCase() === normalized)) {
+          throw new Error("That person is already in your household");
+        }
+
+        const { data, error: insertError } = await supabase
+          .from("household_invites")
+          .insert({
+            household_id: context.householdId,
+            email: normalized,
+            invited_by: context.userId,
+          })
+          .select()
+          .single();
+
+        if (insertError) throw new Error(insertError.message);
+        if (data) {
+          setSentInvites((prev) => [data, ...prev]);
+        }
+      } catch (err: unknown) {
+        console.error("Error inviting member:", err);
+        setError(err instanceof Error ? err.message : "Failed to invite member");
+        throw err;
+      }
+    },
+    [members]
+  );
+
+  // Withdraw a pending invite (owners only)
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    try {
+      const { error: updateError } = await supabase
+        .from("household_invites")
+        .update({ status: "revoked", responded_at: new Date().toISOString() })
+        .eq("id", inviteId);
+
+      if (updateError) throw new Error(updateError.message);
+      setSentInvites((prev) => prev.filter((i) => i.id !== inviteId));
+    } catch (err: unknown) {
+      console.error("Error revoking invite:", err);
+      setError(err instanceof Error ? err.message : "Failed to revoke invite");
+      throw err;
+    }
+  }, []);
+
+  // Join the inviting household - every household-scoped hook must reload afterwards
+  const acceptInvite = useCallback(async (inviteId: string) => {
+    try {
+      const { error: rpcError } = await supabase.rpc("accept_household_invite", {
+        p_invite_id: inviteId,
+      });
+
+      if (rpcError) throw new Error(rpcError.message);
+      clearHouseholdContext();
+    } catch (err: unknown) {
+      console.error("Error accepting invite:", err);
+      setError(err instanceof Error ? err.message : "Failed to accept invite");
+      throw err;
+    }
+  }, []);
+
+  const declineInvite = useCallback(async (inviteId: string) => {
+    try {
+      const { error: rpcError } = await supabase.rpc("decline_household_invite", {
+        p_invite_id: inviteId,
+      });
+
+      if (rpcError) throw new Error(rpcError.message);
+      setIncomingInvites((prev) => prev.filter((i) => i.id !== inviteId));
+    } catch (err: unknown) {
+      console.error("Error declining invite:", err);
+      setError(err instanceof Error ? err.message : "Failed to decline invite");
+      throw err;
+    }
+  }, []);
+
+  // Remove a member from the household (owners only)
+  // Currency and exchange rate for real-money amounts (owners only)
+  const updateMoneySettings = useCallback(async (money: MoneySettings) => {
+    try {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      const { data, error: updateError } = await supabase
+        .from("households")
+        .update({ currency: money.currency, coins_per_unit: money.coinsPerUnit })
+        .eq("id", context.householdId)
+        .select()
+        .single();
+
+      if (updateError) throw new Error(updateError.message);
+      setHousehold(data as Household);
+    } catch (err: unknown) {
+      console.error("Error updating currency:", err);
+      setError(err instanceof Error ? err.message : "Failed to update currency");
+      throw err;
+    }
+  }, []);
+
+  const removeMember = useCallback(async (userId: string) => {
+    try {
+      const { error: rpcError } = await supabase.rpc("remove_household_member", {
+        p_user_id: userId,
+      });
+
+      if (rpcError) throw new Error(rpcError.message);
+      setMembers((prev) => prev.filter((m) => m.user_id !== userId));
+    } catch (err: unknown) {
+      console.error("Error removing member:", err);
+      setError(err instanceof Error ? err.message : "Failed to remove member");
+      throw err;
+    }
+  }, []);
+
+  // Short display label for attribution ("You", or the email's local part)
+  const getMemberLabel = useCallback(
+    (userId: string): string => {
+      if (userId === currentUserId) return "You";
+      const member = members.find((m) => m.user_id === userId);
+      if (!member) return "Former member";
+      return member.email ? member.email.split("@")[0] : "Member";
+    },
+    [members, currentUserId]
+  );
+
+  return {
+    household,
+    members,
+    sentInvites,
+    incomingInvites,
+    currentUserId,
+    isOwner,
+    money,
+    loading,
+    error,
+    inviteMember,
+    revokeInvite,
+    acceptInvite,
+    declineInvite,
+    removeMember,
+    updateMoneySettings,
+    getMemberLabel,
+    refresh: loadHousehold,
+  };
+}
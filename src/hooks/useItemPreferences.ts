@@ -0,0 +1,159 @@
+/**
+ * Get Kraken - Item Preferences Hook
+ *
+ * Manages the current user's starred quests / shop items and their custom
+ * (drag-to-reorder) order. These are personal, unlike household overrides.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import type { PreferenceItemType, UserItemPreference } from "../types";
+
+export function useItemPreferences(itemType: PreferenceItemType) {
+  const [preferences, setPreferences] = useState<Record<string, UserItemPreference>>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      setLoading(true);
+      const context = await getHouseholdContext();
+      if (!context) {
+        setPreferences({});
+        return;
+      }
+
+      const rows = await withOfflineCache(`user_item_preferences:${context.userId}:${itemType}`, async () => {
+        const { data, error } = await supabase
+          .from("user_item_preferences")
+          .select("*")
+          .eq("user_id", context.userId)
+          .eq("item_type", itemType);
+
+        if (error) throw new Error(error.message);
+        return (data || []) as UserItemPreference[];
+      });
+
+      const byItem: Record<string, UserItemPreference> = {};
+      rows.forEach((row) => {
+        byItem[row.item_id] = row;
+      });
+      setPreferences(byItem);
+    } catch (err: unknown) {
+      console.error("Error loading item preferences:", err);
+      setPreferences({});
+    } finally {
+      setLoading(false);
+    }
+  }, [itemType]);
+
+  // Upsert only the given columns, so a reorder keeps stars and vice versa
+  const savePreferences = useCallback(
+    async (rows: { item_id: string; starred?: boolean; sort_position?: number | null }[]) => {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from("user_item_preferences")
+        .upsert(
+          rows.map((row) => ({
+            ...row,
+            user_id: context.userId,
+            item_type: itemType,
+            updated_at: now,
+          })),
+          { onConflict: "user_id,item_type,item_id" }
+        )
+        .select();
+
+      if (error) throw new Error(error.message);
+      setPreferences((prev) => {
+        const next = { ...prev };
+        ((data || []) as UserItemPreference[]).forEach((row) => {
+          next[row.item_id] = row;
+        });
+        return next;
+      });
+    },
+    [itemType]
+  );
+
+  const toggleStar = useCallback(
+    async (itemId: string) => {
+      const previous = preferences;
+      const starred = !preferences[itemId]?.starred;
+      // Optimistic: stars should respond instantly
+      setPreferences((prev) => ({
+        ...prev,
+        [itemId]: { ...prev[itemId], item_id: itemId, starred },
+      }));
+      try {
+        await savePreferences([{ item_id: itemId, starred }]);
+      } catch (err: unknown) {
+        console.error("Error starring item:", err);
+        setPreferences(previous);
+        throw err;
+      }
+    },
+    [preferences, savePreferences]
+  );
+
+  // Store a full custom order (item ids, first to last)
+  const reorder = useCallback(
+    async (orderedIds: string[]) => {
+      const previous = preferences;
+      setPreferences((prev) => {
+        const next = { ...prev };
+        orderedIds.forEach((itemId, index) => {
+          next[itemId] = { ...prev[itemId], item_id: itemId, sort_position: index };
+        });
+        return next;
+      });
+      try {
+        await savePreferences(
+          orderedIds.map((itemId, index) => ({ item_id: itemId, sort_position: index }))
+        );
+      } catch (err: unknown) {
+        console.error("Error saving item order:", err);
+        setPreferences(previous);
+        throw err;
+      }
+    },
+    [preferences, savePreferences]
+  );
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  const starredIds = useMemo(
+    () =>
+      new Set(
+        Object.values(preferences)
+          .filter((preference) => preference.starred)
+          .map((preference) => preference.item_id)
+      ),
+    [preferences]
+  );
+
+  const positions = useMemo(() => {
+    const byItem: Record<string, number> = {};
+    Object.values(preferences).forEach((preference) => {
+      if (preference.sort_position !== null && preference.sort_position !== undefined) {
+        byItem[preference.item_id] = preference.sort_position;
+      }
+    });
+    return byItem;
+  }, [preferences]);
+
+  return {
+    starredIds,
+    positions,
+    loading,
+    toggleStar,
+    reorder,
+    refresh: loadPreferences,
+  };
+}
@@ -0,0 +1,446 @@
+/**
+ * Get Kraken - Log History Hook
+ *
+ * Keeps the household's quest and shop logs current through realtime changes
+ * instead of polling. A recent window is loaded up front and older history is
+ * paged in on request; completion and purchase counts cover all history, and
+ * day-by-day totals of the older history (in the user's time zone) keep
+ * streak records, achievements and charts from stopping at the window's edge.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import {
+  subscribeOutbox,
+  toPendingQuestLogs,
+  toPendingShopLogs,
+  mergePendingLogs,
+} from "../lib/outbox";
+import type { OutboxEntry } from "../lib/outbox";
+import type { OlderLogHistory, QuestLog, ShopLog } from "../types";
+import { applyLogChange, countDelta, addCounts } from "../utils/logSync";
+import type { LogChange } from "../utils/logSync";
+import { calculateUserCompletionCounts } from "../utils/completionCount";
+import { calculateUserPurchaseCounts } from "../utils/purchaseCount";
+import { toDayNumber } from "../utils/dates";
+import { LOG_HISTORY_WINDOW_DAYS } from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const questLogDate = (log: QuestLog) => log.completed_at;
+const shopLogDate = (log: ShopLog) => log.purchased_at;
+
+function windowStart(end: Date): string {
+  return new Date(end.getTime() - LOG_HISTORY_WINDOW_DAYS * DAY_MS).toISOString();
+}
+
+// Active quest logs from `from` (inclusive) up to `to` (exclusive), newest first
+async function fetchQuestLogs(householdId: string, from: string, to?: string): Promise<QuestLog[]> {
+  let query = supabase
+    .from("quest_logs")
+    .select("*")
+    .eq("household_id", householdId)
+    .is("reversed_at", null)
+    .gte("completed_at", from);
+  if (to) query = query.lt("completed_at", to);
+
+  const { data, error } = await query.order("completed_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as QuestLog[];
+}
+
+async function fetchShopLogs(householdId: string, from: string, to?: string): Promise<ShopLog[]> {
+  let query = supabase
+    .from("shop_logs")
+    .select("*")
+    .eq("household_id", householdId)
+    .is("reversed_at", null)
+    .gte("purchased_at", from);
+  if (to) query = query.lt("purchased_at", to);
+
+  const { data, error } = await query.order("purchased_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as ShopLog[];
+}
+
+// Per-quest / per-item counts of everything before the loaded window
+async function fetchOlderCounts(
+  before: string
+): Promise<{ quests: Record<string, number>; items: Record<string, number> }> {
+  const [questResult, shopResult] = await Promise.all([
+    supabase.rpc("quest_log_counts", { p_before: before }),
+    supabase.rpc("shop_log_counts", { p_before: before }),
+  ]);
+  if (questResult.error) throw new Error(questResult.error.message);
+  if (shopResult.error) throw new Error(shopResult.error.message);
+
+  const quests: Record<string, number> = {};
+  ((questResult.data || []) as { quest_id: string; count: number }[]).forEach((row) => {
+    quests[row.quest_id] = Number(row.count);
+  });
+  const items: Record<string, number> = {};
+  ((shopResult.data || []) as { shop_item_id: string; count: number }[]).forEach((row) => {
+    items[row.shop_item_id] = Number(row.count);
+  });
+  return { quests, items };
+}
+
+const EMPTY_OLDER_HISTORY: OlderLogHistory = { questDays: [], shopDays: [] };
+
+// Day number of a calendar date ("YYYY-MM-DD") as the server returns it
+const dateToDay = (date: string) => toDayNumber(`${date}T00:00:00Z`, "UTC");
+
+// Day-by-day totals of everything before the loaded window
+async function fetchOlderDays(before: string, timeZone: string): Promise<OlderLogHistory> {
+  const [questResult, shopResult] = await Promise.all([
+    supabase.rpc("quest_log_days", { p_before: before, p_time_zone: timeZone }),
+    supabase.rpc("shop_log_days", { p_before: before, p_time_zone: timeZone }),
+  ]);
+  if (questResult.error) throw new Error(questResult.error.message);
+  if (shopResult.error) throw new Error(shopResult.error.message);
+
+  const questRows = (questResult.data || []) as {
+    quest_id: string;
+    user_id: string;
+    quest_name: string | null;
+    days: string[];
+    counts: number[];
+    rewards: number[];
+    dollar_amounts: number[];
+  }[];
+  const shopRows = (shopResult.data || []) as {
+    shop_item_id: string;
+    user_id: string;
+    days: string[];
+    counts: number[];
+    prices: number[];
+    dollar_amounts: number[];
+  }[];
+
+  return {
+    questDays: questRows.flatMap((row) =>
+      row.days.map((date, index) => ({
+        quest_id: row.quest_id,
+        user_id: row.user_id,
+        quest_name: row.quest_name,
+        day: dateToDay(date),
+        count: row.counts[index],
+        reward: row.rewards[index],
+        dollar_amount: row.dollar_amounts[index],
+      }))
+    ),
+    shopDays: shopRows.flatMap((row) =>
+      row.days.map((date, index) => ({
+        shop_item_id: row.shop_item_id,
+        user_id: row.user_id,
+        day: dateToDay(date),
+        count: row.counts[index],
+        price: row.prices[index],
+        dollar_amount: row.dollar_amounts[index],
+      }))
+    ),
+  };
+}
+
+export function useLogHistory(timeZone: string) {
+  const [questLogs, setQuestLogs] = useState<QuestLog[]>([]);
+  const [shopLogs, setShopLogs] = useState<ShopLog[]>([]);
+  const [historyStart, setHistoryStart] = useState(() => windowStart(new Date()));
+  const [olderQuestCounts, setOlderQuestCounts] = useState<Record<string, number>>({});
+  const [olderItemCounts, setOlderItemCounts] = useState<Record<string, number>>({});
+  const [olderHistory, setOlderHistory] = useState<OlderLogHistory>(EMPTY_OLDER_HISTORY);
+  const [pendingEntries, setPendingEntries] = useState<OutboxEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Realtime handlers need the current window start without resubscribing
+  const historyStartRef = useRef(historyStart);
+  useEffect(() => {
+    historyStartRef.current = historyStart;
+  }, [historyStart]);
+
+  const timeZoneRef = useRef(timeZone);
+  useEffect(() => {
+    timeZoneRef.current = timeZone;
+  }, [timeZone]);
+
+  // Load the recent window (re-run after reconnecting, when realtime may have missed changes)
+  const loadLogs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const context = await getHouseholdContext();
+      if (!context) {
+        setQuestLogs([]);
+        setShopLogs([]);
+        return;
+      }
+
+      const start = windowStart(new Date());
+      const { householdId } = context;
+      const [recentQuestLogs, recentShopLogs] = await Promise.all([
+        withOfflineCache(`quest_logs:${householdId}`, () => fetchQuestLogs(householdId, start)),
+        withOfflineCache(`shop_logs:${householdId}`, () => fetchShopLogs(householdId, start)),
+      ]);
+      setQuestLogs(recentQuestLogs);
+      setShopLogs(recentShopLogs);
+      setHistoryStart(start);
+
+      const [olderCounts, olderDays] = await Promise.all([
+        withOfflineCache(`log_counts:${householdId}`, () => fetchOlderCounts(start)),
+        withOfflineCache(`log_days:${householdId}:${timeZone}`, () => fetchOlderDays(start, timeZone)),
+      ]);
+      setOlderQuestCounts(olderCounts.quests);
+      setOlderItemCounts(olderCounts.items);
+      setOlderHistory(olderDays);
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Error loading logs:", err);
+      setError(err instanceof Error ? err.message : "Failed to load logs");
+    } finally {
+      setLoading(false);
+    }
+  }, [timeZone]);
+
+  // Page in the window before the oldest loaded log
+  const loadOlderHistory = useCallback(async () => {
+    try {
+      setLoadingOlder(true);
+      const context = await getHouseholdContext();
+      if (!context) return;
+
+      const end = historyStartRef.current;
+      const start = windowStart(new Date(end));
+      const [olderQuestLogs, olderShopLogs, olderCounts, olderDays] = await Promise.all([
+        fetchQuestLogs(context.householdId, start, end),
+        fetchShopLogs(context.householdId, start, end),
+        fetchOlderCounts(start),
+        fetchOlderDays(start, timeZone),
+      ]);
+      setQuestLogs((prev) => [...prev, ...olderQuestLogs]);
+      setShopLogs((prev) => [...prev, ...olderShopLogs]);
+      setOlderQuestCounts(olderCounts.quests);
+      setOlderItemCounts(olderCounts.items);
+      setOlderHistory(olderDays);
+      setHistoryStart(start);
+    } catch (err: unknown) {
+      console.error("Error loading older logs:", err);
+      setError(err instanceof Error ? err.message : "Failed to load older logs");
+      throw err;
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [timeZone]);
+
+  // Patch a log into local state right away (realtime echoes are de-duplicated by id)
+  const upsertQuestLog = useCallback((log: QuestLog) => {
+    setQuestLogs((prev) =>
+      applyLogChange(prev, { eventType: "INSERT", new: log, old: {} }, questLogDate)
+    );
+  }, []);
+
+  const upsertShopLog = useCallback((log: ShopLog) => {
+    setShopLogs((prev) =>
+      applyLogChange(prev, { eventType: "INSERT", new: log, old: {} }, shopLogDate)
+    );
+  }, []);
+
+  const removeQuestLog = useCallback((logId: string) => {
+    setQuestLogs((prev) => prev.filter((log) => log.id !== logId));
+  }, []);
+
+  const removeShopLog = useCallback((logId: string) => {
+    setShopLogs((prev) => prev.filter((log) => log.id !== logId));
+  }, []);
+
+  // Fetch the log created by a completion or purchase (client_id is unique)
+  const getQuestLogByClientId = useCallback(async (clientId: string): Promise<QuestLog | null> => {
+    const { data, error: fetchError } = await supabase
+      .from("quest_logs")
+      .select("*")
+      .eq("client_id", clientId)
+      .maybeSingle();
+    if (fetchError) throw new Error(fetchError.message);
+    return (data as QuestLog | null) ?? null;
+  }, []);
+
+  const getShopLogByClientId = useCallback(async (clientId: string): Promise<ShopLog | null> => {
+    const { data, error: fetchError } = await supabase
+      .from("shop_logs")
+      .select("*")
+      .eq("client_id", clientId)
+      .maybeSingle();
+    if (fetchError) throw new Error(fetchError.message);
+    return (data as ShopLog | null) ?? null;
+  }, []);
+
+  // Attach (or with null, remove) a proof photo on a completion
+  const setQuestLogProofPhoto = useCallback(
+    async (logId: string, photoUrl: string | null): Promise<QuestLog> => {
+      try {
+        const { data, error: updateError } = await supabase.rpc("set_quest_log_proof_photo", {
+          p_log_id: logId,
+          p_photo_url: photoUrl,
+        });
+        if (updateError) throw new Error(updateError.message);
+
+        const log = data as QuestLog;
+        upsertQuestLog(log);
+        return log;
+      } catch (err: unknown) {
+        console.error("Error saving proof photo:", err);
+        setError(err instanceof Error ? err.message : "Failed to save proof photo");
+        throw err;
+      }
+    },
+    [upsertQuestLog]
+  );
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  // Realtime has no backlog, so reload the window after being offline
+  useEffect(() => {
+    const handleOnline = () => {
+      loadLogs();
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [loadLogs]);
+
+  // Queued offline actions show as logs until their replay arrives
+  useEffect(
+    () => subscribeOutbox((outbox) => setPendingEntries(outbox.entries)),
+    []
+  );
+
+  // Subscribe to the household's log changes
+  useEffect(() => {
+    let cancelled = false;
+    let questSubscription: ReturnType<typeof supabase.subscribe> | null = null;
+    let shopSubscription: ReturnType<typeof supabase.subscribe> | null = null;
+
+    // Changes to logs older than the loaded window only move the counts,
+    // and the day totals are fetched again
+    const isBeforeWindow = (date: string) =>
+      new Date(date).getTime() < new Date(historyStartRef.current).getTime();
+
+    const refreshOlderDays = () => {
+      fetchOlderDays(historyStartRef.current, timeZoneRef.current)
+        .then((olderDays) => {
+          if (!cancelled) setOlderHistory(olderDays);
+        })
+        .catch((err: unknown) => {
+          console.error("Error loading older history:", err);
+        });
+    };
+
+    const setupSubscriptions = async () => {
+      const context = await getHouseholdContext().catch(() => null);
+      if (!context || cancelled) return;
+      const { householdId } = context;
+
+      questSubscription = supabase.subscribe(
+        "quest_logs",
+        (payload: LogChange<QuestLog>) => {
+          const log = payload.eventType === "DELETE" ? payload.old : payload.new;
+          if (log.household_id !== householdId) return;
+          if (log.completed_at && isBeforeWindow(log.completed_at)) {
+            const delta = countDelta(payload);
+            const questId = log.quest_id;
+            if (delta !== 0 && questId) {
+              setOlderQuestCounts((prev) => ({
+                ...prev,
+                [questId]: Math.max(0, (prev[questId] || 0) + delta),
+              }));
+              refreshOlderDays();
+            }
+            return;
+          }
+          setQuestLogs((prev) => applyLogChange(prev, payload, questLogDate));
+        },
+        `household_id=eq.${householdId}`
+      );
+
+      shopSubscription = supabase.subscribe(
+        "shop_logs",
+        (payload: LogChange<ShopLog>) => {
+          const log = payload.eventType === "DELETE" ? payload.old : payload.new;
+          if (log.household_id !== householdId) return;
+          if (log.purchased_at && isBeforeWindow(log.purchased_at)) {
+            const delta = countDelta(payload);
+            const itemId = log.shop_item_id;
+            if (delta !== 0 && itemId) {
+              setOlderItemCounts((prev) => ({
+                ...prev,
+                [itemId]: Math.max(0, (prev[itemId] || 0) + delta),
+              }));
+              refreshOlderDays();
+            }
+            return;
+          }
+          setShopLogs((prev) => applyLogChange(prev, payload, shopLogDate));
+        },
+        `household_id=eq.${householdId}`
+      );
+    };
+
+    setupSubscriptions();
+
+    return () => {
+      cancelled = true;
+      questSubscription?.unsubscribe();
+      shopSubscription?.unsubscribe();
+    };
+  }, []);
+
+  const mergedQuestLogs = useMemo(
+    () => mergePendingLogs(questLogs, toPendingQuestLogs(pendingEntries)),
+    [questLogs, pendingEntries]
+  );
+
+  const mergedShopLogs = useMemo(
+    () => mergePendingLogs(shopLogs, toPendingShopLogs(pendingEntries)),
+    [shopLogs, pendingEntries]
+  );
+
+  // Loaded window plus everything older
+  const completionCounts = useMemo(
+    () => addCounts(olderQuestCounts, calculateUserCompletionCounts(mergedQuestLogs)),
+    [olderQuestCounts, mergedQuestLogs]
+  );
+
+  const purchaseCounts = useMemo(
+    () => addCounts(olderItemCounts, calculateUserPurchaseCounts(mergedShopLogs)),
+    [olderItemCounts, mergedShopLogs]
+  );
+
+  const hasOlderHistory =
+    Object.values(olderQuestCounts).some((count) => count > 0) ||
+    Object.values(olderItemCounts).some((count) => count > 0);
+
+  return {
+    questLogs: mergedQuestLogs,
+    shopLogs: mergedShopLogs,
+    completionCounts,
+    purchaseCounts,
+    olderHistory,
+    historyStart,
+    hasOlderHistory,
+    loading,
+    loadingOlder,
+    error,
+    loadOlderHistory,
+    upsertQuestLog,
+    upsertShopLog,
+    removeQuestLog,
+    removeShopLog,
+    getQuestLogByClientId,
+    getShopLogByClientId,
+    setQuestLogProofPhoto,
+    refresh: loadLogs,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Get Kraken - Offline Sync Hook
+ *
+ * Tracks connectivity and the mutation outbox, replays queued changes when
+ * the device comes back online, and totals what is still waiting to sync
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import {
+  subscribeOutbox,
+  loadOutbox,
+  replayOutbox,
+  dismissSyncIssues,
+} from "../lib/outbox";
+import type { OutboxState } from "../lib/outbox";
+
+// Retry while changes are waiting, in case the "online" event never fires
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+export function useOfflineSync() {
+  const [isOnline, setIsOnline] = useState(() =>
+    typeof navigator === "undefined" ? true : navigator.onLine
+  );
+  const [outbox, setOutbox] = useState<OutboxState | null>(null);
+
+  useEffect(() => subscribeOutbox(setOutbox), []);
+
+  // Pick up changes queued in an earlier session and try to send them
+  useEffect(() => {
+    loadOutbox().then(() => replayOutbox());
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      replayOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  const entries = useMemo(() => outbox?.entries ?? [], [outbox]);
+
+  useEffect(() => {
+    if (entries.length === 0 || !isOnline) return;
+    const interval = setInterval(() => replayOutbox(), RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [entries.length, isOnline]);
+
+  // Wallet change still to come from queued completions, purchases and
+  // adjustments. A queued reset already shows as a zero wallet, so only what
+  // was queued after it still adds up.
+  const pendingDelta = useMemo(
+    () =>
+      entries.reduce(
+        (delta, entry) => {
+          const { mutation } = entry;
+          if (mutation.kind === "reset_wallet") {
+            return { total: 0, dollarTotal: 0 };
+          }
+          if (mutation.kind === "adjust_wallet") {
+            return {
+              total: delta.total + mutation.amount,
+              dollarTotal: delta.dollarTotal + mutation.dollarAmount,
+            };
+          }
+          if (mutation.kind === "complete_quest") {
+            return {
+              total: delta.total + mutation.reward,
+              dollarTotal: delta.dollarTotal + mutation.dollarAmount,
+            };
+          }
+          if (mutation.kind === "purchase_item") {
+            return {
+              total: delta.total - mutation.price,
+              dollarTotal: delta.dollarTotal - mutation.dollarAmount,
+            };
+          }
+          return delta;
+        },
+        { total: 0, dollarTotal: 0 }
+      ),
+    [entries]
+  );
+
+  const syncNow = useCallback(() => replayOutbox(), []);
+
+  return {
+    isOnline,
+    pendingCount: entries.length,
+    pendingDelta,
+    syncing: outbox?.syncing ?? false,
+    issues: outbox?.issues ?? [],
+    lastSyncedAt: outbox?.lastSyncedAt ?? null,
+    syncNow,
+    dismissIssues: dismissSyncIssues,
+  };
+}
@@ -1,18 +1,73 @@
 /**
  * Get Kraken - User Preferences Hook
  *
- * Manages user preferences including dollar display toggle
+ * Manages the user's preferences document - dollar display, currency, sound,
+ * theme, default tab, quest reminders and the calendar days are counted in -
+ * kept in sync across the user's devices
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { supabase } from "../lib/supabase";
+import { resolveTimeZone } from "../utils/dates";
+import type { CalendarSettings } from "../utils/dates";
+import {
+  DEFAULT_PREFERENCES,
+  PREFERENCES_VERSION,
+  migratePreferences,
+} from "../utils/preferences";
+import type { PreferenceChanges, Preferences } from "../utils/preferences";
+
+// localStorage backup of the whole document (also read by index.html for the theme)
+export const PREFERENCES_STORAGE_KEY = "get-kraken-preferences";
+
+// Separate keys used before the document existed
+const LEGACY_LOCAL_KEYS = {
+  show_dollar_amounts: "showDollarAmounts",
+  reminders_enabled: "remindersEnabled",
+  reminder_lead_minutes: "reminderLeadMinutes",
+  time_zone: "timeZone",
+  week_starts_on: "weekStartsOn",
+} as const;
+
+function readLegacyLocalPreferences(): Record<string, unknown> {
+  const lead = parseInt(localStorage.getItem(LEGACY_LOCAL_KEYS.reminder_lead_minutes) || "");
+  const weekStart = parseInt(localStorage.getItem(LEGACY_LOCAL_KEYS.week_starts_on) || "");
+  return {
+    version: 1,
+    show_dollar_amounts: localStorage.getItem(LEGACY_LOCAL_KEYS.show_dollar_amounts) === "true",
+    reminders_enabled: localStorage.getItem(LEGACY_LOCAL_KEYS.reminders_enabled) === "true",
+    reminder_lead_minutes: Number.isNaN(lead) ? undefined : lead,
+    time_zone: localStorage.getItem(LEGACY_LOCAL_KEYS.time_zone),
+    week_starts_on: Number.isNaN(weekStart) ? undefined : weekStart,
+  };
+}
 
-// UserPreferences type is defined inline where needed
+// localStorage backup, used when signed out or the database is unreachable
+function readLocalPreferences(): Preferences {
+  const saved = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+  if (!saved) return migratePreferences(readLegacyLocalPreferences());
+  try {
+    return migratePreferences(JSON.parse(saved));
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+function writeLocalPreferences(preferences: Preferences) {
+  localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+}
 
 export function usePreferences() {
-  const [showDollarAmounts, setShowDollarAmounts] = useState(false);
+  const [preferences, setPreferences] = useState<Preferences>(readLocalPreferences);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Saves in flight; realtime rows arriving meanwhile may predate the newest change
+  const pendingSavesRef = useRef(0);
+
+  const applyPreferences = useCallback((next: Preferences) => {
+    setPreferences(next);
+    writeLocalPreferences(next);
+  }, []);
 
   // Get current user ID
   const getUserId = useCallback(async () => {
@@ -27,118 +82,162 @@ export function usePreferences() {
       const userId = await getUserId();
       if (!userId) {
         // No user logged in, use localStorage as fallback
-        const stored = localStorage.getItem("showDollarAmounts");
-        setShowDollarAmounts(stored === "true");
+        setPreferences(readLocalPreferences());
         setLoading(false);
         return;
       }
 
       const { data, error: fetchError } = await supabase
         .from("user_preferences")
-        .select("*")
+        .select("settings")
         .eq("user_id", userId)
         .single();
 
       if (fetchError && fetchError.code !== "PGRST116") {
-        // PGRST116 is "not found" - that's okay, we'll create one
+        // PGRST116 is "not found" - that's okay, the first save creates the row
         throw fetchError;
       }
 
       if (data) {
-        setShowDollarAmounts(data.show_dollar_amounts);
-        // Also store in localStorage as backup
-        localStorage.setItem("showDollarAmounts", String(data.show_dollar_amounts));
+        applyPreferences(migratePreferences(data.settings));
       } else {
         // No preferences found, check localStorage
-        const stored = localStorage.getItem("showDollarAmounts");
-        setShowDollarAmounts(stored === "true");
+        setPreferences(readLocalPreferences());
       }
       setError(null);
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error("Error loading preferences:", err);
       // Fallback to localStorage
-      const stored = localStorage.getItem("showDollarAmounts");
-      setShowDollarAmounts(stored === "true");
-      setError(err.message || "Failed to load preferences");
+      setPreferences(readLocalPreferences());
+      setError(err instanceof Error ? err.message : "Failed to load preferences");
     } finally {
       setLoading(false);
     }
-  }, [getUserId]);
+  }, [getUserId, applyPreferences]);
 
-  // Save preferences
+  // Save preferences (only the given keys change, merged server-side)
   const savePreferences = useCallback(
-    async (showDollars: boolean) => {
+    async (changes: PreferenceChanges) => {
+      // Apply right away; localStorage keeps them even if the database save fails
+      setPreferences((prev) => {
+        const next = { ...prev, ...changes };
+        writeLocalPreferences(next);
+        return next;
+      });
+
+      pendingSavesRef.current += 1;
       try {
         const userId = await getUserId();
-        
-        // Always update localStorage as backup
-        localStorage.setItem("showDollarAmounts", String(showDollars));
-        setShowDollarAmounts(showDollars);
-
         if (!userId) {
           // No user logged in, just use localStorage
           return;
         }
 
-        // Try to update existing preferences
-        const { data: existing } = await supabase
-          .from("user_preferences")
-          .select("*")
-          .eq("user_id", userId)
-          .single();
-
-        if (existing) {
-          // Update existing
-          const { error: updateError } = await supabase
-            .from("user_preferences")
-            .update({
-              show_dollar_amounts: showDollars,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("user_id", userId);
-
-          if (updateError) throw updateError;
-        } else {
-          // Create new
-          const { error: createError } = await supabase
-            .from("user_preferences")
-            .insert({
-              user_id: userId,
-              show_dollar_amounts: showDollars,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            });
-
-          if (createError) throw createError;
-        }
+        const { data, error: saveError } = await supabase.rpc("save_preferences", {
+          p_changes: { ...changes, version: PREFERENCES_VERSION },
+        });
+        if (saveError) throw new Error(saveError.message);
 
+        // The merged document is authoritative once no newer change is waiting
+        if (data && pendingSavesRef.current === 1) {
+          applyPreferences(migratePreferences(data.settings));
+        }
         setError(null);
-      } catch (err: any) {
+      } catch (err: unknown) {
         console.error("Error saving preferences:", err);
-        setError(err.message || "Failed to save preferences");
-        // Still update state and localStorage even if DB save fails
+        setError(err instanceof Error ? err.message : "Failed to save preferences");
+        // Still keep state and localStorage even if DB save fails
+      } finally {
+        pendingSavesRef.current -= 1;
       }
     },
-    [getUserId]
+    [getUserId, applyPreferences]
   );
 
   // Toggle dollar amounts display
   const toggleDollarAmounts = useCallback(async () => {
-    const newValue = !showDollarAmounts;
-    await savePreferences(newValue);
-  }, [showDollarAmounts, savePreferences]);
+    await savePreferences({ show_dollar_amounts: !preferences.show_dollar_amounts });
+  }, [preferences.show_dollar_amounts, savePreferences]);
+
+  const setShowDollarAmounts = useCallback(
+    async (showDollars: boolean) => {
+      await savePreferences({ show_dollar_amounts: showDollars });
+    },
+    [savePreferences]
+  );
+
+  // Reminder settings (per user, even within a shared household)
+  const setRemindersEnabled = useCallback(
+    async (enabled: boolean) => {
+      await savePreferences({ reminders_enabled: enabled });
+    },
+    [savePreferences]
+  );
+
+  const setReminderLeadMinutes = useCallback(
+    async (minutes: number) => {
+      await savePreferences({ reminder_lead_minutes: Math.max(0, Math.round(minutes)) });
+    },
+    [savePreferences]
+  );
+
+  // Stable while the settings are unchanged, so memoized date bucketing keeps its cache
+  const calendar = useMemo(
+    (): CalendarSettings => ({
+      timeZone: resolveTimeZone(preferences.time_zone),
+      weekStartsOn: preferences.week_starts_on,
+    }),
+    [preferences.time_zone, preferences.week_starts_on]
+  );
 
   // Load preferences on mount
   useEffect(() => {
     loadPreferences();
   }, [loadPreferences]);
 
+  // Changes saved on the user's other devices
+  useEffect(() => {
+    let cancelled = false;
+    let subscription: ReturnType<typeof supabase.subscribe> | null = null;
+
+    const setupSubscription = async () => {
+      const userId = await getUserId().catch(() => undefined);
+      if (!userId || cancelled) return;
+
+      subscription = supabase.subscribe(
+        "user_preferences",
+        (payload: { eventType: string; new: { user_id?: string; settings?: unknown } }) => {
+          if (payload.eventType === "DELETE" || payload.new?.user_id !== userId) return;
+          // Our own save's response applies the same row once it settles
+          if (pendingSavesRef.current > 0) return;
+          applyPreferences(migratePreferences(payload.new.settings));
+        },
+        `user_id=eq.${userId}`
+      );
+    };
+
+    setupSubscription();
+
+    return () => {
+      cancelled = true;
+      subscription?.unsubscribe();
+    };
+  }, [getUserId, applyPreferences]);
+
   return {
-    showDollarAmounts,
+    preferences,
+    showDollarAmounts: preferences.show_dollar_amounts,
+    currencyName: preferences.currency_name,
+    currencyIcon: preferences.currency_icon,
+    remindersEnabled: preferences.reminders_enabled,
+    reminderLeadMinutes: preferences.reminder_lead_minutes,
+    calendar,
     loading,
     error,
+    savePreferences,
     toggleDollarAmounts,
-    setShowDollarAmounts: savePreferences,
+    setShowDollarAmounts,
+    setRemindersEnabled,
+    setReminderLeadMinutes,
   };
 }
-
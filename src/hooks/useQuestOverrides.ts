@@ -1,42 +1,42 @@
 /**
  * Get Kraken - Quest Overrides Hook
  *
- * Manages per-user quest overrides (name, tags, reward, dollar_amount)
+ * Manages household quest overrides (name, tags, reward, dollar_amount, cadence, schedule, photo)
  * and hidden quests
  */
 
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
-import type { UserQuestOverride, Quest, Tag } from "../types";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import { applyQuestOverride } from "../utils/overrides";
+import type { UserQuestOverride, Quest, QuestCadence, QuestSchedule, Tag } from "../types";
 
 export function useQuestOverrides() {
   const [overrides, setOverrides] = useState<Record<string, UserQuestOverride>>({});
   const [hiddenQuestIds, setHiddenQuestIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
 
-  // Get current user ID
-  const getUserId = useCallback(async () => {
-    const { data: { user } } = await supabase.supabase.auth.getUser();
-    return user?.id;
-  }, []);
-
-  // Load all overrides for current user
+  // Load all overrides shared by the current household
   const loadOverrides = useCallback(async () => {
     try {
       setLoading(true);
-      const userId = await getUserId();
-      if (!userId) {
+      const context = await getHouseholdContext();
+      if (!context) {
         setOverrides({});
         setLoading(false);
         return;
       }
 
-      const { data, error } = await supabase
-        .from("user_quest_overrides")
-        .select("*")
-        .eq("user_id", userId);
+      const data = await withOfflineCache(`user_quest_overrides:${context.householdId}`, async () => {
+        const { data: rows, error } = await supabase
+          .from("user_quest_overrides")
+          .select("*")
+          .eq("household_id", context.householdId);
 
-      if (error) throw error;
+        if (error) throw error;
+        return (rows || []) as UserQuestOverride[];
+      });
 
       const overridesMap: Record<string, UserQuestOverride> = {};
       (data || []).forEach((override: UserQuestOverride) => {
@@ -45,12 +45,15 @@ export function useQuestOverrides() {
       setOverrides(overridesMap);
 
       // Load hidden quests
-      const { data: hiddenData, error: hiddenError } = await supabase
-        .from("user_hidden_quests")
-        .select("quest_id")
-        .eq("user_id", userId);
+      const hiddenData = await withOfflineCache(`user_hidden_quests:${context.householdId}`, async () => {
+        const { data: rows, error: hiddenError } = await supabase
+          .from("user_hidden_quests")
+          .select("quest_id")
+          .eq("household_id", context.householdId);
 
-      if (hiddenError) throw hiddenError;
+        if (hiddenError) throw hiddenError;
+        return (rows || []) as { quest_id: string }[];
+      });
       setHiddenQuestIds(new Set((hiddenData || []).map((h: { quest_id: string }) => h.quest_id)));
     } catch (err) {
       console.error("Error loading quest overrides:", err);
@@ -58,7 +61,7 @@ export function useQuestOverrides() {
     } finally {
       setLoading(false);
     }
-  }, [getUserId]);
+  }, []);
 
   // Get effective reward for a quest (override or base)
   const getEffectiveReward = useCallback(
@@ -100,7 +103,7 @@ export function useQuestOverrides() {
     [overrides]
   );
 
-  // Check if a quest is hidden for the current user
+  // Check if a quest is hidden for the current household
   const isQuestHidden = useCallback(
     (questId: string): boolean => {
       return hiddenQuestIds.has(questId);
@@ -108,12 +111,26 @@ export function useQuestOverrides() {
     [hiddenQuestIds]
   );
 
-  // Update or create override (supports name, tags, reward, dollar_amount)
+  // Update or create override (supports name, tags, reward, dollar_amount, cadence, schedule, unit, photo)
   const updateOverride = useCallback(
-    async (questId: string, updates: { name?: string; tags?: Tag[]; reward?: number; dollar_amount?: number }) => {
+    async (
+      questId: string,
+      updates: {
+        name?: string;
+        tags?: Tag[];
+        reward?: number;
+        dollar_amount?: number;
+        cadence?: QuestCadence | null;
+        grace_periods?: number;
+        schedule?: QuestSchedule | null;
+        unit?: string | null;
+        reward_per_unit?: number | null;
+        photo_url?: string | null;
+      }
+    ) => {
       try {
-        const userId = await getUserId();
-        if (!userId) throw new Error("User must be authenticated");
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
 
         // Check if override exists
         const existing = overrides[questId];
@@ -125,6 +142,12 @@ export function useQuestOverrides() {
           if (updates.tags !== undefined) updateData.tags = updates.tags;
           if (updates.reward !== undefined) updateData.reward = updates.reward;
           if (updates.dollar_amount !== undefined) updateData.dollar_amount = updates.dollar_amount;
+          if (updates.cadence !== undefined) updateData.cadence = updates.cadence;
+          if (updates.grace_periods !== undefined) updateData.grace_periods = updates.grace_periods;
+          if (updates.schedule !== undefined) updateData.schedule = updates.schedule;
+          if (updates.unit !== undefined) updateData.unit = updates.unit;
+          if (updates.reward_per_unit !== undefined) updateData.reward_per_unit = updates.reward_per_unit;
+          if (updates.photo_url !== undefined) updateData.photo_url = updates.photo_url;
 
           const { data, error } = await supabase
             .from("user_quest_overrides")
@@ -142,12 +165,19 @@ export function useQuestOverrides() {
           const { data, error } = await supabase
             .from("user_quest_overrides")
             .insert({
-              user_id: userId,
+              user_id: context.userId,
+              household_id: context.householdId,
               quest_id: questId,
               name: updates.name ?? null,
               tags: updates.tags ?? null,
               reward: updates.reward ?? null,
               dollar_amount: updates.dollar_amount ?? null,
+              cadence: updates.cadence ?? null,
+              grace_periods: updates.grace_periods ?? null,
+              schedule: updates.schedule ?? null,
+              unit: updates.unit ?? null,
+              reward_per_unit: updates.reward_per_unit ?? null,
+              photo_url: updates.photo_url ?? null,
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             })
@@ -164,21 +194,21 @@ export function useQuestOverrides() {
         throw err;
       }
     },
-    [getUserId, overrides]
+    [overrides]
   );
 
-  // Hide a quest for the current user
+  // Hide a quest for the current household
   const hideQuest = useCallback(
     async (questId: string) => {
       try {
-        const userId = await getUserId();
-        if (!userId) throw new Error("User must be authenticated");
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
 
         // Check if already hidden
         const { data: existing } = await supabase
           .from("user_hidden_quests")
           .select("id")
-          .eq("user_id", userId)
+          .eq("household_id", context.householdId)
           .eq("quest_id", questId)
           .maybeSingle();
 
@@ -192,7 +222,8 @@ export function useQuestOverrides() {
         const { error } = await supabase
           .from("user_hidden_quests")
           .insert({
-            user_id: userId,
+            user_id: context.userId,
+            household_id: context.householdId,
             quest_id: questId,
             created_at: new Date().toISOString(),
           });
@@ -211,20 +242,20 @@ export function useQuestOverrides() {
         throw err;
       }
     },
-    [getUserId]
+    []
   );
 
-  // Unhide a quest for the current user
+  // Unhide a quest for the current household
   const unhideQuest = useCallback(
     async (questId: string) => {
       try {
-        const userId = await getUserId();
-        if (!userId) throw new Error("User must be authenticated");
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
 
         const { error } = await supabase
           .from("user_hidden_quests")
           .delete()
-          .eq("user_id", userId)
+          .eq("household_id", context.householdId)
           .eq("quest_id", questId);
 
         if (error) throw error;
@@ -238,7 +269,7 @@ export function useQuestOverrides() {
         throw err;
       }
     },
-    [getUserId]
+    []
   );
 
   // Load on mount and when user changes
@@ -256,18 +287,7 @@ export function useQuestOverrides() {
 
   // Merge base quest with user overrides
   const mergeQuestWithOverrides = useCallback(
-    (baseQuest: Quest): Quest => {
-      const override = overrides[baseQuest.id];
-      if (!override) return baseQuest;
-
-      return {
-        ...baseQuest,
-        name: override.name || baseQuest.name,
-        tags: override.tags || baseQuest.tags,
-        reward: override.reward !== null && override.reward !== undefined ? override.reward : baseQuest.reward,
-        dollar_amount: override.dollar_amount !== null && override.dollar_amount !== undefined ? override.dollar_amount : baseQuest.dollar_amount,
-      };
-    },
+    (baseQuest: Quest): Quest => applyQuestOverride(baseQuest, overrides[baseQuest.id]),
     [overrides]
   );
 
@@ -0,0 +1,43 @@
+/**
+ * Get Kraken - Quest Packs Hook
+ *
+ * Installs a quest pack as the household's own quests, shop items and tags.
+ * Installed rows are ordinary household rows - editing or deleting them
+ * doesn't touch the pack or anyone else's copy.
+ */
+
+import { useState, useCallback } from "react";
+import { supabase } from "../lib/supabase";
+import type { PackInstallPlan } from "../utils/questPacks";
+
+export function useQuestPacks() {
+  const [installing, setInstalling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // One server-side transaction, so a failure never leaves part of a pack installed
+  const installPack = useCallback(async (plan: PackInstallPlan) => {
+    try {
+      setInstalling(true);
+      const { error: rpcError } = await supabase.rpc("install_quest_pack", {
+        p_tags: plan.newTags,
+        p_quests: plan.newQuests,
+        p_shop_items: plan.newShopItems,
+      });
+
+      if (rpcError) throw new Error(rpcError.message);
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Error installing quest pack:", err);
+      setError(err instanceof Error ? err.message : "Failed to install pack");
+      throw err;
+    } finally {
+      setInstalling(false);
+    }
+  }, []);
+
+  return {
+    installing,
+    error,
+    installPack,
+  };
+}
@@ -6,9 +6,69 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
-import type { Quest, QuestWithLogs, QuestLog } from "../types";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache, isNetworkError } from "../lib/offlineStore";
+import { deletePhoto } from "../lib/photos";
+import {
+  enqueueMutation,
+  registerReplayHandler,
+  resolveEditConflicts,
+  snapshotFields,
+} from "../lib/outbox";
+import type {
+  Quest,
+  QuestCheckIn,
+  QuestWithLogs,
+  Wallet,
+  LedgerResult,
+  RewardBonus,
+  RewardRule,
+} from "../types";
+import { evaluateRewardRules, type RewardContext } from "../utils/rewardRules";
+import { getCompletionReward } from "../utils/checkIns";
 import { useQuestOverrides } from "./useQuestOverrides";
-import { registerPendingWalletMutation } from "../utils/mutationGuard";
+
+// What completeQuest needs to evaluate the user's reward rules
+export type RewardRulesInput = Omit<RewardContext, "quest" | "baseReward" | "quests"> & {
+  rules: RewardRule[];
+};
+
+// The client id makes a replayed completion idempotent; occurredAt keeps the
+// time it happened on the device, and bonuses are credited as evaluated then
+async function requestQuestCompletion(
+  questId: string,
+  clientId: string,
+  occurredAt: string,
+  bonuses: RewardBonus[] = [],
+  checkIn: QuestCheckIn = {}
+): Promise<Wallet> {
+  const { data, error: rpcError } = await supabase.rpc("complete_quest", {
+    p_quest_id: questId,
+    p_client_id: clientId,
+    p_occurred_at: occurredAt,
+    p_bonuses: bonuses,
+    p_quantity: checkIn.quantity ?? null,
+    p_note: checkIn.note ?? null,
+    p_mood: checkIn.mood ?? null,
+  });
+
+  if (rpcError) {
+    console.error("complete_quest RPC error:", rpcError);
+    console.error("Quest ID:", questId);
+    throw new Error(
+      `Failed to complete quest: ${
+        rpcError.message || JSON.stringify(rpcError)
+      }`
+    );
+  }
+  if (!data) {
+    throw new Error("Failed to complete quest: no wallet returned");
+  }
+
+  // Note: We don't update completion_count anymore since it's shared
+  // Per-user counts are calculated from logs
+  return data as Wallet;
+}
 
 export function useQuests() {
   const [quests, setQuests] = useState<Quest[]>([]);
@@ -25,35 +85,31 @@ export function useQuests() {
   const loadQuests = useCallback(async () => {
     try {
       setLoading(true);
-      // Get current user to filter quests
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.supabase.auth.getUser();
-      if (userError) {
-        console.error("Error getting user:", userError);
-        throw new Error("Failed to get user session");
-      }
-      if (!user) {
+      // Get current user's household to filter quests
+      const context = await getHouseholdContext();
+      if (!context) {
         throw new Error("User must be authenticated");
       }
 
-      // Load base quests immediately - progressive render
-      let { data, error: fetchError } = await supabase
-        .from("quests")
-        .select("*")
-        .or(`created_by.is.null,created_by.eq.${user.id}`)
-        .order("name", { ascending: true });
+      // Load base quests immediately - progressive render (last copy when offline)
+      let data = await withOfflineCache(`quests:${context.householdId}`, async () => {
+        const { data: rows, error: fetchError } = await supabase
+          .from("quests")
+          .select("*")
+          .or(`created_by.is.null,household_id.eq.${context.householdId}`)
+          .order("name", { ascending: true });
 
-      if (fetchError) {
-        console.error("[useQuests] Error fetching quests:", fetchError);
-        throw fetchError;
-      }
+        if (fetchError) {
+          console.error("[useQuests] Error fetching quests:", fetchError);
+          throw fetchError;
+        }
+        return (rows || []) as Quest[];
+      });
 
-      // Verify all returned quests are either seeded or owned by current user
+      // Verify all returned quests are either seeded or owned by current household
       const invalidQuests = data?.filter(
         (quest: Quest) =>
-          quest.created_by !== null && quest.created_by !== user.id
+          quest.created_by !== null && quest.household_id !== context.householdId
       );
       if (invalidQuests && invalidQuests.length > 0) {
         console.error(
@@ -63,7 +119,7 @@ export function useQuests() {
         // Filter them out as a safeguard
         data = data?.filter(
           (quest: Quest) =>
-            quest.created_by === null || quest.created_by === user.id
+            quest.created_by === null || quest.household_id === context.householdId
         );
       }
 
@@ -95,11 +151,9 @@ export function useQuests() {
       >
     ) => {
       try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
+        // Get current user and household
+        const context = await getHouseholdContext();
+        if (!context) {
           throw new Error("User must be authenticated");
         }
 
@@ -107,7 +161,8 @@ export function useQuests() {
           .from("quests")
           .insert({
             ...quest,
-            created_by: user.id,
+            created_by: context.userId,
+            household_id: context.householdId,
             completion_count: 0,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
@@ -133,237 +188,273 @@ export function useQuests() {
     []
   );
 
-  // Update a quest (user-created quests update base, seeded quests update overrides)
-  const updateQuest = useCallback(
+  // Apply an edit on the server (user-created quests update base, seeded quests update overrides)
+  const applyQuestUpdate = useCallback(
     async (id: string, updates: Partial<Quest>) => {
-      try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
-          throw new Error("User must be authenticated");
-        }
+      // Get current user and household
+      const context = await getHouseholdContext();
+      if (!context) {
+        throw new Error("User must be authenticated");
+      }
 
-        // Handle completion_count - single mutation: set count directly via log adjustment
-        if (updates.completion_count !== undefined) {
-          const targetCount = updates.completion_count;
+      // Handle completion_count - single mutation: set count directly via log adjustment
+      if (updates.completion_count !== undefined) {
+        const targetCount = updates.completion_count;
 
-          // Get current count
-          const { count: currentCount } = await supabase
+        // Get current count
+        const { count: currentCount } = await supabase
+          .from("quest_logs")
+          .select("*", { count: "exact", head: true })
+          .eq("quest_id", id)
+          .eq("household_id", context.householdId)
+          .is("reversed_at", null);
+
+        const difference = targetCount - (currentCount || 0);
+
+        if (difference > 0) {
+          // Add log entries; the server snapshots the current values
+          const { error: logError } = await supabase.rpc("add_quest_log_entries", {
+            p_quest_id: id,
+            p_count: difference,
+          });
+          if (logError) throw logError;
+        } else if (difference < 0) {
+          // Reverse the newest entries (refunds whatever they moved in the wallet)
+          const { data: logsToReverse, error: fetchLogsError } = await supabase
             .from("quest_logs")
-            .select("*", { count: "exact", head: true })
+            .select("id")
             .eq("quest_id", id)
-            .eq("user_id", user.id);
-
-          const difference = targetCount - (currentCount || 0);
-
-          if (difference > 0) {
-            // Add log entries
-            const newLogs = Array.from({ length: difference }, () => ({
-              quest_id: id,
-              user_id: user.id,
-              completed_at: new Date().toISOString(),
-            }));
-            const { error: logError } = await supabase
-              .from("quest_logs")
-              .insert(newLogs);
-            if (logError) throw logError;
-          } else if (difference < 0) {
-            // Remove oldest log entries
-            const { data: logsToDelete } = await supabase
-              .from("quest_logs")
-              .select("id")
-              .eq("quest_id", id)
-              .eq("user_id", user.id)
-              .order("completed_at", { ascending: true })
-              .limit(Math.abs(difference));
-
-            if (logsToDelete && logsToDelete.length > 0) {
-              const idsToDelete = logsToDelete.map(
-                (log: { id: string }) => log.id
-              );
-              const { error: deleteError } = await supabase
-                .from("quest_logs")
-                .delete()
-                .in("id", idsToDelete);
-              if (deleteError) throw deleteError;
-            }
+            .eq("household_id", context.householdId)
+            .is("reversed_at", null)
+            .order("completed_at", { ascending: false })
+            .limit(Math.abs(difference));
+
+          if (fetchLogsError) throw fetchLogsError;
+          for (const log of (logsToReverse || []) as { id: string }[]) {
+            const { error: reverseError } = await supabase.rpc("reverse_quest_log", {
+              p_log_id: log.id,
+            });
+            if (reverseError) throw reverseError;
           }
-          // Remove completion_count from updates since we handled it via logs
-          const { completion_count, ...restUpdates } = updates;
-          updates = restUpdates;
         }
+        // Remove completion_count from updates since we handled it via logs
+        const { completion_count, ...restUpdates } = updates;
+        updates = restUpdates;
+      }
 
-        // First, check if the quest exists and if the user created it
-        const { data: existingQuest, error: fetchError } = await supabase
+      // First, check if the quest exists and if the user created it
+      const { data: existingQuest, error: fetchError } = await supabase
+        .from("quests")
+        .select("household_id")
+        .eq("id", id)
+        .single();
+
+      if (fetchError) throw fetchError;
+      if (!existingQuest) {
+        throw new Error("Quest not found");
+      }
+
+      // If the household created it, update the base quest
+      // Note: household_id is null for seeded quests
+      if (existingQuest.household_id === context.householdId) {
+        const { data, error: updateError } = await supabase
           .from("quests")
-          .select("created_by")
+          .update({
+            ...updates,
+            updated_at: new Date().toISOString(),
+          })
           .eq("id", id)
-          .single();
+          .select()
+          .maybeSingle();
 
-        if (fetchError) throw fetchError;
-        if (!existingQuest) {
-          throw new Error("Quest not found");
+        if (updateError) throw updateError;
+        if (!data) {
+          // Update returned 0 rows - likely RLS blocked it or quest was deleted
+          throw new Error("Quest update was blocked or quest not found");
         }
+        setQuests((prev) => {
+          const updated = prev.map((q) => (q.id === id ? data : q));
+          return updated.sort((a, b) => a.name.localeCompare(b.name));
+        });
+        return data;
+      } else {
+        // Seeded quest - update user override and patch local state
+        const overrideUpdates: any = {};
+        if (updates.name !== undefined) overrideUpdates.name = updates.name;
+        if (updates.tags !== undefined) overrideUpdates.tags = updates.tags;
+        if (updates.reward !== undefined)
+          overrideUpdates.reward = updates.reward;
+        if (updates.dollar_amount !== undefined)
+          overrideUpdates.dollar_amount = updates.dollar_amount;
+        if (updates.cadence !== undefined)
+          overrideUpdates.cadence = updates.cadence;
+        if (updates.grace_periods !== undefined)
+          overrideUpdates.grace_periods = updates.grace_periods;
+        if (updates.schedule !== undefined)
+          overrideUpdates.schedule = updates.schedule;
+        if (updates.unit !== undefined)
+          overrideUpdates.unit = updates.unit;
+        if (updates.reward_per_unit !== undefined)
+          overrideUpdates.reward_per_unit = updates.reward_per_unit;
+        if (updates.photo_url !== undefined)
+          overrideUpdates.photo_url = updates.photo_url;
+
+        await updateOverride(id, overrideUpdates);
+        // Update local state optimistically - merge override with base quest
+        setQuests((prev) => {
+          const existing = prev.find((q) => q.id === id);
+          if (!existing) return prev;
+          const merged = mergeQuestWithOverrides({ ...existing, ...updates });
+          return prev
+            .map((q) => (q.id === id ? merged : q))
+            .sort((a, b) => a.name.localeCompare(b.name));
+        });
+        // Return the updated quest from state
+        const updated = quests.find((q) => q.id === id);
+        return updated
+          ? mergeQuestWithOverrides({ ...updated, ...updates })
+          : null;
+      }
+    },
+    [updateOverride, mergeQuestWithOverrides, quests]
+  );
 
-        // If user created it, update the base quest
-        // Note: created_by can be null (seeded quests) or a different user's ID
-        if (existingQuest.created_by === user.id) {
-          const { data, error: updateError } = await supabase
-            .from("quests")
-            .update({
-              ...updates,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", id)
-            .select()
-            .maybeSingle();
-
-          if (updateError) throw updateError;
-          if (!data) {
-            // Update returned 0 rows - likely RLS blocked it or quest was deleted
-            throw new Error("Quest update was blocked or quest not found");
-          }
-          setQuests((prev) => {
-            const updated = prev.map((q) => (q.id === id ? data : q));
-            return updated.sort((a, b) => a.name.localeCompare(b.name));
-          });
-          return data;
-        } else {
-          // Seeded quest - update user override and patch local state
-          const overrideUpdates: any = {};
-          if (updates.name !== undefined) overrideUpdates.name = updates.name;
-          if (updates.tags !== undefined) overrideUpdates.tags = updates.tags;
-          if (updates.reward !== undefined)
-            overrideUpdates.reward = updates.reward;
-          if (updates.dollar_amount !== undefined)
-            overrideUpdates.dollar_amount = updates.dollar_amount;
-
-          await updateOverride(id, overrideUpdates);
-          // Update local state optimistically - merge override with base quest
-          setQuests((prev) => {
-            const existing = prev.find((q) => q.id === id);
-            if (!existing) return prev;
-            const merged = mergeQuestWithOverrides({ ...existing, ...updates });
-            return prev
-              .map((q) => (q.id === id ? merged : q))
-              .sort((a, b) => a.name.localeCompare(b.name));
-          });
-          // Return the updated quest from state
-          const updated = quests.find((q) => q.id === id);
-          return updated
-            ? mergeQuestWithOverrides({ ...updated, ...updates })
-            : null;
+  // Update a quest - offline, the edit is queued and patched into local state
+  const updateQuest = useCallback(
+    async (id: string, updates: Partial<Quest>) => {
+      try {
+        return await applyQuestUpdate(id, updates);
+      } catch (err: unknown) {
+        const existing = quests.find((q) => q.id === id);
+        if (existing && isNetworkError(err)) {
+          const base = snapshotFields(existing, updates);
+          // Counts are re-applied from the logs on replay, never merged
+          delete base.completion_count;
+          await enqueueMutation({ kind: "update_quest", id, updates, base });
+          const patched = { ...existing, ...updates };
+          setQuests((prev) =>
+            prev
+              .map((q) => (q.id === id ? patched : q))
+              .sort((a, b) => a.name.localeCompare(b.name))
+          );
+          return patched;
         }
-      } catch (err: any) {
         console.error("Error updating quest:", err);
-        setError(err.message || "Failed to update quest");
+        setError(err instanceof Error ? err.message : "Failed to update quest");
         throw err;
       }
     },
-    [updateOverride, mergeQuestWithOverrides, quests]
+    [applyQuestUpdate, quests]
   );
 
-  // Complete a quest (adds to log with user_id and atomically updates wallet)
+  // Complete a quest - server-side transaction inserts the log and credits the wallet
+  // using the effective reward resolved from overrides; returns the authoritative wallet.
+  // Reward rule bonuses are evaluated here (on the reward including any quantity)
+  // and credited in the same transaction, along with the optional check-in.
+  // Offline, the completion is queued instead and the wallet is null.
   const completeQuest = useCallback(
-    async (questId: string, reward: number, dollarAmount: number = 0) => {
+    async (
+      questId: string,
+      rewards?: RewardRulesInput,
+      checkIn: QuestCheckIn = {}
+    ): Promise<LedgerResult> => {
+      const clientId = crypto.randomUUID();
+      const quest = quests.find((q) => q.id === questId);
+      const occurredAt = (rewards?.now ?? new Date()).toISOString();
+      const baseReward = quest ? getCompletionReward(quest, checkIn) : 0;
+      const { bonuses, bonusTotal } =
+        quest && rewards
+          ? evaluateRewardRules(rewards.rules, {
+              ...rewards,
+              quest,
+              baseReward,
+              quests,
+            })
+          : { bonuses: [], bonusTotal: 0 };
       try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
-          throw new Error("User must be authenticated");
-        }
-
-        // Load current wallet to get current total
-        const { data: walletData, error: walletFetchError } = await supabase
-          .from("wallets")
-          .select("*")
-          .eq("user_id", user.id)
-          .maybeSingle();
-
-        if (walletFetchError && walletFetchError.code !== "PGRST116") {
-          throw walletFetchError;
-        }
-
-        // Calculate new wallet totals
-        const currentTotal = walletData?.total ?? 0;
-        const currentDollarTotal = walletData?.dollar_total ?? 0;
-        const newTotal = currentTotal + reward;
-        const newDollarTotal = Math.round(
-          currentDollarTotal + Math.round(dollarAmount)
-        );
-
-        // Mutation guard: register pending wallet mutation to prevent double-application
-        registerPendingWalletMutation(newTotal, newDollarTotal);
-
-        // Atomically: insert log entry AND update wallet in sequence
-        // First, insert log entry
-        const { error: logError } = await supabase.from("quest_logs").insert({
-          quest_id: questId,
-          user_id: user.id,
-          completed_at: new Date().toISOString(),
-        });
-
-        if (logError) {
-          console.error("Quest log insert error:", logError);
-          console.error("User ID:", user.id);
-          console.error("Quest ID:", questId);
-          throw new Error(
-            `Failed to create quest log: ${
-              logError.message || JSON.stringify(logError)
-            }`
-          );
-        }
-
-        // Then, update wallet atomically
-        if (!walletData) {
-          // Create wallet if it doesn't exist
-          const { error: createError } = await supabase.from("wallets").insert({
-            user_id: user.id,
-            id: null,
-            total: newTotal,
-            dollar_total: newDollarTotal,
-            updated_at: new Date().toISOString(),
+        const wallet = await requestQuestCompletion(questId, clientId, occurredAt, bonuses, checkIn);
+        return { wallet, clientId, bonuses };
+      } catch (err: unknown) {
+        if (quest && isNetworkError(err)) {
+          // Reward copied for the pending badge; the server resolves the real one on replay
+          await enqueueMutation({
+            kind: "complete_quest",
+            questId,
+            clientId,
+            occurredAt,
+            name: quest.name,
+            reward: baseReward + bonusTotal,
+            dollarAmount: Math.round(quest.dollar_amount || 0),
+            bonuses,
+            checkIn,
+            unit: quest.unit ?? null,
           });
-          if (createError) throw createError;
-        } else {
-          // Update existing wallet
-          const { error: updateError } = await supabase
-            .from("wallets")
-            .update({
-              total: newTotal,
-              dollar_total: newDollarTotal,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("user_id", user.id);
-          if (updateError) throw updateError;
+          return { wallet: null, clientId, bonuses };
         }
+        console.error("Error completing quest:", err);
+        setError(err instanceof Error ? err.message : "Failed to complete quest");
+        throw err;
+      }
+    },
+    [quests]
+  );
 
-        // Note: We don't update completion_count anymore since it's shared
-        // Per-user counts are calculated from logs
+  // Edit a completion's quantity, note or mood - a new quantity is re-priced
+  // server-side and the difference applied to the wallet; returns the wallet
+  const updateQuestLogCheckIn = useCallback(
+    async (logId: string, checkIn: QuestCheckIn): Promise<Wallet> => {
+      try {
+        const { data, error: rpcError } = await supabase.rpc("update_quest_log_check_in", {
+          p_log_id: logId,
+          p_quantity: checkIn.quantity ?? null,
+          p_note: checkIn.note ?? null,
+          p_mood: checkIn.mood ?? null,
+        });
 
-        return reward;
-      } catch (err: any) {
-        console.error("Error completing quest:", err);
-        setError(err.message || "Failed to complete quest");
+        if (rpcError) throw new Error(rpcError.message || "Failed to update check-in");
+        if (!data) throw new Error("Failed to update check-in: no wallet returned");
+        return data as Wallet;
+      } catch (err: unknown) {
+        console.error("Error updating check-in:", err);
+        setError(err instanceof Error ? err.message : "Failed to update check-in");
         throw err;
       }
     },
     []
   );
 
+  // Reverse a single quest completion - server-side transaction stamps the log as
+  // reversed and refunds exactly what it credited; returns the authoritative wallet
+  const reverseQuestLog = useCallback(async (logId: string): Promise<Wallet> => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc("reverse_quest_log", {
+        p_log_id: logId,
+      });
+
+      if (rpcError) {
+        throw new Error(rpcError.message || "Failed to reverse quest completion");
+      }
+      if (!data) {
+        throw new Error("Failed to reverse quest completion: no wallet returned");
+      }
+
+      return data as Wallet;
+    } catch (err) {
+      console.error("Error reversing quest completion:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to reverse quest completion"
+      );
+      throw err;
+    }
+  }, []);
+
   // Get quest with logs for current user
   const getQuestWithLogs = useCallback(
     async (questId: string): Promise<QuestWithLogs | null> => {
       try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
+        // Get current user and household
+        const context = await getHouseholdContext();
+        if (!context) {
           return null;
         }
 
@@ -379,7 +470,7 @@ export function useQuests() {
           .from("quest_logs")
           .select("*")
           .eq("quest_id", questId)
-          .eq("user_id", user.id)
+          .eq("household_id", context.householdId)
           .order("completed_at", { ascending: false });
 
         if (logsError) throw logsError;
@@ -414,14 +505,12 @@ export function useQuests() {
 
   // Subscribe to real-time changes - use state patches, not full reloads
   useEffect(() => {
-    // Get current user for subscription filters
+    // Get current household for subscription filters
     const setupSubscriptions = async () => {
-      const {
-        data: { user },
-      } = await supabase.supabase.auth.getUser();
-      if (!user) return { user: null, all: null, hidden: null };
+      const context = await getHouseholdContext().catch(() => null);
+      if (!context) return { user: null, all: null, hidden: null };
 
-      // Handler for user-created quests - receives only user's quests via channel filter
+      // Handler for household quests - receives only the household's quests via channel filter
       const handleUserQuestChange = (payload: any) => {
         if (payload.eventType === "INSERT") {
           // Only add if not already present and not hidden
@@ -483,11 +572,11 @@ export function useQuests() {
         }
       };
 
-      // Subscribe to user's quests (created_by = user.id) - channel filter
+      // Subscribe to household quests (household_id) - channel filter
       const userSubscription = supabase.subscribe(
         "quests",
         handleUserQuestChange,
-        `created_by=eq.${user.id}`
+        `household_id=eq.${context.householdId}`
       );
 
       // Subscribe to all quests - client-side filter for seeded items only
@@ -526,7 +615,8 @@ export function useQuests() {
                 }
               });
           }
-        }
+        },
+        `household_id=eq.${context.householdId}`
       );
 
       return {
@@ -552,23 +642,21 @@ export function useQuests() {
   const deleteQuest = useCallback(
     async (id: string) => {
       try {
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) throw new Error("User must be authenticated");
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
 
         // Fetch the existing quest to check ownership
         const { data: existingQuest, error: fetchError } = await supabase
           .from("quests")
-          .select("created_by")
+          .select("household_id, photo_url")
           .eq("id", id)
           .single();
 
         if (fetchError) throw fetchError;
         if (!existingQuest) throw new Error("Quest not found.");
 
-        // If user created it, delete the base quest
-        if (existingQuest.created_by === user.id) {
+        // If the household created it, delete the base quest
+        if (existingQuest.household_id === context.householdId) {
           const { error: deleteError } = await supabase
             .from("quests")
             .delete()
@@ -576,6 +664,7 @@ export function useQuests() {
 
           if (deleteError) throw deleteError;
           setQuests((prev) => prev.filter((q) => q.id !== id));
+          await deletePhoto(existingQuest.photo_url);
         } else {
           // Seeded quest - hide it for this user and update state immediately
           await hideQuestForUser(id);
@@ -590,47 +679,17 @@ export function useQuests() {
     [hideQuestForUser]
   );
 
-  // Load all quest logs for current user
-  const loadAllQuestLogs = useCallback(async (): Promise<QuestLog[]> => {
-    try {
-      // Get current user
-      const {
-        data: { user },
-      } = await supabase.supabase.auth.getUser();
-      if (!user) {
-        return [];
-      }
-
-      const { data, error: fetchError } = await supabase
-        .from("quest_logs")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("completed_at", { ascending: false });
-
-      if (fetchError) throw fetchError;
-      return data || [];
-    } catch (err: any) {
-      console.error("Error loading quest logs:", err);
-      return [];
-    }
-  }, []);
-
   // Delete all quest logs for current user and reset completion counts
   const deleteAllQuestLogs = useCallback(async () => {
     try {
-      // Get current user
-      const {
-        data: { user },
-      } = await supabase.supabase.auth.getUser();
-      if (!user) {
+      // Get current user and household
+      const context = await getHouseholdContext();
+      if (!context) {
         throw new Error("User must be authenticated");
       }
 
-      // Delete all quest logs for this user
-      const { error: deleteError } = await supabase
-        .from("quest_logs")
-        .delete()
-        .eq("user_id", user.id);
+      // Delete all of the household's quest logs (owner-only, server-side)
+      const { error: deleteError } = await supabase.rpc("delete_all_quest_logs");
 
       if (deleteError) throw deleteError;
 
@@ -650,6 +709,60 @@ export function useQuests() {
     }
   }, []);
 
+  // Replay queued completions and edits once back online
+  useEffect(() => {
+    const unregisterCompletion = registerReplayHandler("complete_quest", async (mutation) => {
+      await requestQuestCompletion(
+        mutation.questId,
+        mutation.clientId,
+        mutation.occurredAt,
+        mutation.bonuses,
+        mutation.checkIn
+      );
+      return [];
+    });
+
+    const unregisterUpdate = registerReplayHandler("update_quest", async (mutation) => {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      // Current server values: the household's quest, or the seeded quest plus override
+      const { data: quest, error: questError } = await supabase
+        .from("quests")
+        .select("*")
+        .eq("id", mutation.id)
+        .maybeSingle();
+      if (questError) throw new Error(questError.message);
+      if (!quest) throw new Error("Quest not found");
+
+      let current: Partial<Quest> = quest;
+      if (quest.household_id !== context.householdId) {
+        const { data: override, error: overrideError } = await supabase
+          .from("user_quest_overrides")
+          .select("*")
+          .eq("quest_id", mutation.id)
+          .eq("household_id", context.householdId)
+          .maybeSingle();
+        if (overrideError) throw new Error(overrideError.message);
+        // Override values win over the seeded ones, as in mergeQuestWithOverrides
+        Object.entries(override ?? {}).forEach(([key, value]) => {
+          if (key in mutation.updates && value != null) current = { ...current, [key]: value };
+        });
+      }
+
+      const { apply, conflicts } = resolveEditConflicts(mutation.updates, mutation.base, current);
+      if (Object.keys(apply).length > 0) {
+        await applyQuestUpdate(mutation.id, apply);
+      }
+      return conflicts.map(String);
+    });
+
+    return () => {
+      unregisterCompletion();
+      unregisterUpdate();
+    };
+  }, [applyQuestUpdate]);
+
   return {
     quests,
     loading,
@@ -657,9 +770,10 @@ export function useQuests() {
     createQuest,
     updateQuest,
     completeQuest,
+    updateQuestLogCheckIn,
     deleteQuest,
     getQuestWithLogs,
-    loadAllQuestLogs,
+    reverseQuestLog,
     deleteAllQuestLogs,
     refresh: loadQuests,
   };
@@ -0,0 +1,78 @@
+/**
+ * Get Kraken - Reminders Hook
+ *
+ * Keeps the service worker's reminder list in sync with quest schedules,
+ * completions and the user's reminder preferences
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import type { Quest, QuestLog } from "../types";
+import { getUpcomingReminders } from "../utils/schedules";
+import {
+  remindersSupported,
+  requestNotificationPermission,
+  scheduleReminders,
+  clearReminders,
+} from "../lib/reminders";
+
+// Reminders are computed for a rolling window, so refresh well before it runs out
+const RESYNC_INTERVAL_MS = 30 * 60 * 1000;
+
+interface UseRemindersProps {
+  quests: Quest[];
+  questLogs: QuestLog[];
+  enabled: boolean;
+  leadMinutes: number;
+  timeZone: string;
+}
+
+export function useReminders({ quests, questLogs, enabled, leadMinutes, timeZone }: UseRemindersProps) {
+  const [permission, setPermission] = useState<NotificationPermission>(() =>
+    remindersSupported() ? Notification.permission : "denied"
+  );
+
+  const lastCompletedByQuest = useMemo(() => {
+    const latest: Record<string, string | null> = {};
+    questLogs.forEach((log) => {
+      const current = latest[log.quest_id];
+      if (!current || new Date(log.completed_at) > new Date(current)) {
+        latest[log.quest_id] = log.completed_at;
+      }
+    });
+    return latest;
+  }, [questLogs]);
+
+  useEffect(() => {
+    if (!enabled || permission !== "granted") {
+      clearReminders().catch(() => {});
+      return;
+    }
+
+    const sync = () => {
+      const reminders = getUpcomingReminders(quests, lastCompletedByQuest, new Date(), {
+        timeZone,
+        leadMinutes,
+      });
+      scheduleReminders(reminders).catch((err) => {
+        console.error("Error scheduling reminders:", err);
+      });
+    };
+
+    sync();
+    const interval = setInterval(sync, RESYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [quests, lastCompletedByQuest, enabled, permission, leadMinutes, timeZone]);
+
+  // Ask for permission - call from a click handler
+  const requestPermission = useCallback(async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    return result;
+  }, []);
+
+  return {
+    supported: remindersSupported(),
+    permission,
+    requestPermission,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Get Kraken - Reward Rules Hook
+ *
+ * Manages the current user's reward rules (streak and weekday multipliers,
+ * first-of-day bonus, tag combos). Rules are personal, not household-wide,
+ * and only owners can change them.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import type { RewardRule, RewardRuleConfig } from "../types";
+
+export function useRewardRules() {
+  const [rules, setRules] = useState<RewardRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const context = await getHouseholdContext();
+      if (!context) {
+        setRules([]);
+        return;
+      }
+
+      const rows = await withOfflineCache(`reward_rules:${context.userId}`, async () => {
+        const { data, error: loadError } = await supabase
+          .from("reward_rules")
+          .select("*")
+          .eq("user_id", context.userId)
+          .order("created_at", { ascending: true });
+
+        if (loadError) throw new Error(loadError.message);
+        return (data || []) as RewardRule[];
+      });
+
+      setRules(rows);
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Error loading reward rules:", err);
+      setError(err instanceof Error ? err.message : "Failed to load reward rules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createRule = useCallback(async (config: RewardRuleConfig) => {
+    try {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      const now = new Date().toISOString();
+      const { data, error: insertError } = await supabase
+        .from("reward_rules")
+        .insert({
+          user_id: context.userId,
+          household_id: context.householdId,
+          kind: config.kind,
+          params: config.params,
+          created_at: now,
+          updated_at: now,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw new Error(insertError.message);
+      const created = data as RewardRule;
+      setRules((prev) => [...prev, created]);
+      return created;
+    } catch (err: unknown) {
+      console.error("Error creating reward rule:", err);
+      setError(err instanceof Error ? err.message : "Failed to create reward rule");
+      throw err;
+    }
+  }, []);
+
+  const setRuleEnabled = useCallback(async (ruleId: string, enabled: boolean) => {
+    try {
+      const { data, error: updateError } = await supabase
+        .from("reward_rules")
+        .update({ enabled, updated_at: new Date().toISOString() })
+        .eq("id", ruleId)
+        .select()
+        .single();
+
+      if (updateError) throw new Error(updateError.message);
+      const updated = data as RewardRule;
+      setRules((prev) => prev.map((rule) => (rule.id === updated.id ? updated : rule)));
+      return updated;
+    } catch (err: unknown) {
+      console.error("Error updating reward rule:", err);
+      setError(err instanceof Error ? err.message : "Failed to update reward rule");
+      throw err;
+    }
+  }, []);
+
+  const deleteRule = useCallback(async (ruleId: string) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from("reward_rules")
+        .delete()
+        .eq("id", ruleId);
+
+      if (deleteError) throw new Error(deleteError.message);
+      setRules((prev) => prev.filter((rule) => rule.id !== ruleId));
+    } catch (err: unknown) {
+      console.error("Error deleting reward rule:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete reward rule");
+      throw err;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  return {
+    rules,
+    loading,
+    error,
+    createRule,
+    setRuleEnabled,
+    deleteRule,
+    refresh: loadRules,
+  };
+}
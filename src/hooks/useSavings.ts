@@ -0,0 +1,218 @@
+/**
+ * Get Kraken - Savings Hook
+ *
+ * Manages the household's savings buckets and the real-money transfers
+ * logged against them, by hand or from a bank statement
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import type { SavingsBucket, SavingsTransfer } from "../types";
+import type { BankTransaction } from "../utils/bankStatements";
+
+export type SavingsTransferInput = Pick<
+  SavingsTransfer,
+  "bucket_id" | "amount" | "transferred_on" | "note"
+>;
+
+const IMPORT_BATCH_SIZE = 500;
+
+export function useSavings() {
+  const [buckets, setBuckets] = useState<SavingsBucket[]>([]);
+  const [transfers, setTransfers] = useState<SavingsTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSavings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const context = await getHouseholdContext();
+      if (!context) {
+        setBuckets([]);
+        setTransfers([]);
+        return;
+      }
+
+      const result = await withOfflineCache(`savings:${context.householdId}`, async () => {
+        const [bucketsResult, transfersResult] = await Promise.all([
+          supabase
+            .from("savings_buckets")
+            .select("*")
+            .eq("household_id", context.householdId)
+            .order("name", { ascending: true }),
+          supabase
+            .from("savings_transfers")
+            .select("*")
+            .eq("household_id", context.householdId)
+            .order("transferred_on", { ascending: false }),
+        ]);
+
+        if (bucketsResult.error) throw new Error(bucketsResult.error.message);
+        if (transfersResult.error) throw new Error(transfersResult.error.message);
+        return {
+          buckets: (bucketsResult.data || []) as SavingsBucket[],
+          transfers: (transfersResult.data || []) as SavingsTransfer[],
+        };
+      });
+
+      setBuckets(result.buckets);
+      setTransfers(result.transfers);
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Error loading savings:", err);
+      setError(err instanceof Error ? err.message : "Failed to load savings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createBucket = useCallback(async (name: string) => {
+    try {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      const now = new Date().toISOString();
+      const { data, error: insertError } = await supabase
+        .from("savings_buckets")
+        .insert({
+          name: name.trim(),
+          household_id: context.householdId,
+          created_at: now,
+          updated_at: now,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw new Error(insertError.message);
+      const bucket = data as SavingsBucket;
+      setBuckets((prev) => [...prev, bucket].sort((a, b) => a.name.localeCompare(b.name)));
+      return bucket;
+    } catch (err: unknown) {
+      console.error("Error creating savings bucket:", err);
+      setError(err instanceof Error ? err.message : "Failed to create bucket");
+      throw err;
+    }
+  }, []);
+
+  // Its transfers go with it
+  const deleteBucket = useCallback(async (bucketId: string) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from("savings_buckets")
+        .delete()
+        .eq("id", bucketId);
+
+      if (deleteError) throw new Error(deleteError.message);
+      setBuckets((prev) => prev.filter((bucket) => bucket.id !== bucketId));
+      setTransfers((prev) => prev.filter((transfer) => transfer.bucket_id !== bucketId));
+    } catch (err: unknown) {
+      console.error("Error deleting savings bucket:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete bucket");
+      throw err;
+    }
+  }, []);
+
+  const addTransfer = useCallback(async (input: SavingsTransferInput) => {
+    try {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      const { data, error: insertError } = await supabase
+        .from("savings_transfers")
+        .insert({
+          ...input,
+          household_id: context.householdId,
+          user_id: context.userId,
+          created_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (insertError) throw new Error(insertError.message);
+      const transfer = data as SavingsTransfer;
+      setTransfers((prev) => [transfer, ...prev]);
+      return transfer;
+    } catch (err: unknown) {
+      console.error("Error logging savings transfer:", err);
+      setError(err instanceof Error ? err.message : "Failed to log transfer");
+      throw err;
+    }
+  }, []);
+
+  const deleteTransfer = useCallback(async (transferId: string) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from("savings_transfers")
+        .delete()
+        .eq("id", transferId);
+
+      if (deleteError) throw new Error(deleteError.message);
+      setTransfers((prev) => prev.filter((transfer) => transfer.id !== transferId));
+    } catch (err: unknown) {
+      console.error("Error deleting savings transfer:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete transfer");
+      throw err;
+    }
+  }, []);
+
+  // Statement lines already imported (same external_id) are skipped.
+  // Returns how many transfers were added.
+  const importTransfers = useCallback(async (bucketId: string, transactions: BankTransaction[]) => {
+    try {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      const now = new Date().toISOString();
+      const rows = transactions.map((transaction) => ({
+        bucket_id: bucketId,
+        amount: transaction.amount,
+        transferred_on: transaction.date,
+        note: transaction.description || null,
+        external_id: transaction.external_id,
+        household_id: context.householdId,
+        user_id: context.userId,
+        created_at: now,
+      }));
+
+      const added: SavingsTransfer[] = [];
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        const { data, error: upsertError } = await supabase
+          .from("savings_transfers")
+          .upsert(rows.slice(i, i + IMPORT_BATCH_SIZE), {
+            onConflict: "household_id,external_id",
+            ignoreDuplicates: true,
+          })
+          .select();
+
+        if (upsertError) throw new Error(upsertError.message);
+        added.push(...((data || []) as SavingsTransfer[]));
+      }
+
+      setTransfers((prev) => [...added, ...prev]);
+      return added.length;
+    } catch (err: unknown) {
+      console.error("Error importing bank statement:", err);
+      setError(err instanceof Error ? err.message : "Failed to import statement");
+      throw err;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSavings();
+  }, [loadSavings]);
+
+  return {
+    buckets,
+    transfers,
+    loading,
+    error,
+    createBucket,
+    deleteBucket,
+    addTransfer,
+    deleteTransfer,
+    importTransfers,
+    refresh: loadSavings,
+  };
+}
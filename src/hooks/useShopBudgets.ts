@@ -0,0 +1,164 @@
+/**
+ * Get Kraken - Shop Budgets Hook
+ *
+ * Manages the household's spending limits: budgets and cooldowns on shop
+ * tags or items, and whether purchases may take the wallet below zero
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import type { ShopBudget } from "../types";
+
+export type ShopBudgetInput = Pick<
+  ShopBudget,
+  "tag_key" | "shop_item_id" | "period" | "coin_limit" | "dollar_limit" | "cooldown_hours"
+>;
+
+export function useShopBudgets() {
+  const [budgets, setBudgets] = useState<ShopBudget[]>([]);
+  const [preventNegativeBalance, setPreventNegative] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      setLoading(true);
+      const context = await getHouseholdContext();
+      if (!context) {
+        setBudgets([]);
+        return;
+      }
+
+      const { rows, preventNegative } = await withOfflineCache(
+        `shop_budgets:${context.householdId}`,
+        async () => {
+          const [budgetsResult, householdResult] = await Promise.all([
+            supabase
+              .from("shop_budgets")
+              .select("*")
+              .eq("household_id", context.householdId)
+              .order("created_at", { ascending: true }),
+            supabase
+              .from("households")
+              .select("prevent_negative_balance")
+              .eq("id", context.householdId)
+              .maybeSingle(),
+          ]);
+
+          if (budgetsResult.error) throw new Error(budgetsResult.error.message);
+          if (householdResult.error) throw new Error(householdResult.error.message);
+          return {
+            rows: (budgetsResult.data || []) as ShopBudget[],
+            // Off unless an owner turned it on
+            preventNegative: householdResult.data?.prevent_negative_balance === true,
+          };
+        }
+      );
+
+      setBudgets(rows);
+      setPreventNegative(preventNegative);
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Error loading shop budgets:", err);
+      setError(err instanceof Error ? err.message : "Failed to load shop budgets");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // One budget per tag or item - saving again replaces it
+  const saveBudget = useCallback(async (input: ShopBudgetInput) => {
+    try {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      const existing = budgets.find((budget) =>
+        input.tag_key !== null
+          ? budget.tag_key === input.tag_key
+          : budget.shop_item_id === input.shop_item_id
+      );
+      const now = new Date().toISOString();
+
+      const { data, error: saveError } = existing
+        ? await supabase
+            .from("shop_budgets")
+            .update({ ...input, updated_at: now })
+            .eq("id", existing.id)
+            .select()
+            .single()
+        : await supabase
+            .from("shop_budgets")
+            .insert({
+              ...input,
+              household_id: context.householdId,
+              created_at: now,
+              updated_at: now,
+            })
+            .select()
+            .single();
+
+      if (saveError) throw new Error(saveError.message);
+      const saved = data as ShopBudget;
+      setBudgets((prev) =>
+        existing ? prev.map((budget) => (budget.id === saved.id ? saved : budget)) : [...prev, saved]
+      );
+      return saved;
+    } catch (err: unknown) {
+      console.error("Error saving shop budget:", err);
+      setError(err instanceof Error ? err.message : "Failed to save budget");
+      throw err;
+    }
+  }, [budgets]);
+
+  const deleteBudget = useCallback(async (budgetId: string) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from("shop_budgets")
+        .delete()
+        .eq("id", budgetId);
+
+      if (deleteError) throw new Error(deleteError.message);
+      setBudgets((prev) => prev.filter((budget) => budget.id !== budgetId));
+    } catch (err: unknown) {
+      console.error("Error deleting shop budget:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete budget");
+      throw err;
+    }
+  }, []);
+
+  const setPreventNegativeBalance = useCallback(async (enabled: boolean) => {
+    try {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      const { error: updateError } = await supabase
+        .from("households")
+        .update({ prevent_negative_balance: enabled })
+        .eq("id", context.householdId);
+
+      if (updateError) throw new Error(updateError.message);
+      setPreventNegative(enabled);
+    } catch (err: unknown) {
+      console.error("Error updating negative balance rule:", err);
+      setError(err instanceof Error ? err.message : "Failed to update setting");
+      throw err;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  return {
+    budgets,
+    preventNegativeBalance,
+    loading,
+    error,
+    saveBudget,
+    deleteBudget,
+    setPreventNegativeBalance,
+    refresh: loadBudgets,
+  };
+}
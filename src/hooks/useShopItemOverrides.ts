@@ -1,12 +1,15 @@
 /**
  * Get Kraken - Shop Item Overrides Hook
  *
- * Manages per-user shop item overrides (name, tags, price, dollar_amount)
+ * Manages household shop item overrides (name, tags, price, dollar_amount, photo)
  * and hidden shop items
  */
 
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import { applyShopItemOverride } from "../utils/overrides";
 import type { UserShopItemOverride, ShopItem, ShopTag } from "../types";
 
 export function useShopItemOverrides() {
@@ -14,29 +17,26 @@ export function useShopItemOverrides() {
   const [hiddenItemIds, setHiddenItemIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
 
-  // Get current user ID
-  const getUserId = useCallback(async () => {
-    const { data: { user } } = await supabase.supabase.auth.getUser();
-    return user?.id;
-  }, []);
-
-  // Load all overrides for current user
+  // Load all overrides shared by the current household
   const loadOverrides = useCallback(async () => {
     try {
       setLoading(true);
-      const userId = await getUserId();
-      if (!userId) {
+      const context = await getHouseholdContext();
+      if (!context) {
         setOverrides({});
         setLoading(false);
         return;
       }
 
-      const { data, error } = await supabase
-        .from("user_shop_item_overrides")
-        .select("*")
-        .eq("user_id", userId);
+      const data = await withOfflineCache(`user_shop_item_overrides:${context.householdId}`, async () => {
+        const { data: rows, error } = await supabase
+          .from("user_shop_item_overrides")
+          .select("*")
+          .eq("household_id", context.householdId);
 
-      if (error) throw error;
+        if (error) throw error;
+        return (rows || []) as UserShopItemOverride[];
+      });
 
       const overridesMap: Record<string, UserShopItemOverride> = {};
       (data || []).forEach((override: UserShopItemOverride) => {
@@ -45,12 +45,15 @@ export function useShopItemOverrides() {
       setOverrides(overridesMap);
 
       // Load hidden shop items
-      const { data: hiddenData, error: hiddenError } = await supabase
-        .from("user_hidden_shop_items")
-        .select("shop_item_id")
-        .eq("user_id", userId);
+      const hiddenData = await withOfflineCache(`user_hidden_shop_items:${context.householdId}`, async () => {
+        const { data: rows, error: hiddenError } = await supabase
+          .from("user_hidden_shop_items")
+          .select("shop_item_id")
+          .eq("household_id", context.householdId);
 
-      if (hiddenError) throw hiddenError;
+        if (hiddenError) throw hiddenError;
+        return (rows || []) as { shop_item_id: string }[];
+      });
       setHiddenItemIds(new Set((hiddenData || []).map((h: { shop_item_id: string }) => h.shop_item_id)));
     } catch (err) {
       console.error("Error loading shop item overrides:", err);
@@ -58,7 +61,7 @@ export function useShopItemOverrides() {
     } finally {
       setLoading(false);
     }
-  }, [getUserId]);
+  }, []);
 
   // Get effective price for a shop item (override or base)
   const getEffectivePrice = useCallback(
@@ -100,7 +103,7 @@ export function useShopItemOverrides() {
     [overrides]
   );
 
-  // Check if a shop item is hidden for the current user
+  // Check if a shop item is hidden for the current household
   const isItemHidden = useCallback(
     (itemId: string): boolean => {
       return hiddenItemIds.has(itemId);
@@ -110,10 +113,10 @@ export function useShopItemOverrides() {
 
   // Update or create override (supports name, tags, price, dollar_amount)
   const updateOverride = useCallback(
-    async (itemId: string, updates: { name?: string; tags?: ShopTag[]; price?: number; dollar_amount?: number }) => {
+    async (itemId: string, updates: { name?: string; tags?: ShopTag[]; price?: number; dollar_amount?: number; photo_url?: string | null }) => {
       try {
-        const userId = await getUserId();
-        if (!userId) throw new Error("User must be authenticated");
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
 
         // Check if override exists
         const existing = overrides[itemId];
@@ -125,6 +128,7 @@ export function useShopItemOverrides() {
           if (updates.tags !== undefined) updateData.tags = updates.tags;
           if (updates.price !== undefined) updateData.price = updates.price;
           if (updates.dollar_amount !== undefined) updateData.dollar_amount = updates.dollar_amount;
+          if (updates.photo_url !== undefined) updateData.photo_url = updates.photo_url;
 
           const { data, error } = await supabase
             .from("user_shop_item_overrides")
@@ -142,12 +146,14 @@ export function useShopItemOverrides() {
           const { data, error } = await supabase
             .from("user_shop_item_overrides")
             .insert({
-              user_id: userId,
+              user_id: context.userId,
+              household_id: context.householdId,
               shop_item_id: itemId,
               name: updates.name ?? null,
               tags: updates.tags ?? null,
               price: updates.price ?? null,
               dollar_amount: updates.dollar_amount ?? null,
+              photo_url: updates.photo_url ?? null,
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             })
@@ -164,21 +170,21 @@ export function useShopItemOverrides() {
         throw err;
       }
     },
-    [getUserId, overrides]
+    [overrides]
   );
 
-  // Hide a shop item for the current user
+  // Hide a shop item for the current household
   const hideItem = useCallback(
     async (itemId: string) => {
       try {
-        const userId = await getUserId();
-        if (!userId) throw new Error("User must be authenticated");
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
 
         // Check if already hidden
         const { data: existing } = await supabase
           .from("user_hidden_shop_items")
           .select("id")
-          .eq("user_id", userId)
+          .eq("household_id", context.householdId)
           .eq("shop_item_id", itemId)
           .maybeSingle();
 
@@ -192,7 +198,8 @@ export function useShopItemOverrides() {
         const { error } = await supabase
           .from("user_hidden_shop_items")
           .insert({
-            user_id: userId,
+            user_id: context.userId,
+            household_id: context.householdId,
             shop_item_id: itemId,
             created_at: new Date().toISOString(),
           });
@@ -211,20 +218,20 @@ export function useShopItemOverrides() {
         throw err;
       }
     },
-    [getUserId]
+    []
   );
 
-  // Unhide a shop item for the current user
+  // Unhide a shop item for the current household
   const unhideItem = useCallback(
     async (itemId: string) => {
       try {
-        const userId = await getUserId();
-        if (!userId) throw new Error("User must be authenticated");
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
 
         const { error } = await supabase
           .from("user_hidden_shop_items")
           .delete()
-          .eq("user_id", userId)
+          .eq("household_id", context.householdId)
           .eq("shop_item_id", itemId);
 
         if (error) throw error;
@@ -238,7 +245,7 @@ export function useShopItemOverrides() {
         throw err;
       }
     },
-    [getUserId]
+    []
   );
 
   // Load on mount and when user changes
@@ -256,18 +263,7 @@ export function useShopItemOverrides() {
 
   // Merge base shop item with user overrides
   const mergeItemWithOverrides = useCallback(
-    (baseItem: ShopItem): ShopItem => {
-      const override = overrides[baseItem.id];
-      if (!override) return baseItem;
-
-      return {
-        ...baseItem,
-        name: override.name || baseItem.name,
-        tags: override.tags || baseItem.tags,
-        price: override.price !== null && override.price !== undefined ? override.price : baseItem.price,
-        dollar_amount: override.dollar_amount !== null && override.dollar_amount !== undefined ? override.dollar_amount : baseItem.dollar_amount,
-      };
-    },
+    (baseItem: ShopItem): ShopItem => applyShopItemOverride(baseItem, overrides[baseItem.id]),
     [overrides]
   );
 
@@ -6,9 +6,48 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "../lib/supabase";
-import type { ShopItem, ShopItemWithLogs, ShopLog } from "../types";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache, isNetworkError } from "../lib/offlineStore";
+import { deletePhoto } from "../lib/photos";
+import {
+  enqueueMutation,
+  registerReplayHandler,
+  resolveEditConflicts,
+  snapshotFields,
+} from "../lib/outbox";
+import type { ShopItem, ShopItemWithLogs, Wallet, LedgerResult } from "../types";
 import { useShopItemOverrides } from "./useShopItemOverrides";
-import { registerPendingWalletMutation } from "../utils/mutationGuard";
+import { getPurchaseBlockReason } from "../utils/budgets";
+import type { SpendingLimits } from "../utils/budgets";
+
+// The client id makes a replayed purchase idempotent; occurredAt keeps the
+// time it happened on the device
+async function requestPurchase(
+  itemId: string,
+  clientId: string,
+  occurredAt: string
+): Promise<Wallet> {
+  const { data, error: rpcError } = await supabase.rpc("purchase_item", {
+    p_item_id: itemId,
+    p_client_id: clientId,
+    p_occurred_at: occurredAt,
+  });
+
+  if (rpcError) {
+    console.error("purchase_item RPC error:", rpcError);
+    console.error("Item ID:", itemId);
+    throw new Error(
+      `Failed to purchase item: ${
+        rpcError.message || JSON.stringify(rpcError)
+      }`
+    );
+  }
+  if (!data) {
+    throw new Error("Failed to purchase item: no wallet returned");
+  }
+
+  return data as Wallet;
+}
 
 export function useShopItems() {
   const [shopItems, setShopItems] = useState<ShopItem[]>([]);
@@ -25,35 +64,31 @@ export function useShopItems() {
   const loadShopItems = useCallback(async () => {
     try {
       setLoading(true);
-      // Get current user to filter shop items
-      const {
-        data: { user },
-        error: userError,
-      } = await supabase.supabase.auth.getUser();
-      if (userError) {
-        console.error("Error getting user:", userError);
-        throw new Error("Failed to get user session");
-      }
-      if (!user) {
+      // Get current user's household to filter shop items
+      const context = await getHouseholdContext();
+      if (!context) {
         throw new Error("User must be authenticated");
       }
 
-      // Load base shop items immediately - progressive render
-      let { data, error: fetchError } = await supabase
-        .from("shop_items")
-        .select("*")
-        .or(`created_by.is.null,created_by.eq.${user.id}`)
-        .order("name", { ascending: true });
+      // Load base shop items immediately - progressive render (last copy when offline)
+      let data = await withOfflineCache(`shop_items:${context.householdId}`, async () => {
+        const { data: rows, error: fetchError } = await supabase
+          .from("shop_items")
+          .select("*")
+          .or(`created_by.is.null,household_id.eq.${context.householdId}`)
+          .order("name", { ascending: true });
 
-      if (fetchError) {
-        console.error("[useShopItems] Error fetching shop items:", fetchError);
-        throw fetchError;
-      }
+        if (fetchError) {
+          console.error("[useShopItems] Error fetching shop items:", fetchError);
+          throw fetchError;
+        }
+        return (rows || []) as ShopItem[];
+      });
 
-      // Verify all returned items are either seeded or owned by current user
+      // Verify all returned items are either seeded or owned by current household
       const invalidItems = data?.filter(
         (item: ShopItem) =>
-          item.created_by !== null && item.created_by !== user.id
+          item.created_by !== null && item.household_id !== context.householdId
       );
       if (invalidItems && invalidItems.length > 0) {
         console.error(
@@ -63,7 +98,7 @@ export function useShopItems() {
         // Filter them out as a safeguard
         data = data.filter(
           (item: ShopItem) =>
-            item.created_by === null || item.created_by === user.id
+            item.created_by === null || item.household_id === context.householdId
         );
       }
 
@@ -96,11 +131,9 @@ export function useShopItems() {
       >
     ) => {
       try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
+        // Get current user and household
+        const context = await getHouseholdContext();
+        if (!context) {
           throw new Error("User must be authenticated");
         }
 
@@ -108,7 +141,8 @@ export function useShopItems() {
           .from("shop_items")
           .insert({
             ...item,
-            created_by: user.id,
+            created_by: context.userId,
+            household_id: context.householdId,
             purchase_count: 0,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
@@ -134,237 +168,228 @@ export function useShopItems() {
     []
   );
 
-  // Update a shop item (user-created items update base, seeded items update overrides)
-  const updateShopItem = useCallback(
+  // Apply an edit on the server (user-created items update base, seeded items update overrides)
+  const applyShopItemUpdate = useCallback(
     async (id: string, updates: Partial<ShopItem>) => {
-      try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
-          throw new Error("User must be authenticated");
-        }
+      // Get current user and household
+      const context = await getHouseholdContext();
+      if (!context) {
+        throw new Error("User must be authenticated");
+      }
 
-        // Handle purchase_count - single mutation: set count directly via log adjustment
-        if (updates.purchase_count !== undefined) {
-          const targetCount = updates.purchase_count;
+      // Handle purchase_count - single mutation: set count directly via log adjustment
+      if (updates.purchase_count !== undefined) {
+        const targetCount = updates.purchase_count;
 
-          // Get current count
-          const { count: currentCount } = await supabase
+        // Get current count
+        const { count: currentCount } = await supabase
+          .from("shop_logs")
+          .select("*", { count: "exact", head: true })
+          .eq("shop_item_id", id)
+          .eq("household_id", context.householdId)
+          .is("reversed_at", null);
+
+        const difference = targetCount - (currentCount || 0);
+
+        if (difference > 0) {
+          // Add log entries; the server snapshots the current values
+          const { error: logError } = await supabase.rpc("add_shop_log_entries", {
+            p_item_id: id,
+            p_count: difference,
+          });
+          if (logError) throw logError;
+        } else if (difference < 0) {
+          // Reverse the newest entries (refunds whatever they moved in the wallet)
+          const { data: logsToReverse, error: fetchLogsError } = await supabase
             .from("shop_logs")
-            .select("*", { count: "exact", head: true })
+            .select("id")
             .eq("shop_item_id", id)
-            .eq("user_id", user.id);
-
-          const difference = targetCount - (currentCount || 0);
-
-          if (difference > 0) {
-            // Add log entries
-            const newLogs = Array.from({ length: difference }, () => ({
-              shop_item_id: id,
-              user_id: user.id,
-              purchased_at: new Date().toISOString(),
-            }));
-            const { error: logError } = await supabase
-              .from("shop_logs")
-              .insert(newLogs);
-            if (logError) throw logError;
-          } else if (difference < 0) {
-            // Remove oldest log entries
-            const { data: logsToDelete } = await supabase
-              .from("shop_logs")
-              .select("id")
-              .eq("shop_item_id", id)
-              .eq("user_id", user.id)
-              .order("purchased_at", { ascending: true })
-              .limit(Math.abs(difference));
-
-            if (logsToDelete && logsToDelete.length > 0) {
-              const idsToDelete = logsToDelete.map(
-                (log: { id: string }) => log.id
-              );
-              const { error: deleteError } = await supabase
-                .from("shop_logs")
-                .delete()
-                .in("id", idsToDelete);
-              if (deleteError) throw deleteError;
-            }
+            .eq("household_id", context.householdId)
+            .is("reversed_at", null)
+            .order("purchased_at", { ascending: false })
+            .limit(Math.abs(difference));
+
+          if (fetchLogsError) throw fetchLogsError;
+          for (const log of (logsToReverse || []) as { id: string }[]) {
+            const { error: reverseError } = await supabase.rpc("reverse_shop_log", {
+              p_log_id: log.id,
+            });
+            if (reverseError) throw reverseError;
           }
-          // Remove purchase_count from updates since we handled it via logs
-          const { purchase_count, ...restUpdates } = updates;
-          updates = restUpdates;
         }
+        // Remove purchase_count from updates since we handled it via logs
+        const { purchase_count, ...restUpdates } = updates;
+        updates = restUpdates;
+      }
 
-        // First, check if the shop item exists and if the user created it
-        const { data: existingItem, error: fetchError } = await supabase
+      // First, check if the shop item exists and if the user created it
+      const { data: existingItem, error: fetchError } = await supabase
+        .from("shop_items")
+        .select("household_id")
+        .eq("id", id)
+        .single();
+
+      if (fetchError) throw fetchError;
+      if (!existingItem) {
+        throw new Error("Shop item not found");
+      }
+
+      // If the household created it, update the base item
+      // Note: household_id is null for seeded items
+      if (existingItem.household_id === context.householdId) {
+        const { data, error: updateError } = await supabase
           .from("shop_items")
-          .select("created_by")
+          .update({
+            ...updates,
+            updated_at: new Date().toISOString(),
+          })
           .eq("id", id)
-          .single();
+          .select()
+          .maybeSingle();
 
-        if (fetchError) throw fetchError;
-        if (!existingItem) {
-          throw new Error("Shop item not found");
+        if (updateError) throw updateError;
+        if (!data) {
+          // Update returned 0 rows - likely RLS blocked it or item was deleted
+          throw new Error("Shop item update was blocked or item not found");
         }
+        setShopItems((prev) => {
+          const updated = prev.map((item) => (item.id === id ? data : item));
+          return updated.sort((a, b) => a.name.localeCompare(b.name));
+        });
+        return data;
+      } else {
+        // Seeded item - update user override and patch local state
+        const overrideUpdates: any = {};
+        if (updates.name !== undefined) overrideUpdates.name = updates.name;
+        if (updates.tags !== undefined) overrideUpdates.tags = updates.tags;
+        if (updates.price !== undefined)
+          overrideUpdates.price = updates.price;
+        if (updates.dollar_amount !== undefined)
+          overrideUpdates.dollar_amount = updates.dollar_amount;
+        if (updates.photo_url !== undefined)
+          overrideUpdates.photo_url = updates.photo_url;
+
+        await updateOverride(id, overrideUpdates);
+        // Update local state optimistically - merge override with base item
+        setShopItems((prev) => {
+          const existing = prev.find((i) => i.id === id);
+          if (!existing) return prev;
+          const merged = mergeItemWithOverrides({ ...existing, ...updates });
+          return prev
+            .map((i) => (i.id === id ? merged : i))
+            .sort((a, b) => a.name.localeCompare(b.name));
+        });
+        // Return the updated item from state
+        const updated = shopItems.find((i) => i.id === id);
+        return updated
+          ? mergeItemWithOverrides({ ...updated, ...updates })
+          : null;
+      }
+    },
+    [updateOverride, mergeItemWithOverrides, shopItems]
+  );
 
-        // If user created it, update the base item
-        // Note: created_by can be null (seeded items) or a different user's ID
-        if (existingItem.created_by === user.id) {
-          const { data, error: updateError } = await supabase
-            .from("shop_items")
-            .update({
-              ...updates,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", id)
-            .select()
-            .maybeSingle();
-
-          if (updateError) throw updateError;
-          if (!data) {
-            // Update returned 0 rows - likely RLS blocked it or item was deleted
-            throw new Error("Shop item update was blocked or item not found");
-          }
-          setShopItems((prev) => {
-            const updated = prev.map((item) => (item.id === id ? data : item));
-            return updated.sort((a, b) => a.name.localeCompare(b.name));
-          });
-          return data;
-        } else {
-          // Seeded item - update user override and patch local state
-          const overrideUpdates: any = {};
-          if (updates.name !== undefined) overrideUpdates.name = updates.name;
-          if (updates.tags !== undefined) overrideUpdates.tags = updates.tags;
-          if (updates.price !== undefined)
-            overrideUpdates.price = updates.price;
-          if (updates.dollar_amount !== undefined)
-            overrideUpdates.dollar_amount = updates.dollar_amount;
-
-          await updateOverride(id, overrideUpdates);
-          // Update local state optimistically - merge override with base item
-          setShopItems((prev) => {
-            const existing = prev.find((i) => i.id === id);
-            if (!existing) return prev;
-            const merged = mergeItemWithOverrides({ ...existing, ...updates });
-            return prev
-              .map((i) => (i.id === id ? merged : i))
-              .sort((a, b) => a.name.localeCompare(b.name));
-          });
-          // Return the updated item from state
-          const updated = shopItems.find((i) => i.id === id);
-          return updated
-            ? mergeItemWithOverrides({ ...updated, ...updates })
-            : null;
+  // Update a shop item - offline, the edit is queued and patched into local state
+  const updateShopItem = useCallback(
+    async (id: string, updates: Partial<ShopItem>) => {
+      try {
+        return await applyShopItemUpdate(id, updates);
+      } catch (err: unknown) {
+        const existing = shopItems.find((item) => item.id === id);
+        if (existing && isNetworkError(err)) {
+          const base = snapshotFields(existing, updates);
+          // Counts are re-applied from the logs on replay, never merged
+          delete base.purchase_count;
+          await enqueueMutation({ kind: "update_shop_item", id, updates, base });
+          const patched = { ...existing, ...updates };
+          setShopItems((prev) =>
+            prev
+              .map((item) => (item.id === id ? patched : item))
+              .sort((a, b) => a.name.localeCompare(b.name))
+          );
+          return patched;
         }
-      } catch (err: any) {
         console.error("Error updating shop item:", err);
-        setError(err.message || "Failed to update shop item");
+        setError(err instanceof Error ? err.message : "Failed to update shop item");
         throw err;
       }
     },
-    [updateOverride, mergeItemWithOverrides, shopItems]
+    [applyShopItemUpdate, shopItems]
   );
 
-  // Purchase a shop item (adds to log with user_id and atomically updates wallet)
+  // Purchase a shop item - server-side transaction inserts the log and debits the wallet
+  // using the effective price resolved from overrides; returns the authoritative wallet.
+  // Offline, the purchase is queued instead and the wallet is null.
+  // With limits, a purchase they don't allow throws with the reason and is never sent.
   const purchaseItem = useCallback(
-    async (itemId: string, price: number, dollarAmount: number = 0) => {
-      try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
-          throw new Error("User must be authenticated");
-        }
-
-        // Load current wallet to get current total
-        const { data: walletData, error: walletFetchError } = await supabase
-          .from("wallets")
-          .select("*")
-          .eq("user_id", user.id)
-          .maybeSingle();
-
-        if (walletFetchError && walletFetchError.code !== "PGRST116") {
-          throw walletFetchError;
-        }
-
-        // Calculate new wallet totals
-        const currentTotal = walletData?.total ?? 0;
-        const currentDollarTotal = walletData?.dollar_total ?? 0;
-        const newTotal = currentTotal - price;
-        const newDollarTotal = Math.round(
-          currentDollarTotal - Math.round(dollarAmount)
-        );
-
-        // Mutation guard: register pending wallet mutation to prevent double-application
-        registerPendingWalletMutation(newTotal, newDollarTotal);
-
-        // Atomically: insert log entry AND update wallet in sequence
-        // First, insert log entry
-        const { error: logError } = await supabase.from("shop_logs").insert({
-          shop_item_id: itemId,
-          user_id: user.id,
-          purchased_at: new Date().toISOString(),
-        });
-
-        if (logError) {
-          console.error("Shop log insert error:", logError);
-          console.error("User ID:", user.id);
-          console.error("Item ID:", itemId);
-          throw new Error(
-            `Failed to create shop log: ${
-              logError.message || JSON.stringify(logError)
-            }`
-          );
-        }
+    async (itemId: string, limits?: SpendingLimits): Promise<LedgerResult> => {
+      if (limits) {
+        const item = shopItems.find((i) => i.id === itemId);
+        if (!item) throw new Error("Shop item not found");
+        const reason = getPurchaseBlockReason(item, shopItems, limits);
+        if (reason) throw new Error(reason);
+      }
 
-        // Then, update wallet atomically
-        if (!walletData) {
-          // Create wallet if it doesn't exist
-          const { error: createError } = await supabase.from("wallets").insert({
-            user_id: user.id,
-            id: null,
-            total: newTotal,
-            dollar_total: newDollarTotal,
-            updated_at: new Date().toISOString(),
+      const clientId = crypto.randomUUID();
+      const occurredAt = new Date().toISOString();
+      try {
+        const wallet = await requestPurchase(itemId, clientId, occurredAt);
+        return { wallet, clientId };
+      } catch (err: unknown) {
+        const item = shopItems.find((i) => i.id === itemId);
+        if (item && isNetworkError(err)) {
+          // Price copied for the pending badge; the server resolves the real one on replay
+          await enqueueMutation({
+            kind: "purchase_item",
+            itemId,
+            clientId,
+            occurredAt,
+            name: item.name,
+            price: item.price,
+            dollarAmount: Math.round(item.dollar_amount || 0),
           });
-          if (createError) throw createError;
-        } else {
-          // Update existing wallet
-          const { error: updateError } = await supabase
-            .from("wallets")
-            .update({
-              total: newTotal,
-              dollar_total: newDollarTotal,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("user_id", user.id);
-          if (updateError) throw updateError;
+          return { wallet: null, clientId };
         }
-
-        // Note: We don't update purchase_count anymore since it's shared
-        // Per-user counts are calculated from logs
-
-        return -price; // Return negative for consistency
-      } catch (err: any) {
         console.error("Error purchasing item:", err);
-        setError(err.message || "Failed to purchase item");
+        setError(err instanceof Error ? err.message : "Failed to purchase item");
         throw err;
       }
     },
-    []
+    [shopItems]
   );
 
+  // Reverse a single purchase - server-side transaction stamps the log as
+  // reversed and refunds exactly what it debited; returns the authoritative wallet
+  const reverseShopLog = useCallback(async (logId: string): Promise<Wallet> => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc("reverse_shop_log", {
+        p_log_id: logId,
+      });
+
+      if (rpcError) {
+        throw new Error(rpcError.message || "Failed to reverse purchase");
+      }
+      if (!data) {
+        throw new Error("Failed to reverse purchase: no wallet returned");
+      }
+
+      return data as Wallet;
+    } catch (err) {
+      console.error("Error reversing purchase:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to reverse purchase"
+      );
+      throw err;
+    }
+  }, []);
+
   // Get shop item with logs for current user
   const getShopItemWithLogs = useCallback(
     async (itemId: string): Promise<ShopItemWithLogs | null> => {
       try {
-        // Get current user
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) {
+        // Get current user and household
+        const context = await getHouseholdContext();
+        if (!context) {
           return null;
         }
 
@@ -380,7 +405,7 @@ export function useShopItems() {
           .from("shop_logs")
           .select("*")
           .eq("shop_item_id", itemId)
-          .eq("user_id", user.id)
+          .eq("household_id", context.householdId)
           .order("purchased_at", { ascending: false });
 
         if (logsError) throw logsError;
@@ -415,14 +440,12 @@ export function useShopItems() {
 
   // Subscribe to real-time changes - use state patches, not full reloads
   useEffect(() => {
-    // Get current user for subscription filters
+    // Get current household for subscription filters
     const setupSubscriptions = async () => {
-      const {
-        data: { user },
-      } = await supabase.supabase.auth.getUser();
-      if (!user) return { user: null, all: null, hidden: null };
+      const context = await getHouseholdContext().catch(() => null);
+      if (!context) return { user: null, all: null, hidden: null };
 
-      // Handler for user-created shop items - receives only user's items via channel filter
+      // Handler for household shop items - receives only the household's items via channel filter
       const handleUserShopItemChange = (payload: any) => {
         if (payload.eventType === "INSERT") {
           // Only add if not already present and not hidden
@@ -484,11 +507,11 @@ export function useShopItems() {
         }
       };
 
-      // Subscribe to user's shop items (created_by = user.id) - channel filter
+      // Subscribe to household shop items (household_id) - channel filter
       const userSubscription = supabase.subscribe(
         "shop_items",
         handleUserShopItemChange,
-        `created_by=eq.${user.id}`
+        `household_id=eq.${context.householdId}`
       );
 
       // Subscribe to all shop items - client-side filter for seeded items only
@@ -530,7 +553,7 @@ export function useShopItems() {
               );
           }
         },
-        `user_id=eq.${user.id}`
+        `household_id=eq.${context.householdId}`
       );
 
       return {
@@ -556,23 +579,21 @@ export function useShopItems() {
   const deleteShopItem = useCallback(
     async (id: string) => {
       try {
-        const {
-          data: { user },
-        } = await supabase.supabase.auth.getUser();
-        if (!user) throw new Error("User must be authenticated");
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
 
         // Fetch the existing item to check ownership
         const { data: existingItem, error: fetchError } = await supabase
           .from("shop_items")
-          .select("created_by")
+          .select("household_id, photo_url")
           .eq("id", id)
           .single();
 
         if (fetchError) throw fetchError;
         if (!existingItem) throw new Error("Shop item not found.");
 
-        // If user created it, delete the base item
-        if (existingItem.created_by === user.id) {
+        // If the household created it, delete the base item
+        if (existingItem.household_id === context.householdId) {
           const { error: deleteError } = await supabase
             .from("shop_items")
             .delete()
@@ -580,6 +601,7 @@ export function useShopItems() {
 
           if (deleteError) throw deleteError;
           setShopItems((prev) => prev.filter((item) => item.id !== id));
+          await deletePhoto(existingItem.photo_url);
         } else {
           // Seeded item - hide it for this user and update state immediately
           await hideItemForUser(id);
@@ -594,47 +616,17 @@ export function useShopItems() {
     [hideItemForUser]
   );
 
-  // Load all shop logs for current user
-  const loadAllShopLogs = useCallback(async (): Promise<ShopLog[]> => {
-    try {
-      // Get current user
-      const {
-        data: { user },
-      } = await supabase.supabase.auth.getUser();
-      if (!user) {
-        return [];
-      }
-
-      const { data, error: fetchError } = await supabase
-        .from("shop_logs")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("purchased_at", { ascending: false });
-
-      if (fetchError) throw fetchError;
-      return data || [];
-    } catch (err: any) {
-      console.error("Error loading shop logs:", err);
-      return [];
-    }
-  }, []);
-
   // Delete all shop logs for current user and reset purchase counts
   const deleteAllShopLogs = useCallback(async () => {
     try {
-      // Get current user
-      const {
-        data: { user },
-      } = await supabase.supabase.auth.getUser();
-      if (!user) {
+      // Get current user and household
+      const context = await getHouseholdContext();
+      if (!context) {
         throw new Error("User must be authenticated");
       }
 
-      // Delete all shop logs for this user
-      const { error: deleteError } = await supabase
-        .from("shop_logs")
-        .delete()
-        .eq("user_id", user.id);
+      // Delete all of the household's shop logs (owner-only, server-side)
+      const { error: deleteError } = await supabase.rpc("delete_all_shop_logs");
 
       if (deleteError) throw deleteError;
 
@@ -654,6 +646,54 @@ export function useShopItems() {
     }
   }, []);
 
+  // Replay queued purchases and edits once back online
+  useEffect(() => {
+    const unregisterPurchase = registerReplayHandler("purchase_item", async (mutation) => {
+      await requestPurchase(mutation.itemId, mutation.clientId, mutation.occurredAt);
+      return [];
+    });
+
+    const unregisterUpdate = registerReplayHandler("update_shop_item", async (mutation) => {
+      const context = await getHouseholdContext();
+      if (!context) throw new Error("User must be authenticated");
+
+      // Current server values: the household's item, or the seeded item plus override
+      const { data: item, error: itemError } = await supabase
+        .from("shop_items")
+        .select("*")
+        .eq("id", mutation.id)
+        .maybeSingle();
+      if (itemError) throw new Error(itemError.message);
+      if (!item) throw new Error("Shop item not found");
+
+      let current: Partial<ShopItem> = item;
+      if (item.household_id !== context.householdId) {
+        const { data: override, error: overrideError } = await supabase
+          .from("user_shop_item_overrides")
+          .select("*")
+          .eq("shop_item_id", mutation.id)
+          .eq("household_id", context.householdId)
+          .maybeSingle();
+        if (overrideError) throw new Error(overrideError.message);
+        // Override values win over the seeded ones, as in mergeItemWithOverrides
+        Object.entries(override ?? {}).forEach(([key, value]) => {
+          if (key in mutation.updates && value != null) current = { ...current, [key]: value };
+        });
+      }
+
+      const { apply, conflicts } = resolveEditConflicts(mutation.updates, mutation.base, current);
+      if (Object.keys(apply).length > 0) {
+        await applyShopItemUpdate(mutation.id, apply);
+      }
+      return conflicts.map(String);
+    });
+
+    return () => {
+      unregisterPurchase();
+      unregisterUpdate();
+    };
+  }, [applyShopItemUpdate]);
+
   return {
     shopItems,
     loading,
@@ -663,7 +703,7 @@ export function useShopItems() {
     purchaseItem,
     deleteShopItem,
     getShopItemWithLogs,
-    loadAllShopLogs,
+    reverseShopLog,
     deleteAllShopLogs,
     refresh: loadShopItems,
   };
@@ -0,0 +1,160 @@
+/**
+ * Get Kraken - Tags Hook
+ *
+ * Manages the household's quest and shop item tags (create, rename, recolor,
+ * delete). Items store tag keys; labels and colors come from here.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { supabase } from "../lib/supabase";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache } from "../lib/offlineStore";
+import { buildTagSet, createTagKey, DEFAULT_QUEST_TAGS } from "../utils/tags";
+import { DEFAULT_SHOP_TAGS } from "../utils/shopTags";
+import type { TagColor } from "../utils/tagPalette";
+import type { TagDefinition, TagScope } from "../types";
+
+export function useTags() {
+  const [definitions, setDefinitions] = useState<TagDefinition[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setLoading(true);
+      const context = await getHouseholdContext();
+      if (!context) {
+        setDefinitions(null);
+        return;
+      }
+
+      const rows = await withOfflineCache(`tags:${context.householdId}`, async () => {
+        const { data, error: loadError } = await supabase
+          .from("tags")
+          .select("*")
+          .eq("household_id", context.householdId)
+          .order("position", { ascending: true })
+          .order("created_at", { ascending: true });
+
+        if (loadError) throw new Error(loadError.message);
+        return (data || []) as TagDefinition[];
+      });
+
+      setDefinitions(rows);
+      setError(null);
+    } catch (err: unknown) {
+      // Fall back to the default tags so existing items still show theirs
+      console.error("Error loading tags:", err);
+      setError(err instanceof Error ? err.message : "Failed to load tags");
+      setDefinitions(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const scopeDefinitions = useCallback(
+    (scope: TagScope) => (definitions || []).filter((definition) => definition.scope === scope),
+    [definitions]
+  );
+
+  const createTag = useCallback(
+    async (scope: TagScope, label: string, color: TagColor) => {
+      try {
+        const context = await getHouseholdContext();
+        if (!context) throw new Error("User must be authenticated");
+
+        const existing = scopeDefinitions(scope);
+        const now = new Date().toISOString();
+        const { data, error: insertError } = await supabase
+          .from("tags")
+          .insert({
+            household_id: context.householdId,
+            scope,
+            key: createTagKey(label, existing.map((definition) => definition.key)),
+            label: label.trim(),
+            color,
+            position: existing.reduce((max, definition) => Math.max(max, definition.position + 1), 0),
+            created_at: now,
+            updated_at: now,
+          })
+          .select()
+          .single();
+
+        if (insertError) throw new Error(insertError.message);
+        const created = data as TagDefinition;
+        setDefinitions((prev) => [...(prev || []), created]);
+        return created;
+      } catch (err: unknown) {
+        console.error("Error creating tag:", err);
+        throw err;
+      }
+    },
+    [scopeDefinitions]
+  );
+
+  // Rename and/or recolor; the key (and so every tagged item) is unchanged
+  const updateTag = useCallback(
+    async (tagId: string, updates: { label?: string; color?: TagColor }) => {
+      try {
+        const { data, error: updateError } = await supabase
+          .from("tags")
+          .update({
+            ...updates,
+            ...(updates.label !== undefined ? { label: updates.label.trim() } : {}),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", tagId)
+          .select()
+          .single();
+
+        if (updateError) throw new Error(updateError.message);
+        const updated = data as TagDefinition;
+        setDefinitions((prev) =>
+          (prev || []).map((definition) => (definition.id === tagId ? updated : definition))
+        );
+        return updated;
+      } catch (err: unknown) {
+        console.error("Error updating tag:", err);
+        throw err;
+      }
+    },
+    []
+  );
+
+  // Removes the tag from the household's items too (see delete_tag)
+  const deleteTag = useCallback(async (tagId: string) => {
+    try {
+      const { error: deleteError } = await supabase.rpc("delete_tag", { p_tag_id: tagId });
+      if (deleteError) throw new Error(deleteError.message);
+      setDefinitions((prev) => (prev || []).filter((definition) => definition.id !== tagId));
+    } catch (err: unknown) {
+      console.error("Error deleting tag:", err);
+      throw err;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const questTags = useMemo(
+    () => buildTagSet(definitions ? scopeDefinitions("quest") : DEFAULT_QUEST_TAGS),
+    [definitions, scopeDefinitions]
+  );
+  const shopTags = useMemo(
+    () => buildTagSet(definitions ? scopeDefinitions("shop_item") : DEFAULT_SHOP_TAGS),
+    [definitions, scopeDefinitions]
+  );
+
+  return {
+    definitions: definitions || [],
+    questTags,
+    shopTags,
+    loading,
+    error,
+    createTag,
+    updateTag,
+    deleteTag,
+    refresh: loadTags,
+  };
+}
@@ -8,20 +8,26 @@ import { useState, useCallback } from "react";
 
 export type ToastType = "success" | "error";
 
+export interface ToastAction {
+  label: string;
+  onAction: () => void;
+}
+
 export interface ToastState {
   message: string;
   type: ToastType;
+  action?: ToastAction; // e.g. "Undo" on a quest completion
 }
 
 export function useToast() {
   const [toast, setToast] = useState<ToastState | null>(null);
 
-  const showToast = useCallback((message: string, type: ToastType = "success") => {
-    setToast({ message, type });
+  const showToast = useCallback((message: string, type: ToastType = "success", action?: ToastAction) => {
+    setToast({ message, type, action });
   }, []);
 
-  const showSuccess = useCallback((message: string) => {
-    showToast(message, "success");
+  const showSuccess = useCallback((message: string, action?: ToastAction) => {
+    showToast(message, "success", action);
   }, [showToast]);
 
   const showError = useCallback((message: string) => {
@@ -1,115 +1,91 @@
 /**
  * Get Kraken - Wallet Hook
  *
- * Manages per-user wallet state and syncs with Supabase
+ * Manages the household wallet, the transaction journal, and syncs with Supabase.
+ * Adjustments and resets made offline are queued and replayed once back online.
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { supabase } from "../lib/supabase";
-import type { Wallet } from "../types";
-import { isEchoOfLastWalletMutation } from "../utils/mutationGuard";
+import { getHouseholdContext } from "../lib/household";
+import { withOfflineCache, readCache, writeCache, isNetworkError } from "../lib/offlineStore";
+import { enqueueMutation, registerReplayHandler } from "../lib/outbox";
+import type { Wallet, WalletTransaction } from "../types";
+import {
+  calculateJournalBalance,
+  calculateWalletDrift,
+} from "../utils/walletJournal";
+
+async function requestAdjustment(amount: number, dollarAmount: number) {
+  const { data, error } = await supabase.rpc("adjust_wallet", {
+    p_amount: amount,
+    p_dollar_amount: dollarAmount,
+  });
+  if (error) throw new Error(error.message);
+  return data as Wallet | null;
+}
+
+// With an expected balance, the server refuses the reset if the wallet has moved
+async function requestReset(expected?: { total: number; dollarTotal: number }) {
+  const { data, error } = await supabase.rpc("reset_wallet", {
+    p_expected_total: expected?.total ?? null,
+    p_expected_dollar_total: expected?.dollarTotal ?? null,
+  });
+  if (error) throw new Error(error.message);
+  return data as Wallet | null;
+}
 
 export function useWallet() {
   const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load wallet from Supabase for current user
+  // Load the shared wallet for the current user's household
   const loadWallet = useCallback(async () => {
     try {
       setLoading(true);
       
-      // Get current user
-      const { data: { user } } = await supabase.supabase.auth.getUser();
-      if (!user) {
+      // Get current user and household
+      const context = await getHouseholdContext();
+      if (!context) {
         setWallet(null);
         setLoading(false);
         return;
       }
 
-      // Try to load user's wallet
+      // Try to load the household wallet
       const { data, error: fetchError } = await supabase
         .from("wallets")
         .select("*")
-        .eq("user_id", user.id)
+        .eq("household_id", context.householdId)
         .maybeSingle();
 
-      if (fetchError) {
-        // If wallet doesn't exist (PGRST116 = no rows), create it
-        if (
-          fetchError.code === "PGRST116" ||
-          fetchError.message?.includes("No rows")
-        ) {
-          const { data: newWallet, error: createError } = await supabase
-            .from("wallets")
-            .insert({
-              user_id: user.id,
-              id: null, // id is nullable, user_id is the primary key
-              total: 0,
-              dollar_total: 0,
-              updated_at: new Date().toISOString(),
-            })
-            .select()
-            .single();
-
-          if (createError) {
-            // If duplicate key error, wallet might have been created by another request - try to fetch it
-            if (createError.code === '23505') {
-              const { data: existingWallet } = await supabase
-                .from("wallets")
-                .select("*")
-                .eq("user_id", user.id)
-                .single();
-              if (existingWallet) {
-                setWallet(existingWallet);
-                return;
-              }
-            }
-            throw createError;
-          }
-          if (newWallet) {
-            setWallet(newWallet);
-          }
-        } else {
-          throw fetchError;
-        }
-      } else if (data) {
+      if (fetchError) throw fetchError;
+      if (data) {
         setWallet(data);
       } else {
-        // No data and no error - create wallet
-        const { data: newWallet, error: createError } = await supabase
-          .from("wallets")
-          .insert({
-            user_id: user.id,
-            id: null, // id is nullable, user_id is the primary key
-            total: 0,
-            dollar_total: 0,
-            updated_at: new Date().toISOString(),
-          })
-          .select()
-          .single();
-
-        if (createError) {
-          // If duplicate key error, wallet might have been created by another request - try to fetch it
-          if (createError.code === '23505') {
-            const { data: existingWallet } = await supabase
-              .from("wallets")
-              .select("*")
-              .eq("user_id", user.id)
-              .single();
-            if (existingWallet) {
-              setWallet(existingWallet);
-              return;
-            }
-          }
-          throw createError;
-        }
+        // No wallet yet - the server creates the empty one (members can't write wallets)
+        const { data: newWallet, error: createError } = await supabase.rpc("ensure_wallet");
+        if (createError) throw createError;
         if (newWallet) {
           setWallet(newWallet);
         }
       }
       setError(null);
     } catch (err: any) {
+      // Offline: show the last wallet we saw
+      if (isNetworkError(err)) {
+        const context = await getHouseholdContext().catch(() => null);
+        const cached = context
+          ? await readCache<Wallet>(`wallets:${context.householdId}`).catch(() => undefined)
+          : undefined;
+        if (cached) {
+          setWallet(cached);
+          setError(null);
+          return;
+        }
+      }
       console.error("Error loading wallet:", err);
       setError(err.message || "Failed to load wallet");
     } finally {
@@ -117,165 +93,138 @@ export function useWallet() {
     }
   }, []);
 
-  // Update wallet total (sea dollars and optionally dollar total)
-  const updateWallet = useCallback(
-    async (amount: number, dollarAmount: number = 0) => {
-      try {
-        // Get current user to ensure we're updating the right wallet
-        const { data: { user } } = await supabase.supabase.auth.getUser();
-        if (!user) {
-          throw new Error("User must be authenticated");
-        }
-
-        // If wallet not loaded yet, load it first
-        if (!wallet) {
-          await loadWallet();
-          // Wait a bit for state to update, then try again
-          // Actually, let's just fetch it directly here
-          const { data: walletData, error: fetchError } = await supabase
-            .from("wallets")
-            .select("*")
-            .eq("user_id", user.id)
-            .maybeSingle();
-
-          if (fetchError && fetchError.code !== "PGRST116") {
-            throw fetchError;
-          }
-
-          // If no wallet exists, create it
-          if (!walletData) {
-            const { data: newWallet, error: createError } = await supabase
-              .from("wallets")
-              .insert({
-                user_id: user.id,
-                id: null, // id is nullable now, user_id is the primary key
-                total: amount,
-                dollar_total: Math.round(dollarAmount),
-                updated_at: new Date().toISOString(),
-              })
-              .select()
-              .single();
+  // Load the household's wallet transaction journal (newest first)
+  const loadTransactions = useCallback(async () => {
+    try {
+      const context = await getHouseholdContext();
+      if (!context) {
+        setTransactions([]);
+        return;
+      }
 
-            if (createError) {
-              // If it's a unique constraint error, the wallet might have been created by another request
-              // Try to fetch it and update it instead
-              if (createError.code === '23505') {
-                const { data: existingWallet } = await supabase
-                  .from("wallets")
-                  .select("*")
-                  .eq("user_id", user.id)
-                  .single();
-                if (existingWallet) {
-                  const newTotal = existingWallet.total + amount;
-                  const newDollarTotal = Math.round((existingWallet.dollar_total || 0) + Math.round(dollarAmount));
-                  const { data: updatedWallet, error: updateError } = await supabase
-                    .from("wallets")
-                    .update({
-                      total: newTotal,
-                      dollar_total: newDollarTotal,
-                      updated_at: new Date().toISOString(),
-                    })
-                    .eq("user_id", user.id)
-                    .select()
-                    .single();
-                  if (updateError) throw updateError;
-                  if (updatedWallet) {
-                    setWallet(updatedWallet);
-                    return;
-                  }
-                }
-              }
-              throw createError;
-            }
-            if (newWallet) {
-              setWallet(newWallet);
-              return;
-            }
-          } else {
-            // Wallet exists, update it
-            const newTotal = walletData.total + amount;
-            const newDollarTotal = Math.round((walletData.dollar_total || 0) + Math.round(dollarAmount));
-            const { data, error: updateError } = await supabase
-              .from("wallets")
-              .update({
-                total: newTotal,
-                dollar_total: newDollarTotal,
-                updated_at: new Date().toISOString(),
-              })
-              .eq("user_id", user.id)
-              .select()
-              .single();
+      const data = await withOfflineCache(`wallet_transactions:${context.householdId}`, async () => {
+        const { data: rows, error: fetchError } = await supabase
+          .from("wallet_transactions")
+          .select("*")
+          .eq("household_id", context.householdId)
+          .order("created_at", { ascending: false });
 
-            if (updateError) throw updateError;
-            if (data) {
-              setWallet(data);
-            }
-            return;
-          }
-        }
+        if (fetchError) throw fetchError;
+        return (rows || []) as WalletTransaction[];
+      });
+      setTransactions(data);
+    } catch (err) {
+      console.error("Error loading wallet transactions:", err);
+    }
+  }, []);
 
-        // Wallet exists, update it
-        if (!wallet) {
-          // This shouldn't happen, but TypeScript needs this check
-          throw new Error("Wallet not loaded");
-        }
+  // Apply an authoritative wallet row returned by a server-side ledger function
+  // Rows older than the one we already hold are ignored, so realtime echoes are harmless
+  const applyWallet = useCallback((next: Wallet) => {
+    setWallet((prev) => {
+      if (
+        prev &&
+        prev.household_id === next.household_id &&
+        new Date(prev.updated_at).getTime() > new Date(next.updated_at).getTime()
+      ) {
+        return prev;
+      }
+      return next;
+    });
+  }, []);
 
-        const newTotal = wallet.total + amount;
-        const newDollarTotal = Math.round((wallet.dollar_total || 0) + Math.round(dollarAmount));
-        const { data, error: updateError } = await supabase
-          .from("wallets")
-          .update({
-            total: newTotal,
-            dollar_total: newDollarTotal,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("user_id", user.id)
-          .select()
-          .single();
+  // Keep the latest wallet for offline starts
+  useEffect(() => {
+    if (!wallet) return;
+    writeCache(`wallets:${wallet.household_id}`, wallet).catch((err) => {
+      console.error("Error caching wallet:", err);
+    });
+  }, [wallet]);
 
-        if (updateError) throw updateError;
+  // Update wallet total (sea dollars and optionally dollar total)
+  // The delta is applied server-side in a single statement - no read-modify-write.
+  // Offline, it is queued and shown with the other pending changes.
+  const updateWallet = useCallback(
+    async (amount: number, dollarAmount: number = 0) => {
+      try {
+        const data = await requestAdjustment(amount, Math.round(dollarAmount));
         if (data) {
-          setWallet(data);
+          applyWallet(data);
+        }
+      } catch (err: unknown) {
+        if (isNetworkError(err)) {
+          await enqueueMutation({ kind: "adjust_wallet", amount, dollarAmount: Math.round(dollarAmount) });
+          return;
         }
-      } catch (err: any) {
         console.error("Error updating wallet:", err);
-        setError(err.message || "Failed to update wallet");
+        setError(err instanceof Error ? err.message : "Failed to update wallet");
         throw err;
       }
     },
-    [wallet, loadWallet]
+    [applyWallet]
   );
 
+  // Replay queued adjustments and resets once back online
+  useEffect(() => {
+    const unregisterAdjust = registerReplayHandler("adjust_wallet", async (mutation) => {
+      const data = await requestAdjustment(mutation.amount, mutation.dollarAmount);
+      if (data) applyWallet(data);
+      return [];
+    });
+
+    const unregisterReset = registerReplayHandler("reset_wallet", async (mutation) => {
+      const data = await requestReset({
+        total: mutation.expectedTotal,
+        dollarTotal: mutation.expectedDollarTotal,
+      });
+      if (data) applyWallet(data);
+      return [];
+    });
+
+    return () => {
+      unregisterAdjust();
+      unregisterReset();
+    };
+  }, [applyWallet]);
+
   // Subscribe to real-time changes
   useEffect(() => {
     loadWallet();
+    loadTransactions();
 
     let subscription: any = null;
+    let journalSubscription: ReturnType<typeof supabase.subscribe> | null = null;
 
-    // Get current user for subscription filter
+    // Scope subscriptions to the household so every member sees each other's changes
     const setupSubscription = async () => {
-      const { data: { user } } = await supabase.supabase.auth.getUser();
-      if (!user) return;
+      const context = await getHouseholdContext().catch(() => null);
+      if (!context) return;
+      const { householdId } = context;
 
       subscription = supabase.subscribe(
         "wallets",
         (payload: any) => {
-          if (payload.new?.user_id === user.id) {
-            // Mutation guard: ignore realtime echoes of our own mutations
-            const newTotal = payload.new.total ?? 0;
-            const newDollarTotal = payload.new.dollar_total ?? 0;
-            
-            if (isEchoOfLastWalletMutation(newTotal, newDollarTotal)) {
-              // This is an echo of our own mutation - ignore it
-              console.log("[useWallet] Ignoring realtime echo of local mutation");
-              return;
-            }
-            
-            // This is a genuine update (from another device or external source) - apply it
-            setWallet(payload.new);
+          if (payload.new?.household_id === householdId) {
+            // Wallet rows are absolute values, so applying our own echo is a no-op
+            applyWallet(payload.new);
+          }
+        },
+        `household_id=eq.${householdId}`
+      );
+
+      // Journal is append-only, so only INSERT events matter
+      journalSubscription = supabase.subscribe(
+        "wallet_transactions",
+        (payload: { eventType: string; new: WalletTransaction }) => {
+          if (payload.eventType !== "INSERT" || payload.new?.household_id !== householdId) {
+            return;
           }
+          setTransactions((prev) => {
+            if (prev.some((tx) => tx.id === payload.new.id)) return prev;
+            return [payload.new, ...prev];
+          });
         },
-        `user_id=eq.${user.id}`
+        `household_id=eq.${householdId}`
       );
     };
 
@@ -285,46 +234,66 @@ export function useWallet() {
       if (subscription) {
         subscription.unsubscribe();
       }
+      if (journalSubscription) {
+        journalSubscription.unsubscribe();
+      }
     };
-  }, [loadWallet]);
+  }, [loadWallet, loadTransactions, applyWallet]);
 
   // Reset wallet to zero (both sea dollars and dollar total)
-  const resetWallet = useCallback(async () => {
+  // Journaled server-side as a "reset" entry for the exact offsetting amount.
+  // Offline, it is queued with the balance on screen (the wallet plus the
+  // pending changes queued before it) and the wallet shows zero until it
+  // replays; the replay is refused if the wallet has moved since.
+  const resetWallet = useCallback(async (pending = { total: 0, dollarTotal: 0 }) => {
     if (!wallet) return;
     try {
-      // Get current user
-      const { data: { user } } = await supabase.supabase.auth.getUser();
-      if (!user) {
-        throw new Error("User must be authenticated");
-      }
-
-      const { data, error: updateError } = await supabase
-        .from("wallets")
-        .update({
-          total: 0,
-          dollar_total: 0,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("user_id", user.id)
-        .select()
-        .single();
-
-      if (updateError) throw updateError;
+      const data = await requestReset();
       if (data) {
-        setWallet(data);
+        applyWallet(data);
+      }
+    } catch (err: unknown) {
+      if (isNetworkError(err)) {
+        await enqueueMutation({
+          kind: "reset_wallet",
+          expectedTotal: wallet.total + pending.total,
+          expectedDollarTotal: (wallet.dollar_total ?? 0) + pending.dollarTotal,
+        });
+        applyWallet({ ...wallet, total: 0, dollar_total: 0, updated_at: new Date().toISOString() });
+        return;
       }
-    } catch (err: any) {
       console.error("Error resetting wallet:", err);
       throw err;
     }
-  }, [wallet]);
+  }, [wallet, applyWallet]);
+
+  // Balance recomputed from the journal, and any disagreement with the stored total
+  const verifiedBalance = useMemo(
+    () => calculateJournalBalance(transactions),
+    [transactions]
+  );
+
+  const drift = useMemo(
+    () =>
+      wallet ? calculateWalletDrift(wallet, transactions, verifiedBalance) : null,
+    [wallet, transactions, verifiedBalance]
+  );
+
+  const hasDrift =
+    drift !== null && (drift.total !== 0 || drift.dollar_total !== 0);
 
   return {
     wallet,
+    transactions,
+    verifiedBalance,
+    drift,
+    hasDrift,
     loading,
     error,
     updateWallet,
+    applyWallet,
     resetWallet,
     refresh: loadWallet,
+    refreshTransactions: loadTransactions,
   };
 }
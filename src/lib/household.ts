@@ -0,0 +1,73 @@
+/**
+ * Get Kraken - Household Context
+ *
+ * Resolves the household the current user belongs to. Wallet, logs, catalogs
+ * and overrides are all scoped by household_id; user_id is kept for attribution.
+ */
+
+import { supabase } from "./supabase";
+import { isNetworkError } from "./offlineStore";
+
+export interface HouseholdContext {
+  userId: string;
+  householdId: string;
+}
+
+let cachedContext: HouseholdContext | null = null;
+let pendingContext: Promise<HouseholdContext> | null = null;
+
+// Last resolved context, so the app can start offline
+const STORED_CONTEXT_KEY = "get-kraken-household-context";
+
+function readStoredContext(): HouseholdContext | null {
+  try {
+    const stored = localStorage.getItem(STORED_CONTEXT_KEY);
+    return stored ? (JSON.parse(stored) as HouseholdContext) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Get the current user and household (a single-member household is created on first use)
+export async function getHouseholdContext(): Promise<HouseholdContext | null> {
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.supabase.auth.getUser();
+  if (!user) {
+    // Offline: the session can't be verified, so keep using the last household
+    if (userError && isNetworkError(userError)) {
+      return cachedContext ?? readStoredContext();
+    }
+    cachedContext = null;
+    localStorage.removeItem(STORED_CONTEXT_KEY);
+    return null;
+  }
+
+  if (cachedContext && cachedContext.userId === user.id) {
+    return cachedContext;
+  }
+
+  // Hooks mount together, so share one in-flight lookup
+  if (!pendingContext) {
+    pendingContext = (async () => {
+      const { data, error } = await supabase.rpc("ensure_household");
+      if (error) {
+        throw new Error(error.message || "Failed to load household");
+      }
+      cachedContext = { userId: user.id, householdId: data as string };
+      localStorage.setItem(STORED_CONTEXT_KEY, JSON.stringify(cachedContext));
+      return cachedContext;
+    })().finally(() => {
+      pendingContext = null;
+    });
+  }
+
+  return pendingContext;
+}
+
+// Forget the cached household (after joining or leaving one)
+export function clearHouseholdContext() {
+  cachedContext = null;
+  localStorage.removeItem(STORED_CONTEXT_KEY);
+}
@@ -0,0 +1,118 @@
+/**
+ * Get Kraken - Offline Store
+ *
+ * IndexedDB storage for offline mode: a read cache holding the last loaded
+ * catalogs, overrides, logs and wallet, and the durable outbox of mutations
+ * waiting to sync
+ */
+
+const DB_NAME = "get-kraken";
+const DB_VERSION = 1;
+const CACHE_STORE = "cache";
+const OUTBOX_STORE = "outbox";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("Offline storage is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          // Auto-increment keys keep the outbox in the order mutations were made
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () =>
+        reject(request.error ?? new Error("Failed to open offline storage"));
+    });
+    // Allow a retry after a failed open
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+// Run one request in its own transaction; resolves once the transaction commits
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error("Offline storage request failed"));
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Offline storage request aborted"));
+  });
+}
+
+export async function readCache<T>(key: string): Promise<T | undefined> {
+  return runRequest(CACHE_STORE, "readonly", (store) =>
+    store.get(key) as IDBRequest<T | undefined>
+  );
+}
+
+export async function writeCache<T>(key: string, value: T): Promise<void> {
+  await runRequest(CACHE_STORE, "readwrite", (store) => store.put(value, key));
+}
+
+// Outbox rows, oldest first
+export async function readOutbox<T>(): Promise<T[]> {
+  return runRequest(OUTBOX_STORE, "readonly", (store) => store.getAll() as IDBRequest<T[]>);
+}
+
+export async function addToOutbox<T>(row: T): Promise<number> {
+  const key = await runRequest(OUTBOX_STORE, "readwrite", (store) => store.add(row));
+  return key as number;
+}
+
+export async function removeFromOutbox(id: number): Promise<void> {
+  await runRequest(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
+}
+
+// Supabase reports a dropped connection as an error whose message comes from fetch
+const NETWORK_ERROR_PATTERN =
+  /failed to fetch|fetch failed|networkerror|network request failed|load failed/i;
+
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message =
+    err instanceof Error
+      ? err.message
+      : typeof err === "object" && err !== null && "message" in err
+        ? String(err.message)
+        : String(err);
+  return NETWORK_ERROR_PATTERN.test(message);
+}
+
+// Load from the network and keep a copy; when the network is unreachable,
+// fall back to the last copy (other errors still surface)
+export async function withOfflineCache<T>(key: string, load: () => Promise<T>): Promise<T> {
+  try {
+    const value = await load();
+    writeCache(key, value).catch((err) => {
+      console.error("Error caching offline data:", err);
+    });
+    return value;
+  } catch (err: unknown) {
+    if (!isNetworkError(err)) throw err;
+    const cached = await readCache<T>(key).catch(() => undefined);
+    if (cached === undefined) throw err;
+    return cached;
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Get Kraken - Mutation Outbox
+ *
+ * Completions, purchases, edits, goal allocations and wallet changes made
+ * while offline are written to a durable outbox and replayed in order once
+ * the device reconnects. Hooks
+ * register how each kind of mutation is replayed; replay stops at the first
+ * network failure so nothing is applied out of order.
+ */
+
+import type { Goal, Quest, QuestCheckIn, QuestLog, RewardBonus, ShopItem, ShopLog } from "../types";
+import { getHouseholdContext } from "./household";
+import {
+  readOutbox,
+  addToOutbox,
+  removeFromOutbox,
+  isNetworkError,
+} from "./offlineStore";
+
+export type OutboxMutation =
+  | {
+      kind: "complete_quest";
+      questId: string;
+      clientId: string; // makes the replay idempotent server-side
+      occurredAt: string;
+      name: string;
+      reward: number; // bonuses included
+      dollarAmount: number;
+      bonuses?: RewardBonus[];
+      checkIn?: QuestCheckIn;
+      unit?: string | null; // for showing the quantity while pending
+    }
+  | {
+      kind: "purchase_item";
+      itemId: string;
+      clientId: string;
+      occurredAt: string;
+      name: string;
+      price: number;
+      dollarAmount: number;
+    }
+  | {
+      kind: "update_quest";
+      id: string;
+      updates: Partial<Quest>;
+      base: Partial<Quest>; // values the edit started from, for conflict checks
+    }
+  | {
+      kind: "update_shop_item";
+      id: string;
+      updates: Partial<ShopItem>;
+      base: Partial<ShopItem>;
+    }
+  | {
+      kind: "update_goal";
+      id: string;
+      updates: Partial<Goal>;
+      base: Partial<Goal>;
+    }
+  | {
+      kind: "allocate_to_goal";
+      goalId: string;
+      amount: number; // negative releases
+      dollarAmount: number;
+    }
+  | {
+      kind: "adjust_wallet";
+      amount: number;
+      dollarAmount: number;
+    }
+  | {
+      kind: "reset_wallet";
+      // Balance shown when it was tapped; the replay is refused if the wallet has moved since
+      expectedTotal: number;
+      expectedDollarTotal: number;
+    };
+
+export type MutationKind = OutboxMutation["kind"];
+
+export interface OutboxEntry {
+  id: number;
+  userId: string;
+  householdId: string;
+  mutation: OutboxMutation;
+  createdAt: string;
+}
+
+// Something the replay could not apply as queued
+export interface SyncIssue {
+  entryId: number;
+  message: string;
+}
+
+export interface OutboxState {
+  entries: OutboxEntry[]; // current user's pending entries, oldest first
+  syncing: boolean;
+  issues: SyncIssue[];
+  lastSyncedAt: string | null;
+}
+
+// A handler applies one mutation and returns the names of fields it had to skip
+type ReplayHandler<K extends MutationKind> = (
+  mutation: Extract<OutboxMutation, { kind: K }>
+) => Promise<string[]>;
+
+type ReplayHandlers = { [K in MutationKind]?: ReplayHandler<K> };
+
+const handlers: ReplayHandlers = {};
+const listeners = new Set<(state: OutboxState) => void>();
+let state: OutboxState = {
+  entries: [],
+  syncing: false,
+  issues: [],
+  lastSyncedAt: null,
+};
+let replayPromise: Promise<void> | null = null;
+
+function setState(updates: Partial<OutboxState>) {
+  state = { ...state, ...updates };
+  listeners.forEach((listener) => listener(state));
+}
+
+export function subscribeOutbox(listener: (state: OutboxState) => void): () => void {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function registerReplayHandler<K extends MutationKind>(
+  kind: K,
+  handler: ReplayHandler<K>
+): () => void {
+  handlers[kind] = handler as ReplayHandlers[K];
+  return () => {
+    if (handlers[kind] === handler) delete handlers[kind];
+  };
+}
+
+function replayMutation(mutation: OutboxMutation): Promise<string[]> | null {
+  switch (mutation.kind) {
+    case "complete_quest":
+      return handlers.complete_quest?.(mutation) ?? null;
+    case "purchase_item":
+      return handlers.purchase_item?.(mutation) ?? null;
+    case "update_quest":
+      return handlers.update_quest?.(mutation) ?? null;
+    case "update_shop_item":
+      return handlers.update_shop_item?.(mutation) ?? null;
+    case "update_goal":
+      return handlers.update_goal?.(mutation) ?? null;
+    case "allocate_to_goal":
+      return handlers.allocate_to_goal?.(mutation) ?? null;
+    case "adjust_wallet":
+      return handlers.adjust_wallet?.(mutation) ?? null;
+    case "reset_wallet":
+      return handlers.reset_wallet?.(mutation) ?? null;
+  }
+}
+
+// Another account's entries stay queued until that account signs in again
+async function readUserEntries(): Promise<OutboxEntry[]> {
+  const context = await getHouseholdContext().catch(() => null);
+  if (!context) return [];
+  const rows = await readOutbox<OutboxEntry>();
+  return rows.filter((entry) => entry.userId === context.userId);
+}
+
+export async function loadOutbox(): Promise<void> {
+  try {
+    setState({ entries: await readUserEntries() });
+  } catch (err: unknown) {
+    console.error("Error loading offline outbox:", err);
+  }
+}
+
+export async function enqueueMutation(mutation: OutboxMutation): Promise<void> {
+  const context = await getHouseholdContext();
+  if (!context) {
+    throw new Error("User must be authenticated");
+  }
+
+  const row = {
+    userId: context.userId,
+    householdId: context.householdId,
+    mutation,
+    createdAt: new Date().toISOString(),
+  };
+  const id = await addToOutbox(row);
+  setState({ entries: [...state.entries, { ...row, id }] });
+}
+
+async function drainOutbox() {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+  const context = await getHouseholdContext().catch(() => null);
+  if (!context) return;
+  const entries = await readUserEntries();
+  if (entries.length === 0) return;
+
+  setState({ syncing: true });
+  let synced = 0;
+  try {
+    for (const entry of entries) {
+      // Made before the user moved to another household - it can't apply here
+      if (entry.householdId !== context.householdId) {
+        setState({
+          issues: [
+            ...state.issues,
+            { entryId: entry.id, message: "Dropped an offline change made in your previous household" },
+          ],
+        });
+        await removeFromOutbox(entry.id);
+        setState({ entries: state.entries.filter((pending) => pending.id !== entry.id) });
+        continue;
+      }
+
+      const replay = replayMutation(entry.mutation);
+      // Handlers register on mount; keep order rather than skipping ahead
+      if (!replay) break;
+
+      try {
+        const skipped = await replay;
+        if (skipped.length > 0) {
+          setState({
+            issues: [
+              ...state.issues,
+              {
+                entryId: entry.id,
+                message: `Kept changes from another device for: ${skipped.join(", ")}`,
+              },
+            ],
+          });
+        }
+      } catch (err: unknown) {
+        if (isNetworkError(err)) break;
+        // The server rejected it (e.g. the quest was deleted) - retrying won't help
+        console.error("Error replaying offline change:", err);
+        setState({
+          issues: [
+            ...state.issues,
+            {
+              entryId: entry.id,
+              message: err instanceof Error ? err.message : "An offline change could not be synced",
+            },
+          ],
+        });
+      }
+
+      await removeFromOutbox(entry.id);
+      synced += 1;
+      setState({ entries: state.entries.filter((pending) => pending.id !== entry.id) });
+    }
+  } finally {
+    setState({
+      syncing: false,
+      lastSyncedAt: synced > 0 ? new Date().toISOString() : state.lastSyncedAt,
+    });
+  }
+}
+
+// Replay queued mutations in order; concurrent calls share one run
+export function replayOutbox(): Promise<void> {
+  if (!replayPromise) {
+    replayPromise = drainOutbox()
+      .catch((err: unknown) => {
+        console.error("Error syncing offline changes:", err);
+      })
+      .finally(() => {
+        replayPromise = null;
+      });
+  }
+  return replayPromise;
+}
+
+export function dismissSyncIssues() {
+  setState({ issues: [] });
+}
+
+// Values of the edited fields before the edit, for the three-way merge on replay
+export function snapshotFields<T extends object>(source: T, updates: Partial<T>): Partial<T> {
+  const base: Partial<T> = {};
+  (Object.keys(updates) as (keyof T)[]).forEach((key) => {
+    base[key] = source[key];
+  });
+  return base;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Three-way merge for a replayed edit: a field is applied only while the
+// server still holds the value the edit started from; if another device
+// changed it in the meantime, that change wins and the field is reported.
+// Fields without a base value are applied as-is.
+export function resolveEditConflicts<T extends object>(
+  updates: Partial<T>,
+  base: Partial<T>,
+  current: Partial<T>
+): { apply: Partial<T>; conflicts: (keyof T)[] } {
+  const apply: Partial<T> = {};
+  const conflicts: (keyof T)[] = [];
+  (Object.keys(updates) as (keyof T)[]).forEach((key) => {
+    if (!(key in base) || sameValue(base[key], current[key]) || sameValue(updates[key], current[key])) {
+      apply[key] = updates[key];
+    } else {
+      conflicts.push(key);
+    }
+  });
+  return { apply, conflicts };
+}
+
+// Queued completions and purchases shown as logs until they sync
+export function toPendingQuestLogs(entries: OutboxEntry[]): QuestLog[] {
+  return entries.flatMap((entry) => {
+    const { mutation } = entry;
+    if (mutation.kind !== "complete_quest") return [];
+    return [
+      {
+        id: `pending-${mutation.clientId}`,
+        quest_id: mutation.questId,
+        user_id: entry.userId,
+        household_id: entry.householdId,
+        completed_at: mutation.occurredAt,
+        reward: mutation.reward,
+        dollar_amount: mutation.dollarAmount,
+        quest_name: mutation.name,
+        client_id: mutation.clientId,
+        bonuses: mutation.bonuses ?? null,
+        quantity: mutation.checkIn?.quantity ?? null,
+        unit: mutation.unit ?? null,
+        note: mutation.checkIn?.note ?? null,
+        mood: mutation.checkIn?.mood ?? null,
+      },
+    ];
+  });
+}
+
+export function toPendingShopLogs(entries: OutboxEntry[]): ShopLog[] {
+  return entries.flatMap((entry) => {
+    const { mutation } = entry;
+    if (mutation.kind !== "purchase_item") return [];
+    return [
+      {
+        id: `pending-${mutation.clientId}`,
+        shop_item_id: mutation.itemId,
+        user_id: entry.userId,
+        household_id: entry.householdId,
+        purchased_at: mutation.occurredAt,
+        price: mutation.price,
+        dollar_amount: mutation.dollarAmount,
+        item_name: mutation.name,
+        client_id: mutation.clientId,
+      },
+    ];
+  });
+}
+
+// Merge pending logs into loaded logs (newest first), dropping any whose
+// replay already reached the server
+export function mergePendingLogs<L extends { client_id?: string | null }>(
+  logs: L[],
+  pending: L[]
+): L[] {
+  const synced = new Set(logs.map((log) => log.client_id).filter(Boolean));
+  return [
+    ...pending.filter((log) => !synced.has(log.client_id)).reverse(),
+    ...logs,
+  ];
+}
+
+// True for the placeholder logs above, which can't be reversed or edited yet
+export function isPendingLog(log: { id: string }): boolean {
+  return log.id.startsWith("pending-");
+}
@@ -0,0 +1,76 @@
+/**
+ * Get Kraken - Photo Storage
+ *
+ * Uploads resized photos to the household's folder in Supabase Storage and
+ * removes them again when they are replaced
+ */
+
+import { supabase } from "./supabase";
+import { getHouseholdContext } from "./household";
+import { isImageFile, resizeImage } from "../utils/images";
+import { PHOTO_BUCKET, PHOTO_MAX_DIMENSION, PHOTO_JPEG_QUALITY } from "../constants";
+
+export type PhotoFolder = "quests" | "shop_items" | "proofs";
+
+// Resize, upload and return the public URL
+export async function uploadPhoto(file: File, folder: PhotoFolder): Promise<string> {
+  if (!isImageFile(file)) {
+    throw new Error("Please choose an image file");
+  }
+
+  const context = await getHouseholdContext();
+  if (!context) {
+    throw new Error("User must be authenticated");
+  }
+
+  const image = await resizeImage(file, PHOTO_MAX_DIMENSION, PHOTO_JPEG_QUALITY);
+  const path = `${context.householdId}/${folder}/${crypto.randomUUID()}.jpg`;
+  const { error } = await supabase.uploadFile(PHOTO_BUCKET, path, image, {
+    cacheControl: "31536000", // paths are never reused
+    contentType: "image/jpeg",
+  });
+  if (error) throw new Error(error.message);
+
+  return supabase.getPublicUrl(PHOTO_BUCKET, path).data.publicUrl;
+}
+
+// Storage path of one of our photo URLs, or null for anything else
+function photoPath(url: string): string | null {
+  const marker = `/storage/v1/object/public/${PHOTO_BUCKET}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length));
+}
+
+// Best effort - a leftover file is harmless, so failures are only logged
+export async function deletePhoto(url: string | null | undefined): Promise<void> {
+  const path = url ? photoPath(url) : null;
+  if (!path) return;
+  try {
+    const { error } = await supabase.deleteFile(PHOTO_BUCKET, [path]);
+    if (error) throw new Error(error.message);
+  } catch (err: unknown) {
+    console.error("Error deleting photo:", err);
+  }
+}
+
+// What a form wants to do with a photo when it is saved
+export type PhotoSelection =
+  | { kind: "keep" }
+  | { kind: "replace"; file: File }
+  | { kind: "remove" };
+
+// Uploads a replacement if needed and returns the photo URL to save
+export async function resolvePhotoSelection(
+  selection: PhotoSelection,
+  currentUrl: string | null,
+  folder: PhotoFolder
+): Promise<string | null> {
+  switch (selection.kind) {
+    case "keep":
+      return currentUrl;
+    case "replace":
+      return uploadPhoto(selection.file, folder);
+    case "remove":
+      return null;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Get Kraken - Reminder Service Worker Bridge
+ *
+ * Registers the reminder service worker and hands it locally computed reminders
+ */
+
+import type { Reminder } from "../utils/schedules";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export function remindersSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "Notification" in window
+  );
+}
+
+// Register once at startup; failures only disable reminders
+export async function registerReminderWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!remindersSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (err) {
+    console.error("Error registering reminder service worker:", err);
+    return null;
+  }
+}
+
+// Ask for notification permission (must be called from a user gesture)
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!remindersSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+async function postToWorker(message: object) {
+  if (!remindersSupported()) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+}
+
+// Replace every scheduled reminder with this list
+export async function scheduleReminders(reminders: Reminder[]) {
+  if (!remindersSupported() || Notification.permission !== "granted") return;
+  await postToWorker({ type: "schedule-reminders", reminders });
+}
+
+export async function clearReminders() {
+  await postToWorker({ type: "clear-reminders" });
+}
@@ -0,0 +1,27 @@
+/**
+ * Get Kraken - Theme
+ *
+ * Applies the light/dark theme by toggling the "dark" class on the document,
+ * following the device when the preference is "system"
+ */
+
+import type { ThemePreference } from "../utils/preferences";
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Applies the theme and, for "system", keeps following the device.
+ * Returns a cleanup that stops following it.
+ */
+export function applyTheme(theme: ThemePreference): () => void {
+  const media = window.matchMedia(DARK_QUERY);
+  const update = () => {
+    const dark = theme === "dark" || (theme === "system" && media.matches);
+    document.documentElement.classList.toggle("dark", dark);
+  };
+
+  update();
+  if (theme !== "system") return () => {};
+  media.addEventListener("change", update);
+  return () => media.removeEventListener("change", update);
+}
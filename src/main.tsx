@@ -6,6 +6,7 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import { AuthGate } from './components/AuthGate.tsx'
+import { registerReminderWorker } from './lib/reminders'
 
 const rootElement = document.getElementById('root')
 if (!rootElement) {
@@ -19,3 +20,6 @@ createRoot(rootElement).render(
     </AuthGate>
   </StrictMode>,
 )
+
+// Quest reminders are shown by a service worker (no push service needed)
+registerReminderWorker()
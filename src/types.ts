@@ -1,26 +1,55 @@
 /**
  * Get Kraken - Core Types
  *
- * Type definitions for quests, shop items, wallet, and logs
+ * Type definitions for quests, shop items, wallet, logs, and households
  */
 
-export type Tag = "work" | "finance" | "home" | "health" | "relationship" | "social life";
-export type ShopTag =
-  | "hobbies"
-  | "social life"
-  | "relationship"
-  | "travel"
-  | "family"
-  | "little treat";
+// Tags are household data (see TagDefinition); items store the tag keys
+export type Tag = string;
+export type ShopTag = string;
+
+export type TagScope = "quest" | "shop_item";
+
+export interface TagDefinition {
+  id: string;
+  household_id: string;
+  scope: TagScope;
+  key: string; // stored in item tags; stays the same when the label is renamed
+  label: string;
+  color: string; // TagColor from utils/tagPalette
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// How often a quest is expected to be completed (weekdays: 0 = Sunday)
+export type QuestCadence =
+  | { type: "daily" }
+  | { type: "weekly" }
+  | { type: "times_per_week"; times: number }
+  | { type: "weekdays"; days: number[] };
+
+// When a quest is due, in local time ("HH:MM"); drives the Today list and reminders
+export type QuestSchedule =
+  | { type: "daily"; time: string }
+  | { type: "weekdays"; days: number[]; time: string } // 0 = Sunday
+  | { type: "monthly"; day: number; time: string }; // 1-31, clamped to month length
 
 export interface Quest {
   id: string;
   name: string;
   tags: Tag[];
   reward: number; // sea dollars earned per completion
-  dollar_amount: number; // real dollars saved per completion
+  dollar_amount: number; // real money saved per completion, in cents (household currency)
   completion_count: number;
+  cadence?: QuestCadence | null; // null/undefined means daily
+  grace_periods?: number; // missed periods a streak can skip without breaking
+  schedule?: QuestSchedule | null; // null means no due time or reminders
+  unit?: string | null; // what a completion is measured in ("miles"); null means no quantity
+  reward_per_unit?: number | null; // extra sea dollars per unit logged
+  photo_url?: string | null;
   created_by?: string | null; // user ID who created this quest (null for seeded quests, optional for backwards compatibility)
+  household_id?: string | null; // household that owns this quest (null for seeded quests)
   created_at: string;
   updated_at: string;
 }
@@ -30,57 +59,238 @@ export interface ShopItem {
   name: string;
   tags: ShopTag[];
   price: number; // sea dollars cost
-  dollar_amount: number; // real dollars spent per purchase
+  dollar_amount: number; // real money spent per purchase, in cents
   purchase_count: number;
+  photo_url?: string | null;
   created_by?: string | null; // user ID who created this item (null for seeded items, optional for backwards compatibility)
+  household_id?: string | null; // household that owns this item (null for seeded items)
+  created_at: string;
+  updated_at: string;
+}
+
+export type BudgetPeriod = "week" | "month";
+
+// Spending limit on one shop tag or one item (exactly one of tag_key / shop_item_id)
+export interface ShopBudget {
+  id: string;
+  household_id: string;
+  tag_key: string | null;
+  shop_item_id: string | null;
+  period: BudgetPeriod;
+  coin_limit: number | null; // sea dollars per period
+  dollar_limit: number | null; // real money per period, in cents
+  cooldown_hours: number | null; // between purchases of the same item
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavingsBucket {
+  id: string;
+  household_id: string;
+  name: string; // e.g. "Ski fund"
   created_at: string;
   updated_at: string;
 }
 
+// Real money moved into (positive) or out of (negative) a savings bucket
+export interface SavingsTransfer {
+  id: string;
+  household_id: string;
+  bucket_id: string;
+  user_id: string; // member who logged it
+  amount: number; // in cents
+  transferred_on: string; // YYYY-MM-DD
+  note: string | null;
+  external_id: string | null; // bank statement line it was imported from
+  created_at: string;
+}
+
 export interface UserQuestOverride {
   id: string;
-  user_id: string;
+  user_id: string; // member who last wrote the override
+  household_id: string;
   quest_id: string;
   name: string | null;
   tags: Tag[] | null;
   reward: number | null;
   dollar_amount: number | null;
+  cadence: QuestCadence | null;
+  grace_periods: number | null;
+  schedule: QuestSchedule | null;
+  unit: string | null;
+  reward_per_unit: number | null;
+  photo_url: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export interface UserShopItemOverride {
   id: string;
-  user_id: string;
+  user_id: string; // member who last wrote the override
+  household_id: string;
   shop_item_id: string;
   name: string | null;
   tags: ShopTag[] | null;
   price: number | null;
   dollar_amount: number | null;
+  photo_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PreferenceItemType = "quest" | "shop_item";
+
+// Personal (not household) star and manual order for a quest or shop item
+export interface UserItemPreference {
+  id: string;
+  user_id: string;
+  item_type: PreferenceItemType;
+  item_id: string; // quests.id or shop_items.id
+  starred: boolean;
+  sort_position: number | null; // null until the user reorders
   created_at: string;
   updated_at: string;
 }
 
 export interface Wallet {
   id: string | null; // nullable for backwards compatibility, but not used as primary key
-  user_id: string; // user who owns this wallet (primary key)
+  user_id: string; // member who created this wallet
+  household_id: string; // household sharing this wallet (one wallet per household)
   total: number; // sea dollars total (can be negative)
-  dollar_total: number; // real dollars total (can be negative)
+  dollar_total: number; // real money total in cents (can be negative)
+  updated_at: string;
+}
+
+// Outcome of completing a quest or buying an item
+export interface LedgerResult {
+  wallet: Wallet | null; // authoritative wallet, or null when queued offline
+  clientId: string; // client_id of the log the action creates
+  bonuses?: RewardBonus[]; // reward rule bonuses credited with a completion
+}
+
+export type WalletTransactionKind =
+  | "quest_completion"
+  | "purchase"
+  | "adjustment"
+  | "reset"
+  | "undo";
+
+export interface WalletTransaction {
+  id: string;
+  user_id: string; // member who caused this entry
+  household_id: string; // household whose wallet this entry belongs to
+  kind: WalletTransactionKind;
+  amount: number; // signed sea dollar delta
+  dollar_amount: number; // signed real money delta, in cents
+  source_id: string | null; // quest_logs.id / shop_logs.id that caused this entry
+  unit_amount: number | null; // reward or price in effect at that moment
+  unit_dollar_amount: number | null; // dollar amount in effect at that moment
+  note: string | null;
+  created_at: string;
+}
+
+// Per-user rules that add bonus sea dollars on top of a quest's reward
+export type RewardRuleConfig =
+  | { kind: "streak_multiplier"; params: { min_streak: number; multiplier: number } }
+  | { kind: "first_of_day"; params: { amount: number } }
+  | { kind: "weekday_multiplier"; params: { weekdays: number[]; multiplier: number } } // 0 = Sunday
+  | { kind: "tag_combo"; params: { tag: Tag; amount: number } }; // every quest with the tag done today
+
+export type RewardRuleKind = RewardRuleConfig["kind"];
+
+export type RewardRule = RewardRuleConfig & {
+  id: string;
+  user_id: string;
+  household_id: string;
+  enabled: boolean;
+  created_at: string;
   updated_at: string;
+};
+
+// One line of a completion's bonus, as credited and recorded on the log
+export interface RewardBonus {
+  rule_id: string;
+  label: string;
+  amount: number; // sea dollars
+}
+
+// Optional reflection recorded with a completion
+export interface QuestCheckIn {
+  quantity?: number | null;
+  note?: string | null;
+  mood?: number | null;
+}
+
+// A member's record of an achievement they unlocked (definitions live in utils/achievements)
+export interface UserAchievement {
+  id: string;
+  user_id: string;
+  household_id: string;
+  achievement_id: string;
+  unlocked_at: string;
 }
 
 export interface QuestLog {
   id: string;
   quest_id: string;
-  user_id: string; // user who completed this quest
+  user_id: string; // member who completed this quest
+  household_id?: string | null;
   completed_at: string;
+  reversed_at?: string | null; // set when the completion was undone (refund is journaled)
+  // Snapshot of the values applied at completion time (null only on un-backfilled legacy rows)
+  reward?: number | null;
+  dollar_amount?: number | null;
+  quest_name?: string | null;
+  bonuses?: RewardBonus[] | null; // itemized bonuses, already included in reward
+  quantity?: number | null; // how much was done, in unit
+  unit?: string | null; // snapshot of the quest's unit
+  reward_per_unit?: number | null; // snapshot, so editing quantity later re-prices it the same way
+  note?: string | null;
+  mood?: number | null; // 1 (rough) to 5 (great)
+  client_id?: string | null; // set when the completion was queued offline and replayed
+  proof_photo_url?: string | null; // optional photo attached after completing
 }
 
 export interface ShopLog {
   id: string;
   shop_item_id: string;
-  user_id: string; // user who purchased this item
+  user_id: string; // member who purchased this item
+  household_id?: string | null;
   purchased_at: string;
+  reversed_at?: string | null; // set when the purchase was undone (refund is journaled)
+  // Snapshot of the values applied at purchase time (null only on un-backfilled legacy rows)
+  price?: number | null;
+  dollar_amount?: number | null;
+  item_name?: string | null;
+  client_id?: string | null; // set when the purchase was queued offline and replayed
+}
+
+// One day of history before the loaded log window, totalled per quest and
+// member by the server (day numbers are in the user's time zone)
+export interface QuestLogDay {
+  quest_id: string;
+  user_id: string;
+  quest_name: string | null; // latest name snapshot
+  day: number;
+  count: number;
+  reward: number;
+  dollar_amount: number;
+}
+
+export interface ShopLogDay {
+  shop_item_id: string;
+  user_id: string;
+  day: number;
+  count: number;
+  price: number;
+  dollar_amount: number;
+}
+
+// Everything before the loaded window, so streak records, achievements and
+// charts don't stop at its edge
+export interface OlderLogHistory {
+  questDays: QuestLogDay[];
+  shopDays: ShopLogDay[];
 }
 
 export interface QuestWithLogs extends Quest {
@@ -104,18 +314,63 @@ export interface WeeklyRecap {
 
 export interface QuestStreak {
   quest_id: string;
-  current_streak: number;
+  quest_name: string | null; // name snapshot from the latest completion
+  current_streak: number; // consecutive satisfied periods (days, weeks, or scheduled days)
+  longest_streak: number;
+  period_unit: "day" | "week";
+  due_today: boolean;
+  completed_this_period: number;
+  required_this_period: number;
   last_completed: string | null;
 }
 
 export interface Goal {
   id: string;
-  user_id: string; // user who owns this goal
+  user_id: string; // member who created this goal
+  household_id: string;
   name: string;
   target_amount: number;
-  dollar_amount: number | null; // optional dollar amount target
+  dollar_amount: number | null; // optional real money target, in cents
+  allocated_amount: number; // sand dollars earmarked from the wallet for this goal
+  allocated_dollar_amount: number;
+  deadline: string | null; // YYYY-MM-DD
+  priority: number; // lower comes first when projecting
+  milestones: number[]; // custom thresholds (sand dollars); empty uses 25/50/75/100%
+  celebrated_milestone: number; // highest milestone already celebrated
   is_completed: boolean;
   completed_at: string | null;
   created_at: string;
   updated_at: string;
 }
+
+export type HouseholdRole = "owner" | "member";
+
+export interface Household {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+  prevent_negative_balance?: boolean; // block purchases the wallet can't cover (default false)
+  currency?: string; // ISO 4217 code real-money amounts are in (default USD)
+  coins_per_unit?: number | null; // coins one unit of currency is worth; null keeps them independent
+}
+
+export interface HouseholdMember {
+  household_id: string;
+  user_id: string;
+  role: HouseholdRole; // owners can invite, remove members, reset the wallet and edit amounts
+  email: string | null;
+  joined_at: string;
+}
+
+export type HouseholdInviteStatus = "pending" | "accepted" | "declined" | "revoked";
+
+export interface HouseholdInvite {
+  id: string;
+  household_id: string;
+  email: string;
+  invited_by: string | null;
+  status: HouseholdInviteStatus;
+  created_at: string;
+  responded_at: string | null;
+}
@@ -0,0 +1,158 @@
+/**
+ * Get Kraken - Achievement Utilities
+ *
+ * Declarative achievement definitions and their progress against the
+ * household's logs and wallet. Pure functions of (logs, older-history day
+ * totals, counts, wallet, now, time zone) so an achievement unlocks the same
+ * way on every device.
+ */
+
+import type { OlderLogHistory, Quest, QuestLog, ShopLog, Wallet } from "../types";
+import { toDayNumber } from "./dates";
+import { calculateStreak, toDayCounts } from "./streaks";
+import { toMajorUnits } from "./money";
+
+export type AchievementCriteria =
+  | { metric: "completions"; target: number; questMatch?: string } // questMatch: part of the quest name
+  | { metric: "daily_streak"; target: number } // days in a row with any completion
+  | { metric: "dollars_saved"; target: number } // wallet dollar balance
+  | { metric: "days_without_purchase"; target: number };
+
+export interface Achievement {
+  id: string; // stored in user_achievements - never rename
+  icon: string;
+  name: string;
+  description: string;
+  criteria: AchievementCriteria;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first_quest",
+    icon: "🐣",
+    name: "First Quest",
+    description: "Complete your first quest",
+    criteria: { metric: "completions", target: 1 },
+  },
+  {
+    id: "streak_30_days",
+    icon: "🔥",
+    name: "On Fire",
+    description: "Complete a quest every day for 30 days",
+    criteria: { metric: "daily_streak", target: 30 },
+  },
+  {
+    id: "gym_100",
+    icon: "🏋️",
+    name: "Gym Regular",
+    description: "Complete 100 gym classes",
+    criteria: { metric: "completions", target: 100, questMatch: "gym" },
+  },
+  {
+    id: "saved_1000_dollars",
+    icon: "💰",
+    name: "Big Saver",
+    description: "Save $1000",
+    criteria: { metric: "dollars_saved", target: 1000 },
+  },
+  {
+    id: "no_spend_week",
+    icon: "🧘",
+    name: "Hold the Line",
+    description: "Buy nothing for a week",
+    criteria: { metric: "days_without_purchase", target: 7 },
+  },
+];
+
+export interface AchievementInput {
+  questLogs: Pick<QuestLog, "quest_id" | "completed_at" | "quest_name">[]; // loaded history
+  shopLogs: Pick<ShopLog, "purchased_at">[]; // loaded history
+  olderHistory?: OlderLogHistory; // day totals from before the loaded history
+  completionCounts: Record<string, number>; // all-time, per quest
+  quests: Pick<Quest, "id" | "name">[];
+  wallet: Pick<Wallet, "dollar_total"> | null;
+  currency: string; // the wallet's money is in minor units of this
+  now: Date;
+  timeZone: string;
+}
+
+export interface AchievementProgress {
+  achievement: Achievement;
+  current: number; // capped at the target
+  target: number;
+  met: boolean;
+}
+
+// Completions of quests whose current or logged name contains `match`
+function countMatchingCompletions(input: AchievementInput, match: string): number {
+  const needle = match.toLowerCase();
+  const matches = (name: string | null | undefined) => !!name && name.toLowerCase().includes(needle);
+  const questIds = new Set(input.quests.filter((quest) => matches(quest.name)).map((quest) => quest.id));
+  // Quests removed from the catalog are only known by their logs' snapshot names
+  input.questLogs.forEach((log) => {
+    if (matches(log.quest_name)) questIds.add(log.quest_id);
+  });
+  input.olderHistory?.questDays.forEach((entry) => {
+    if (matches(entry.quest_name)) questIds.add(entry.quest_id);
+  });
+  return [...questIds].reduce((sum, id) => sum + (input.completionCounts[id] || 0), 0);
+}
+
+// Whole days since the last purchase, counted from the first activity when
+// nothing was ever bought - a brand new household hasn't held off for a week
+function daysWithoutPurchase(input: AchievementInput): number {
+  const { now, timeZone, olderHistory } = input;
+  const purchaseDays = [
+    ...input.shopLogs.map((log) => toDayNumber(log.purchased_at, timeZone)),
+    ...(olderHistory?.shopDays.map((entry) => entry.day) ?? []),
+  ];
+  const activityDays = [
+    ...input.questLogs.map((log) => toDayNumber(log.completed_at, timeZone)),
+    ...(olderHistory?.questDays.map((entry) => entry.day) ?? []),
+  ];
+  const anchor =
+    purchaseDays.length > 0
+      ? Math.max(...purchaseDays)
+      : activityDays.length > 0
+        ? Math.min(...activityDays)
+        : null;
+  if (anchor === null) return 0;
+  return Math.max(0, toDayNumber(now, timeZone) - anchor);
+}
+
+function measure(criteria: AchievementCriteria, input: AchievementInput): number {
+  switch (criteria.metric) {
+    case "completions":
+      return criteria.questMatch
+        ? countMatchingCompletions(input, criteria.questMatch)
+        : Object.values(input.completionCounts).reduce((sum, count) => sum + count, 0);
+    case "daily_streak":
+      return calculateStreak(
+        input.questLogs.map((log) => log.completed_at),
+        { type: "daily" },
+        {
+          now: input.now,
+          timeZone: input.timeZone,
+          olderDayCounts: toDayCounts(input.olderHistory?.questDays ?? []),
+        }
+      ).longest_streak;
+    case "dollars_saved":
+      return Math.floor(toMajorUnits(input.wallet?.dollar_total ?? 0, input.currency));
+    case "days_without_purchase":
+      return daysWithoutPurchase(input);
+  }
+}
+
+/**
+ * Progress towards every achievement
+ */
+export function getAchievementProgress(
+  input: AchievementInput,
+  achievements: Achievement[] = ACHIEVEMENTS
+): AchievementProgress[] {
+  return achievements.map((achievement) => {
+    const { target } = achievement.criteria;
+    const value = measure(achievement.criteria, input);
+    return { achievement, current: Math.min(value, target), target, met: value >= target };
+  });
+}
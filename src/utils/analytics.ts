@@ -0,0 +1,252 @@
+/**
+ * Get Kraken - Analytics Utilities
+ *
+ * Aggregates quest and shop logs into the history charts: earned/spent/net per
+ * period, top quests, per-day activity and the savings rate. Pure functions of
+ * (logs, older-history day totals, now, time zone) so results are reproducible.
+ */
+
+import type { OlderLogHistory, QuestLog, QuestLogDay, ShopLog } from "../types";
+import { fromDayNumber, toDayNumber, toWeekNumber } from "./dates";
+
+export type Granularity = "day" | "week" | "month";
+export type Currency = "sea" | "dollars";
+export type TopQuestMetric = "count" | "earnings" | "dollars";
+
+export interface AnalyticsOptions {
+  now: Date;
+  timeZone: string;
+  weekStartsOn?: number; // 0 = Sunday
+}
+
+export interface AmountTotals {
+  earned: number;
+  spent: number;
+  net: number;
+}
+
+export interface PeriodBucket {
+  key: number; // day, week or month number
+  startDay: number; // day number of the period's first day
+  sea: AmountTotals;
+  dollars: AmountTotals;
+}
+
+export interface TopQuest {
+  questId: string;
+  name: string;
+  count: number;
+  earned: number;
+  earnedDollars: number;
+}
+
+export interface DayActivity {
+  day: number; // day number
+  count: number;
+}
+
+// Months since year 0, so consecutive months are consecutive numbers
+function toMonthNumber(dayNumber: number): number {
+  const calendar = fromDayNumber(dayNumber);
+  return calendar.getUTCFullYear() * 12 + calendar.getUTCMonth();
+}
+
+function toPeriodKey(dayNumber: number, granularity: Granularity, weekStartsOn: number): number {
+  if (granularity === "day") return dayNumber;
+  if (granularity === "week") return toWeekNumber(dayNumber, weekStartsOn);
+  return toMonthNumber(dayNumber);
+}
+
+// Inverse of toPeriodKey: the first day of a period
+function toPeriodStart(key: number, granularity: Granularity, weekStartsOn: number): number {
+  if (granularity === "day") return key;
+  if (granularity === "week") return key * 7 + weekStartsOn - 4;
+  return toDayNumber(new Date(Date.UTC(Math.floor(key / 12), key % 12, 1)), "UTC");
+}
+
+const emptyTotals = (): AmountTotals => ({ earned: 0, spent: 0, net: 0 });
+
+const NO_OLDER_HISTORY: OlderLogHistory = { questDays: [], shopDays: [] };
+
+/**
+ * Earned, spent and net totals for the last `periods` days, weeks or months
+ * (oldest first, the current period last). Periods without activity are
+ * included as zeros so charts keep an even time axis.
+ */
+export function bucketActivity(
+  questLogs: QuestLog[],
+  shopLogs: ShopLog[],
+  granularity: Granularity,
+  periods: number,
+  options: AnalyticsOptions,
+  olderHistory: OlderLogHistory = NO_OLDER_HISTORY
+): PeriodBucket[] {
+  const { now, timeZone, weekStartsOn = 0 } = options;
+  const currentKey = toPeriodKey(toDayNumber(now, timeZone), granularity, weekStartsOn);
+  const firstKey = currentKey - periods + 1;
+
+  const buckets: PeriodBucket[] = Array.from({ length: Math.max(periods, 0) }, (_, index) => {
+    const key = firstKey + index;
+    return {
+      key,
+      startDay: toPeriodStart(key, granularity, weekStartsOn),
+      sea: emptyTotals(),
+      dollars: emptyTotals(),
+    };
+  });
+
+  const bucketForDay = (day: number) => {
+    const key = toPeriodKey(day, granularity, weekStartsOn);
+    return key >= firstKey && key <= currentKey ? buckets[key - firstKey] : null;
+  };
+  const bucketFor = (date: string) => bucketForDay(toDayNumber(date, timeZone));
+
+  // Amounts come from each log's snapshot, so later edits don't rewrite history
+  questLogs.forEach((log) => {
+    if (log.reversed_at) return;
+    const bucket = bucketFor(log.completed_at);
+    if (!bucket) return;
+    bucket.sea.earned += log.reward ?? 0;
+    bucket.dollars.earned += log.dollar_amount ?? 0;
+  });
+
+  shopLogs.forEach((log) => {
+    if (log.reversed_at) return;
+    const bucket = bucketFor(log.purchased_at);
+    if (!bucket) return;
+    bucket.sea.spent += log.price ?? 0;
+    bucket.dollars.spent += log.dollar_amount ?? 0;
+  });
+
+  // Older history arrives already totalled per day
+  olderHistory.questDays.forEach((entry) => {
+    const bucket = bucketForDay(entry.day);
+    if (!bucket) return;
+    bucket.sea.earned += entry.reward;
+    bucket.dollars.earned += entry.dollar_amount;
+  });
+
+  olderHistory.shopDays.forEach((entry) => {
+    const bucket = bucketForDay(entry.day);
+    if (!bucket) return;
+    bucket.sea.spent += entry.price;
+    bucket.dollars.spent += entry.dollar_amount;
+  });
+
+  buckets.forEach((bucket) => {
+    bucket.sea.net = bucket.sea.earned - bucket.sea.spent;
+    bucket.dollars.net = bucket.dollars.earned - bucket.dollars.spent;
+  });
+
+  return buckets;
+}
+
+/**
+ * Share of each period's earnings that was kept (net / earned), or null for
+ * periods with nothing earned. Negative when spending outpaced earning.
+ */
+export function calculateSavingsRates(buckets: PeriodBucket[], currency: Currency): (number | null)[] {
+  return buckets.map((bucket) => {
+    const totals = bucket[currency];
+    return totals.earned > 0 ? totals.net / totals.earned : null;
+  });
+}
+
+/**
+ * Most completed (or highest earning) quests, ties broken by the other metric
+ * and then by name. Names fall back to the log snapshot for deleted quests.
+ */
+export function getTopQuests(
+  questLogs: QuestLog[],
+  questNames: Map<string, string>,
+  metric: TopQuestMetric,
+  limit: number = 5,
+  olderQuestDays: QuestLogDay[] = []
+): TopQuest[] {
+  const totals = new Map<string, TopQuest>();
+  const add = (
+    questId: string,
+    loggedName: string | null | undefined,
+    count: number,
+    earned: number,
+    earnedDollars: number
+  ) => {
+    let entry = totals.get(questId);
+    if (!entry) {
+      entry = {
+        questId,
+        name: questNames.get(questId) ?? loggedName ?? "Deleted quest",
+        count: 0,
+        earned: 0,
+        earnedDollars: 0,
+      };
+      totals.set(questId, entry);
+    }
+    entry.count += count;
+    entry.earned += earned;
+    entry.earnedDollars += earnedDollars;
+  };
+
+  questLogs.forEach((log) => {
+    if (log.reversed_at) return;
+    add(log.quest_id, log.quest_name, 1, log.reward ?? 0, log.dollar_amount ?? 0);
+  });
+  olderQuestDays.forEach((entry) => {
+    add(entry.quest_id, entry.quest_name, entry.count, entry.reward, entry.dollar_amount);
+  });
+
+  const primary = (quest: TopQuest) =>
+    metric === "count" ? quest.count : metric === "dollars" ? quest.earnedDollars : quest.earned;
+  const secondary = (quest: TopQuest) => (metric === "count" ? quest.earned : quest.count);
+
+  return [...totals.values()]
+    .sort(
+      (a, b) =>
+        primary(b) - primary(a) || secondary(b) - secondary(a) || a.name.localeCompare(b.name)
+    )
+    .slice(0, Math.max(limit, 0));
+}
+
+/**
+ * Completions per day for the last `days` days (oldest first, today last),
+ * for one quest or - with questId null - all of them
+ */
+export function getDailyActivity(
+  questLogs: QuestLog[],
+  questId: string | null,
+  days: number,
+  options: AnalyticsOptions,
+  olderQuestDays: QuestLogDay[] = []
+): DayActivity[] {
+  const today = toDayNumber(options.now, options.timeZone);
+  const firstDay = today - days + 1;
+  const activity: DayActivity[] = Array.from({ length: Math.max(days, 0) }, (_, index) => ({
+    day: firstDay + index,
+    count: 0,
+  }));
+
+  questLogs.forEach((log) => {
+    if (log.reversed_at || (questId && log.quest_id !== questId)) return;
+    const day = toDayNumber(log.completed_at, options.timeZone);
+    if (day >= firstDay && day <= today) activity[day - firstDay].count += 1;
+  });
+
+  olderQuestDays.forEach((entry) => {
+    if (questId && entry.quest_id !== questId) return;
+    if (entry.day >= firstDay && entry.day <= today) activity[entry.day - firstDay].count += entry.count;
+  });
+
+  return activity;
+}
+
+/**
+ * Short axis label for a period ("Mar 4", "Mar 2025")
+ */
+export function formatPeriodLabel(startDay: number, granularity: Granularity): string {
+  return fromDayNumber(startDay).toLocaleDateString(
+    "en-US",
+    granularity === "month"
+      ? { month: "short", year: "numeric", timeZone: "UTC" }
+      : { month: "short", day: "numeric", timeZone: "UTC" }
+  );
+}
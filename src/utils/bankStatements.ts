@@ -0,0 +1,291 @@
+/**
+ * Get Kraken - Bank Statement Parsing
+ *
+ * Reads a savings account's CSV or OFX statement into transactions that can be
+ * logged as savings transfers. Everything happens on the device; the file is
+ * never uploaded. Each transaction gets a stable external_id, so importing
+ * the same (or an overlapping) statement again skips lines already logged.
+ */
+
+import { getMinorUnitDigits, parseMoney } from "./money";
+
+export interface BankTransaction {
+  external_id: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // cents; positive for money in
+  description: string;
+}
+
+export interface ParsedStatement {
+  transactions: BankTransaction[];
+  errors: string[];
+}
+
+const MAX_REPORTED_ERRORS = 10;
+const HEADER_SEARCH_ROWS = 15; // banks often put account details above the header
+
+// ---- Fields ----
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function toDateKey(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Statement dates: 2024-03-05, 20240305, 05.03.2024, and 03/05/2024 - slashed
+ * dates are month first unless dayFirst (some line has a "month" over 12)
+ */
+function parseStatementDate(value: string, dayFirst: boolean): string | null {
+  const text = value.trim();
+  let match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(text);
+  if (match) return toDateKey(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = /^(\d{1,2})\.(\d{1,2})\.(\d{2,4})$/.exec(text);
+  if (match) return toDateKey(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = /^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/.exec(text);
+  if (!match) return null;
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  return dayFirst
+    ? toDateKey(Number(match[3]), second, first)
+    : toDateKey(Number(match[3]), first, second);
+}
+
+const isDayFirst = (value: string) => {
+  const match = /^(\d{1,2})[/-]\d{1,2}[/-]\d{2,4}$/.exec(value.trim());
+  return match !== null && Number(match[1]) > 12;
+};
+
+/**
+ * Statement amounts: "-12.50", "$-12.50", "$1,234.56", "1.234,56 €", "(12.50)", "12.50-"
+ */
+function parseStatementAmount(value: string, currency: string): number | null {
+  let text = value.trim();
+  // A minus sign can sit on either side of a currency symbol or code
+  const negative = /^\(.*\)$/.test(text) || /^[^\d]*[-−]/.test(text) || /[-−][^\d]*$/.test(text);
+  text = text.replace(/[^\d.,]/g, "");
+  if (!text) return null;
+
+  // The last separator is the decimal point if it's the only one of its kind
+  // and has no more digits after it than the currency; others group thousands
+  const lastSeparator = Math.max(text.lastIndexOf("."), text.lastIndexOf(","));
+  const decimals = text.length - lastSeparator - 1;
+  const isDecimal =
+    lastSeparator !== -1 &&
+    text.indexOf(text[lastSeparator]) === lastSeparator &&
+    decimals > 0 &&
+    decimals <= getMinorUnitDigits(currency);
+  const whole = (isDecimal ? text.slice(0, lastSeparator) : text).replace(/[.,]/g, "");
+  const normalized = isDecimal ? `${whole}.${text.slice(lastSeparator + 1)}` : whole;
+
+  const minor = parseMoney(normalized, currency);
+  if (minor === null) return null;
+  return negative ? -minor : minor;
+}
+
+// Lines without an id are told apart by their details and how many
+// identical lines came before them in the file
+function withFallbackIds(
+  rows: Omit<BankTransaction, "external_id">[],
+  prefix: string,
+  ids: (string | null)[]
+): BankTransaction[] {
+  const seen = new Map<string, number>();
+  return rows.map((row, index) => {
+    const id = ids[index];
+    if (id) return { ...row, external_id: `${prefix}:${id}` };
+    const key = `${row.date}:${row.amount}:${row.description.toLowerCase()}`;
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    return { ...row, external_id: `${prefix}:${key}:${occurrence}` };
+  });
+}
+
+// ---- CSV ----
+
+function detectDelimiter(text: string): string {
+  const firstLines = text.split(/\r?\n/).slice(0, HEADER_SEARCH_ROWS).join("\n");
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: firstLines.split(delimiter).length,
+  }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+}
+
+// RFC 4180 rows: quoted fields may hold delimiters, newlines and "" escapes
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z ]/g, "").trim();
+
+const HEADER_NAMES = {
+  date: ["date", "transaction date", "posted date", "posting date", "booking date", "value date"],
+  amount: ["amount", "transaction amount", "value"],
+  credit: ["credit", "credits", "deposit", "deposits", "money in", "paid in"],
+  debit: ["debit", "debits", "withdrawal", "withdrawals", "money out", "paid out"],
+  description: ["description", "memo", "payee", "name", "details", "narrative", "transaction description"],
+  id: ["id", "transaction id", "reference", "reference number", "fitid"],
+};
+
+type CsvColumns = Partial<Record<keyof typeof HEADER_NAMES, number>>;
+
+function findColumns(headers: string[]): CsvColumns {
+  const normalized = headers.map(normalizeHeader);
+  const columns: CsvColumns = {};
+  (Object.keys(HEADER_NAMES) as (keyof typeof HEADER_NAMES)[]).forEach((field) => {
+    const index = normalized.findIndex((header) => HEADER_NAMES[field].includes(header));
+    if (index !== -1) columns[field] = index;
+  });
+  return columns;
+}
+
+function parseCsvStatement(text: string, currency: string): ParsedStatement {
+  const rows = parseCsvRows(text, detectDelimiter(text));
+  const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex((cells) => {
+    const columns = findColumns(cells);
+    return columns.date !== undefined && (columns.amount !== undefined || columns.credit !== undefined);
+  });
+  if (headerIndex === -1) {
+    return {
+      transactions: [],
+      errors: ["Couldn't find the date and amount columns in this CSV"],
+    };
+  }
+
+  const columns = findColumns(rows[headerIndex]);
+  const lines = rows.slice(headerIndex + 1);
+  const cell = (cells: string[], column: number | undefined) =>
+    column === undefined ? "" : (cells[column] ?? "").trim();
+  const dayFirst = lines.some((cells) => isDayFirst(cell(cells, columns.date)));
+
+  const errors: string[] = [];
+  const parsed: Omit<BankTransaction, "external_id">[] = [];
+  const ids: (string | null)[] = [];
+  lines.forEach((cells, index) => {
+    const date = parseStatementDate(cell(cells, columns.date), dayFirst);
+    let amount: number | null;
+    if (columns.amount !== undefined) {
+      amount = parseStatementAmount(cell(cells, columns.amount), currency);
+    } else {
+      const credit = cell(cells, columns.credit);
+      const debit = cell(cells, columns.debit);
+      const creditAmount = credit ? parseStatementAmount(credit, currency) : 0;
+      const debitAmount = debit ? parseStatementAmount(debit, currency) : 0;
+      amount =
+        creditAmount === null || debitAmount === null
+          ? null
+          : Math.abs(creditAmount) - Math.abs(debitAmount);
+    }
+
+    if (!date || amount === null) {
+      errors.push(`Row ${index + 1}: couldn't read the ${date ? "amount" : "date"}`);
+      return;
+    }
+    if (amount === 0) return;
+    parsed.push({ date, amount, description: cell(cells, columns.description) });
+    ids.push(cell(cells, columns.id) || null);
+  });
+
+  return { transactions: withFallbackIds(parsed, "csv", ids), errors };
+}
+
+// ---- OFX ----
+
+// OFX 1.x is SGML, where leaf tags usually have no closing tag
+const readTag = (block: string, tag: string) =>
+  new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block)?.[1]?.trim() ?? "";
+
+function parseOfxStatement(text: string, currency: string): ParsedStatement {
+  const errors: string[] = [];
+  const statementCurrency = readTag(text, "CURDEF").toUpperCase();
+  if (statementCurrency && statementCurrency !== currency) {
+    return {
+      transactions: [],
+      errors: [`This statement is in ${statementCurrency} but your household uses ${currency}`],
+    };
+  }
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map((block) => block.split(/<\/STMTTRN>/i)[0]);
+  const parsed: Omit<BankTransaction, "external_id">[] = [];
+  const ids: (string | null)[] = [];
+  blocks.forEach((block, index) => {
+    const date = parseStatementDate(readTag(block, "DTPOSTED"), false);
+    const amount = parseStatementAmount(readTag(block, "TRNAMT"), currency);
+    if (!date || amount === null) {
+      errors.push(`Transaction ${index + 1}: couldn't read the ${date ? "amount" : "date"}`);
+      return;
+    }
+    if (amount === 0) return;
+    parsed.push({
+      date,
+      amount,
+      description: readTag(block, "NAME") || readTag(block, "MEMO"),
+    });
+    ids.push(readTag(block, "FITID") || null);
+  });
+
+  if (blocks.length === 0) {
+    errors.push("This OFX file has no transactions");
+  }
+  return { transactions: withFallbackIds(parsed, "ofx", ids), errors };
+}
+
+/**
+ * Parses a CSV or OFX/QFX statement. Lines that can't be read are reported
+ * and left out; the rest can still be imported.
+ */
+export function parseBankStatement(text: string, currency: string): ParsedStatement {
+  const isOfx = /^\s*OFXHEADER/i.test(text) || /<OFX>/i.test(text);
+  const { transactions, errors } = isOfx
+    ? parseOfxStatement(text, currency)
+    : parseCsvStatement(text, currency);
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      transactions,
+      errors: [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${extra} more`],
+    };
+  }
+  return { transactions, errors };
+}
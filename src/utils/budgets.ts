@@ -0,0 +1,186 @@
+/**
+ * Get Kraken - Budget Utilities
+ *
+ * Spending limits for the shop: how much of each weekly or monthly budget is
+ * left, item cooldowns, and whether a purchase is allowed at all. Pure
+ * functions of (budgets, logs, now, time zone) so results are reproducible.
+ */
+
+import type { ShopBudget, ShopItem, ShopLog, BudgetPeriod } from "../types";
+import { fromDayNumber, toDayNumber, toWeekNumber } from "./dates";
+import { CURRENCY_NAME, DEFAULT_CURRENCY_CODE } from "../constants";
+import { formatMoney } from "./money";
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export interface BudgetOptions {
+  now: Date;
+  timeZone: string;
+  weekStartsOn?: number; // 0 = Sunday
+}
+
+export interface BudgetUsage {
+  budget: ShopBudget;
+  spent: number; // sea dollars this period
+  dollarsSpent: number; // cents
+  remaining: number | null; // null when there is no coin cap
+  remainingDollars: number | null; // null when there is no dollar cap
+}
+
+export interface SpendingLimits extends BudgetOptions {
+  budgets: ShopBudget[];
+  logs: ShopLog[]; // must cover at least the current month
+  balance: { total: number; dollarTotal: number };
+  preventNegativeBalance: boolean;
+  includeDollars: boolean; // dollar caps and balance only count when dollars are shown
+  tagLabels: Record<string, string>; // for naming tag budgets in messages
+  currencyName?: string; // the user's name for sand dollars, in messages
+  currency?: string; // household currency (ISO 4217) for money in messages
+}
+
+/**
+ * Display name of what a budget covers (tag label or item name)
+ */
+export function getBudgetLabel(
+  budget: ShopBudget,
+  items: Pick<ShopItem, "id" | "name">[],
+  tagLabels: Record<string, string>
+): string {
+  if (budget.tag_key !== null) {
+    return Object.hasOwn(tagLabels, budget.tag_key) ? tagLabels[budget.tag_key] : budget.tag_key;
+  }
+  return items.find((item) => item.id === budget.shop_item_id)?.name ?? "Removed item";
+}
+
+/**
+ * Whether a budget covers an item (its own budget, or one on any of its tags)
+ */
+export function budgetAppliesTo(budget: ShopBudget, item: Pick<ShopItem, "id" | "tags">): boolean {
+  if (budget.shop_item_id) return budget.shop_item_id === item.id;
+  return budget.tag_key !== null && (item.tags || []).includes(budget.tag_key);
+}
+
+function periodKey(dayNumber: number, period: BudgetPeriod, weekStartsOn: number): number {
+  if (period === "week") return toWeekNumber(dayNumber, weekStartsOn);
+  const calendar = fromDayNumber(dayNumber);
+  return calendar.getUTCFullYear() * 12 + calendar.getUTCMonth();
+}
+
+/**
+ * What has been spent against a budget in its current week or month.
+ * Tag budgets count purchases of items that carry the tag now.
+ */
+export function getBudgetUsage(
+  budget: ShopBudget,
+  items: ShopItem[],
+  logs: ShopLog[],
+  options: BudgetOptions
+): BudgetUsage {
+  const { now, timeZone, weekStartsOn = 0 } = options;
+  const current = periodKey(toDayNumber(now, timeZone), budget.period, weekStartsOn);
+  const covered = new Set(
+    items.filter((item) => budgetAppliesTo(budget, item)).map((item) => item.id)
+  );
+  // Item budgets still count purchases of an item that was since hidden
+  if (budget.shop_item_id) covered.add(budget.shop_item_id);
+
+  let spent = 0;
+  let dollarsSpent = 0;
+  logs.forEach((log) => {
+    if (log.reversed_at || !covered.has(log.shop_item_id)) return;
+    if (periodKey(toDayNumber(log.purchased_at, timeZone), budget.period, weekStartsOn) !== current) {
+      return;
+    }
+    spent += log.price ?? 0;
+    dollarsSpent += log.dollar_amount ?? 0;
+  });
+
+  return {
+    budget,
+    spent,
+    dollarsSpent,
+    remaining: budget.coin_limit === null ? null : budget.coin_limit - spent,
+    remainingDollars: budget.dollar_limit === null ? null : budget.dollar_limit - dollarsSpent,
+  };
+}
+
+/**
+ * "2h 15m" / "3d 4h" style duration for cooldown messages
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(1, Math.ceil(ms / (60 * 1000)));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+}
+
+/**
+ * Time left before an item can be bought again (0 when it can be bought now).
+ * The longest cooldown of the budgets that cover it wins.
+ */
+export function getCooldownRemaining(
+  item: Pick<ShopItem, "id" | "tags">,
+  budgets: ShopBudget[],
+  logs: ShopLog[],
+  now: Date
+): number {
+  const hours = budgets
+    .filter((budget) => budget.cooldown_hours && budgetAppliesTo(budget, item))
+    .reduce((max, budget) => Math.max(max, budget.cooldown_hours ?? 0), 0);
+  if (hours === 0) return 0;
+
+  const last = logs.reduce<number | null>((latest, log) => {
+    if (log.reversed_at || log.shop_item_id !== item.id) return latest;
+    const time = new Date(log.purchased_at).getTime();
+    return latest === null || time > latest ? time : latest;
+  }, null);
+  if (last === null) return 0;
+
+  return Math.max(0, last + hours * MS_PER_HOUR - now.getTime());
+}
+
+/**
+ * Why a purchase isn't allowed, or null when it is
+ */
+export function getPurchaseBlockReason(
+  item: ShopItem,
+  items: ShopItem[],
+  limits: SpendingLimits
+): string | null {
+  const { budgets, logs, balance, preventNegativeBalance, includeDollars, now } = limits;
+  const currencyName = limits.currencyName ?? CURRENCY_NAME;
+  const currency = limits.currency ?? DEFAULT_CURRENCY_CODE;
+  const dollarAmount = Math.round(item.dollar_amount || 0);
+
+  if (preventNegativeBalance) {
+    if (balance.total < item.price) {
+      return `Not enough ${currencyName}. Need ${item.price - balance.total} more.`;
+    }
+    const dollarTotal = Math.round(balance.dollarTotal);
+    if (includeDollars && dollarAmount > 0 && dollarTotal < dollarAmount) {
+      return `Not enough money. Need ${formatMoney(dollarAmount - dollarTotal, currency)} more.`;
+    }
+  }
+
+  const cooldown = getCooldownRemaining(item, budgets, logs, now);
+  if (cooldown > 0) {
+    return `${item.name} is cooling down - it can be bought again in ${formatDuration(cooldown)}.`;
+  }
+
+  for (const budget of budgets.filter((candidate) => budgetAppliesTo(candidate, item))) {
+    const usage = getBudgetUsage(budget, items, logs, limits);
+    const period = budget.period === "week" ? "weekly" : "monthly";
+    const name = getBudgetLabel(budget, items, limits.tagLabels);
+    if (usage.remaining !== null && item.price > usage.remaining) {
+      return `Over the ${period} ${name} budget: ${Math.max(usage.remaining, 0)} of ${budget.coin_limit} ${currencyName} left.`;
+    }
+    if (includeDollars && usage.remainingDollars !== null && dollarAmount > usage.remainingDollars) {
+      return `Over the ${period} ${name} budget: ${formatMoney(Math.max(usage.remainingDollars, 0), currency)} of ${formatMoney(budget.dollar_limit ?? 0, currency)} left.`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,82 @@
+/**
+ * Get Kraken - Check-in Utilities
+ *
+ * Quantity, mood and note recorded with a quest completion, and how a
+ * quantity scales the reward (e.g. 2 sand dollars per mile on top of the
+ * quest's reward). The server prices completions the same way.
+ */
+
+import type { Quest, QuestCheckIn, QuestLog } from "../types";
+
+export const MOODS: { value: number; emoji: string; label: string }[] = [
+  { value: 1, emoji: "😫", label: "Rough" },
+  { value: 2, emoji: "😕", label: "Meh" },
+  { value: 3, emoji: "🙂", label: "Okay" },
+  { value: 4, emoji: "😄", label: "Good" },
+  { value: 5, emoji: "🤩", label: "Great" },
+];
+
+// Matches the quest_logs quantity bound on the server
+export const MAX_QUANTITY = 10000;
+
+export const getMoodEmoji = (mood: number | null | undefined): string | null =>
+  MOODS.find((option) => option.value === mood)?.emoji ?? null;
+
+/**
+ * Whether completing the quest asks how much was done
+ */
+export const hasQuantity = (quest: Pick<Quest, "unit">): boolean => !!quest.unit?.trim();
+
+/**
+ * Sand dollars a quantity adds (whole dollars, rounded like the server)
+ */
+export function getQuantityReward(
+  rewardPerUnit: number | null | undefined,
+  quantity: number | null | undefined
+): number {
+  if (!rewardPerUnit || !quantity || quantity <= 0) return 0;
+  return Math.round(quantity * rewardPerUnit);
+}
+
+/**
+ * Reward for completing a quest with a check-in, before reward rule bonuses
+ */
+export function getCompletionReward(
+  quest: Pick<Quest, "reward" | "unit" | "reward_per_unit">,
+  checkIn?: QuestCheckIn
+): number {
+  if (!hasQuantity(quest)) return quest.reward;
+  return quest.reward + getQuantityReward(quest.reward_per_unit, checkIn?.quantity);
+}
+
+/**
+ * A log's reward after its quantity changes, re-priced with the rate
+ * snapshotted when it was completed
+ */
+export function repriceQuestLog(
+  log: Pick<QuestLog, "reward" | "quantity" | "reward_per_unit">,
+  quantity: number | null
+): number {
+  return (
+    (log.reward ?? 0) -
+    getQuantityReward(log.reward_per_unit, log.quantity) +
+    getQuantityReward(log.reward_per_unit, quantity)
+  );
+}
+
+/**
+ * "3.5 miles"
+ */
+export function formatQuantity(quantity: number, unit: string | null | undefined): string {
+  const amount = Number(quantity.toFixed(2));
+  return unit ? `${amount} ${unit}` : String(amount);
+}
+
+/**
+ * Blank or non-positive input means "not recorded"; more than MAX_QUANTITY
+ * is not accepted either
+ */
+export function parseQuantity(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 && parsed <= MAX_QUANTITY ? parsed : null;
+}
@@ -0,0 +1,724 @@
+/**
+ * Get Kraken - Data Transfer Utilities
+ *
+ * Builds the versioned export bundle and its per-entity CSV files, validates
+ * bundles on import, and plans how a bundle maps onto the importing account.
+ * Seeded quests and shop items are exported with their household overrides
+ * already applied; on import they become overrides again, using the same
+ * merge rules as useQuestOverrides / useShopItemOverrides.
+ */
+
+import type {
+  Goal,
+  Quest,
+  QuestCadence,
+  QuestLog,
+  QuestSchedule,
+  ShopItem,
+  ShopLog,
+  ShopTag,
+  Tag,
+  TagDefinition,
+  TagScope,
+  UserQuestOverride,
+  UserShopItemOverride,
+  Wallet,
+} from "../types";
+import {
+  applyQuestOverride,
+  applyShopItemOverride,
+  deriveQuestOverride,
+  deriveShopItemOverride,
+} from "./overrides";
+import type { QuestOverrideFields, ShopItemOverrideFields } from "./overrides";
+import { getMinorUnitDigits, isValidCurrency } from "./money";
+import { DEFAULT_CURRENCY_CODE } from "../constants";
+
+export const EXPORT_FORMAT = "get-kraken-export";
+// v2: money amounts are in minor units (cents) of the bundle's currency
+export const EXPORT_VERSION = 2;
+
+// Seeded rows are shared by every household; custom rows belong to one
+export type ExportSource = "seeded" | "custom";
+
+export interface ExportedTag {
+  scope: TagScope;
+  key: string;
+  label: string;
+  color: string;
+  position: number;
+}
+
+export interface ExportedQuest {
+  id: string;
+  source: ExportSource;
+  hidden: boolean;
+  name: string;
+  tags: Tag[];
+  reward: number;
+  dollar_amount: number;
+  cadence: QuestCadence | null;
+  grace_periods: number | null;
+  schedule: QuestSchedule | null;
+  photo_url?: string | null; // added after v1 shipped, so older exports omit it
+  unit?: string | null; // likewise
+  reward_per_unit?: number | null;
+}
+
+export interface ExportedShopItem {
+  id: string;
+  source: ExportSource;
+  hidden: boolean;
+  name: string;
+  tags: ShopTag[];
+  price: number;
+  dollar_amount: number;
+  photo_url?: string | null;
+}
+
+export interface ExportedGoal {
+  name: string;
+  target_amount: number;
+  dollar_amount: number | null;
+  allocated_amount: number;
+  allocated_dollar_amount: number;
+  deadline: string | null;
+  priority: number;
+  milestones: number[];
+  celebrated_milestone: number;
+  is_completed: boolean;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface ExportedQuestLog {
+  quest_id: string;
+  completed_at: string;
+  reversed_at: string | null;
+  reward: number | null;
+  dollar_amount: number | null;
+  quest_name: string | null;
+  proof_photo_url?: string | null;
+  quantity?: number | null; // check-ins were added after v1 shipped
+  unit?: string | null;
+  reward_per_unit?: number | null;
+  note?: string | null;
+  mood?: number | null;
+}
+
+export interface ExportedShopLog {
+  shop_item_id: string;
+  purchased_at: string;
+  reversed_at: string | null;
+  price: number | null;
+  dollar_amount: number | null;
+  item_name: string | null;
+}
+
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  currency?: string; // added in v2; v1 amounts are whole US dollars
+  wallet: { total: number; dollar_total: number };
+  tags?: ExportedTag[]; // added after v1 shipped, so older exports omit it
+  quests: ExportedQuest[];
+  shop_items: ExportedShopItem[];
+  goals: ExportedGoal[];
+  quest_logs: ExportedQuestLog[];
+  shop_logs: ExportedShopLog[];
+}
+
+// Everything the household can read, as stored
+export interface ExportData {
+  tags: TagDefinition[];
+  quests: Quest[];
+  questOverrides: UserQuestOverride[];
+  hiddenQuestIds: string[];
+  shopItems: ShopItem[];
+  shopItemOverrides: UserShopItemOverride[];
+  hiddenShopItemIds: string[];
+  goals: Goal[];
+  wallet: Wallet | null;
+  questLogs: QuestLog[];
+  shopLogs: ShopLog[];
+  currency: string;
+}
+
+const sourceOf = (row: { created_by?: string | null }): ExportSource =>
+  row.created_by ? "custom" : "seeded";
+
+export function buildExportBundle(data: ExportData): ExportBundle {
+  const questOverrides = new Map(data.questOverrides.map((o) => [o.quest_id, o]));
+  const itemOverrides = new Map(data.shopItemOverrides.map((o) => [o.shop_item_id, o]));
+  const hiddenQuests = new Set(data.hiddenQuestIds);
+  const hiddenItems = new Set(data.hiddenShopItemIds);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    currency: data.currency,
+    wallet: {
+      total: data.wallet?.total ?? 0,
+      dollar_total: data.wallet?.dollar_total ?? 0,
+    },
+    tags: data.tags.map((tag) => ({
+      scope: tag.scope,
+      key: tag.key,
+      label: tag.label,
+      color: tag.color,
+      position: tag.position,
+    })),
+    quests: data.quests.map((base) => {
+      const quest = applyQuestOverride(base, questOverrides.get(base.id));
+      return {
+        id: quest.id,
+        source: sourceOf(quest),
+        hidden: hiddenQuests.has(quest.id),
+        name: quest.name,
+        tags: quest.tags || [],
+        reward: quest.reward,
+        dollar_amount: quest.dollar_amount || 0,
+        cadence: quest.cadence ?? null,
+        grace_periods: quest.grace_periods ?? null,
+        schedule: quest.schedule ?? null,
+        photo_url: quest.photo_url ?? null,
+        unit: quest.unit ?? null,
+        reward_per_unit: quest.reward_per_unit ?? null,
+      };
+    }),
+    shop_items: data.shopItems.map((base) => {
+      const item = applyShopItemOverride(base, itemOverrides.get(base.id));
+      return {
+        id: item.id,
+        source: sourceOf(item),
+        hidden: hiddenItems.has(item.id),
+        name: item.name,
+        tags: item.tags || [],
+        price: item.price,
+        dollar_amount: item.dollar_amount || 0,
+        photo_url: item.photo_url ?? null,
+      };
+    }),
+    goals: data.goals.map((goal) => ({
+      name: goal.name,
+      target_amount: goal.target_amount,
+      dollar_amount: goal.dollar_amount ?? null,
+      allocated_amount: goal.allocated_amount || 0,
+      allocated_dollar_amount: goal.allocated_dollar_amount || 0,
+      deadline: goal.deadline ?? null,
+      priority: goal.priority || 0,
+      milestones: goal.milestones || [],
+      celebrated_milestone: goal.celebrated_milestone || 0,
+      is_completed: goal.is_completed,
+      completed_at: goal.completed_at ?? null,
+      created_at: goal.created_at,
+    })),
+    quest_logs: data.questLogs.map((log) => ({
+      quest_id: log.quest_id,
+      completed_at: log.completed_at,
+      reversed_at: log.reversed_at ?? null,
+      reward: log.reward ?? null,
+      dollar_amount: log.dollar_amount ?? null,
+      quest_name: log.quest_name ?? null,
+      proof_photo_url: log.proof_photo_url ?? null,
+      quantity: log.quantity ?? null,
+      unit: log.unit ?? null,
+      reward_per_unit: log.reward_per_unit ?? null,
+      note: log.note ?? null,
+      mood: log.mood ?? null,
+    })),
+    shop_logs: data.shopLogs.map((log) => ({
+      shop_item_id: log.shop_item_id,
+      purchased_at: log.purchased_at,
+      reversed_at: log.reversed_at ?? null,
+      price: log.price ?? null,
+      dollar_amount: log.dollar_amount ?? null,
+      item_name: log.item_name ?? null,
+    })),
+  };
+}
+
+// ---- CSV ----
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+const jsonCell = (value: unknown) => (value === null || value === undefined ? null : JSON.stringify(value));
+
+export interface CsvFile {
+  name: string;
+  content: string;
+}
+
+// One CSV per entity; tags are "; "-separated, cadence/schedule are JSON
+export function buildCsvFiles(bundle: ExportBundle): CsvFile[] {
+  return [
+    {
+      name: "tags.csv",
+      content: toCsv(
+        ["scope", "key", "label", "color", "position"],
+        (bundle.tags || []).map((t) => [t.scope, t.key, t.label, t.color, t.position])
+      ),
+    },
+    {
+      name: "quests.csv",
+      content: toCsv(
+        [
+          "id", "source", "hidden", "name", "tags", "reward", "dollar_amount", "cadence",
+          "grace_periods", "schedule", "photo_url", "unit", "reward_per_unit",
+        ],
+        bundle.quests.map((q) => [
+          q.id, q.source, q.hidden, q.name, q.tags.join("; "), q.reward, q.dollar_amount,
+          jsonCell(q.cadence), q.grace_periods, jsonCell(q.schedule), q.photo_url, q.unit,
+          q.reward_per_unit,
+        ])
+      ),
+    },
+    {
+      name: "shop_items.csv",
+      content: toCsv(
+        ["id", "source", "hidden", "name", "tags", "price", "dollar_amount", "photo_url"],
+        bundle.shop_items.map((i) => [
+          i.id, i.source, i.hidden, i.name, i.tags.join("; "), i.price, i.dollar_amount, i.photo_url,
+        ])
+      ),
+    },
+    {
+      name: "goals.csv",
+      content: toCsv(
+        [
+          "name", "target_amount", "dollar_amount", "allocated_amount", "allocated_dollar_amount",
+          "deadline", "priority", "milestones", "is_completed", "completed_at", "created_at",
+        ],
+        bundle.goals.map((g) => [
+          g.name, g.target_amount, g.dollar_amount, g.allocated_amount, g.allocated_dollar_amount,
+          g.deadline, g.priority, g.milestones.join("; "), g.is_completed, g.completed_at, g.created_at,
+        ])
+      ),
+    },
+    {
+      name: "quest_logs.csv",
+      content: toCsv(
+        [
+          "quest_id", "quest_name", "completed_at", "reversed_at", "reward", "dollar_amount",
+          "proof_photo_url", "quantity", "unit", "mood", "note",
+        ],
+        bundle.quest_logs.map((l) => [
+          l.quest_id, l.quest_name, l.completed_at, l.reversed_at, l.reward, l.dollar_amount,
+          l.proof_photo_url, l.quantity, l.unit, l.mood, l.note,
+        ])
+      ),
+    },
+    {
+      name: "shop_logs.csv",
+      content: toCsv(
+        ["shop_item_id", "item_name", "purchased_at", "reversed_at", "price", "dollar_amount"],
+        bundle.shop_logs.map((l) => [
+          l.shop_item_id, l.item_name, l.purchased_at, l.reversed_at, l.price, l.dollar_amount,
+        ])
+      ),
+    },
+    {
+      name: "wallet.csv",
+      content: toCsv(["total", "dollar_total", "exported_at"], [
+        [bundle.wallet.total, bundle.wallet.dollar_total, bundle.exported_at],
+      ]),
+    },
+  ];
+}
+
+// ---- Validation ----
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isString: FieldCheck = (value) => typeof value === "string";
+const isNumber: FieldCheck = (value) => typeof value === "number" && Number.isFinite(value);
+const isInteger: FieldCheck = (value) => Number.isInteger(value);
+const isBoolean: FieldCheck = (value) => typeof value === "boolean";
+const isDate: FieldCheck = (value) => typeof value === "string" && !Number.isNaN(Date.parse(value));
+const isSource: FieldCheck = (value) => value === "seeded" || value === "custom";
+const isTagScope: FieldCheck = (value) => value === "quest" || value === "shop_item";
+const isTypedRecord: FieldCheck = (value) => isRecord(value) && typeof value.type === "string";
+const nullable = (check: FieldCheck): FieldCheck => (value) => value === null || check(value);
+const optional = (check: FieldCheck): FieldCheck => (value) => value === undefined || check(value);
+const arrayOf = (check: FieldCheck): FieldCheck => (value) =>
+  Array.isArray(value) && value.every(check);
+
+const TAG_FIELDS: Record<keyof ExportedTag, FieldCheck> = {
+  scope: isTagScope,
+  key: isString,
+  label: isString,
+  color: isString,
+  position: isInteger,
+};
+
+const QUEST_FIELDS: Record<keyof ExportedQuest, FieldCheck> = {
+  id: isString,
+  source: isSource,
+  hidden: isBoolean,
+  name: isString,
+  tags: arrayOf(isString),
+  reward: isInteger,
+  dollar_amount: isInteger,
+  cadence: nullable(isTypedRecord),
+  grace_periods: nullable(isInteger),
+  schedule: nullable(isTypedRecord),
+  photo_url: optional(nullable(isString)),
+  unit: optional(nullable(isString)),
+  reward_per_unit: optional(nullable(isInteger)),
+};
+
+const SHOP_ITEM_FIELDS: Record<keyof ExportedShopItem, FieldCheck> = {
+  id: isString,
+  source: isSource,
+  hidden: isBoolean,
+  name: isString,
+  tags: arrayOf(isString),
+  price: isInteger,
+  dollar_amount: isInteger,
+  photo_url: optional(nullable(isString)),
+};
+
+const GOAL_FIELDS: Record<keyof ExportedGoal, FieldCheck> = {
+  name: isString,
+  target_amount: isNumber,
+  dollar_amount: nullable(isNumber),
+  allocated_amount: isInteger,
+  allocated_dollar_amount: isInteger,
+  deadline: nullable(isString),
+  priority: isInteger,
+  milestones: arrayOf(isNumber),
+  celebrated_milestone: isNumber,
+  is_completed: isBoolean,
+  completed_at: nullable(isDate),
+  created_at: isDate,
+};
+
+const QUEST_LOG_FIELDS: Record<keyof ExportedQuestLog, FieldCheck> = {
+  quest_id: isString,
+  completed_at: isDate,
+  reversed_at: nullable(isDate),
+  reward: nullable(isInteger),
+  dollar_amount: nullable(isInteger),
+  quest_name: nullable(isString),
+  proof_photo_url: optional(nullable(isString)),
+  quantity: optional(nullable(isNumber)),
+  unit: optional(nullable(isString)),
+  reward_per_unit: optional(nullable(isInteger)),
+  note: optional(nullable(isString)),
+  mood: optional(nullable(isInteger)),
+};
+
+const SHOP_LOG_FIELDS: Record<keyof ExportedShopLog, FieldCheck> = {
+  shop_item_id: isString,
+  purchased_at: isDate,
+  reversed_at: nullable(isDate),
+  price: nullable(isInteger),
+  dollar_amount: nullable(isInteger),
+  item_name: nullable(isString),
+};
+
+const MAX_REPORTED_ERRORS = 20;
+
+function checkEntries(
+  label: string,
+  value: unknown,
+  fields: Record<string, FieldCheck>,
+  errors: string[]
+) {
+  if (!Array.isArray(value)) {
+    errors.push(`"${label}" must be a list`);
+    return;
+  }
+  value.forEach((entry, index) => {
+    if (!isRecord(entry)) {
+      errors.push(`${label}[${index}] must be an object`);
+      return;
+    }
+    Object.entries(fields).forEach(([field, check]) => {
+      if (!check(entry[field])) {
+        errors.push(`${label}[${index}].${field} is missing or invalid`);
+      }
+    });
+  });
+}
+
+/**
+ * Checks a parsed file against the bundle schema. Returns the bundle only
+ * when there are no errors.
+ */
+export function validateExportBundle(value: unknown): {
+  bundle: ExportBundle | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  if (!isRecord(value) || value.format !== EXPORT_FORMAT) {
+    return { bundle: null, errors: ["This file is not a Get Kraken export"] };
+  }
+  if (!isInteger(value.version) || (value.version as number) < 1) {
+    errors.push("The export version is missing or invalid");
+  } else if ((value.version as number) > EXPORT_VERSION) {
+    errors.push(
+      `This export was made by a newer version of Get Kraken (format v${value.version}); update the app to import it`
+    );
+  }
+  if (!isDate(value.exported_at)) {
+    errors.push("exported_at is missing or invalid");
+  }
+  if (value.currency !== undefined && !isValidCurrency(value.currency as string)) {
+    errors.push("currency must be an ISO 4217 code");
+  }
+  if (!isRecord(value.wallet) || !isInteger(value.wallet.total) || !isInteger(value.wallet.dollar_total)) {
+    errors.push("wallet must have whole-number total and dollar_total");
+  }
+
+  if (value.tags !== undefined) {
+    checkEntries("tags", value.tags, TAG_FIELDS, errors);
+  }
+  checkEntries("quests", value.quests, QUEST_FIELDS, errors);
+  checkEntries("shop_items", value.shop_items, SHOP_ITEM_FIELDS, errors);
+  checkEntries("goals", value.goals, GOAL_FIELDS, errors);
+  checkEntries("quest_logs", value.quest_logs, QUEST_LOG_FIELDS, errors);
+  checkEntries("shop_logs", value.shop_logs, SHOP_LOG_FIELDS, errors);
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      bundle: null,
+      errors: [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${extra} more`],
+    };
+  }
+  if (errors.length > 0) {
+    return { bundle: null, errors };
+  }
+  const bundle = value as unknown as ExportBundle;
+  return { bundle: bundle.version < 2 ? upgradeToMinorUnits(bundle) : bundle, errors };
+}
+
+// v1 bundles kept whole US dollars; amounts are now cents
+function upgradeToMinorUnits(bundle: ExportBundle): ExportBundle {
+  const cents = (amount: number) => Math.round(amount * 100);
+  const centsOrNull = (amount: number | null) => (amount === null ? null : cents(amount));
+  return {
+    ...bundle,
+    version: EXPORT_VERSION,
+    currency: DEFAULT_CURRENCY_CODE,
+    wallet: { ...bundle.wallet, dollar_total: cents(bundle.wallet.dollar_total) },
+    quests: bundle.quests.map((q) => ({ ...q, dollar_amount: cents(q.dollar_amount) })),
+    shop_items: bundle.shop_items.map((i) => ({ ...i, dollar_amount: cents(i.dollar_amount) })),
+    goals: bundle.goals.map((g) => ({
+      ...g,
+      dollar_amount: centsOrNull(g.dollar_amount),
+      allocated_dollar_amount: cents(g.allocated_dollar_amount),
+    })),
+    quest_logs: bundle.quest_logs.map((l) => ({ ...l, dollar_amount: centsOrNull(l.dollar_amount) })),
+    shop_logs: bundle.shop_logs.map((l) => ({ ...l, dollar_amount: centsOrNull(l.dollar_amount) })),
+  };
+}
+
+// ---- Import planning ----
+
+// What the importing account already has
+export interface ImportTarget {
+  tags: TagDefinition[];
+  quests: Quest[]; // seeded and household rows, without overrides
+  shopItems: ShopItem[];
+  questOverrideIds: string[];
+  shopItemOverrideIds: string[];
+  goalCount: number;
+  questLogCount: number;
+  shopLogCount: number;
+  wallet: { total: number; dollar_total: number } | null;
+  currency: string;
+}
+
+export interface ImportPlan {
+  newTags: ExportedTag[]; // tags whose key the household doesn't have yet
+  newQuests: ExportedQuest[]; // custom quests to create; logs are remapped to the new ids
+  newShopItems: ExportedShopItem[];
+  questIdMap: Record<string, string>; // bundle id -> existing quest id
+  shopItemIdMap: Record<string, string>;
+  // Seeded quests: the override that reproduces the exported values (null clears it)
+  questOverrides: { questId: string; override: QuestOverrideFields | null }[];
+  shopItemOverrides: { shopItemId: string; override: ShopItemOverrideFields | null }[];
+  hiddenQuestIds: string[]; // bundle ids
+  hiddenShopItemIds: string[];
+  goals: ExportedGoal[];
+  questLogs: ExportedQuestLog[]; // only logs whose quest resolves
+  shopLogs: ExportedShopLog[];
+  wallet: { total: number; dollar_total: number }; // added to the current wallet
+  conflicts: string[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+function hasMoneyAmounts(bundle: ExportBundle): boolean {
+  return (
+    bundle.wallet.dollar_total !== 0 ||
+    bundle.quests.some((quest) => quest.dollar_amount !== 0) ||
+    bundle.shop_items.some((item) => item.dollar_amount !== 0) ||
+    bundle.goals.some((goal) => (goal.dollar_amount ?? 0) !== 0 || goal.allocated_dollar_amount !== 0) ||
+    bundle.quest_logs.some((log) => (log.dollar_amount ?? 0) !== 0) ||
+    bundle.shop_logs.some((log) => (log.dollar_amount ?? 0) !== 0)
+  );
+}
+
+export function planImport(bundle: ExportBundle, target: ImportTarget): ImportPlan {
+  const conflicts: string[] = [];
+
+  // Amounts are stored in minor units, so copying them between currencies
+  // with a different number of decimals (USD cents, JPY yen) would change them
+  if (
+    bundle.currency &&
+    getMinorUnitDigits(bundle.currency) !== getMinorUnitDigits(target.currency) &&
+    hasMoneyAmounts(bundle)
+  ) {
+    throw new Error(
+      `This export is in ${bundle.currency}, which counts money in different units from this household's ${target.currency}. Import it into a household that uses ${bundle.currency}.`
+    );
+  }
+
+  if (
+    target.questLogCount > 0 ||
+    target.shopLogCount > 0 ||
+    target.goalCount > 0 ||
+    (target.wallet && (target.wallet.total !== 0 || target.wallet.dollar_total !== 0))
+  ) {
+    conflicts.push(
+      "This account already has activity. Imported history, goals and wallet balance will be added on top of it."
+    );
+  }
+  if (bundle.currency && bundle.currency !== target.currency) {
+    conflicts.push(
+      `This export is in ${bundle.currency} but this household uses ${target.currency}. Money amounts are imported as-is, without conversion.`
+    );
+  }
+
+  // Tags are matched by key, so existing tags keep their local label and color
+  const tagKeys = new Set(target.tags.map((tag) => `${tag.scope}:${tag.key}`));
+  const newTags = (bundle.tags || []).filter((tag) => !tagKeys.has(`${tag.scope}:${tag.key}`));
+
+  // Quests
+  const questsById = new Map(target.quests.map((q) => [q.id, q]));
+  const questsByName = new Map(
+    target.quests.filter((q) => q.created_by).map((q) => [normalizeName(q.name), q])
+  );
+  const questOverrideIds = new Set(target.questOverrideIds);
+  const questIdMap: Record<string, string> = {};
+  const newQuests: ExportedQuest[] = [];
+  const questOverrides: ImportPlan["questOverrides"] = [];
+
+  bundle.quests.forEach((quest) => {
+    if (quest.source === "custom") {
+      const existing = questsByName.get(normalizeName(quest.name));
+      if (existing) {
+        conflicts.push(`Quest "${quest.name}" already exists; its history is linked to the existing quest.`);
+        questIdMap[quest.id] = existing.id;
+      } else {
+        newQuests.push(quest);
+      }
+      return;
+    }
+
+    const base = questsById.get(quest.id);
+    if (!base || base.created_by) {
+      conflicts.push(`Quest "${quest.name}" is not available in this account and will be skipped.`);
+      return;
+    }
+    questIdMap[quest.id] = base.id;
+    const override = deriveQuestOverride(base, {
+      ...quest,
+      photo_url: quest.photo_url ?? null,
+      unit: quest.unit ?? null,
+      reward_per_unit: quest.reward_per_unit ?? null,
+    });
+    if (override || questOverrideIds.has(base.id)) {
+      if (questOverrideIds.has(base.id)) {
+        conflicts.push(`Your changes to quest "${base.name}" will be replaced by the imported ones.`);
+      }
+      questOverrides.push({ questId: base.id, override });
+    }
+  });
+
+  // Shop items
+  const itemsById = new Map(target.shopItems.map((i) => [i.id, i]));
+  const itemsByName = new Map(
+    target.shopItems.filter((i) => i.created_by).map((i) => [normalizeName(i.name), i])
+  );
+  const itemOverrideIds = new Set(target.shopItemOverrideIds);
+  const shopItemIdMap: Record<string, string> = {};
+  const newShopItems: ExportedShopItem[] = [];
+  const shopItemOverrides: ImportPlan["shopItemOverrides"] = [];
+
+  bundle.shop_items.forEach((item) => {
+    if (item.source === "custom") {
+      const existing = itemsByName.get(normalizeName(item.name));
+      if (existing) {
+        conflicts.push(`Shop item "${item.name}" already exists; its history is linked to the existing item.`);
+        shopItemIdMap[item.id] = existing.id;
+      } else {
+        newShopItems.push(item);
+      }
+      return;
+    }
+
+    const base = itemsById.get(item.id);
+    if (!base || base.created_by) {
+      conflicts.push(`Shop item "${item.name}" is not available in this account and will be skipped.`);
+      return;
+    }
+    shopItemIdMap[item.id] = base.id;
+    const override = deriveShopItemOverride(base, { ...item, photo_url: item.photo_url ?? null });
+    if (override || itemOverrideIds.has(base.id)) {
+      if (itemOverrideIds.has(base.id)) {
+        conflicts.push(`Your changes to shop item "${base.name}" will be replaced by the imported ones.`);
+      }
+      shopItemOverrides.push({ shopItemId: base.id, override });
+    }
+  });
+
+  // Logs can only be restored for quests and items that resolve
+  const importedQuestIds = new Set([...Object.keys(questIdMap), ...newQuests.map((q) => q.id)]);
+  const importedItemIds = new Set([...Object.keys(shopItemIdMap), ...newShopItems.map((i) => i.id)]);
+  const questLogs = bundle.quest_logs.filter((log) => importedQuestIds.has(log.quest_id));
+  const shopLogs = bundle.shop_logs.filter((log) => importedItemIds.has(log.shop_item_id));
+
+  const skippedQuestLogs = bundle.quest_logs.length - questLogs.length;
+  if (skippedQuestLogs > 0) {
+    conflicts.push(`${skippedQuestLogs} quest completion(s) reference quests that can't be imported and will be skipped.`);
+  }
+  const skippedShopLogs = bundle.shop_logs.length - shopLogs.length;
+  if (skippedShopLogs > 0) {
+    conflicts.push(`${skippedShopLogs} purchase(s) reference shop items that can't be imported and will be skipped.`);
+  }
+
+  return {
+    newTags,
+    newQuests,
+    newShopItems,
+    questIdMap,
+    shopItemIdMap,
+    questOverrides,
+    shopItemOverrides,
+    hiddenQuestIds: bundle.quests.filter((q) => q.hidden && importedQuestIds.has(q.id)).map((q) => q.id),
+    hiddenShopItemIds: bundle.shop_items.filter((i) => i.hidden && importedItemIds.has(i.id)).map((i) => i.id),
+    goals: bundle.goals,
+    questLogs,
+    shopLogs,
+    wallet: bundle.wallet,
+    conflicts,
+  };
+}
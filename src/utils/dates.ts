@@ -0,0 +1,157 @@
+/**
+ * Get Kraken - Date Utilities
+ *
+ * Calendar-day helpers that work in an explicit time zone, so streaks and
+ * "due today" don't depend on where the browser happens to be
+ */
+
+const MS_PER_MINUTE = 1000 * 60;
+const MS_PER_DAY = MS_PER_MINUTE * 60 * 24;
+
+/**
+ * The user's calendar: which zone days are counted in and which weekday
+ * starts a week (0 = Sunday)
+ */
+export interface CalendarSettings {
+  timeZone: string;
+  weekStartsOn: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const instantFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getInstantFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = instantFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    instantFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the browser's time zone (falls back to UTC)
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * Whether the runtime knows the IANA zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The chosen zone, or the browser's when none is set (or it's unknown here)
+ */
+export function resolveTimeZone(preferred: string | null | undefined): string {
+  return preferred && isValidTimeZone(preferred) ? preferred : getLocalTimeZone();
+}
+
+/**
+ * IANA zone names offered in pickers, with the browser's zone guaranteed present
+ */
+export function getSupportedTimeZones(): string[] {
+  const zones = Intl.supportedValuesOf?.("timeZone") ?? ["UTC"];
+  const local = getLocalTimeZone();
+  return zones.includes(local) ? zones : [local, ...zones];
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given instant
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getInstantFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(
+    get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")
+  );
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallClock - wholeSeconds) / MS_PER_MINUTE);
+}
+
+/**
+ * Converts an instant to a day number (days since 1970-01-01) for the calendar
+ * date it falls on in the given time zone
+ */
+export function toDayNumber(date: Date | string, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(date));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return Math.floor(
+    Date.UTC(get("year"), get("month") - 1, get("day")) / MS_PER_DAY
+  );
+}
+
+/**
+ * Day of week for a day number (0 = Sunday)
+ */
+export function getWeekday(dayNumber: number): number {
+  // 1970-01-01 was a Thursday
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+/**
+ * First day of the week containing a day, with weeks starting on weekStartsOn
+ */
+export function startOfWeek(dayNumber: number, weekStartsOn: number = 0): number {
+  return dayNumber - ((getWeekday(dayNumber) - weekStartsOn + 7) % 7);
+}
+
+/**
+ * Week number containing a day, with weeks starting on weekStartsOn (0 = Sunday)
+ */
+export function toWeekNumber(dayNumber: number, weekStartsOn: number = 0): number {
+  return Math.floor((dayNumber + 4 - weekStartsOn) / 7);
+}
+
+/**
+ * UTC midnight of a day number, for reading its calendar date with UTC
+ * accessors (or formatting with timeZone: "UTC")
+ */
+export function fromDayNumber(dayNumber: number): Date {
+  return new Date(dayNumber * MS_PER_DAY);
+}
+
+/**
+ * The instant a wall-clock time (minutes after midnight) falls on for a day
+ * in the given time zone. Times skipped by a DST jump come out an hour early.
+ */
+export function zonedTimeToDate(dayNumber: number, minutes: number, timeZone: string): Date {
+  const wallClock = dayNumber * MS_PER_DAY + minutes * MS_PER_MINUTE;
+  // The offset at the guess can differ from the offset at the answer across
+  // a DST change, so correct once with the offset found there
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * MS_PER_MINUTE;
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone) * MS_PER_MINUTE);
+}
@@ -1,16 +1,320 @@
 /**
  * Get Kraken - Filtering Utilities
  *
- * Shared filtering logic for quests and shop items
+ * Shared filtering logic for quests and shop items, including the search bar's
+ * small query language:
+ *
+ *   walk dog            name (or tag label) fuzzy-matches every word
+ *   tag:work #home      tagged work AND home; tag:work,home for either
+ *   reward>20 $>=5      numeric filters (reward/price/amount, $/dollars, count)
+ *   completed:this-week a completion (or purchase) today / this-week / this-month
+ *   never-done          never completed (or purchased)
+ *   -tag:work  !x       negation
+ *   a OR b              either side matches (AND binds tighter)
  */
 
 import type { Quest, ShopItem, Tag, ShopTag } from "../types";
+import { fromDayNumber, toDayNumber, toWeekNumber } from "./dates";
+import { toMajorUnits } from "./money";
+import { DEFAULT_CURRENCY_CODE } from "../constants";
+
+export type CompareField = "amount" | "dollars" | "count";
+export type CompareOp = ">" | ">=" | "<" | "<=" | "=";
+export type DonePeriod = "today" | "this-week" | "this-month" | "ever";
+
+export type QueryTerm = { negated: boolean } & (
+  | { kind: "text"; value: string }
+  | { kind: "tag"; values: string[] } // any of the values
+  | { kind: "compare"; field: CompareField; op: CompareOp; value: number }
+  | { kind: "done"; period: DonePeriod }
+);
+
+// OR of clauses; each clause is an AND of terms
+export interface ParsedQuery {
+  clauses: QueryTerm[][];
+}
+
+export interface MatchRange {
+  start: number;
+  end: number; // exclusive
+}
+
+const FIELD_ALIASES: Record<string, CompareField> = {
+  reward: "amount",
+  price: "amount",
+  amount: "amount",
+  cost: "amount",
+  $: "dollars",
+  dollars: "dollars",
+  dollar: "dollars",
+  count: "count",
+  completions: "count",
+  purchases: "count",
+};
+
+const DONE_KEYS = ["completed", "done", "purchased", "bought"];
+const NEVER_WORDS = ["never-done", "never-completed", "never-purchased", "never-bought", "never"];
+const PERIODS: DonePeriod[] = ["today", "this-week", "this-month", "ever"];
+
+const COMPARE_PATTERN = /^([a-z]+|\$)(>=|<=|>|<|=|:)(-?\d+(?:\.\d+)?)$/;
+
+// Splits on whitespace, keeping "quoted phrases" (and tag:"social life") together
+function tokenize(query: string): string[] {
+  return query.match(/[^\s"]*"[^"]*"?[^\s"]*|[^\s]+/g) ?? [];
+}
+
+const unquote = (value: string) => value.replace(/"/g, "");
+
+// Tag values match keys or labels, with - or _ standing in for spaces
+const normalizeTag = (value: string) => value.toLowerCase().replace(/[-_]/g, " ").trim();
+
+function parseTerm(token: string): QueryTerm | null {
+  let negated = false;
+  let body = token;
+  if (body.length > 1 && (body.startsWith("-") || body.startsWith("!"))) {
+    negated = true;
+    body = body.slice(1);
+  }
+  const lower = body.toLowerCase();
+
+  if (NEVER_WORDS.includes(lower)) {
+    return { kind: "done", period: "ever", negated: !negated };
+  }
+
+  if (lower.startsWith("#") && lower.length > 1) {
+    return { kind: "tag", values: [normalizeTag(unquote(body.slice(1)))], negated };
+  }
+
+  const colon = lower.indexOf(":");
+  if (colon > 0) {
+    const key = lower.slice(0, colon);
+    const value = unquote(body.slice(colon + 1));
+    if ((key === "tag" || key === "tags") && value) {
+      const values = value.split(",").map(normalizeTag).filter(Boolean);
+      if (values.length > 0) return { kind: "tag", values, negated };
+    }
+    if (DONE_KEYS.includes(key)) {
+      const period = value.toLowerCase() as DonePeriod;
+      if (PERIODS.includes(period)) return { kind: "done", period, negated };
+    }
+  }
+
+  const comparison = lower.match(COMPARE_PATTERN);
+  if (comparison && Object.hasOwn(FIELD_ALIASES, comparison[1])) {
+    return {
+      kind: "compare",
+      field: FIELD_ALIASES[comparison[1]],
+      op: comparison[2] === ":" ? "=" : (comparison[2] as CompareOp),
+      value: Number(comparison[3]),
+      negated,
+    };
+  }
+
+  const text = unquote(body).trim().toLowerCase();
+  return text ? { kind: "text", value: text, negated } : null;
+}
+
+/**
+ * Parses a search bar query. Unrecognized syntax falls back to plain text, so
+ * every query parses.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const clauses: QueryTerm[][] = [[]];
+  tokenize(query).forEach((token) => {
+    if (token === "OR" || token === "|") {
+      clauses.push([]);
+      return;
+    }
+    const term = parseTerm(token);
+    if (term) clauses[clauses.length - 1].push(term);
+  });
+  return { clauses: clauses.filter((clause) => clause.length > 0) };
+}
+
+// ---- Fuzzy matching ----
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps)
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+// Typos allowed grow with the length of what was typed
+const allowedTypos = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+/**
+ * Where a search word matches in text: an exact substring, or else a word
+ * (or the start of one) within a few typos. Null when it doesn't match.
+ */
+export function fuzzyMatch(text: string, pattern: string): MatchRange | null {
+  const haystack = text.toLowerCase();
+  const needle = pattern.toLowerCase();
+  if (!needle) return null;
+
+  const index = haystack.indexOf(needle);
+  if (index !== -1) return { start: index, end: index + needle.length };
+
+  const maxTypos = allowedTypos(needle.length);
+  if (maxTypos === 0) return null;
+
+  let best: { range: MatchRange; distance: number } | null = null;
+  for (const word of haystack.matchAll(/[\p{L}\p{N}']+/gu)) {
+    const start = word.index ?? 0;
+    // Compare against the whole word and against its prefix, so "exersize" finds "exercises"
+    const candidates = [word[0], word[0].slice(0, needle.length)];
+    for (const candidate of candidates) {
+      const distance = editDistance(candidate, needle);
+      if (distance <= maxTypos && (!best || distance < best.distance)) {
+        best = { range: { start, end: start + candidate.length }, distance };
+      }
+    }
+  }
+  return best?.range ?? null;
+}
+
+// ---- Evaluation ----
+
+export interface FilterStats {
+  counts: Record<string, number>; // completions / purchases across all history
+  lastUsed: Record<string, string>; // latest completion / purchase
+  now: Date;
+  timeZone: string;
+  weekStartsOn?: number;
+  currency?: string; // $ terms are typed in whole units of this
+}
 
 export interface FilterOptions<T extends Tag | ShopTag> {
   items: (Quest | ShopItem)[];
   searchQuery: string;
   selectedTag: T | null;
   tagLabels: Record<T, string>;
+  stats?: FilterStats; // without it, numeric and completion terms match nothing
+}
+
+function compare(actual: number, op: CompareOp, expected: number): boolean {
+  switch (op) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case "=":
+      return actual === expected;
+  }
+}
+
+function isInPeriod(date: string, period: DonePeriod, stats: FilterStats): boolean {
+  if (period === "ever") return true;
+  const day = toDayNumber(date, stats.timeZone);
+  const today = toDayNumber(stats.now, stats.timeZone);
+  if (period === "today") return day === today;
+  if (period === "this-week") {
+    return toWeekNumber(day, stats.weekStartsOn) === toWeekNumber(today, stats.weekStartsOn);
+  }
+  const month = (dayNumber: number) => {
+    const calendar = fromDayNumber(dayNumber);
+    return calendar.getUTCFullYear() * 12 + calendar.getUTCMonth();
+  };
+  return month(day) === month(today);
+}
+
+function matchesTerm(
+  item: Quest | ShopItem,
+  term: QueryTerm,
+  tagLabels: Record<string, string>,
+  stats: FilterStats | undefined
+): boolean {
+  const tags = item.tags || [];
+  switch (term.kind) {
+    case "text":
+      return (
+        fuzzyMatch(item.name, term.value) !== null ||
+        tags.some((tag) => {
+          const label = Object.hasOwn(tagLabels, tag) ? tagLabels[tag] : null;
+          return label ? label.toLowerCase().includes(term.value) : false;
+        })
+      );
+    case "tag":
+      return tags.some((tag) => {
+        const label = Object.hasOwn(tagLabels, tag) ? tagLabels[tag] : "";
+        return term.values.some(
+          (value) => normalizeTag(tag) === value || normalizeTag(label) === value
+        );
+      });
+    case "compare": {
+      if (!stats) return false;
+      const actual =
+        term.field === "amount"
+          ? "reward" in item
+            ? item.reward
+            : item.price
+          : term.field === "dollars"
+            ? toMajorUnits(item.dollar_amount || 0, stats.currency ?? DEFAULT_CURRENCY_CODE)
+            : stats.counts[item.id] || 0;
+      return compare(actual, term.op, term.value);
+    }
+    case "done": {
+      if (!stats) return false;
+      if (term.period === "ever") return (stats.counts[item.id] || 0) > 0;
+      const last = stats.lastUsed[item.id];
+      return last ? isInPeriod(last, term.period, stats) : false;
+    }
+  }
+}
+
+/**
+ * Whether an item satisfies a parsed query (an empty query matches everything)
+ */
+export function matchesQuery(
+  item: Quest | ShopItem,
+  query: ParsedQuery,
+  tagLabels: Record<string, string>,
+  stats?: FilterStats
+): boolean {
+  if (query.clauses.length === 0) return true;
+  return query.clauses.some((clause) =>
+    clause.every((term) => matchesTerm(item, term, tagLabels, stats) !== term.negated)
+  );
+}
+
+/**
+ * Name ranges to highlight for a query's (non-negated) text terms
+ */
+export function getHighlightRanges(name: string, query: ParsedQuery): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  query.clauses.flat().forEach((term) => {
+    if (term.kind !== "text" || term.negated) return;
+    const range = fuzzyMatch(name, term.value);
+    if (range) ranges.push(range);
+  });
+
+  // Sorted and merged, so they can be rendered in one pass
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
 }
 
 /**
@@ -19,29 +323,21 @@ export interface FilterOptions<T extends Tag | ShopTag> {
 export function filterItems<T extends Quest | ShopItem, U extends Tag | ShopTag>(
   options: FilterOptions<U>
 ): T[] {
-  const { items, searchQuery, selectedTag, tagLabels } = options;
+  const { items, searchQuery, selectedTag, tagLabels, stats } = options;
   let filtered = [...items] as T[];
 
   // Filter by tag
   if (selectedTag) {
     filtered = filtered.filter(
-      (item) => item.tags && item.tags.includes(selectedTag as any)
+      (item) => item.tags && item.tags.includes(selectedTag)
     );
   }
 
-  // Filter by search query (name or tag name)
-  if (searchQuery.trim()) {
-    const query = searchQuery.toLowerCase().trim();
-    filtered = filtered.filter((item) => {
-      const nameMatch = item.name.toLowerCase().includes(query);
-      const tagMatch = item.tags && item.tags.some((tag) => {
-        const tagLabel = tagLabels[tag as U];
-        return tagLabel ? tagLabel.toLowerCase().includes(query) : false;
-      });
-      return nameMatch || tagMatch;
-    });
+  // Filter by search query
+  const query = parseSearchQuery(searchQuery);
+  if (query.clauses.length > 0) {
+    filtered = filtered.filter((item) => matchesQuery(item, query, tagLabels, stats));
   }
 
   return filtered;
 }
-
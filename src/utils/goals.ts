@@ -0,0 +1,152 @@
+/**
+ * Get Kraken - Goal Utilities
+ *
+ * Utilities for goal milestones, allocation totals, and projected completion dates
+ */
+
+import type { Goal, QuestLog } from "../types";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const DEFAULT_MILESTONE_PERCENTS = [25, 50, 75, 100];
+export const EARNING_RATE_WINDOW_DAYS = 28;
+
+/**
+ * Milestone thresholds for a goal - custom ones if set, otherwise 25/50/75/100%
+ */
+export function getGoalMilestones(goal: Goal): number[] {
+  const thresholds =
+    goal.milestones && goal.milestones.length > 0
+      ? goal.milestones
+      : DEFAULT_MILESTONE_PERCENTS.map((percent) =>
+          Math.round((goal.target_amount * percent) / 100)
+        );
+  return [...new Set(thresholds)]
+    .filter((threshold) => threshold > 0 && threshold <= goal.target_amount)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Highest milestone the goal's allocation has reached (0 if none)
+ */
+export function getReachedMilestone(goal: Goal): number {
+  return getGoalMilestones(goal)
+    .filter((threshold) => goal.allocated_amount >= threshold)
+    .reduce((max, threshold) => Math.max(max, threshold), 0);
+}
+
+/**
+ * Next milestone the goal's allocation has not reached yet (null when done)
+ */
+export function getNextMilestone(goal: Goal): number | null {
+  return (
+    getGoalMilestones(goal).find((threshold) => goal.allocated_amount < threshold) ??
+    null
+  );
+}
+
+/**
+ * Whether the goal's allocation covers its targets
+ */
+export function isGoalMet(goal: Goal): boolean {
+  const dollarsMet = goal.dollar_amount
+    ? goal.allocated_dollar_amount >= goal.dollar_amount
+    : true;
+  return goal.allocated_amount >= goal.target_amount && dollarsMet;
+}
+
+/**
+ * Active goals ordered by priority, then deadline (soonest first), then age
+ */
+export function sortGoalsByPriority(goals: Goal[]): Goal[] {
+  return [...goals].sort((a, b) => {
+    if (a.is_completed !== b.is_completed) return a.is_completed ? 1 : -1;
+    if (a.priority !== b.priority) return a.priority - b.priority;
+    if (a.deadline !== b.deadline) {
+      if (!a.deadline) return 1;
+      if (!b.deadline) return -1;
+      return a.deadline.localeCompare(b.deadline);
+    }
+    return a.created_at.localeCompare(b.created_at);
+  });
+}
+
+/**
+ * Sand dollars allocated across active goals
+ */
+export function calculateAllocatedTotal(goals: Goal[]): {
+  total: number;
+  dollar_total: number;
+} {
+  return goals
+    .filter((goal) => !goal.is_completed)
+    .reduce(
+      (sum, goal) => ({
+        total: sum.total + goal.allocated_amount,
+        dollar_total: sum.dollar_total + goal.allocated_dollar_amount,
+      }),
+      { total: 0, dollar_total: 0 }
+    );
+}
+
+/**
+ * Average sand dollars earned per day over the recent window
+ */
+export function calculateEarningRate(
+  questLogs: QuestLog[],
+  now: Date,
+  windowDays: number = EARNING_RATE_WINDOW_DAYS
+): number {
+  const windowStart = now.getTime() - windowDays * MS_PER_DAY;
+  const earned = questLogs.reduce((sum, log) => {
+    const time = new Date(log.completed_at).getTime();
+    return time >= windowStart && time <= now.getTime()
+      ? sum + (log.reward ?? 0)
+      : sum;
+  }, 0);
+  return earned / windowDays;
+}
+
+/**
+ * Projects when each active goal will be fully funded at the current earning
+ * rate, assuming new earnings (plus any unallocated balance) go to goals in
+ * priority order. Goals that can't be projected (no recent earnings) map to null.
+ */
+export function projectGoalCompletions(
+  goals: Goal[],
+  earningRate: number,
+  unallocated: number,
+  now: Date
+): Record<string, Date | null> {
+  const projections: Record<string, Date | null> = {};
+  let available = Math.max(0, unallocated);
+  let cumulativeShortfall = 0;
+
+  sortGoalsByPriority(goals).forEach((goal) => {
+    if (goal.is_completed) return;
+    const remaining = Math.max(0, goal.target_amount - goal.allocated_amount);
+    const fromBalance = Math.min(available, remaining);
+    available -= fromBalance;
+    cumulativeShortfall += remaining - fromBalance;
+
+    if (cumulativeShortfall === 0) {
+      projections[goal.id] = now;
+    } else if (earningRate <= 0) {
+      projections[goal.id] = null;
+    } else {
+      const days = Math.ceil(cumulativeShortfall / earningRate);
+      projections[goal.id] = new Date(now.getTime() + days * MS_PER_DAY);
+    }
+  });
+
+  return projections;
+}
+
+/**
+ * Whether a projected completion date lands after the goal's deadline
+ */
+export function isBehindSchedule(goal: Goal, projected: Date | null | undefined): boolean {
+  if (!goal.deadline || goal.is_completed) return false;
+  // Deadline is a calendar date - the goal is on time if funded by the end of that day
+  const deadlineEnd = new Date(`${goal.deadline}T23:59:59`);
+  return !projected || projected.getTime() > deadlineEnd.getTime();
+}
@@ -0,0 +1,58 @@
+/**
+ * Get Kraken - Image Utilities
+ *
+ * Shrinks photos in the browser before upload, so phone camera images
+ * (often several MB) are stored as small JPEGs
+ */
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith("image/");
+}
+
+// Size that fits within maxDimension on the longest side, keeping the aspect ratio
+export function fitWithin(
+  width: number,
+  height: number,
+  maxDimension: number
+): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+/**
+ * Resizes and re-encodes an image as JPEG. EXIF orientation is applied by
+ * createImageBitmap, so rotated phone photos come out upright.
+ */
+export async function resizeImage(
+  file: File,
+  maxDimension: number,
+  quality: number
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, maxDimension);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Could not process image");
+    // JPEG has no transparency; keep transparent PNGs from turning black
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, width, height);
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Could not process image"))),
+        "image/jpeg",
+        quality
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+}
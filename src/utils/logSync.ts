@@ -0,0 +1,73 @@
+/**
+ * Get Kraken - Log Sync Utilities
+ *
+ * Applies realtime log changes to the loaded (newest first) log arrays
+ */
+
+export interface LogChange<L> {
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  new: L;
+  old: Partial<L>;
+}
+
+interface SyncedLog {
+  id: string;
+  reversed_at?: string | null;
+}
+
+// Insert keeping newest-first order (new rows almost always go on top)
+function insertByDate<L extends SyncedLog>(logs: L[], log: L, getDate: (log: L) => string): L[] {
+  const time = new Date(getDate(log)).getTime();
+  const index = logs.findIndex((existing) => new Date(getDate(existing)).getTime() <= time);
+  if (index === -1) return [...logs, log];
+  return [...logs.slice(0, index), log, ...logs.slice(index)];
+}
+
+/**
+ * Applies one change; reversed logs leave the list, since progress only
+ * counts active entries
+ */
+export function applyLogChange<L extends SyncedLog>(
+  logs: L[],
+  change: LogChange<L>,
+  getDate: (log: L) => string
+): L[] {
+  if (change.eventType === "DELETE") {
+    return logs.filter((log) => log.id !== change.old.id);
+  }
+
+  const next = change.new;
+  const rest = logs.filter((log) => log.id !== next.id);
+  if (next.reversed_at) return rest.length === logs.length ? logs : rest;
+  return insertByDate(rest, next, getDate);
+}
+
+/**
+ * How a change moves the count of active logs (used for history outside the
+ * loaded window, where only counts are kept)
+ */
+export function countDelta<L extends SyncedLog>(change: LogChange<L>): number {
+  switch (change.eventType) {
+    case "INSERT":
+      return change.new.reversed_at ? 0 : 1;
+    case "UPDATE":
+      return change.new.reversed_at && !change.old.reversed_at ? -1 : 0;
+    case "DELETE":
+      return change.old.reversed_at ? 0 : -1;
+  }
+}
+
+/**
+ * Adds counts together per key (loaded window + older history)
+ */
+export function addCounts(
+  ...counts: Record<string, number>[]
+): Record<string, number> {
+  const total: Record<string, number> = {};
+  counts.forEach((entry) => {
+    Object.entries(entry).forEach(([key, value]) => {
+      total[key] = (total[key] || 0) + value;
+    });
+  });
+  return total;
+}
@@ -0,0 +1,154 @@
+/**
+ * Get Kraken - Money Utilities
+ *
+ * Real-money amounts are stored as whole minor units (cents) in the
+ * household's currency. These helpers convert, parse and format them for the
+ * device locale, and derive coin values from the household's optional
+ * exchange rate.
+ */
+
+import { DEFAULT_CURRENCY_CODE } from "../constants";
+
+/**
+ * The household's money: ISO 4217 currency code and how many coins one
+ * whole unit of it is worth (null when coins and money are set separately)
+ */
+export interface MoneySettings {
+  currency: string;
+  coinsPerUnit: number | null;
+}
+
+export const DEFAULT_MONEY: MoneySettings = {
+  currency: DEFAULT_CURRENCY_CODE,
+  coinsPerUnit: null,
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(currency: string): Intl.NumberFormat {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, { style: "currency", currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the runtime knows the ISO 4217 code
+ */
+export function isValidCurrency(currency: string): boolean {
+  if (!/^[A-Z]{3}$/.test(currency)) return false;
+  try {
+    getFormatter(currency);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The household's currency, or the default when it's unknown here
+ */
+export function resolveCurrency(currency: string | null | undefined): string {
+  return currency && isValidCurrency(currency) ? currency : DEFAULT_CURRENCY_CODE;
+}
+
+/**
+ * Currency codes offered in pickers, with the given one guaranteed present
+ */
+export function getSupportedCurrencies(current: string = DEFAULT_CURRENCY_CODE): string[] {
+  const codes = Intl.supportedValuesOf?.("currency") ?? [DEFAULT_CURRENCY_CODE];
+  return codes.includes(current) ? codes : [current, ...codes];
+}
+
+/**
+ * Digits after the decimal point (2 for USD, 0 for JPY, 3 for KWD)
+ */
+export function getMinorUnitDigits(currency: string): number {
+  return getFormatter(resolveCurrency(currency)).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Minor units in one whole unit (100 for USD)
+ */
+export function getMinorUnitsPerUnit(currency: string): number {
+  return 10 ** getMinorUnitDigits(currency);
+}
+
+/**
+ * Local symbol for the currency ("$", "€", "CA$")
+ */
+export function getCurrencySymbol(currency: string): string {
+  const part = getFormatter(resolveCurrency(currency))
+    .formatToParts(0)
+    .find((p) => p.type === "currency");
+  return part?.value ?? currency;
+}
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * getMinorUnitsPerUnit(currency));
+}
+
+export function toMajorUnits(minor: number, currency: string): number {
+  return minor / getMinorUnitsPerUnit(currency);
+}
+
+/**
+ * Locale-formatted amount ("$12.50", "12,50 €"); signed adds "+" to gains
+ */
+export function formatMoney(minor: number, currency: string, signed = false): string {
+  const resolved = resolveCurrency(currency);
+  const formatted = getFormatter(resolved).format(toMajorUnits(Math.round(minor), resolved));
+  return signed && minor > 0 ? `+${formatted}` : formatted;
+}
+
+/**
+ * Minor units as an editable number without grouping or symbol ("12.50")
+ */
+export function toMoneyInput(minor: number, currency: string): string {
+  return toMajorUnits(minor, currency).toFixed(getMinorUnitDigits(currency));
+}
+
+/**
+ * Reads typed money ("12", "12.5", "12,50") into minor units. Returns null
+ * for anything else, including more decimals than the currency has.
+ */
+export function parseMoney(text: string, currency: string): number | null {
+  const trimmed = text.trim().replace(/^-/, "");
+  const match = /^(\d*)(?:[.,](\d*))?$/.exec(trimmed);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const digits = getMinorUnitDigits(currency);
+  const fraction = match[2] ?? "";
+  if (fraction.length > digits) return null;
+
+  const minor =
+    parseInt(match[1] || "0", 10) * 10 ** digits + parseInt(fraction.padEnd(digits, "0") || "0", 10);
+  return text.trim().startsWith("-") ? -minor : minor;
+}
+
+/**
+ * Coins a money amount is worth at the household rate, or null without one
+ */
+export function coinsForMoney(minor: number, money: MoneySettings): number | null {
+  if (!money.coinsPerUnit) return null;
+  return Math.round(toMajorUnits(minor, money.currency) * money.coinsPerUnit);
+}
+
+/**
+ * Money (minor units) a coin amount is worth at the household rate, or null without one
+ */
+export function moneyForCoins(coins: number, money: MoneySettings): number | null {
+  if (!money.coinsPerUnit) return null;
+  return toMinorUnits(coins / money.coinsPerUnit, money.currency);
+}
+
+/**
+ * "10 sand dollars = $1.00", or null without a rate
+ */
+export function describeExchangeRate(money: MoneySettings, currencyName: string): string | null {
+  if (!money.coinsPerUnit) return null;
+  const unit = formatMoney(getMinorUnitsPerUnit(money.currency), money.currency);
+  return `${money.coinsPerUnit} ${currencyName} = ${unit}`;
+}
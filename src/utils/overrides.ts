@@ -0,0 +1,100 @@
+/**
+ * Get Kraken - Override Utilities
+ *
+ * How household overrides apply on top of seeded quests and shop items, and
+ * the inverse: which override reproduces a given set of effective values
+ */
+
+import type { Quest, ShopItem, UserQuestOverride, UserShopItemOverride } from "../types";
+
+export type QuestOverrideFields = Pick<
+  UserQuestOverride,
+  "name" | "tags" | "reward" | "dollar_amount" | "cadence" | "grace_periods" | "schedule" | "unit" | "reward_per_unit" | "photo_url"
+>;
+
+export type ShopItemOverrideFields = Pick<
+  UserShopItemOverride,
+  "name" | "tags" | "price" | "dollar_amount" | "photo_url"
+>;
+
+/**
+ * Effective quest: override values win, null/empty fall back to the base quest
+ */
+export function applyQuestOverride(
+  baseQuest: Quest,
+  override: QuestOverrideFields | null | undefined
+): Quest {
+  if (!override) return baseQuest;
+
+  return {
+    ...baseQuest,
+    name: override.name || baseQuest.name,
+    tags: override.tags || baseQuest.tags,
+    reward: override.reward !== null && override.reward !== undefined ? override.reward : baseQuest.reward,
+    dollar_amount: override.dollar_amount !== null && override.dollar_amount !== undefined ? override.dollar_amount : baseQuest.dollar_amount,
+    cadence: override.cadence ?? baseQuest.cadence,
+    grace_periods: override.grace_periods ?? baseQuest.grace_periods,
+    schedule: override.schedule ?? baseQuest.schedule,
+    unit: override.unit ?? baseQuest.unit,
+    reward_per_unit: override.reward_per_unit ?? baseQuest.reward_per_unit,
+    photo_url: override.photo_url ?? baseQuest.photo_url,
+  };
+}
+
+export function applyShopItemOverride(
+  baseItem: ShopItem,
+  override: ShopItemOverrideFields | null | undefined
+): ShopItem {
+  if (!override) return baseItem;
+
+  return {
+    ...baseItem,
+    name: override.name || baseItem.name,
+    tags: override.tags || baseItem.tags,
+    price: override.price !== null && override.price !== undefined ? override.price : baseItem.price,
+    dollar_amount: override.dollar_amount !== null && override.dollar_amount !== undefined ? override.dollar_amount : baseItem.dollar_amount,
+    photo_url: override.photo_url ?? baseItem.photo_url,
+  };
+}
+
+function differs(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+}
+
+/**
+ * Override that turns the base quest into the effective one (null when no
+ * field differs). Only fields that differ are set, so later changes to the
+ * seeded quest still show through the rest.
+ */
+export function deriveQuestOverride(
+  baseQuest: Quest,
+  effective: QuestOverrideFields
+): QuestOverrideFields | null {
+  const override: QuestOverrideFields = {
+    name: differs(effective.name, baseQuest.name) ? effective.name : null,
+    tags: differs(effective.tags, baseQuest.tags) ? effective.tags : null,
+    reward: differs(effective.reward, baseQuest.reward) ? effective.reward : null,
+    dollar_amount: differs(effective.dollar_amount, baseQuest.dollar_amount) ? effective.dollar_amount : null,
+    cadence: differs(effective.cadence, baseQuest.cadence) ? effective.cadence : null,
+    grace_periods: differs(effective.grace_periods, baseQuest.grace_periods) ? effective.grace_periods : null,
+    schedule: differs(effective.schedule, baseQuest.schedule) ? effective.schedule : null,
+    unit: differs(effective.unit, baseQuest.unit) ? effective.unit : null,
+    reward_per_unit: differs(effective.reward_per_unit, baseQuest.reward_per_unit) ? effective.reward_per_unit : null,
+    photo_url: differs(effective.photo_url, baseQuest.photo_url) ? effective.photo_url : null,
+  };
+  return Object.values(override).some((value) => value !== null) ? override : null;
+}
+
+export function deriveShopItemOverride(
+  baseItem: ShopItem,
+  effective: ShopItemOverrideFields
+): ShopItemOverrideFields | null {
+  const override: ShopItemOverrideFields = {
+    name: differs(effective.name, baseItem.name) ? effective.name : null,
+    tags: differs(effective.tags, baseItem.tags) ? effective.tags : null,
+    price: differs(effective.price, baseItem.price) ? effective.price : null,
+    dollar_amount: differs(effective.dollar_amount, baseItem.dollar_amount) ? effective.dollar_amount : null,
+    photo_url: differs(effective.photo_url, baseItem.photo_url) ? effective.photo_url : null,
+  };
+  return Object.values(override).some((value) => value !== null) ? override : null;
+}
@@ -0,0 +1,145 @@
+/**
+ * Get Kraken - Preferences Document
+ *
+ * Each user's settings are one versioned JSON document (user_preferences.settings).
+ * Documents written by an older app are upgraded step by step on read, and any
+ * field that's missing or malformed falls back to its default.
+ */
+
+import { AUDIO_VOLUME, CURRENCY_NAME, CURRENCY_SYMBOL } from "../constants";
+
+export const PREFERENCES_VERSION = 2;
+
+export type AppView = "quests" | "shop" | "progress" | "settings";
+export const APP_VIEWS: AppView[] = ["quests", "shop", "progress", "settings"];
+
+export type ThemePreference = "system" | "light" | "dark";
+export const THEMES: { value: ThemePreference; label: string }[] = [
+  { value: "system", label: "Match device" },
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+];
+
+// "last" reopens whichever tab was open when the app was closed
+export type DefaultView = "last" | Exclude<AppView, "settings">;
+export const DEFAULT_VIEWS: { value: DefaultView; label: string }[] = [
+  { value: "last", label: "Last tab I used" },
+  { value: "quests", label: "Quests" },
+  { value: "shop", label: "Shop" },
+  { value: "progress", label: "Progress" },
+];
+
+export interface Preferences {
+  version: number;
+  show_dollar_amounts: boolean;
+  currency_name: string; // plural, lowercase ("sand dollars")
+  currency_icon: string; // emoji beside the real-dollar savings total
+  sound_enabled: boolean;
+  sound_volume: number; // 0-1
+  theme: ThemePreference;
+  default_view: DefaultView;
+  reminders_enabled: boolean;
+  reminder_lead_minutes: number;
+  time_zone: string | null; // IANA name; null follows the device
+  week_starts_on: number; // 0 = Sunday
+}
+
+export type PreferenceChanges = Partial<Omit<Preferences, "version">>;
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  version: PREFERENCES_VERSION,
+  show_dollar_amounts: false,
+  currency_name: CURRENCY_NAME,
+  currency_icon: CURRENCY_SYMBOL,
+  sound_enabled: true,
+  sound_volume: AUDIO_VOLUME,
+  theme: "system",
+  default_view: "last",
+  reminders_enabled: false,
+  reminder_lead_minutes: 0,
+  time_zone: null,
+  week_starts_on: 0,
+};
+
+type PreferenceDocument = Record<string, unknown>;
+
+// Upgrades from the version before each key. Version 1 is the shape of the
+// separate user_preferences columns, which ADD_PREFERENCES_DOCUMENT.sql copied
+// into the document.
+const MIGRATIONS: Record<number, (doc: PreferenceDocument) => PreferenceDocument> = {
+  // Currency, sound, theme and default view became settings; the old
+  // behaviour was the constants, sound on, the device theme and the last tab
+  2: (doc) => ({
+    ...doc,
+    currency_name: CURRENCY_NAME,
+    currency_icon: CURRENCY_SYMBOL,
+    sound_enabled: true,
+    sound_volume: AUDIO_VOLUME,
+    theme: "system",
+    default_view: "last",
+  }),
+};
+
+const isRecord = (value: unknown): value is PreferenceDocument =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function pickBoolean(doc: PreferenceDocument, key: keyof Preferences): boolean {
+  const value = doc[key];
+  return typeof value === "boolean" ? value : (DEFAULT_PREFERENCES[key] as boolean);
+}
+
+function pickNumber(doc: PreferenceDocument, key: keyof Preferences, min: number, max: number): number {
+  const value = doc[key];
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : (DEFAULT_PREFERENCES[key] as number);
+}
+
+function pickText(doc: PreferenceDocument, key: keyof Preferences, maxLength: number): string {
+  const value = doc[key];
+  return typeof value === "string" && value.trim() && value.trim().length <= maxLength
+    ? value.trim()
+    : (DEFAULT_PREFERENCES[key] as string);
+}
+
+function pickOption<T extends string>(doc: PreferenceDocument, key: keyof Preferences, options: { value: T }[]): T {
+  const value = doc[key];
+  const match = options.find((option) => option.value === value);
+  return match ? match.value : (DEFAULT_PREFERENCES[key] as T);
+}
+
+/**
+ * Reads a stored document of any version into the current shape. Documents
+ * from a newer app keep their version, so saving them doesn't downgrade it.
+ */
+export function migratePreferences(raw: unknown): Preferences {
+  let doc: PreferenceDocument = isRecord(raw) ? raw : {};
+  let version = typeof doc.version === "number" ? doc.version : 1;
+  while (version < PREFERENCES_VERSION) {
+    version += 1;
+    doc = MIGRATIONS[version]?.(doc) ?? doc;
+  }
+
+  const timeZone = doc.time_zone;
+  return {
+    version,
+    show_dollar_amounts: pickBoolean(doc, "show_dollar_amounts"),
+    currency_name: pickText(doc, "currency_name", 40),
+    currency_icon: pickText(doc, "currency_icon", 8),
+    sound_enabled: pickBoolean(doc, "sound_enabled"),
+    sound_volume: pickNumber(doc, "sound_volume", 0, 1),
+    theme: pickOption(doc, "theme", THEMES),
+    default_view: pickOption(doc, "default_view", DEFAULT_VIEWS),
+    reminders_enabled: pickBoolean(doc, "reminders_enabled"),
+    reminder_lead_minutes: pickNumber(doc, "reminder_lead_minutes", 0, 240),
+    time_zone: typeof timeZone === "string" && timeZone ? timeZone : null,
+    week_starts_on: Math.round(pickNumber(doc, "week_starts_on", 0, 6)),
+  };
+}
+
+/**
+ * "Sand Dollars" from "sand dollars", for headings and field labels
+ */
+export function toTitleCase(name: string): string {
+  return name.replace(/(^|\s)(\S)/g, (_match, space: string, letter: string) => space + letter.toUpperCase());
+}
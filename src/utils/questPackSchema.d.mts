@@ -0,0 +1,17 @@
+/**
+ * Get Kraken - Quest Pack Schema types (see questPackSchema.mjs)
+ */
+
+import type { QuestCadence, QuestSchedule } from "../types";
+
+export declare const PACK_FORMAT: "get-kraken-quest-pack";
+export declare const PACK_VERSION: number;
+
+export declare function isQuestCadence(value: unknown): value is QuestCadence;
+export declare function isQuestSchedule(value: unknown): value is QuestSchedule;
+
+export interface QuestPackCheckOptions {
+  isTagColor?: (color: string) => boolean;
+}
+
+export declare function getQuestPackErrors(value: unknown, options?: QuestPackCheckOptions): string[];
@@ -0,0 +1,149 @@
+/**
+ * Get Kraken - Quest Pack Schema
+ *
+ * The one check of a quest pack file's shape, shared by the app
+ * (src/utils/questPacks.ts) and the seed scripts (scripts/questPacks.mjs).
+ * Plain JavaScript so Node can run it without a build; types are in
+ * questPackSchema.d.mts. Cadences and schedules are checked against the same
+ * unions as QuestCadence and QuestSchedule (and the database constraints).
+ */
+
+export const PACK_FORMAT = "get-kraken-quest-pack";
+export const PACK_VERSION = 1;
+
+const MAX_REPORTED_ERRORS = 10;
+
+const isRecord = (value) => typeof value === "object" && value !== null && !Array.isArray(value);
+const isName = (value) => typeof value === "string" && value.trim().length > 0;
+const isAmount = (value) => Number.isInteger(value) && value >= 0;
+const isIntegerBetween = (value, min, max) => Number.isInteger(value) && value >= min && value <= max;
+const isKeyList = (value) => Array.isArray(value) && value.every((key) => typeof key === "string");
+const isWeekdayList = (value) =>
+  Array.isArray(value) &&
+  value.length >= 1 &&
+  value.length <= 7 &&
+  value.every((day) => isIntegerBetween(day, 0, 6));
+const isTime = (value) => typeof value === "string" && /^([01][0-9]|2[0-3]):[0-5][0-9]$/.test(value);
+const optional = (check) => (value) => value === undefined || check(value);
+const nullable = (check) => (value) => value === null || check(value);
+
+/**
+ * Whether a value is a QuestCadence
+ */
+export function isQuestCadence(value) {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case "daily":
+    case "weekly":
+      return true;
+    case "times_per_week":
+      return isIntegerBetween(value.times, 1, 7);
+    case "weekdays":
+      return isWeekdayList(value.days);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a value is a QuestSchedule
+ */
+export function isQuestSchedule(value) {
+  if (!isRecord(value) || !isTime(value.time)) return false;
+  switch (value.type) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return isWeekdayList(value.days);
+    case "monthly":
+      return isIntegerBetween(value.day, 1, 31);
+    default:
+      return false;
+  }
+}
+
+// Intl knows every ISO 4217 code the app can format
+function isCurrencyCode(value) {
+  if (typeof value !== "string" || !/^[A-Z]{3}$/.test(value)) return false;
+  try {
+    new Intl.NumberFormat("en-US", { style: "currency", currency: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checkEntries(label, value, fields, errors) {
+  if (!Array.isArray(value)) {
+    errors.push(`${label} must be a list`);
+    return;
+  }
+  value.forEach((entry, index) => {
+    if (!isRecord(entry)) {
+      errors.push(`${label}[${index}] must be an object`);
+      return;
+    }
+    Object.entries(fields).forEach(([field, check]) => {
+      if (!check(entry[field])) {
+        errors.push(`${label}[${index}].${field} is missing or invalid`);
+      }
+    });
+  });
+}
+
+/**
+ * Problems with a parsed pack file, or an empty list when it's a valid pack.
+ * Tag colors are checked with options.isTagColor when given (the seed
+ * scripts don't install tags, so they only need a string).
+ */
+export function getQuestPackErrors(value, options = {}) {
+  if (!isRecord(value) || value.format !== PACK_FORMAT) {
+    return ["This file is not a Get Kraken quest pack"];
+  }
+
+  const errors = [];
+  if (!Number.isInteger(value.version) || value.version < 1) {
+    errors.push("The pack version is missing or invalid");
+  } else if (value.version > PACK_VERSION) {
+    errors.push(
+      `This pack was made by a newer version of Get Kraken (format v${value.version}); update the app to install it`
+    );
+  }
+  if (!isName(value.id)) errors.push("id is missing or invalid");
+  if (!isName(value.name)) errors.push("name is missing or invalid");
+  if (typeof value.description !== "string") errors.push("description is missing or invalid");
+  if (value.currency !== undefined && !isCurrencyCode(value.currency)) {
+    errors.push("currency must be an ISO 4217 code");
+  }
+
+  const isTagColor = options.isTagColor ?? (() => true);
+  checkEntries("tags", value.tags, {
+    scope: (scope) => scope === "quest" || scope === "shop_item",
+    key: isName,
+    label: isName,
+    color: (color) => typeof color === "string" && isTagColor(color),
+  }, errors);
+  checkEntries("quests", value.quests, {
+    name: isName,
+    tags: isKeyList,
+    reward: isAmount,
+    dollar_amount: optional(isAmount),
+    cadence: optional(isQuestCadence),
+    grace_periods: optional((grace) => isIntegerBetween(grace, 0, 7)),
+    schedule: optional(nullable(isQuestSchedule)),
+    unit: optional(nullable((unit) => typeof unit === "string")),
+    reward_per_unit: optional(nullable(isAmount)),
+  }, errors);
+  checkEntries("shop_items", value.shop_items, {
+    name: isName,
+    tags: isKeyList,
+    price: isAmount,
+    dollar_amount: optional(isAmount),
+  }, errors);
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${extra} more`];
+  }
+  return errors;
+}
@@ -0,0 +1,207 @@
+/**
+ * Get Kraken - Quest Pack Utilities
+ *
+ * Quest packs are versioned JSON files of quests, shop items and the tags
+ * they use (see src/packs). The app installs them as the household's own
+ * quests and items, exports the household's catalog as a pack to share, and
+ * the seed scripts read the same format.
+ */
+
+import type { Quest, QuestCadence, QuestSchedule, ShopItem, TagDefinition, TagScope } from "../types";
+import { DEFAULT_TAG_COLOR, isTagColor } from "./tagPalette";
+import type { TagColor } from "./tagPalette";
+import { PACK_FORMAT, PACK_VERSION, getQuestPackErrors } from "./questPackSchema.mjs";
+import fitnessPack from "../packs/fitness.json";
+import declutteringPack from "../packs/decluttering.json";
+import studyPack from "../packs/study.json";
+
+export { PACK_FORMAT, PACK_VERSION };
+
+export interface PackTag {
+  scope: TagScope;
+  key: string;
+  label: string;
+  color: TagColor;
+}
+
+export interface PackQuest {
+  name: string;
+  tags: string[]; // tag keys
+  reward: number;
+  dollar_amount?: number; // in cents of the pack's currency
+  cadence?: QuestCadence;
+  grace_periods?: number;
+  schedule?: QuestSchedule | null;
+  unit?: string | null;
+  reward_per_unit?: number | null;
+}
+
+export interface PackShopItem {
+  name: string;
+  tags: string[];
+  price: number;
+  dollar_amount?: number;
+}
+
+export interface QuestPack {
+  format: typeof PACK_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  currency?: string; // only needed when the pack has money amounts
+  tags: PackTag[];
+  quests: PackQuest[];
+  shop_items: PackShopItem[];
+}
+
+// ---- Validation ----
+
+/**
+ * Checks a parsed file against the pack schema (shared with the seed
+ * scripts). Returns the pack only when there are no errors.
+ */
+export function validateQuestPack(value: unknown): { pack: QuestPack | null; errors: string[] } {
+  const errors = getQuestPackErrors(value, { isTagColor });
+  return { pack: errors.length === 0 ? (value as QuestPack) : null, errors };
+}
+
+// Curated packs offered in the app (checked like any other pack file)
+export const BUILT_IN_PACKS: QuestPack[] = [fitnessPack, declutteringPack, studyPack]
+  .map((pack) => validateQuestPack(pack).pack)
+  .filter((pack): pack is QuestPack => pack !== null);
+
+// ---- Installing ----
+
+// What the installing household already has
+export interface PackInstallTarget {
+  tags: TagDefinition[];
+  quests: Quest[]; // everything the household sees
+  shopItems: ShopItem[];
+  currency: string;
+}
+
+export interface PackInstallPlan {
+  packName: string;
+  newTags: (PackTag & { position: number })[];
+  newQuests: PackQuest[];
+  newShopItems: PackShopItem[];
+  skipped: string[]; // names the household already has
+  dropsMoney: boolean; // the pack's money amounts are in another currency
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export function planPackInstall(pack: QuestPack, target: PackInstallTarget): PackInstallPlan {
+  // Money amounts only carry over in the same currency
+  const dropsMoney =
+    !!pack.currency &&
+    pack.currency !== target.currency &&
+    [...pack.quests, ...pack.shop_items].some((entry) => (entry.dollar_amount ?? 0) > 0);
+  const withoutMoney = <T extends { dollar_amount?: number }>(entry: T): T =>
+    dropsMoney ? { ...entry, dollar_amount: 0 } : entry;
+
+  const questNames = new Set(target.quests.map((quest) => normalizeName(quest.name)));
+  const itemNames = new Set(target.shopItems.map((item) => normalizeName(item.name)));
+  const skipped: string[] = [];
+  const newQuests = pack.quests.filter((quest) => {
+    if (questNames.has(normalizeName(quest.name))) {
+      skipped.push(quest.name);
+      return false;
+    }
+    return true;
+  });
+  const newShopItems = pack.shop_items.filter((item) => {
+    if (itemNames.has(normalizeName(item.name))) {
+      skipped.push(item.name);
+      return false;
+    }
+    return true;
+  });
+
+  // Tags are matched by key and go after the household's own, in pack order
+  const used = new Set([
+    ...newQuests.flatMap((quest) => quest.tags.map((key) => `quest:${key}`)),
+    ...newShopItems.flatMap((item) => item.tags.map((key) => `shop_item:${key}`)),
+  ]);
+  const existing = new Set(target.tags.map((tag) => `${tag.scope}:${tag.key}`));
+  const nextPosition: Record<TagScope, number> = { quest: 0, shop_item: 0 };
+  target.tags.forEach((tag) => {
+    nextPosition[tag.scope] = Math.max(nextPosition[tag.scope], tag.position + 1);
+  });
+  const newTags = pack.tags
+    .filter((tag) => used.has(`${tag.scope}:${tag.key}`) && !existing.has(`${tag.scope}:${tag.key}`))
+    .map((tag) => ({ ...tag, position: nextPosition[tag.scope]++ }));
+
+  return {
+    packName: pack.name,
+    newTags,
+    newQuests: newQuests.map(withoutMoney),
+    newShopItems: newShopItems.map(withoutMoney),
+    skipped,
+    dropsMoney,
+  };
+}
+
+// ---- Exporting ----
+
+export interface PackSource {
+  name: string;
+  description: string;
+  tags: TagDefinition[];
+  quests: Quest[];
+  shopItems: ShopItem[];
+  currency: string;
+}
+
+const toPackId = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "my-pack";
+
+/**
+ * The household's quests and shop items as a shareable pack, with the tags
+ * they use. Progress (completion counts, history) and photos are left out.
+ */
+export function buildQuestPack(source: PackSource): QuestPack {
+  const used = new Set([
+    ...source.quests.flatMap((quest) => quest.tags.map((key) => `quest:${key}`)),
+    ...source.shopItems.flatMap((item) => item.tags.map((key) => `shop_item:${key}`)),
+  ]);
+  const tags = source.tags
+    .filter((tag) => used.has(`${tag.scope}:${tag.key}`))
+    .sort((a, b) => a.position - b.position);
+  const defined = new Set(tags.map((tag) => `${tag.scope}:${tag.key}`));
+
+  return {
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    id: toPackId(source.name),
+    name: source.name.trim(),
+    description: source.description.trim(),
+    currency: source.currency,
+    tags: tags.map((tag) => ({
+      scope: tag.scope,
+      key: tag.key,
+      label: tag.label,
+      color: isTagColor(tag.color) ? tag.color : DEFAULT_TAG_COLOR,
+    })),
+    quests: source.quests.map((quest) => ({
+      name: quest.name,
+      // Keys without a definition (deleted tags) would install as unlabeled tags
+      tags: quest.tags.filter((key) => defined.has(`quest:${key}`)),
+      reward: quest.reward,
+      dollar_amount: quest.dollar_amount || 0,
+      cadence: quest.cadence ?? { type: "daily" },
+      grace_periods: quest.grace_periods ?? 0,
+      schedule: quest.schedule ?? null,
+      unit: quest.unit ?? null,
+      reward_per_unit: quest.reward_per_unit ?? null,
+    })),
+    shop_items: source.shopItems.map((item) => ({
+      name: item.name,
+      tags: item.tags.filter((key) => defined.has(`shop_item:${key}`)),
+      price: item.price,
+      dollar_amount: item.dollar_amount || 0,
+    })),
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Get Kraken - Reward Rule Utilities
+ *
+ * Evaluates a user's reward rules for a quest completion: streak and weekday
+ * multipliers, a first-quest-of-the-day bonus and tag combos. A pure function
+ * of (rules, logs, now, time zone), so the bonus shown is the bonus credited.
+ */
+
+import type { Quest, QuestLog, RewardBonus, RewardRule, RewardRuleConfig, RewardRuleKind } from "../types";
+import { getWeekday, toDayNumber } from "./dates";
+import { calculateStreak, WEEKDAY_LABELS } from "./streaks";
+
+export const REWARD_RULE_KINDS: { kind: RewardRuleKind; label: string }[] = [
+  { kind: "streak_multiplier", label: "Streak multiplier" },
+  { kind: "first_of_day", label: "First quest of the day" },
+  { kind: "weekday_multiplier", label: "Day-of-week multiplier" },
+  { kind: "tag_combo", label: "Tag combo" },
+];
+
+export interface RewardContext {
+  quest: Pick<Quest, "id" | "tags" | "cadence" | "grace_periods">;
+  baseReward: number;
+  quests: Pick<Quest, "id" | "tags">[]; // for tag combos
+  logs: Pick<QuestLog, "quest_id" | "user_id" | "completed_at" | "reversed_at">[]; // before this completion
+  userId: string;
+  tagLabels?: Record<string, string>;
+  now: Date;
+  timeZone: string;
+  weekStartsOn?: number;
+}
+
+export interface RewardResult {
+  bonuses: RewardBonus[];
+  bonusTotal: number;
+  total: number; // base reward plus bonuses
+}
+
+const formatMultiplier = (multiplier: number) => `×${Number(multiplier.toFixed(2))}`;
+
+/**
+ * Short name of a rule, used as its bonus label ("🔥 Streak 7+ ×1.5", "💪 Health combo")
+ */
+export function getRewardRuleName(
+  rule: RewardRuleConfig,
+  tagLabels: Record<string, string> = {}
+): string {
+  switch (rule.kind) {
+    case "streak_multiplier":
+      return `🔥 Streak ${rule.params.min_streak}+ ${formatMultiplier(rule.params.multiplier)}`;
+    case "first_of_day":
+      return "☀️ First quest of the day";
+    case "weekday_multiplier": {
+      const days = [...rule.params.weekdays].sort((a, b) => a - b);
+      const name =
+        days.length === 2 && days[0] === 0 && days[1] === 6
+          ? "Weekend"
+          : days.map((day) => WEEKDAY_LABELS[day]).join("/");
+      return `🎉 ${name} ${formatMultiplier(rule.params.multiplier)}`;
+    }
+    case "tag_combo": {
+      const tag = rule.params.tag;
+      const label = Object.hasOwn(tagLabels, tag) ? tagLabels[tag] : tag;
+      return `💪 ${label} combo`;
+    }
+  }
+}
+
+/**
+ * Name plus the flat amount, for listing rules ("💪 Health combo +20")
+ */
+export function describeRewardRule(
+  rule: RewardRuleConfig,
+  tagLabels: Record<string, string> = {}
+): string {
+  const name = getRewardRuleName(rule, tagLabels);
+  return "amount" in rule.params ? `${name} +${rule.params.amount}` : name;
+}
+
+// Bonus a single rule adds, or 0 when it doesn't apply
+function evaluateRule(rule: RewardRuleConfig, context: RewardContext): number {
+  const { quest, baseReward, now, timeZone, weekStartsOn = 0 } = context;
+  const today = toDayNumber(now, timeZone);
+  const active = context.logs.filter((log) => !log.reversed_at);
+  // The user's own completions today, before this one
+  const mineToday = active.filter(
+    (log) => log.user_id === context.userId && toDayNumber(log.completed_at, timeZone) === today
+  );
+
+  switch (rule.kind) {
+    case "streak_multiplier": {
+      // The quest's streak as shown on its card, counting this completion
+      const completions = active
+        .filter((log) => log.quest_id === quest.id)
+        .map((log) => log.completed_at);
+      const streak = calculateStreak([...completions, now.toISOString()], quest.cadence, {
+        now,
+        timeZone,
+        gracePeriods: quest.grace_periods ?? 0,
+        weekStartsOn,
+      });
+      return streak.current_streak >= rule.params.min_streak
+        ? Math.round(baseReward * (rule.params.multiplier - 1))
+        : 0;
+    }
+    case "first_of_day":
+      return mineToday.length === 0 ? rule.params.amount : 0;
+    case "weekday_multiplier":
+      return rule.params.weekdays.includes(getWeekday(today))
+        ? Math.round(baseReward * (rule.params.multiplier - 1))
+        : 0;
+    case "tag_combo": {
+      const { tag } = rule.params;
+      if (!(quest.tags || []).includes(tag)) return 0;
+      const doneToday = new Set(mineToday.map((log) => log.quest_id));
+      // Only the completion that finishes the set earns the combo
+      if (doneToday.has(quest.id)) return 0;
+      doneToday.add(quest.id);
+      return context.quests
+        .filter((candidate) => (candidate.tags || []).includes(tag))
+        .every((candidate) => doneToday.has(candidate.id))
+        ? rule.params.amount
+        : 0;
+    }
+  }
+}
+
+/**
+ * Bonuses the enabled rules add to a completion. Multipliers each add
+ * (multiplier - 1) × the base reward, so several stack additively and every
+ * bonus can be itemized. Bonuses are sea dollars only.
+ */
+export function evaluateRewardRules(rules: RewardRule[], context: RewardContext): RewardResult {
+  const bonuses: RewardBonus[] = [];
+  rules.forEach((rule) => {
+    if (!rule.enabled) return;
+    const amount = Math.max(0, evaluateRule(rule, context));
+    if (amount > 0) {
+      bonuses.push({ rule_id: rule.id, label: getRewardRuleName(rule, context.tagLabels), amount });
+    }
+  });
+  const bonusTotal = bonuses.reduce((sum, bonus) => sum + bonus.amount, 0);
+  return { bonuses, bonusTotal, total: context.baseReward + bonusTotal };
+}
+
+/**
+ * Bonus lines for a toast or log ("🔥 Streak 7+ ×1.5 +5, ☀️ First quest of the day +5")
+ */
+export function formatBonuses(bonuses: RewardBonus[]): string {
+  return bonuses.map((bonus) => `${bonus.label} +${bonus.amount}`).join(", ");
+}
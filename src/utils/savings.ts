@@ -0,0 +1,100 @@
+/**
+ * Get Kraken - Savings Utilities
+ *
+ * Reconciles the money quests have accrued (wallet.dollar_total) with the
+ * transfers logged into real savings buckets. All amounts are in cents.
+ */
+
+import type { SavingsBucket, SavingsTransfer } from "../types";
+import { fromDayNumber, toDayNumber } from "./dates";
+
+export interface BucketBalance {
+  bucket: SavingsBucket;
+  deposited: number;
+  withdrawn: number; // positive
+  balance: number;
+  lastTransferOn: string | null;
+}
+
+export interface SavingsReconciliation {
+  accrued: number; // the wallet's money total
+  transferred: number; // deposits minus withdrawals, across buckets
+  untransferred: number; // accrued but not yet moved; negative when transfers are ahead
+  buckets: BucketBalance[];
+}
+
+// A transfer with the net amount transferred once it landed
+export interface TransferHistoryEntry {
+  transfer: SavingsTransfer;
+  runningTotal: number;
+}
+
+// Oldest first; same-day transfers in the order they were logged
+const byTransferDate = (a: SavingsTransfer, b: SavingsTransfer) =>
+  a.transferred_on.localeCompare(b.transferred_on) || a.created_at.localeCompare(b.created_at);
+
+export function reconcileSavings(
+  dollarTotal: number,
+  buckets: SavingsBucket[],
+  transfers: SavingsTransfer[]
+): SavingsReconciliation {
+  const balances = new Map<string, BucketBalance>(
+    buckets.map((bucket) => [
+      bucket.id,
+      { bucket, deposited: 0, withdrawn: 0, balance: 0, lastTransferOn: null },
+    ])
+  );
+
+  let transferred = 0;
+  transfers.forEach((transfer) => {
+    transferred += transfer.amount;
+    const balance = balances.get(transfer.bucket_id);
+    if (!balance) return;
+    if (transfer.amount > 0) {
+      balance.deposited += transfer.amount;
+    } else {
+      balance.withdrawn -= transfer.amount;
+    }
+    balance.balance += transfer.amount;
+    if (!balance.lastTransferOn || transfer.transferred_on > balance.lastTransferOn) {
+      balance.lastTransferOn = transfer.transferred_on;
+    }
+  });
+
+  return {
+    accrued: dollarTotal,
+    transferred,
+    untransferred: dollarTotal - transferred,
+    buckets: [...balances.values()],
+  };
+}
+
+/**
+ * Transfers newest first, each with the total transferred up to and including it
+ */
+export function getTransferHistory(transfers: SavingsTransfer[]): TransferHistoryEntry[] {
+  let runningTotal = 0;
+  return [...transfers]
+    .sort(byTransferDate)
+    .map((transfer) => {
+      runningTotal += transfer.amount;
+      return { transfer, runningTotal };
+    })
+    .reverse();
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) an instant falls on in the time zone
+ */
+export function toTransferDate(date: Date, timeZone: string): string {
+  return fromDayNumber(toDayNumber(date, timeZone)).toISOString().slice(0, 10);
+}
+
+export function formatTransferDate(transferredOn: string): string {
+  return new Date(`${transferredOn}T00:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * Get Kraken - Schedule Utilities
+ *
+ * Computes when scheduled quests are due (in the user's time zone), what
+ * belongs on the Today list, and which reminders to hand to the service worker
+ */
+
+import type { QuestSchedule } from "../types";
+import { WEEKDAY_LABELS } from "./streaks";
+import { fromDayNumber, getWeekday, toDayNumber, zonedTimeToDate } from "./dates";
+
+const MS_PER_MINUTE = 1000 * 60;
+const LOOKBACK_DAYS = 62; // long enough to find last month's occurrence
+
+export type ScheduleStatus = "overdue" | "due" | "upcoming" | "done";
+
+export interface ScheduleState {
+  status: ScheduleStatus;
+  occurrence: Date; // the occurrence the status refers to
+}
+
+export interface Reminder {
+  id: string; // quest id + occurrence time, stable across syncs
+  questId: string;
+  title: string;
+  body: string;
+  at: number; // epoch ms
+}
+
+function parseTime(time: string): { hours: number; minutes: number } {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part) || 0);
+  return { hours, minutes };
+}
+
+/**
+ * Whether the schedule has an occurrence on the given calendar day (day number)
+ */
+function occursOn(schedule: QuestSchedule, day: number): boolean {
+  switch (schedule.type) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return schedule.days.includes(getWeekday(day));
+    case "monthly": {
+      // Days past the end of a short month fall on its last day
+      const calendar = fromDayNumber(day);
+      const lastDay = new Date(
+        Date.UTC(calendar.getUTCFullYear(), calendar.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      return calendar.getUTCDate() === Math.min(schedule.day, lastDay);
+    }
+  }
+}
+
+function occurrenceOn(schedule: QuestSchedule, day: number, timeZone: string): Date {
+  const { hours, minutes } = parseTime(schedule.time);
+  return zonedTimeToDate(day, hours * 60 + minutes, timeZone);
+}
+
+/**
+ * Occurrences between two instants (inclusive), in chronological order
+ */
+export function getOccurrences(
+  schedule: QuestSchedule,
+  from: Date,
+  to: Date,
+  timeZone: string
+): Date[] {
+  const occurrences: Date[] = [];
+  const lastDay = toDayNumber(to, timeZone);
+  for (let day = toDayNumber(from, timeZone); day <= lastDay; day++) {
+    if (!occursOn(schedule, day)) continue;
+    const occurrence = occurrenceOn(schedule, day, timeZone);
+    if (occurrence >= from && occurrence <= to) occurrences.push(occurrence);
+  }
+  return occurrences;
+}
+
+/**
+ * Where a scheduled quest stands today. The latest occurrence up to the end of
+ * today is done if the quest was completed on or after that occurrence's day;
+ * otherwise it's overdue (earlier day), due (time has passed) or upcoming.
+ * Returns null when the schedule has no occurrence in the lookback window.
+ */
+export function getScheduleState(
+  schedule: QuestSchedule,
+  lastCompleted: string | null,
+  now: Date,
+  timeZone: string
+): ScheduleState | null {
+  const today = toDayNumber(now, timeZone);
+  const todayEnd = new Date(zonedTimeToDate(today + 1, 0, timeZone).getTime() - 1);
+  const from = zonedTimeToDate(today - LOOKBACK_DAYS, 0, timeZone);
+  const occurrence = getOccurrences(schedule, from, todayEnd, timeZone).pop();
+  if (!occurrence) return null;
+
+  const occurrenceDay = toDayNumber(occurrence, timeZone);
+  const completed =
+    lastCompleted !== null && toDayNumber(lastCompleted, timeZone) >= occurrenceDay;
+
+  let status: ScheduleStatus;
+  if (completed) status = "done";
+  else if (occurrenceDay < today) status = "overdue";
+  else if (occurrence <= now) status = "due";
+  else status = "upcoming";
+
+  return { status, occurrence };
+}
+
+/**
+ * Reminders for the upcoming window, leadMinutes before each occurrence.
+ * Quests already completed for an occurrence's day are skipped.
+ */
+export function getUpcomingReminders(
+  quests: { id: string; name: string; schedule?: QuestSchedule | null }[],
+  lastCompletedByQuest: Record<string, string | null>,
+  now: Date,
+  {
+    timeZone,
+    windowHours = 24,
+    leadMinutes = 0,
+  }: { timeZone: string; windowHours?: number; leadMinutes?: number }
+): Reminder[] {
+  const lead = leadMinutes * MS_PER_MINUTE;
+  const windowEnd = new Date(now.getTime() + windowHours * 60 * MS_PER_MINUTE + lead);
+  const reminders: Reminder[] = [];
+
+  quests.forEach((quest) => {
+    const schedule = quest.schedule;
+    if (!schedule) return;
+    const lastCompleted = lastCompletedByQuest[quest.id] ?? null;
+    getOccurrences(schedule, now, windowEnd, timeZone).forEach((occurrence) => {
+      const at = occurrence.getTime() - lead;
+      if (at < now.getTime()) return;
+      if (
+        lastCompleted &&
+        toDayNumber(lastCompleted, timeZone) >= toDayNumber(occurrence, timeZone)
+      ) {
+        return;
+      }
+      reminders.push({
+        id: `${quest.id}:${occurrence.getTime()}`,
+        questId: quest.id,
+        title: `🦑 ${quest.name}`,
+        body:
+          leadMinutes > 0
+            ? `Due at ${formatTime(schedule.time)}`
+            : "Due now - tap to open Get Kraken",
+        at,
+      });
+    });
+  });
+
+  return reminders.sort((a, b) => a.at - b.at);
+}
+
+/**
+ * "7:00 AM" from "07:00"
+ */
+export function formatTime(time: string): string {
+  const { hours, minutes } = parseTime(time);
+  const date = new Date(2000, 0, 1, hours, minutes);
+  return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+}
+
+function ordinal(day: number): string {
+  const suffix =
+    day % 100 >= 11 && day % 100 <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][day % 10] || "th";
+  return `${day}${suffix}`;
+}
+
+/**
+ * Human-readable schedule ("Weekdays at 7:00 AM", "1st of the month at 9:00 AM")
+ */
+export function formatSchedule(schedule: QuestSchedule): string {
+  const time = formatTime(schedule.time);
+  switch (schedule.type) {
+    case "daily":
+      return `Every day at ${time}`;
+    case "weekdays": {
+      const days = [...schedule.days].sort((a, b) => a - b);
+      const label =
+        days.join(",") === "1,2,3,4,5"
+          ? "Weekdays"
+          : days.map((day) => WEEKDAY_LABELS[day]).join(", ");
+      return `${label} at ${time}`;
+    }
+    case "monthly":
+      return `${ordinal(schedule.day)} of the month at ${time}`;
+  }
+}
@@ -4,37 +4,24 @@
  */
 
 import { supabase } from "../lib/supabase";
+import { validateQuestPack } from "./questPacks";
+import { DEFAULT_CURRENCY_CODE } from "../constants";
+import commonHabitsPack from "../packs/common-habits.json";
 
-export const INITIAL_QUESTS = [
-  "Study FE for 1 hour",
-  "Complete Dry January",
-  "Dinner at home",
-  "Bike 1 mile outside",
-  "Bike 5 miles inside",
-  "Sell off a clutter item",
-  "Organize the pantry",
-  "Clean and organize our tools",
-  "Clean and organize our screws, nails, etc.",
-  "Declutter our bathroom supplies",
-  "Complete a 1 hour gym class",
-  "Hike 5 miles",
-  "Teach Augie to use his speech buttons",
-  "Climb for 1 hour",
-  "Kayak class III",
-  "Kayak class IV",
-  "Finish a Codecademy module",
-  "Finish Full Stack Developer course",
-  "Pass a Codecademy exam",
-  "Pass the FE exam",
-  "Give a positive performance review",
-  "Exercise together",
-  "Lose 5 lbs",
-  "Do 25 jumping jacks",
-  "Do 5 push ups",
-];
+/**
+ * Seeds a quest pack's quests as shared rows (the common habits by default),
+ * skipping names already in the database
+ */
+export async function seedQuests(pack: unknown = commonHabitsPack): Promise<void> {
+  const { pack: validPack, errors } = validateQuestPack(pack);
+  if (!validPack) {
+    throw new Error(`Not a valid quest pack: ${errors.join("; ")}`);
+  }
+  const quests = validPack.quests;
+  // Shared rows hold cents of the default currency
+  const keepsMoney = !validPack.currency || validPack.currency === DEFAULT_CURRENCY_CODE;
 
-export async function seedQuests(): Promise<void> {
-  console.log("🌱 Seeding quests...");
+  console.log(`🌱 Seeding quests from the ${validPack.name} pack...`);
 
   // Check existing quests to avoid duplicates
   const { data: existingQuests } = await supabase.from("quests").select("name");
@@ -42,7 +29,7 @@ export async function seedQuests(): Promise<void> {
   const existingNames = new Set(
     existingQuests?.map((q: { name: string }) => q.name) || []
   );
-  const newQuests = INITIAL_QUESTS.filter((name) => !existingNames.has(name));
+  const newQuests = quests.filter((quest) => !existingNames.has(quest.name));
 
   if (newQuests.length === 0) {
     console.log("✅ All quests already exist!");
@@ -50,9 +37,16 @@ export async function seedQuests(): Promise<void> {
   }
 
   const now = new Date().toISOString();
-  const questsToInsert = newQuests.map((name) => ({
-    name,
-    reward: 10,
+  const questsToInsert = newQuests.map((quest) => ({
+    name: quest.name,
+    tags: quest.tags,
+    reward: quest.reward,
+    dollar_amount: keepsMoney ? (quest.dollar_amount ?? 0) : 0,
+    cadence: quest.cadence ?? { type: "daily" },
+    grace_periods: quest.grace_periods ?? 0,
+    schedule: quest.schedule ?? null,
+    unit: quest.unit ?? null,
+    reward_per_unit: quest.reward_per_unit ?? null,
     photo_url: null,
     completion_count: 0,
     created_at: now,
@@ -66,7 +60,7 @@ export async function seedQuests(): Promise<void> {
 
   if (error) {
     console.error("❌ Error seeding quests:", error);
-    throw error;
+    throw new Error(error.message);
   }
 
   console.log(`✅ Successfully created ${data?.length || 0} new quests!`);
@@ -74,10 +68,10 @@ export async function seedQuests(): Promise<void> {
     console.log(`${index + 1}. ${quest.name} (${quest.reward} kibblings)`);
   });
 
-  if (INITIAL_QUESTS.length - newQuests.length > 0) {
+  if (quests.length - newQuests.length > 0) {
     console.log(
       `⚠️  ${
-        INITIAL_QUESTS.length - newQuests.length
+        quests.length - newQuests.length
       } quests were already in the database.`
     );
   }
@@ -0,0 +1,162 @@
+/**
+ * Get Kraken - Sorting Utilities
+ *
+ * Sort modes for the quest and shop grids. Starred items are always pinned to
+ * the top; the mode orders the rest (and the starred items among themselves).
+ */
+
+import { getScheduleState } from "./schedules";
+import type { ScheduleStatus } from "./schedules";
+import type { StreakResult } from "./streaks";
+import type { Quest } from "../types";
+
+export type SortMode =
+  | "alphabetical"
+  | "custom" // the user's drag-to-reorder order
+  | "most_used" // most completed / most purchased
+  | "recently_used"
+  | "amount" // reward / price, highest first
+  | "due_first"; // quests only
+
+export const QUEST_SORT_OPTIONS: { mode: SortMode; label: string }[] = [
+  { mode: "alphabetical", label: "A–Z" },
+  { mode: "custom", label: "My order" },
+  { mode: "due_first", label: "Due first" },
+  { mode: "most_used", label: "Most completed" },
+  { mode: "recently_used", label: "Recently completed" },
+  { mode: "amount", label: "Highest reward" },
+];
+
+export const SHOP_SORT_OPTIONS: { mode: SortMode; label: string }[] = [
+  { mode: "alphabetical", label: "A–Z" },
+  { mode: "custom", label: "My order" },
+  { mode: "most_used", label: "Most purchased" },
+  { mode: "recently_used", label: "Recently purchased" },
+  { mode: "amount", label: "Highest price" },
+];
+
+export const DEFAULT_SORT_MODE: SortMode = "alphabetical";
+
+export interface SortContext<T> {
+  starredIds: Set<string>;
+  positions: Record<string, number>; // custom order
+  counts: Record<string, number>; // completions / purchases
+  lastUsed: Record<string, string>; // latest completion / purchase
+  getAmount: (item: T) => number;
+  dueRanks?: Record<string, number>; // lower is more urgent (quests only)
+}
+
+type Comparator<T> = (a: T, b: T) => number;
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+// Missing values sort last
+const descending = (a: number | undefined, b: number | undefined) =>
+  (b ?? -Infinity) - (a ?? -Infinity);
+const ascending = (a: number | undefined, b: number | undefined) =>
+  (a ?? Infinity) - (b ?? Infinity);
+
+function comparatorFor<T extends { id: string; name: string }>(
+  mode: SortMode,
+  context: SortContext<T>
+): Comparator<T> {
+  switch (mode) {
+    case "alphabetical":
+      return byName;
+    case "custom":
+      return (a, b) => ascending(context.positions[a.id], context.positions[b.id]);
+    case "most_used":
+      return (a, b) => descending(context.counts[a.id] || 0, context.counts[b.id] || 0);
+    case "recently_used": {
+      const time = (id: string) =>
+        context.lastUsed[id] ? new Date(context.lastUsed[id]).getTime() : undefined;
+      return (a, b) => descending(time(a.id), time(b.id));
+    }
+    case "amount":
+      return (a, b) => descending(context.getAmount(a), context.getAmount(b));
+    case "due_first":
+      return (a, b) => ascending(context.dueRanks?.[a.id], context.dueRanks?.[b.id]);
+  }
+}
+
+/**
+ * Sorts a copy of the items: starred first, then by mode, then by name
+ */
+export function sortItems<T extends { id: string; name: string }>(
+  items: T[],
+  mode: SortMode,
+  context: SortContext<T>
+): T[] {
+  const compare = comparatorFor(mode, context);
+  return [...items].sort((a, b) => {
+    const pinned = Number(context.starredIds.has(b.id)) - Number(context.starredIds.has(a.id));
+    return pinned || compare(a, b) || byName(a, b);
+  });
+}
+
+/**
+ * Latest log date per item (logs in any order)
+ */
+export function latestLogDates<L>(
+  logs: L[],
+  getId: (log: L) => string,
+  getDate: (log: L) => string
+): Record<string, string> {
+  const latest: Record<string, string> = {};
+  logs.forEach((log) => {
+    const id = getId(log);
+    const date = getDate(log);
+    if (!latest[id] || new Date(date).getTime() > new Date(latest[id]).getTime()) {
+      latest[id] = date;
+    }
+  });
+  return latest;
+}
+
+const SCHEDULE_RANKS: Partial<Record<ScheduleStatus, number>> = {
+  overdue: 0,
+  due: 1,
+  upcoming: 2,
+};
+const CADENCE_DUE_RANK = 3;
+
+/**
+ * Urgency per quest for "due first": scheduled occurrences (overdue, due,
+ * later today), then cadence quests still short this period. Quests with
+ * nothing due get no rank and sort last.
+ */
+export function getQuestDueRanks(
+  quests: Quest[],
+  lastCompleted: Record<string, string>,
+  streaks: Record<string, StreakResult>,
+  now: Date,
+  timeZone: string
+): Record<string, number> {
+  const ranks: Record<string, number> = {};
+  quests.forEach((quest) => {
+    const state = quest.schedule
+      ? getScheduleState(quest.schedule, lastCompleted[quest.id] ?? null, now, timeZone)
+      : null;
+    const scheduleRank = state ? SCHEDULE_RANKS[state.status] : undefined;
+    const streak = streaks[quest.id];
+    if (scheduleRank !== undefined) {
+      ranks[quest.id] = scheduleRank;
+    } else if (streak?.due_today && streak.completed_this_period < streak.required_this_period) {
+      ranks[quest.id] = CADENCE_DUE_RANK;
+    }
+  });
+  return ranks;
+}
+
+/**
+ * Moves one id to the position of another (drag-and-drop), returning a new list
+ */
+export function moveId(ids: string[], fromId: string, toId: string): string[] {
+  const from = ids.indexOf(fromId);
+  const to = ids.indexOf(toId);
+  if (from === -1 || to === -1 || from === to) return ids;
+  const next = [...ids];
+  next.splice(from, 1);
+  next.splice(to, 0, fromId);
+  return next;
+}
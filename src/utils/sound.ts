@@ -7,6 +7,19 @@
 import { WATER_DROP_SOUND_PATH, AUDIO_VOLUME } from "../constants";
 
 let audioElement: HTMLAudioElement | null = null;
+let soundEnabled = true;
+let soundVolume = AUDIO_VOLUME;
+
+/**
+ * Applies the user's sound preferences (volume 0-1)
+ */
+export function setSoundSettings(enabled: boolean, volume: number): void {
+  soundEnabled = enabled;
+  soundVolume = Math.min(1, Math.max(0, volume));
+  if (audioElement) {
+    audioElement.volume = soundVolume;
+  }
+}
 
 /**
  * Loads the water drop sound audio element
@@ -15,14 +28,14 @@ function getAudioElement(): HTMLAudioElement {
   if (!audioElement) {
     // Use direct path to public folder to avoid import issues
     audioElement = new Audio(WATER_DROP_SOUND_PATH);
-    audioElement.volume = AUDIO_VOLUME;
+    audioElement.volume = soundVolume;
     audioElement.preload = "auto";
     // Handle range request issues by loading the full file
     audioElement.addEventListener('error', (e) => {
       console.error("Audio error:", e);
       // Try reloading without range requests
       audioElement = new Audio(WATER_DROP_SOUND_PATH);
-      audioElement.volume = AUDIO_VOLUME;
+      audioElement.volume = soundVolume;
     });
   }
   return audioElement;
@@ -32,6 +45,7 @@ function getAudioElement(): HTMLAudioElement {
  * Plays a water drop sound effect
  */
 export function playCoinSound(): void {
+  if (!soundEnabled) return;
   try {
     const audio = getAudioElement();
     // Reset to beginning and play
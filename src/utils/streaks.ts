@@ -0,0 +1,192 @@
+/**
+ * Get Kraken - Streak Utilities
+ *
+ * Computes streaks and "due today" state for a quest against its cadence.
+ * Pure functions of (logs, cadence, now, time zone) so results are reproducible.
+ * History before the loaded logs comes in as per-day counts, so the longest
+ * streak covers all of it.
+ */
+
+import type { Quest, QuestCadence, QuestLog, QuestLogDay } from "../types";
+import { toDayNumber, getWeekday, toWeekNumber } from "./dates";
+
+export const DEFAULT_CADENCE: QuestCadence = { type: "daily" };
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface StreakOptions {
+  now: Date;
+  timeZone: string;
+  gracePeriods?: number; // missed periods a streak may skip over
+  weekStartsOn?: number; // 0 = Sunday
+  olderDayCounts?: Map<number, number>; // completions per day before the loaded logs
+}
+
+export interface StreakResult {
+  current_streak: number;
+  longest_streak: number;
+  period_unit: "day" | "week";
+  due_today: boolean;
+  completed_this_period: number;
+  required_this_period: number;
+}
+
+/**
+ * Human-readable cadence label ("Daily", "3× per week", "Mon, Wed, Fri")
+ */
+export function formatCadence(cadence: QuestCadence | null | undefined): string {
+  const rule = cadence ?? DEFAULT_CADENCE;
+  switch (rule.type) {
+    case "daily":
+      return "Daily";
+    case "weekly":
+      return "Weekly";
+    case "times_per_week":
+      return `${rule.times}× per week`;
+    case "weekdays":
+      return [...rule.days]
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAY_LABELS[day])
+        .join(", ");
+  }
+}
+
+/**
+ * Calculates current/longest streak and this period's progress for one quest.
+ *
+ * A period is a day (daily), a week (weekly / times_per_week) or a scheduled
+ * weekday (weekdays). The period containing `now` never breaks a streak - it is
+ * still in progress - but counts towards it once satisfied.
+ */
+export function calculateStreak(
+  completedAt: string[],
+  cadence: QuestCadence | null | undefined,
+  {
+    now,
+    timeZone,
+    gracePeriods = 0,
+    weekStartsOn = 0,
+    olderDayCounts,
+  }: StreakOptions
+): StreakResult {
+  const rule = cadence ?? DEFAULT_CADENCE;
+  const today = toDayNumber(now, timeZone);
+
+  // Completions per day, ignoring anything logged "in the future"
+  const perDay = new Map<number, number>();
+  olderDayCounts?.forEach((count, day) => {
+    if (day <= today) perDay.set(day, (perDay.get(day) || 0) + count);
+  });
+  completedAt.forEach((timestamp) => {
+    const day = toDayNumber(timestamp, timeZone);
+    if (day <= today) perDay.set(day, (perDay.get(day) || 0) + 1);
+  });
+  const firstDay = perDay.size > 0 ? Math.min(...perDay.keys()) : today;
+
+  // Build the ordered list of periods from the first completion up to now
+  const isWeekly = rule.type === "weekly" || rule.type === "times_per_week";
+  const required = rule.type === "times_per_week" ? Math.max(1, rule.times) : 1;
+  const periods: { key: number; count: number }[] = [];
+
+  if (isWeekly) {
+    const perWeek = new Map<number, number>();
+    perDay.forEach((count, day) => {
+      const week = toWeekNumber(day, weekStartsOn);
+      perWeek.set(week, (perWeek.get(week) || 0) + count);
+    });
+    const lastWeek = toWeekNumber(today, weekStartsOn);
+    for (let week = toWeekNumber(firstDay, weekStartsOn); week <= lastWeek; week++) {
+      periods.push({ key: week, count: perWeek.get(week) || 0 });
+    }
+  } else {
+    const scheduled = rule.type === "weekdays" ? new Set(rule.days) : null;
+    for (let day = firstDay; day <= today; day++) {
+      if (scheduled && !scheduled.has(getWeekday(day))) continue;
+      periods.push({ key: day, count: perDay.get(day) || 0 });
+    }
+  }
+
+  const currentKey = isWeekly ? toWeekNumber(today, weekStartsOn) : today;
+  const currentPeriod = periods.find((period) => period.key === currentKey);
+
+  // Walk forward: satisfied periods extend the run, misses spend grace, then break
+  let run = 0;
+  let graceUsed = 0;
+  let longest = 0;
+  periods.forEach((period) => {
+    if (period.count >= required) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (period.key === currentKey) {
+      // Still in progress
+    } else if (run > 0 && graceUsed < gracePeriods) {
+      graceUsed++;
+    } else {
+      run = 0;
+      graceUsed = 0;
+    }
+  });
+
+  const completedThisPeriod = currentPeriod?.count ?? 0;
+
+  return {
+    current_streak: run,
+    longest_streak: longest,
+    period_unit: isWeekly ? "week" : "day",
+    // Weekday quests are only due on scheduled days
+    due_today: currentPeriod !== undefined && completedThisPeriod < required,
+    completed_this_period: completedThisPeriod,
+    required_this_period: currentPeriod ? required : 0,
+  };
+}
+
+/**
+ * Completions per day from the older-history totals, across whichever entries
+ * are passed in
+ */
+export function toDayCounts(days: Pick<QuestLogDay, "day" | "count">[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  days.forEach((entry) => {
+    counts.set(entry.day, (counts.get(entry.day) || 0) + entry.count);
+  });
+  return counts;
+}
+
+/**
+ * Calculates streaks for every quest from the shared quest logs (reversed
+ * entries are expected to be filtered out already) and the older history
+ */
+export function calculateQuestStreaks(
+  quests: Pick<Quest, "id" | "cadence" | "grace_periods">[],
+  logs: Pick<QuestLog, "quest_id" | "completed_at">[],
+  options: Omit<StreakOptions, "gracePeriods" | "olderDayCounts">,
+  olderDays: Pick<QuestLogDay, "quest_id" | "day" | "count">[] = []
+): Record<string, StreakResult> {
+  const completionsByQuest = new Map<string, string[]>();
+  logs.forEach((log) => {
+    const existing = completionsByQuest.get(log.quest_id) || [];
+    existing.push(log.completed_at);
+    completionsByQuest.set(log.quest_id, existing);
+  });
+
+  const olderDaysByQuest = new Map<string, Pick<QuestLogDay, "day" | "count">[]>();
+  olderDays.forEach((entry) => {
+    const existing = olderDaysByQuest.get(entry.quest_id) || [];
+    existing.push(entry);
+    olderDaysByQuest.set(entry.quest_id, existing);
+  });
+
+  const streaks: Record<string, StreakResult> = {};
+  quests.forEach((quest) => {
+    streaks[quest.id] = calculateStreak(
+      completionsByQuest.get(quest.id) || [],
+      quest.cadence,
+      {
+        ...options,
+        gracePeriods: quest.grace_periods ?? 0,
+        olderDayCounts: toDayCounts(olderDaysByQuest.get(quest.id) || []),
+      }
+    );
+  });
+  return streaks;
+}
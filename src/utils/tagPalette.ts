@@ -0,0 +1,132 @@
+/**
+ * Tag palette - the colors a tag can take and their Tailwind classes
+ */
+
+export type TagColor =
+  | "blue"
+  | "sky"
+  | "cyan"
+  | "teal"
+  | "emerald"
+  | "green"
+  | "lime"
+  | "amber"
+  | "orange"
+  | "red"
+  | "rose"
+  | "pink"
+  | "purple"
+  | "indigo"
+  | "slate";
+
+export interface TagClasses {
+  border: string;
+  button: { base: string; active: string };
+}
+
+const BUTTON_BASE =
+  "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700";
+
+// Tailwind-safe classes (must be in full class names for JIT)
+const PALETTE: Record<TagColor, { border: string; active: string; swatch: string }> = {
+  blue: {
+    border: "border-blue-400 dark:border-blue-500 shadow-[0_0_8px_rgba(96,165,250,0.4)] dark:shadow-[0_0_8px_rgba(59,130,246,0.4)]",
+    active: "bg-blue-500 dark:bg-blue-500 text-white border-blue-600 dark:border-blue-400 shadow-md",
+    swatch: "bg-blue-500",
+  },
+  sky: {
+    border: "border-sky-400 dark:border-sky-500 shadow-[0_0_8px_rgba(56,189,248,0.4)] dark:shadow-[0_0_8px_rgba(14,165,233,0.4)]",
+    active: "bg-sky-500 dark:bg-sky-500 text-white border-sky-600 dark:border-sky-400 shadow-md",
+    swatch: "bg-sky-500",
+  },
+  cyan: {
+    border: "border-cyan-400 dark:border-cyan-500 shadow-[0_0_8px_rgba(34,211,238,0.4)] dark:shadow-[0_0_8px_rgba(6,182,212,0.4)]",
+    active: "bg-cyan-500 dark:bg-cyan-500 text-white border-cyan-600 dark:border-cyan-400 shadow-md",
+    swatch: "bg-cyan-500",
+  },
+  teal: {
+    border: "border-teal-400 dark:border-teal-500 shadow-[0_0_8px_rgba(45,212,191,0.4)] dark:shadow-[0_0_8px_rgba(20,184,166,0.4)]",
+    active: "bg-teal-500 dark:bg-teal-500 text-white border-teal-600 dark:border-teal-400 shadow-md",
+    swatch: "bg-teal-500",
+  },
+  emerald: {
+    border: "border-emerald-400 dark:border-emerald-500 shadow-[0_0_8px_rgba(52,211,153,0.4)] dark:shadow-[0_0_8px_rgba(16,185,129,0.4)]",
+    active: "bg-emerald-500 dark:bg-emerald-500 text-white border-emerald-600 dark:border-emerald-400 shadow-md",
+    swatch: "bg-emerald-500",
+  },
+  green: {
+    border: "border-green-400 dark:border-green-500 shadow-[0_0_8px_rgba(74,222,128,0.4)] dark:shadow-[0_0_8px_rgba(34,197,94,0.4)]",
+    active: "bg-green-500 dark:bg-green-500 text-white border-green-600 dark:border-green-400 shadow-md",
+    swatch: "bg-green-500",
+  },
+  lime: {
+    border: "border-lime-400 dark:border-lime-500 shadow-[0_0_8px_rgba(163,230,53,0.4)] dark:shadow-[0_0_8px_rgba(132,204,22,0.4)]",
+    active: "bg-lime-500 dark:bg-lime-500 text-white border-lime-600 dark:border-lime-400 shadow-md",
+    swatch: "bg-lime-500",
+  },
+  amber: {
+    border: "border-amber-400 dark:border-amber-500 shadow-[0_0_8px_rgba(251,191,36,0.4)] dark:shadow-[0_0_8px_rgba(245,158,11,0.4)]",
+    active: "bg-amber-500 dark:bg-amber-500 text-white border-amber-600 dark:border-amber-400 shadow-md",
+    swatch: "bg-amber-500",
+  },
+  orange: {
+    border: "border-orange-400 dark:border-orange-500 shadow-[0_0_8px_rgba(251,146,60,0.4)] dark:shadow-[0_0_8px_rgba(249,115,22,0.4)]",
+    active: "bg-orange-500 dark:bg-orange-500 text-white border-orange-600 dark:border-orange-400 shadow-md",
+    swatch: "bg-orange-500",
+  },
+  red: {
+    border: "border-red-400 dark:border-red-500 shadow-[0_0_8px_rgba(248,113,113,0.4)] dark:shadow-[0_0_8px_rgba(239,68,68,0.4)]",
+    active: "bg-red-500 dark:bg-red-500 text-white border-red-600 dark:border-red-400 shadow-md",
+    swatch: "bg-red-500",
+  },
+  rose: {
+    border: "border-rose-400 dark:border-rose-500 shadow-[0_0_8px_rgba(251,113,133,0.4)] dark:shadow-[0_0_8px_rgba(244,63,94,0.4)]",
+    active: "bg-rose-500 dark:bg-rose-500 text-white border-rose-600 dark:border-rose-400 shadow-md",
+    swatch: "bg-rose-500",
+  },
+  pink: {
+    border: "border-pink-400 dark:border-pink-500 shadow-[0_0_8px_rgba(244,114,182,0.4)] dark:shadow-[0_0_8px_rgba(236,72,153,0.4)]",
+    active: "bg-pink-500 dark:bg-pink-500 text-white border-pink-600 dark:border-pink-400 shadow-md",
+    swatch: "bg-pink-500",
+  },
+  purple: {
+    border: "border-purple-400 dark:border-purple-500 shadow-[0_0_8px_rgba(192,132,252,0.4)] dark:shadow-[0_0_8px_rgba(168,85,247,0.4)]",
+    active: "bg-purple-500 dark:bg-purple-500 text-white border-purple-600 dark:border-purple-400 shadow-md",
+    swatch: "bg-purple-500",
+  },
+  indigo: {
+    border: "border-indigo-400 dark:border-indigo-500 shadow-[0_0_8px_rgba(129,140,248,0.4)] dark:shadow-[0_0_8px_rgba(99,102,241,0.4)]",
+    active: "bg-indigo-500 dark:bg-indigo-500 text-white border-indigo-600 dark:border-indigo-400 shadow-md",
+    swatch: "bg-indigo-500",
+  },
+  slate: {
+    border: "border-slate-400 dark:border-slate-500 shadow-[0_0_8px_rgba(148,163,184,0.4)] dark:shadow-[0_0_8px_rgba(100,116,139,0.4)]",
+    active: "bg-slate-500 dark:bg-slate-500 text-white border-slate-600 dark:border-slate-400 shadow-md",
+    swatch: "bg-slate-500",
+  },
+};
+
+export const TAG_COLORS = Object.keys(PALETTE) as TagColor[];
+
+export const DEFAULT_TAG_COLOR: TagColor = "slate";
+
+export function isTagColor(value: string): value is TagColor {
+  return (TAG_COLORS as string[]).includes(value);
+}
+
+/**
+ * Border and filter-button classes for a palette color.
+ * Unknown colors (e.g. from a newer client) fall back to the default.
+ */
+export function getTagClasses(color: string): TagClasses {
+  const entry = PALETTE[isTagColor(color) ? color : DEFAULT_TAG_COLOR];
+  return {
+    border: entry.border,
+    button: { base: BUTTON_BASE, active: entry.active },
+  };
+}
+
+// Solid fill for color pickers
+export function getTagSwatchClass(color: TagColor): string {
+  return PALETTE[color].swatch;
+}
@@ -1,80 +1,60 @@
 /**
- * Tag utilities - colors and labels for tags
+ * Tag utilities - default tags and label/color lookups for household tags
  */
 
-import type { Tag } from "../types";
+import type { Tag, TagDefinition } from "../types";
+import { getTagClasses } from "./tagPalette";
+import type { TagClasses, TagColor } from "./tagPalette";
 
-export const TAGS: Tag[] = [
-  "work",
-  "finance",
-  "home",
-  "health",
-  "relationship",
-  "social life",
-];
+export type TagSeed = Pick<TagDefinition, "key" | "label"> & { color: TagColor };
 
-export const TAG_COLORS: Record<Tag, string> = {
-  work: "blue",
-  finance: "green",
-  home: "purple",
-  health: "red",
-  relationship: "pink",
-  "social life": "cyan",
-};
+// Seeded for every household by ADD_CUSTOM_TAGS.sql; also used when tags can't load
+export const DEFAULT_QUEST_TAGS: TagSeed[] = [
+  { key: "work", label: "Work", color: "blue" },
+  { key: "finance", label: "Finance", color: "green" },
+  { key: "home", label: "Home", color: "purple" },
+  { key: "health", label: "Health", color: "red" },
+  { key: "relationship", label: "Relationship", color: "pink" },
+  { key: "social life", label: "Social Life", color: "cyan" },
+];
 
-export const TAG_LABELS: Record<Tag, string> = {
-  work: "Work",
-  finance: "Finance",
-  home: "Home",
-  health: "Health",
-  relationship: "Relationship",
-  "social life": "Social Life",
-};
+export interface TagSet {
+  tags: Tag[]; // keys, in display order
+  labels: Record<Tag, string>;
+  has: (tag: Tag) => boolean;
+  getLabel: (tag: Tag) => string;
+  getClasses: (tag: Tag) => TagClasses;
+}
 
-// Tailwind-safe border classes (must be in full class names for JIT)
-export const TAG_BORDER_CLASSES: Record<Tag, string> = {
-  work: "border-blue-400 dark:border-blue-500 shadow-[0_0_8px_rgba(96,165,250,0.4)] dark:shadow-[0_0_8px_rgba(59,130,246,0.4)]",
-  finance:
-    "border-green-400 dark:border-green-500 shadow-[0_0_8px_rgba(74,222,128,0.4)] dark:shadow-[0_0_8px_rgba(34,197,94,0.4)]",
-  home: "border-purple-400 dark:border-purple-500 shadow-[0_0_8px_rgba(196,181,253,0.4)] dark:shadow-[0_0_8px_rgba(167,139,250,0.4)]",
-  health:
-    "border-red-400 dark:border-red-500 shadow-[0_0_8px_rgba(248,113,113,0.4)] dark:shadow-[0_0_8px_rgba(239,68,68,0.4)]",
-  relationship:
-    "border-pink-400 dark:border-pink-500 shadow-[0_0_8px_rgba(244,114,182,0.4)] dark:shadow-[0_0_8px_rgba(236,72,153,0.4)]",
-  "social life":
-    "border-cyan-400 dark:border-cyan-500 shadow-[0_0_8px_rgba(103,232,249,0.4)] dark:shadow-[0_0_8px_rgba(34,211,238,0.4)]",
-};
+/**
+ * Lookup for one scope's tags. Keys without a definition (e.g. a deleted tag
+ * still on a seeded quest) are not in the set and should not be shown.
+ */
+export function buildTagSet(definitions: Pick<TagDefinition, "key" | "label" | "color">[]): TagSet {
+  const labels: Record<Tag, string> = {};
+  const colors: Record<Tag, string> = {};
+  definitions.forEach((definition) => {
+    labels[definition.key] = definition.label;
+    colors[definition.key] = definition.color;
+  });
 
-export const TAG_BUTTON_CLASSES: Record<Tag, { base: string; active: string }> =
-  {
-    work: {
-      base: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700",
-      active:
-        "bg-blue-500 dark:bg-blue-500 text-white border-blue-600 dark:border-blue-400 shadow-md",
-    },
-    finance: {
-      base: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700",
-      active:
-        "bg-green-500 dark:bg-green-500 text-white border-green-600 dark:border-green-400 shadow-md",
-    },
-    home: {
-      base: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700",
-      active:
-        "bg-purple-500 dark:bg-purple-500 text-white border-purple-600 dark:border-purple-400 shadow-md",
-    },
-    health: {
-      base: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700",
-      active:
-        "bg-red-500 dark:bg-red-500 text-white border-red-600 dark:border-red-400 shadow-md",
-    },
-    relationship: {
-      base: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700",
-      active:
-        "bg-pink-500 dark:bg-pink-500 text-white border-pink-600 dark:border-pink-400 shadow-md",
-    },
-    "social life": {
-      base: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-700",
-      active:
-        "bg-cyan-500 dark:bg-cyan-500 text-white border-cyan-600 dark:border-cyan-400 shadow-md",
-    },
+  return {
+    tags: definitions.map((definition) => definition.key),
+    labels,
+    has: (tag) => Object.hasOwn(labels, tag),
+    getLabel: (tag) => (Object.hasOwn(labels, tag) ? labels[tag] : tag),
+    getClasses: (tag) => getTagClasses(Object.hasOwn(colors, tag) ? colors[tag] : ""),
   };
+}
+
+/**
+ * Key for a new tag: its lowercased label, made unique within the scope
+ */
+export function createTagKey(label: string, existingKeys: Tag[]): Tag {
+  const base = label.trim().toLowerCase();
+  let key = base;
+  for (let n = 2; existingKeys.includes(key); n++) {
+    key = `${base} ${n}`;
+  }
+  return key;
+}
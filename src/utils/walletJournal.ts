@@ -0,0 +1,54 @@
+/**
+ * Get Kraken - Wallet Journal Utilities
+ *
+ * Utilities for deriving and verifying wallet balances from the transaction journal
+ */
+
+import type { Wallet, WalletTransaction } from "../types";
+
+export interface JournalBalance {
+  total: number;
+  dollar_total: number;
+}
+
+/**
+ * Sums every journal entry into a balance
+ */
+export function calculateJournalBalance(
+  transactions: WalletTransaction[]
+): JournalBalance {
+  return transactions.reduce<JournalBalance>(
+    (balance, tx) => ({
+      total: balance.total + tx.amount,
+      dollar_total: balance.dollar_total + Math.round(tx.dollar_amount || 0),
+    }),
+    { total: 0, dollar_total: 0 }
+  );
+}
+
+/**
+ * Compares the stored wallet against the journal-derived balance.
+ * Returns null while the journal has not caught up with the latest wallet write
+ * (the wallet row and its journal entry share a timestamp, but arrive separately).
+ */
+export function calculateWalletDrift(
+  wallet: Wallet,
+  transactions: WalletTransaction[],
+  balance: JournalBalance
+): JournalBalance | null {
+  const latest = transactions.reduce<number>(
+    (max, tx) => Math.max(max, new Date(tx.created_at).getTime()),
+    -Infinity
+  );
+  if (
+    transactions.length > 0 &&
+    latest < new Date(wallet.updated_at).getTime()
+  ) {
+    return null;
+  }
+
+  return {
+    total: wallet.total - balance.total,
+    dollar_total: Math.round(wallet.dollar_total || 0) - balance.dollar_total,
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Analytics Tests
+ *
+ * bucketActivity at each granularity (including where weeks and months
+ * start), getTopQuests for each metric and getDailyActivity. Reversed logs
+ * never count. All dates are in UTC unless a test names a time zone.
+ */
+
+import { describe, it, expect } from "vitest";
+import { bucketActivity, getDailyActivity, getTopQuests } from "../src/utils/analytics";
+import type { AnalyticsOptions } from "../src/utils/analytics";
+import { toDayNumber } from "../src/utils/dates";
+import type { QuestLog, QuestLogDay, ShopLog } from "../src/types";
+
+// Friday 2024-03-15, midday
+const NOW = new Date("2024-03-15T12:00:00Z");
+const OPTIONS: AnalyticsOptions = { now: NOW, timeZone: "UTC" };
+
+const dayOf = (date: string) => toDayNumber(`${date}T12:00:00Z`, "UTC");
+
+let nextId = 0;
+
+const questLog = (questId: string, completedAt: string, fields: Partial<QuestLog> = {}): QuestLog => ({
+  id: `quest-log-${nextId++}`,
+  quest_id: questId,
+  user_id: "me",
+  completed_at: completedAt.includes("T") ? completedAt : `${completedAt}T12:00:00Z`,
+  reward: 10,
+  dollar_amount: 100,
+  ...fields,
+});
+
+const shopLog = (purchasedAt: string, fields: Partial<ShopLog> = {}): ShopLog => ({
+  id: `shop-log-${nextId++}`,
+  shop_item_id: "item",
+  user_id: "me",
+  purchased_at: purchasedAt.includes("T") ? purchasedAt : `${purchasedAt}T12:00:00Z`,
+  price: 4,
+  dollar_amount: 50,
+  ...fields,
+});
+
+const questDay = (
+  questId: string,
+  date: string,
+  count: number,
+  fields: Partial<QuestLogDay> = {}
+): QuestLogDay => ({
+  quest_id: questId,
+  user_id: "me",
+  quest_name: null,
+  day: dayOf(date),
+  count,
+  reward: count * 10,
+  dollar_amount: count * 100,
+  ...fields,
+});
+
+describe("bucketActivity", () => {
+  it("totals each day, oldest first, with empty days as zeros", () => {
+    const buckets = bucketActivity(
+      [questLog("a", "2024-03-13"), questLog("a", "2024-03-15"), questLog("b", "2024-03-15")],
+      [shopLog("2024-03-15")],
+      "day",
+      3,
+      OPTIONS
+    );
+
+    expect(buckets.map((bucket) => bucket.startDay)).toEqual([
+      dayOf("2024-03-13"),
+      dayOf("2024-03-14"),
+      dayOf("2024-03-15"),
+    ]);
+    expect(buckets.map((bucket) => bucket.sea)).toEqual([
+      { earned: 10, spent: 0, net: 10 },
+      { earned: 0, spent: 0, net: 0 },
+      { earned: 20, spent: 4, net: 16 },
+    ]);
+    expect(buckets[2].dollars).toEqual({ earned: 200, spent: 50, net: 150 });
+  });
+
+  it("leaves out logs before the first period or after now", () => {
+    const buckets = bucketActivity(
+      [questLog("a", "2024-03-12"), questLog("a", "2024-03-16")],
+      [shopLog("2024-03-01")],
+      "day",
+      3,
+      OPTIONS
+    );
+
+    expect(buckets.every((bucket) => bucket.sea.earned === 0 && bucket.sea.spent === 0)).toBe(true);
+  });
+
+  it("skips reversed completions and purchases", () => {
+    const [bucket] = bucketActivity(
+      [questLog("a", "2024-03-15"), questLog("a", "2024-03-15", { reversed_at: "2024-03-15T13:00:00Z" })],
+      [shopLog("2024-03-15", { reversed_at: "2024-03-15T13:00:00Z" })],
+      "day",
+      1,
+      OPTIONS
+    );
+
+    expect(bucket.sea).toEqual({ earned: 10, spent: 0, net: 10 });
+    expect(bucket.dollars).toEqual({ earned: 100, spent: 0, net: 100 });
+  });
+
+  it("counts legacy logs without amounts as zero", () => {
+    const [bucket] = bucketActivity(
+      [questLog("a", "2024-03-15", { reward: null, dollar_amount: null })],
+      [shopLog("2024-03-15", { price: null, dollar_amount: null })],
+      "day",
+      1,
+      OPTIONS
+    );
+
+    expect(bucket.sea).toEqual({ earned: 0, spent: 0, net: 0 });
+  });
+
+  it("adds older history day totals", () => {
+    const buckets = bucketActivity(
+      [questLog("a", "2024-03-15")],
+      [],
+      "day",
+      2,
+      OPTIONS,
+      {
+        questDays: [questDay("a", "2024-03-14", 2)],
+        shopDays: [
+          { shop_item_id: "item", user_id: "me", day: dayOf("2024-03-14"), count: 1, price: 5, dollar_amount: 60 },
+        ],
+      }
+    );
+
+    expect(buckets[0].sea).toEqual({ earned: 20, spent: 5, net: 15 });
+    expect(buckets[0].dollars).toEqual({ earned: 200, spent: 60, net: 140 });
+    expect(buckets[1].sea.earned).toBe(10);
+  });
+
+  it("starts weeks on Sunday by default", () => {
+    // Saturday 2024-03-09 ends the previous week, Sunday 2024-03-10 starts this one
+    const buckets = bucketActivity(
+      [questLog("a", "2024-03-09"), questLog("a", "2024-03-10")],
+      [],
+      "week",
+      2,
+      OPTIONS
+    );
+
+    expect(buckets.map((bucket) => bucket.startDay)).toEqual([dayOf("2024-03-03"), dayOf("2024-03-10")]);
+    expect(buckets.map((bucket) => bucket.sea.earned)).toEqual([10, 10]);
+  });
+
+  it("starts weeks on the configured weekday", () => {
+    // With Monday starts, Sunday 2024-03-10 belongs to the previous week
+    const buckets = bucketActivity(
+      [questLog("a", "2024-03-10"), questLog("a", "2024-03-11")],
+      [],
+      "week",
+      2,
+      { ...OPTIONS, weekStartsOn: 1 }
+    );
+
+    expect(buckets.map((bucket) => bucket.startDay)).toEqual([dayOf("2024-03-04"), dayOf("2024-03-11")]);
+    expect(buckets.map((bucket) => bucket.sea.earned)).toEqual([10, 10]);
+  });
+
+  it("splits months on the first of the month, across a year end", () => {
+    const buckets = bucketActivity(
+      [
+        questLog("a", "2023-12-31"),
+        questLog("a", "2024-01-01"),
+        questLog("a", "2024-02-29"),
+        questLog("b", "2024-03-01"),
+      ],
+      [],
+      "month",
+      4,
+      OPTIONS
+    );
+
+    expect(buckets.map((bucket) => bucket.startDay)).toEqual([
+      dayOf("2023-12-01"),
+      dayOf("2024-01-01"),
+      dayOf("2024-02-01"),
+      dayOf("2024-03-01"),
+    ]);
+    expect(buckets.map((bucket) => bucket.sea.earned)).toEqual([10, 10, 10, 10]);
+  });
+
+  it("buckets by the day in the given time zone", () => {
+    // 03:00 UTC on March 1st is still February 29th in New York
+    const buckets = bucketActivity([questLog("a", "2024-03-01T03:00:00Z")], [], "month", 2, {
+      ...OPTIONS,
+      timeZone: "America/New_York",
+    });
+
+    expect(buckets.map((bucket) => bucket.sea.earned)).toEqual([10, 0]);
+  });
+
+  it("returns no buckets for zero periods", () => {
+    expect(bucketActivity([questLog("a", "2024-03-15")], [], "day", 0, OPTIONS)).toEqual([]);
+  });
+});
+
+describe("getTopQuests", () => {
+  const names = new Map([
+    ["run", "Run"],
+    ["read", "Read"],
+    ["walk", "Walk"],
+  ]);
+
+  it("ranks by completions, ties broken by earnings and then name", () => {
+    const top = getTopQuests(
+      [
+        questLog("walk", "2024-03-14"),
+        questLog("read", "2024-03-14"),
+        questLog("read", "2024-03-15"),
+        questLog("run", "2024-03-14", { reward: 30 }),
+        questLog("run", "2024-03-15"),
+      ],
+      names,
+      "count"
+    );
+
+    expect(top.map((quest) => quest.name)).toEqual(["Run", "Read", "Walk"]);
+    expect(top[0]).toEqual({ questId: "run", name: "Run", count: 2, earned: 40, earnedDollars: 200 });
+  });
+
+  it("ranks by earnings or dollars", () => {
+    const logs = [
+      questLog("run", "2024-03-14", { reward: 50, dollar_amount: 0 }),
+      questLog("read", "2024-03-14", { reward: 5, dollar_amount: 300 }),
+      questLog("read", "2024-03-15", { reward: 5, dollar_amount: 300 }),
+    ];
+
+    expect(getTopQuests(logs, names, "earnings").map((quest) => quest.questId)).toEqual(["run", "read"]);
+    expect(getTopQuests(logs, names, "dollars").map((quest) => quest.questId)).toEqual(["read", "run"]);
+  });
+
+  it("leaves out reversed completions", () => {
+    const top = getTopQuests(
+      [
+        questLog("run", "2024-03-14", { reversed_at: "2024-03-14T13:00:00Z" }),
+        questLog("run", "2024-03-15", { reversed_at: "2024-03-15T13:00:00Z" }),
+        questLog("read", "2024-03-15"),
+      ],
+      names,
+      "count"
+    );
+
+    expect(top.map((quest) => quest.questId)).toEqual(["read"]);
+  });
+
+  it("falls back to the logged name, then to a placeholder", () => {
+    const top = getTopQuests(
+      [questLog("gone", "2024-03-15", { quest_name: "Old quest" }), questLog("unknown", "2024-03-14")],
+      names,
+      "count"
+    );
+
+    expect(top.map((quest) => quest.name)).toEqual(["Deleted quest", "Old quest"]);
+  });
+
+  it("adds older history and respects the limit", () => {
+    const top = getTopQuests(
+      [questLog("run", "2024-03-15"), questLog("read", "2024-03-15")],
+      names,
+      "count",
+      1,
+      [questDay("read", "2024-01-01", 3)]
+    );
+
+    expect(top).toEqual([{ questId: "read", name: "Read", count: 4, earned: 40, earnedDollars: 400 }]);
+  });
+});
+
+describe("getDailyActivity", () => {
+  const logs = [
+    questLog("run", "2024-03-13"),
+    questLog("run", "2024-03-15"),
+    questLog("read", "2024-03-15"),
+    questLog("read", "2024-03-15", { reversed_at: "2024-03-15T13:00:00Z" }),
+    questLog("run", "2024-03-01"),
+  ];
+
+  it("counts completions per day for every quest, today last", () => {
+    expect(getDailyActivity(logs, null, 3, OPTIONS)).toEqual([
+      { day: dayOf("2024-03-13"), count: 1 },
+      { day: dayOf("2024-03-14"), count: 0 },
+      { day: dayOf("2024-03-15"), count: 2 },
+    ]);
+  });
+
+  it("counts one quest", () => {
+    expect(getDailyActivity(logs, "read", 3, OPTIONS).map((entry) => entry.count)).toEqual([0, 0, 1]);
+  });
+
+  it("adds older history for the selected quest only", () => {
+    const older = [questDay("run", "2024-03-14", 2), questDay("read", "2024-03-14", 5)];
+
+    expect(getDailyActivity(logs, "run", 3, OPTIONS, older).map((entry) => entry.count)).toEqual([1, 2, 1]);
+  });
+
+  it("uses the day in the given time zone", () => {
+    // 02:00 UTC on the 15th is the evening of the 14th in Los Angeles
+    const activity = getDailyActivity([questLog("run", "2024-03-15T02:00:00Z")], null, 2, {
+      ...OPTIONS,
+      timeZone: "America/Los_Angeles",
+    });
+
+    expect(activity.map((entry) => entry.count)).toEqual([1, 0]);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Bank Statement Tests
+ *
+ * parseBankStatement for CSV statements (delimiters, header detection, date
+ * and amount formats, split credit/debit columns) and OFX statements (FITID
+ * ids, currency checks), plus the external_ids that keep re-imports from
+ * logging a line twice.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseBankStatement } from "../src/utils/bankStatements";
+
+const lines = (...rows: string[]) => rows.join("\n");
+
+const amounts = (text: string, currency = "USD") =>
+  parseBankStatement(text, currency).transactions.map((transaction) => transaction.amount);
+
+describe("parseBankStatement - CSV", () => {
+  it("reads a comma-separated statement", () => {
+    const result = parseBankStatement(
+      lines("Date,Description,Amount", "03/05/2024,Deposit,25.00", "03/06/2024,Transfer out,-10.50"),
+      "USD"
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions).toEqual([
+      { external_id: "csv:2024-03-05:2500:deposit:1", date: "2024-03-05", amount: 2500, description: "Deposit" },
+      {
+        external_id: "csv:2024-03-06:-1050:transfer out:1",
+        date: "2024-03-06",
+        amount: -1050,
+        description: "Transfer out",
+      },
+    ]);
+  });
+
+  it("detects semicolon and tab delimiters", () => {
+    expect(amounts(lines("Date;Description;Amount", "2024-03-05;Deposit;25,00"), "EUR")).toEqual([2500]);
+    expect(amounts(lines("Date\tDescription\tAmount", "2024-03-05\tDeposit\t25.00"))).toEqual([2500]);
+  });
+
+  it("keeps quoted fields that contain the delimiter", () => {
+    const result = parseBankStatement(
+      lines("Date,Description,Amount", '2024-03-05,"Savings, monthly","1,250.00"'),
+      "USD"
+    );
+
+    expect(result.transactions[0]).toMatchObject({ description: "Savings, monthly", amount: 125000 });
+  });
+
+  it("skips account details above the header", () => {
+    const result = parseBankStatement(
+      lines("Account,12345678", "Period,March 2024", "", "Date,Amount", "2024-03-05,25.00"),
+      "USD"
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions.map((transaction) => transaction.date)).toEqual(["2024-03-05"]);
+  });
+
+  it("reports a file without date and amount columns", () => {
+    expect(parseBankStatement(lines("Foo,Bar", "1,2"), "USD")).toEqual({
+      transactions: [],
+      errors: ["Couldn't find the date and amount columns in this CSV"],
+    });
+  });
+
+  it("reads slashed dates month first", () => {
+    const result = parseBankStatement(lines("Date,Amount", "03/05/2024,1.00", "12/01/24,1.00"), "USD");
+
+    expect(result.transactions.map((transaction) => transaction.date)).toEqual(["2024-03-05", "2024-12-01"]);
+  });
+
+  it("reads every slashed date day first when any line has a day over 12", () => {
+    const result = parseBankStatement(
+      lines("Date,Amount", "03/05/2024,1.00", "15/05/2024,1.00", "01/06/2024,1.00"),
+      "USD"
+    );
+
+    expect(result.transactions.map((transaction) => transaction.date)).toEqual([
+      "2024-05-03",
+      "2024-05-15",
+      "2024-06-01",
+    ]);
+  });
+
+  it("reads dotted dates day first and compact ISO dates", () => {
+    const result = parseBankStatement(lines("Date;Amount", "05.03.2024;1,00", "20240306;1,00"), "EUR");
+
+    expect(result.transactions.map((transaction) => transaction.date)).toEqual(["2024-03-05", "2024-03-06"]);
+  });
+
+  it("reports rows with impossible dates or unreadable amounts", () => {
+    const result = parseBankStatement(
+      lines("Date,Amount", "2024-02-30,1.00", "2024-03-05,abc", "2024-03-06,2.00"),
+      "USD"
+    );
+
+    expect(result.errors).toEqual(["Row 1: couldn't read the date", "Row 2: couldn't read the amount"]);
+    expect(result.transactions.map((transaction) => transaction.amount)).toEqual([200]);
+  });
+
+  it("caps the number of reported errors", () => {
+    const badRows = Array.from({ length: 12 }, () => "not a date,1.00");
+    const { errors } = parseBankStatement(lines("Date,Amount", ...badRows), "USD");
+
+    expect(errors).toHaveLength(11);
+    expect(errors[10]).toBe("...and 2 more");
+  });
+
+  it("skips zero amounts", () => {
+    expect(amounts(lines("Date,Amount", "2024-03-05,0.00", "2024-03-06,1.00"))).toEqual([100]);
+  });
+});
+
+describe("parseBankStatement - amounts", () => {
+  const parseAmount = (amount: string, currency = "USD") =>
+    amounts(lines("Date;Amount", `2024-03-05;"${amount}"`), currency)[0];
+
+  it("reads currency symbols and thousands separators", () => {
+    expect(parseAmount("$1,234.56")).toBe(123456);
+    expect(parseAmount("USD 12.5")).toBe(1250);
+  });
+
+  it("reads decimal commas", () => {
+    expect(parseAmount("1.234,56 €", "EUR")).toBe(123456);
+    expect(parseAmount("12,5", "EUR")).toBe(1250);
+  });
+
+  it("treats separators as thousands when the currency has no minor units", () => {
+    expect(parseAmount("1,234", "JPY")).toBe(1234);
+    expect(parseAmount("1.234", "JPY")).toBe(1234);
+  });
+
+  it("detects every way of writing a negative amount", () => {
+    expect(parseAmount("-12.50")).toBe(-1250);
+    expect(parseAmount("$-12.50")).toBe(-1250);
+    expect(parseAmount("-$12.50")).toBe(-1250);
+    expect(parseAmount("(12.50)")).toBe(-1250);
+    expect(parseAmount("12.50-")).toBe(-1250);
+    expect(parseAmount("12,50- €", "EUR")).toBe(-1250);
+  });
+});
+
+describe("parseBankStatement - split credit and debit columns", () => {
+  it("turns credits into deposits and debits into withdrawals", () => {
+    const result = parseBankStatement(
+      lines(
+        "Date,Description,Money In,Money Out",
+        "2024-03-05,Deposit,25.00,",
+        "2024-03-06,Withdrawal,,10.00",
+        "2024-03-07,Withdrawal,,-5.00"
+      ),
+      "USD"
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions.map((transaction) => transaction.amount)).toEqual([2500, -1000, -500]);
+  });
+
+  it("skips lines with neither a credit nor a debit", () => {
+    expect(amounts(lines("Date,Credit,Debit", "2024-03-05,,", "2024-03-06,1.00,"))).toEqual([100]);
+  });
+
+  it("reports unreadable credit or debit amounts", () => {
+    const { errors } = parseBankStatement(lines("Date,Credit,Debit", "2024-03-05,abc,"), "USD");
+
+    expect(errors).toEqual(["Row 1: couldn't read the amount"]);
+  });
+});
+
+describe("parseBankStatement - external ids", () => {
+  it("uses the statement's own reference when there is one", () => {
+    const result = parseBankStatement(lines("Date,Amount,Reference", "2024-03-05,1.00,ABC123"), "USD");
+
+    expect(result.transactions[0].external_id).toBe("csv:ABC123");
+  });
+
+  it("numbers identical lines so each one is imported once", () => {
+    const text = lines("Date,Description,Amount", "2024-03-05,Coffee,-3.00", "2024-03-05,Coffee,-3.00");
+    const ids = parseBankStatement(text, "USD").transactions.map((transaction) => transaction.external_id);
+
+    expect(ids).toEqual(["csv:2024-03-05:-300:coffee:1", "csv:2024-03-05:-300:coffee:2"]);
+  });
+
+  it("gives the same ids when the same statement is parsed again", () => {
+    const text = lines("Date,Description,Amount", "2024-03-05,Deposit,25.00", "2024-03-06,Deposit,25.00");
+
+    expect(parseBankStatement(text, "USD")).toEqual(parseBankStatement(text, "USD"));
+  });
+});
+
+describe("parseBankStatement - OFX", () => {
+  const ofx = (transactions: string, currency = "USD") =>
+    lines(
+      "OFXHEADER:100",
+      "DATA:OFXSGML",
+      "",
+      "<OFX>",
+      "<BANKMSGSRSV1><STMTTRNRS><STMTRS>",
+      `<CURDEF>${currency}`,
+      "<BANKTRANLIST>",
+      transactions,
+      "</BANKTRANLIST>",
+      "</STMTRS></STMTTRNRS></BANKMSGSRSV1>",
+      "</OFX>"
+    );
+
+  const transaction = (fields: string[]) => lines("<STMTTRN>", ...fields, "</STMTTRN>");
+
+  it("reads transactions and keys them by FITID", () => {
+    const result = parseBankStatement(
+      ofx(
+        lines(
+          transaction([
+            "<TRNTYPE>CREDIT",
+            "<DTPOSTED>20240305120000[-5:EST]",
+            "<TRNAMT>25.00",
+            "<FITID>2024030501",
+            "<NAME>Deposit",
+          ]),
+          transaction([
+            "<TRNTYPE>DEBIT",
+            "<DTPOSTED>20240306",
+            "<TRNAMT>-10.50",
+            "<FITID>2024030601",
+            "<MEMO>Transfer out",
+          ])
+        )
+      ),
+      "USD"
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions).toEqual([
+      { external_id: "ofx:2024030501", date: "2024-03-05", amount: 2500, description: "Deposit" },
+      { external_id: "ofx:2024030601", date: "2024-03-06", amount: -1050, description: "Transfer out" },
+    ]);
+  });
+
+  it("keeps two transactions with the same details apart by FITID", () => {
+    const fields = (fitid: string) => ["<DTPOSTED>20240305", "<TRNAMT>-3.00", `<FITID>${fitid}`, "<NAME>Coffee"];
+    const result = parseBankStatement(ofx(lines(transaction(fields("A1")), transaction(fields("A2")))), "USD");
+
+    expect(result.transactions.map((entry) => entry.external_id)).toEqual(["ofx:A1", "ofx:A2"]);
+  });
+
+  it("falls back to the transaction's details without a FITID", () => {
+    const result = parseBankStatement(
+      ofx(transaction(["<DTPOSTED>20240305", "<TRNAMT>-3.00", "<NAME>Coffee"])),
+      "USD"
+    );
+
+    expect(result.transactions[0].external_id).toBe("ofx:2024-03-05:-300:coffee:1");
+  });
+
+  it("reads closed leaf tags (OFX 2.x)", () => {
+    const result = parseBankStatement(
+      ofx(transaction(["<DTPOSTED>20240305</DTPOSTED>", "<TRNAMT>1.00</TRNAMT>", "<FITID>X</FITID>"])),
+      "USD"
+    );
+
+    expect(result.transactions).toEqual([{ external_id: "ofx:X", date: "2024-03-05", amount: 100, description: "" }]);
+  });
+
+  it("refuses a statement in another currency", () => {
+    const result = parseBankStatement(ofx(transaction(["<DTPOSTED>20240305", "<TRNAMT>1.00"]), "EUR"), "USD");
+
+    expect(result).toEqual({
+      transactions: [],
+      errors: ["This statement is in EUR but your household uses USD"],
+    });
+  });
+
+  it("reports unreadable transactions and empty statements", () => {
+    const result = parseBankStatement(ofx(transaction(["<DTPOSTED>soon", "<TRNAMT>1.00"])), "USD");
+    expect(result.errors).toEqual(["Transaction 1: couldn't read the date"]);
+
+    expect(parseBankStatement(ofx(""), "USD").errors).toEqual(["This OFX file has no transactions"]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Date Tests
+ *
+ * Calendar days in explicit time zones: instants near midnight, DST
+ * transitions (America/New_York and Australia/Sydney) and week boundaries
+ * for each first weekday.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  fromDayNumber,
+  getTimeZoneOffset,
+  getWeekday,
+  isValidTimeZone,
+  resolveTimeZone,
+  startOfWeek,
+  toDayNumber,
+  toWeekNumber,
+  zonedTimeToDate,
+} from "../src/utils/dates";
+
+const NEW_YORK = "America/New_York";
+const SYDNEY = "Australia/Sydney";
+
+// Day number of a calendar date
+const day = (date: string) => Date.parse(`${date}T00:00:00Z`) / (24 * 60 * 60 * 1000);
+
+describe("toDayNumber", () => {
+  it("counts days from 1970-01-01", () => {
+    expect(toDayNumber("1970-01-01T00:00:00Z", "UTC")).toBe(0);
+    expect(toDayNumber("2024-03-15T12:00:00Z", "UTC")).toBe(day("2024-03-15"));
+    expect(fromDayNumber(day("2024-03-15")).toISOString()).toBe("2024-03-15T00:00:00.000Z");
+  });
+
+  it("keeps late evening on the same day behind UTC", () => {
+    // 23:59 and 00:00 in New York, on standard time (UTC-5)
+    expect(toDayNumber("2024-01-16T04:59:00Z", NEW_YORK)).toBe(day("2024-01-15"));
+    expect(toDayNumber("2024-01-16T05:00:00Z", NEW_YORK)).toBe(day("2024-01-16"));
+    expect(toDayNumber("2024-01-16T04:59:00Z", "UTC")).toBe(day("2024-01-16"));
+  });
+
+  it("moves midnight with daylight saving time", () => {
+    // On EDT (UTC-4) local midnight is an hour earlier in UTC
+    expect(toDayNumber("2024-07-16T03:59:00Z", NEW_YORK)).toBe(day("2024-07-15"));
+    expect(toDayNumber("2024-07-16T04:00:00Z", NEW_YORK)).toBe(day("2024-07-16"));
+  });
+
+  it("starts the day early ahead of UTC, including half-hour zones", () => {
+    expect(toDayNumber("2024-03-14T18:29:00Z", "Asia/Kolkata")).toBe(day("2024-03-14"));
+    expect(toDayNumber("2024-03-14T18:30:00Z", "Asia/Kolkata")).toBe(day("2024-03-15"));
+    // Sydney is on daylight time (UTC+11) until April
+    expect(toDayNumber("2024-03-14T12:59:00Z", SYDNEY)).toBe(day("2024-03-14"));
+    expect(toDayNumber("2024-03-14T13:00:00Z", SYDNEY)).toBe(day("2024-03-15"));
+  });
+
+  it("gives the short and long DST days one day number each", () => {
+    // 2024-03-10 is 23 hours long in New York, 2024-11-03 is 25
+    expect(toDayNumber("2024-03-10T05:00:00Z", NEW_YORK)).toBe(day("2024-03-10"));
+    expect(toDayNumber("2024-03-11T03:59:00Z", NEW_YORK)).toBe(day("2024-03-10"));
+    expect(toDayNumber("2024-03-11T04:00:00Z", NEW_YORK)).toBe(day("2024-03-11"));
+    expect(toDayNumber("2024-11-03T04:00:00Z", NEW_YORK)).toBe(day("2024-11-03"));
+    expect(toDayNumber("2024-11-04T04:59:00Z", NEW_YORK)).toBe(day("2024-11-03"));
+    expect(toDayNumber("2024-11-04T05:00:00Z", NEW_YORK)).toBe(day("2024-11-04"));
+  });
+});
+
+describe("getTimeZoneOffset", () => {
+  it("changes at the spring-forward instant", () => {
+    // 02:00 EST becomes 03:00 EDT at 07:00 UTC
+    expect(getTimeZoneOffset(new Date("2024-03-10T06:59:59Z"), NEW_YORK)).toBe(-300);
+    expect(getTimeZoneOffset(new Date("2024-03-10T07:00:00Z"), NEW_YORK)).toBe(-240);
+  });
+
+  it("changes at the fall-back instant", () => {
+    // 02:00 EDT becomes 01:00 EST at 06:00 UTC
+    expect(getTimeZoneOffset(new Date("2024-11-03T05:59:59Z"), NEW_YORK)).toBe(-240);
+    expect(getTimeZoneOffset(new Date("2024-11-03T06:00:00Z"), NEW_YORK)).toBe(-300);
+  });
+
+  it("follows the southern hemisphere's seasons", () => {
+    expect(getTimeZoneOffset(new Date("2024-01-15T00:00:00Z"), SYDNEY)).toBe(660);
+    expect(getTimeZoneOffset(new Date("2024-07-15T00:00:00Z"), SYDNEY)).toBe(600);
+  });
+
+  it("is zero for UTC", () => {
+    expect(getTimeZoneOffset(new Date("2024-03-10T07:00:00Z"), "UTC")).toBe(0);
+  });
+});
+
+describe("zonedTimeToDate", () => {
+  it("finds a wall-clock time on either side of a DST change", () => {
+    expect(zonedTimeToDate(day("2024-03-09"), 9 * 60, NEW_YORK).toISOString()).toBe("2024-03-09T14:00:00.000Z");
+    expect(zonedTimeToDate(day("2024-03-10"), 9 * 60, NEW_YORK).toISOString()).toBe("2024-03-10T13:00:00.000Z");
+    expect(zonedTimeToDate(day("2024-11-03"), 9 * 60, NEW_YORK).toISOString()).toBe("2024-11-03T14:00:00.000Z");
+  });
+
+  it("finds midnight and the last minute of the day", () => {
+    expect(zonedTimeToDate(day("2024-03-10"), 0, NEW_YORK).toISOString()).toBe("2024-03-10T05:00:00.000Z");
+    expect(zonedTimeToDate(day("2024-03-10"), 23 * 60 + 59, NEW_YORK).toISOString()).toBe("2024-03-11T03:59:00.000Z");
+    expect(zonedTimeToDate(day("2024-03-15"), 0, SYDNEY).toISOString()).toBe("2024-03-14T13:00:00.000Z");
+  });
+
+  it("moves a time skipped by spring-forward an hour early", () => {
+    // 02:30 doesn't exist on 2024-03-10 in New York
+    expect(zonedTimeToDate(day("2024-03-10"), 2 * 60 + 30, NEW_YORK).toISOString()).toBe("2024-03-10T06:30:00.000Z");
+  });
+
+  it("lands on the same calendar day it was asked for", () => {
+    ["2024-03-10", "2024-11-03", "2024-04-07", "2024-10-06"].forEach((date) => {
+      [0, 9 * 60, 23 * 60 + 59].forEach((minutes) => {
+        expect(toDayNumber(zonedTimeToDate(day(date), minutes, NEW_YORK), NEW_YORK)).toBe(day(date));
+        expect(toDayNumber(zonedTimeToDate(day(date), minutes, SYDNEY), SYDNEY)).toBe(day(date));
+      });
+    });
+  });
+});
+
+describe("weeks", () => {
+  it("numbers weekdays from Sunday", () => {
+    expect(getWeekday(0)).toBe(4); // Thursday 1970-01-01
+    expect(getWeekday(day("2024-03-10"))).toBe(0);
+    expect(getWeekday(day("2024-03-16"))).toBe(6);
+    expect(getWeekday(-1)).toBe(3);
+  });
+
+  it("starts weeks on the chosen weekday", () => {
+    const sunday = day("2024-03-10");
+    expect(startOfWeek(sunday, 0)).toBe(sunday);
+    expect(startOfWeek(sunday, 1)).toBe(day("2024-03-04"));
+    expect(startOfWeek(sunday, 6)).toBe(day("2024-03-09"));
+    expect(startOfWeek(day("2024-03-16"), 0)).toBe(sunday);
+  });
+
+  it("splits weeks between the last day and the first", () => {
+    const saturday = day("2024-03-09");
+    const sunday = day("2024-03-10");
+    const monday = day("2024-03-11");
+    expect(toWeekNumber(saturday, 0)).not.toBe(toWeekNumber(sunday, 0));
+    expect(toWeekNumber(sunday, 0)).toBe(toWeekNumber(monday, 0));
+    expect(toWeekNumber(saturday, 1)).toBe(toWeekNumber(sunday, 1));
+    expect(toWeekNumber(sunday, 1)).not.toBe(toWeekNumber(monday, 1));
+  });
+
+  it("agrees with startOfWeek for every first weekday", () => {
+    for (let weekStartsOn = 0; weekStartsOn < 7; weekStartsOn++) {
+      for (let dayNumber = day("2024-02-25"); dayNumber < day("2024-03-17"); dayNumber++) {
+        const start = startOfWeek(dayNumber, weekStartsOn);
+        expect(getWeekday(start)).toBe(weekStartsOn);
+        expect(dayNumber - start).toBeLessThan(7);
+        expect(toWeekNumber(dayNumber, weekStartsOn)).toBe(toWeekNumber(start, weekStartsOn));
+        expect(toWeekNumber(start + 7, weekStartsOn)).toBe(toWeekNumber(start, weekStartsOn) + 1);
+      }
+    }
+  });
+
+  it("puts an instant near midnight in the week of its local day", () => {
+    // Saturday 23:30 in New York is already Sunday in UTC
+    const instant = "2024-03-10T04:30:00Z";
+    expect(toWeekNumber(toDayNumber(instant, NEW_YORK), 0)).toBe(toWeekNumber(day("2024-03-09"), 0));
+    expect(toWeekNumber(toDayNumber(instant, "UTC"), 0)).toBe(toWeekNumber(day("2024-03-10"), 0));
+  });
+});
+
+describe("time zone names", () => {
+  it("accepts known IANA zones and rejects others", () => {
+    expect(isValidTimeZone(NEW_YORK)).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+
+  it("falls back to the device zone", () => {
+    expect(resolveTimeZone(SYDNEY)).toBe(SYDNEY);
+    expect(resolveTimeZone("Mars/Olympus_Mons")).toBe(resolveTimeZone(null));
+  });
+});
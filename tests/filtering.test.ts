@@ -0,0 +1,193 @@
+/**
+ * Filtering Tests
+ *
+ * The search bar's query language: parsing (tag:, quoted phrases, negation,
+ * OR), typo-tolerant matching, and filterItems end to end.
+ */
+
+import { describe, it, expect } from "vitest";
+import { filterItems, fuzzyMatch, parseSearchQuery } from "../src/utils/filtering";
+import type { FilterStats } from "../src/utils/filtering";
+import type { Quest } from "../src/types";
+
+const quest = (id: string, name: string, tags: string[] = [], reward = 10): Quest => ({
+  id,
+  name,
+  tags,
+  reward,
+  dollar_amount: 0,
+  completion_count: 0,
+  created_at: "2024-03-01T00:00:00Z",
+  updated_at: "2024-03-01T00:00:00Z",
+});
+
+const QUESTS = [
+  quest("walk", "Walk the dog", ["home", "health"]),
+  quest("gym", "Go to the gym", ["health"], 25),
+  quest("report", "Finish the report", ["work"], 40),
+  quest("dinner", "Dinner with friends", ["social life"]),
+];
+
+const TAG_LABELS: Record<string, string> = {
+  home: "Home",
+  health: "Health",
+  work: "Work",
+  "social life": "Social Life",
+};
+
+const search = (searchQuery: string, stats?: FilterStats) =>
+  filterItems<Quest, string>({ items: QUESTS, searchQuery, selectedTag: null, tagLabels: TAG_LABELS, stats })
+    .map((item) => item.id);
+
+describe("parseSearchQuery", () => {
+  it("parses tag: with comma-separated alternatives", () => {
+    expect(parseSearchQuery("tag:work,home").clauses).toEqual([
+      [{ kind: "tag", values: ["work", "home"], negated: false }],
+    ]);
+  });
+
+  it("treats # as a tag and - or _ as spaces in tag values", () => {
+    expect(parseSearchQuery("#social-life tags:social_life").clauses).toEqual([
+      [
+        { kind: "tag", values: ["social life"], negated: false },
+        { kind: "tag", values: ["social life"], negated: false },
+      ],
+    ]);
+  });
+
+  it("keeps quoted phrases together", () => {
+    expect(parseSearchQuery('"walk the" dog').clauses).toEqual([
+      [
+        { kind: "text", value: "walk the", negated: false },
+        { kind: "text", value: "dog", negated: false },
+      ],
+    ]);
+    expect(parseSearchQuery('tag:"social life"').clauses).toEqual([
+      [{ kind: "tag", values: ["social life"], negated: false }],
+    ]);
+  });
+
+  it("negates terms with - or !", () => {
+    expect(parseSearchQuery("-tag:work !gym").clauses).toEqual([
+      [
+        { kind: "tag", values: ["work"], negated: true },
+        { kind: "text", value: "gym", negated: true },
+      ],
+    ]);
+  });
+
+  it("reads never-done as a negated completion", () => {
+    expect(parseSearchQuery("never-done").clauses).toEqual([[{ kind: "done", period: "ever", negated: true }]]);
+  });
+
+  it("splits clauses on OR", () => {
+    const { clauses } = parseSearchQuery("gym OR tag:work reward>20");
+    expect(clauses).toHaveLength(2);
+    expect(clauses[1]).toEqual([
+      { kind: "tag", values: ["work"], negated: false },
+      { kind: "compare", field: "amount", op: ">", value: 20, negated: false },
+    ]);
+  });
+
+  it("falls back to text for unknown syntax", () => {
+    expect(parseSearchQuery("colour:red").clauses).toEqual([
+      [{ kind: "text", value: "colour:red", negated: false }],
+    ]);
+    expect(parseSearchQuery("   ").clauses).toEqual([]);
+  });
+});
+
+describe("fuzzyMatch", () => {
+  it("prefers an exact substring", () => {
+    expect(fuzzyMatch("Walk the dog", "the")).toEqual({ start: 5, end: 8 });
+  });
+
+  it("allows no typos in short words", () => {
+    expect(fuzzyMatch("Walk the dog", "dgo")).toBeNull();
+    expect(fuzzyMatch("Go to the gym", "gmy")).toBeNull();
+  });
+
+  it("tolerates typos and swapped letters in longer words", () => {
+    expect(fuzzyMatch("Finish the report", "rpeort")).toEqual({ start: 11, end: 17 });
+    expect(fuzzyMatch("Finish the report", "repotr")).toEqual({ start: 11, end: 17 });
+  });
+
+  it("matches the start of a longer word", () => {
+    expect(fuzzyMatch("Daily exercises", "exersize")).toEqual({ start: 6, end: 14 });
+  });
+
+  it("picks the closest word over the first one", () => {
+    // "waiter" is two edits from "wafer", "water" only one
+    expect(fuzzyMatch("Waiter tip, water plants", "wafer")).toEqual({ start: 12, end: 17 });
+  });
+
+  it("doesn't match an empty pattern", () => {
+    expect(fuzzyMatch("Walk the dog", "")).toBeNull();
+  });
+});
+
+describe("filterItems", () => {
+  it("returns everything for an empty query", () => {
+    expect(search("")).toEqual(["walk", "gym", "report", "dinner"]);
+  });
+
+  it("requires every word to match", () => {
+    expect(search("walk dog")).toEqual(["walk"]);
+    expect(search("walk gym")).toEqual([]);
+  });
+
+  it("matches names with typos", () => {
+    expect(search("reprot")).toEqual(["report"]);
+  });
+
+  it("matches text against tag labels", () => {
+    expect(search("health")).toEqual(["walk", "gym"]);
+  });
+
+  it("filters by tag key or label", () => {
+    expect(search("tag:health")).toEqual(["walk", "gym"]);
+    expect(search('tag:"social life"')).toEqual(["dinner"]);
+    expect(search("tag:work,home")).toEqual(["walk", "report"]);
+    expect(search("#home #health")).toEqual(["walk"]);
+  });
+
+  it("excludes negated terms", () => {
+    expect(search("-tag:health")).toEqual(["report", "dinner"]);
+    expect(search("tag:health !walk")).toEqual(["gym"]);
+  });
+
+  it("matches a quoted phrase as a whole", () => {
+    expect(search('"the dog"')).toEqual(["walk"]);
+    expect(search('"the report dog"')).toEqual([]);
+  });
+
+  it("matches either side of OR", () => {
+    expect(search("dinner OR tag:work")).toEqual(["report", "dinner"]);
+  });
+
+  it("ignores numeric and completion terms without stats", () => {
+    expect(search("reward>20")).toEqual([]);
+  });
+
+  it("applies numeric and completion terms with stats", () => {
+    const stats: FilterStats = {
+      counts: { walk: 3 },
+      lastUsed: { walk: "2024-03-15T09:00:00Z" },
+      now: new Date("2024-03-15T12:00:00Z"),
+      timeZone: "UTC",
+    };
+    expect(search("reward>20", stats)).toEqual(["gym", "report"]);
+    expect(search("completed:today", stats)).toEqual(["walk"]);
+    expect(search("never-done", stats)).toEqual(["gym", "report", "dinner"]);
+  });
+
+  it("narrows to the selected tag first", () => {
+    const items = filterItems<Quest, string>({
+      items: QUESTS,
+      searchQuery: "walk OR gym",
+      selectedTag: "home",
+      tagLabels: TAG_LABELS,
+    });
+    expect(items.map((item) => item.id)).toEqual(["walk"]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Preferences Tests
+ *
+ * migratePreferences upgrading version 1 documents (the old user_preferences
+ * columns), falling back to defaults for missing or malformed fields, and
+ * reading documents written by a newer app without downgrading them.
+ */
+
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PREFERENCES, PREFERENCES_VERSION, migratePreferences } from "../src/utils/preferences";
+import type { Preferences } from "../src/utils/preferences";
+
+// A current document with every field changed from its default
+const CUSTOMIZED: Preferences = {
+  version: PREFERENCES_VERSION,
+  show_dollar_amounts: true,
+  currency_name: "gold coins",
+  currency_icon: "🪙",
+  sound_enabled: false,
+  sound_volume: 0.25,
+  theme: "dark",
+  default_view: "shop",
+  reminders_enabled: true,
+  reminder_lead_minutes: 30,
+  time_zone: "Europe/Berlin",
+  week_starts_on: 1,
+};
+
+describe("migratePreferences", () => {
+  describe("upgrading version 1", () => {
+    const V1 = {
+      version: 1,
+      show_dollar_amounts: true,
+      reminders_enabled: true,
+      reminder_lead_minutes: 15,
+      time_zone: "America/Chicago",
+      week_starts_on: 1,
+    };
+
+    it("keeps every setting version 1 had", () => {
+      const preferences = migratePreferences(V1);
+
+      expect(preferences.version).toBe(PREFERENCES_VERSION);
+      expect(preferences).toMatchObject({
+        show_dollar_amounts: true,
+        reminders_enabled: true,
+        reminder_lead_minutes: 15,
+        time_zone: "America/Chicago",
+        week_starts_on: 1,
+      });
+    });
+
+    it("fills the newer settings with the behaviour version 1 had", () => {
+      const preferences = migratePreferences(V1);
+
+      expect(preferences).toMatchObject({
+        currency_name: DEFAULT_PREFERENCES.currency_name,
+        currency_icon: DEFAULT_PREFERENCES.currency_icon,
+        sound_enabled: true,
+        sound_volume: DEFAULT_PREFERENCES.sound_volume,
+        theme: "system",
+        default_view: "last",
+      });
+    });
+
+    it("treats a document without a version as version 1", () => {
+      const { version: _version, ...unversioned } = V1;
+
+      expect(migratePreferences(unversioned)).toEqual(migratePreferences(V1));
+    });
+  });
+
+  describe("current documents", () => {
+    it("reads every field back unchanged", () => {
+      expect(migratePreferences(CUSTOMIZED)).toEqual(CUSTOMIZED);
+    });
+
+    it("reads an upgraded document back the same", () => {
+      const once = migratePreferences({ version: 1, show_dollar_amounts: true });
+
+      expect(migratePreferences(once)).toEqual(once);
+    });
+  });
+
+  describe("missing or malformed fields", () => {
+    it("falls back to the defaults for anything that isn't a document", () => {
+      [null, undefined, "dark", 42, [CUSTOMIZED]].forEach((raw) => {
+        expect(migratePreferences(raw)).toEqual(DEFAULT_PREFERENCES);
+      });
+    });
+
+    it("falls back to the default for each missing field", () => {
+      expect(migratePreferences({ version: PREFERENCES_VERSION })).toEqual(DEFAULT_PREFERENCES);
+      expect(migratePreferences({ version: PREFERENCES_VERSION, theme: "dark" })).toEqual({
+        ...DEFAULT_PREFERENCES,
+        theme: "dark",
+      });
+    });
+
+    it("falls back to the default for fields of the wrong type", () => {
+      const preferences = migratePreferences({
+        version: PREFERENCES_VERSION,
+        show_dollar_amounts: "yes",
+        sound_enabled: 0,
+        sound_volume: "0.5",
+        currency_name: 12,
+        time_zone: 5,
+      });
+
+      expect(preferences).toEqual(DEFAULT_PREFERENCES);
+    });
+
+    it("falls back to the default for numbers out of range", () => {
+      const preferences = migratePreferences({
+        version: PREFERENCES_VERSION,
+        sound_volume: 1.5,
+        reminder_lead_minutes: -5,
+        week_starts_on: 7,
+      });
+
+      expect(preferences.sound_volume).toBe(DEFAULT_PREFERENCES.sound_volume);
+      expect(preferences.reminder_lead_minutes).toBe(DEFAULT_PREFERENCES.reminder_lead_minutes);
+      expect(preferences.week_starts_on).toBe(DEFAULT_PREFERENCES.week_starts_on);
+      expect(migratePreferences({ version: PREFERENCES_VERSION, sound_volume: Number.NaN }).sound_volume).toBe(
+        DEFAULT_PREFERENCES.sound_volume
+      );
+    });
+
+    it("rounds a fractional week start", () => {
+      expect(migratePreferences({ version: PREFERENCES_VERSION, week_starts_on: 1.4 }).week_starts_on).toBe(1);
+    });
+
+    it("trims text and rejects blank or overlong names", () => {
+      const read = (currencyName: string) =>
+        migratePreferences({ version: PREFERENCES_VERSION, currency_name: currencyName }).currency_name;
+
+      expect(read("  gold coins  ")).toBe("gold coins");
+      expect(read("   ")).toBe(DEFAULT_PREFERENCES.currency_name);
+      expect(read("x".repeat(41))).toBe(DEFAULT_PREFERENCES.currency_name);
+    });
+
+    it("falls back to the default for unknown options", () => {
+      const preferences = migratePreferences({
+        version: PREFERENCES_VERSION,
+        theme: "sepia",
+        default_view: "settings",
+      });
+
+      expect(preferences.theme).toBe(DEFAULT_PREFERENCES.theme);
+      expect(preferences.default_view).toBe(DEFAULT_PREFERENCES.default_view);
+    });
+
+    it("follows the device for an empty time zone", () => {
+      expect(migratePreferences({ version: PREFERENCES_VERSION, time_zone: "" }).time_zone).toBeNull();
+    });
+  });
+
+  describe("documents from a newer app", () => {
+    const NEWER = { ...CUSTOMIZED, version: PREFERENCES_VERSION + 1, compact_cards: true };
+
+    it("keeps the newer version so saving doesn't downgrade the document", () => {
+      expect(migratePreferences(NEWER).version).toBe(PREFERENCES_VERSION + 1);
+    });
+
+    it("reads the fields this version knows without migrating them", () => {
+      expect(migratePreferences(NEWER)).toEqual({ ...CUSTOMIZED, version: PREFERENCES_VERSION + 1 });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Reward Rule Tests
+ *
+ * evaluateRewardRules for each rule kind, how several rules stack, and the
+ * cases where no rule applies. All dates are in UTC.
+ */
+
+import { describe, it, expect } from "vitest";
+import { evaluateRewardRules } from "../src/utils/rewardRules";
+import type { RewardContext } from "../src/utils/rewardRules";
+import type { RewardRule, RewardRuleConfig } from "../src/types";
+
+// Friday 2024-03-15, midday
+const NOW = new Date("2024-03-15T12:00:00Z");
+const USER = "me";
+
+const rule = (id: string, config: RewardRuleConfig, enabled = true): RewardRule => ({
+  ...config,
+  id,
+  user_id: USER,
+  household_id: "household",
+  enabled,
+  created_at: "2024-03-01T00:00:00Z",
+  updated_at: "2024-03-01T00:00:00Z",
+});
+
+const STREAK = rule("streak", { kind: "streak_multiplier", params: { min_streak: 3, multiplier: 1.5 } });
+const FIRST = rule("first", { kind: "first_of_day", params: { amount: 5 } });
+const FRIDAY = rule("friday", { kind: "weekday_multiplier", params: { weekdays: [5], multiplier: 2 } });
+const WEEKEND = rule("weekend", { kind: "weekday_multiplier", params: { weekdays: [0, 6], multiplier: 2 } });
+const HEALTH = rule("health", { kind: "tag_combo", params: { tag: "health", amount: 20 } });
+
+const completion = (quest_id: string, completed_at: string, user_id = USER) => ({
+  quest_id,
+  user_id,
+  completed_at,
+  reversed_at: null,
+});
+
+const context = (overrides: Partial<RewardContext> = {}): RewardContext => ({
+  quest: { id: "run", tags: ["health"], cadence: { type: "daily" }, grace_periods: 0 },
+  baseReward: 10,
+  quests: [
+    { id: "run", tags: ["health"] },
+    { id: "stretch", tags: ["health"] },
+    { id: "report", tags: ["work"] },
+  ],
+  logs: [],
+  userId: USER,
+  now: NOW,
+  timeZone: "UTC",
+  ...overrides,
+});
+
+describe("evaluateRewardRules", () => {
+  describe("streak multiplier", () => {
+    it("applies once the streak, counting this completion, reaches the minimum", () => {
+      const logs = [completion("run", "2024-03-13T08:00:00Z"), completion("run", "2024-03-14T08:00:00Z")];
+      const result = evaluateRewardRules([STREAK], context({ logs }));
+      expect(result.bonuses).toEqual([{ rule_id: "streak", label: "🔥 Streak 3+ ×1.5", amount: 5 }]);
+      expect(result.total).toBe(15);
+    });
+
+    it("doesn't apply to a shorter streak", () => {
+      const logs = [completion("run", "2024-03-14T08:00:00Z")];
+      expect(evaluateRewardRules([STREAK], context({ logs })).bonuses).toEqual([]);
+    });
+
+    it("ignores reversed completions", () => {
+      const logs = [
+        { ...completion("run", "2024-03-13T08:00:00Z"), reversed_at: "2024-03-13T09:00:00Z" },
+        completion("run", "2024-03-14T08:00:00Z"),
+      ];
+      expect(evaluateRewardRules([STREAK], context({ logs })).bonusTotal).toBe(0);
+    });
+  });
+
+  describe("first of the day", () => {
+    it("applies to the user's first completion today", () => {
+      const logs = [completion("report", "2024-03-14T22:00:00Z"), completion("report", "2024-03-15T09:00:00Z", "partner")];
+      expect(evaluateRewardRules([FIRST], context({ logs })).bonusTotal).toBe(5);
+    });
+
+    it("doesn't apply after another completion today", () => {
+      const logs = [completion("report", "2024-03-15T09:00:00Z")];
+      expect(evaluateRewardRules([FIRST], context({ logs })).bonusTotal).toBe(0);
+    });
+
+    it("counts today in the user's time zone", () => {
+      // 2024-03-15T02:00Z is still the 14th in New York
+      const logs = [completion("report", "2024-03-15T02:00:00Z")];
+      expect(evaluateRewardRules([FIRST], context({ logs })).bonusTotal).toBe(0);
+      expect(evaluateRewardRules([FIRST], context({ logs, timeZone: "America/New_York" })).bonusTotal).toBe(5);
+    });
+  });
+
+  describe("weekday multiplier", () => {
+    it("applies on a listed weekday", () => {
+      const result = evaluateRewardRules([FRIDAY], context());
+      expect(result.bonuses).toEqual([{ rule_id: "friday", label: "🎉 Fri ×2", amount: 10 }]);
+    });
+
+    it("doesn't apply on other days", () => {
+      const result = evaluateRewardRules([WEEKEND], context());
+      expect(result.bonuses).toEqual([]);
+      expect(evaluateRewardRules([WEEKEND], context({ now: new Date("2024-03-16T12:00:00Z") })).bonuses).toEqual([
+        { rule_id: "weekend", label: "🎉 Weekend ×2", amount: 10 },
+      ]);
+    });
+  });
+
+  describe("tag combo", () => {
+    it("applies to the completion that finishes the tag's quests for today", () => {
+      const logs = [completion("stretch", "2024-03-15T08:00:00Z")];
+      const result = evaluateRewardRules([HEALTH], context({ logs, tagLabels: { health: "Health" } }));
+      expect(result.bonuses).toEqual([{ rule_id: "health", label: "💪 Health combo", amount: 20 }]);
+    });
+
+    it("doesn't apply while a quest with the tag is still open", () => {
+      expect(evaluateRewardRules([HEALTH], context()).bonusTotal).toBe(0);
+    });
+
+    it("doesn't apply twice once the set is done", () => {
+      const logs = [completion("stretch", "2024-03-15T08:00:00Z"), completion("run", "2024-03-15T09:00:00Z")];
+      expect(evaluateRewardRules([HEALTH], context({ logs })).bonusTotal).toBe(0);
+    });
+
+    it("doesn't apply to a quest without the tag", () => {
+      const logs = [completion("run", "2024-03-15T08:00:00Z"), completion("stretch", "2024-03-15T09:00:00Z")];
+      const quest = { id: "report", tags: ["work"], cadence: null, grace_periods: 0 };
+      expect(evaluateRewardRules([HEALTH], context({ logs, quest })).bonusTotal).toBe(0);
+    });
+  });
+
+  describe("stacking", () => {
+    it("adds every matching rule as its own bonus", () => {
+      const logs = [
+        completion("run", "2024-03-13T08:00:00Z"),
+        completion("run", "2024-03-14T08:00:00Z"),
+        completion("stretch", "2024-03-14T09:00:00Z"),
+      ];
+      const result = evaluateRewardRules([STREAK, FIRST, FRIDAY, HEALTH], context({ logs }));
+      expect(result.bonuses.map((bonus) => [bonus.rule_id, bonus.amount])).toEqual([
+        ["streak", 5],
+        ["first", 5],
+        ["friday", 10],
+      ]);
+      expect(result.bonusTotal).toBe(20);
+      expect(result.total).toBe(30);
+    });
+
+    it("scales each multiplier from the base reward, not from each other", () => {
+      const double = rule("double", { kind: "weekday_multiplier", params: { weekdays: [5], multiplier: 2 } });
+      expect(evaluateRewardRules([FRIDAY, double], context()).total).toBe(30);
+    });
+
+    it("rounds multiplier bonuses to whole sea dollars", () => {
+      const logs = [completion("run", "2024-03-13T08:00:00Z"), completion("run", "2024-03-14T08:00:00Z")];
+      expect(evaluateRewardRules([STREAK], context({ logs, baseReward: 7 })).bonusTotal).toBe(4);
+    });
+  });
+
+  describe("no match", () => {
+    it("returns the base reward without rules", () => {
+      expect(evaluateRewardRules([], context())).toEqual({ bonuses: [], bonusTotal: 0, total: 10 });
+    });
+
+    it("skips disabled rules", () => {
+      const disabled = rule("off", { kind: "first_of_day", params: { amount: 5 } }, false);
+      expect(evaluateRewardRules([disabled], context()).bonuses).toEqual([]);
+    });
+
+    it("never subtracts for a multiplier below one", () => {
+      const half = rule("half", { kind: "weekday_multiplier", params: { weekdays: [5], multiplier: 0.5 } });
+      expect(evaluateRewardRules([half], context())).toEqual({ bonuses: [], bonusTotal: 0, total: 10 });
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Streak Tests
+ *
+ * calculateStreak against each cadence, with grace periods and the longest-run
+ * record. All dates are in UTC; time zone handling is covered in dates.test.ts.
+ */
+
+import { describe, it, expect } from "vitest";
+import { calculateStreak, calculateQuestStreaks } from "../src/utils/streaks";
+import type { StreakOptions } from "../src/utils/streaks";
+import { toDayNumber } from "../src/utils/dates";
+
+// Friday 2024-03-15, midday
+const NOW = new Date("2024-03-15T12:00:00Z");
+const OPTIONS: StreakOptions = { now: NOW, timeZone: "UTC" };
+
+const on = (...dates: string[]) => dates.map((date) => `${date}T12:00:00Z`);
+const dayOf = (date: string) => toDayNumber(`${date}T12:00:00Z`, "UTC");
+
+describe("calculateStreak", () => {
+  describe("daily cadence", () => {
+    it("counts consecutive days up to today", () => {
+      const result = calculateStreak(on("2024-03-13", "2024-03-14", "2024-03-15"), { type: "daily" }, OPTIONS);
+      expect(result.current_streak).toBe(3);
+      expect(result.longest_streak).toBe(3);
+      expect(result.period_unit).toBe("day");
+      expect(result.due_today).toBe(false);
+    });
+
+    it("doesn't break the streak while today is still open", () => {
+      const result = calculateStreak(on("2024-03-13", "2024-03-14"), { type: "daily" }, OPTIONS);
+      expect(result.current_streak).toBe(2);
+      expect(result.due_today).toBe(true);
+      expect(result.completed_this_period).toBe(0);
+      expect(result.required_this_period).toBe(1);
+    });
+
+    it("breaks the streak on a missed day", () => {
+      const result = calculateStreak(on("2024-03-11", "2024-03-13", "2024-03-14"), { type: "daily" }, OPTIONS);
+      expect(result.current_streak).toBe(2);
+    });
+
+    it("treats a missing cadence as daily", () => {
+      const result = calculateStreak(on("2024-03-14", "2024-03-15"), null, OPTIONS);
+      expect(result.current_streak).toBe(2);
+      expect(result.period_unit).toBe("day");
+    });
+
+    it("ignores completions logged after now", () => {
+      const result = calculateStreak(on("2024-03-15", "2024-03-16", "2024-03-17"), { type: "daily" }, OPTIONS);
+      expect(result.current_streak).toBe(1);
+      expect(result.completed_this_period).toBe(1);
+    });
+
+    it("returns an empty streak with no completions", () => {
+      const result = calculateStreak([], { type: "daily" }, OPTIONS);
+      expect(result.current_streak).toBe(0);
+      expect(result.longest_streak).toBe(0);
+      expect(result.due_today).toBe(true);
+    });
+  });
+
+  describe("times-per-week cadence", () => {
+    // Weeks start on Sunday: 2024-03-03..09 and 2024-03-10..16
+    it("counts a week once it reaches the target", () => {
+      const result = calculateStreak(
+        on("2024-03-04", "2024-03-05", "2024-03-06", "2024-03-11", "2024-03-12", "2024-03-13"),
+        { type: "times_per_week", times: 3 },
+        OPTIONS
+      );
+      expect(result.current_streak).toBe(2);
+      expect(result.period_unit).toBe("week");
+      expect(result.due_today).toBe(false);
+    });
+
+    it("reports progress through the current week", () => {
+      const result = calculateStreak(
+        on("2024-03-04", "2024-03-05", "2024-03-06", "2024-03-11", "2024-03-12"),
+        { type: "times_per_week", times: 3 },
+        OPTIONS
+      );
+      expect(result.current_streak).toBe(1);
+      expect(result.due_today).toBe(true);
+      expect(result.completed_this_period).toBe(2);
+      expect(result.required_this_period).toBe(3);
+    });
+
+    it("breaks the streak on a week below the target", () => {
+      const result = calculateStreak(
+        on("2024-02-26", "2024-02-27", "2024-02-28", "2024-03-04", "2024-03-05", "2024-03-11", "2024-03-12", "2024-03-13"),
+        { type: "times_per_week", times: 3 },
+        OPTIONS
+      );
+      expect(result.current_streak).toBe(1);
+      expect(result.longest_streak).toBe(1);
+    });
+
+    it("groups days by the configured week start", () => {
+      // Sunday the 3rd joins the 4th and 5th only when weeks start on Sunday
+      const logs = on("2024-03-03", "2024-03-04", "2024-03-05");
+      const cadence = { type: "times_per_week" as const, times: 3 };
+      expect(calculateStreak(logs, cadence, { ...OPTIONS, weekStartsOn: 0 }).current_streak).toBe(1);
+      expect(calculateStreak(logs, cadence, { ...OPTIONS, weekStartsOn: 1 }).current_streak).toBe(0);
+    });
+  });
+
+  describe("weekdays cadence", () => {
+    const cadence = { type: "weekdays" as const, days: [1, 3, 5] }; // Mon, Wed, Fri
+
+    it("only counts scheduled days", () => {
+      const result = calculateStreak(on("2024-03-08", "2024-03-11", "2024-03-13"), cadence, OPTIONS);
+      expect(result.current_streak).toBe(3);
+      expect(result.due_today).toBe(true);
+    });
+
+    it("isn't due on an unscheduled day", () => {
+      const result = calculateStreak(on("2024-03-13", "2024-03-15"), cadence, {
+        ...OPTIONS,
+        now: new Date("2024-03-16T12:00:00Z"),
+      });
+      expect(result.current_streak).toBe(2);
+      expect(result.due_today).toBe(false);
+      expect(result.required_this_period).toBe(0);
+    });
+  });
+
+  describe("grace periods", () => {
+    it("lets a streak skip a missed day", () => {
+      const logs = on("2024-03-11", "2024-03-13", "2024-03-14");
+      expect(calculateStreak(logs, { type: "daily" }, OPTIONS).current_streak).toBe(2);
+      expect(calculateStreak(logs, { type: "daily" }, { ...OPTIONS, gracePeriods: 1 }).current_streak).toBe(3);
+    });
+
+    it("breaks the streak once grace is spent", () => {
+      const result = calculateStreak(on("2024-03-09", "2024-03-11", "2024-03-13"), { type: "daily" }, {
+        ...OPTIONS,
+        gracePeriods: 1,
+      });
+      // The 10th spends the grace, the 12th breaks the run; the 14th spends the new run's grace
+      expect(result.current_streak).toBe(1);
+      expect(result.longest_streak).toBe(2);
+    });
+
+    it("doesn't start a streak with grace", () => {
+      const result = calculateStreak(on("2024-03-14"), { type: "daily" }, { ...OPTIONS, gracePeriods: 3 });
+      expect(result.current_streak).toBe(1);
+    });
+  });
+
+  describe("longest streak", () => {
+    it("keeps the longest run after a break", () => {
+      const result = calculateStreak(
+        on("2024-03-01", "2024-03-02", "2024-03-03", "2024-03-04", "2024-03-05", "2024-03-14", "2024-03-15"),
+        { type: "daily" },
+        OPTIONS
+      );
+      expect(result.current_streak).toBe(2);
+      expect(result.longest_streak).toBe(5);
+    });
+
+    it("includes older history passed in as day counts", () => {
+      // 2024-03-01..05, from before the loaded logs
+      const olderDayCounts = new Map(
+        ["2024-03-01", "2024-03-02", "2024-03-03", "2024-03-04", "2024-03-05"].map((date) => [dayOf(date), 1])
+      );
+      const result = calculateStreak(on("2024-03-14", "2024-03-15"), { type: "daily" }, {
+        ...OPTIONS,
+        olderDayCounts,
+      });
+      expect(result.current_streak).toBe(2);
+      expect(result.longest_streak).toBe(5);
+    });
+
+    it("counts several completions on one day once", () => {
+      const result = calculateStreak(
+        [...on("2024-03-14", "2024-03-15"), "2024-03-15T18:00:00Z"],
+        { type: "daily" },
+        OPTIONS
+      );
+      expect(result.current_streak).toBe(2);
+      expect(result.longest_streak).toBe(2);
+      expect(result.completed_this_period).toBe(2);
+    });
+  });
+});
+
+describe("calculateQuestStreaks", () => {
+  it("applies each quest's own cadence and grace", () => {
+    const streaks = calculateQuestStreaks(
+      [
+        { id: "run", cadence: { type: "daily" }, grace_periods: 1 },
+        { id: "swim", cadence: { type: "daily" }, grace_periods: 0 },
+      ],
+      [
+        ...on("2024-03-12", "2024-03-14").map((completed_at) => ({ quest_id: "run", completed_at })),
+        ...on("2024-03-12", "2024-03-14").map((completed_at) => ({ quest_id: "swim", completed_at })),
+      ],
+      OPTIONS
+    );
+    expect(streaks.run.current_streak).toBe(2);
+    expect(streaks.swim.current_streak).toBe(1);
+  });
+
+  it("joins each quest's older day totals to its loaded logs", () => {
+    const streaks = calculateQuestStreaks(
+      [
+        { id: "run", cadence: { type: "daily" }, grace_periods: 0 },
+        { id: "swim", cadence: { type: "daily" }, grace_periods: 0 },
+      ],
+      on("2024-03-14", "2024-03-15").map((completed_at) => ({ quest_id: "run", completed_at })),
+      OPTIONS,
+      [{ quest_id: "run", day: dayOf("2024-03-13"), count: 2 }]
+    );
+    expect(streaks.run.current_streak).toBe(3);
+    expect(streaks.swim.current_streak).toBe(0);
+  });
+});